@@ -357,6 +357,34 @@ describe('analyze', () => {
     expect(result.throttleSpectrogram).toBeUndefined();
   });
 
+  it('should include rpmSpectrogram and judge the RPM filter when motor RPM is logged', async () => {
+    const data = createFlightData({
+      sampleRate: 4000,
+      durationS: 5,
+      noiseFreqHz: 155,
+      noiseAmplitude: 10,
+      backgroundNoise: 1,
+    });
+    // Motors steady at 155 Hz (9300 RPM) — the tone is motor noise the filter missed
+    const rpm: TimeSeries = {
+      time: data.gyro[0].time,
+      values: data.gyro[0].values.map(() => 9300),
+    };
+    data.motorRpm = [rpm, rpm, rpm, rpm];
+    data.motorRpmSource = 'erpm';
+
+    const settings: CurrentFilterSettings = {
+      ...DEFAULT_FILTER_SETTINGS,
+      rpm_filter_harmonics: 3,
+      rpm_filter_q: 500,
+    };
+    const result = await analyze(data, 0, settings);
+
+    expect(result.rpmSpectrogram).toBeDefined();
+    expect(result.rpmSpectrogram!.harmonicResiduals[0].harmonic).toBe(1);
+    expect(result.recommendations.some((r) => r.ruleId === 'F-RPM-RES')).toBe(true);
+  });
+
   it('should include groupDelay with default settings', async () => {
     const data = createFlightData({
       sampleRate: 4000,
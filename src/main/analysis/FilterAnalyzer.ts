@@ -13,6 +13,7 @@ import type {
   AnalysisWarning,
   CurrentFilterSettings,
   DataQualityScore,
+  ExcludedSpan,
   PowerSpectrum,
   ThrottleSpectrogramResult,
 } from '@shared/types/analysis.types';
@@ -26,9 +27,11 @@ import {
   isRpmFilterActive,
   recommendRpmFilterQ,
   recommendDtermDynExpo,
+  recommendRpmFilterFromResidual,
 } from './FilterRecommender';
 import { scoreFilterDataQuality, adjustFilterConfidenceByQuality } from './DataQualityScorer';
 import { computeThrottleSpectrogram } from './ThrottleSpectrogramAnalyzer';
+import { computeRpmSpectrogram } from './RpmSpectrogramAnalyzer';
 import { estimateGroupDelay } from './GroupDelayEstimator';
 import { analyzeWindDisturbance } from './WindDisturbanceDetector';
 import { checkMechanicalHealth } from './MechanicalHealthChecker';
@@ -44,6 +47,10 @@ export interface FilterAnalysisOptions {
   droneSize?: DroneSize;
   /** Flight style from user profile (enables D-term expo advisory) */
   flightStyle?: FlightStyle;
+  /** Failsafe / angle-mode spans from the event timeline, skipped during segmentation */
+  excludedSpans?: ExcludedSpan[];
+  /** FC mixer mode (MIXER_MODE) — enables coaxial motor pair comparison */
+  mixerMode?: number;
 }
 
 /**
@@ -67,8 +74,8 @@ export async function analyze(
 
   // Step 1: Find flight segments — prefer throttle sweeps over steady hovers
   onProgress?.({ step: 'segmenting', percent: 5 });
-  const sweepSegments = findThrottleSweepSegments(flightData);
-  const steadySegments = findSteadySegments(flightData);
+  const sweepSegments = findThrottleSweepSegments(flightData, options?.excludedSpans);
+  const steadySegments = findSteadySegments(flightData, options?.excludedSpans);
 
   // Prefer sweeps (higher quality noise data across RPM range), fall back to hovers
   const segments = sweepSegments.length > 0 ? sweepSegments : steadySegments;
@@ -150,6 +157,9 @@ export async function analyze(
     throttleSpectrogram = computeThrottleSpectrogram(flightData);
   }
 
+  // Step 3c: RPM-indexed spectrogram (only with motor RPM telemetry in the log)
+  const rpmSpectrogram = computeRpmSpectrogram(flightData);
+
   await yieldToEventLoop();
 
   // Step 4: Generate recommendations
@@ -169,7 +179,7 @@ export async function analyze(
   const windDisturbance = analyzeWindDisturbance(flightData);
 
   // Step 7: Mechanical health diagnostic
-  const mechanicalHealth = checkMechanicalHealth(flightData, noiseProfile);
+  const mechanicalHealth = checkMechanicalHealth(flightData, noiseProfile, options?.mixerMode);
 
   // Step 8: Dynamic lowpass analysis
   const dynamicLowpass = analyzeDynamicLowpass(throttleSpectrogram);
@@ -182,6 +192,9 @@ export async function analyze(
     recommendations.push(...dynLowpassRecs);
   }
 
+  // Step 8b: RPM filter effectiveness from harmonic residuals
+  recommendations.push(...recommendRpmFilterFromResidual(rpmSpectrogram, currentSettings));
+
   // Step 9: Profile-aware advisory recommendations
   appendProfileAdvisories(recommendations, currentSettings, options);
 
@@ -198,6 +211,7 @@ export async function analyze(
     dataQuality: qualityResult.score,
     ...(qualityResult.warnings.length > 0 ? { warnings: qualityResult.warnings } : {}),
     ...(throttleSpectrogram?.bandsWithData ? { throttleSpectrogram } : {}),
+    ...(rpmSpectrogram?.bandsWithData ? { rpmSpectrogram } : {}),
     groupDelay,
     windDisturbance,
     mechanicalHealth,
@@ -243,6 +257,7 @@ async function analyzeEntireFlight(
   if (flightData.setpoint[3]?.values.length > 0) {
     throttleSpectrogram = computeThrottleSpectrogram(flightData);
   }
+  const rpmSpectrogram = computeRpmSpectrogram(flightData);
 
   onProgress?.({ step: 'recommending', percent: 85 });
   const rpmActive = isRpmFilterActive(currentSettings);
@@ -260,7 +275,7 @@ async function analyzeEntireFlight(
   const windDisturbance = analyzeWindDisturbance(flightData);
 
   // Mechanical health diagnostic
-  const mechanicalHealth = checkMechanicalHealth(flightData, noiseProfile);
+  const mechanicalHealth = checkMechanicalHealth(flightData, noiseProfile, options?.mixerMode);
 
   // Dynamic lowpass analysis
   const dynamicLowpass = analyzeDynamicLowpass(throttleSpectrogram);
@@ -273,6 +288,9 @@ async function analyzeEntireFlight(
     recommendations.push(...dynLowpassRecs);
   }
 
+  // RPM filter effectiveness from harmonic residuals
+  recommendations.push(...recommendRpmFilterFromResidual(rpmSpectrogram, currentSettings));
+
   // Profile-aware advisory recommendations
   appendProfileAdvisories(recommendations, currentSettings, options);
 
@@ -287,6 +305,7 @@ async function analyzeEntireFlight(
     warnings,
     dataQuality,
     ...(throttleSpectrogram?.bandsWithData ? { throttleSpectrogram } : {}),
+    ...(rpmSpectrogram?.bandsWithData ? { rpmSpectrogram } : {}),
     groupDelay,
     windDisturbance,
     mechanicalHealth,
@@ -305,8 +324,11 @@ function appendProfileAdvisories(
 ): void {
   if (!options) return;
 
+  // A measured RPM Q recommendation (from harmonic residuals) beats the size heuristic
   const rpmQRec = recommendRpmFilterQ(currentSettings, options.droneSize);
-  if (rpmQRec) recommendations.push(rpmQRec);
+  if (rpmQRec && !recommendations.some((r) => r.setting === rpmQRec.setting)) {
+    recommendations.push(rpmQRec);
+  }
 
   const dexpRec = recommendDtermDynExpo(currentSettings, options.flightStyle);
   if (dexpRec) recommendations.push(dexpRec);
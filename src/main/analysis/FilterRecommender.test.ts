@@ -6,12 +6,14 @@ import {
   isRpmFilterActive,
   recommendRpmFilterQ,
   recommendDtermDynExpo,
+  recommendRpmFilterFromResidual,
 } from './FilterRecommender';
 import type {
   NoiseProfile,
   AxisNoiseProfile,
   CurrentFilterSettings,
   NoisePeak,
+  RpmSpectrogramResult,
 } from '@shared/types/analysis.types';
 import { DEFAULT_FILTER_SETTINGS } from '@shared/types/analysis.types';
 import {
@@ -1111,6 +1113,77 @@ describe('recommendRpmFilterQ', () => {
 
 // ---- D-term LPF Dynamic Expo Advisory (F-DEXP) ----
 
+describe('recommendRpmFilterFromResidual', () => {
+  function makeRpmSpectrogram(residualDb: number[]): RpmSpectrogramResult {
+    return {
+      bands: [],
+      numBands: 10,
+      minSamplesPerBand: 512,
+      bandsWithData: 5,
+      source: 'erpm',
+      harmonicResiduals: residualDb.map((db, i) => ({
+        harmonic: i + 1,
+        residualDb: db,
+        bandCount: 5,
+      })),
+    };
+  }
+
+  const rpmOn: CurrentFilterSettings = {
+    ...DEFAULT_FILTER_SETTINGS,
+    rpm_filter_harmonics: 2,
+    rpm_filter_q: 500,
+  };
+
+  it('should return nothing without data or when all harmonics are clean', () => {
+    expect(recommendRpmFilterFromResidual(undefined, rpmOn)).toEqual([]);
+    expect(recommendRpmFilterFromResidual(makeRpmSpectrogram([2, 3, 1]), rpmOn)).toEqual([]);
+  });
+
+  it('should recommend enabling the RPM filter when it is off and harmonics are visible', () => {
+    const settings = { ...DEFAULT_FILTER_SETTINGS, rpm_filter_harmonics: 0 };
+    const recs = recommendRpmFilterFromResidual(makeRpmSpectrogram([20, 8, 2]), settings);
+
+    expect(recs).toHaveLength(1);
+    expect(recs[0]).toMatchObject({
+      setting: 'rpm_filter_harmonics',
+      currentValue: 0,
+      recommendedValue: 3,
+      ruleId: 'F-RPM-EN',
+    });
+  });
+
+  it('should recommend more harmonics when an unfiltered harmonic leaks', () => {
+    const recs = recommendRpmFilterFromResidual(makeRpmSpectrogram([2, 3, 12]), rpmOn);
+
+    expect(recs).toHaveLength(1);
+    expect(recs[0]).toMatchObject({
+      setting: 'rpm_filter_harmonics',
+      currentValue: 2,
+      recommendedValue: 3,
+      ruleId: 'F-RPM-H',
+    });
+    expect(recs[0].reason).toContain('3× harmonic');
+  });
+
+  it('should recommend a wider notch when a filtered harmonic still leaks', () => {
+    const recs = recommendRpmFilterFromResidual(makeRpmSpectrogram([10, 2, 1]), rpmOn);
+
+    expect(recs).toHaveLength(1);
+    expect(recs[0]).toMatchObject({
+      setting: 'rpm_filter_q',
+      currentValue: 500,
+      recommendedValue: 400,
+      ruleId: 'F-RPM-RES',
+    });
+  });
+
+  it('should not lower Q below the Betaflight minimum', () => {
+    const settings = { ...rpmOn, rpm_filter_q: 250 };
+    expect(recommendRpmFilterFromResidual(makeRpmSpectrogram([10, 2, 1]), settings)).toEqual([]);
+  });
+});
+
 describe('recommendDtermDynExpo', () => {
   it('should return undefined when D-term dynamic LPF is not active', () => {
     const settings: CurrentFilterSettings = {
@@ -9,6 +9,7 @@ import type {
   FilterRecommendation,
   CurrentFilterSettings,
   NoisePeak,
+  RpmSpectrogramResult,
 } from '@shared/types/analysis.types';
 import { DEFAULT_FILTER_SETTINGS } from '@shared/types/analysis.types';
 import type { DroneSize, FlightStyle } from '@shared/types/profile.types';
@@ -33,6 +34,10 @@ import {
   GYRO_LPF2_DISABLE_THRESHOLD_DB,
   RPM_FILTER_Q_BY_SIZE,
   RPM_FILTER_Q_DEVIATION_THRESHOLD,
+  RPM_RESIDUAL_THRESHOLD_DB,
+  RPM_HARMONIC_COUNT,
+  RPM_FILTER_Q_MIN,
+  RPM_FILTER_Q_WIDEN_FACTOR,
   DTERM_DYN_EXPO_BY_STYLE,
   DTERM_DYN_EXPO_DEFAULT,
 } from './constants';
@@ -707,6 +712,90 @@ export function recommendRpmFilterQ(
   };
 }
 
+/**
+ * Judge RPM filter effectiveness from the RPM-indexed spectrogram.
+ *
+ * Energy left standing around a motor harmonic means the filter is not removing it:
+ * - RPM filter off → enable it (the log has RPM telemetry, so bidirectional DShot works)
+ * - Harmonic above rpm_filter_harmonics → filter more harmonics
+ * - Harmonic already covered → notch too narrow for the harmonic spread, lower Q
+ *
+ * Rule IDs: F-RPM-EN, F-RPM-H (medium), F-RPM-RES (low)
+ */
+export function recommendRpmFilterFromResidual(
+  rpmSpectrogram: RpmSpectrogramResult | undefined,
+  current: CurrentFilterSettings
+): FilterRecommendation[] {
+  if (!rpmSpectrogram || rpmSpectrogram.bandsWithData === 0) return [];
+
+  const leaking = rpmSpectrogram.harmonicResiduals.filter(
+    (h) => h.residualDb >= RPM_RESIDUAL_THRESHOLD_DB
+  );
+  if (leaking.length === 0) return [];
+
+  const describe = (h: { harmonic: number; residualDb: number }) =>
+    `${h.harmonic === 1 ? 'fundamental' : `${h.harmonic}× harmonic`} (+${h.residualDb.toFixed(1)} dB)`;
+
+  if (!isRpmFilterActive(current)) {
+    return [
+      {
+        setting: 'rpm_filter_harmonics',
+        currentValue: current.rpm_filter_harmonics ?? 0,
+        recommendedValue: RPM_HARMONIC_COUNT,
+        reason:
+          `Motor noise is clearly visible at the ${leaking.map(describe).join(', ')}. ` +
+          'Your log already has motor RPM data, so the RPM filter can track these lines exactly — ' +
+          'enabling it removes motor noise with far less delay than lowpass filters.',
+        impact: 'noise',
+        confidence: 'medium',
+        ruleId: 'F-RPM-EN',
+      },
+    ];
+  }
+
+  const out: FilterRecommendation[] = [];
+  const configured = current.rpm_filter_harmonics ?? 0;
+
+  const uncovered = leaking.filter((h) => h.harmonic > configured);
+  if (uncovered.length > 0) {
+    const needed = Math.max(...uncovered.map((h) => h.harmonic));
+    out.push({
+      setting: 'rpm_filter_harmonics',
+      currentValue: configured,
+      recommendedValue: needed,
+      reason:
+        `The RPM filter covers ${configured} harmonic${configured === 1 ? '' : 's'}, but noise remains at the ` +
+        `${uncovered.map(describe).join(', ')}. Filtering ${needed} harmonics will remove it.`,
+      impact: 'noise',
+      confidence: 'medium',
+      ruleId: 'F-RPM-H',
+    });
+  }
+
+  const covered = leaking.filter((h) => h.harmonic <= configured);
+  if (covered.length > 0 && current.rpm_filter_q !== undefined) {
+    const targetQ = Math.max(
+      RPM_FILTER_Q_MIN,
+      Math.round((current.rpm_filter_q * RPM_FILTER_Q_WIDEN_FACTOR) / 10) * 10
+    );
+    if (targetQ < current.rpm_filter_q) {
+      out.push({
+        setting: 'rpm_filter_q',
+        currentValue: current.rpm_filter_q,
+        recommendedValue: targetQ,
+        reason:
+          `Noise still shows at the ${covered.map(describe).join(', ')} even though the RPM filter ` +
+          'targets it. The harmonic is spread wider than the notch — a lower Q widens the notch to catch it.',
+        impact: 'noise',
+        confidence: 'low',
+        ruleId: 'F-RPM-RES',
+      });
+    }
+  }
+
+  return out;
+}
+
 /**
  * Recommend D-term LPF1 dynamic expo adjustment based on flight style.
  * Only fires when D-term dynamic LPF is active (dterm_lpf1_dyn_min_hz > 0).
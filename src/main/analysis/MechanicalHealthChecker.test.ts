@@ -1,10 +1,15 @@
 import { describe, it, expect } from 'vitest';
 import {
   checkMechanicalHealth,
+  checkMotorNoiseSpread,
+  checkNoiseHealth,
+  getCoaxialMotorPairs,
+  parseMixerMode,
   EXTREME_NOISE_FLOOR_DB,
   AXIS_ASYMMETRY_THRESHOLD_DB,
   MOTOR_VARIANCE_RATIO_THRESHOLD,
 } from './MechanicalHealthChecker';
+import { MIXER_MODE } from '@shared/constants';
 import type { NoiseProfile } from '@shared/types/analysis.types';
 import type { BlackboxFlightData, TimeSeries } from '@shared/types/blackbox.types';
 
@@ -40,12 +45,7 @@ function makeFlightData(opts?: {
     pidI: [zero, zero, zero] as [TimeSeries, TimeSeries, TimeSeries],
     pidD: [zero, zero, zero] as [TimeSeries, TimeSeries, TimeSeries],
     pidF: [zero, zero, zero] as [TimeSeries, TimeSeries, TimeSeries],
-    motor: [
-      makeSeries(length, motorFns[0]),
-      makeSeries(length, motorFns[1]),
-      makeSeries(length, motorFns[2]),
-      makeSeries(length, motorFns[3]),
-    ] as [TimeSeries, TimeSeries, TimeSeries, TimeSeries],
+    motor: motorFns.map((fn) => makeSeries(length, fn)),
     debug: [],
     sampleRateHz: 4000,
     durationSeconds: length / 4000,
@@ -223,3 +223,117 @@ describe('checkMechanicalHealth', () => {
     expect(result.summary).toContain('inspecting hardware');
   });
 });
+
+describe('checkMechanicalHealth with more than 4 motors', () => {
+  const calm = (i: number) => 0.5 + Math.sin(i * 0.01) * 0.01;
+  const noisy = (i: number) => 0.5 + Math.sin(i * 0.1) * 0.1;
+  const scaled = (fn: (i: number) => number, k: number) => (i: number) => fn(i) * k;
+
+  it('should detect an imbalanced motor on a hex', () => {
+    const data = makeFlightData({ motorFns: [calm, calm, calm, calm, noisy, calm] });
+    const result = checkMechanicalHealth(data, makeNoiseProfile());
+
+    const motorIssues = result.issues.filter((i) => i.type === 'motor_imbalance');
+    expect(motorIssues).toHaveLength(1);
+    expect(motorIssues[0].message).toContain('Motor 5');
+    expect(result.motorVariance).toHaveLength(6);
+  });
+
+  it('should normalize 1000-2000 throttle when finding hover samples', () => {
+    const data = makeFlightData({ throttle: 1400, motorFns: [calm, calm, calm, noisy] });
+    const result = checkMechanicalHealth(data, makeNoiseProfile());
+
+    expect(result.issues.filter((i) => i.type === 'motor_imbalance')).toHaveLength(1);
+  });
+
+  it('should compare X8 motors within their layer, not across layers', () => {
+    // Lower layer noisier than the upper layer, but uniform within each layer
+    const data = makeFlightData({
+      motorFns: [calm, calm, calm, calm, noisy, noisy, noisy, noisy],
+    });
+
+    const flat = checkMechanicalHealth(data, makeNoiseProfile());
+    expect(flat.issues.some((i) => i.type === 'motor_imbalance')).toBe(true);
+
+    const coaxial = checkMechanicalHealth(data, makeNoiseProfile(), MIXER_MODE.OCTOX8);
+    expect(coaxial.issues.filter((i) => i.type === 'motor_imbalance')).toHaveLength(0);
+    expect(coaxial.coaxialPairs).toHaveLength(4);
+  });
+
+  it('should flag the coaxial pair whose upper/lower balance differs from the rest', () => {
+    const lower = scaled(calm, 1.12);
+    const data = makeFlightData({
+      motorFns: [calm, calm, calm, calm, lower, scaled(calm, 1.4), lower, lower],
+    });
+    const result = checkMechanicalHealth(data, makeNoiseProfile(), MIXER_MODE.OCTOX8);
+
+    expect(result.coaxialPairs![0].outputRatio).toBeCloseTo(1.12, 2);
+    const coaxIssues = result.issues.filter((i) => i.type === 'coaxial_imbalance');
+    expect(coaxIssues).toHaveLength(1);
+    expect(coaxIssues[0].message).toContain('pair 2/6');
+    expect(coaxIssues[0].message).toContain('motor 6');
+  });
+
+  it('should pair the Y4 rear motors and compare the front motors with each other', () => {
+    // Rear bottom prop works harder than rear top; front right is noisy
+    const data = makeFlightData({
+      motorFns: [calm, noisy, scaled(calm, 1.2), calm],
+    });
+    const result = checkMechanicalHealth(data, makeNoiseProfile(), MIXER_MODE.Y4);
+
+    expect(result.coaxialPairs).toHaveLength(1);
+    expect(result.coaxialPairs![0]).toMatchObject({ upper: 0, lower: 2 });
+    expect(result.coaxialPairs![0].outputRatio).toBeCloseTo(1.2, 2);
+    const motorIssues = result.issues.filter((i) => i.type === 'motor_imbalance');
+    expect(motorIssues).toHaveLength(1);
+    expect(motorIssues[0].message).toContain('Motor 2');
+  });
+});
+
+describe('parseMixerMode', () => {
+  it('should read the mixer header as a number or a mixer name', () => {
+    expect(parseMixerMode('11')).toBe(MIXER_MODE.OCTOX8);
+    expect(parseMixerMode('y6')).toBe(MIXER_MODE.Y6);
+    expect(parseMixerMode('CUSTOM')).toBeUndefined();
+  });
+});
+
+describe('getCoaxialMotorPairs', () => {
+  it('should pair upper and lower motors for coaxial mixers', () => {
+    expect(getCoaxialMotorPairs(MIXER_MODE.Y6, 6)).toEqual([
+      [0, 3],
+      [1, 4],
+      [2, 5],
+    ]);
+    expect(getCoaxialMotorPairs(MIXER_MODE.OCTOX8, 8)).toHaveLength(4);
+    // Y4: REAR_TOP, FRONT_R, REAR_BOTTOM, FRONT_L
+    expect(getCoaxialMotorPairs(MIXER_MODE.Y4, 4)).toEqual([[0, 2]]);
+  });
+
+  it('should return no pairs for flat mixers or mismatched motor counts', () => {
+    expect(getCoaxialMotorPairs(MIXER_MODE.OCTOFLATX, 8)).toEqual([]);
+    expect(getCoaxialMotorPairs(MIXER_MODE.OCTOX8, 4)).toEqual([]);
+  });
+});
+
+describe('bench noise checks', () => {
+  it('checkNoiseHealth flags extreme noise and roll/pitch asymmetry', () => {
+    const issues = checkNoiseHealth(makeNoiseProfile({ rollFloor: -10, pitchFloor: -45 }));
+
+    expect(issues.map((i) => i.type)).toEqual(['extreme_noise', 'axis_asymmetry']);
+    expect(checkNoiseHealth(makeNoiseProfile())).toEqual([]);
+  });
+
+  it('checkMotorNoiseSpread flags a motor louder than the others', () => {
+    const issues = checkMotorNoiseSpread([-45, -44, -45 + AXIS_ASYMMETRY_THRESHOLD_DB + 4, -46]);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('motor_imbalance');
+    expect(issues[0].message).toContain('Motor 3');
+  });
+
+  it('checkMotorNoiseSpread needs at least two motors and tolerates small spread', () => {
+    expect(checkMotorNoiseSpread([-10])).toEqual([]);
+    expect(checkMotorNoiseSpread([-45, -42, -47, -44])).toEqual([]);
+  });
+});
@@ -5,6 +5,11 @@
  * - Extreme noise floor (>-20 dB) — damaged prop, loose motor, vibration
  * - Asymmetric per-axis noise — bent prop, damaged motor, gyro mounting
  * - Abnormal motor output variance — motor imbalance, ESC issues
+ * - Coaxial pair mismatch — one pair's lower/upper output ratio off from the rest
+ *
+ * Works with any motor count. On coaxial mixers (Y4, Y6, X8) upper and lower
+ * motors are compared within their own layer, since the lower props run in
+ * the upper props' downwash and naturally behave differently.
  *
  * Runs on hover segments to get clean data unaffected by pilot input.
  */
@@ -14,8 +19,11 @@ import type {
   HealthSeverity,
   MechanicalHealthIssue,
   MechanicalHealthResult,
+  CoaxialPairComparison,
 } from '@shared/types/analysis.types';
+import { MIXER_MODE } from '@shared/constants';
 import { THROTTLE_MIN_FLIGHT, THROTTLE_MAX_HOVER } from './constants';
+import { normalizeThrottle } from './SegmentSelector';
 
 export type { HealthSeverity, MechanicalHealthIssue, MechanicalHealthResult };
 
@@ -30,45 +38,82 @@ export const AXIS_ASYMMETRY_THRESHOLD_DB = 8;
 /** Motor variance ratio — if max/min axis variance > this, motors are imbalanced */
 export const MOTOR_VARIANCE_RATIO_THRESHOLD = 3.0;
 
+/** Coaxial pair output ratio deviating more than this from the median pair is flagged */
+export const COAXIAL_RATIO_DEVIATION_THRESHOLD = 0.15;
+
 /** Minimum hover duration for motor analysis (seconds) */
 const MIN_HOVER_DURATION_S = 1.0;
 
 // ---- Implementation ----
 
 /**
- * Compute variance of samples within hover segments.
+ * Compute mean and variance of samples within hover segments.
+ * Both are 0 when there is not enough hover data.
  */
-function computeHoverVariance(
+function computeHoverStats(
   values: Float64Array,
   throttle: Float64Array,
   sampleRateHz: number
-): number {
+): { mean: number; variance: number } {
   const minSamples = Math.floor(MIN_HOVER_DURATION_S * sampleRateHz);
   let sum = 0;
   let sumSq = 0;
   let count = 0;
 
-  // Collect hover samples
+  // Collect hover samples (throttle may be logged as 0-1, 0-1000 or 1000-2000)
   for (let i = 0; i < values.length && i < throttle.length; i++) {
-    const t = throttle[i];
+    const t = normalizeThrottle(throttle[i]);
     if (t >= THROTTLE_MIN_FLIGHT && t <= THROTTLE_MAX_HOVER) {
       sum += values[i];
       count++;
     }
   }
 
-  if (count < minSamples) return 0;
+  if (count < minSamples || count < 2) return { mean: 0, variance: 0 };
 
   const mean = sum / count;
   for (let i = 0; i < values.length && i < throttle.length; i++) {
-    const t = throttle[i];
+    const t = normalizeThrottle(throttle[i]);
     if (t >= THROTTLE_MIN_FLIGHT && t <= THROTTLE_MAX_HOVER) {
       const diff = values[i] - mean;
       sumSq += diff * diff;
     }
   }
 
-  return sumSq / (count - 1);
+  return { mean, variance: sumSq / (count - 1) };
+}
+
+/**
+ * Mixer mode from a log's `mixer` header, logged as the mixerMode_e number
+ * or its name (e.g. "OCTOX8"). Undefined if the value is neither.
+ */
+export function parseMixerMode(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  return MIXER_MODE[trimmed.toUpperCase() as keyof typeof MIXER_MODE];
+}
+
+/**
+ * Upper/lower motor pairs for coaxial mixers (0-based indices).
+ * BF orders coaxial mixers as all upper motors first, then the lower ones
+ * in the same positions. Y4 is the exception: rear top, front right, rear
+ * bottom, front left — only the rear motors are coaxial.
+ * Returns an empty list for flat mixers or a motor count that doesn't fit.
+ */
+export function getCoaxialMotorPairs(mixerMode: number, motorCount: number): [number, number][] {
+  if (mixerMode === MIXER_MODE.Y4 && motorCount === 4) return [[0, 2]];
+
+  const layered =
+    (mixerMode === MIXER_MODE.Y6 && motorCount === 6) ||
+    (mixerMode === MIXER_MODE.OCTOX8 && motorCount === 8);
+  if (!layered) return [];
+
+  const half = motorCount / 2;
+  const pairs: [number, number][] = [];
+  for (let m = 0; m < half; m++) {
+    pairs.push([m, m + half]);
+  }
+  return pairs;
 }
 
 /**
@@ -126,42 +171,106 @@ function checkAxisAsymmetry(noiseProfile: NoiseProfile): MechanicalHealthIssue[]
   return issues;
 }
 
+/**
+ * Noise-only health checks (extreme floor, roll/pitch asymmetry) for a single
+ * spectrum — used by the bench vibration check, which has no motor outputs.
+ */
+export function checkNoiseHealth(noiseProfile: NoiseProfile): MechanicalHealthIssue[] {
+  return [...checkExtremeNoise(noiseProfile), ...checkAxisAsymmetry(noiseProfile)];
+}
+
+/**
+ * Compare per-motor gyro noise floors from a bench check, one motor spun at a time.
+ * A motor louder than the median of the others by more than the axis asymmetry
+ * threshold points at that motor (bearing, bent shaft, loose bell).
+ *
+ * @param motorFloorsDb - Worst roll/pitch noise floor per motor, indexed by motor
+ */
+export function checkMotorNoiseSpread(motorFloorsDb: number[]): MechanicalHealthIssue[] {
+  const issues: MechanicalHealthIssue[] = [];
+  if (motorFloorsDb.length < 2) return issues;
+
+  motorFloorsDb.forEach((floor, m) => {
+    const others = motorFloorsDb.filter((_, i) => i !== m).sort((a, b) => a - b);
+    const mid = Math.floor(others.length / 2);
+    const median = others.length % 2 === 0 ? (others[mid - 1] + others[mid]) / 2 : others[mid];
+    const diff = floor - median;
+    if (diff > AXIS_ASYMMETRY_THRESHOLD_DB) {
+      issues.push({
+        type: 'motor_imbalance',
+        severity: 'warning',
+        message: `Motor ${m + 1} is ${diff.toFixed(0)} dB noisier than the other motors on the bench. Check for a worn bearing, bent shaft, or loose bell.`,
+        measuredValue: diff,
+        threshold: AXIS_ASYMMETRY_THRESHOLD_DB,
+      });
+    }
+  });
+
+  return issues;
+}
+
 /**
  * Check for motor output variance imbalance during hover.
+ * Motors are compared within each group (all motors, or one layer of a coaxial frame).
  */
-function checkMotorImbalance(flightData: BlackboxFlightData): MechanicalHealthIssue[] {
+function checkMotorImbalance(
+  motorVariances: number[],
+  groups: number[][]
+): MechanicalHealthIssue[] {
   const issues: MechanicalHealthIssue[] = [];
-  const { motor, setpoint, sampleRateHz } = flightData;
 
-  // Need 4 motor channels and throttle data
-  if (motor.length < 4 || setpoint.length < 4) return issues;
+  for (const group of groups) {
+    const variances = group.map((m) => motorVariances[m]);
+
+    // Need at least 2 motors with data to compare
+    const nonZero = variances.filter((v) => v > 0);
+    if (nonZero.length < 2) continue;
 
-  const throttle = setpoint[3].values;
-  const motorVariances: number[] = [];
+    const maxVar = Math.max(...nonZero);
+    const minVar = Math.min(...nonZero);
 
-  for (let m = 0; m < 4; m++) {
-    const variance = computeHoverVariance(motor[m].values, throttle, sampleRateHz);
-    motorVariances.push(variance);
+    if (minVar > 0 && maxVar / minVar > MOTOR_VARIANCE_RATIO_THRESHOLD) {
+      const worstMotor = group[variances.indexOf(maxVar)];
+      const peers = groups.length > 1 ? 'motor on the same layer' : 'motor';
+      issues.push({
+        type: 'motor_imbalance',
+        severity: 'warning',
+        message: `Motor ${worstMotor + 1} shows ${(maxVar / minVar).toFixed(1)}x more variance than the quietest ${peers} during hover. Check for damaged motor, ESC issue, or uneven prop balance.`,
+        measuredValue: maxVar / minVar,
+        threshold: MOTOR_VARIANCE_RATIO_THRESHOLD,
+      });
+    }
   }
 
-  // Check if all motors have data
-  if (motorVariances.every((v) => v === 0)) return issues;
+  return issues;
+}
 
-  const nonZero = motorVariances.filter((v) => v > 0);
-  if (nonZero.length < 2) return issues;
+/**
+ * Compare lower/upper hover output across coaxial pairs.
+ * The ratio itself depends on the frame, so a pair is only flagged when it
+ * deviates from the median pair — needs at least 2 pairs.
+ */
+function checkCoaxialPairs(pairs: CoaxialPairComparison[]): MechanicalHealthIssue[] {
+  const issues: MechanicalHealthIssue[] = [];
+  if (pairs.length < 2) return issues;
 
-  const maxVar = Math.max(...nonZero);
-  const minVar = Math.min(...nonZero);
+  const ratios = pairs.map((p) => p.outputRatio).sort((a, b) => a - b);
+  const mid = Math.floor(ratios.length / 2);
+  const median = ratios.length % 2 === 0 ? (ratios[mid - 1] + ratios[mid]) / 2 : ratios[mid];
+  if (median <= 0) return issues;
 
-  if (minVar > 0 && maxVar / minVar > MOTOR_VARIANCE_RATIO_THRESHOLD) {
-    const worstMotor = motorVariances.indexOf(maxVar);
-    issues.push({
-      type: 'motor_imbalance',
-      severity: 'warning',
-      message: `Motor ${worstMotor + 1} shows ${(maxVar / minVar).toFixed(1)}x more variance than the quietest motor during hover. Check for damaged motor, ESC issue, or uneven prop balance.`,
-      measuredValue: maxVar / minVar,
-      threshold: MOTOR_VARIANCE_RATIO_THRESHOLD,
-    });
+  for (const pair of pairs) {
+    const deviation = Math.abs(pair.outputRatio - median) / median;
+    if (deviation > COAXIAL_RATIO_DEVIATION_THRESHOLD) {
+      const working = pair.outputRatio > median ? pair.lower : pair.upper;
+      issues.push({
+        type: 'coaxial_imbalance',
+        severity: 'warning',
+        message: `Coaxial pair ${pair.upper + 1}/${pair.lower + 1} is ${(deviation * 100).toFixed(0)}% off the other pairs' upper/lower balance — motor ${working + 1} is working harder. Check props, motor direction, and ESC on that arm.`,
+        measuredValue: deviation,
+        threshold: COAXIAL_RATIO_DEVIATION_THRESHOLD,
+      });
+    }
   }
 
   return issues;
@@ -193,11 +302,13 @@ function generateSummary(status: HealthSeverity, issues: MechanicalHealthIssue[]
  *
  * @param flightData - Parsed blackbox flight data
  * @param noiseProfile - Noise profile from filter analysis
+ * @param mixerMode - FC mixer mode (MIXER_MODE) — enables coaxial pair comparison
  * @returns Diagnostic result with issues and recommendations
  */
 export function checkMechanicalHealth(
   flightData: BlackboxFlightData,
-  noiseProfile: NoiseProfile
+  noiseProfile: NoiseProfile,
+  mixerMode?: number
 ): MechanicalHealthResult {
   const issues: MechanicalHealthIssue[] = [];
 
@@ -207,8 +318,45 @@ export function checkMechanicalHealth(
   // Check 2: Axis asymmetry
   issues.push(...checkAxisAsymmetry(noiseProfile));
 
-  // Check 3: Motor imbalance
-  issues.push(...checkMotorImbalance(flightData));
+  // Hover statistics per motor (needs throttle data)
+  const { motor, setpoint, sampleRateHz } = flightData;
+  let motorStats: Array<{ mean: number; variance: number }> = [];
+  if (motor.length >= 2 && setpoint.length >= 4) {
+    const throttle = setpoint[3].values;
+    motorStats = motor.map((m) => computeHoverStats(m.values, throttle, sampleRateHz));
+  }
+
+  // Check 3: Motor imbalance (per layer on coaxial frames)
+  const pairs =
+    mixerMode !== undefined && motorStats.length > 0
+      ? getCoaxialMotorPairs(mixerMode, motor.length)
+      : [];
+  const motorVariance = motorStats.length > 0 ? motorStats.map((m) => m.variance) : undefined;
+  if (motorVariance) {
+    // Motors outside any pair (Y4's front arms) form their own flat group
+    const paired = new Set(pairs.flat());
+    const unpaired = motorVariance.map((_, m) => m).filter((m) => !paired.has(m));
+    const groups =
+      pairs.length > 0
+        ? [pairs.map(([upper]) => upper), pairs.map(([, lower]) => lower), unpaired]
+        : [unpaired];
+    issues.push(...checkMotorImbalance(motorVariance, groups));
+  }
+
+  // Check 4: Coaxial pair balance
+  let coaxialPairs: CoaxialPairComparison[] | undefined;
+  if (pairs.length > 0) {
+    coaxialPairs = pairs
+      .filter(([upper, lower]) => motorStats[upper].mean > 0 && motorStats[lower].mean > 0)
+      .map(([upper, lower]) => ({
+        upper,
+        lower,
+        upperMean: motorStats[upper].mean,
+        lowerMean: motorStats[lower].mean,
+        outputRatio: motorStats[lower].mean / motorStats[upper].mean,
+      }));
+    issues.push(...checkCoaxialPairs(coaxialPairs));
+  }
 
   // Determine overall status
   let status: HealthSeverity = 'ok';
@@ -225,25 +373,12 @@ export function checkMechanicalHealth(
     yaw: noiseProfile.yaw.noiseFloorDb,
   };
 
-  // Motor variance (if available)
-  let motorVariance: [number, number, number, number] | undefined;
-  if (flightData.motor.length >= 4 && flightData.setpoint.length >= 4) {
-    const throttle = flightData.setpoint[3].values;
-    motorVariance = [0, 0, 0, 0];
-    for (let m = 0; m < 4; m++) {
-      motorVariance[m] = computeHoverVariance(
-        flightData.motor[m].values,
-        throttle,
-        flightData.sampleRateHz
-      );
-    }
-  }
-
   return {
     status,
     issues,
     noiseFloors,
     motorVariance,
+    ...(coaxialPairs && { coaxialPairs }),
     summary: generateSummary(status, issues),
   };
 }
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeRates,
+  computeStickUsage,
+  extractRatesConfiguration,
+  recommendRateTarget,
+  MAX_RATE_CEILING,
+  CENTER_DOMINANT_MIN_EXPO,
+} from './RatesAnalyzer';
+import type { BlackboxFlightData, TimeSeries } from '@shared/types/blackbox.types';
+import type { RatesConfiguration } from '@shared/types/pid.types';
+import type { RateTarget, StickUsage } from '@shared/types/analysis.types';
+import { rateAt } from '@shared/utils/rateCurves';
+
+const SAMPLE_RATE = 1000;
+
+function makeSeries(length: number, fn: (i: number) => number): TimeSeries {
+  const time = new Float64Array(length);
+  const values = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    time[i] = i / SAMPLE_RATE;
+    values[i] = fn(i);
+  }
+  return { time, values };
+}
+
+const ACTUAL_RATES: RatesConfiguration = {
+  ratesType: 'ACTUAL',
+  roll: { rcRate: 20, rate: 67, rcExpo: 54, rateLimit: 1998 },
+  pitch: { rcRate: 20, rate: 67, rcExpo: 54, rateLimit: 1998 },
+  yaw: { rcRate: 20, rate: 67, rcExpo: 54, rateLimit: 1998 },
+};
+
+/**
+ * Flight where each axis follows a stick pattern (deflection -1..1 per sample).
+ * Setpoint is derived from the stick through the given rates.
+ */
+function makeFlightData(
+  sticks: [(i: number) => number, (i: number) => number, (i: number) => number],
+  opts: { seconds?: number; withRcCommand?: boolean; rates?: RatesConfiguration } = {}
+): BlackboxFlightData {
+  const { seconds = 20, withRcCommand = true, rates = ACTUAL_RATES } = opts;
+  const length = seconds * SAMPLE_RATE;
+  const zero = makeSeries(length, () => 0);
+  const axes = ['roll', 'pitch', 'yaw'] as const;
+  const setpoint = axes.map((axis, a) =>
+    makeSeries(length, (i) => rateAt(rates.ratesType, rates[axis], sticks[a](i)))
+  );
+  const rcCommand = sticks.map((fn) => makeSeries(length, (i) => fn(i) * 500));
+
+  return {
+    gyro: [zero, zero, zero],
+    setpoint: [setpoint[0], setpoint[1], setpoint[2], makeSeries(length, () => 500)],
+    ...(withRcCommand ? { rcCommand: rcCommand as [TimeSeries, TimeSeries, TimeSeries] } : {}),
+    pidP: [zero, zero, zero],
+    pidI: [zero, zero, zero],
+    pidD: [zero, zero, zero],
+    pidF: [zero, zero, zero],
+    motor: [zero, zero, zero, zero],
+    debug: [],
+    sampleRateHz: SAMPLE_RATE,
+    durationSeconds: seconds,
+    frameCount: length,
+  };
+}
+
+/** Sweeps back and forth over ±amplitude, once per second */
+const sweep = (amplitude: number) => (i: number) =>
+  amplitude * Math.sin((2 * Math.PI * i) / SAMPLE_RATE);
+
+/** Like sweep, but pinned at full stick for `pinnedFraction` of the time */
+const pinned = (pinnedFraction: number) => (i: number) =>
+  (i % 1000) / 1000 < pinnedFraction ? 1 : 0.5 * Math.sin((2 * Math.PI * i) / SAMPLE_RATE);
+
+const usage = (overrides: Partial<StickUsage>): StickUsage => ({
+  histogram: new Array(10).fill(10),
+  fullStickPercent: 0,
+  centerPercent: 40,
+  p95Deflection: 0.85,
+  peakRateDegS: 600,
+  ...overrides,
+});
+
+const CURRENT: RateTarget = { centerSensitivity: 200, maxRate: 670, expo: 0.54 };
+
+describe('extractRatesConfiguration', () => {
+  it('reads rates from BBL headers', () => {
+    const headers = new Map([
+      ['rates_type', '3'],
+      ['rc_rates', '7,7,7'],
+      ['rc_expo', '0,0,0'],
+      ['rates', '67,67,40'],
+      ['rate_limits', '1998,1998,1800'],
+    ]);
+
+    expect(extractRatesConfiguration(headers)).toEqual({
+      ratesType: 'ACTUAL',
+      roll: { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 },
+      pitch: { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 },
+      yaw: { rcRate: 7, rate: 40, rcExpo: 0, rateLimit: 1800 },
+    });
+  });
+
+  it('returns undefined when the rate headers are missing', () => {
+    expect(extractRatesConfiguration(new Map([['rc_rates', '100,100,100']]))).toBeUndefined();
+  });
+});
+
+describe('computeStickUsage', () => {
+  it('builds a percent histogram and full/center shares', () => {
+    const deflection = Float64Array.from([0, 0.05, 0.15, 0.5, 0.97, 1, 0.3, 0.1, 0.12, 0.6]);
+    const setpoint = Float64Array.from([0, 10, -30, 200, -650, 670, 90, 20, 25, 300]);
+
+    const result = computeStickUsage(deflection, setpoint);
+
+    expect(result.histogram.reduce((a, b) => a + b, 0)).toBeCloseTo(100, 6);
+    expect(result.histogram[9]).toBe(20);
+    expect(result.fullStickPercent).toBe(20);
+    expect(result.centerPercent).toBe(50);
+    expect(result.peakRateDegS).toBe(670);
+  });
+});
+
+describe('recommendRateTarget', () => {
+  it('raises max rate when the stick is saturated', () => {
+    const { target, reasons } = recommendRateTarget(
+      'roll',
+      usage({ fullStickPercent: 8 }),
+      CURRENT
+    );
+
+    expect(target.maxRate).toBe(770);
+    expect(reasons[0]).toMatch(/full roll stick 8\.0%/);
+  });
+
+  it('never raises max rate past the ceiling', () => {
+    const { target } = recommendRateTarget('yaw', usage({ fullStickPercent: 8 }), {
+      ...CURRENT,
+      maxRate: 950,
+    });
+
+    expect(target.maxRate).toBe(MAX_RATE_CEILING.yaw);
+  });
+
+  it('lowers max rate when the outer throw is unused', () => {
+    const { target, reasons } = recommendRateTarget(
+      'pitch',
+      usage({ p95Deflection: 0.5, peakRateDegS: 400 }),
+      { ...CURRENT, maxRate: 900 }
+    );
+
+    expect(target.maxRate).toBe(480);
+    expect(reasons[0]).toMatch(/rarely push pitch past 50% stick/);
+  });
+
+  it('softens a sensitive center for center-dominant pilots', () => {
+    const { target } = recommendRateTarget('roll', usage({ centerPercent: 90 }), {
+      ...CURRENT,
+      centerSensitivity: 300,
+    });
+
+    expect(target.centerSensitivity).toBe(255);
+  });
+
+  it('adds expo instead when the center is already soft', () => {
+    const { target } = recommendRateTarget('roll', usage({ centerPercent: 90 }), {
+      ...CURRENT,
+      expo: 0.1,
+    });
+
+    expect(target.expo).toBe(CENTER_DOMINANT_MIN_EXPO);
+    expect(target.centerSensitivity).toBe(200);
+  });
+
+  it('leaves an axis the pilot barely moved alone', () => {
+    const result = recommendRateTarget(
+      'yaw',
+      usage({ p95Deflection: 0.05, fullStickPercent: 0 }),
+      CURRENT
+    );
+
+    expect(result.reasons).toEqual([]);
+    expect(result.target).toEqual(CURRENT);
+  });
+});
+
+describe('analyzeRates', () => {
+  it('recommends more roll rate when roll is pinned at full stick', () => {
+    const data = makeFlightData([pinned(0.1), sweep(0.9), sweep(0.9)]);
+
+    const result = analyzeRates(data, ACTUAL_RATES)!;
+
+    expect(result.source).toBe('rcCommand');
+    expect(result.roll.usage.fullStickPercent).toBeGreaterThan(9);
+    expect(result.roll.target.maxRate).toBeGreaterThan(result.roll.current.maxRate);
+    expect(result.recommendations).toEqual([
+      expect.objectContaining({ setting: 'roll_srate', currentValue: 67, recommendedValue: 77 }),
+    ]);
+    expect(result.summary).toContain('roll');
+  });
+
+  it('maps setpoint back through the curve when rcCommand is not logged', () => {
+    const data = makeFlightData([sweep(0.5), sweep(0.9), sweep(0.9)], { withRcCommand: false });
+
+    const result = analyzeRates(data, ACTUAL_RATES)!;
+
+    expect(result.source).toBe('setpoint');
+    expect(result.roll.usage.p95Deflection).toBeGreaterThan(0.45);
+    expect(result.roll.usage.p95Deflection).toBeLessThan(0.52);
+    expect(result.roll.target.maxRate).toBeLessThan(result.roll.current.maxRate);
+  });
+
+  it('recommends nothing when the rates fit', () => {
+    const data = makeFlightData([sweep(0.9), sweep(0.9), sweep(0.9)]);
+
+    const result = analyzeRates(data, ACTUAL_RATES)!;
+
+    expect(result.recommendations).toEqual([]);
+    expect(result.summary).toMatch(/no changes/);
+  });
+
+  it('returns undefined for flights too short to judge', () => {
+    const data = makeFlightData([sweep(0.9), sweep(0.9), sweep(0.9)], { seconds: 2 });
+
+    expect(analyzeRates(data, ACTUAL_RATES)).toBeUndefined();
+  });
+});
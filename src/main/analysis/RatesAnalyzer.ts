@@ -0,0 +1,303 @@
+/**
+ * Rates analysis module.
+ *
+ * Measures how much of the stick throw the pilot uses on each axis and
+ * proposes max rate, center sensitivity and expo that fit that usage:
+ * - Sticks pinned at full deflection → the quad can't rotate as fast as the
+ *   pilot asks, so max rate goes up.
+ * - The outer part of the throw never used → max rate comes down so the
+ *   pilot gets more stick resolution for the rates they actually fly.
+ * - Almost all time spent near center → softer center (lower sensitivity
+ *   or more expo) for finer corrections.
+ *
+ * Proposals are expressed as RateTargets and converted to concrete settings
+ * for any RatesType by proposeRates() in @shared/utils/rateCurves.
+ *
+ * Zero-throttle samples are kept: flips and rolls are flown at low throttle
+ * and are exactly where full-stick saturation shows up.
+ */
+import type { BlackboxFlightData } from '@shared/types/blackbox.types';
+import type {
+  AxisRatesAnalysis,
+  RatesAnalysis,
+  RateTarget,
+  StickUsage,
+} from '@shared/types/analysis.types';
+import type { AxisRates, RatesConfiguration } from '@shared/types/pid.types';
+import { RATES_TYPES, proposeRates, rateAt, rateTargetOf } from '@shared/utils/rateCurves';
+
+// ---- Constants ----
+
+/** Full stick deflection of rcCommand roll/pitch/yaw */
+const RC_COMMAND_MAX = 500;
+
+/** Deflection at or above which the stick counts as "at full rate" */
+export const FULL_STICK_DEFLECTION = 0.95;
+
+/** Deflection below which the stick counts as "near center" */
+export const CENTER_DEFLECTION = 0.2;
+
+/** Axes whose 95th-percentile deflection stays below this are not analyzed */
+export const MIN_ACTIVE_DEFLECTION = 0.1;
+
+/** Minimum flight time for a usable stick histogram (seconds) */
+export const MIN_DURATION_S = 5;
+
+/** Percent of time at full stick above which max rate is raised */
+export const SATURATION_PERCENT = 3;
+
+/** Max rate multiplier when the stick is saturated */
+export const RATE_INCREASE_FACTOR = 1.15;
+
+/** 95th-percentile deflection below which the outer throw counts as unused */
+export const UNUSED_THROW_DEFLECTION = 0.7;
+
+/** Headroom kept above the highest commanded rate when lowering max rate */
+export const UNUSED_HEADROOM = 1.2;
+
+/** Smallest max rate reduction worth recommending (fraction of current) */
+export const MIN_RATE_REDUCTION = 0.1;
+
+/** Percent of time near center above which the center is softened */
+export const CENTER_DOMINANT_PERCENT = 80;
+
+/** Center sensitivity (deg/s) above which a center-dominant pilot gets a softer center */
+export const CENTER_SENSITIVITY_SOFT_MAX = 250;
+
+/** Center sensitivity multiplier when softening the center */
+export const CENTER_SENSITIVITY_STEP = 0.85;
+
+/** Center sensitivity is never lowered below this (deg/s) */
+export const CENTER_SENSITIVITY_FLOOR = 150;
+
+/** Expo given to a center-dominant pilot whose center sensitivity is already soft */
+export const CENTER_DOMINANT_MIN_EXPO = 0.3;
+
+/** Max rate bounds per axis (deg/s) */
+export const MAX_RATE_CEILING = { rollPitch: 1400, yaw: 1000 } as const;
+export const MAX_RATE_FLOOR = { rollPitch: 400, yaw: 300 } as const;
+
+const HISTOGRAM_BINS = 10;
+const LOOKUP_POINTS = 1000;
+const AXES = ['roll', 'pitch', 'yaw'] as const;
+type RatesAxis = (typeof AXES)[number];
+
+// ---- Implementation ----
+
+const joinAxes = (axes: readonly string[]): string =>
+  axes.length > 1 ? `${axes.slice(0, -1).join(', ')} and ${axes[axes.length - 1]}` : axes[0];
+
+const parseTriple = (value: string | undefined): number[] | undefined => {
+  if (!value) return undefined;
+  const parts = value.split(',').map((p) => parseInt(p, 10));
+  return parts.length >= 3 && parts.every((p) => !isNaN(p)) ? parts : undefined;
+};
+
+/**
+ * Extract the rates the flight was flown with from BBL raw headers.
+ *
+ * BF 4.3+ logs `rates_type`, `rc_rates`, `rc_expo`, `rates` and
+ * `rate_limits` (each "roll,pitch,yaw"). Returns undefined when the core
+ * three are missing.
+ */
+export function extractRatesConfiguration(
+  rawHeaders: Map<string, string>
+): RatesConfiguration | undefined {
+  const rcRates = parseTriple(rawHeaders.get('rc_rates'));
+  const rcExpo = parseTriple(rawHeaders.get('rc_expo'));
+  const rates = parseTriple(rawHeaders.get('rates'));
+  if (!rcRates || !rcExpo || !rates) return undefined;
+
+  const rateLimits = parseTriple(rawHeaders.get('rate_limits')) ?? [1998, 1998, 1998];
+  const typeIndex = parseInt(rawHeaders.get('rates_type') ?? '0', 10);
+
+  const axis = (i: number): AxisRates => ({
+    rcRate: rcRates[i],
+    rate: rates[i],
+    rcExpo: rcExpo[i],
+    rateLimit: rateLimits[i],
+  });
+  return {
+    ratesType: RATES_TYPES[typeIndex] ?? 'BETAFLIGHT',
+    roll: axis(0),
+    pitch: axis(1),
+    yaw: axis(2),
+  };
+}
+
+/**
+ * Map |setpoint| back to stick deflection through a monotonic lookup table
+ * of the current curve.
+ */
+function buildInverse(ratesType: RatesConfiguration['ratesType'], rates: AxisRates) {
+  const table = new Float64Array(LOOKUP_POINTS + 1);
+  for (let i = 0; i <= LOOKUP_POINTS; i++) {
+    table[i] = rateAt(ratesType, rates, i / LOOKUP_POINTS);
+  }
+  return (rate: number): number => {
+    const target = Math.abs(rate);
+    if (target >= table[LOOKUP_POINTS]) return 1;
+    let lo = 0;
+    let hi = LOOKUP_POINTS;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (table[mid] < target) lo = mid;
+      else hi = mid;
+    }
+    const span = table[hi] - table[lo];
+    const frac = span > 0 ? (target - table[lo]) / span : 0;
+    return (lo + frac) / LOOKUP_POINTS;
+  };
+}
+
+/**
+ * Build the stick usage summary for one axis.
+ *
+ * @param deflection - Absolute stick deflection per sample (0-1)
+ * @param setpoint - Commanded rate per sample (deg/s)
+ */
+export function computeStickUsage(deflection: Float64Array, setpoint: Float64Array): StickUsage {
+  const n = deflection.length;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  let full = 0;
+  let center = 0;
+  let peak = 0;
+
+  for (let i = 0; i < n; i++) {
+    const d = deflection[i];
+    counts[Math.min(HISTOGRAM_BINS - 1, Math.floor(d * HISTOGRAM_BINS))]++;
+    if (d >= FULL_STICK_DEFLECTION) full++;
+    if (d < CENTER_DEFLECTION) center++;
+    const rate = Math.abs(setpoint[i] ?? 0);
+    if (rate > peak) peak = rate;
+  }
+
+  const sorted = Float64Array.from(deflection).sort();
+  const p95 = n > 0 ? sorted[Math.min(n - 1, Math.floor(n * 0.95))] : 0;
+  const pct = (c: number) => (n > 0 ? (c / n) * 100 : 0);
+
+  return {
+    histogram: counts.map(pct),
+    fullStickPercent: pct(full),
+    centerPercent: pct(center),
+    p95Deflection: p95,
+    peakRateDegS: Math.round(peak),
+  };
+}
+
+/**
+ * Apply the usage rules to one axis. Returns the proposed curve and the
+ * reasons behind each change (none when the current rates fit).
+ */
+export function recommendRateTarget(
+  axis: RatesAxis,
+  usage: StickUsage,
+  current: RateTarget
+): { target: RateTarget; reasons: string[] } {
+  const target: RateTarget = { ...current };
+  const reasons: string[] = [];
+  if (usage.p95Deflection < MIN_ACTIVE_DEFLECTION) return { target, reasons };
+
+  const ceiling = axis === 'yaw' ? MAX_RATE_CEILING.yaw : MAX_RATE_CEILING.rollPitch;
+  const floor = axis === 'yaw' ? MAX_RATE_FLOOR.yaw : MAX_RATE_FLOOR.rollPitch;
+
+  if (usage.fullStickPercent >= SATURATION_PERCENT && current.maxRate < ceiling) {
+    target.maxRate = Math.min(ceiling, Math.round(current.maxRate * RATE_INCREASE_FACTOR));
+    reasons.push(
+      `You hold full ${axis} stick ${usage.fullStickPercent.toFixed(1)}% of the time, so ` +
+        `${current.maxRate} deg/s is limiting your moves. Raising max rate to ` +
+        `${target.maxRate} deg/s gives you room to rotate faster.`
+    );
+  } else if (usage.p95Deflection < UNUSED_THROW_DEFLECTION) {
+    const proposed = Math.max(floor, Math.round(usage.peakRateDegS * UNUSED_HEADROOM));
+    if (proposed <= current.maxRate * (1 - MIN_RATE_REDUCTION)) {
+      target.maxRate = proposed;
+      reasons.push(
+        `You rarely push ${axis} past ${Math.round(usage.p95Deflection * 100)}% stick and ` +
+          `never asked for more than ${usage.peakRateDegS} deg/s. Lowering max rate to ` +
+          `${proposed} deg/s spreads the rates you fly over the whole stick throw.`
+      );
+    }
+  }
+
+  if (usage.centerPercent >= CENTER_DOMINANT_PERCENT) {
+    if (current.centerSensitivity > CENTER_SENSITIVITY_SOFT_MAX) {
+      target.centerSensitivity = Math.max(
+        CENTER_SENSITIVITY_FLOOR,
+        Math.round(current.centerSensitivity * CENTER_SENSITIVITY_STEP)
+      );
+      reasons.push(
+        `${Math.round(usage.centerPercent)}% of your ${axis} input is small corrections ` +
+          `near center. A softer center (${target.centerSensitivity} deg/s) makes them smoother.`
+      );
+    } else if (current.expo < CENTER_DOMINANT_MIN_EXPO) {
+      target.expo = CENTER_DOMINANT_MIN_EXPO;
+      reasons.push(
+        `${Math.round(usage.centerPercent)}% of your ${axis} input is small corrections ` +
+          `near center. More expo keeps the center precise without losing max rate.`
+      );
+    }
+  }
+
+  // Center sensitivity can't exceed max rate
+  target.centerSensitivity = Math.min(target.centerSensitivity, target.maxRate);
+  return { target, reasons };
+}
+
+/**
+ * Analyze stick usage and recommend rates.
+ *
+ * Stick deflection comes from rcCommand when the log has it, otherwise
+ * setpoint is mapped back through the current rate curve.
+ *
+ * @param flightData - Parsed flight data
+ * @param rates - Rates the flight was flown with (FC or BBL header)
+ * @returns RatesAnalysis, or undefined if the flight is too short
+ */
+export function analyzeRates(
+  flightData: BlackboxFlightData,
+  rates: RatesConfiguration
+): RatesAnalysis | undefined {
+  if (flightData.durationSeconds < MIN_DURATION_S) return undefined;
+
+  const source = flightData.rcCommand ? 'rcCommand' : 'setpoint';
+  const axisResults = {} as Record<RatesAxis, AxisRatesAnalysis>;
+
+  AXES.forEach((axis, a) => {
+    const setpoint = flightData.setpoint[a].values;
+    const deflection = new Float64Array(setpoint.length);
+    if (flightData.rcCommand) {
+      const rc = flightData.rcCommand[a].values;
+      for (let i = 0; i < rc.length; i++) {
+        deflection[i] = Math.min(1, Math.abs(rc[i]) / RC_COMMAND_MAX);
+      }
+    } else {
+      const inverse = buildInverse(rates.ratesType, rates[axis]);
+      for (let i = 0; i < setpoint.length; i++) {
+        deflection[i] = inverse(setpoint[i]);
+      }
+    }
+
+    const usage = computeStickUsage(deflection, setpoint);
+    const current = rateTargetOf(rates.ratesType, rates[axis]);
+    const { target, reasons } = recommendRateTarget(axis, usage, current);
+    axisResults[axis] = { usage, current, target, reasons };
+  });
+
+  const analysis: RatesAnalysis = {
+    current: rates,
+    source,
+    ...axisResults,
+    recommendations: [],
+    summary: '',
+  };
+  analysis.recommendations = proposeRates(analysis, rates.ratesType).recommendations;
+
+  const changedAxes = AXES.filter((axis) => axisResults[axis].reasons.length > 0);
+  analysis.summary =
+    changedAxes.length > 0
+      ? `Your stick usage suggests rate changes on ${joinAxes(changedAxes)}.`
+      : 'Your rates fit how you fly — no changes recommended.';
+
+  return analysis;
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  binByMotorHz,
+  computeMotorFundamentalHz,
+  computeRpmSpectrogram,
+} from './RpmSpectrogramAnalyzer';
+import { RPM_RESIDUAL_THRESHOLD_DB } from './constants';
+import type { BlackboxFlightData, TimeSeries } from '@shared/types/blackbox.types';
+
+const SAMPLE_RATE = 4000;
+
+function makeSeries(numSamples: number, fn: (i: number) => number): TimeSeries {
+  const time = new Float64Array(numSamples);
+  const values = new Float64Array(numSamples);
+  for (let i = 0; i < numSamples; i++) {
+    time[i] = i / SAMPLE_RATE;
+    values[i] = fn(i);
+  }
+  return { time, values };
+}
+
+/**
+ * Create flight data where the motors sweep linearly from 100 to 200 Hz.
+ * With motorNoiseAmplitude > 0, the gyro carries an unfiltered tone that
+ * tracks the motor fundamental.
+ */
+function createSweepFlightData(opts: {
+  numSamples: number;
+  motorNoiseAmplitude?: number;
+  withRpm?: boolean;
+}): BlackboxFlightData {
+  const { numSamples, motorNoiseAmplitude = 0, withRpm = true } = opts;
+  const motorHz = (i: number) => 100 + (100 * i) / numSamples;
+
+  // Phase-accumulated tone so the frequency follows the sweep exactly
+  const tone = new Float64Array(numSamples);
+  let phase = 0;
+  for (let i = 0; i < numSamples; i++) {
+    tone[i] = motorNoiseAmplitude * Math.sin(phase);
+    phase += (2 * Math.PI * motorHz(i)) / SAMPLE_RATE;
+  }
+  const gyro = () => makeSeries(numSamples, (i) => tone[i] + (Math.random() - 0.5) * 0.5);
+  const zero = () => makeSeries(numSamples, () => 0);
+  const rpm = () => makeSeries(numSamples, (i) => motorHz(i) * 60);
+
+  return {
+    gyro: [gyro(), gyro(), gyro()],
+    setpoint: [zero(), zero(), zero(), zero()],
+    pidP: [zero(), zero(), zero()],
+    pidI: [zero(), zero(), zero()],
+    pidD: [zero(), zero(), zero()],
+    pidF: [zero(), zero(), zero()],
+    motor: [zero(), zero(), zero(), zero()],
+    ...(withRpm ? { motorRpm: [rpm(), rpm(), rpm(), rpm()], motorRpmSource: 'erpm' as const } : {}),
+    debug: [],
+    sampleRateHz: SAMPLE_RATE,
+    durationSeconds: numSamples / SAMPLE_RATE,
+    frameCount: numSamples,
+  };
+}
+
+describe('RpmSpectrogramAnalyzer', () => {
+  describe('computeMotorFundamentalHz', () => {
+    it('averages spinning motors and ignores motors without telemetry', () => {
+      const motors = [
+        makeSeries(3, () => 6000),
+        makeSeries(3, () => 12000),
+        makeSeries(3, (i) => (i === 0 ? 0 : 9000)),
+      ];
+      const hz = computeMotorFundamentalHz(motors);
+
+      // Sample 0: (6000 + 12000) / 2 / 60 = 150 Hz
+      expect(hz[0]).toBeCloseTo(150);
+      // Sample 1: (6000 + 12000 + 9000) / 3 / 60 = 150 Hz
+      expect(hz[1]).toBeCloseTo(150);
+    });
+  });
+
+  describe('binByMotorHz', () => {
+    it('bins by motor frequency and skips samples without RPM or out of range', () => {
+      const hz = new Float64Array([0, 100, 149, 150, 199, 200, 250]);
+      const bins = binByMotorHz(hz, 2, 100, 200);
+
+      expect(bins[0]).toEqual([1, 2]);
+      expect(bins[1]).toEqual([3, 4, 5]);
+    });
+  });
+
+  describe('computeRpmSpectrogram', () => {
+    it('returns undefined when the log has no motor RPM', () => {
+      const data = createSweepFlightData({ numSamples: 1000, withRpm: false });
+      expect(computeRpmSpectrogram(data)).toBeUndefined();
+    });
+
+    it('places harmonic lines at multiples of the band motor frequency', () => {
+      const data = createSweepFlightData({ numSamples: 40000, motorNoiseAmplitude: 20 });
+      const result = computeRpmSpectrogram(data)!;
+
+      expect(result.source).toBe('erpm');
+      expect(result.bandsWithData).toBeGreaterThan(0);
+      const band = result.bands.find((b) => b.harmonicHz && b.harmonicHz.length >= 2)!;
+      const center = (band.motorHzMin + band.motorHzMax) / 2;
+      expect(band.harmonicHz![0]).toBeCloseTo(center, 0);
+      expect(band.harmonicHz![1]).toBeCloseTo(center * 2, 0);
+    });
+
+    it('reports high residual at the fundamental when motor noise is unfiltered', () => {
+      const data = createSweepFlightData({ numSamples: 40000, motorNoiseAmplitude: 20 });
+      const result = computeRpmSpectrogram(data)!;
+
+      const fundamental = result.harmonicResiduals.find((h) => h.harmonic === 1)!;
+      expect(fundamental.residualDb).toBeGreaterThan(RPM_RESIDUAL_THRESHOLD_DB);
+      expect(fundamental.bandCount).toBe(result.bandsWithData);
+    });
+
+    it('reports low residuals when the gyro carries no motor noise', () => {
+      const data = createSweepFlightData({ numSamples: 40000 });
+      const result = computeRpmSpectrogram(data)!;
+
+      expect(result.harmonicResiduals.length).toBeGreaterThan(0);
+      for (const h of result.harmonicResiduals) {
+        expect(h.residualDb).toBeLessThan(RPM_RESIDUAL_THRESHOLD_DB);
+      }
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Motor-frequency-indexed (RPM) spectrogram analyzer.
+ *
+ * Like the throttle spectrogram, but bins gyro data by the actual mean motor
+ * fundamental from RPM telemetry instead of the throttle proxy. Motor noise
+ * then sits on straight lines at 1×, 2×, 3× the band's motor frequency, so
+ * the energy still standing around those lines measures how well the RPM
+ * filter is tracking each harmonic.
+ */
+import type { BlackboxFlightData, TimeSeries } from '@shared/types/blackbox.types';
+import type {
+  PowerSpectrum,
+  RpmBand,
+  RpmHarmonicResidual,
+  RpmSpectrogramResult,
+} from '@shared/types/analysis.types';
+import { computeBandSpectra, MIN_SAMPLES_PER_BAND } from './ThrottleSpectrogramAnalyzer';
+import {
+  FREQUENCY_MIN_HZ,
+  RPM_HARMONIC_COUNT,
+  RPM_HARMONIC_WINDOW_HZ,
+  RPM_SPECTROGRAM_NUM_BANDS,
+} from './constants';
+
+/** Fraction of samples trimmed from each end when choosing the band range (telemetry glitches) */
+const RANGE_PERCENTILE = 0.02;
+
+/**
+ * Mean motor fundamental frequency (Hz) per sample, averaged across motors.
+ * Samples where no motor reports RPM (telemetry dropout, disarmed) are 0.
+ */
+export function computeMotorFundamentalHz(motorRpm: TimeSeries[]): Float64Array {
+  const length = motorRpm[0]?.values.length ?? 0;
+  const out = new Float64Array(length);
+
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    let count = 0;
+    for (const motor of motorRpm) {
+      const rpm = motor.values[i];
+      if (rpm > 0) {
+        sum += rpm;
+        count++;
+      }
+    }
+    out[i] = count > 0 ? sum / count / 60 : 0;
+  }
+
+  return out;
+}
+
+/**
+ * Bin samples into equal-width motor frequency bands over [minHz, maxHz).
+ * Samples outside the range or without RPM data are left out.
+ *
+ * @returns Array of sample index arrays, one per band
+ */
+export function binByMotorHz(
+  motorHz: Float64Array,
+  numBands: number,
+  minHz: number,
+  maxHz: number
+): number[][] {
+  const bins: number[][] = Array.from({ length: numBands }, () => []);
+  const bandWidth = (maxHz - minHz) / numBands;
+  if (bandWidth <= 0) return bins;
+
+  for (let i = 0; i < motorHz.length; i++) {
+    const hz = motorHz[i];
+    if (hz <= 0 || hz < minHz || hz > maxHz) continue;
+    let band = Math.floor((hz - minHz) / bandWidth);
+    if (band >= numBands) band = numBands - 1;
+    bins[band].push(i);
+  }
+
+  return bins;
+}
+
+/**
+ * Mean energy (dB) above the noise floor within ±halfWidth of a frequency.
+ * Returns undefined when the window falls outside the spectrum.
+ */
+function residualAround(
+  spectrum: PowerSpectrum,
+  noiseFloorDb: number,
+  centerHz: number,
+  halfWidth: number
+): number | undefined {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < spectrum.frequencies.length; i++) {
+    const f = spectrum.frequencies[i];
+    if (f >= centerHz - halfWidth && f <= centerHz + halfWidth) {
+      sum += spectrum.magnitudes[i];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count - noiseFloorDb : undefined;
+}
+
+/**
+ * Compute the motor-frequency-indexed spectrogram with per-harmonic residuals.
+ *
+ * @param flightData - Parsed Blackbox flight data
+ * @param numBands - Number of motor frequency bands (default 10)
+ * @returns Spectrogram result, or undefined if the log has no RPM telemetry
+ */
+export function computeRpmSpectrogram(
+  flightData: BlackboxFlightData,
+  numBands: number = RPM_SPECTROGRAM_NUM_BANDS
+): RpmSpectrogramResult | undefined {
+  const { motorRpm, motorRpmSource } = flightData;
+  if (!motorRpm || motorRpm.length === 0 || !motorRpmSource) return undefined;
+
+  const motorHz = computeMotorFundamentalHz(motorRpm);
+  const spinning = Array.from(motorHz)
+    .filter((hz) => hz > 0)
+    .sort((a, b) => a - b);
+
+  const empty: RpmSpectrogramResult = {
+    bands: [],
+    numBands,
+    minSamplesPerBand: MIN_SAMPLES_PER_BAND,
+    bandsWithData: 0,
+    source: motorRpmSource,
+    harmonicResiduals: [],
+  };
+  if (spinning.length === 0) return empty;
+
+  // Band range from the bulk of the data, rounded out to 10 Hz
+  const lo = spinning[Math.floor(spinning.length * RANGE_PERCENTILE)];
+  const hi =
+    spinning[Math.min(spinning.length - 1, Math.ceil(spinning.length * (1 - RANGE_PERCENTILE)))];
+  const minHz = Math.floor(lo / 10) * 10;
+  const maxHz = Math.max(minHz + 10, Math.ceil(hi / 10) * 10);
+  const bandWidth = (maxHz - minHz) / numBands;
+
+  const indexBins = binByMotorHz(motorHz, numBands, minHz, maxHz);
+  const bands: RpmBand[] = [];
+  const residualsByHarmonic: number[][] = Array.from({ length: RPM_HARMONIC_COUNT }, () => []);
+  let bandsWithData = 0;
+
+  for (let b = 0; b < numBands; b++) {
+    const bandMin = minHz + b * bandWidth;
+    const bandMax = bandMin + bandWidth;
+    const indices = indexBins[b];
+
+    const band: RpmBand = {
+      motorHzMin: Math.round(bandMin * 10) / 10,
+      motorHzMax: Math.round(bandMax * 10) / 10,
+      sampleCount: indices.length,
+    };
+
+    if (indices.length >= MIN_SAMPLES_PER_BAND) {
+      const { spectra, noiseFloorDb } = computeBandSpectra(flightData, indices);
+      band.spectra = spectra;
+      band.noiseFloorDb = noiseFloorDb;
+
+      // Harmonic lines at the band center. The kth harmonic smears over
+      // k × bandWidth, so the window grows with the harmonic order.
+      const centerHz = (bandMin + bandMax) / 2;
+      const maxSpectrumHz = spectra[0].frequencies[spectra[0].frequencies.length - 1] ?? 0;
+      const harmonicHz: number[] = [];
+      const harmonicResidualDb: number[] = [];
+      for (let k = 1; k <= RPM_HARMONIC_COUNT; k++) {
+        const hz = centerHz * k;
+        const halfWidth = Math.max(RPM_HARMONIC_WINDOW_HZ, (k * bandWidth) / 2);
+        if (hz < FREQUENCY_MIN_HZ || hz + halfWidth > maxSpectrumHz) continue;
+
+        // Worst of roll/pitch — yaw picks up frame vibration differently
+        let worst = -Infinity;
+        for (let axis = 0; axis < 2; axis++) {
+          const r = residualAround(spectra[axis], noiseFloorDb[axis], hz, halfWidth);
+          if (r !== undefined && r > worst) worst = r;
+        }
+        if (worst === -Infinity) continue;
+
+        harmonicHz.push(Math.round(hz * 10) / 10);
+        harmonicResidualDb.push(Math.round(worst * 10) / 10);
+        residualsByHarmonic[k - 1].push(worst);
+      }
+      band.harmonicHz = harmonicHz;
+      band.harmonicResidualDb = harmonicResidualDb;
+      bandsWithData++;
+    }
+
+    bands.push(band);
+  }
+
+  const harmonicResiduals: RpmHarmonicResidual[] = [];
+  residualsByHarmonic.forEach((values, i) => {
+    if (values.length === 0) return;
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    harmonicResiduals.push({
+      harmonic: i + 1,
+      residualDb: Math.round(mean * 10) / 10,
+      bandCount: values.length,
+    });
+  });
+
+  return { ...empty, bands, bandsWithData, harmonicResiduals };
+}
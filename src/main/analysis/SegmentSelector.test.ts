@@ -1,11 +1,18 @@
 import { describe, it, expect } from 'vitest';
 import {
+  findExcludedSpans,
   findSteadySegments,
   findThrottleSweepSegments,
   normalizeThrottle,
   computeStd,
 } from './SegmentSelector';
-import type { BlackboxFlightData, TimeSeries } from '@shared/types/blackbox.types';
+import { dialectOf } from '../blackbox/FirmwareDialect';
+import type {
+  BBLLogHeader,
+  BlackboxEvent,
+  BlackboxFlightData,
+  TimeSeries,
+} from '@shared/types/blackbox.types';
 
 /**
  * Create a minimal BlackboxFlightData with specified throttle and gyro values.
@@ -96,6 +103,96 @@ describe('computeStd', () => {
   });
 });
 
+describe('findExcludedSpans', () => {
+  const header = (firmware: BBLLogHeader['firmware'], firmwareRevision: string) =>
+    ({ firmware, firmwareRevision }) as BBLLogHeader;
+  const flightModesOf = (h: BBLLogHeader) => dialectOf(h).flightModes(h);
+  const BETAFLIGHT = flightModesOf(header('betaflight', 'Betaflight 4.5.1 (77d01ba3b) STM32F7X2'));
+  const INAV = flightModesOf(header('inav', 'INAV 7.1.0 (6ae0ef2b) MATEKF405'));
+  const state = (time: number, flightModeFlags: number, failsafePhase = 0): BlackboxEvent => ({
+    type: 'state',
+    time,
+    flightModeFlags,
+    stateFlags: 0,
+    failsafePhase,
+  });
+
+  it('should build failsafe and angle mode spans from state changes', () => {
+    const spans = findExcludedSpans(
+      [
+        state(0, 1 << 0), // armed
+        state(1, (1 << 0) | (1 << 1)), // ANGLE box on
+        state(2, 1 << 0),
+        { type: 'disarm', time: 2.5, reason: 1 },
+        state(3, 0, 1), // failsafe phase active
+        state(3.5, 1 << 7), // GPSRESCUE box takes over
+        state(5, 0),
+      ],
+      BETAFLIGHT
+    );
+
+    expect(spans).toEqual([
+      { start: 1, end: 2, reason: 'angle_mode' },
+      { start: 3, end: 5, reason: 'failsafe' },
+    ]);
+  });
+
+  it('should not exclude an armed flight in acro mode', () => {
+    const spans = findExcludedSpans([state(0, 1 << 0), state(10, 0)], BETAFLIGHT);
+    expect(spans).toEqual([]);
+  });
+
+  it('should exclude horizon mode like angle mode', () => {
+    const spans = findExcludedSpans(
+      [state(0, 1 << 0), state(2, (1 << 0) | (1 << 2)), state(4, 1 << 0)],
+      BETAFLIGHT
+    );
+    expect(spans).toEqual([{ start: 2, end: 4, reason: 'angle_mode' }]);
+  });
+
+  it('should extend a state active at the last event to Infinity', () => {
+    const spans = findExcludedSpans([state(0, 0), state(4, 1 << 1)], BETAFLIGHT);
+    expect(spans).toEqual([{ start: 4, end: Infinity, reason: 'angle_mode' }]);
+  });
+
+  it("should read the FAILSAFE and GPSRESCUE boxes where the log's version puts them", () => {
+    const BETAFLIGHT_2025 = flightModesOf(
+      header('betaflight', 'Betaflight 2025.12.0 (8a0b6c3d1) STM32H743')
+    );
+    const events = [state(0, 1 << 0), state(1, (1 << 0) | (1 << 6)), state(2, 1 << 0)];
+
+    // Box 6 is FAILSAFE up to 4.5 and CHIRP from 2025.12
+    expect(findExcludedSpans(events, BETAFLIGHT)).toEqual([
+      { start: 1, end: 2, reason: 'failsafe' },
+    ]);
+    expect(findExcludedSpans(events, BETAFLIGHT_2025)).toEqual([]);
+    expect(findExcludedSpans([state(0, 1 << 10), state(1, 0)], BETAFLIGHT_2025)).toEqual([
+      { start: 0, end: 1, reason: 'failsafe' },
+    ]);
+  });
+
+  it("should read INAV's flight mode bits, not Betaflight's", () => {
+    const events = [
+      state(0, 0),
+      state(1, 1 << 0), // ANGLE in INAV, ARM in Betaflight
+      state(2, 0),
+      state(4, 1 << 9), // FAILSAFE in INAV
+      state(6, 0),
+    ];
+
+    expect(findExcludedSpans(events, INAV)).toEqual([
+      { start: 1, end: 2, reason: 'angle_mode' },
+      { start: 4, end: 6, reason: 'failsafe' },
+    ]);
+    expect(findExcludedSpans(events, BETAFLIGHT)).toEqual([]);
+  });
+
+  it('should only use the failsafe phase when the flag bits are not mapped', () => {
+    const spans = findExcludedSpans([state(0, 1 << 1), state(1, 1 << 7, 2), state(3, 0)], null);
+    expect(spans).toEqual([{ start: 1, end: 3, reason: 'failsafe' }]);
+  });
+});
+
 describe('findSteadySegments', () => {
   it('should return entire flight for constant hover', () => {
     const sampleRate = 4000;
@@ -277,6 +374,22 @@ describe('findSteadySegments', () => {
   });
 });
 
+describe('findSteadySegments with excluded spans', () => {
+  it('should not let a segment cross an excluded span', () => {
+    const sampleRate = 4000;
+    const data = createFlightData({ sampleRate, numSamples: sampleRate * 2 });
+
+    const segments = findSteadySegments(data, [{ start: 0.8, end: 1.2, reason: 'failsafe' }]);
+
+    expect(segments.length).toBe(2);
+    for (const seg of segments) {
+      const start = seg.startIndex / sampleRate;
+      const end = seg.endIndex / sampleRate;
+      expect(end <= 0.8 || start >= 1.2).toBe(true);
+    }
+  });
+});
+
 describe('findThrottleSweepSegments', () => {
   it('should find a linear throttle ramp (upward)', () => {
     const sampleRate = 4000;
@@ -445,3 +558,21 @@ describe('findThrottleSweepSegments', () => {
     expect(segments[0].maxThrottle).toBeCloseTo(0.9, 1);
   });
 });
+
+describe('findThrottleSweepSegments with excluded spans', () => {
+  it('should drop a sweep that runs into an excluded span', () => {
+    const sampleRate = 4000;
+    const duration = 5;
+    const data = createFlightData({
+      sampleRate,
+      numSamples: sampleRate * duration,
+      throttle: (i) => 0.2 + (i / (sampleRate * duration)) * 0.7,
+    });
+
+    // Only 1s of clean data left — shorter than SWEEP_MIN_DURATION_S
+    const segments = findThrottleSweepSegments(data, [
+      { start: 1, end: Infinity, reason: 'angle_mode' },
+    ]);
+    expect(segments).toEqual([]);
+  });
+});
@@ -5,9 +5,12 @@
  * 1. Steady hover segments — low gyro variance, mid-throttle (for legacy/fallback)
  * 2. Throttle sweep segments — monotonically changing throttle across wide range
  *    (preferred for filter analysis: captures noise across full RPM range)
+ *
+ * Both modes accept excluded spans (failsafe, angle/horizon mode) built from
+ * the session's event timeline; samples inside them never join a segment.
  */
-import type { BlackboxFlightData } from '@shared/types/blackbox.types';
-import type { FlightSegment } from '@shared/types/analysis.types';
+import type { BlackboxEvent, BlackboxFlightData } from '@shared/types/blackbox.types';
+import type { ExcludedSpan, FlightSegment } from '@shared/types/analysis.types';
 import {
   THROTTLE_MIN_FLIGHT,
   THROTTLE_MAX_HOVER,
@@ -19,6 +22,74 @@ import {
   SWEEP_MAX_DURATION_S,
   SWEEP_MAX_RESIDUAL,
 } from './constants';
+import type { FlightModeBits } from '../blackbox/FirmwareDialect';
+
+/**
+ * Build failsafe and angle/horizon mode spans from S-frame state events.
+ *
+ * Failsafe covers any non-idle failsafe phase as well as the firmware's
+ * failsafe and rescue mode flags (its dialect's flightModes). With no flag
+ * mapping only the failsafe phase counts. A state still active at the last
+ * event extends to Infinity.
+ */
+export function findExcludedSpans(
+  events: BlackboxEvent[],
+  flightModes: FlightModeBits | null
+): ExcludedSpan[] {
+  const spans: ExcludedSpan[] = [];
+  let failsafeStart: number | null = null;
+  let angleStart: number | null = null;
+
+  for (const event of events) {
+    if (event.type !== 'state') continue;
+
+    const flags = flightModes ? event.flightModeFlags : 0;
+    const failsafe = event.failsafePhase !== 0 || (flags & (flightModes?.failsafe ?? 0)) !== 0;
+    const angle = (flags & (flightModes?.angle ?? 0)) !== 0;
+
+    if (failsafe && failsafeStart === null) {
+      failsafeStart = event.time;
+    } else if (!failsafe && failsafeStart !== null) {
+      spans.push({ start: failsafeStart, end: event.time, reason: 'failsafe' });
+      failsafeStart = null;
+    }
+
+    if (angle && angleStart === null) {
+      angleStart = event.time;
+    } else if (!angle && angleStart !== null) {
+      spans.push({ start: angleStart, end: event.time, reason: 'angle_mode' });
+      angleStart = null;
+    }
+  }
+
+  if (failsafeStart !== null) {
+    spans.push({ start: failsafeStart, end: Infinity, reason: 'failsafe' });
+  }
+  if (angleStart !== null) {
+    spans.push({ start: angleStart, end: Infinity, reason: 'angle_mode' });
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Mark samples whose time falls inside any excluded span.
+ * Returns null when nothing is excluded so callers can skip the check.
+ */
+function buildExclusionMask(time: Float64Array, spans: ExcludedSpan[]): Uint8Array | null {
+  if (spans.length === 0) return null;
+
+  const mask = new Uint8Array(time.length);
+  let excludedCount = 0;
+  for (let i = 0; i < time.length; i++) {
+    const t = time[i];
+    if (spans.some((span) => t >= span.start && t < span.end)) {
+      mask[i] = 1;
+      excludedCount++;
+    }
+  }
+  return excludedCount > 0 ? mask : null;
+}
 
 /**
  * Find stable hover segments in the flight data.
@@ -27,10 +98,15 @@ import {
  * 1. Throttle is in hover range (above min, below max)
  * 2. Gyro variance is low (not doing aggressive maneuvers)
  * 3. Duration is at least SEGMENT_MIN_DURATION_S
+ * 4. Not inside an excluded span
  *
+ * @param excludedSpans - Spans to leave out (see findExcludedSpans)
  * @returns Segments sorted by duration (longest first)
  */
-export function findSteadySegments(flightData: BlackboxFlightData): FlightSegment[] {
+export function findSteadySegments(
+  flightData: BlackboxFlightData,
+  excludedSpans: ExcludedSpan[] = []
+): FlightSegment[] {
   const { sampleRateHz } = flightData;
   const throttle = flightData.setpoint[3]; // Throttle channel
   const gyroRoll = flightData.gyro[0];
@@ -40,6 +116,7 @@ export function findSteadySegments(flightData: BlackboxFlightData): FlightSegmen
   if (numSamples === 0) return [];
 
   const minSegmentSamples = Math.floor(SEGMENT_MIN_DURATION_S * sampleRateHz);
+  const excluded = buildExclusionMask(throttle.time, excludedSpans);
 
   // Build a boolean mask: true = sample is in steady hover
   const steadyMask = new Uint8Array(numSamples);
@@ -47,6 +124,8 @@ export function findSteadySegments(flightData: BlackboxFlightData): FlightSegmen
   const halfWindow = Math.floor(windowSize / 2);
 
   for (let i = 0; i < numSamples; i++) {
+    if (excluded?.[i]) continue;
+
     // Check throttle range
     const thr = normalizeThrottle(throttle.values[i]);
     if (thr < THROTTLE_MIN_FLIGHT || thr > THROTTLE_MAX_HOVER) {
@@ -168,10 +247,15 @@ function computeStd(arr: Float64Array, start: number, end: number): number {
  * 2. Slide a window across the data, checking monotonicity via linear regression
  * 3. Accept windows where the residual is below SWEEP_MAX_RESIDUAL and
  *    throttle range exceeds SWEEP_MIN_THROTTLE_RANGE
+ * 4. Never extend a window into an excluded span
  *
+ * @param excludedSpans - Spans to leave out (see findExcludedSpans)
  * @returns Segments sorted by throttle range covered (widest first)
  */
-export function findThrottleSweepSegments(flightData: BlackboxFlightData): FlightSegment[] {
+export function findThrottleSweepSegments(
+  flightData: BlackboxFlightData,
+  excludedSpans: ExcludedSpan[] = []
+): FlightSegment[] {
   const { sampleRateHz } = flightData;
   const throttle = flightData.setpoint[3]; // Throttle channel
   const numSamples = throttle.values.length;
@@ -186,6 +270,7 @@ export function findThrottleSweepSegments(flightData: BlackboxFlightData): Fligh
   // Smooth throttle values with a moving average to reduce jitter
   const smoothWindowSize = Math.max(1, Math.floor(sampleRateHz * 0.05)); // 50ms window
   const smoothed = smoothThrottle(throttle.values, smoothWindowSize);
+  const excluded = buildExclusionMask(throttle.time, excludedSpans);
 
   const segments: FlightSegment[] = [];
 
@@ -198,6 +283,7 @@ export function findThrottleSweepSegments(flightData: BlackboxFlightData): Fligh
   const outerStep = Math.max(1, Math.floor(sampleRateHz * 0.05)); // 50ms outer advance on failure
 
   let i = 0;
+  let limit = excluded ? 0 : numSamples;
   while (i < numSamples - minSweepSamples) {
     const startThr = smoothed[i];
 
@@ -207,6 +293,18 @@ export function findThrottleSweepSegments(flightData: BlackboxFlightData): Fligh
       continue;
     }
 
+    // Window may only extend up to the next excluded sample
+    if (excluded) {
+      if (limit <= i) {
+        limit = i;
+        while (limit < numSamples && !excluded[limit]) limit++;
+      }
+      if (i + minSweepSamples > limit) {
+        i += outerStep;
+        continue;
+      }
+    }
+
     // Quick monotonicity check at minimum window — if it fails, skip ahead
     const quickEnd = i + minSweepSamples;
     const quickRange = Math.abs(smoothed[quickEnd - 1] - startThr);
@@ -223,7 +321,7 @@ export function findThrottleSweepSegments(flightData: BlackboxFlightData): Fligh
 
     for (
       let end = i + minSweepSamples;
-      end <= Math.min(i + maxSweepSamples, numSamples);
+      end <= Math.min(i + maxSweepSamples, limit);
       end += coarseStep
     ) {
       const endThr = smoothed[end - 1];
@@ -74,6 +74,40 @@ function gatherSamples(gyroValues: Float64Array, indices: number[]): Float64Arra
   return out;
 }
 
+/**
+ * Compute per-axis gyro spectra and noise floors for one band of samples.
+ * Shared with the RPM-indexed spectrogram.
+ *
+ * @param flightData - Parsed Blackbox flight data
+ * @param indices - Sample indices that fell into the band
+ */
+export function computeBandSpectra(
+  flightData: BlackboxFlightData,
+  indices: number[]
+): {
+  spectra: [PowerSpectrum, PowerSpectrum, PowerSpectrum];
+  noiseFloorDb: [number, number, number];
+} {
+  const spectra: [PowerSpectrum, PowerSpectrum, PowerSpectrum] = [
+    { frequencies: new Float64Array(0), magnitudes: new Float64Array(0) },
+    { frequencies: new Float64Array(0), magnitudes: new Float64Array(0) },
+    { frequencies: new Float64Array(0), magnitudes: new Float64Array(0) },
+  ];
+  const noiseFloorDb: [number, number, number] = [0, 0, 0];
+
+  // Use smaller FFT window if band has fewer samples than default window size
+  const windowSize = Math.min(FFT_WINDOW_SIZE, nextPowerOf2(Math.floor(indices.length / 2)));
+
+  for (let axis = 0; axis < 3; axis++) {
+    const samples = gatherSamples(flightData.gyro[axis].values, indices);
+    const raw = computePowerSpectrum(samples, flightData.sampleRateHz, windowSize);
+    spectra[axis] = trimSpectrum(raw, FREQUENCY_MIN_HZ, FREQUENCY_MAX_HZ);
+    noiseFloorDb[axis] = estimateNoiseFloor(spectra[axis].magnitudes);
+  }
+
+  return { spectra, noiseFloorDb };
+}
+
 /**
  * Compute throttle-indexed spectrogram for flight data.
  *
@@ -115,26 +149,9 @@ export function computeThrottleSpectrogram(
     };
 
     if (indices.length >= MIN_SAMPLES_PER_BAND) {
-      // Compute spectrum per axis
-      const spectra: [PowerSpectrum, PowerSpectrum, PowerSpectrum] = [
-        { frequencies: new Float64Array(0), magnitudes: new Float64Array(0) },
-        { frequencies: new Float64Array(0), magnitudes: new Float64Array(0) },
-        { frequencies: new Float64Array(0), magnitudes: new Float64Array(0) },
-      ];
-      const noiseFloors: [number, number, number] = [0, 0, 0];
-
-      // Use smaller FFT window if band has fewer samples than default window size
-      const windowSize = Math.min(FFT_WINDOW_SIZE, nextPowerOf2(Math.floor(indices.length / 2)));
-
-      for (let axis = 0; axis < 3; axis++) {
-        const samples = gatherSamples(flightData.gyro[axis].values, indices);
-        const raw = computePowerSpectrum(samples, flightData.sampleRateHz, windowSize);
-        spectra[axis] = trimSpectrum(raw, FREQUENCY_MIN_HZ, FREQUENCY_MAX_HZ);
-        noiseFloors[axis] = estimateNoiseFloor(spectra[axis].magnitudes);
-      }
-
+      const { spectra, noiseFloorDb } = computeBandSpectra(flightData, indices);
       band.spectra = spectra;
-      band.noiseFloorDb = noiseFloors;
+      band.noiseFloorDb = noiseFloorDb;
       bandsWithData++;
     }
 
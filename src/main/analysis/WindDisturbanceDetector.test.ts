@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { analyzeWindDisturbance, DISTURBANCE_CALM_THRESHOLD } from './WindDisturbanceDetector';
-import type { BlackboxFlightData, TimeSeries } from '@shared/types/blackbox.types';
+import type { BlackboxFlightData, BlackboxGpsData, TimeSeries } from '@shared/types/blackbox.types';
 
 function makeSeries(length: number, fn: (i: number) => number): TimeSeries {
   const time = new Float64Array(length);
@@ -12,6 +12,21 @@ function makeSeries(length: number, fn: (i: number) => number): TimeSeries {
   return { time, values };
 }
 
+/** 1 Hz GPS track with constant ground speed over the flight */
+function makeGps(seconds: number, speed: number): BlackboxGpsData {
+  const time = Float64Array.from({ length: seconds }, (_, i) => i + 0.5);
+  const zeros = new Float64Array(seconds);
+  return {
+    time,
+    lat: zeros,
+    lon: zeros,
+    altitude: zeros,
+    speed: new Float64Array(seconds).fill(speed),
+    course: zeros,
+    numSat: zeros,
+  };
+}
+
 function makeFlightData(opts: {
   length?: number;
   gyroAmplitude?: number;
@@ -219,4 +234,24 @@ describe('analyzeWindDisturbance', () => {
       expect(result!.summary).toContain('retesting in calmer conditions');
     }
   });
+
+  it('raises the level when GPS shows drift with centered sticks', () => {
+    const data = makeFlightData({ gyroAmplitude: 2 });
+    data.gps = makeGps(5, 6.2);
+    const result = analyzeWindDisturbance(data);
+
+    expect(result!.level).toBe('windy');
+    expect(result!.groundDriftMps).toBeCloseTo(6.2);
+    expect(result!.summary).toContain('GPS drift 6.2 m/s');
+  });
+
+  it('ignores ground speed while the pilot is flying with stick input', () => {
+    const data = makeFlightData({ gyroAmplitude: 2 });
+    data.setpoint[0] = makeSeries(20000, () => 200);
+    data.gps = makeGps(5, 12);
+    const result = analyzeWindDisturbance(data);
+
+    expect(result!.level).toBe('calm');
+    expect(result!.groundDriftMps).toBeUndefined();
+  });
 });
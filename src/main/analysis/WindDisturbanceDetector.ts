@@ -4,6 +4,10 @@
  * Analyzes gyro variance during steady hover segments to estimate environmental
  * disturbance level. High variance during stable throttle indicates wind or
  * turbulence, which reduces confidence in tuning recommendations.
+ *
+ * When the log has a GPS track, ground speed while hovering with centered
+ * roll/pitch sticks is used as a second indicator: the quad is then being
+ * pushed by the wind rather than flown.
  */
 import type { BlackboxFlightData } from '@shared/types/blackbox.types';
 import type { DisturbanceLevel, WindDisturbanceResult } from '@shared/types/analysis.types';
@@ -25,6 +29,20 @@ export const DISTURBANCE_WINDY_THRESHOLD = 200;
 /** Minimum number of hover samples for reliable analysis */
 const MIN_HOVER_SAMPLES = 500;
 
+/** Roll/pitch setpoint (deg/s) below which the sticks count as centered */
+const STICK_CENTERED_DPS = 20;
+
+/** GPS ground drift (m/s) with centered sticks — at or below this is calm */
+export const DRIFT_CALM_SPEED_MPS = 2;
+
+/** GPS ground drift (m/s) with centered sticks — at or above this is significant wind */
+export const DRIFT_WINDY_SPEED_MPS = 5;
+
+/** Minimum number of GPS samples needed to estimate hover drift */
+const MIN_DRIFT_SAMPLES = 3;
+
+const LEVEL_ORDER: DisturbanceLevel[] = ['calm', 'moderate', 'windy'];
+
 // ---- Implementation ----
 
 /**
@@ -88,17 +106,83 @@ function classifyDisturbance(variance: number): DisturbanceLevel {
   return 'moderate';
 }
 
+/**
+ * Classify disturbance level from GPS ground drift with centered sticks.
+ */
+function classifyDrift(driftMps: number): DisturbanceLevel {
+  if (driftMps <= DRIFT_CALM_SPEED_MPS) return 'calm';
+  if (driftMps >= DRIFT_WINDY_SPEED_MPS) return 'windy';
+  return 'moderate';
+}
+
+/**
+ * Index of the first sample at or after time t (binary search).
+ */
+function indexAtTime(time: Float64Array, t: number): number {
+  let lo = 0;
+  let hi = time.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (time[mid] < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Median GPS ground speed during hover segments while roll and pitch
+ * sticks are centered. Returns undefined without enough GPS samples.
+ */
+function measureHoverDrift(
+  flightData: BlackboxFlightData,
+  segments: Array<[number, number]>
+): number | undefined {
+  const { gps, setpoint } = flightData;
+  if (!gps) return undefined;
+
+  const mainTime = setpoint[3].time;
+  const speeds: number[] = [];
+
+  for (let i = 0; i < gps.time.length; i++) {
+    const idx = indexAtTime(mainTime, gps.time[i]);
+    if (idx >= mainTime.length) break;
+
+    const inHover = segments.some(([start, end]) => idx >= start && idx < end);
+    const centered =
+      Math.abs(setpoint[0].values[idx]) < STICK_CENTERED_DPS &&
+      Math.abs(setpoint[1].values[idx]) < STICK_CENTERED_DPS;
+    if (inHover && centered) {
+      speeds.push(gps.speed[i]);
+    }
+  }
+
+  if (speeds.length < MIN_DRIFT_SAMPLES) return undefined;
+
+  speeds.sort((a, b) => a - b);
+  const mid = speeds.length >> 1;
+  return speeds.length % 2 ? speeds[mid] : (speeds[mid - 1] + speeds[mid]) / 2;
+}
+
 /**
  * Generate human-readable summary.
  */
-function generateSummary(level: DisturbanceLevel, worstVariance: number): string {
+function generateSummary(
+  level: DisturbanceLevel,
+  worstVariance: number,
+  groundDriftMps: number | undefined
+): string {
+  const evidence =
+    `gyro variance ${worstVariance.toFixed(0)} deg/s²` +
+    (groundDriftMps !== undefined
+      ? `, GPS drift ${groundDriftMps.toFixed(1)} m/s with centered sticks`
+      : '');
   switch (level) {
     case 'calm':
-      return `Calm conditions detected (gyro variance ${worstVariance.toFixed(0)} deg/s²). Tuning data is reliable.`;
+      return `Calm conditions detected (${evidence}). Tuning data is reliable.`;
     case 'moderate':
-      return `Moderate disturbance detected (gyro variance ${worstVariance.toFixed(0)} deg/s²). Recommendations are usable but a calmer day would improve accuracy.`;
+      return `Moderate disturbance detected (${evidence}). Recommendations are usable but a calmer day would improve accuracy.`;
     case 'windy':
-      return `High disturbance detected (gyro variance ${worstVariance.toFixed(0)} deg/s²). Consider retesting in calmer conditions for more reliable recommendations.`;
+      return `High disturbance detected (${evidence}). Consider retesting in calmer conditions for more reliable recommendations.`;
   }
 }
 
@@ -107,7 +191,8 @@ function generateSummary(level: DisturbanceLevel, worstVariance: number): string
  *
  * Examines gyro variance during stable hover segments (throttle in flight range,
  * below max hover). High variance during stable throttle indicates external
- * disturbance rather than pilot input or mechanical issues.
+ * disturbance rather than pilot input or mechanical issues. If the log has
+ * GPS data, ground drift with centered sticks can raise the level further.
  *
  * Returns undefined if insufficient hover data is available.
  */
@@ -158,15 +243,23 @@ export function analyzeWindDisturbance(
 
   // Worst case across roll and pitch (yaw is noisier by nature, less relevant)
   const worstVariance = Math.max(axisVariance[0], axisVariance[1]);
-  const level = classifyDisturbance(worstVariance);
   const hoverDurationS = totalSamples / sampleRateHz;
 
+  // Wind shows up as gyro variance or as drift — take the worse of the two
+  const groundDriftMps = measureHoverDrift(flightData, segments);
+  let level = classifyDisturbance(worstVariance);
+  if (groundDriftMps !== undefined) {
+    const driftLevel = classifyDrift(groundDriftMps);
+    if (LEVEL_ORDER.indexOf(driftLevel) > LEVEL_ORDER.indexOf(level)) level = driftLevel;
+  }
+
   return {
     axisVariance,
     worstVariance,
     level,
     hoverDurationS,
     hoverSampleCount: totalSamples,
-    summary: generateSummary(level, worstVariance),
+    ...(groundDriftMps !== undefined && { groundDriftMps }),
+    summary: generateSummary(level, worstVariance, groundDriftMps),
   };
 }
@@ -50,6 +50,9 @@ export const SWEEP_MAX_DURATION_S = 15.0;
 /** Maximum throttle regression residual for "monotonic" classification */
 export const SWEEP_MAX_RESIDUAL = 0.15;
 
+// ---- Flight State Exclusion ----
+
+
 // ---- Noise Analysis ----
 
 /** Peak detection: minimum prominence above local noise floor in dB */
@@ -583,6 +586,29 @@ export const RPM_FILTER_Q_BY_SIZE: Record<DroneSize, RpmFilterQRange> = {
 /** Deviation threshold (fraction) from size-appropriate Q to trigger recommendation */
 export const RPM_FILTER_Q_DEVIATION_THRESHOLD = 0.2; // 20%
 
+// ---- RPM Filter Effectiveness (RPM-indexed spectrogram) ----
+// With RPM telemetry in the log, gyro noise can be binned by actual motor
+// frequency. Energy still standing around k × motor Hz after the RPM filter
+// means the notches are missing the harmonic (too few harmonics, or Q too high).
+
+/** Number of motor-frequency bands in the RPM spectrogram */
+export const RPM_SPECTROGRAM_NUM_BANDS = 10;
+
+/** Motor harmonics evaluated for residual energy (BF rpm_filter_harmonics max is 3) */
+export const RPM_HARMONIC_COUNT = 3;
+
+/** Minimum half-width (Hz) of the window around each harmonic line */
+export const RPM_HARMONIC_WINDOW_HZ = 10;
+
+/** Residual energy above the noise floor (dB) at which a harmonic counts as unfiltered */
+export const RPM_RESIDUAL_THRESHOLD_DB = 6;
+
+/** Lowest rpm_filter_q Betaflight accepts */
+export const RPM_FILTER_Q_MIN = 250;
+
+/** Fraction by which rpm_filter_q is lowered (notch widened) when harmonics leak through */
+export const RPM_FILTER_Q_WIDEN_FACTOR = 0.8;
+
 // ---- D-term LPF Dynamic Expo ----
 // Source: docs/PID_TUNING_KNOWLEDGE.md Section 10 (Karate Race presets)
 // Higher expo = LPF cutoff rises faster with throttle = less D filtering at high throttle.
@@ -17,6 +17,7 @@ function createHeader(overrides: Partial<BBLLogHeader> = {}): BBLLogHeader {
     pFieldDefs: [],
     sFieldDefs: [],
     gFieldDefs: [],
+    hFieldDefs: [],
     iInterval: 32,
     pInterval: 1,
     pDenom: 32,
@@ -146,6 +147,20 @@ describe('validateBBLHeader', () => {
     expect(warnings).toHaveLength(1);
     expect(warnings[0].code).toBe('wrong_debug_mode');
   });
+
+  it('skips debug mode check for INAV, whose debug modes differ', () => {
+    const header = createHeader({ firmware: 'inav', firmwareRevision: 'INAV 7.1.0' });
+    header.rawHeaders.set('debug_mode', '0');
+    expect(validateBBLHeader(header)).toHaveLength(0);
+  });
+
+  it('still warns about debug mode for EmuFlight (shares GYRO_SCALED)', () => {
+    const header = createHeader({ firmware: 'emuflight', firmwareRevision: '0.4.1' });
+    header.rawHeaders.set('debug_mode', '0');
+    const warnings = validateBBLHeader(header);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].code).toBe('wrong_debug_mode');
+  });
 });
 
 describe('enrichSettingsFromBBLHeaders', () => {
@@ -6,11 +6,13 @@
  *
  * Version-aware: BF 2025.12+ removed DEBUG_GYRO_SCALED (index 6) because
  * unfiltered gyro is logged by default. The debug mode check is skipped
- * for firmware versions that don't need it.
+ * for firmware versions that don't need it, and for firmwares (INAV,
+ * Rotorflight) whose debug modes don't match Betaflight's.
  */
 
 import type { BBLLogHeader } from '@shared/types/blackbox.types';
 import type { AnalysisWarning, CurrentFilterSettings } from '@shared/types/analysis.types';
+import { dialectOf } from '../blackbox/FirmwareDialect';
 
 /** Minimum recommended logging rate in Hz for meaningful FFT */
 const MIN_LOGGING_RATE_HZ = 2000;
@@ -64,10 +66,12 @@ export function validateBBLHeader(header: BBLLogHeader): AnalysisWarning[] {
     }
   }
 
-  // Check debug mode — only for BF 4.3–4.5.x
+  // Check debug mode — only for BF 4.3–4.5.x and firmwares sharing its GYRO_SCALED
   // BF 2025.12+ (4.6+) logs unfiltered gyro by default, DEBUG_GYRO_SCALED was removed
   const firmwareVersion = header.firmwareRevision || '';
-  if (!isGyroScaledRemoved(firmwareVersion)) {
+  const hasGyroScaled =
+    dialectOf(header).debugMode(GYRO_SCALED_DEBUG_MODE) === GYRO_SCALED_DEBUG_MODE;
+  if (hasGyroScaled && !isGyroScaledRemoved(firmwareVersion)) {
     const debugModeStr = header.rawHeaders.get('debug_mode');
     if (debugModeStr !== undefined) {
       const debugMode = parseInt(debugModeStr, 10);
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BenchVibrationTest, computeBenchNoiseProfile } from './BenchVibrationTest';
+import type { BenchMSPClient } from './BenchVibrationTest';
+import type { BenchTestConfig, BenchTestUpdate, RawImuSample } from '@shared/types/bench.types';
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+/** Link delivers one gyro sample every 4 ms (250 Hz) */
+const SAMPLE_INTERVAL_MS = 4;
+
+/**
+ * Fake FC on a fake clock. Each spinning motor adds a 60 Hz tone plus broadband
+ * roughness (what a worn bearing looks like) to roll/pitch, scaled by its
+ * vibration amplitude; the clock advances with every MSP_RAW_IMU poll.
+ */
+function createBench(opts: { motorCount?: number; vibration?: number[] } = {}) {
+  const motorCount = opts.motorCount ?? 4;
+  const vibration = opts.vibration ?? Array(motorCount).fill(1);
+  let clock = 0;
+  let motorValues: number[] = Array(8).fill(1000);
+
+  const msp = {
+    getMotorValues: vi.fn(async () =>
+      Array.from({ length: 8 }, (_, i) => (i < motorCount ? 1000 : 0))
+    ),
+    setMotorValues: vi.fn(async (values: number[]) => {
+      motorValues = Array.from({ length: 8 }, (_, i) => values[i] ?? 1000);
+    }),
+    getRawImu: vi.fn(async (): Promise<RawImuSample> => {
+      clock += SAMPLE_INTERVAL_MS;
+      const t = clock / 1000;
+      let amplitude = 0;
+      motorValues.forEach((v, m) => {
+        if (v > 1000) amplitude += vibration[m] ?? 0;
+      });
+      const tone = amplitude * Math.sin(2 * Math.PI * 60 * t);
+      const noise = (scale: number) => (Math.random() - 0.5) * scale;
+      return {
+        timestamp: clock,
+        gyro: [tone + noise(0.2 + amplitude), tone + noise(0.2 + amplitude), noise(0.2)],
+      };
+    }),
+  } satisfies BenchMSPClient;
+
+  return { msp, now: () => clock, motorValues: () => motorValues };
+}
+
+const config = (overrides: Partial<BenchTestConfig> = {}): BenchTestConfig => ({
+  mode: 'individual',
+  throttlePercent: 15,
+  stepSeconds: 2,
+  propsRemoved: true,
+  ...overrides,
+});
+
+describe('computeBenchNoiseProfile', () => {
+  it('estimates the sample rate and finds a tone below Nyquist', () => {
+    const samples: RawImuSample[] = Array.from({ length: 500 }, (_, i) => {
+      const v = 10 * Math.sin((2 * Math.PI * 60 * i) / 250) + 100; // 100 deg/s bias
+      return { timestamp: i * 4, gyro: [v, v, 0] };
+    });
+
+    const result = computeBenchNoiseProfile(samples)!;
+
+    expect(result.sampleRateHz).toBeCloseTo(250, 0);
+    expect(result.noise.roll.peaks.some((p) => Math.abs(p.frequency - 60) < 3)).toBe(true);
+  });
+
+  it('returns undefined with too few samples', () => {
+    const samples: RawImuSample[] = [{ timestamp: 0, gyro: [0, 0, 0] }];
+    expect(computeBenchNoiseProfile(samples)).toBeUndefined();
+  });
+});
+
+describe('BenchVibrationTest', () => {
+  it('refuses to spin motors without the props-removed confirmation', async () => {
+    const bench = createBench();
+    const test = new BenchVibrationTest(
+      bench.msp,
+      config({ propsRemoved: false }),
+      vi.fn(),
+      bench.now
+    );
+
+    await expect(test.run()).rejects.toThrow('propellers are removed');
+    expect(bench.msp.setMotorValues).not.toHaveBeenCalled();
+  });
+
+  it('rejects throttle above the safety cap', async () => {
+    const bench = createBench();
+    const test = new BenchVibrationTest(
+      bench.msp,
+      config({ throttlePercent: 80 }),
+      vi.fn(),
+      bench.now
+    );
+
+    await expect(test.run()).rejects.toThrow('Throttle must be between');
+    expect(bench.msp.setMotorValues).not.toHaveBeenCalled();
+  });
+
+  it('spins each motor alone at the chosen throttle and stops them afterwards', async () => {
+    const bench = createBench();
+    const updates: BenchTestUpdate[] = [];
+    const test = new BenchVibrationTest(bench.msp, config(), (u) => updates.push(u), bench.now);
+
+    const final = await test.run();
+
+    const commanded = bench.msp.setMotorValues.mock.calls.map(([v]) => v);
+    expect(commanded.slice(0, 4)).toEqual([
+      [1150, 1000, 1000, 1000],
+      [1000, 1150, 1000, 1000],
+      [1000, 1000, 1150, 1000],
+      [1000, 1000, 1000, 1150],
+    ]);
+    expect(bench.motorValues().every((v) => v === 1000)).toBe(true);
+
+    expect(final.state).toBe('complete');
+    expect(final.results.map((r) => r.label)).toEqual(['Motor 1', 'Motor 2', 'Motor 3', 'Motor 4']);
+    expect(final.results[0].sampleRateHz).toBe(250);
+    expect(updates.some((u) => u.state === 'spinning' && u.activeMotors[0] === 2)).toBe(true);
+    expect(updates[updates.length - 1]).toBe(final);
+  });
+
+  it('flags the motor that vibrates much more than the rest', async () => {
+    const bench = createBench({ vibration: [0.5, 0.5, 20, 0.5] });
+    const test = new BenchVibrationTest(bench.msp, config(), vi.fn(), bench.now);
+
+    const final = await test.run();
+
+    const spread = final.issues.filter((i) => i.type === 'motor_imbalance');
+    expect(spread).toHaveLength(1);
+    expect(spread[0].message).toContain('Motor 3');
+  });
+
+  it('spins all motors together in one step', async () => {
+    const bench = createBench({ motorCount: 6 });
+    const test = new BenchVibrationTest(
+      bench.msp,
+      config({ mode: 'together' }),
+      vi.fn(),
+      bench.now
+    );
+
+    const final = await test.run();
+
+    expect(bench.msp.setMotorValues.mock.calls[0][0]).toEqual(Array(6).fill(1150));
+    expect(final.results).toHaveLength(1);
+    expect(final.results[0].label).toBe('All motors');
+  });
+
+  it('stops motors when stopped mid-run', async () => {
+    const bench = createBench();
+    const test = new BenchVibrationTest(
+      bench.msp,
+      config(),
+      (u) => {
+        if (u.state === 'spinning' && u.step === 1) test.stop();
+      },
+      bench.now
+    );
+
+    const final = await test.run();
+
+    expect(final.state).toBe('stopped');
+    expect(final.activeMotors).toEqual([]);
+    expect(bench.motorValues().every((v) => v === 1000)).toBe(true);
+  });
+
+  it('stops motors and reports an error when the link fails', async () => {
+    const bench = createBench();
+    bench.msp.getRawImu.mockRejectedValueOnce(new Error('Port closed'));
+    const test = new BenchVibrationTest(bench.msp, config(), vi.fn(), bench.now);
+
+    const final = await test.run();
+
+    expect(final.state).toBe('error');
+    expect(final.message).toBe('Port closed');
+    expect(bench.msp.setMotorValues).toHaveBeenLastCalledWith([]);
+  });
+});
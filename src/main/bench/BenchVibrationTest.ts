@@ -0,0 +1,265 @@
+/**
+ * Bench vibration check — spins motors over MSP with props off and watches
+ * the gyro spectrum live, so a bad bearing or bent shaft shows up before the
+ * first flight.
+ *
+ * Gyro comes from polling MSP_RAW_IMU back-to-back, so the sample rate is
+ * whatever the link allows (typically 200-1000 Hz) and irregular. Motor
+ * fundamentals above Nyquist alias into the band, which is fine here: the
+ * check compares motors against each other and against the mechanical
+ * health thresholds, not absolute peak frequencies.
+ */
+import type { NoiseProfile } from '@shared/types/analysis.types';
+import type {
+  BenchStepResult,
+  BenchTestConfig,
+  BenchTestState,
+  BenchTestUpdate,
+  RawImuSample,
+} from '@shared/types/bench.types';
+import { BENCH_TEST } from '@shared/constants';
+import { computePowerSpectrum, trimSpectrum } from '../analysis/FFTCompute';
+import { analyzeAxisNoise, buildNoiseProfile } from '../analysis/NoiseAnalyzer';
+import { checkMotorNoiseSpread, checkNoiseHealth } from '../analysis/MechanicalHealthChecker';
+import { FREQUENCY_MIN_HZ } from '../analysis/constants';
+import { getErrorMessage } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/** Largest FFT window for the MSP gyro stream (~1 s at typical link rates) */
+const BENCH_FFT_WINDOW = 256;
+
+/** Fewest samples needed before a spectrum is shown */
+const MIN_BENCH_SAMPLES = 64;
+
+/** Minimum time between live updates to the renderer */
+const UPDATE_INTERVAL_MS = 500;
+
+/** Motor value for stopped (MSP_SET_MOTOR range is 1000-2000) */
+const MOTOR_STOP = 1000;
+
+/** MSP methods the bench check needs (MSPClient and MockMSPClient both provide them) */
+export interface BenchMSPClient {
+  getRawImu(): Promise<RawImuSample>;
+  getMotorValues(): Promise<number[]>;
+  setMotorValues(values: number[]): Promise<void>;
+}
+
+/**
+ * Compute a noise profile from a run of MSP gyro samples.
+ *
+ * @returns Profile and effective sample rate, or undefined with too few samples
+ */
+export function computeBenchNoiseProfile(
+  samples: RawImuSample[]
+): { noise: NoiseProfile; sampleRateHz: number } | undefined {
+  if (samples.length < MIN_BENCH_SAMPLES) return undefined;
+
+  const elapsedMs = samples[samples.length - 1].timestamp - samples[0].timestamp;
+  if (elapsedMs <= 0) return undefined;
+  const sampleRateHz = ((samples.length - 1) * 1000) / elapsedMs;
+
+  let windowSize = BENCH_FFT_WINDOW;
+  while (windowSize > samples.length) windowSize /= 2;
+
+  const axes = [0, 1, 2].map((axis) => {
+    // Remove gyro bias so DC leakage doesn't swamp the low bins
+    const signal = new Float64Array(samples.length);
+    let mean = 0;
+    for (let i = 0; i < samples.length; i++) mean += samples[i].gyro[axis];
+    mean /= samples.length;
+    for (let i = 0; i < samples.length; i++) signal[i] = samples[i].gyro[axis] - mean;
+
+    const spectrum = computePowerSpectrum(signal, sampleRateHz, windowSize);
+    return analyzeAxisNoise([trimSpectrum(spectrum, FREQUENCY_MIN_HZ, sampleRateHz / 2)]);
+  });
+
+  return { noise: buildNoiseProfile(axes[0], axes[1], axes[2]), sampleRateHz };
+}
+
+/**
+ * One bench vibration run. Create, call run(), and call stop() to abort.
+ * Motors are always commanded back to stop when run() returns, and a
+ * watchdog stops them if the loop overruns its planned duration.
+ */
+export class BenchVibrationTest {
+  private stopped = false;
+  private stopMessage: string | undefined;
+
+  constructor(
+    private msp: BenchMSPClient,
+    private config: BenchTestConfig,
+    private onUpdate: (update: BenchTestUpdate) => void,
+    private now: () => number = Date.now
+  ) {}
+
+  /** Abort the run — motors stop once the current MSP request returns. */
+  stop(message?: string): void {
+    this.stopped = true;
+    this.stopMessage ??= message;
+  }
+
+  /**
+   * Spin the motors step by step and stream updates until done or stopped.
+   * Throws before spinning anything if the config is unsafe or the FC reports no motors.
+   *
+   * @returns Final update (complete, stopped or error) with all step results
+   */
+  async run(): Promise<BenchTestUpdate> {
+    const { mode, throttlePercent, stepSeconds, propsRemoved } = this.config;
+    if (!propsRemoved) {
+      throw new Error('Confirm that all propellers are removed before spinning motors');
+    }
+    if (!(throttlePercent > 0 && throttlePercent <= BENCH_TEST.MAX_THROTTLE_PERCENT)) {
+      throw new Error(`Throttle must be between 1 and ${BENCH_TEST.MAX_THROTTLE_PERCENT}%`);
+    }
+    if (!(stepSeconds > 0 && stepSeconds <= BENCH_TEST.MAX_STEP_SECONDS)) {
+      throw new Error(`Step duration must be between 1 and ${BENCH_TEST.MAX_STEP_SECONDS} seconds`);
+    }
+
+    const motorCount = (await this.msp.getMotorValues()).filter((v) => v > 0).length;
+    if (motorCount === 0) {
+      throw new Error('Flight controller reports no motors — check mixer and motor protocol');
+    }
+
+    const allMotors = Array.from({ length: motorCount }, (_, m) => m);
+    const steps = mode === 'individual' ? allMotors.map((m) => [m]) : [allMotors];
+    const motorValue = MOTOR_STOP + Math.round(throttlePercent * 10);
+    const stepMs = BENCH_TEST.SETTLE_MS + stepSeconds * 1000;
+
+    const watchdog = setTimeout(
+      () => {
+        this.stop('Auto-stopped: bench test overran its time limit');
+        this.msp
+          .setMotorValues([])
+          .catch((err) => logger.error('Bench watchdog stop failed:', err));
+      },
+      steps.length * stepMs + BENCH_TEST.WATCHDOG_GRACE_MS
+    );
+
+    logger.info(
+      `Bench test: ${mode}, ${motorCount} motors at ${throttlePercent}% for ${stepSeconds}s per step`
+    );
+
+    const results: BenchStepResult[] = [];
+    let step = 0;
+    let state: BenchTestState = 'complete';
+    let errorMessage: string | undefined;
+
+    try {
+      for (; step < steps.length && !this.stopped; step++) {
+        const motors = steps[step];
+        const label = mode === 'individual' ? `Motor ${motors[0] + 1}` : 'All motors';
+        await this.msp.setMotorValues(
+          allMotors.map((m) => (motors.includes(m) ? motorValue : MOTOR_STOP))
+        );
+
+        const settleEnd = this.now() + BENCH_TEST.SETTLE_MS;
+        const stepEnd = settleEnd + stepSeconds * 1000;
+        const samples: RawImuSample[] = [];
+        let lastEmit = 0;
+
+        while (!this.stopped && this.now() < stepEnd) {
+          const sample = await this.msp.getRawImu();
+          if (sample.timestamp >= settleEnd) samples.push(sample);
+
+          if (this.now() - lastEmit >= UPDATE_INTERVAL_MS) {
+            lastEmit = this.now();
+            this.updateStepResult(results, step, motors, label, samples);
+            this.onUpdate(
+              this.buildUpdate(
+                'spinning',
+                step,
+                steps.length,
+                motors,
+                results,
+                (stepEnd - lastEmit) / 1000
+              )
+            );
+          }
+        }
+        this.updateStepResult(results, step, motors, label, samples);
+      }
+      if (this.stopped) state = 'stopped';
+    } catch (err) {
+      state = 'error';
+      errorMessage = getErrorMessage(err);
+      logger.error('Bench test failed:', err);
+    } finally {
+      clearTimeout(watchdog);
+      try {
+        await this.msp.setMotorValues([]);
+      } catch (err) {
+        logger.error('Failed to stop motors after bench test:', err);
+      }
+    }
+
+    const final = this.buildUpdate(
+      state,
+      Math.min(step, steps.length - 1),
+      steps.length,
+      [],
+      results,
+      0,
+      errorMessage ?? this.stopMessage
+    );
+    logger.info(`Bench test ${state} after ${results.length}/${steps.length} steps`);
+    this.onUpdate(final);
+    return final;
+  }
+
+  private updateStepResult(
+    results: BenchStepResult[],
+    step: number,
+    motors: number[],
+    label: string,
+    samples: RawImuSample[]
+  ): void {
+    const profile = computeBenchNoiseProfile(samples);
+    if (!profile) return;
+    results[step] = {
+      motors,
+      label,
+      noise: profile.noise,
+      sampleRateHz: Math.round(profile.sampleRateHz),
+      sampleCount: samples.length,
+    };
+  }
+
+  private buildUpdate(
+    state: BenchTestState,
+    step: number,
+    totalSteps: number,
+    activeMotors: number[],
+    results: BenchStepResult[],
+    remainingSeconds: number,
+    message?: string
+  ): BenchTestUpdate {
+    const measured = results.filter(Boolean);
+    const issues = measured.flatMap((r) =>
+      checkNoiseHealth(r.noise).map((issue) => ({
+        ...issue,
+        message: `${r.label}: ${issue.message}`,
+      }))
+    );
+
+    // Motor-to-motor comparison only makes sense once each motor ran alone
+    if (this.config.mode === 'individual' && measured.length === totalSteps) {
+      issues.push(
+        ...checkMotorNoiseSpread(
+          measured.map((r) => Math.max(r.noise.roll.noiseFloorDb, r.noise.pitch.noiseFloorDb))
+        )
+      );
+    }
+
+    return {
+      state,
+      step,
+      totalSteps,
+      activeMotors,
+      remainingSeconds: Math.max(0, Math.round(remainingSeconds)),
+      results: measured,
+      issues,
+      ...(message && { message }),
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { ArrowWriter } from './ArrowWriter';
+
+/** Minimal flatbuffer reader, following the format spec rather than the writer */
+class FbTable {
+  constructor(
+    private buf: Buffer,
+    readonly pos: number
+  ) {
+    // Tables and their scalars must be aligned within the buffer
+    expect(pos % 4).toBe(0);
+  }
+
+  private fieldPos(id: number): number | null {
+    const vtable = this.pos - this.buf.readInt32LE(this.pos);
+    expect(vtable % 2).toBe(0);
+    if (4 + id * 2 >= this.buf.readUInt16LE(vtable)) return null;
+    const offset = this.buf.readUInt16LE(vtable + 4 + id * 2);
+    return offset === 0 ? null : this.pos + offset;
+  }
+
+  private deref(id: number): number {
+    const pos = this.fieldPos(id)!;
+    return pos + this.buf.readUInt32LE(pos);
+  }
+
+  scalar(id: number, size: 1 | 2 | 8): number | null {
+    const pos = this.fieldPos(id);
+    if (pos === null) return null;
+    expect(pos % size).toBe(0);
+    if (size === 1) return this.buf.readUInt8(pos);
+    if (size === 2) return this.buf.readInt16LE(pos);
+    return Number(this.buf.readBigInt64LE(pos));
+  }
+
+  table(id: number): FbTable {
+    return new FbTable(this.buf, this.deref(id));
+  }
+
+  string(id: number): string {
+    const pos = this.deref(id);
+    return this.buf.toString('utf-8', pos + 4, pos + 4 + this.buf.readUInt32LE(pos));
+  }
+
+  tables(id: number): FbTable[] {
+    const pos = this.deref(id);
+    return Array.from({ length: this.buf.readUInt32LE(pos) }, (_, i) => {
+      const slot = pos + 4 + i * 4;
+      return new FbTable(this.buf, slot + this.buf.readUInt32LE(slot));
+    });
+  }
+
+  /** Vector of structs made of `perStruct` 8-byte slots (int64, or int32 + padding) */
+  longs(id: number, perStruct: number): number[] {
+    const pos = this.deref(id);
+    const count = this.buf.readUInt32LE(pos);
+    const bytes = this.buf.subarray(pos + 4);
+    expect((pos + 4) % 8).toBe(0);
+    return Array.from({ length: count * perStruct }, (_, i) => Number(bytes.readBigInt64LE(i * 8)));
+  }
+}
+
+function root(buf: Buffer): FbTable {
+  return new FbTable(buf, buf.readUInt32LE(0));
+}
+
+/** Read an Arrow IPC file the way a reader does: footer → schema, blocks → record batch */
+function readArrowFile(file: Buffer) {
+  expect(file.subarray(0, 6).toString()).toBe('ARROW1');
+  expect(file.subarray(-6).toString()).toBe('ARROW1');
+
+  const footerLength = file.readInt32LE(file.length - 10);
+  const footer = root(file.subarray(file.length - 10 - footerLength, file.length - 10));
+  expect(footer.scalar(0, 2)).toBe(4);
+
+  const schema = footer.table(1);
+  const names = schema.tables(1).map((field) => {
+    expect(field.scalar(2, 1)).toBe(3); // FloatingPoint
+    expect(field.table(3).scalar(0, 2)).toBe(2); // DOUBLE
+    expect(field.tables(5)).toEqual([]);
+    return field.string(0);
+  });
+  const metadata = schema.tables(2).map((kv) => [kv.string(0), kv.string(1)]);
+
+  const [offset, metaDataLength, bodyLength] = footer.longs(3, 3);
+  expect(offset % 8).toBe(0);
+  expect(file.readUInt32LE(offset)).toBe(0xffffffff);
+  const metaLength = file.readInt32LE(offset + 4);
+  expect(metaDataLength).toBe(8 + metaLength);
+
+  const message = root(file.subarray(offset + 8, offset + 8 + metaLength));
+  expect(message.scalar(0, 2)).toBe(4);
+  expect(message.scalar(1, 1)).toBe(3); // RecordBatch
+  expect(message.scalar(3, 8)).toBe(bodyLength);
+
+  const batch = message.table(2);
+  const rows = batch.scalar(0, 8)!;
+  const buffers = batch.longs(2, 2);
+  const body = file.subarray(offset + 8 + metaLength);
+  const columns = names.map((_, c) => {
+    const [dataOffset, dataLength] = buffers.slice(c * 4 + 2, c * 4 + 4);
+    expect(dataLength).toBe(rows * 8);
+    return Array.from({ length: rows }, (_, i) => body.readDoubleLE(dataOffset + i * 8));
+  });
+
+  return { names, metadata, rows, nodes: batch.longs(1, 2), columns };
+}
+
+describe('ArrowWriter', () => {
+  it('writes columns, schema and metadata a reader can find through the footer', () => {
+    const file = ArrowWriter.write(
+      [
+        { name: 'time (us)', values: Float64Array.from([0, 250, 500]) },
+        { name: 'gyroADC[0]', values: Float64Array.from([-12.5, 0, 1e6]) },
+      ],
+      [
+        ['Product', 'Blackbox flight data recorder by Nicholas Sherlock'],
+        ['looptime', '125'],
+      ]
+    );
+
+    const read = readArrowFile(file);
+
+    expect(read.names).toEqual(['time (us)', 'gyroADC[0]']);
+    expect(read.rows).toBe(3);
+    expect(read.nodes).toEqual([3, 0, 3, 0]);
+    expect(read.columns).toEqual([
+      [0, 250, 500],
+      [-12.5, 0, 1e6],
+    ]);
+    expect(read.metadata).toEqual([
+      ['Product', 'Blackbox flight data recorder by Nicholas Sherlock'],
+      ['looptime', '125'],
+    ]);
+  });
+
+  it('starts with the schema message and ends the stream before the footer', () => {
+    const file = ArrowWriter.write([{ name: 'x', values: Float64Array.from([1]) }]);
+
+    expect(file.readUInt32LE(8)).toBe(0xffffffff);
+    const schemaMessage = root(file.subarray(16, 16 + file.readInt32LE(12)));
+    expect(schemaMessage.scalar(1, 1)).toBe(1); // Schema
+    expect(schemaMessage.table(2).tables(1)[0].string(0)).toBe('x');
+
+    const footerStart = file.length - 10 - file.readInt32LE(file.length - 10);
+    expect(file.readUInt32LE(footerStart - 8)).toBe(0xffffffff);
+    expect(file.readUInt32LE(footerStart - 4)).toBe(0);
+  });
+
+  it('writes an empty table', () => {
+    const read = readArrowFile(ArrowWriter.write([{ name: 'x', values: new Float64Array(0) }]));
+    expect(read.rows).toBe(0);
+    expect(read.columns).toEqual([[]]);
+  });
+
+  it('rejects columns of different lengths', () => {
+    expect(() =>
+      ArrowWriter.write([
+        { name: 'a', values: new Float64Array(2) },
+        { name: 'b', values: new Float64Array(3) },
+      ])
+    ).toThrow('All columns must have the same length');
+  });
+});
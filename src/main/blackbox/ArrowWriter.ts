@@ -0,0 +1,266 @@
+/** A named float64 column */
+export interface ArrowColumn {
+  name: string;
+  values: Float64Array;
+}
+
+/** A flatbuffer table field, by field id */
+type FbField =
+  | { kind: 'scalar'; size: 1 | 2 | 8; value: number }
+  | { kind: 'offset'; target: FbObject };
+
+/** The flatbuffer objects the Arrow metadata needs */
+type FbObject =
+  | { kind: 'table'; fields: (FbField | undefined)[] }
+  | { kind: 'string'; value: string }
+  | { kind: 'vector'; items: FbObject[] }
+  /** Vector of 8-byte aligned structs, already laid out */
+  | { kind: 'structs'; count: number; bytes: Buffer };
+
+const MAGIC = Buffer.from('ARROW1');
+const CONTINUATION = 0xffffffff;
+
+/** MetadataVersion.V5 */
+const METADATA_VERSION = 4;
+/** MessageHeader union tags */
+const HEADER_SCHEMA = 1;
+const HEADER_RECORD_BATCH = 3;
+/** Type union tag for FloatingPoint, and Precision.DOUBLE */
+const TYPE_FLOATING_POINT = 3;
+const PRECISION_DOUBLE = 2;
+
+/**
+ * Writes float64 columns as an Arrow IPC file (Feather V2), readable with
+ * `pyarrow.ipc.open_file`, `pandas.read_feather` or Polars.
+ *
+ * One record batch, no nulls, no compression. Key/value pairs go into the
+ * schema's custom metadata. The flatbuffer metadata is laid out front to
+ * back by a small serializer, so the app needs no Arrow dependency.
+ *
+ * Reference: https://arrow.apache.org/docs/format/Columnar.html#ipc-file-format
+ */
+export class ArrowWriter {
+  static write(columns: ArrowColumn[], metadata: [string, string][] = []): Buffer {
+    const rowCount = columns[0]?.values.length ?? 0;
+    if (columns.some((c) => c.values.length !== rowCount)) {
+      throw new Error('All columns must have the same length');
+    }
+
+    const schema = table(
+      short(0), // little-endian
+      ref(vector(columns.map((c) => ArrowWriter.field(c.name)))),
+      ref(vector(metadata.map(([key, value]) => table(ref(str(key)), ref(str(value))))))
+    );
+
+    // Body: an empty validity buffer and the values of each column
+    const body = Buffer.alloc(rowCount * 8 * columns.length);
+    const buffers: number[] = [];
+    columns.forEach((column, c) => {
+      const offset = c * rowCount * 8;
+      column.values.forEach((v, i) => body.writeDoubleLE(v, offset + i * 8));
+      buffers.push(offset, 0, offset, rowCount * 8);
+    });
+    const recordBatch = table(
+      long(rowCount),
+      ref(structs(columns.map(() => [rowCount, 0]).flat(), 2)),
+      ref(structs(buffers, 2))
+    );
+
+    const schemaMessage = encapsulate(message(HEADER_SCHEMA, schema, 0));
+    const batchMessage = encapsulate(message(HEADER_RECORD_BATCH, recordBatch, body.length));
+    const batchOffset = 8 + schemaMessage.length;
+
+    const block = Buffer.alloc(24);
+    block.writeBigInt64LE(BigInt(batchOffset), 0);
+    block.writeInt32LE(batchMessage.length, 8);
+    block.writeBigInt64LE(BigInt(body.length), 16);
+    const footer = serialize(
+      table(
+        short(METADATA_VERSION),
+        ref(schema),
+        ref({ kind: 'structs', count: 0, bytes: Buffer.alloc(0) }),
+        ref({ kind: 'structs', count: 1, bytes: block })
+      )
+    );
+    const footerLength = Buffer.alloc(4);
+    footerLength.writeInt32LE(footer.length);
+
+    return Buffer.concat([
+      MAGIC,
+      Buffer.alloc(2),
+      schemaMessage,
+      batchMessage,
+      body,
+      endOfStream(),
+      footer,
+      footerLength,
+      MAGIC,
+    ]);
+  }
+
+  /** Non-nullable float64 field with no children */
+  private static field(name: string): FbObject {
+    return table(
+      ref(str(name)),
+      bool(false),
+      ubyte(TYPE_FLOATING_POINT),
+      ref(table(short(PRECISION_DOUBLE))),
+      undefined,
+      ref(vector([]))
+    );
+  }
+}
+
+function table(...fields: (FbField | undefined)[]): FbObject {
+  return { kind: 'table', fields };
+}
+
+function str(value: string): FbObject {
+  return { kind: 'string', value };
+}
+
+function vector(items: FbObject[]): FbObject {
+  return { kind: 'vector', items };
+}
+
+/** Vector of structs made of `perStruct` int64 values each */
+function structs(longs: number[], perStruct: number): FbObject {
+  const bytes = Buffer.alloc(longs.length * 8);
+  longs.forEach((v, i) => bytes.writeBigInt64LE(BigInt(v), i * 8));
+  return { kind: 'structs', count: longs.length / perStruct, bytes };
+}
+
+function ref(target: FbObject): FbField {
+  return { kind: 'offset', target };
+}
+
+function bool(value: boolean): FbField {
+  return { kind: 'scalar', size: 1, value: value ? 1 : 0 };
+}
+
+function ubyte(value: number): FbField {
+  return { kind: 'scalar', size: 1, value };
+}
+
+function short(value: number): FbField {
+  return { kind: 'scalar', size: 2, value };
+}
+
+function long(value: number): FbField {
+  return { kind: 'scalar', size: 8, value };
+}
+
+function message(headerType: number, header: FbObject, bodyLength: number): FbObject {
+  return table(short(METADATA_VERSION), ubyte(headerType), ref(header), long(bodyLength));
+}
+
+/** Continuation marker and metadata length, then the 8-byte padded flatbuffer */
+function encapsulate(root: FbObject): Buffer {
+  const metadata = serialize(root);
+  const prefix = Buffer.alloc(8);
+  prefix.writeUInt32LE(CONTINUATION, 0);
+  prefix.writeInt32LE(metadata.length, 4);
+  return Buffer.concat([prefix, metadata]);
+}
+
+function endOfStream(): Buffer {
+  const eos = Buffer.alloc(8);
+  eos.writeUInt32LE(CONTINUATION, 0);
+  return eos;
+}
+
+/**
+ * Lay out a flatbuffer front to back: root offset, then each table with its
+ * vtable just before it and its children after it, so every offset points
+ * forward. Scalars are aligned to their size, the result is padded to 8.
+ */
+function serialize(root: FbObject): Buffer {
+  const bytes: number[] = [];
+  const pad = (align: number) => {
+    while (bytes.length % align !== 0) bytes.push(0);
+  };
+  const put = (pos: number, value: number, size: number) => {
+    for (let b = 0; b < size; b++) {
+      bytes[pos + b] = Math.floor(value / 2 ** (8 * b)) & 0xff;
+    }
+  };
+  const reserve = (size: number) => {
+    const pos = bytes.length;
+    for (let b = 0; b < size; b++) bytes.push(0);
+    return pos;
+  };
+
+  const write = (obj: FbObject): number => {
+    switch (obj.kind) {
+      case 'string': {
+        pad(4);
+        const pos = reserve(4);
+        const utf8 = Buffer.from(obj.value, 'utf-8');
+        put(pos, utf8.length, 4);
+        bytes.push(...utf8, 0);
+        return pos;
+      }
+      case 'structs': {
+        // Elements must be 8-aligned, right after the 4-byte length
+        pad(4);
+        if (bytes.length % 8 === 0) reserve(4);
+        const pos = reserve(4);
+        put(pos, obj.count, 4);
+        bytes.push(...obj.bytes);
+        return pos;
+      }
+      case 'vector': {
+        pad(4);
+        const pos = reserve(4 + obj.items.length * 4);
+        put(pos, obj.items.length, 4);
+        obj.items.forEach((item, i) => {
+          const slot = pos + 4 + i * 4;
+          put(slot, write(item) - slot, 4);
+        });
+        return pos;
+      }
+      case 'table': {
+        pad(2);
+        const vtableSize = 4 + obj.fields.length * 2;
+        const vtablePos = reserve(vtableSize);
+
+        pad(4);
+        const tablePos = reserve(4);
+        const fieldPos: number[] = [];
+        // Largest first keeps padding small
+        const order = obj.fields
+          .map((field, id) => ({ field, id }))
+          .filter((entry): entry is { field: FbField; id: number } => entry.field !== undefined)
+          .sort((a, b) => fieldSize(b.field) - fieldSize(a.field));
+        for (const { field, id } of order) {
+          const size = fieldSize(field);
+          pad(size);
+          fieldPos[id] = reserve(size);
+          if (field.kind === 'scalar') put(fieldPos[id], field.value, size);
+        }
+
+        put(vtablePos, vtableSize, 2);
+        put(vtablePos + 2, bytes.length - tablePos, 2);
+        obj.fields.forEach((_, id) => {
+          if (fieldPos[id] !== undefined) put(vtablePos + 4 + id * 2, fieldPos[id] - tablePos, 2);
+        });
+        // soffset: vtable sits before the table
+        put(tablePos, tablePos - vtablePos, 4);
+
+        for (const { field, id } of order) {
+          if (field.kind === 'offset') put(fieldPos[id], write(field.target) - fieldPos[id], 4);
+        }
+        return tablePos;
+      }
+    }
+  };
+
+  reserve(4);
+  put(0, write(root), 4);
+  pad(8);
+  return Buffer.from(bytes);
+}
+
+function fieldSize(field: FbField): number {
+  return field.kind === 'offset' ? 4 : field.size;
+}
@@ -11,8 +11,14 @@ function buildSyntheticBBL(options: {
   includeMotor?: boolean;
   addCorruption?: boolean;
   secondSession?: boolean;
+  motorCount?: number;
+  /** Log eRPM[n] fields (eRPM / 100) for each motor */
+  includeErpm?: boolean;
+  /** Log debug[0..3] fields with per-motor values */
+  includeDebug?: boolean;
+  extraHeaders?: string[];
 } = {}): Buffer {
-  const { numIFrames = 3, includeGyro = true, includeMotor = false, addCorruption = false, secondSession = false } = options;
+  const { numIFrames = 3, includeGyro = true, includeMotor = false, addCorruption = false, secondSession = false, motorCount = 4, includeErpm = false, includeDebug = false, extraHeaders = [] } = options;
 
   const parts: Buffer[] = [];
 
@@ -31,10 +37,30 @@ function buildSyntheticBBL(options: {
     }
 
     if (includeMotor) {
-      iFieldNames.push('motor[0]', 'motor[1]', 'motor[2]', 'motor[3]');
-      iEncodings.push('1', '1', '1', '1'); // UNSIGNED_VB
-      iPredictors.push('0', '0', '0', '0');
-      iSigned.push('0', '0', '0', '0');
+      for (let m = 0; m < motorCount; m++) {
+        iFieldNames.push(`motor[${m}]`);
+        iEncodings.push('1'); // UNSIGNED_VB
+        iPredictors.push('0');
+        iSigned.push('0');
+      }
+    }
+
+    if (includeErpm) {
+      for (let m = 0; m < motorCount; m++) {
+        iFieldNames.push(`eRPM[${m}]`);
+        iEncodings.push('1'); // UNSIGNED_VB
+        iPredictors.push('0');
+        iSigned.push('0');
+      }
+    }
+
+    if (includeDebug) {
+      for (let d = 0; d < 4; d++) {
+        iFieldNames.push(`debug[${d}]`);
+        iEncodings.push('0'); // SIGNED_VB
+        iPredictors.push('0');
+        iSigned.push('1');
+      }
     }
 
     // Header lines
@@ -48,6 +74,7 @@ function buildSyntheticBBL(options: {
       'H looptime:312',
       'H minthrottle:1070',
       'H vbatref:420',
+      ...extraHeaders,
       `H Field I name:${iFieldNames.join(',')}`,
       `H Field I signed:${iSigned.join(',')}`,
       `H Field I predictor:${iPredictors.join(',')}`,
@@ -82,11 +109,26 @@ function buildSyntheticBBL(options: {
       }
 
       if (includeMotor) {
-        // motor[0..3] (unsigned VB): ~1500
+        // motor[0..n] (unsigned VB): ~1500
         pushUVB(frameBytes, 1500 + f);
         pushUVB(frameBytes, 1500 - f);
-        pushUVB(frameBytes, 1500);
-        pushUVB(frameBytes, 1500);
+        for (let m = 2; m < motorCount; m++) {
+          pushUVB(frameBytes, 1500 + m * 10);
+        }
+      }
+
+      if (includeErpm) {
+        // eRPM[0..n] (unsigned VB): 210 → 21000 eRPM
+        for (let m = 0; m < motorCount; m++) {
+          pushUVB(frameBytes, 210 + m);
+        }
+      }
+
+      if (includeDebug) {
+        // debug[0..3] (signed VB): 150 Hz + motor index
+        for (let d = 0; d < 4; d++) {
+          pushSVB(frameBytes, 150 + d);
+        }
       }
 
       if (addCorruption && f === 1) {
@@ -516,6 +558,84 @@ describe('BlackboxParser', () => {
       expect(fd.motor[1].values[0]).toBe(1500);
     });
 
+    it('extracts one motor channel per motor[n] field (octo)', async () => {
+      const data = buildSyntheticBBL({ numIFrames: 3, includeMotor: true, motorCount: 8 });
+      const result = await BlackboxParser.parse(data);
+
+      const fd = result.sessions[0].flightData;
+      expect(fd.motor).toHaveLength(8);
+      expect(fd.motor[1].values[2]).toBe(1498);
+      expect(fd.motor[7].values[0]).toBe(1570);
+    });
+
+    it('keeps 4 zero-filled motor channels when the log has no motor fields', async () => {
+      const result = await BlackboxParser.parse(buildSyntheticBBL({ numIFrames: 3 }));
+
+      const fd = result.sessions[0].flightData;
+      expect(fd.motor).toHaveLength(4);
+      expect(fd.motor[0].values.every((v) => v === 0)).toBe(true);
+    });
+
+    it('converts eRPM fields to mechanical RPM using motor_poles', async () => {
+      const data = buildSyntheticBBL({
+        numIFrames: 3,
+        includeMotor: true,
+        includeErpm: true,
+        extraHeaders: ['H motor_poles:12'],
+      });
+      const result = await BlackboxParser.parse(data);
+
+      const fd = result.sessions[0].flightData;
+      expect(fd.motorRpmSource).toBe('erpm');
+      expect(fd.motorRpm).toHaveLength(4);
+      // 210 × 100 eRPM / 6 pole pairs = 3500 RPM
+      expect(fd.motorRpm![0].values[0]).toBeCloseTo(3500);
+      expect(fd.motorRpm![3].values[0]).toBeCloseTo((213 * 100) / 6);
+    });
+
+    it('reads motor RPM from RPM_FILTER debug channels, and none without RPM data', async () => {
+      const data = buildSyntheticBBL({
+        numIFrames: 3,
+        includeMotor: true,
+        includeDebug: true,
+        extraHeaders: ['H debug_mode:46'],
+      });
+      const fd = (await BlackboxParser.parse(data)).sessions[0].flightData;
+
+      expect(fd.motorRpmSource).toBe('debug_rpm_filter');
+      // RPM_FILTER logs motor frequency in Hz
+      expect(fd.motorRpm![0].values[0]).toBe(150 * 60);
+      expect(fd.motorRpm![2].values[0]).toBe(152 * 60);
+
+      const plain = (await BlackboxParser.parse(buildSyntheticBBL({ includeMotor: true })))
+        .sessions[0].flightData;
+      expect(plain.motorRpm).toBeUndefined();
+    });
+
+    it('reads INAV logs through their dialect', async () => {
+      const inav = await BlackboxParser.parse(
+        buildSyntheticBBL({
+          includeMotor: true,
+          includeDebug: true,
+          // INAV debug mode 46 is not RPM_FILTER; gyro_scale 2.0
+          extraHeaders: [
+            'H Firmware revision:INAV 7.1.0 (6ae0ef2b) MATEKF405',
+            'H debug_mode:46',
+            'H gyro_scale:0x40000000',
+          ],
+        })
+      );
+      const plain = await BlackboxParser.parse(buildSyntheticBBL({ includeMotor: true }));
+      const session = inav.sessions[0];
+
+      expect(session.header.firmware).toBe('inav');
+      expect(plain.sessions[0].header.firmware).toBe('betaflight');
+      expect(session.flightData.motorRpm).toBeUndefined();
+      expect(Array.from(session.flightData.gyro[1].values)).toEqual(
+        Array.from(plain.sessions[0].flightData.gyro[1].values, (v) => v * 2)
+      );
+    });
+
     it('computes correct sample rate', async () => {
       const data = buildSyntheticBBL({ numIFrames: 2 });
       const result = await BlackboxParser.parse(data);
@@ -1040,6 +1160,12 @@ describe('BlackboxParser', () => {
       expect(fd.gyro[0].values[5]).toBe(555);
       expect(fd.gyro[1].values[5]).toBe(-345);
       expect(fd.gyro[2].values[5]).toBe(236);
+
+      // rcCommand is kept alongside setpoint: I-frame 50, +1 per P-frame
+      expect(fd.rcCommand).toBeDefined();
+      expect(fd.rcCommand![0].values[0]).toBe(50);
+      expect(fd.rcCommand![0].values[5]).toBe(55);
+      expect(fd.setpoint[0].values[0]).toBe(120);
     });
   });
 
@@ -1462,6 +1588,227 @@ describe('BlackboxParser', () => {
     });
   });
 
+  describe('GPS frames', () => {
+    const HOME_LAT = 473977418;
+    const HOME_LON = 85455939;
+
+    function buildGpsBBL(options: { withGpsDefs?: boolean; gpsBeforeHome?: boolean } = {}) {
+      const { withGpsDefs = true, gpsBeforeHome = false } = options;
+      const headers = [
+        'H Product:Blackbox flight data recorder by Nicholas Sherlock',
+        'H Data version:2',
+        'H I interval:32',
+        'H P interval:1/2',
+        'H Firmware type:Betaflight',
+        'H looptime:312',
+        'H Field I name:loopIteration,time,gyroADC[0]',
+        'H Field I signed:0,0,1',
+        'H Field I predictor:0,0,0',
+        'H Field I encoding:1,1,0',
+        'H Field P predictor:6,1,1',
+        'H Field P encoding:0,0,0',
+      ];
+      if (withGpsDefs) {
+        headers.push(
+          'H Field G name:time,GPS_numSat,GPS_coord[0],GPS_coord[1],GPS_altitude,GPS_speed,GPS_ground_course',
+          'H Field G signed:0,0,1,1,0,0,0',
+          'H Field G predictor:10,0,7,7,0,0,0',
+          'H Field G encoding:1,1,0,0,1,1,1',
+          'H Field H name:GPS_home[0],GPS_home[1]',
+          'H Field H signed:1,1',
+          'H Field H predictor:0,0',
+          'H Field H encoding:0,0'
+        );
+      }
+
+      const gFrame = (lat: number, lon: number) => {
+        const bytes = [0x47];
+        pushUVB(bytes, 1000); // 1ms after the last main frame
+        pushUVB(bytes, 12);
+        pushSVB(bytes, lat);
+        pushSVB(bytes, lon);
+        pushUVB(bytes, 4875);
+        pushUVB(bytes, 530);
+        pushUVB(bytes, 1805);
+        return Buffer.from(bytes);
+      };
+      const hFrame = [0x48];
+      pushSVB(hFrame, HOME_LAT);
+      pushSVB(hFrame, HOME_LON);
+
+      const parts: Buffer[] = [Buffer.from(headers.join('\n') + '\n')];
+      for (let f = 0; f < 3; f++) {
+        const iFrame = [0x49];
+        pushUVB(iFrame, f * 32);
+        pushUVB(iFrame, 1_000_000 + f * 20_000);
+        pushSVB(iFrame, 10);
+        parts.push(Buffer.from(iFrame));
+
+        if (f === 0 && gpsBeforeHome) parts.push(gFrame(0, 0));
+        if (f === 0) parts.push(Buffer.from(hFrame));
+        parts.push(gFrame(-120 * (f + 1), 250 * (f + 1)));
+
+        // P-frame: loopIteration +1 (+delta 0), time +312, gyro +1
+        const pFrame = [0x50];
+        pushSVB(pFrame, 0);
+        pushSVB(pFrame, 312);
+        pushSVB(pFrame, 1);
+        parts.push(Buffer.from(pFrame));
+      }
+      parts.push(logEndBytes());
+      return Buffer.concat(parts);
+    }
+
+    it('decodes GPS frames relative to home into a time-aligned track', async () => {
+      const result = await BlackboxParser.parse(buildGpsBBL());
+      const fd = result.sessions[0].flightData;
+      const gps = fd.gps!;
+
+      expect(gps.lat).toHaveLength(3);
+      expect(gps.lat[0]).toBeCloseTo((HOME_LAT - 120) / 1e7, 9);
+      expect(gps.lon[2]).toBeCloseTo((HOME_LON + 750) / 1e7, 9);
+      expect(gps.numSat[0]).toBe(12);
+      expect(gps.altitude[0]).toBeCloseTo(487.5);
+      expect(gps.speed[0]).toBeCloseTo(5.3);
+      expect(gps.course[0]).toBeCloseTo(180.5);
+      expect(gps.home).toEqual({ lat: HOME_LAT / 1e7, lon: HOME_LON / 1e7 });
+      // 1ms after the I-frame it follows, on the main series' time base
+      expect(gps.time[1]).toBeCloseTo(fd.gyro[0].time[2] + 0.001, 6);
+    });
+
+    it('keeps main-frame prediction intact across GPS frames', async () => {
+      const result = await BlackboxParser.parse(buildGpsBBL());
+      const session = result.sessions[0];
+      expect(session.flightData.frameCount).toBe(6);
+      expect(session.flightData.gyro[0].values[1]).toBe(11);
+      expect(session.corruptedFrameCount).toBe(0);
+    });
+
+    it('skips GPS frames logged before the first home frame', async () => {
+      const result = await BlackboxParser.parse(buildGpsBBL({ gpsBeforeHome: true }));
+      expect(result.sessions[0].flightData.gps!.lat).toHaveLength(3);
+    });
+
+    it('omits the GPS track when the header has no G-frame fields', async () => {
+      const result = await BlackboxParser.parse(buildGpsBBL({ withGpsDefs: false }));
+      expect(result.success).toBe(true);
+      expect(result.sessions[0].flightData.gps).toBeUndefined();
+    });
+  });
+
+  describe('event timeline', () => {
+    function buildEventBBL() {
+      const headers = [
+        'H Product:Blackbox flight data recorder by Nicholas Sherlock',
+        'H Data version:2',
+        'H I interval:32',
+        'H P interval:1/2',
+        'H Firmware type:Betaflight',
+        'H looptime:312',
+        'H Field I name:loopIteration,time,gyroADC[0]',
+        'H Field I signed:0,0,1',
+        'H Field I predictor:0,0,0',
+        'H Field I encoding:1,1,0',
+        'H Field P predictor:6,1,1',
+        'H Field P encoding:0,0,0',
+        'H Field S name:flightModeFlags,stateFlags,failsafePhase,rxSignalReceived,rxFlightChannelsValid',
+        'H Field S signed:0,0,0,0,0',
+        'H Field S predictor:0,0,0,0,0',
+        'H Field S encoding:1,1,1,1,1',
+      ];
+
+      const iFrame = (f: number) => {
+        const bytes = [0x49];
+        pushUVB(bytes, f * 32);
+        pushUVB(bytes, 1_000_000 + f * 20_000);
+        pushSVB(bytes, 10);
+        return Buffer.from(bytes);
+      };
+      const sFrame = (failsafePhase: number, rxOk: number) => {
+        const bytes = [0x53];
+        pushUVB(bytes, 0);
+        pushUVB(bytes, 0);
+        pushUVB(bytes, failsafePhase);
+        pushUVB(bytes, rxOk);
+        pushUVB(bytes, rxOk);
+        return Buffer.from(bytes);
+      };
+      const event = (type: number, payload: (bytes: number[]) => void) => {
+        const bytes = [0x45, type];
+        payload(bytes);
+        return Buffer.from(bytes);
+      };
+      const floatBytes = Buffer.alloc(4);
+      floatBytes.writeFloatLE(0.25, 0);
+
+      return Buffer.concat([
+        Buffer.from(headers.join('\n') + '\n'),
+        sFrame(0, 1), // before any main frame
+        event(0, (b) => pushUVB(b, 999)), // SYNC_BEEP
+        iFrame(0),
+        sFrame(0, 1), // periodic repeat, unchanged
+        iFrame(1),
+        sFrame(2, 0),
+        event(13, (b) => {
+          b.push(5);
+          pushSVB(b, -3);
+        }),
+        event(13, (b) => b.push(0x80 | 7, ...floatBytes)),
+        event(30, (b) => {
+          pushUVB(b, 4);
+          pushUVB(b, 0);
+        }),
+        iFrame(2),
+        event(15, (b) => pushUVB(b, 3)), // DISARM
+        event(14, (b) => {
+          pushUVB(b, 100);
+          pushUVB(b, 1_050_000);
+        }),
+        logEndBytes(),
+      ]);
+    }
+
+    it('decodes S-frame state changes and event payloads on the flight time base', async () => {
+      const result = await BlackboxParser.parse(buildEventBBL());
+      const session = result.sessions[0];
+
+      expect(session.flightData.frameCount).toBe(3);
+      expect(session.corruptedFrameCount).toBe(0);
+      expect(session.events).toEqual([
+        {
+          type: 'state',
+          time: 1,
+          flightModeFlags: 0,
+          stateFlags: 0,
+          failsafePhase: 0,
+          rxSignalReceived: true,
+          rxFlightChannelsValid: true,
+        },
+        { type: 'sync_beep', time: 1, beepTime: 999 },
+        {
+          type: 'state',
+          time: 1.02,
+          flightModeFlags: 0,
+          stateFlags: 0,
+          failsafePhase: 2,
+          rxSignalReceived: false,
+          rxFlightChannelsValid: false,
+        },
+        { type: 'inflight_adjustment', time: 1.02, adjustmentFunction: 5, value: -3 },
+        { type: 'inflight_adjustment', time: 1.02, adjustmentFunction: 7, value: 0.25 },
+        { type: 'flight_mode', time: 1.02, flags: 4, lastFlags: 0 },
+        { type: 'disarm', time: 1.04, reason: 3 },
+        { type: 'logging_resume', time: 1.04, logIteration: 100, currentTime: 1_050_000 },
+        { type: 'log_end', time: 1.04 },
+      ]);
+    });
+
+    it('records only the log end for logs without S-frames', async () => {
+      const result = await BlackboxParser.parse(buildSyntheticBBL());
+      expect(result.sessions[0].events.map((e) => e.type)).toEqual(['log_end']);
+    });
+  });
+
   describe('stripFlashHeaders', () => {
     function buildBBLContent(): Buffer {
       // Minimal valid BBL content starting with 'H'
@@ -1,16 +1,27 @@
+import { BBLPredictor, BlackboxDebugMode } from '@shared/types/blackbox.types';
 import type {
+  BBLFieldDefinition,
   BBLLogHeader,
+  BlackboxEvent,
   BlackboxFlightData,
+  BlackboxFrameIndex,
+  BlackboxGpsData,
   BlackboxLogSession,
+  BlackboxParseOptions,
   BlackboxParseResult,
   BlackboxParseProgress,
+  BlackboxStateEvent,
+  MotorRpmSource,
   TimeSeries,
 } from '@shared/types/blackbox.types';
 import {
   FRAME_MARKER,
   FIELD_NAMES,
+  HEADER_KEYS,
   EVENT_TYPE,
   MAX_FRAME_LENGTH,
+  DEFAULT_MOTOR_COUNT,
+  DEFAULT_MOTOR_POLES,
   END_OF_LOG_MESSAGE,
   MAX_ITERATION_JUMP,
   MAX_TIME_JUMP_US,
@@ -19,8 +30,12 @@ import {
   YIELD_INTERVAL,
 } from './constants';
 import { StreamReader } from './StreamReader';
+import { debugModeOf, dialectOf } from './FirmwareDialect';
 import { HeaderParser } from './HeaderParser';
 import { FrameParser } from './FrameParser';
+import { DataFlashImporter } from './DataFlashImporter';
+import { ULogImporter } from './ULogImporter';
+import { getErrorMessage } from '../utils/errors';
 
 /**
  * Error thrown when BBL parsing fails fatally.
@@ -44,15 +59,19 @@ export class BlackboxParseError extends Error {
  */
 export class BlackboxParser {
   /**
-   * Parse a BBL file buffer into structured flight data.
+   * Parse a BBL file buffer into structured flight data. ArduPilot DataFlash
+   * and PX4 ULog files are recognised by their first bytes and converted by
+   * their importers into a single session.
    *
    * @param data - Raw BBL file buffer
    * @param onProgress - Optional callback for progress updates
+   * @param options - What to keep beyond the analysed channels
    * @returns Parse result with sessions, timing, and status
    */
   static async parse(
     data: Buffer,
-    onProgress?: (progress: BlackboxParseProgress) => void
+    onProgress?: (progress: BlackboxParseProgress) => void,
+    options: BlackboxParseOptions = {}
   ): Promise<BlackboxParseResult> {
     const startTime = Date.now();
 
@@ -60,6 +79,35 @@ export class BlackboxParser {
       throw new BlackboxParseError('Empty file');
     }
 
+    const importer = [DataFlashImporter, ULogImporter].find((i) => i.matches(data));
+    if (importer) {
+      let sessions: BlackboxLogSession[];
+      try {
+        sessions = await importer.parse(data, (bytesProcessed) => {
+          onProgress?.({
+            bytesProcessed,
+            totalBytes: data.length,
+            percent: Math.round((bytesProcessed / data.length) * 100),
+            currentSession: 0,
+          });
+        });
+      } catch (error) {
+        throw new BlackboxParseError(getErrorMessage(error));
+      }
+      onProgress?.({
+        bytesProcessed: data.length,
+        totalBytes: data.length,
+        percent: 100,
+        currentSession: 0,
+      });
+      return {
+        sessions,
+        fileSize: data.length,
+        parseTimeMs: Date.now() - startTime,
+        success: true,
+      };
+    }
+
     // Strip dataflash page headers if present (MSP download artifacts)
     data = BlackboxParser.stripFlashHeaders(data);
 
@@ -76,14 +124,21 @@ export class BlackboxParser {
       const start = sessionBoundaries[i];
       const end = i + 1 < sessionBoundaries.length ? sessionBoundaries[i + 1] : data.length;
 
-      const session = await BlackboxParser.parseSession(data, start, end, i, (bytesProcessed) => {
-        onProgress?.({
-          bytesProcessed: start + bytesProcessed,
-          totalBytes: data.length,
-          percent: Math.round(((start + bytesProcessed) / data.length) * 100),
-          currentSession: i,
-        });
-      });
+      const session = await BlackboxParser.parseSession(
+        data,
+        start,
+        end,
+        i,
+        options,
+        (bytesProcessed) => {
+          onProgress?.({
+            bytesProcessed: start + bytesProcessed,
+            totalBytes: data.length,
+            percent: Math.round(((start + bytesProcessed) / data.length) * 100),
+            currentSession: i,
+          });
+        }
+      );
 
       if (session) {
         sessions.push(session);
@@ -135,6 +190,7 @@ export class BlackboxParser {
     start: number,
     end: number,
     sessionIndex: number,
+    options: BlackboxParseOptions,
     onBytesProcessed?: (bytes: number) => void
   ): Promise<BlackboxLogSession | null> {
     const reader = new StreamReader(data, start, end);
@@ -146,6 +202,9 @@ export class BlackboxParser {
     if (header.iFieldDefs.length === 0) {
       return null; // No I-frame fields → not a valid session
     }
+    const frameIndex: BlackboxFrameIndex | undefined = options.frameIndex
+      ? { start, dataStart: reader.offset, end, frames: [] }
+      : undefined;
 
     const frameParser = new FrameParser(header);
 
@@ -160,6 +219,12 @@ export class BlackboxParser {
     // - Semantic validation failures invalidate prediction state, no resync
     const iFrames: number[][] = [];
     const pFrames: number[][] = [];
+    const gpsFrames: number[][] = [];
+    const gpsFrameTimes: number[] = [];
+    // Event times hold the raw main-frame time (µs, -1 before the first
+    // frame) until flight data extraction fixes the time base
+    const events: BlackboxEvent[] = [];
+    let lastState: BlackboxStateEvent | null = null;
     let corruptedFrameCount = 0;
     let frameCount = 0;
 
@@ -178,6 +243,15 @@ export class BlackboxParser {
     let lastIteration = -1;
     let lastTime = -1;
 
+    // GPS frames are only decodable when the header defines their fields.
+    // Coordinates are relative to GPS home, so G-frames seen before the
+    // first H-frame are consumed but not stored.
+    const canParseGps = header.gFieldDefs.length > 0;
+    const canParseGpsHome = header.hFieldDefs.length > 0;
+    const gpsNeedsHome = header.gFieldDefs.some((d) => d.predictor === BBLPredictor.HOME_COORD);
+    const gpsTimeIdx = header.gFieldDefs.findIndex((d) => d.name === FIELD_NAMES.TIME);
+    let gpsHome: number[] | null = null;
+
     // Track bytes processed for progress throttling
     let lastProgressOffset = start;
 
@@ -225,6 +299,11 @@ export class BlackboxParser {
             }
 
             iFrames.push(values);
+            frameIndex?.frames.push({
+              offset: frameStartOffset,
+              timeUs: timeIdx >= 0 ? values[timeIdx] : 0,
+              intra: true,
+            });
             // I-frames reset prediction state (matches BF viewer mainHistory)
             previousFrame = values;
             previousFrame2 = values;
@@ -266,6 +345,11 @@ export class BlackboxParser {
             }
 
             pFrames.push(values);
+            frameIndex?.frames.push({
+              offset: frameStartOffset,
+              timeUs: timeIdx >= 0 ? values[timeIdx] : 0,
+              intra: false,
+            });
             previousFrame2 = previousFrame;
             previousFrame = values;
             frameCount++;
@@ -275,25 +359,66 @@ export class BlackboxParser {
           }
 
           case FRAME_MARKER.SLOW: {
-            frameParser.parseSFrame(reader);
+            const values = frameParser.parseSFrame(reader);
+            if (reader.offset - frameStartOffset > MAX_FRAME_LENGTH) {
+              corruptedFrameCount++;
+              reader.setOffset(frameStartOffset + 1);
+              break;
+            }
+            // BF writes S-frames periodically as well as on change — keep changes only
+            const state = BlackboxParser.buildStateEvent(header.sFieldDefs, values, lastTime);
+            if (!lastState || !BlackboxParser.sameState(lastState, state)) {
+              events.push(state);
+              lastState = state;
+            }
             break;
           }
 
           case FRAME_MARKER.EVENT: {
-            const eventType = BlackboxParser.parseEventFrame(reader);
-            if (eventType === EVENT_TYPE.LOG_END) {
-              reader.setOffset(reader.end);
+            const event = BlackboxParser.parseEventFrame(reader, lastTime);
+            if (event) {
+              events.push(event);
+              if (event.type === 'log_end') {
+                if (frameIndex) frameIndex.end = frameStartOffset;
+                reader.setOffset(reader.end);
+              }
             }
-            // False positive (-1) or other events: stream position is correct, continue
+            // False positive or unknown event: stream position is correct, continue
             break;
           }
 
-          case FRAME_MARKER.GPS:
           case FRAME_MARKER.GPS_HOME: {
-            // We don't parse GPS field defs, so we can't properly consume
-            // GPS frame bytes. Treat the marker as unknown — BF Explorer
-            // does the same when frameDefs.G/H is undefined.
-            previousFrame = null;
+            if (!canParseGpsHome) {
+              // No H-frame field defs — treat the marker as unknown, like
+              // BF Explorer does when frameDefs.H is undefined.
+              previousFrame = null;
+              break;
+            }
+            const values = frameParser.parseHFrame(reader);
+            if (reader.offset - frameStartOffset > MAX_FRAME_LENGTH) {
+              corruptedFrameCount++;
+              reader.setOffset(frameStartOffset + 1);
+              break;
+            }
+            gpsHome = values;
+            break;
+          }
+
+          case FRAME_MARKER.GPS: {
+            if (!canParseGps) {
+              previousFrame = null;
+              break;
+            }
+            const mainTime = Math.max(lastTime, 0);
+            const values = frameParser.parseGFrame(reader, gpsHome ?? [], mainTime);
+            if (reader.offset - frameStartOffset > MAX_FRAME_LENGTH) {
+              corruptedFrameCount++;
+              reader.setOffset(frameStartOffset + 1);
+              break;
+            }
+            if (gpsNeedsHome && !gpsHome) break;
+            gpsFrames.push(values);
+            gpsFrameTimes.push(gpsTimeIdx >= 0 ? values[gpsTimeIdx] : mainTime);
             break;
           }
 
@@ -323,34 +448,58 @@ export class BlackboxParser {
     }
 
     // Extract flight data
-    const flightData = BlackboxParser.extractFlightData(header, iFrames, pFrames, warnings);
+    const { flightData, timeShift } = BlackboxParser.extractFlightData(
+      header,
+      iFrames,
+      pFrames,
+      warnings,
+      options.mainFields ?? false
+    );
+    if (gpsFrames.length > 0) {
+      flightData.gps = BlackboxParser.extractGpsData(
+        header,
+        gpsFrames,
+        gpsFrameTimes,
+        gpsHome,
+        timeShift
+      );
+    }
+
+    // Events logged before the first main frame are placed at its time
+    const startTime = flightData.gyro[0].time[0] ?? 0;
+    for (const event of events) {
+      event.time = event.time >= 0 ? event.time / 1_000_000 - timeShift : startTime;
+    }
 
     return {
       index: sessionIndex,
       header,
       flightData,
+      events,
       corruptedFrameCount,
       warnings,
+      ...(frameIndex ? { frameIndex } : {}),
     };
   }
 
   /**
-   * Parse an event frame by reading its type and associated data.
-   * Returns the event type so the caller can act on LOG_END.
+   * Parse an event frame into a timeline event.
+   * Returns null for a false-positive LOG_END and for event types we
+   * don't decode, so the caller can tell LOG_END apart.
    *
    * Event data uses variable-byte encoding (matching BF Explorer), NOT fixed
    * sizes. Using fixed skip(N) would consume wrong number of bytes when VB
    * values are shorter/longer than expected, causing stream misalignment.
+   *
+   * @param time - Raw time of the last main frame (µs), stored on the event
    */
-  private static parseEventFrame(reader: StreamReader): number {
+  private static parseEventFrame(reader: StreamReader, time: number): BlackboxEvent | null {
     const eventType = reader.readByte();
-    if (eventType === -1) return -1;
+    if (eventType === -1) return null;
 
     switch (eventType) {
       case EVENT_TYPE.SYNC_BEEP:
-        // 1 unsigned VB: beep time
-        reader.readUnsignedVB();
-        break;
+        return { type: 'sync_beep', time, beepTime: reader.readUnsignedVB() };
       case EVENT_TYPE.LOG_END: {
         // Betaflight writes "End of log\0" after the event type byte.
         // Validate this string to avoid false positives from random 0xFF bytes.
@@ -360,45 +509,89 @@ export class BlackboxParser {
         if (endStr !== END_OF_LOG_MESSAGE) {
           // False positive — rewind the validation bytes so reader stays aligned
           reader.setOffset(savedOffset);
-          return -1;
+          return null;
         }
-        break;
+        return { type: 'log_end', time };
       }
       case EVENT_TYPE.DISARM:
-        // 1 unsigned VB: reason
-        reader.readUnsignedVB();
-        break;
-      case EVENT_TYPE.FLIGHT_MODE:
-        // 2 unsigned VB: newFlags, lastFlags
-        reader.readUnsignedVB();
-        reader.readUnsignedVB();
-        break;
+        return { type: 'disarm', time, reason: reader.readUnsignedVB() };
+      case EVENT_TYPE.FLIGHT_MODE: {
+        const flags = reader.readUnsignedVB();
+        const lastFlags = reader.readUnsignedVB();
+        return { type: 'flight_mode', time, flags, lastFlags };
+      }
       case EVENT_TYPE.INFLIGHT_ADJUSTMENT: {
         // 1 byte: adjustment function, then conditional value
         const adjFunc = reader.readByte();
-        if (adjFunc !== -1) {
-          if (adjFunc > 127) {
-            // Float adjustment: 4-byte U32 (÷ 1e6)
-            reader.skip(4);
-          } else {
-            // Integer adjustment: signed VB
-            reader.readSignedVB();
-          }
+        if (adjFunc === -1) return null;
+        if (adjFunc > 127) {
+          // Float adjustment: 4-byte IEEE 754 value, function in the low 7 bits
+          const bytes = reader.readBytes(4);
+          if (bytes.length < 4) return null;
+          return {
+            type: 'inflight_adjustment',
+            time,
+            adjustmentFunction: adjFunc & 0x7f,
+            value: bytes.readFloatLE(0),
+          };
         }
-        break;
+        // Integer adjustment: signed VB
+        return {
+          type: 'inflight_adjustment',
+          time,
+          adjustmentFunction: adjFunc,
+          value: reader.readSignedVB(),
+        };
+      }
+      case EVENT_TYPE.LOGGING_RESUME: {
+        const logIteration = reader.readUnsignedVB();
+        const currentTime = reader.readUnsignedVB();
+        return { type: 'logging_resume', time, logIteration, currentTime };
       }
-      case EVENT_TYPE.LOGGING_RESUME:
-        // 2 unsigned VB: logIteration, currentTime
-        reader.readUnsignedVB();
-        reader.readUnsignedVB();
-        break;
       default:
         // Unknown event type — don't try to skip unknown bytes.
         // BF Explorer also doesn't skip; it just returns the event.
-        break;
+        return null;
     }
+  }
+
+  /**
+   * Build a state event from decoded S-frame values.
+   * Fields missing from the header read as 0 / undefined.
+   */
+  private static buildStateEvent(
+    sFieldDefs: BBLFieldDefinition[],
+    values: number[],
+    time: number
+  ): BlackboxStateEvent {
+    const field = (name: string): number | undefined => {
+      const idx = sFieldDefs.findIndex((d) => d.name === name);
+      return idx >= 0 ? values[idx] : undefined;
+    };
+    const rxSignalReceived = field(FIELD_NAMES.RX_SIGNAL_RECEIVED);
+    const rxFlightChannelsValid = field(FIELD_NAMES.RX_FLIGHT_CHANNELS_VALID);
+
+    return {
+      type: 'state',
+      time,
+      flightModeFlags: field(FIELD_NAMES.FLIGHT_MODE_FLAGS) ?? 0,
+      stateFlags: field(FIELD_NAMES.STATE_FLAGS) ?? 0,
+      failsafePhase: field(FIELD_NAMES.FAILSAFE_PHASE) ?? 0,
+      ...(rxSignalReceived !== undefined && { rxSignalReceived: rxSignalReceived !== 0 }),
+      ...(rxFlightChannelsValid !== undefined && {
+        rxFlightChannelsValid: rxFlightChannelsValid !== 0,
+      }),
+    };
+  }
 
-    return eventType;
+  private static sameState(a: BlackboxStateEvent, b: BlackboxStateEvent): boolean {
+    return (
+      a.flightModeFlags === b.flightModeFlags &&
+      a.stateFlags === b.stateFlags &&
+      a.failsafePhase === b.failsafePhase &&
+      a.rxSignalReceived === b.rxSignalReceived &&
+      a.rxFlightChannelsValid === b.rxFlightChannelsValid
+    );
   }
 
   // Note: resync() removed — BF Explorer does not use forward-scan resync.
@@ -410,13 +603,20 @@ export class BlackboxParser {
    *
    * Combines I-frames and P-frames into a single continuous time series,
    * mapping field names to the appropriate output channels.
+   *
+   * Also returns the shift (seconds) between raw FC time and the output
+   * time base, so sparser data (GPS, events) can be placed on it. The
+   * shift is non-zero only when time was synthesized from the frame index.
+   *
+   * @param keepMainFields - Also return every field as logged in `mainFields`
    */
   private static extractFlightData(
     header: BBLLogHeader,
     iFrames: number[][],
     pFrames: number[][],
-    warnings: string[]
-  ): BlackboxFlightData {
+    warnings: string[],
+    keepMainFields: boolean
+  ): { flightData: BlackboxFlightData; timeShift: number } {
     // Build a unified frame list in order
     // I-frames and P-frames alternate: I, P, P, P, ... I, P, P, P, ...
     // Since we collected them in-order, merge them back
@@ -430,6 +630,13 @@ export class BlackboxParser {
       fieldMap.set(header.iFieldDefs[i].name, i);
     }
 
+    // Fields other firmwares log under another name, e.g. INAV's axisRate[n]
+    const dialect = dialectOf(header);
+    for (const [name, betaflightName] of Object.entries(dialect.fieldAliases)) {
+      const idx = fieldMap.get(name);
+      if (idx !== undefined && !fieldMap.has(betaflightName)) fieldMap.set(betaflightName, idx);
+    }
+
     // Calculate timing
     const timeFieldIdx = fieldMap.get(FIELD_NAMES.TIME);
 
@@ -498,6 +705,10 @@ export class BlackboxParser {
       extractChannel(`${FIELD_NAMES.GYRO_ADC_PREFIX}1]`),
       extractChannel(`${FIELD_NAMES.GYRO_ADC_PREFIX}2]`),
     ];
+    const gyroScale = dialect.gyroScale(header);
+    if (gyroScale !== 1) {
+      for (const axis of gyro) axis.values = axis.values.map((v) => v * gyroScale);
+    }
 
     // Extract setpoint (4 channels: roll, pitch, yaw, throttle)
     // Try "setpoint[N]" first, fall back to "rcCommand[N]"
@@ -515,6 +726,15 @@ export class BlackboxParser {
       extractChannel(setpointNames[3]),
     ];
 
+    // Raw stick commands (roll/pitch/yaw, ±500) when logged alongside setpoint
+    const rcCommand = fieldMap.has(`${FIELD_NAMES.RC_COMMAND_PREFIX}0]`)
+      ? ([0, 1, 2].map((i) => extractChannel(`${FIELD_NAMES.RC_COMMAND_PREFIX}${i}]`)) as [
+          TimeSeries,
+          TimeSeries,
+          TimeSeries,
+        ])
+      : undefined;
+
     // Extract PID terms
     const pidP: [TimeSeries, TimeSeries, TimeSeries] = [
       extractChannel(`${FIELD_NAMES.AXIS_P_PREFIX}0]`),
@@ -537,13 +757,18 @@ export class BlackboxParser {
       extractChannel(`${FIELD_NAMES.AXIS_F_PREFIX}2]`),
     ];
 
-    // Extract motor values
-    const motor: [TimeSeries, TimeSeries, TimeSeries, TimeSeries] = [
-      extractChannel(`${FIELD_NAMES.MOTOR_PREFIX}0]`),
-      extractChannel(`${FIELD_NAMES.MOTOR_PREFIX}1]`),
-      extractChannel(`${FIELD_NAMES.MOTOR_PREFIX}2]`),
-      extractChannel(`${FIELD_NAMES.MOTOR_PREFIX}3]`),
-    ];
+    // Extract motor values — one channel per motor[n] field (hex, octo, ...).
+    // Logs without motor fields keep the 4 zero-filled quad channels.
+    let motorCount = 0;
+    for (const name of fieldMap.keys()) {
+      if (!name.startsWith(FIELD_NAMES.MOTOR_PREFIX)) continue;
+      const motorIdx = parseInt(name.slice(FIELD_NAMES.MOTOR_PREFIX.length), 10);
+      if (Number.isInteger(motorIdx)) motorCount = Math.max(motorCount, motorIdx + 1);
+    }
+    const motor: TimeSeries[] = [];
+    for (let m = 0; m < (motorCount || DEFAULT_MOTOR_COUNT); m++) {
+      motor.push(extractChannel(`${FIELD_NAMES.MOTOR_PREFIX}${m}]`));
+    }
 
     // Extract debug values (up to 8)
     const debug: TimeSeries[] = [];
@@ -554,6 +779,15 @@ export class BlackboxParser {
       }
     }
 
+    // Per-motor RPM from eRPM fields or the RPM debug modes (absent otherwise)
+    const rpm = BlackboxParser.extractMotorRpm(
+      header,
+      fieldMap,
+      extractChannel,
+      debug,
+      motor.length
+    );
+
     // Warn about missing critical fields
     if (!fieldMap.has(`${FIELD_NAMES.GYRO_ADC_PREFIX}0]`)) {
       warnings.push('Missing gyroADC fields - gyro data will be empty');
@@ -589,19 +823,144 @@ export class BlackboxParser {
       }
     }
 
+    // Logged values of every field, for exports that mirror blackbox_decode
+    const mainFields = keepMainFields
+      ? Object.fromEntries(
+          header.iFieldDefs.map((def, idx) => [
+            def.name,
+            Float64Array.from(allFrames, (frame) => frame[idx] ?? 0),
+          ])
+        )
+      : undefined;
+
+    const timeShift =
+      timeFieldIdx !== undefined && frameCount > 0
+        ? allFrames[0][timeFieldIdx] / 1_000_000 - timeArray[0]
+        : 0;
+
     return {
-      gyro,
-      setpoint,
-      pidP,
-      pidI,
-      pidD,
-      pidF,
-      motor,
-      debug,
-      sampleRateHz,
-      durationSeconds,
-      frameCount,
+      flightData: {
+        gyro,
+        setpoint,
+        ...(rcCommand ? { rcCommand } : {}),
+        pidP,
+        pidI,
+        pidD,
+        pidF,
+        motor,
+        ...(rpm ? { motorRpm: rpm.channels, motorRpmSource: rpm.source } : {}),
+        debug,
+        ...(mainFields ? { mainFields } : {}),
+        sampleRateHz,
+        durationSeconds,
+        frameCount,
+      },
+      timeShift,
+    };
+  }
+
+  /**
+   * Convert logged RPM telemetry into mechanical RPM per motor.
+   *
+   * eRPM[n] fields (BF 4.3+ with bidirectional DShot) and DSHOT_RPM_TELEMETRY
+   * debug values are electrical RPM / 100, so mechanical RPM is
+   * value × 100 / (motor_poles / 2). RPM_FILTER debug values are the motor
+   * frequency in Hz, i.e. RPM / 60. eRPM fields win when both are present.
+   */
+  private static extractMotorRpm(
+    header: BBLLogHeader,
+    fieldMap: Map<string, number>,
+    extractChannel: (fieldName: string) => TimeSeries,
+    debug: TimeSeries[],
+    motorCount: number
+  ): { channels: TimeSeries[]; source: MotorRpmSource } | undefined {
+    const poles = parseInt(header.rawHeaders.get(HEADER_KEYS.MOTOR_POLES) ?? '', 10);
+    const erpmScale = 100 / ((poles > 0 ? poles : DEFAULT_MOTOR_POLES) / 2);
+
+    const scale = (series: TimeSeries, factor: number): TimeSeries => ({
+      time: series.time,
+      values: series.values.map((v) => v * factor),
+    });
+
+    const erpmChannels: TimeSeries[] = [];
+    for (let m = 0; fieldMap.has(`${FIELD_NAMES.ERPM_PREFIX}${m}]`); m++) {
+      erpmChannels.push(scale(extractChannel(`${FIELD_NAMES.ERPM_PREFIX}${m}]`), erpmScale));
+    }
+    if (erpmChannels.length > 0) {
+      return { channels: erpmChannels, source: 'erpm' };
+    }
+
+    const debugMode = debugModeOf(header);
+    const debugMotors = debug.slice(0, Math.min(motorCount, debug.length));
+    if (debugMotors.length === 0) return undefined;
+
+    if (debugMode === BlackboxDebugMode.DSHOT_RPM_TELEMETRY) {
+      return {
+        channels: debugMotors.map((ch) => scale(ch, erpmScale)),
+        source: 'debug_dshot_rpm_telemetry',
+      };
+    }
+    if (debugMode === BlackboxDebugMode.RPM_FILTER) {
+      return {
+        channels: debugMotors.map((ch) => scale(ch, 60)),
+        source: 'debug_rpm_filter',
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Convert decoded G-frames into a GPS track in display units.
+   *
+   * Betaflight logs coordinates in degrees × 1e7, altitude in decimeters,
+   * ground speed in cm/s and ground course in decidegrees.
+   */
+  private static extractGpsData(
+    header: BBLLogHeader,
+    gpsFrames: number[][],
+    gpsFrameTimes: number[],
+    gpsHome: number[] | null,
+    timeShift: number
+  ): BlackboxGpsData {
+    const count = gpsFrames.length;
+
+    function extract(name: string, scale: number): Float64Array {
+      const idx = header.gFieldDefs.findIndex((d) => d.name === name);
+      const values = new Float64Array(count);
+      if (idx >= 0) {
+        for (let i = 0; i < count; i++) {
+          values[i] = (gpsFrames[i][idx] ?? 0) * scale;
+        }
+      }
+      return values;
+    }
+
+    const time = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      time[i] = gpsFrameTimes[i] / 1_000_000 - timeShift;
+    }
+
+    const gps: BlackboxGpsData = {
+      time,
+      lat: extract(`${FIELD_NAMES.GPS_COORD_PREFIX}0]`, 1e-7),
+      lon: extract(`${FIELD_NAMES.GPS_COORD_PREFIX}1]`, 1e-7),
+      altitude: extract(FIELD_NAMES.GPS_ALTITUDE, 0.1),
+      speed: extract(FIELD_NAMES.GPS_SPEED, 0.01),
+      course: extract(FIELD_NAMES.GPS_GROUND_COURSE, 0.1),
+      numSat: extract(FIELD_NAMES.GPS_NUM_SAT, 1),
     };
+
+    const homeLatIdx = header.hFieldDefs.findIndex(
+      (d) => d.name === `${FIELD_NAMES.GPS_HOME_PREFIX}0]`
+    );
+    const homeLonIdx = header.hFieldDefs.findIndex(
+      (d) => d.name === `${FIELD_NAMES.GPS_HOME_PREFIX}1]`
+    );
+    if (gpsHome && homeLatIdx >= 0 && homeLonIdx >= 0) {
+      gps.home = { lat: gpsHome[homeLatIdx] * 1e-7, lon: gpsHome[homeLonIdx] * 1e-7 };
+    }
+
+    return gps;
   }
 
   /**
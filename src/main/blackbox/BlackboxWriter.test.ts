@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import { BlackboxWriter } from './BlackboxWriter';
+import { BlackboxParser } from './BlackboxParser';
+import { HeaderParser } from './HeaderParser';
+import { StreamReader } from './StreamReader';
+import { generateFilterDemoBBL } from '../demo/DemoDataGenerator';
+import type {
+  BlackboxEvent,
+  BlackboxFlightData,
+  BlackboxLogSession,
+  TimeSeries,
+} from '@shared/types/blackbox.types';
+
+const FRAME_COUNT = 200;
+const START_US = 5_000_000;
+const FRAME_US = 250;
+const ERPM_SCALE = 100 / (14 / 2);
+
+/**
+ * A header exercising every encoding the main frames use, the common
+ * predictors, slow/GPS/home frames and a field (vbatLatest) with no data.
+ */
+const HEADER = [
+  'Product:Blackbox flight data recorder by Nicholas Sherlock',
+  'Data version:2',
+  'I interval:32',
+  'P interval:1/2',
+  'Firmware type:Cleanflight',
+  'Firmware revision:Betaflight 4.5.1 (77d01ba3b) STM32F7X2',
+  'Field I name:loopIteration,time,axisP[0],axisP[1],axisP[2],axisI[0],axisI[1],axisI[2],axisD[0],axisD[1],axisF[0],axisF[1],axisF[2],rcCommand[0],rcCommand[1],rcCommand[2],setpoint[0],setpoint[1],setpoint[2],setpoint[3],vbatLatest,gyroADC[0],gyroADC[1],gyroADC[2],motor[0],motor[1],motor[2],motor[3],debug[0],debug[1],eRPM[0],eRPM[1],eRPM[2],eRPM[3]',
+  'Field I signed:0,0,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,0,1,1,1,0,0,0,0,1,1,0,0,0,0',
+  'Field I predictor:0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,9,0,0,0,4,5,5,5,0,0,0,0,0,0',
+  'Field I encoding:1,1,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,3,0,0,0,1,0,0,0,0,0,1,1,1,1',
+  'Field P predictor:6,2,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,1,3,3,3,1,1,1,1,1,1,1,1,1,1',
+  'Field P encoding:9,0,0,0,0,7,7,7,0,0,10,10,10,8,8,8,8,8,8,8,0,0,0,0,8,8,8,8,6,6,0,0,0,0',
+  'Field S name:flightModeFlags,stateFlags,failsafePhase,rxSignalReceived,rxFlightChannelsValid',
+  'Field S signed:0,0,0,0,0',
+  'Field S predictor:0,0,0,0,0',
+  'Field S encoding:1,1,1,1,1',
+  'Field G name:time,GPS_numSat,GPS_coord[0],GPS_coord[1],GPS_altitude,GPS_speed,GPS_ground_course',
+  'Field G signed:0,0,1,1,1,0,0',
+  'Field G predictor:10,0,7,7,0,0,0',
+  'Field G encoding:1,1,0,0,0,1,1',
+  'Field H name:GPS_home[0],GPS_home[1]',
+  'Field H signed:1,1',
+  'Field H predictor:0,0',
+  'Field H encoding:0,0',
+  'minthrottle:1070',
+  'vbatref:1680',
+  'looptime:125',
+  'motor_poles:14',
+  'debug_mode:0',
+]
+  .map((line) => `H ${line}\n`)
+  .join('');
+
+/** Deterministic jitter so deltas hit every sub-encoding */
+const noise = (i: number, salt: number, range: number) =>
+  ((i * 7919 + salt * 104729) % (2 * range + 1)) - range;
+
+function buildSession(): BlackboxLogSession {
+  const time = Float64Array.from(
+    { length: FRAME_COUNT },
+    (_, i) => (START_US + i * FRAME_US) / 1_000_000
+  );
+  const series = (fn: (i: number) => number): TimeSeries => ({
+    time,
+    // The parser never yields -0
+    values: Float64Array.from({ length: FRAME_COUNT }, (_, i) => fn(i) || 0),
+  });
+  const axes = (fn: (i: number, axis: number) => number) =>
+    [0, 1, 2].map((axis) => series((i) => fn(i, axis))) as [TimeSeries, TimeSeries, TimeSeries];
+
+  const flightData: BlackboxFlightData = {
+    gyro: axes((i, a) => Math.round(600 * Math.sin(i / 9 + a)) + noise(i, a, 20)),
+    setpoint: [
+      ...axes((i, a) => Math.round(300 * Math.sin(i / 25 + a))),
+      series((i) => 400 + noise(i, 3, 90)),
+    ] as BlackboxFlightData['setpoint'],
+    rcCommand: axes((i, a) => Math.round(150 * Math.sin(i / 25 + a))),
+    pidP: axes((i, a) => noise(i, a + 4, 60)),
+    // Slow drift with a wind-up jump, for the TAG2_3S32 widths
+    pidI: axes((i, a) => (i < 100 ? a * 10 + (i >> 4) : -5000 + a * 70000 + noise(i, a, 3))),
+    pidD: axes((i, a) => (a === 2 ? 0 : noise(i, a + 7, 400))),
+    // Occasional spikes, for the TAG2_3SVARIABLE widths
+    pidF: axes((i, a) => (i % 50 === 0 ? 40000 - a * 90000 : noise(i, a + 9, 120))),
+    motor: [0, 1, 2, 3].map((m) =>
+      series((i) => 1200 + Math.round(300 * Math.sin(i / 15)) + m * 20 + noise(i, m, 8))
+    ),
+    motorRpm: [0, 1, 2, 3].map((m) => series((i) => (2000 + noise(i, m + 11, 1500)) * ERPM_SCALE)),
+    motorRpmSource: 'erpm',
+    debug: [series((i) => (i % 3 === 0 ? 0 : noise(i, 13, 5000))), series(() => 0)],
+    gps: {
+      time: Float64Array.from(
+        { length: 10 },
+        (_, k) => (START_US + k * 20 * FRAME_US + 100) / 1_000_000
+      ),
+      lat: Float64Array.from({ length: 10 }, (_, k) => (473977420 + k * 37) * 1e-7),
+      lon: Float64Array.from({ length: 10 }, (_, k) => (85455940 - k * 12) * 1e-7),
+      altitude: Float64Array.from({ length: 10 }, (_, k) => (4321 + k) * 0.1),
+      speed: Float64Array.from({ length: 10 }, (_, k) => k * 150 * 0.01),
+      course: Float64Array.from({ length: 10 }, (_, k) => (900 + k * 5) * 0.1),
+      numSat: Float64Array.from({ length: 10 }, () => 14),
+      home: { lat: 473977000 * 1e-7, lon: 85456000 * 1e-7 },
+    },
+    sampleRateHz: 4000,
+    durationSeconds: ((FRAME_COUNT - 1) * FRAME_US) / 1_000_000,
+    frameCount: FRAME_COUNT,
+  };
+
+  const at = (i: number) => time[i];
+  const state = { stateFlags: 1, failsafePhase: 0, rxSignalReceived: true };
+  const events: BlackboxEvent[] = [
+    { type: 'state', time: at(0), flightModeFlags: 0, ...state, rxFlightChannelsValid: true },
+    { type: 'sync_beep', time: at(0), beepTime: 4_990_000 },
+    { type: 'flight_mode', time: at(40), flags: 1, lastFlags: 0 },
+    { type: 'state', time: at(40), flightModeFlags: 1, ...state, rxFlightChannelsValid: true },
+    { type: 'inflight_adjustment', time: at(90), adjustmentFunction: 5, value: 48 },
+    { type: 'inflight_adjustment', time: at(91), adjustmentFunction: 21, value: 0.5 },
+    { type: 'state', time: at(150), flightModeFlags: 1, ...state, rxFlightChannelsValid: false },
+    { type: 'logging_resume', time: at(160), logIteration: 64000, currentTime: 5_040_000 },
+    { type: 'disarm', time: at(FRAME_COUNT - 1), reason: 4 },
+    { type: 'log_end', time: at(FRAME_COUNT - 1) },
+  ];
+
+  return {
+    index: 0,
+    header: HeaderParser.parse(new StreamReader(Buffer.from(HEADER))),
+    flightData,
+    events,
+    corruptedFrameCount: 0,
+    warnings: [],
+  };
+}
+
+/** The flight data a parse yields, without the derived summary numbers */
+function channels(fd: BlackboxFlightData) {
+  const { sampleRateHz: _rate, durationSeconds: _duration, frameCount: _count, ...rest } = fd;
+  return rest;
+}
+
+async function parseOne(data: Buffer): Promise<BlackboxLogSession> {
+  const result = await BlackboxParser.parse(data);
+  expect(result.sessions).toHaveLength(1);
+  return result.sessions[0];
+}
+
+describe('BlackboxWriter', () => {
+  it('writes a session that parses back to the same flight data and events', async () => {
+    const session = buildSession();
+
+    const parsed = await parseOne(BlackboxWriter.encodeSession(session));
+
+    expect(parsed.corruptedFrameCount).toBe(0);
+    expect(parsed.warnings).toEqual([]);
+    expect(channels(parsed.flightData)).toEqual(channels(session.flightData));
+    expect(parsed.flightData.frameCount).toBe(FRAME_COUNT);
+    expect(parsed.flightData.sampleRateHz).toBe(4000);
+    expect(parsed.events).toEqual(session.events);
+  });
+
+  it('leaves fields without data out of the header and keeps the rest', async () => {
+    const parsed = await parseOne(BlackboxWriter.encodeSession(buildSession()));
+    const names = parsed.header.iFieldDefs.map((d) => d.name);
+
+    expect(names).not.toContain('vbatLatest');
+    expect(names).toContain('eRPM[3]');
+    expect(parsed.header.pFieldDefs.find((d) => d.name === 'axisF[0]')?.encoding).toBe(10);
+    expect(parsed.header.rawHeaders.get('Firmware revision')).toBe(
+      'Betaflight 4.5.1 (77d01ba3b) STM32F7X2'
+    );
+    expect(parsed.header.rawHeaders.get('motor_poles')).toBe('14');
+  });
+
+  it('writes the same bytes again from its own output', async () => {
+    const first = BlackboxWriter.encodeSession(buildSession());
+    const second = BlackboxWriter.encodeSession(await parseOne(first));
+
+    expect(second.equals(first)).toBe(true);
+  });
+
+  it('round-trips a generated demo log', async () => {
+    const original = (await BlackboxParser.parse(generateFilterDemoBBL())).sessions[0];
+
+    const parsed = await parseOne(BlackboxWriter.encodeSession(original));
+
+    expect(channels(parsed.flightData)).toEqual(channels(original.flightData));
+    expect(parsed.events).toEqual(original.events);
+  }, 30000);
+
+  it('writes INAV logs back under their own field names and gyro units', async () => {
+    const session = buildSession();
+    const inavHeader = HEADER.replace(/setpoint\[([012])\]/g, 'axisRate[$1]').replace(
+      'Betaflight 4.5.1 (77d01ba3b) STM32F7X2',
+      'INAV 7.1.0 (6ae0ef2b) MATEKF405'
+    );
+    const inav: BlackboxLogSession = {
+      ...session,
+      header: HeaderParser.parse(
+        new StreamReader(Buffer.from(`${inavHeader}H gyro_scale:0x40000000\n`))
+      ),
+      flightData: {
+        ...session.flightData,
+        // Logged in half deg/s
+        gyro: session.flightData.gyro.map((s) => ({
+          time: s.time,
+          values: s.values.map((v) => v * 2),
+        })) as BlackboxFlightData['gyro'],
+      },
+    };
+
+    const data = BlackboxWriter.encodeSession(inav);
+    const parsed = await parseOne(data);
+
+    expect(parsed.header.firmware).toBe('inav');
+    expect(parsed.header.iFieldDefs.map((d) => d.name)).toContain('axisRate[0]');
+    expect(channels(parsed.flightData)).toEqual(channels(inav.flightData));
+    expect(BlackboxWriter.encodeSession(parsed).equals(data)).toBe(true);
+  });
+
+  it('writes several sessions into one file that splits back apart', async () => {
+    const session = buildSession();
+    const data = Buffer.concat([
+      BlackboxWriter.encodeSession(session),
+      BlackboxWriter.encodeSession({ ...session, index: 1 }),
+    ]);
+
+    const result = await BlackboxParser.parse(data);
+
+    expect(result.sessions).toHaveLength(2);
+    for (const parsed of result.sessions) {
+      expect(channels(parsed.flightData)).toEqual(channels(session.flightData));
+    }
+  });
+});
@@ -0,0 +1,553 @@
+import { BBLEncoding, BBLPredictor } from '@shared/types/blackbox.types';
+import type {
+  BBLFieldDefinition,
+  BBLLogHeader,
+  BlackboxEvent,
+  BlackboxFlightData,
+  BlackboxLogSession,
+  BlackboxStateEvent,
+  TimeSeries,
+} from '@shared/types/blackbox.types';
+import {
+  FRAME_MARKER,
+  FIELD_NAMES,
+  HEADER_KEYS,
+  HEADER_PREFIX,
+  EVENT_TYPE,
+  DEFAULT_MOTOR_POLES,
+  END_OF_LOG_MESSAGE,
+} from './constants';
+import { StreamReader } from './StreamReader';
+import { HeaderParser } from './HeaderParser';
+import { PredictorApplier } from './PredictorApplier';
+import type { GpsPredictorContext } from './PredictorApplier';
+import { ValueEncoder } from './ValueEncoder';
+import { dialectOf } from './FirmwareDialect';
+
+/** Produces the value of one field for frame N */
+export type FieldSource = (index: number) => number;
+
+/** Header keys holding field definitions, per frame type */
+const FIELD_DEF_KEYS = {
+  I: [
+    HEADER_KEYS.I_FIELD_NAME,
+    HEADER_KEYS.I_SIGNED,
+    HEADER_KEYS.I_PREDICTOR,
+    HEADER_KEYS.I_ENCODING,
+  ],
+  P: [
+    HEADER_KEYS.P_FIELD_NAME,
+    HEADER_KEYS.P_SIGNED,
+    HEADER_KEYS.P_PREDICTOR,
+    HEADER_KEYS.P_ENCODING,
+  ],
+  S: [
+    HEADER_KEYS.S_FIELD_NAME,
+    HEADER_KEYS.S_SIGNED,
+    HEADER_KEYS.S_PREDICTOR,
+    HEADER_KEYS.S_ENCODING,
+  ],
+  G: [
+    HEADER_KEYS.G_FIELD_NAME,
+    HEADER_KEYS.G_SIGNED,
+    HEADER_KEYS.G_PREDICTOR,
+    HEADER_KEYS.G_ENCODING,
+  ],
+  H: [
+    HEADER_KEYS.H_FIELD_NAME,
+    HEADER_KEYS.H_SIGNED,
+    HEADER_KEYS.H_PREDICTOR,
+    HEADER_KEYS.H_ENCODING,
+  ],
+} as const;
+
+const ALL_FIELD_DEF_KEYS: Set<string> = new Set(Object.values(FIELD_DEF_KEYS).flat());
+
+/** Fixed-group encodings always pack 3 consecutive fields (see FrameParser) */
+const FIXED_GROUP_ENCODINGS = new Set([BBLEncoding.TAG2_3S32, BBLEncoding.TAG2_3SVARIABLE]);
+
+/** Variable-group encodings pack runs of same-encoded fields in groups of this size */
+const VARIABLE_GROUP_SIZE: Map<BBLEncoding, number> = new Map([
+  [BBLEncoding.TAG8_8SVB, 8],
+  [BBLEncoding.TAG8_4S16, 4],
+]);
+
+/** A slow, GPS or event frame, written between the main frames by time */
+interface AuxFrame {
+  /** Time in microseconds on the written time base */
+  timeUs: number;
+  write: (lastMainTimeUs: number) => number[];
+}
+
+/**
+ * Writes parsed log sessions back to BBL binary — the inverse of BlackboxParser.
+ *
+ * Main frames are rebuilt from the session's flight data and encoded with the
+ * header's own predictors and encodings, so parsing the output yields the same
+ * flight data, events and GPS track. Fields the session holds no data for
+ * (vbat, rssi, …) are left out of the written header. Loop iterations are
+ * renumbered from 0, one per frame; time keeps the session's time base.
+ */
+export class BlackboxWriter {
+  /**
+   * Encode one session: header, I/P frames, slow and GPS frames, events.
+   */
+  static encodeSession(session: BlackboxLogSession): Buffer {
+    const { flightData } = session;
+    const mainSources = BlackboxWriter.mainFieldSources(session.header, flightData);
+    const keep = (defs: BBLFieldDefinition[], names: Set<string>) =>
+      defs.filter((d) => names.has(d.name));
+
+    const defs = {
+      I: keep(session.header.iFieldDefs, new Set(mainSources.keys())),
+      P: keep(session.header.pFieldDefs, new Set(mainSources.keys())),
+      S: keep(session.header.sFieldDefs, STATE_FIELDS),
+      G: keep(session.header.gFieldDefs, GPS_FIELDS),
+      H: keep(session.header.hFieldDefs, GPS_HOME_FIELDS),
+    };
+
+    const headerBytes = Buffer.from(BlackboxWriter.headerLines(session.header, defs).join(''));
+    // Encode against the header exactly as the parser will read it back
+    const header = HeaderParser.parse(new StreamReader(headerBytes));
+
+    const time = flightData.gyro[0].time;
+    const frameCount = time.length;
+    const timeUs = Array.from(time, (t) => Math.round(t * 1_000_000));
+    const aux = BlackboxWriter.auxFrames(session, header);
+    const parts: Buffer[] = [headerBytes];
+
+    const iSources = header.iFieldDefs.map((d) => mainSources.get(d.name)!);
+    const pSources = header.pFieldDefs.map((d) => mainSources.get(d.name)!);
+    const motor0I = header.iFieldDefs.findIndex((d) => d.name === `${FIELD_NAMES.MOTOR_PREFIX}0]`);
+    const motor0P = header.pFieldDefs.findIndex((d) => d.name === `${FIELD_NAMES.MOTOR_PREFIX}0]`);
+    const framesPerIntra =
+      header.pFieldDefs.length > 0
+        ? Math.max(1, Math.round(header.iInterval / Math.max(1, header.pInterval)))
+        : 1;
+
+    let previous: number[] | null = null;
+    let previous2: number[] | null = null;
+    let lastMainTimeUs = 0;
+    let nextAux = 0;
+
+    for (let i = 0; i < frameCount; i++) {
+      while (nextAux < aux.length && aux[nextAux].timeUs < timeUs[i]) {
+        parts.push(Buffer.from(aux[nextAux++].write(lastMainTimeUs)));
+      }
+
+      // I-frames may step back in time (P-frames may not), so start one on any backward step
+      const intra: boolean = !previous || i % framesPerIntra === 0 || timeUs[i] < timeUs[i - 1];
+      const frameDefs = intra ? header.iFieldDefs : header.pFieldDefs;
+      const values: number[] = (intra ? iSources : pSources).map((source) => Math.round(source(i)));
+      const bytes = BlackboxWriter.encodeFrame(
+        frameDefs,
+        values,
+        intra,
+        previous,
+        previous2,
+        header,
+        intra ? motor0I : motor0P
+      );
+      parts.push(Buffer.from([intra ? FRAME_MARKER.INTRA : FRAME_MARKER.INTER, ...bytes]));
+
+      previous2 = intra ? values : previous;
+      previous = values;
+      lastMainTimeUs = timeUs[i];
+    }
+
+    for (; nextAux < aux.length; nextAux++) {
+      parts.push(Buffer.from(aux[nextAux].write(lastMainTimeUs)));
+    }
+    if (session.events.some((e) => e.type === 'log_end')) {
+      parts.push(BlackboxWriter.logEndFrame());
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  /** The LOG_END event frame that closes a session */
+  static logEndFrame(): Buffer {
+    return Buffer.from([FRAME_MARKER.EVENT, ...encodeEvent({ type: 'log_end', time: 0 })]);
+  }
+
+  /**
+   * Header lines: the original headers in order, with the field definitions
+   * rewritten for the fields being written.
+   */
+  private static headerLines(
+    original: BBLLogHeader,
+    defs: Record<keyof typeof FIELD_DEF_KEYS, BBLFieldDefinition[]>
+  ): string[] {
+    const line = (key: string, value: string) => `${HEADER_PREFIX}${key}:${value}\n`;
+    const fieldLines: string[] = [];
+    for (const type of Object.keys(FIELD_DEF_KEYS) as (keyof typeof FIELD_DEF_KEYS)[]) {
+      const list = defs[type];
+      if (list.length === 0) continue;
+      const [nameKey, signedKey, predictorKey, encodingKey] = FIELD_DEF_KEYS[type];
+      fieldLines.push(
+        line(nameKey, list.map((d) => d.name).join(',')),
+        line(signedKey, list.map((d) => (d.signed ? 1 : 0)).join(',')),
+        line(predictorKey, list.map((d) => d.predictor).join(',')),
+        line(encodingKey, list.map((d) => d.encoding).join(','))
+      );
+    }
+
+    // "H Product:" marks the start of a session, so it must come first
+    const lines = [
+      line(HEADER_KEYS.PRODUCT, original.rawHeaders.get(HEADER_KEYS.PRODUCT) ?? original.product),
+    ];
+    let fieldsWritten = false;
+    for (const [key, value] of original.rawHeaders) {
+      if (key === HEADER_KEYS.PRODUCT) continue;
+      if (ALL_FIELD_DEF_KEYS.has(key)) {
+        if (!fieldsWritten) lines.push(...fieldLines);
+        fieldsWritten = true;
+        continue;
+      }
+      lines.push(line(key, value));
+    }
+    if (!fieldsWritten) lines.push(...fieldLines);
+    return lines;
+  }
+
+  /**
+   * Where each main frame field's values come from — the reverse of
+   * BlackboxParser.extractFlightData. Fields without a source are not written.
+   * Values are in logged units; FlightDataExporter falls back to them for
+   * sessions parsed without `mainFields`.
+   */
+  static mainFieldSources(header: BBLLogHeader, fd: BlackboxFlightData): Map<string, FieldSource> {
+    const names = new Set(header.iFieldDefs.map((d) => d.name));
+    const sources = new Map<string, FieldSource>();
+    const series = (s: TimeSeries | undefined): FieldSource | undefined =>
+      s && ((i) => s.values[i]);
+    const indexed = (prefix: string, channels: TimeSeries[] | undefined) => {
+      channels?.forEach((s, n) => sources.set(`${prefix}${n}]`, (i) => s.values[i]));
+    };
+
+    // One per frame, as the INCREMENT predictor expects
+    sources.set(FIELD_NAMES.LOOP_ITERATION, (i) => i);
+    sources.set(FIELD_NAMES.TIME, (i) => fd.gyro[0].time[i] * 1_000_000);
+
+    // Gyro back into logged units (INAV logs in gyro_scale units)
+    const dialect = dialectOf(header);
+    const gyroScale = dialect.gyroScale(header);
+    fd.gyro.forEach((s, n) =>
+      sources.set(`${FIELD_NAMES.GYRO_ADC_PREFIX}${n}]`, (i) => s.values[i] / gyroScale)
+    );
+    indexed(FIELD_NAMES.AXIS_P_PREFIX, fd.pidP);
+    indexed(FIELD_NAMES.AXIS_I_PREFIX, fd.pidI);
+    indexed(FIELD_NAMES.AXIS_D_PREFIX, fd.pidD);
+    indexed(FIELD_NAMES.AXIS_F_PREFIX, fd.pidF);
+    indexed(FIELD_NAMES.MOTOR_PREFIX, fd.motor);
+
+    // Setpoint channels fall back to rcCommand[n] when setpoint[n] isn't logged
+    indexed(FIELD_NAMES.RC_COMMAND_PREFIX, fd.rcCommand);
+    fd.setpoint.forEach((s, n) => {
+      const setpointName = `${FIELD_NAMES.SETPOINT_PREFIX}${n}]`;
+      const name = names.has(setpointName) ? setpointName : `${FIELD_NAMES.RC_COMMAND_PREFIX}${n}]`;
+      if (!sources.has(name)) sources.set(name, series(s)!);
+    });
+
+    // Setpoint channels other firmwares log under another name (INAV's axisRate[n])
+    const setpoints = new Map(
+      fd.setpoint.map((s, n) => [`${FIELD_NAMES.SETPOINT_PREFIX}${n}]`, s])
+    );
+    for (const [name, betaflightName] of Object.entries(dialect.fieldAliases)) {
+      const s = setpoints.get(betaflightName);
+      if (s && names.has(name)) sources.set(name, (i) => s.values[i]);
+    }
+
+    // Debug channels only exist for the debug[n] fields in the header
+    const debugNames = Array.from({ length: 8 }, (_, n) => `${FIELD_NAMES.DEBUG_PREFIX}${n}]`);
+    debugNames
+      .filter((name) => names.has(name))
+      .forEach((name, channel) => {
+        const s = fd.debug[channel];
+        if (s) sources.set(name, (i) => s.values[i]);
+      });
+
+    if (fd.motorRpmSource === 'erpm' && fd.motorRpm) {
+      const poles = parseInt(header.rawHeaders.get(HEADER_KEYS.MOTOR_POLES) ?? '', 10);
+      const erpmScale = 100 / ((poles > 0 ? poles : DEFAULT_MOTOR_POLES) / 2);
+      fd.motorRpm.forEach((s, n) =>
+        sources.set(`${FIELD_NAMES.ERPM_PREFIX}${n}]`, (i) => s.values[i] / erpmScale)
+      );
+    }
+
+    for (const name of sources.keys()) {
+      if (!names.has(name)) sources.delete(name);
+    }
+    return sources;
+  }
+
+  /**
+   * Slow frames (flight state), GPS home/fix frames and events, in time order.
+   */
+  private static auxFrames(session: BlackboxLogSession, header: BBLLogHeader): AuxFrame[] {
+    const frames: AuxFrame[] = [];
+    const us = (seconds: number) => Math.round(seconds * 1_000_000);
+
+    for (const event of session.events) {
+      if (event.type === 'log_end') continue;
+      if (event.type === 'state') {
+        if (header.sFieldDefs.length === 0) continue;
+        const values = header.sFieldDefs.map((d) => stateFieldValue(event, d.name));
+        const bytes = BlackboxWriter.encodeFrame(
+          header.sFieldDefs,
+          values,
+          true,
+          null,
+          null,
+          header,
+          -1
+        );
+        frames.push({ timeUs: us(event.time), write: () => [FRAME_MARKER.SLOW, ...bytes] });
+        continue;
+      }
+      const bytes = encodeEvent(event);
+      frames.push({ timeUs: us(event.time), write: () => [FRAME_MARKER.EVENT, ...bytes] });
+    }
+
+    const gps = session.flightData.gps;
+    if (gps && gps.time.length > 0 && header.gFieldDefs.length > 0) {
+      const home = header.hFieldDefs.map((d) =>
+        d.name === `${FIELD_NAMES.GPS_HOME_PREFIX}0]`
+          ? Math.round((gps.home?.lat ?? 0) * 1e7)
+          : Math.round((gps.home?.lon ?? 0) * 1e7)
+      );
+      let nextHomeIdx = 0;
+      // Same pairing of GPS_coord[N] with GPS_home[N] as FrameParser
+      const homeCoord = header.gFieldDefs.map((d) => {
+        if (d.predictor !== BBLPredictor.HOME_COORD) return 0;
+        const byName = d.name.startsWith(FIELD_NAMES.GPS_COORD_PREFIX)
+          ? header.hFieldDefs.findIndex(
+              (h) =>
+                h.name ===
+                FIELD_NAMES.GPS_HOME_PREFIX + d.name.substring(FIELD_NAMES.GPS_COORD_PREFIX.length)
+            )
+          : -1;
+        return home[byName >= 0 ? byName : nextHomeIdx++] ?? 0;
+      });
+
+      const gpsFrames: AuxFrame[] = [];
+      if (gps.home && header.hFieldDefs.length > 0) {
+        const bytes = BlackboxWriter.encodeFrame(
+          header.hFieldDefs,
+          home,
+          true,
+          null,
+          null,
+          header,
+          -1
+        );
+        gpsFrames.push({ timeUs: us(gps.time[0]), write: () => [FRAME_MARKER.GPS_HOME, ...bytes] });
+      }
+      for (let j = 0; j < gps.time.length; j++) {
+        const values = header.gFieldDefs.map((d) => gpsFieldValue(gps, j, d.name));
+        gpsFrames.push({
+          timeUs: us(gps.time[j]),
+          write: (lastMainTimeUs) => {
+            const context: GpsPredictorContext = { homeCoord, lastMainFrameTime: lastMainTimeUs };
+            const bytes = BlackboxWriter.encodeFrame(
+              header.gFieldDefs,
+              values,
+              true,
+              null,
+              null,
+              header,
+              -1,
+              context
+            );
+            return [FRAME_MARKER.GPS, ...bytes];
+          },
+        });
+      }
+      frames.push(...gpsFrames);
+    }
+
+    // Stable: events keep their order, GPS frames fall in by time
+    return frames
+      .map((frame, order) => ({ frame, order }))
+      .sort((x, y) => x.frame.timeUs - y.frame.timeUs || x.order - y.order)
+      .map(({ frame }) => frame);
+  }
+
+  /**
+   * Encode one frame's values — the inverse of FrameParser.parseFrame, with
+   * the same field grouping. Each field is stored as its value minus what the
+   * predictor would predict for it.
+   */
+  private static encodeFrame(
+    fieldDefs: BBLFieldDefinition[],
+    values: number[],
+    isIFrame: boolean,
+    previous: number[] | null,
+    previous2: number[] | null,
+    header: BBLLogHeader,
+    motor0FieldIdx: number,
+    gps?: GpsPredictorContext
+  ): number[] {
+    const residual = (idx: number) =>
+      values[idx] -
+      PredictorApplier.apply(
+        fieldDefs[idx].predictor,
+        0,
+        idx,
+        isIFrame,
+        previous,
+        previous2,
+        values,
+        header,
+        motor0FieldIdx,
+        gps
+      );
+    const residuals = (from: number, count: number) =>
+      Array.from({ length: count }, (_, k) => residual(from + k));
+
+    const bytes: number[] = [];
+    let fieldIdx = 0;
+    while (fieldIdx < fieldDefs.length) {
+      const encoding = fieldDefs[fieldIdx].encoding;
+
+      if (FIXED_GROUP_ENCODINGS.has(encoding)) {
+        const count = Math.min(3, fieldDefs.length - fieldIdx);
+        bytes.push(...ValueEncoder.encodeGroup(encoding, residuals(fieldIdx, count), 3));
+        fieldIdx += count;
+        continue;
+      }
+
+      const groupSize = VARIABLE_GROUP_SIZE.get(encoding);
+      if (groupSize !== undefined) {
+        let run = 0;
+        while (
+          fieldIdx + run < fieldDefs.length &&
+          fieldDefs[fieldIdx + run].encoding === encoding
+        ) {
+          run++;
+        }
+        for (let offset = 0; offset < run; offset += groupSize) {
+          const count = Math.min(groupSize, run - offset);
+          bytes.push(
+            ...ValueEncoder.encodeGroup(
+              encoding,
+              residuals(fieldIdx + offset, count),
+              count,
+              header.dataVersion
+            )
+          );
+        }
+        fieldIdx += run;
+        continue;
+      }
+
+      bytes.push(...ValueEncoder.encode(encoding, residual(fieldIdx)));
+      fieldIdx++;
+    }
+    return bytes;
+  }
+}
+
+/** S-frame fields carried by state events */
+export const STATE_FIELDS = new Set<string>([
+  FIELD_NAMES.FLIGHT_MODE_FLAGS,
+  FIELD_NAMES.STATE_FLAGS,
+  FIELD_NAMES.FAILSAFE_PHASE,
+  FIELD_NAMES.RX_SIGNAL_RECEIVED,
+  FIELD_NAMES.RX_FLIGHT_CHANNELS_VALID,
+]);
+
+const GPS_FIELDS = new Set<string>([
+  FIELD_NAMES.TIME,
+  FIELD_NAMES.GPS_NUM_SAT,
+  `${FIELD_NAMES.GPS_COORD_PREFIX}0]`,
+  `${FIELD_NAMES.GPS_COORD_PREFIX}1]`,
+  FIELD_NAMES.GPS_ALTITUDE,
+  FIELD_NAMES.GPS_SPEED,
+  FIELD_NAMES.GPS_GROUND_COURSE,
+]);
+
+const GPS_HOME_FIELDS = new Set<string>([
+  `${FIELD_NAMES.GPS_HOME_PREFIX}0]`,
+  `${FIELD_NAMES.GPS_HOME_PREFIX}1]`,
+]);
+
+export function stateFieldValue(event: BlackboxStateEvent, name: string): number {
+  switch (name) {
+    case FIELD_NAMES.FLIGHT_MODE_FLAGS:
+      return event.flightModeFlags;
+    case FIELD_NAMES.STATE_FLAGS:
+      return event.stateFlags;
+    case FIELD_NAMES.FAILSAFE_PHASE:
+      return event.failsafePhase;
+    case FIELD_NAMES.RX_SIGNAL_RECEIVED:
+      return event.rxSignalReceived ? 1 : 0;
+    case FIELD_NAMES.RX_FLIGHT_CHANNELS_VALID:
+      return event.rxFlightChannelsValid ? 1 : 0;
+    default:
+      return 0;
+  }
+}
+
+/** GPS field in logged units: degrees × 1e7, decimeters, cm/s, decidegrees */
+function gpsFieldValue(
+  gps: NonNullable<BlackboxFlightData['gps']>,
+  j: number,
+  name: string
+): number {
+  switch (name) {
+    case FIELD_NAMES.TIME:
+      return Math.round(gps.time[j] * 1_000_000);
+    case FIELD_NAMES.GPS_NUM_SAT:
+      return gps.numSat[j];
+    case `${FIELD_NAMES.GPS_COORD_PREFIX}0]`:
+      return Math.round(gps.lat[j] * 1e7);
+    case `${FIELD_NAMES.GPS_COORD_PREFIX}1]`:
+      return Math.round(gps.lon[j] * 1e7);
+    case FIELD_NAMES.GPS_ALTITUDE:
+      return Math.round(gps.altitude[j] * 10);
+    case FIELD_NAMES.GPS_SPEED:
+      return Math.round(gps.speed[j] * 100);
+    case FIELD_NAMES.GPS_GROUND_COURSE:
+      return Math.round(gps.course[j] * 10);
+    default:
+      return 0;
+  }
+}
+
+/** Event frame payload after the 'E' marker — mirrors BlackboxParser.parseEventFrame */
+function encodeEvent(event: Exclude<BlackboxEvent, BlackboxStateEvent>): number[] {
+  switch (event.type) {
+    case 'sync_beep':
+      return [EVENT_TYPE.SYNC_BEEP, ...ValueEncoder.unsignedVB(event.beepTime)];
+    case 'disarm':
+      return [EVENT_TYPE.DISARM, ...ValueEncoder.unsignedVB(event.reason)];
+    case 'flight_mode':
+      return [
+        EVENT_TYPE.FLIGHT_MODE,
+        ...ValueEncoder.unsignedVB(event.flags),
+        ...ValueEncoder.unsignedVB(event.lastFlags),
+      ];
+    case 'inflight_adjustment': {
+      if (Number.isInteger(event.value)) {
+        return [
+          EVENT_TYPE.INFLIGHT_ADJUSTMENT,
+          event.adjustmentFunction,
+          ...ValueEncoder.signedVB(event.value),
+        ];
+      }
+      // Float adjustments flag the function with the top bit
+      const float = Buffer.alloc(4);
+      float.writeFloatLE(event.value);
+      return [EVENT_TYPE.INFLIGHT_ADJUSTMENT, event.adjustmentFunction | 0x80, ...float];
+    }
+    case 'logging_resume':
+      return [
+        EVENT_TYPE.LOGGING_RESUME,
+        ...ValueEncoder.unsignedVB(event.logIteration),
+        ...ValueEncoder.unsignedVB(event.currentTime),
+      ];
+    case 'log_end':
+      return [EVENT_TYPE.LOG_END, ...Buffer.from(END_OF_LOG_MESSAGE)];
+  }
+}
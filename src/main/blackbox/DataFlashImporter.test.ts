@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { DataFlashImporter } from './DataFlashImporter';
+import { BlackboxParser } from './BlackboxParser';
+import { computePowerSpectrum } from '../analysis/FFTCompute';
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+
+const GYRO_HZ = 1000;
+const DURATION_S = 2;
+const START_US = 30_000_000;
+
+/** A message definition: FMT fields plus the values' encoders */
+interface Definition {
+  type: number;
+  name: string;
+  format: string;
+  columns: string[];
+}
+
+const FMT: Definition = {
+  type: 0x80,
+  name: 'FMT',
+  format: 'BBnNZ',
+  columns: ['Type', 'Length', 'Name', 'Format', 'Columns'],
+};
+const PARM: Definition = {
+  type: 64,
+  name: 'PARM',
+  format: 'QNf',
+  columns: ['TimeUS', 'Name', 'Value'],
+};
+const MSG: Definition = { type: 65, name: 'MSG', format: 'QZ', columns: ['TimeUS', 'Message'] };
+const GYR: Definition = {
+  type: 66,
+  name: 'GYR',
+  format: 'QBQfff',
+  columns: ['TimeUS', 'I', 'SampleUS', 'GyrX', 'GyrY', 'GyrZ'],
+};
+const IMU: Definition = {
+  type: 67,
+  name: 'IMU',
+  format: 'QBfff',
+  columns: ['TimeUS', 'I', 'GyrX', 'GyrY', 'GyrZ'],
+};
+const RATE: Definition = {
+  type: 68,
+  name: 'RATE',
+  format: 'Qffffffffffff',
+  columns: [
+    'TimeUS',
+    'RDes',
+    'R',
+    'ROut',
+    'PDes',
+    'P',
+    'POut',
+    'YDes',
+    'Y',
+    'YOut',
+    'ADes',
+    'A',
+    'AOut',
+  ],
+};
+const RCOU: Definition = {
+  type: 69,
+  name: 'RCOU',
+  format: 'QHHHHHH',
+  columns: ['TimeUS', 'C1', 'C2', 'C3', 'C4', 'C5', 'C6'],
+};
+
+const SIZES: Record<string, number> = { B: 1, H: 2, f: 4, Q: 8, n: 4, N: 16, Z: 64 };
+const length = (def: Definition) => 3 + [...def.format].reduce((sum, c) => sum + SIZES[c], 0);
+
+function message(def: Definition, values: (number | string)[]): Buffer {
+  const buf = Buffer.alloc(length(def));
+  buf.writeUInt8(0xa3, 0);
+  buf.writeUInt8(0x95, 1);
+  buf.writeUInt8(def.type, 2);
+  let offset = 3;
+  [...def.format].forEach((c, i) => {
+    const value = values[i];
+    if (c === 'B') buf.writeUInt8(value as number, offset);
+    else if (c === 'H') buf.writeUInt16LE(value as number, offset);
+    else if (c === 'f') buf.writeFloatLE(value as number, offset);
+    else if (c === 'Q') buf.writeBigUInt64LE(BigInt(value as number), offset);
+    else buf.write(value as string, offset, SIZES[c], 'latin1');
+    offset += SIZES[c];
+  });
+  return buf;
+}
+
+const fmt = (def: Definition) =>
+  message(FMT, [def.type, length(def), def.name, def.format, def.columns.join(',')]);
+
+/** Roll gyro with an 80 Hz vibration, in rad/s as ArduPilot logs it */
+const rollGyro = (t: number) => 0.5 + 0.2 * Math.sin(2 * Math.PI * 80 * t);
+
+function buildDataFlashLog(durationS = DURATION_S): Buffer {
+  const parts: Buffer[] = [fmt(FMT), ...[PARM, MSG, GYR, IMU, RATE, RCOU].map(fmt)];
+  parts.push(message(MSG, [0, 'ArduCopter V4.5.1 (5d1a4f8e)']));
+  parts.push(message(MSG, [0, 'ChibiOS: 6a85082c']));
+  // Motors 1 and 2 swapped onto outputs 2 and 1; outputs 5-6 are servos
+  for (const [n, fn] of [34, 33, 35, 36, 0, 0].entries()) {
+    parts.push(message(PARM, [0, `SERVO${n + 1}_FUNCTION`, fn]));
+  }
+
+  for (let k = 0; k < GYRO_HZ * durationS; k++) {
+    const us = START_US + k * 1000;
+    const t = k / GYRO_HZ;
+    parts.push(message(GYR, [us + 300, 0, us, rollGyro(t), -0.1, 0.05]));
+    // Second IMU and the low-rate IMU message are ignored while GYR is logged
+    parts.push(message(GYR, [us + 300, 1, us, 9, 9, 9]));
+    if (k % 10 === 0) {
+      parts.push(message(IMU, [us, 0, 7, 7, 7]));
+      // Desired roll rate ramps up at 500 deg/s²; 40 % throttle
+      parts.push(message(RATE, [us, k / 2, 0, 0, -20, 0, 0, 3, 0, 0, 0, 0, 0.4]));
+    }
+    if (k % 20 === 0) {
+      parts.push(message(RCOU, [us, 1410, 1420, 1430, 1440, 1500, 1500]));
+    }
+    if (k === 500) {
+      // Line noise between messages
+      parts.push(Buffer.from([0x00, 0xa3, 0x42, 0x95]));
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+describe('DataFlashImporter', () => {
+  let log: Buffer;
+  let session: BlackboxLogSession;
+
+  beforeAll(async () => {
+    log = buildDataFlashLog();
+    const result = await BlackboxParser.parse(log);
+    expect(result.sessions).toHaveLength(1);
+    session = result.sessions[0];
+  });
+
+  it('recognises DataFlash logs by their leading FMT message', () => {
+    expect(DataFlashImporter.matches(log)).toBe(true);
+    expect(DataFlashImporter.matches(Buffer.from('H Product:Blackbox flight data recorder'))).toBe(
+      false
+    );
+  });
+
+  it('takes firmware and parameters from MSG and PARM messages', () => {
+    expect(session.header.firmware).toBe('ardupilot');
+    expect(session.header.firmwareRevision).toBe('ArduCopter V4.5.1 (5d1a4f8e)');
+    expect(session.header.rawHeaders.get('SERVO1_FUNCTION')).toBe('34');
+    expect(session.header.looptime).toBe(1000);
+  });
+
+  it('reads the first IMU from GYR by sample time, in deg/s', () => {
+    const fd = session.flightData;
+
+    expect(fd.frameCount).toBe(GYRO_HZ * DURATION_S);
+    expect(fd.sampleRateHz).toBeCloseTo(GYRO_HZ);
+    expect(fd.gyro[0].time[0]).toBe(START_US / 1_000_000);
+    expect(fd.gyro[0].values[3]).toBeCloseTo((rollGyro(0.003) * 180) / Math.PI, 3);
+    expect(fd.gyro[1].values[0]).toBeCloseTo((-0.1 * 180) / Math.PI, 3);
+    expect(Math.max(...fd.gyro[2].values)).toBeLessThan(10);
+  });
+
+  it('resamples RATE and RCOU onto the gyro frames', () => {
+    const fd = session.flightData;
+
+    // RDes at 100 Hz, interpolated between messages
+    expect(fd.setpoint[0].values[10]).toBeCloseTo(5);
+    expect(fd.setpoint[0].values[15]).toBeCloseTo(7.5);
+    expect(fd.setpoint[1].values[500]).toBeCloseTo(-20);
+    expect(fd.setpoint[3].values[500]).toBeCloseTo(1400);
+    // Motor order from SERVOn_FUNCTION
+    expect(fd.motor.map((m) => m.values[100])).toEqual([1420, 1410, 1430, 1440]);
+    expect(fd.motor[0].time).toBe(fd.gyro[0].time);
+  });
+
+  it('feeds the noise analysis: the vibration shows up at 80 Hz', () => {
+    const fd = session.flightData;
+    const spectrum = computePowerSpectrum(fd.gyro[0].values, fd.sampleRateHz);
+
+    // Strongest bin above the DC offset
+    let peak = spectrum.frequencies.findIndex((f) => f > 10);
+    for (let i = peak; i < spectrum.magnitudes.length; i++) {
+      if (spectrum.magnitudes[i] > spectrum.magnitudes[peak]) peak = i;
+    }
+    expect(Math.abs(spectrum.frequencies[peak] - 80)).toBeLessThan(2);
+  });
+
+  it('falls back to IMU messages without GYR and rejects logs without gyro', async () => {
+    const imuOnly = Buffer.concat([
+      fmt(FMT),
+      fmt(IMU),
+      ...Array.from({ length: 100 }, (_, k) => message(IMU, [START_US + k * 2500, 0, 0.1, 0, 0])),
+    ]);
+    const fd = (await BlackboxParser.parse(imuOnly)).sessions[0].flightData;
+    expect(fd.sampleRateHz).toBeCloseTo(400);
+    expect(fd.motor.every((m) => m.values.every((v) => v === 0))).toBe(true);
+
+    await expect(BlackboxParser.parse(Buffer.concat([fmt(FMT), fmt(IMU)]))).rejects.toThrow(
+      'no gyro data'
+    );
+  });
+
+  it('reports progress and yields to the event loop while reading', async () => {
+    const percents: number[] = [];
+    let yielded = false;
+    setImmediate(() => {
+      yielded = true;
+    });
+
+    await BlackboxParser.parse(buildDataFlashLog(4), (progress) => percents.push(progress.percent));
+
+    expect(yielded).toBe(true);
+    expect(percents.length).toBeGreaterThan(2);
+    expect(percents).toEqual([...percents].sort((a, b) => a - b));
+    expect(percents[0]).toBeLessThan(50);
+    expect(percents.at(-1)).toBe(100);
+  });
+});
@@ -0,0 +1,322 @@
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+import { buildImportedSession, yieldToEventLoop } from './ImportedLog';
+import type { LoggedChannel } from './ImportedLog';
+import { PROGRESS_INTERVAL, YIELD_INTERVAL } from './constants';
+
+/** Every DataFlash message starts with these two bytes, then its type */
+const HEAD = [0xa3, 0x95];
+const HEADER_SIZE = 3;
+
+/** The FMT message defines the layout of every other message type */
+const FMT_TYPE = 0x80;
+const FMT_LENGTH = 89;
+
+/** Byte size of each DataFlash format character */
+const FIELD_SIZES: Record<string, number> = {
+  a: 64,
+  b: 1,
+  B: 1,
+  M: 1,
+  h: 2,
+  H: 2,
+  c: 2,
+  C: 2,
+  g: 2,
+  i: 4,
+  I: 4,
+  e: 4,
+  E: 4,
+  L: 4,
+  f: 4,
+  n: 4,
+  d: 8,
+  q: 8,
+  Q: 8,
+  N: 16,
+  Z: 64,
+};
+
+/** SERVOn_FUNCTION values of Motor1…Motor8 */
+const MOTOR1_FUNCTION = 33;
+const MAX_MOTORS = 8;
+const MAX_SERVO_OUTPUTS = 16;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+interface MessageFormat {
+  name: string;
+  length: number;
+  /** Column name → format character and byte offset in the message */
+  fields: Map<string, { type: string; offset: number }>;
+}
+
+type FieldReader = (data: Buffer, message: number) => number;
+
+/**
+ * Imports ArduPilot DataFlash (`.bin`) logs.
+ *
+ * Reads the messages the noise and transfer-function analyses need: gyro
+ * from GYR (high-rate IMU logging) or else IMU, desired rates and throttle
+ * from RATE, motor outputs from RCOU (mapped through SERVOn_FUNCTION), and
+ * PARM values as the session's headers. Only the first IMU is used.
+ */
+export class DataFlashImporter {
+  /** Whether the buffer starts like a DataFlash log (an FMT message) */
+  static matches(data: Buffer): boolean {
+    return (
+      data.length >= HEADER_SIZE &&
+      data[0] === HEAD[0] &&
+      data[1] === HEAD[1] &&
+      data[2] === FMT_TYPE
+    );
+  }
+
+  /**
+   * @param onBytesProcessed - Called with the bytes read so far every PROGRESS_INTERVAL messages
+   */
+  static async parse(
+    data: Buffer,
+    onBytesProcessed?: (bytesProcessed: number) => void
+  ): Promise<BlackboxLogSession[]> {
+    const formats = new Map<number, MessageFormat>();
+    const params = new Map<string, string>();
+    const messages: string[] = [];
+    const gyr = newChannels(3);
+    const imu = newChannels(3);
+    const rate = newChannels(3);
+    const throttle = newChannels(1);
+    const rcou = newChannels(MAX_SERVO_OUTPUTS);
+
+    // Readers per message type, built when the type's FMT is seen
+    const readers = new Map<number, (message: number) => void>();
+
+    let pos = 0;
+    let messageCount = 0;
+    while (pos + HEADER_SIZE <= data.length) {
+      if (data[pos] !== HEAD[0] || data[pos + 1] !== HEAD[1]) {
+        pos++;
+        continue;
+      }
+      const type = data[pos + 2];
+
+      if (type === FMT_TYPE) {
+        if (pos + FMT_LENGTH > data.length) break;
+        const format = parseFormat(data, pos);
+        formats.set(data[pos + 3], format);
+        const reader = messageReader(
+          format,
+          { params, messages, gyr, imu, rate, throttle, rcou },
+          data
+        );
+        if (reader) readers.set(data[pos + 3], reader);
+        pos += FMT_LENGTH;
+      } else {
+        const format = formats.get(type);
+        if (!format || pos + format.length > data.length) {
+          // Unknown type or truncated message: resync on the next header
+          pos++;
+          continue;
+        }
+        readers.get(type)?.(pos);
+        pos += format.length;
+      }
+
+      messageCount++;
+      if (messageCount % PROGRESS_INTERVAL === 0) onBytesProcessed?.(pos);
+      if (messageCount % YIELD_INTERVAL === 0) await yieldToEventLoop();
+    }
+
+    const gyro = gyr[0].time.length > 0 ? gyr : imu;
+    const vehicle = messages.find((m) => /^Ardu|^Blimp|^AntennaTracker/.test(m)) ?? '';
+    return [
+      buildImportedSession(
+        {
+          firmware: 'ardupilot',
+          product: 'ArduPilot DataFlash log',
+          firmwareType: 'ArduPilot',
+          firmwareRevision: vehicle,
+          rawHeaders: params,
+        },
+        {
+          gyro: [gyro[0], gyro[1], gyro[2]],
+          setpoint: rate[0].time.length > 0 ? [rate[0], rate[1], rate[2]] : undefined,
+          throttle: throttle[0].time.length > 0 ? throttle[0] : undefined,
+          motors: motorChannels(params).map((output) => rcou[output]),
+        }
+      ),
+    ];
+  }
+}
+
+function newChannels(count: number): LoggedChannel[] {
+  return Array.from({ length: count }, () => ({ time: [], values: [] }));
+}
+
+/** Read an FMT message: type, length, name, format characters and column names */
+function parseFormat(data: Buffer, pos: number): MessageFormat {
+  const text = (start: number, length: number) =>
+    data.toString('latin1', start, start + length).replace(/\0.*$/s, '');
+  const length = data[pos + 4];
+  const name = text(pos + 5, 4);
+  const types = text(pos + 9, 16);
+  const columns = text(pos + 25, 64).split(',');
+
+  const fields = new Map<string, { type: string; offset: number }>();
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < types.length; i++) {
+    if (columns[i]) fields.set(columns[i], { type: types[i], offset });
+    offset += FIELD_SIZES[types[i]] ?? 0;
+  }
+  return { name, length, fields };
+}
+
+/** Reader for one numeric column, or undefined if the message doesn't have it */
+function fieldReader(format: MessageFormat, column: string): FieldReader | undefined {
+  const field = format.fields.get(column);
+  if (!field) return undefined;
+  const at = field.offset;
+  switch (field.type) {
+    case 'b':
+      return (d, m) => d.readInt8(m + at);
+    case 'B':
+    case 'M':
+      return (d, m) => d.readUInt8(m + at);
+    case 'h':
+      return (d, m) => d.readInt16LE(m + at);
+    case 'H':
+      return (d, m) => d.readUInt16LE(m + at);
+    case 'c':
+      return (d, m) => d.readInt16LE(m + at) / 100;
+    case 'C':
+      return (d, m) => d.readUInt16LE(m + at) / 100;
+    case 'i':
+    case 'L':
+      return (d, m) => d.readInt32LE(m + at);
+    case 'I':
+      return (d, m) => d.readUInt32LE(m + at);
+    case 'e':
+      return (d, m) => d.readInt32LE(m + at) / 100;
+    case 'E':
+      return (d, m) => d.readUInt32LE(m + at) / 100;
+    case 'f':
+      return (d, m) => d.readFloatLE(m + at);
+    case 'd':
+      return (d, m) => d.readDoubleLE(m + at);
+    case 'q':
+      return (d, m) => Number(d.readBigInt64LE(m + at));
+    case 'Q':
+      return (d, m) => Number(d.readBigUInt64LE(m + at));
+    default:
+      return undefined;
+  }
+}
+
+function textReader(format: MessageFormat, column: string) {
+  const field = format.fields.get(column);
+  if (!field) return undefined;
+  const size = FIELD_SIZES[field.type];
+  return (d: Buffer, m: number) =>
+    d.toString('latin1', m + field.offset, m + field.offset + size).replace(/\0.*$/s, '');
+}
+
+interface Collected {
+  params: Map<string, string>;
+  messages: string[];
+  gyr: LoggedChannel[];
+  imu: LoggedChannel[];
+  rate: LoggedChannel[];
+  throttle: LoggedChannel[];
+  rcou: LoggedChannel[];
+}
+
+/**
+ * The function storing one message type's values, for the types the import
+ * uses. Channels hold samples of the first instance only, in time order.
+ */
+function messageReader(
+  format: MessageFormat,
+  into: Collected,
+  data: Buffer
+): ((message: number) => void) | undefined {
+  const timeUs = fieldReader(format, 'TimeUS');
+  const instance = fieldReader(format, 'I');
+  const firstInstance = (m: number) => !instance || instance(data, m) === 0;
+
+  /** Append a sample unless time went backwards (a later IMU batch overlapping) */
+  const push = (channels: LoggedChannel[], time: number, values: number[]) => {
+    const last = channels[0].time[channels[0].time.length - 1];
+    if (last !== undefined && time <= last) return;
+    channels.forEach((channel, n) => {
+      channel.time.push(time);
+      channel.values.push(values[n]);
+    });
+  };
+
+  switch (format.name) {
+    case 'PARM': {
+      const name = textReader(format, 'Name');
+      const value = fieldReader(format, 'Value');
+      if (!name || !value) return undefined;
+      return (m) => into.params.set(name(data, m), String(value(data, m)));
+    }
+    case 'MSG': {
+      const message = textReader(format, 'Message');
+      return message && ((m) => into.messages.push(message(data, m)));
+    }
+    case 'GYR':
+    case 'IMU': {
+      // GYR carries the sensor's own sample time
+      const sampleUs = fieldReader(format, 'SampleUS') ?? timeUs;
+      const axes = ['GyrX', 'GyrY', 'GyrZ'].map((c) => fieldReader(format, c));
+      if (!sampleUs || axes.some((a) => !a)) return undefined;
+      const channels = format.name === 'GYR' ? into.gyr : into.imu;
+      return (m) => {
+        if (!firstInstance(m)) return;
+        push(
+          channels,
+          sampleUs(data, m) / 1_000_000,
+          axes.map((axis) => axis!(data, m) * RAD_TO_DEG)
+        );
+      };
+    }
+    case 'RATE': {
+      const desired = ['RDes', 'PDes', 'YDes'].map((c) => fieldReader(format, c));
+      const throttleOut = fieldReader(format, 'AOut');
+      if (!timeUs || desired.some((c) => !c)) return undefined;
+      return (m) => {
+        const time = timeUs(data, m) / 1_000_000;
+        push(
+          into.rate,
+          time,
+          desired.map((column) => column!(data, m))
+        );
+        if (throttleOut) push(into.throttle, time, [throttleOut(data, m)]);
+      };
+    }
+    case 'RCOU': {
+      const outputs = Array.from({ length: MAX_SERVO_OUTPUTS }, (_, n) =>
+        fieldReader(format, `C${n + 1}`)
+      );
+      if (!timeUs) return undefined;
+      return (m) =>
+        push(
+          into.rcou,
+          timeUs(data, m) / 1_000_000,
+          outputs.map((output) => (output ? output(data, m) : 0))
+        );
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** RCOU channel (0-based) of each motor, from SERVOn_FUNCTION; a quad on 1–4 without params */
+function motorChannels(params: Map<string, string>): number[] {
+  const channels: number[] = [];
+  for (let n = 1; n <= MAX_SERVO_OUTPUTS; n++) {
+    const motor = Number(params.get(`SERVO${n}_FUNCTION`)) - MOTOR1_FUNCTION;
+    if (motor >= 0 && motor < MAX_MOTORS) channels[motor] = n - 1;
+  }
+  const motors = channels.filter((c) => c !== undefined);
+  return motors.length > 0 ? motors : [0, 1, 2, 3];
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { betaflightHeaders, debugModeOf, detectFirmware, dialectOf } from './FirmwareDialect';
+import { HeaderParser } from './HeaderParser';
+import { StreamReader } from './StreamReader';
+import { BlackboxDebugMode } from '@shared/types/blackbox.types';
+import type { BBLLogHeader } from '@shared/types/blackbox.types';
+
+function parseHeader(lines: string[]): BBLLogHeader {
+  return HeaderParser.parse(
+    new StreamReader(Buffer.from(lines.map((line) => `H ${line}\n`).join('')))
+  );
+}
+
+describe('FirmwareDialect', () => {
+  it('detects the firmware from the revision and type headers', () => {
+    const detect = (type: string, revision: string) =>
+      detectFirmware(
+        new Map([
+          ['Firmware type', type],
+          ['Firmware revision', revision],
+        ])
+      );
+
+    expect(detect('Cleanflight', 'Betaflight 4.5.1 (77d01ba3b) STM32F7X2')).toBe('betaflight');
+    expect(detect('Cleanflight', 'INAV 7.1.0 (6ae0ef2b) MATEKF405')).toBe('inav');
+    expect(detect('Cleanflight', 'EmuFlight 0.4.1 (1a2b3c4) HELIOSPRING')).toBe('emuflight');
+    expect(detect('Cleanflight', 'Rotorflight 2.0.0 (d4e5f6a) STM32F7X2')).toBe('rotorflight');
+    expect(detectFirmware(new Map())).toBe('betaflight');
+  });
+
+  it('maps other firmwares’ header keys onto Betaflight’s without overriding them', () => {
+    const header = parseHeader([
+      'Firmware revision:INAV 7.1.0 (6ae0ef2b) MATEKF405',
+      'gyro_lpf_hz:90',
+      'dterm_lpf_hz:110',
+      'dterm_lpf1_static_hz:100',
+    ]);
+
+    const headers = betaflightHeaders(header);
+
+    expect(header.firmware).toBe('inav');
+    expect(headers.get('gyro_lpf1_static_hz')).toBe('90');
+    expect(headers.get('dterm_lpf1_static_hz')).toBe('100');
+    // The log's own keys stay
+    expect(headers.get('gyro_lpf_hz')).toBe('90');
+    expect(header.rawHeaders.has('gyro_lpf1_static_hz')).toBe(false);
+  });
+
+  it('reads INAV gyro_scale as the hex bits of a float', () => {
+    const scale = (value?: string) => {
+      const header = parseHeader([
+        'Firmware revision:INAV 7.1.0 (6ae0ef2b) MATEKF405',
+        ...(value ? [`gyro_scale:${value}`] : []),
+      ]);
+      return dialectOf(header).gyroScale(header);
+    };
+
+    expect(scale('0x3f800000')).toBe(1);
+    expect(scale('0x40000000')).toBe(2);
+    expect(scale('0x00000000')).toBe(1);
+    expect(scale()).toBe(1);
+  });
+
+  it('only keeps debug modes that mean the same as Betaflight’s', () => {
+    const debugMode = (revision: string, mode: string) =>
+      debugModeOf(parseHeader([`Firmware revision:${revision}`, `debug_mode:${mode}`]));
+
+    expect(debugMode('Betaflight 4.5.1', '46')).toBe(BlackboxDebugMode.RPM_FILTER);
+    expect(debugMode('Betaflight 4.5.1', 'RPM_FILTER')).toBe(BlackboxDebugMode.RPM_FILTER);
+    expect(debugMode('EmuFlight 0.4.1', '6')).toBe(BlackboxDebugMode.GYRO_SCALED);
+    expect(debugMode('EmuFlight 0.4.1', '46')).toBeUndefined();
+    expect(debugMode('INAV 7.1.0', '6')).toBeUndefined();
+    expect(debugMode('Rotorflight 2.0.0', 'RPM_FILTER')).toBeUndefined();
+  });
+
+  it('flags the Betaflight-specific analyses per firmware', () => {
+    const unsupported = (revision: string) =>
+      Object.keys(dialectOf(parseHeader([`Firmware revision:${revision}`])).unsupported);
+
+    expect(unsupported('Betaflight 4.5.1')).toEqual([]);
+    for (const revision of ['INAV 7.1.0', 'EmuFlight 0.4.1', 'Rotorflight 2.0.0']) {
+      expect(unsupported(revision)).toEqual(['filter_recommendations', 'pid', 'transfer_function']);
+    }
+  });
+
+  it('maps the flight mode flag bits each firmware logs', () => {
+    const flightModes = (revision: string) => {
+      const header = parseHeader([`Firmware revision:${revision}`]);
+      return dialectOf(header).flightModes(header);
+    };
+
+    // Betaflight and EmuFlight log mode boxes: ANGLE 1, HORIZON 2
+    expect(flightModes('Betaflight 4.5.1 (77d01ba3b) STM32F7X2')).toEqual({
+      angle: 0b110,
+      failsafe: (1 << 6) | (1 << 7),
+    });
+    expect(flightModes('Betaflight 2025.12.0 (8a0b6c3d1) STM32H743')).toEqual({
+      angle: 0b110,
+      failsafe: (1 << 8) | (1 << 10),
+    });
+    expect(flightModes('EmuFlight 0.4.1 (1a2b3c4) HELIOSPRING')).toEqual({
+      angle: 0b110,
+      failsafe: (1 << 6) | (1 << 7),
+    });
+    // INAV logs its runtime flags: ANGLE 0, HORIZON 1, NAV_RTH 4, FAILSAFE 9
+    expect(flightModes('INAV 7.1.0 (6ae0ef2b) MATEKF405')).toEqual({
+      angle: 0b11,
+      failsafe: (1 << 4) | (1 << 9),
+    });
+    expect(flightModes('Rotorflight 2.0.0 (d4e5f6a) STM32F7X2')).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+import { BlackboxDebugMode } from '@shared/types/blackbox.types';
+import type { BBLLogHeader, BlackboxFirmware } from '@shared/types/blackbox.types';
+import { HEADER_KEYS } from './constants';
+
+/** Analyses whose output is tied to Betaflight's PID controller and settings */
+export type FirmwareAnalysis = 'filter_recommendations' | 'pid' | 'transfer_function';
+
+/** flightModeFlags bits (S-frame) that make a span unsuitable for analysis */
+export interface FlightModeBits {
+  /** Self-levelling modes (angle, horizon) */
+  angle: number;
+  /** Failsafe and the autopilot it hands over to (GPS rescue, RTH) */
+  failsafe: number;
+}
+
+/**
+ * How one firmware's logs differ from Betaflight's. The parser and the
+ * analysis pipeline read Betaflight names; a dialect maps the rest onto them.
+ */
+export interface FirmwareDialect {
+  firmware: BlackboxFirmware;
+  /** Display name, e.g. for analysis errors */
+  name: string;
+  /** Main-frame fields logged under another name: firmware name → Betaflight name */
+  fieldAliases: Record<string, string>;
+  /** Header keys written under another name: firmware key → Betaflight key */
+  headerAliases: Record<string, string>;
+  /** The Betaflight debug mode with the same meaning as a logged debug_mode, if any */
+  debugMode(logged: number): BlackboxDebugMode | undefined;
+  /** Factor from logged gyroADC units to deg/s */
+  gyroScale(header: BBLLogHeader): number;
+  /** Its flightModeFlags bits for the log's version; null when not mapped, so only failsafePhase counts */
+  flightModes(header: BBLLogHeader): FlightModeBits | null;
+  /** Analyses that would produce garbage for this firmware, with the reason */
+  unsupported: Partial<Record<FirmwareAnalysis, string>>;
+}
+
+const sameAsBetaflight = (logged: number) =>
+  logged in BlackboxDebugMode ? (logged as BlackboxDebugMode) : undefined;
+
+/**
+ * Betaflight's loadSlowState() logs rcModeActivationMask, so the bits are
+ * boxId_e positions, not flightModeFlags_e: ARM 0, ANGLE 1, HORIZON 2,
+ * FAILSAFE 6, GPSRESCUE 7. EmuFlight forked with this layout.
+ */
+const BETAFLIGHT_BOXES: FlightModeBits = {
+  angle: (1 << 1) | (1 << 2),
+  failsafe: (1 << 6) | (1 << 7),
+};
+
+/** 4.6 (2025.12) added ALTHOLD, CHIRP and POSHOLD boxes: FAILSAFE 8, GPSRESCUE 10 */
+const BETAFLIGHT_4_6_BOXES: FlightModeBits = {
+  angle: (1 << 1) | (1 << 2),
+  failsafe: (1 << 8) | (1 << 10),
+};
+
+function betaflightFlightModes(header: BBLLogHeader): FlightModeBits {
+  const version = firmwareVersion(header);
+  const boxes4_6 = version !== null && (version[0] > 4 || (version[0] === 4 && version[1] >= 6));
+  return boxes4_6 ? BETAFLIGHT_4_6_BOXES : BETAFLIGHT_BOXES;
+}
+
+/**
+ * INAV's loadSlowState() logs its runtime flightModeFlags, not mode boxes:
+ * ANGLE 0, HORIZON 1, NAV_RTH 4, FAILSAFE 9 (bits 10 and 11 are AUTO_TUNE and NAV_WP)
+ */
+const INAV_FLIGHT_MODES: FlightModeBits = {
+  angle: (1 << 0) | (1 << 1),
+  failsafe: (1 << 4) | (1 << 9),
+};
+
+const FIRMWARE_DIALECTS: Record<BlackboxFirmware, FirmwareDialect> = {
+  betaflight: {
+    firmware: 'betaflight',
+    name: 'Betaflight',
+    fieldAliases: {},
+    headerAliases: {},
+    debugMode: sameAsBetaflight,
+    gyroScale: () => 1,
+    flightModes: betaflightFlightModes,
+    unsupported: {},
+  },
+
+  // Forked from Betaflight 4.0: pre-4.3 filter keys, debug modes shared up to FFT_FREQ
+  emuflight: {
+    firmware: 'emuflight',
+    name: 'EmuFlight',
+    fieldAliases: {},
+    headerAliases: {
+      gyro_lowpass_hz: 'gyro_lpf1_static_hz',
+      gyro_lowpass2_hz: 'gyro_lpf2_static_hz',
+      dterm_lowpass_hz: 'dterm_lpf1_static_hz',
+      dterm_lowpass2_hz: 'dterm_lpf2_static_hz',
+    },
+    debugMode: (logged) =>
+      logged <= BlackboxDebugMode.FFT_FREQ ? sameAsBetaflight(logged) : undefined,
+    gyroScale: () => 1,
+    // Its own version numbers (0.x) don't follow Betaflight's box changes
+    flightModes: () => BETAFLIGHT_BOXES,
+    unsupported: {
+      filter_recommendations: "EmuFlight's filter settings differ from Betaflight's",
+      pid: "EmuFlight's PID controller is not modelled",
+      transfer_function: "EmuFlight's PID controller is not modelled",
+    },
+  },
+
+  // Own debug modes; desired rates as axisRate[n]; gyroADC in gyro_scale units
+  inav: {
+    firmware: 'inav',
+    name: 'INAV',
+    fieldAliases: {
+      'axisRate[0]': 'setpoint[0]',
+      'axisRate[1]': 'setpoint[1]',
+      'axisRate[2]': 'setpoint[2]',
+    },
+    headerAliases: {
+      gyro_lpf_hz: 'gyro_lpf1_static_hz',
+      dterm_lpf_hz: 'dterm_lpf1_static_hz',
+      dterm_lpf2_hz: 'dterm_lpf2_static_hz',
+      dynamicGyroNotchQ: 'dyn_notch_q',
+      dynamicGyroNotchMinHz: 'dyn_notch_min_hz',
+    },
+    debugMode: () => undefined,
+    gyroScale: (header) => parseGyroScale(header.rawHeaders.get(HEADER_KEYS.GYRO_SCALE)),
+    flightModes: () => INAV_FLIGHT_MODES,
+    unsupported: {
+      filter_recommendations: "INAV's filter settings differ from Betaflight's",
+      pid: "INAV's PID controller and rates are not modelled",
+      transfer_function: "INAV's PID controller and rates are not modelled",
+    },
+  },
+
+  // Helicopters: Betaflight 4.3 names, own debug modes
+  rotorflight: {
+    firmware: 'rotorflight',
+    name: 'Rotorflight',
+    fieldAliases: {},
+    headerAliases: {},
+    debugMode: () => undefined,
+    gyroScale: () => 1,
+    flightModes: () => null,
+    unsupported: {
+      filter_recommendations: 'Rotor harmonics are not modelled by the filter recommender',
+      pid: 'Helicopter PID tuning is not modelled',
+      transfer_function: 'Helicopter PID tuning is not modelled',
+    },
+  },
+
+  // Imported DataFlash logs: gyro, desired rates and motor outputs only
+  ardupilot: {
+    firmware: 'ardupilot',
+    name: 'ArduPilot',
+    fieldAliases: {},
+    headerAliases: {},
+    debugMode: () => undefined,
+    gyroScale: () => 1,
+    flightModes: () => null,
+    unsupported: {
+      filter_recommendations: "ArduPilot's filter settings differ from Betaflight's",
+      pid: "ArduPilot's PID controller is not modelled",
+    },
+  },
+
+  // Imported ULog files: gyro, rate setpoints and actuator outputs only
+  px4: {
+    firmware: 'px4',
+    name: 'PX4',
+    fieldAliases: {},
+    headerAliases: {},
+    debugMode: () => undefined,
+    gyroScale: () => 1,
+    flightModes: () => null,
+    unsupported: {
+      filter_recommendations: "PX4's filter settings differ from Betaflight's",
+      pid: "PX4's PID controller is not modelled",
+    },
+  },
+};
+
+/** Firmware family from the `Firmware revision` / `Firmware type` headers, Betaflight if unknown */
+export function detectFirmware(rawHeaders: Map<string, string>): BlackboxFirmware {
+  const firmware = [HEADER_KEYS.FIRMWARE_REVISION, HEADER_KEYS.FIRMWARE_TYPE]
+    .map((key) => rawHeaders.get(key) ?? '')
+    .join(' ')
+    .toLowerCase();
+  if (firmware.includes('inav')) return 'inav';
+  if (firmware.includes('emuflight')) return 'emuflight';
+  if (firmware.includes('rotorflight')) return 'rotorflight';
+  return 'betaflight';
+}
+
+export function dialectOf(header: BBLLogHeader): FirmwareDialect {
+  return FIRMWARE_DIALECTS[header.firmware ?? 'betaflight'];
+}
+
+/**
+ * The log's header values under Betaflight's keys, for the analysis
+ * pipeline. Keys the log already has under the Betaflight name win.
+ */
+export function betaflightHeaders(header: BBLLogHeader): Map<string, string> {
+  const headers = new Map(header.rawHeaders);
+  for (const [key, betaflightKey] of Object.entries(dialectOf(header).headerAliases)) {
+    const value = header.rawHeaders.get(key);
+    if (value !== undefined && !headers.has(betaflightKey)) headers.set(betaflightKey, value);
+  }
+  return headers;
+}
+
+/**
+ * The logged debug mode as its Betaflight equivalent. Betaflight logs the
+ * mode as a number on real FCs but may write its name; other firmwares'
+ * modes only count where they mean the same as Betaflight's.
+ */
+export function debugModeOf(header: BBLLogHeader): BlackboxDebugMode | undefined {
+  const logged = header.rawHeaders.get(HEADER_KEYS.DEBUG_MODE) ?? '';
+  const dialect = dialectOf(header);
+  if (/^\d+$/.test(logged)) return dialect.debugMode(parseInt(logged, 10));
+  return dialect.firmware === 'betaflight'
+    ? BlackboxDebugMode[logged as keyof typeof BlackboxDebugMode]
+    : undefined;
+}
+
+/** Major and minor version from `Firmware revision`, e.g. "Betaflight 4.5.1 (77d01ba3b) STM32F7X2" */
+function firmwareVersion(header: BBLLogHeader): [number, number] | null {
+  const match = (header.firmwareRevision || '').match(/(\d+)\.(\d+)(?:\.\d+)?/);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : null;
+}
+
+/** gyro_scale is written as the hex bits of a float (`0x3f800000` = 1.0) */
+function parseGyroScale(value: string | undefined): number {
+  if (!value) return 1;
+  let scale = parseFloat(value);
+  if (/^0x[0-9a-f]+$/i.test(value)) {
+    const bits = Buffer.alloc(4);
+    bits.writeUInt32BE(parseInt(value, 16));
+    scale = bits.readFloatBE();
+  }
+  return Number.isFinite(scale) && scale > 0 ? scale : 1;
+}
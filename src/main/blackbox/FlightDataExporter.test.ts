@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { FlightDataExporter } from './FlightDataExporter';
+import { BlackboxParser } from './BlackboxParser';
+import { buildReferenceFixture } from './fixtures/bf45-reference';
+import { buildGoldenSet } from './fixtures/golden';
+import { BBLEncoding, BBLPredictor } from '@shared/types/blackbox.types';
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+
+const stateField = (name: string) => ({
+  name,
+  encoding: BBLEncoding.UNSIGNED_VB,
+  predictor: BBLPredictor.ZERO,
+  signed: false,
+});
+
+describe('FlightDataExporter', () => {
+  let session: BlackboxLogSession;
+
+  beforeAll(async () => {
+    session = (await BlackboxParser.parse(buildReferenceFixture(), undefined, { mainFields: true }))
+      .sessions[0];
+  });
+
+  it('names CSV columns like blackbox_decode, in header order', () => {
+    const [header, first, second] = FlightDataExporter.toCsv(session).split('\n');
+
+    expect(header).toBe(
+      'loopIteration, time (us), gyroADC[0], gyroADC[1], gyroADC[2], setpoint[0], setpoint[1], setpoint[2], setpoint[3]'
+    );
+    const gyro = session.flightData.gyro.map((s) => s.values[0]);
+    expect(first).toBe(`0, 0, ${gyro.join(', ')}, 0, 0, 0, 1500`);
+    // The logged iteration: this fixture logs every 32nd loop
+    expect(second.split(', ').slice(0, 2)).toEqual(['32', '4000']);
+  });
+
+  it('exports every logged field, including those the parser does not extract', async () => {
+    const golden = buildGoldenSet();
+    const file = (name: string) => golden.find((f) => f.name === name)!.data;
+    const parsed = await BlackboxParser.parse(file('bf45.bbl'), undefined, { mainFields: true });
+
+    const csv = FlightDataExporter.toCsv(parsed.sessions[0]);
+
+    expect(csv.split('\n')[0]).toContain('rcCommand[3], setpoint[0]');
+    expect(csv).toBe(file('bf45.01.csv').toString());
+  });
+
+  it('exports only the extracted fields, without loopIteration, when parsed without mainFields', async () => {
+    const plain = (await BlackboxParser.parse(buildReferenceFixture())).sessions[0];
+
+    const names = FlightDataExporter.columns(plain).map((c) => c.name);
+
+    expect(names[0]).toBe('time (us)');
+    expect(names).not.toContain('loopIteration');
+    expect(FlightDataExporter.columns(plain)[1].values).toEqual(
+      FlightDataExporter.columns(session)[2].values
+    );
+  });
+
+  it('writes one CSV row per frame', () => {
+    const lines = FlightDataExporter.toCsv(session).trimEnd().split('\n');
+    expect(lines).toHaveLength(1 + session.flightData.frameCount);
+  });
+
+  it('carries the flight state on every row from the frame it was logged at', () => {
+    const time = session.flightData.gyro[0].time;
+    const withState: BlackboxLogSession = {
+      ...session,
+      header: {
+        ...session.header,
+        sFieldDefs: [stateField('flightModeFlags'), stateField('failsafePhase')],
+      },
+      events: [
+        { type: 'state', time: time[0], flightModeFlags: 0, stateFlags: 0, failsafePhase: 0 },
+        { type: 'sync_beep', time: time[1], beepTime: 1 },
+        { type: 'state', time: time[3], flightModeFlags: 1, stateFlags: 0, failsafePhase: 2 },
+      ],
+    };
+
+    const columns = FlightDataExporter.columns(withState);
+    const flightMode = columns.find((c) => c.name === 'flightModeFlags')!;
+    const failsafe = columns.find((c) => c.name === 'failsafePhase')!;
+
+    expect(columns.map((c) => c.name).slice(-2)).toEqual(['flightModeFlags', 'failsafePhase']);
+    expect(Array.from(flightMode.values.slice(0, 5))).toEqual([0, 0, 0, 1, 1]);
+    expect(failsafe.values[4]).toBe(2);
+  });
+
+  it('dumps the header lines as key/value CSV with quoting', () => {
+    const csv = FlightDataExporter.headersToCsv({
+      ...session,
+      header: {
+        ...session.header,
+        rawHeaders: new Map([
+          ['Product', 'Blackbox flight data recorder by Nicholas Sherlock'],
+          ['Craft name', 'Say "hi", quad'],
+        ]),
+      },
+    });
+
+    expect(csv).toBe(
+      'key,value\n' +
+        '"Product","Blackbox flight data recorder by Nicholas Sherlock"\n' +
+        '"Craft name","Say ""hi"", quad"\n'
+    );
+  });
+
+  it('writes the same columns to an Arrow file with the headers as metadata', () => {
+    const file = FlightDataExporter.toArrow(session);
+
+    expect(file.subarray(0, 6).toString()).toBe('ARROW1');
+    expect(file.includes(Buffer.from('time (us)'))).toBe(true);
+    expect(file.includes(Buffer.from('Blackbox flight data recorder'))).toBe(true);
+    // 9 columns of float64 values in the body
+    expect(file.length).toBeGreaterThan(9 * 8 * session.flightData.frameCount);
+  });
+});
@@ -0,0 +1,95 @@
+import type { BlackboxLogSession, BlackboxStateEvent } from '@shared/types/blackbox.types';
+import { FIELD_NAMES } from './constants';
+import { BlackboxWriter, STATE_FIELDS, stateFieldValue } from './BlackboxWriter';
+import { ArrowWriter } from './ArrowWriter';
+import type { ArrowColumn } from './ArrowWriter';
+
+/** blackbox_decode's name for the time column */
+export const TIME_COLUMN = 'time (us)';
+
+/**
+ * Exports the flight data of a parsed session for Python, PIDtoolbox and
+ * other post-processing tools.
+ *
+ * Columns follow blackbox_decode: the log's main fields in header order
+ * under their logged names, `time (us)` in microseconds and values in raw
+ * logged units, then the slow-frame fields carried on every row as plain
+ * numbers (as with `--unit-flags raw`). Sessions parsed with the
+ * `mainFields` option export every main field as logged; otherwise only the
+ * fields the parser extracts are exported, without loopIteration.
+ */
+export class FlightDataExporter {
+  /** The exported columns of a session, one value per main frame */
+  static columns(session: BlackboxLogSession): ArrowColumn[] {
+    const fd = session.flightData;
+    const frameCount = fd.gyro[0].time.length;
+    const logged = fd.mainFields ?? {};
+    const sources = BlackboxWriter.mainFieldSources(session.header, fd);
+    // Its source is a frame counter, not the logged iteration
+    sources.delete(FIELD_NAMES.LOOP_ITERATION);
+
+    const columns: ArrowColumn[] = session.header.iFieldDefs
+      .filter((def) => logged[def.name] || sources.has(def.name))
+      .map((def) => {
+        const source = sources.get(def.name)!;
+        return {
+          name: def.name === FIELD_NAMES.TIME ? TIME_COLUMN : def.name,
+          values:
+            logged[def.name] ??
+            Float64Array.from({ length: frameCount }, (_, i) => Math.round(source(i)) || 0),
+        };
+      });
+
+    // Flight state in effect at each frame
+    const states = session.events.filter((e): e is BlackboxStateEvent => e.type === 'state');
+    const stateAt: (BlackboxStateEvent | undefined)[] = [];
+    let next = 0;
+    for (let i = 0; i < frameCount; i++) {
+      while (next < states.length && states[next].time <= fd.gyro[0].time[i]) next++;
+      stateAt.push(states[next - 1]);
+    }
+    for (const def of session.header.sFieldDefs) {
+      if (!STATE_FIELDS.has(def.name)) continue;
+      columns.push({
+        name: def.name,
+        values: Float64Array.from(stateAt, (state) =>
+          state ? stateFieldValue(state, def.name) : 0
+        ),
+      });
+    }
+
+    return columns;
+  }
+
+  /** blackbox_decode-style CSV: a header row, then one row per frame */
+  static toCsv(session: BlackboxLogSession): string {
+    const columns = FlightDataExporter.columns(session);
+    const rowCount = columns[0]?.values.length ?? 0;
+    const lines = [columns.map((c) => c.name).join(', ')];
+    for (let i = 0; i < rowCount; i++) {
+      lines.push(columns.map((c) => c.values[i]).join(', '));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /** The log's header lines as a two-column key/value CSV */
+  static headersToCsv(session: BlackboxLogSession): string {
+    const lines = ['key,value'];
+    for (const [key, value] of session.header.rawHeaders) {
+      lines.push(`${quoteCsv(key)},${quoteCsv(value)}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /** Arrow IPC file with the same columns, the header lines as schema metadata */
+  static toArrow(session: BlackboxLogSession): Buffer {
+    return ArrowWriter.write(
+      FlightDataExporter.columns(session),
+      Array.from(session.header.rawHeaders)
+    );
+  }
+}
+
+function quoteCsv(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
@@ -18,7 +18,7 @@ function makeHeader(overrides: Partial<BBLLogHeader> = {}): BBLLogHeader {
     product: '', dataVersion: 2, firmwareType: 'Betaflight',
     firmwareRevision: '', firmwareDate: '', boardInformation: '',
     logStartDatetime: '', craftName: '',
-    iFieldDefs: [], pFieldDefs: [], sFieldDefs: [], gFieldDefs: [],
+    iFieldDefs: [], pFieldDefs: [], sFieldDefs: [], gFieldDefs: [], hFieldDefs: [],
     iInterval: 32, pInterval: 1, pDenom: 2,
     minthrottle: 1070, maxthrottle: 2000, motorOutputRange: 2047,
     vbatref: 420, looptime: 312, gyroScale: 0.0305176,
@@ -225,6 +225,30 @@ describe('FrameParser', () => {
     });
   });
 
+  describe('parseGFrame', () => {
+    const header = makeHeader({
+      gFieldDefs: [
+        makeFieldDef('time', BBLEncoding.UNSIGNED_VB, BBLPredictor.LAST_MAIN_FRAME_TIME),
+        makeFieldDef('GPS_coord[0]', BBLEncoding.SIGNED_VB, BBLPredictor.HOME_COORD, true),
+        makeFieldDef('GPS_coord[1]', BBLEncoding.SIGNED_VB, BBLPredictor.HOME_COORD, true),
+      ],
+      hFieldDefs: [
+        makeFieldDef('GPS_home[0]', BBLEncoding.SIGNED_VB, BBLPredictor.ZERO, true),
+        makeFieldDef('GPS_home[1]', BBLEncoding.SIGNED_VB, BBLPredictor.ZERO, true),
+      ],
+    });
+
+    it('predicts coordinates from the matching home field and time from the main frame', () => {
+      const parser = new FrameParser(header);
+      const home = parser.parseHFrame(new StreamReader(Buffer.from([0xc8, 0x01, 0x90, 0x03])));
+      expect(home).toEqual([100, 200]);
+
+      // time=+50, coord[0]=-1, coord[1]=+2
+      const values = parser.parseGFrame(new StreamReader(Buffer.from([50, 0x01, 0x04])), home, 7000);
+      expect(values).toEqual([7050, 99, 202]);
+    });
+  });
+
   describe('mixed field encodings in a realistic frame', () => {
     it('parses frame with mixed single and grouped encodings', () => {
       const header = makeHeader({
@@ -1,8 +1,10 @@
-import { BBLEncoding } from '@shared/types/blackbox.types';
+import { BBLEncoding, BBLPredictor } from '@shared/types/blackbox.types';
 import type { BBLFieldDefinition, BBLLogHeader } from '@shared/types/blackbox.types';
 import { StreamReader } from './StreamReader';
 import { ValueDecoder } from './ValueDecoder';
 import { PredictorApplier } from './PredictorApplier';
+import type { GpsPredictorContext } from './PredictorApplier';
+import { FIELD_NAMES } from './constants';
 
 /**
  * Fixed-group encodings: always consume exactly N fields from the field list,
@@ -43,11 +45,13 @@ export class FrameParser {
   private header: BBLLogHeader;
   private motor0IFieldIdx: number;
   private motor0PFieldIdx: number;
+  private gpsHomeFieldIdx: number[];
 
   constructor(header: BBLLogHeader) {
     this.header = header;
     this.motor0IFieldIdx = this.findFieldIndex(header.iFieldDefs, 'motor[0]');
     this.motor0PFieldIdx = this.findFieldIndex(header.pFieldDefs, 'motor[0]');
+    this.gpsHomeFieldIdx = this.mapGpsHomeFields();
   }
 
   /**
@@ -99,6 +103,29 @@ export class FrameParser {
     );
   }
 
+  /**
+   * Parse a GPS home (H) frame. Values are absolute.
+   */
+  parseHFrame(reader: StreamReader): number[] {
+    return this.parseFrame(reader, this.header.hFieldDefs, true, null, null, -1);
+  }
+
+  /**
+   * Parse a GPS (G) frame.
+   * Coordinates are predicted from the GPS home and the time field from
+   * the last main frame, so both must be supplied by the caller.
+   *
+   * @param home - Values of the most recent H-frame
+   * @param lastMainFrameTime - Time of the last main frame in microseconds
+   */
+  parseGFrame(reader: StreamReader, home: number[], lastMainFrameTime: number): number[] {
+    const gps: GpsPredictorContext = {
+      homeCoord: this.gpsHomeFieldIdx.map((hIdx) => (hIdx >= 0 ? (home[hIdx] ?? 0) : 0)),
+      lastMainFrameTime,
+    };
+    return this.parseFrame(reader, this.header.gFieldDefs, true, null, null, -1, gps);
+  }
+
   /**
    * Core frame parsing logic matching BF viewer's field iteration.
    *
@@ -116,7 +143,8 @@ export class FrameParser {
     isIFrame: boolean,
     previous: number[] | null,
     previous2: number[] | null,
-    motor0FieldIdx: number
+    motor0FieldIdx: number,
+    gps?: GpsPredictorContext
   ): number[] {
     const values = new Array(fieldDefs.length).fill(0);
     let fieldIdx = 0;
@@ -146,7 +174,8 @@ export class FrameParser {
             previous2,
             values,
             this.header,
-            motor0FieldIdx
+            motor0FieldIdx,
+            gps
           );
         }
         fieldIdx += fieldsToApply;
@@ -182,7 +211,8 @@ export class FrameParser {
               previous2,
               values,
               this.header,
-              motor0FieldIdx
+              motor0FieldIdx,
+              gps
             );
           }
           groupOffset += varGroupSize;
@@ -204,7 +234,8 @@ export class FrameParser {
         previous2,
         values,
         this.header,
-        motor0FieldIdx
+        motor0FieldIdx,
+        gps
       );
       fieldIdx++;
     }
@@ -212,6 +243,26 @@ export class FrameParser {
     return values;
   }
 
+  /**
+   * For each G-frame field, the H-frame field holding its home coordinate
+   * (-1 if none). GPS_coord[N] pairs with GPS_home[N]; if the names don't
+   * match, HOME_COORD fields pair with H-frame fields in order.
+   */
+  private mapGpsHomeFields(): number[] {
+    const { gFieldDefs, hFieldDefs } = this.header;
+    let nextHomeIdx = 0;
+    return gFieldDefs.map((def) => {
+      if (def.predictor !== BBLPredictor.HOME_COORD) return -1;
+      const byName = def.name.startsWith(FIELD_NAMES.GPS_COORD_PREFIX)
+        ? this.findFieldIndex(
+            hFieldDefs,
+            FIELD_NAMES.GPS_HOME_PREFIX + def.name.substring(FIELD_NAMES.GPS_COORD_PREFIX.length)
+          )
+        : -1;
+      return byName >= 0 ? byName : nextHomeIdx++;
+    });
+  }
+
   private findFieldIndex(defs: BBLFieldDefinition[], name: string): number {
     return defs.findIndex(d => d.name === name);
   }
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { GoldenFileValidator } from './GoldenFileValidator';
+import type { GoldenValidationReport } from './GoldenFileValidator';
+import { FlightDataExporter } from './FlightDataExporter';
+import { BlackboxParser } from './BlackboxParser';
+import { buildReferenceFixture } from './fixtures/bf45-reference';
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+
+/** Edit one row of a `, `-separated CSV; row 0 is the first data row */
+function editRow(csv: string, row: number, edit: (cells: string[]) => string[] | null): string {
+  const lines = csv.trimEnd().split('\n');
+  const edited = edit(lines[row + 1].split(', '));
+  lines.splice(row + 1, 1, ...(edited ? [edited.join(', ')] : []));
+  return lines.join('\n') + '\n';
+}
+
+describe('GoldenFileValidator', () => {
+  let sessions: BlackboxLogSession[];
+  let referenceCsv: string;
+
+  beforeAll(async () => {
+    sessions = (
+      await BlackboxParser.parse(buildReferenceFixture(), undefined, { mainFields: true })
+    ).sessions;
+    referenceCsv = FlightDataExporter.toCsv(sessions[0]);
+  });
+
+  const compare = (csv: string, tolerance = 0) =>
+    GoldenFileValidator.compareSession(
+      sessions[0],
+      GoldenFileValidator.parseReferenceCsv(csv),
+      'LOG.01.csv',
+      tolerance
+    );
+
+  it('passes a session that matches its reference exactly', () => {
+    const result = compare(referenceCsv);
+
+    expect(result.passed).toBe(true);
+    expect(result.logNumber).toBe(1);
+    expect(result.frames).toEqual({
+      reference: sessions[0].flightData.frameCount,
+      parsed: sessions[0].flightData.frameCount,
+      matched: sessions[0].flightData.frameCount,
+    });
+    expect(result.fields.map((f) => f.field)).toContain('gyroADC[0]');
+    expect(result.fields.map((f) => f.field)).toContain('loopIteration');
+    expect(result.fields.every((f) => f.maxAbsError === 0 && f.atTimeUs === null)).toBe(true);
+  });
+
+  it('reports the max absolute error per field and where it occurs', () => {
+    const csv = editRow(referenceCsv, 5, (cells) => {
+      cells[3] = String(Number(cells[3]) + 3); // gyroADC[1]
+      return cells;
+    });
+
+    const result = compare(csv);
+    const gyro = result.fields.find((f) => f.field === 'gyroADC[1]')!;
+    expect(result.passed).toBe(false);
+    expect(gyro.maxAbsError).toBe(3);
+    expect(gyro.atTimeUs).toBe(Math.round(sessions[0].flightData.gyro[0].time[5] * 1_000_000));
+    expect(compare(csv, 3).passed).toBe(true);
+  });
+
+  it('lines frames up by time and reports frames only one decoder kept', () => {
+    const time = (i: number) => Math.round(sessions[0].flightData.gyro[0].time[i] * 1_000_000);
+    const rows = referenceCsv.trimEnd().split('\n');
+    // A frame the parser dropped as corrupt, just after frame 9
+    const extra = rows[10].split(', ');
+    extra[1] = String(time(9) + 1);
+    rows.splice(11, 0, extra.join(', '));
+    // blackbox_decode rejected frame 2
+    rows.splice(3, 1);
+
+    const result = compare(rows.join('\n') + '\n');
+
+    expect(result.passed).toBe(false);
+    expect(result.parsedOnlyFrames).toEqual({ count: 1, timesUs: [time(2)] });
+    expect(result.referenceOnlyFrames).toEqual({ count: 1, timesUs: [time(9) + 1] });
+    expect(result.frames.matched).toBe(sessions[0].flightData.frameCount - 1);
+    // Later rows still compare against the right frames
+    expect(result.fields.find((f) => f.field === 'gyroADC[0]')!.maxAbsError).toBe(0);
+  });
+
+  it('separates unmatched and non-numeric reference columns', () => {
+    const rows = referenceCsv
+      .trimEnd()
+      .split('\n')
+      .map((row) => row.split(', '));
+    rows[1][8] = 'ANGLE_MODE'; // setpoint[3]
+    const csv = rows
+      .map((cells, i) => [
+        ...cells.slice(0, 5),
+        ...cells.slice(6),
+        i === 0 ? 'energyCumulative (mAh)' : '0',
+      ])
+      .map((cells) => cells.join(', '))
+      .join('\n');
+
+    const result = compare(csv);
+
+    expect(result.referenceOnlyFields).toEqual(['energyCumulative (mAh)']);
+    expect(result.parsedOnlyFields).toEqual(['setpoint[0]']);
+    expect(result.skippedFields).toEqual(['setpoint[3]']);
+    expect(result.fields.map((f) => f.field)).not.toContain('setpoint[3]');
+  });
+
+  describe('validateDirectory', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes a JSON-serializable report covering every log and session', async () => {
+      dir = join(tmpdir(), `bfat-test-golden-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(join(dir, 'LOG00001.BBL'), buildReferenceFixture());
+      await fs.writeFile(join(dir, 'LOG00001.01.csv'), referenceCsv);
+      await fs.writeFile(join(dir, 'LOG00001.02.csv'), FlightDataExporter.toCsv(sessions[1]));
+      await fs.writeFile(join(dir, 'LOG00001.03.csv'), 'loopIteration, time (us)\n0, 0\n');
+      await fs.writeFile(join(dir, 'LOG00001.01.gps.csv'), 'time (us), GPS_coord[0]\n');
+      await fs.writeFile(join(dir, 'broken.bfl'), Buffer.from('not a log'));
+      // A header without any frames: parse() reports the failure instead of throwing
+      await fs.writeFile(
+        join(dir, 'empty.bbl'),
+        Buffer.from(
+          'H Product:Blackbox flight data recorder by Nicholas Sherlock\nH Data version:2\n'
+        )
+      );
+
+      const report: GoldenValidationReport = JSON.parse(
+        JSON.stringify(await GoldenFileValidator.validateDirectory(dir))
+      );
+
+      expect(report.passed).toBe(false);
+      expect(report.logs.map((l) => l.file)).toEqual(['LOG00001.BBL', 'broken.bfl', 'empty.bbl']);
+
+      const [log, broken, empty] = report.logs;
+      expect(log.firmware).toContain('Betaflight');
+      expect(log.sessions.map((s) => [s.logNumber, s.referenceFile, s.passed])).toEqual([
+        [1, 'LOG00001.01.csv', true],
+        [2, 'LOG00001.02.csv', true],
+        [3, 'LOG00001.03.csv', false],
+      ]);
+      expect(log.sessions[2].referenceOnlyFrames.count).toBe(1);
+      expect(broken.passed).toBe(false);
+      expect(broken.error).toBeTruthy();
+      expect(empty).toMatchObject({
+        error: 'No parseable flight data found',
+        sessions: [],
+        passed: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+import { BlackboxParser } from './BlackboxParser';
+import { FlightDataExporter, TIME_COLUMN } from './FlightDataExporter';
+import { getErrorMessage } from '../utils/errors';
+
+/** blackbox_decode names its CSVs `<log>.01.csv`, `<log>.02.csv`, … by log index */
+const REFERENCE_CSV = /^(.*)\.(\d+)\.csv$/;
+
+/** Frame times listed per difference, so one broken log doesn't flood the report */
+const MAX_LISTED_FRAMES = 20;
+
+/** A decoded CSV: column names and their values, NaN where a cell isn't a number */
+export interface ReferenceTable {
+  names: string[];
+  columns: Float64Array[];
+}
+
+/** Largest difference between the parser and the reference for one field */
+export interface FieldComparison {
+  field: string;
+  maxAbsError: number;
+  /** Frame time of the largest difference, null when the field matches exactly */
+  atTimeUs: number | null;
+}
+
+/** Frames only one side decoded */
+export interface FrameDifference {
+  count: number;
+  /** The first few frame times */
+  timesUs: number[];
+}
+
+export interface SessionValidation {
+  /** blackbox_decode's log number (session index + 1) */
+  logNumber: number;
+  referenceFile: string | null;
+  /** Main frames in the reference, in the parsed session, and in both */
+  frames: { reference: number; parsed: number; matched: number };
+  /** Frames blackbox_decode decoded that the parser dropped as corrupt */
+  referenceOnlyFrames: FrameDifference;
+  /** Frames the parser kept that blackbox_decode rejected */
+  parsedOnlyFrames: FrameDifference;
+  /** Frames the parser counted as corrupt */
+  corruptedFrameCount: number;
+  fields: FieldComparison[];
+  /** Reference columns the parser doesn't produce */
+  referenceOnlyFields: string[];
+  /** Parsed columns missing from the reference */
+  parsedOnlyFields: string[];
+  /** Reference columns that aren't plain numbers (flag names, scaled units) */
+  skippedFields: string[];
+  passed: boolean;
+}
+
+export interface LogValidation {
+  file: string;
+  firmware: string;
+  /** Parse failure; the log has no sessions then */
+  error?: string;
+  sessions: SessionValidation[];
+  passed: boolean;
+}
+
+export interface GoldenValidationReport {
+  directory: string;
+  /** Largest accepted absolute error per value */
+  tolerance: number;
+  logs: LogValidation[];
+  passed: boolean;
+}
+
+/**
+ * Validates BlackboxParser against reference CSVs from blackbox_decode.
+ *
+ * The golden directory holds `.bbl`/`.bfl` files next to the CSVs
+ * blackbox_decode wrote for them, decoded once with raw units:
+ *
+ *   blackbox_decode --unit-vbat raw --unit-amperage raw --unit-flags raw LOG.bbl
+ *
+ * Each session is exported like FlightDataExporter does and lined up with its
+ * reference by frame time, so a frame one decoder dropped as corrupt shows up
+ * as a frame difference instead of shifting every row after it. Logs are
+ * parsed with the `mainFields` option, so every logged field is compared.
+ */
+export class GoldenFileValidator {
+  /** Validate every log in a directory against its reference CSVs */
+  static async validateDirectory(dir: string, tolerance = 0): Promise<GoldenValidationReport> {
+    const files = (await fs.readdir(dir)).sort();
+    const logs: LogValidation[] = [];
+
+    for (const file of files.filter((f) => /\.(bbl|bfl)$/i.test(f))) {
+      const stem = path.basename(file, path.extname(file));
+      const references = new Map<number, string>();
+      for (const csv of files) {
+        const match = csv.match(REFERENCE_CSV);
+        if (match && match[1] === stem) references.set(parseInt(match[2], 10), csv);
+      }
+
+      let sessions: BlackboxLogSession[];
+      try {
+        const result = await BlackboxParser.parse(
+          await fs.readFile(path.join(dir, file)),
+          undefined,
+          { mainFields: true }
+        );
+        if (!result.success) throw new Error(result.error ?? 'Parse failed');
+        sessions = result.sessions;
+      } catch (error) {
+        logs.push({
+          file,
+          firmware: '',
+          error: getErrorMessage(error),
+          sessions: [],
+          passed: false,
+        });
+        continue;
+      }
+
+      const results: SessionValidation[] = [];
+      for (const session of sessions) {
+        const referenceFile = references.get(session.index + 1) ?? null;
+        const reference = referenceFile
+          ? GoldenFileValidator.parseReferenceCsv(
+              await fs.readFile(path.join(dir, referenceFile), 'utf-8')
+            )
+          : null;
+        results.push(
+          GoldenFileValidator.compareSession(session, reference, referenceFile, tolerance)
+        );
+      }
+
+      // References for logs the parser found no session for
+      const parsedNumbers = new Set(sessions.map((s) => s.index + 1));
+      for (const [logNumber, referenceFile] of references) {
+        if (parsedNumbers.has(logNumber)) continue;
+        const reference = GoldenFileValidator.parseReferenceCsv(
+          await fs.readFile(path.join(dir, referenceFile), 'utf-8')
+        );
+        results.push(GoldenFileValidator.missingSession(logNumber, referenceFile, reference));
+      }
+      results.sort((a, b) => a.logNumber - b.logNumber);
+
+      logs.push({
+        file,
+        firmware: sessions[0]
+          ? `${sessions[0].header.firmwareType} ${sessions[0].header.firmwareRevision}`.trim()
+          : '',
+        sessions: results,
+        passed: results.length > 0 && results.every((s) => s.passed),
+      });
+    }
+
+    return {
+      directory: dir,
+      tolerance,
+      logs,
+      passed: logs.length > 0 && logs.every((l) => l.passed),
+    };
+  }
+
+  /** Parse a blackbox_decode CSV (header row, `, `-separated values) */
+  static parseReferenceCsv(text: string): ReferenceTable {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+    const names = (lines[0] ?? '').split(',').map((name) => name.trim());
+    const columns = names.map(() => new Float64Array(lines.length - 1));
+    for (let row = 1; row < lines.length; row++) {
+      const cells = lines[row].split(',');
+      for (let c = 0; c < names.length; c++) {
+        const cell = cells[c]?.trim() ?? '';
+        columns[c][row - 1] = cell === '' ? NaN : Number(cell);
+      }
+    }
+    return { names, columns };
+  }
+
+  /**
+   * Compare a parsed session with its reference table. Without a reference
+   * the session fails with every parsed frame listed as parser-only. Only
+   * sessions parsed with `mainFields` have every logged field to compare.
+   */
+  static compareSession(
+    session: BlackboxLogSession,
+    reference: ReferenceTable | null,
+    referenceFile: string | null,
+    tolerance = 0
+  ): SessionValidation {
+    const parsed = FlightDataExporter.columns(session);
+    const parsedTimes = parsed.find((c) => c.name === TIME_COLUMN)?.values ?? new Float64Array(0);
+    const ref = reference ?? { names: [], columns: [] };
+    const refTimes = ref.columns[ref.names.indexOf(TIME_COLUMN)] ?? new Float64Array(0);
+
+    // Walk both frame lists in time order
+    const pairs: [number, number][] = [];
+    const referenceOnly: number[] = [];
+    const parsedOnly: number[] = [];
+    let r = 0;
+    let p = 0;
+    while (r < refTimes.length || p < parsedTimes.length) {
+      if (p >= parsedTimes.length || (r < refTimes.length && refTimes[r] < parsedTimes[p])) {
+        referenceOnly.push(refTimes[r++]);
+      } else if (r >= refTimes.length || parsedTimes[p] < refTimes[r]) {
+        parsedOnly.push(parsedTimes[p++]);
+      } else {
+        pairs.push([r++, p++]);
+      }
+    }
+
+    const refIndex = new Map(ref.names.map((name, c) => [name, c]));
+    const parsedNames = new Set(parsed.map((c) => c.name));
+    const skippedFields = ref.names.filter(
+      (name, c) => parsedNames.has(name) && ref.columns[c].some((v) => Number.isNaN(v))
+    );
+
+    const fields: FieldComparison[] = [];
+    for (const column of parsed) {
+      const c = refIndex.get(column.name);
+      if (c === undefined || skippedFields.includes(column.name)) continue;
+      let maxAbsError = 0;
+      let atTimeUs: number | null = null;
+      for (const [ri, pi] of pairs) {
+        const error = Math.abs(column.values[pi] - ref.columns[c][ri]);
+        if (error > maxAbsError) {
+          maxAbsError = error;
+          atTimeUs = parsedTimes[pi];
+        }
+      }
+      fields.push({ field: column.name, maxAbsError, atTimeUs });
+    }
+
+    const parsedOnlyFields = reference
+      ? parsed.map((c) => c.name).filter((n) => !refIndex.has(n))
+      : [];
+    return {
+      logNumber: session.index + 1,
+      referenceFile,
+      frames: { reference: refTimes.length, parsed: parsedTimes.length, matched: pairs.length },
+      referenceOnlyFrames: frameDifference(referenceOnly),
+      parsedOnlyFrames: frameDifference(parsedOnly),
+      corruptedFrameCount: session.corruptedFrameCount,
+      fields,
+      referenceOnlyFields: ref.names.filter((name) => !parsedNames.has(name)),
+      parsedOnlyFields,
+      skippedFields,
+      passed:
+        reference !== null &&
+        referenceOnly.length === 0 &&
+        parsedOnly.length === 0 &&
+        fields.every((f) => f.maxAbsError <= tolerance),
+    };
+  }
+
+  /** A reference log the parser produced no session for */
+  private static missingSession(
+    logNumber: number,
+    referenceFile: string,
+    reference: ReferenceTable
+  ): SessionValidation {
+    const times = reference.columns[reference.names.indexOf(TIME_COLUMN)] ?? new Float64Array(0);
+    return {
+      logNumber,
+      referenceFile,
+      frames: { reference: times.length, parsed: 0, matched: 0 },
+      referenceOnlyFrames: frameDifference(Array.from(times)),
+      parsedOnlyFrames: frameDifference([]),
+      corruptedFrameCount: 0,
+      fields: [],
+      referenceOnlyFields: reference.names,
+      parsedOnlyFields: [],
+      skippedFields: [],
+      passed: false,
+    };
+  }
+}
+
+function frameDifference(times: number[]): FrameDifference {
+  return { count: times.length, timesUs: times.slice(0, MAX_LISTED_FRAMES) };
+}
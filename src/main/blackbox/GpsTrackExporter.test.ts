@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { GpsTrackExporter } from './GpsTrackExporter';
+import type { BlackboxGpsData, BlackboxLogSession } from '@shared/types/blackbox.types';
+
+function makeSession(
+  index: number,
+  gps: BlackboxGpsData | undefined,
+  logStartDatetime = '2026-05-01T10:00:00.000+00:00'
+): BlackboxLogSession {
+  return {
+    index,
+    header: { logStartDatetime } as BlackboxLogSession['header'],
+    flightData: {
+      gyro: [{ time: new Float64Array([2.0, 2.5]), values: new Float64Array(2) }],
+      gps,
+    } as unknown as BlackboxLogSession['flightData'],
+    events: [],
+    corruptedFrameCount: 0,
+    warnings: [],
+  };
+}
+
+function makeGps(points: Array<[number, number]>): BlackboxGpsData {
+  const n = points.length;
+  return {
+    time: Float64Array.from(points.map((_, i) => 2.0 + i)),
+    lat: Float64Array.from(points.map((p) => p[0])),
+    lon: Float64Array.from(points.map((p) => p[1])),
+    altitude: new Float64Array(n).fill(487.5),
+    speed: new Float64Array(n),
+    course: new Float64Array(n),
+    numSat: new Float64Array(n).fill(12),
+    home: { lat: 47.3977418, lon: 8.5455939 },
+  };
+}
+
+describe('GpsTrackExporter', () => {
+  const gps = makeGps([
+    [0, 0],
+    [47.3977418, 8.5455939],
+    [47.3977538, 8.5456189],
+  ]);
+
+  it('writes a GPX track with timestamps from the log start datetime', () => {
+    const gpx = GpsTrackExporter.export([makeSession(0, gps)], 'gpx', 'flight <1>.bbl');
+
+    expect(gpx).toContain('<gpx version="1.1"');
+    expect(gpx).toContain('<name>flight &lt;1&gt;.bbl</name>');
+    expect(gpx).toContain('<wpt lat="47.3977418" lon="8.5455939"><name>Home</name></wpt>');
+    // The no-fix point at 0°,0° is dropped
+    expect(gpx.match(/<trkpt /g)).toHaveLength(2);
+    expect(gpx).toContain(
+      '<trkpt lat="47.3977538" lon="8.5456189"><ele>487.5</ele>' +
+        '<time>2026-05-01T10:00:02.000Z</time><sat>12</sat></trkpt>'
+    );
+  });
+
+  it('omits timestamps when the FC had no real-time clock', () => {
+    const gpx = GpsTrackExporter.export(
+      [makeSession(0, gps, '0000-01-01T00:00:00.000+00:00')],
+      'gpx',
+      'log'
+    );
+    expect(gpx).not.toContain('<time>');
+  });
+
+  it('writes one KML placemark per session with lon,lat,alt coordinates', () => {
+    const kml = GpsTrackExporter.export(
+      [makeSession(0, gps), makeSession(1, undefined), makeSession(2, gps)],
+      'kml',
+      'log'
+    );
+
+    expect(kml).toContain('<kml xmlns="http://www.opengis.net/kml/2.2">');
+    expect(kml).toContain('<name>Session 1</name>');
+    expect(kml).not.toContain('<name>Session 2</name>');
+    expect(kml).toContain('<name>Session 3</name>');
+    expect(kml).toContain(
+      '<coordinates>8.5455939,47.3977418,487.5 8.5456189,47.3977538,487.5</coordinates>'
+    );
+  });
+
+  it('throws when no session has GPS positions', () => {
+    expect(() =>
+      GpsTrackExporter.export(
+        [makeSession(0, undefined), makeSession(1, makeGps([[0, 0]]))],
+        'gpx',
+        'log'
+      )
+    ).toThrow('No GPS data');
+  });
+});
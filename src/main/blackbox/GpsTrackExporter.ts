@@ -0,0 +1,165 @@
+import type { BlackboxLogSession, GpsTrackFormat } from '@shared/types/blackbox.types';
+
+/** A single exported track point */
+interface TrackPoint {
+  lat: number;
+  lon: number;
+  altitude: number;
+  numSat: number;
+  /** Absolute time, only when the log has a real start datetime */
+  time?: Date;
+}
+
+/** One track per log session that has GPS data */
+interface Track {
+  name: string;
+  points: TrackPoint[];
+  home?: { lat: number; lon: number };
+}
+
+/**
+ * Writes the GPS tracks of parsed BBL sessions as GPX 1.1 or KML 2.2.
+ *
+ * Each session with GPS data becomes its own track. Points without a fix
+ * (0°, 0°) are dropped. Point timestamps are only written when the FC had
+ * a real-time clock, i.e. "Log start datetime" is a plausible date.
+ */
+export class GpsTrackExporter {
+  /**
+   * Build the track file contents.
+   * Throws if none of the sessions contain GPS positions.
+   *
+   * @param sessions - Parsed sessions of one log file
+   * @param format - Output format
+   * @param name - Document name (usually the log filename)
+   */
+  static export(sessions: BlackboxLogSession[], format: GpsTrackFormat, name: string): string {
+    const tracks = sessions
+      .map((session) => GpsTrackExporter.buildTrack(session))
+      .filter((track): track is Track => track !== null);
+
+    if (tracks.length === 0) {
+      throw new Error('No GPS data in this log');
+    }
+
+    return format === 'kml'
+      ? GpsTrackExporter.toKml(tracks, name)
+      : GpsTrackExporter.toGpx(tracks, name);
+  }
+
+  private static buildTrack(session: BlackboxLogSession): Track | null {
+    const gps = session.flightData.gps;
+    if (!gps) return null;
+
+    const logStart = GpsTrackExporter.parseLogStart(session.header.logStartDatetime);
+    const mainStart = session.flightData.gyro[0].time[0] ?? 0;
+
+    const points: TrackPoint[] = [];
+    for (let i = 0; i < gps.time.length; i++) {
+      if (gps.lat[i] === 0 && gps.lon[i] === 0) continue;
+      points.push({
+        lat: gps.lat[i],
+        lon: gps.lon[i],
+        altitude: gps.altitude[i],
+        numSat: gps.numSat[i],
+        time: logStart
+          ? new Date(logStart.getTime() + (gps.time[i] - mainStart) * 1000)
+          : undefined,
+      });
+    }
+
+    if (points.length === 0) return null;
+    return { name: `Session ${session.index + 1}`, points, home: gps.home };
+  }
+
+  /**
+   * Parse the header's log start datetime. FCs without an RTC write a
+   * placeholder such as "0000-01-01T00:00:00.000+00:00".
+   */
+  private static parseLogStart(value: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime()) || date.getUTCFullYear() < 2000) return null;
+    return date;
+  }
+
+  private static toGpx(tracks: Track[], name: string): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gpx version="1.1" creator="FPVPIDlab" xmlns="http://www.topografix.com/GPX/1/1">',
+      `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    ];
+
+    const home = tracks.find((t) => t.home)?.home;
+    if (home) {
+      lines.push(
+        `  <wpt lat="${formatCoord(home.lat)}" lon="${formatCoord(home.lon)}"><name>Home</name></wpt>`
+      );
+    }
+
+    for (const track of tracks) {
+      lines.push('  <trk>', `    <name>${escapeXml(track.name)}</name>`, '    <trkseg>');
+      for (const p of track.points) {
+        const time = p.time ? `<time>${p.time.toISOString()}</time>` : '';
+        lines.push(
+          `      <trkpt lat="${formatCoord(p.lat)}" lon="${formatCoord(p.lon)}">` +
+            `<ele>${p.altitude.toFixed(1)}</ele>${time}<sat>${p.numSat}</sat></trkpt>`
+        );
+      }
+      lines.push('    </trkseg>', '  </trk>');
+    }
+
+    lines.push('</gpx>', '');
+    return lines.join('\n');
+  }
+
+  private static toKml(tracks: Track[], name: string): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<kml xmlns="http://www.opengis.net/kml/2.2">',
+      '  <Document>',
+      `    <name>${escapeXml(name)}</name>`,
+    ];
+
+    const home = tracks.find((t) => t.home)?.home;
+    if (home) {
+      lines.push(
+        '    <Placemark>',
+        '      <name>Home</name>',
+        `      <Point><coordinates>${formatCoord(home.lon)},${formatCoord(home.lat)}</coordinates></Point>`,
+        '    </Placemark>'
+      );
+    }
+
+    for (const track of tracks) {
+      const coordinates = track.points
+        .map((p) => `${formatCoord(p.lon)},${formatCoord(p.lat)},${p.altitude.toFixed(1)}`)
+        .join(' ');
+      lines.push(
+        '    <Placemark>',
+        `      <name>${escapeXml(track.name)}</name>`,
+        '      <LineString>',
+        '        <altitudeMode>absolute</altitudeMode>',
+        `        <coordinates>${coordinates}</coordinates>`,
+        '      </LineString>',
+        '    </Placemark>'
+      );
+    }
+
+    lines.push('  </Document>', '</kml>', '');
+    return lines.join('\n');
+  }
+}
+
+/** 7 decimals matches the 1e-7° resolution of logged coordinates */
+function formatCoord(value: number): string {
+  return value.toFixed(7);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -195,6 +195,25 @@ describe('HeaderParser', () => {
       expect(header.sFieldDefs[0].name).toBe('flightModeFlags');
     });
 
+    it('parses G-frame and H-frame field definitions', () => {
+      const reader = createReader([
+        'H Field G name:time,GPS_numSat,GPS_coord[0],GPS_coord[1]',
+        'H Field G signed:0,0,1,1',
+        'H Field G predictor:10,0,7,7',
+        'H Field G encoding:1,1,0,0',
+        'H Field H name:GPS_home[0],GPS_home[1]',
+        'H Field H signed:1,1',
+        'H Field H predictor:0,0',
+        'H Field H encoding:0,0',
+      ]);
+      const header = HeaderParser.parse(reader);
+      expect(header.gFieldDefs).toHaveLength(4);
+      expect(header.gFieldDefs[0].predictor).toBe(BBLPredictor.LAST_MAIN_FRAME_TIME);
+      expect(header.gFieldDefs[2].predictor).toBe(BBLPredictor.HOME_COORD);
+      expect(header.hFieldDefs.map((d) => d.name)).toEqual(['GPS_home[0]', 'GPS_home[1]']);
+      expect(header.hFieldDefs[0].encoding).toBe(BBLEncoding.SIGNED_VB);
+    });
+
     it('returns empty array when field definitions are missing', () => {
       const reader = createReader([
         'H Product:test',
@@ -2,6 +2,7 @@ import { BBLEncoding, BBLPredictor } from '@shared/types/blackbox.types';
 import type { BBLFieldDefinition, BBLLogHeader } from '@shared/types/blackbox.types';
 import { HEADER_PREFIX, HEADER_KEYS } from './constants';
 import { StreamReader } from './StreamReader';
+import { detectFirmware } from './FirmwareDialect';
 
 /**
  * Parses the ASCII header section of a BBL log session.
@@ -53,6 +54,7 @@ export class HeaderParser {
       product: rawHeaders.get(HEADER_KEYS.PRODUCT) || '',
       dataVersion: parseInt(rawHeaders.get(HEADER_KEYS.DATA_VERSION) || '0', 10),
       firmwareType: rawHeaders.get(HEADER_KEYS.FIRMWARE_TYPE) || '',
+      firmware: detectFirmware(rawHeaders),
       firmwareRevision: rawHeaders.get(HEADER_KEYS.FIRMWARE_REVISION) || '',
       firmwareDate: rawHeaders.get(HEADER_KEYS.FIRMWARE_DATE) || '',
       boardInformation: rawHeaders.get(HEADER_KEYS.BOARD_INFO) || '',
@@ -63,6 +65,7 @@ export class HeaderParser {
       pFieldDefs: [],
       sFieldDefs: [],
       gFieldDefs: [],
+      hFieldDefs: [],
 
       iInterval: parseInt(rawHeaders.get(HEADER_KEYS.I_INTERVAL) || '32', 10),
       pInterval: HeaderParser.parsePInterval(rawHeaders),
@@ -136,6 +139,14 @@ export class HeaderParser {
       HEADER_KEYS.G_SIGNED
     );
 
+    header.hFieldDefs = HeaderParser.parseFieldDefs(
+      rawHeaders,
+      HEADER_KEYS.H_FIELD_NAME,
+      HEADER_KEYS.H_ENCODING,
+      HEADER_KEYS.H_PREDICTOR,
+      HEADER_KEYS.H_SIGNED
+    );
+
     return header;
   }
 
@@ -213,7 +224,7 @@ export class HeaderParser {
   private static parsePredictor(value: string | undefined): BBLPredictor {
     if (!value) return BBLPredictor.ZERO;
     const num = parseInt(value.trim(), 10);
-    if (isNaN(num) || num < 0 || num > 9) return BBLPredictor.ZERO;
+    if (isNaN(num) || num < 0 || num > BBLPredictor.LAST_MAIN_FRAME_TIME) return BBLPredictor.ZERO;
     return num as BBLPredictor;
   }
 
@@ -0,0 +1,152 @@
+import type {
+  BBLLogHeader,
+  BlackboxFirmware,
+  BlackboxFlightData,
+  BlackboxLogSession,
+  TimeSeries,
+} from '@shared/types/blackbox.types';
+
+/** One channel as another firmware logged it, at its own rate */
+export interface LoggedChannel {
+  /** Seconds, increasing */
+  time: number[];
+  values: number[];
+}
+
+/** What an importer pulled out of a log, in Betaflight units */
+export interface ImportedChannels {
+  /** Gyro [roll, pitch, yaw] in deg/s; its timestamps become the session's frames */
+  gyro: [LoggedChannel, LoggedChannel, LoggedChannel];
+  /** Desired rates [roll, pitch, yaw] in deg/s */
+  setpoint?: [LoggedChannel, LoggedChannel, LoggedChannel];
+  /** Collective throttle, 0–1 */
+  throttle?: LoggedChannel;
+  /** Motor outputs in PWM µs, in motor order */
+  motors: LoggedChannel[];
+}
+
+/** Where an imported log came from */
+export interface ImportedLogInfo {
+  firmware: BlackboxFirmware;
+  /** Log format, shown where a BBL log shows its product line */
+  product: string;
+  firmwareType: string;
+  firmwareRevision: string;
+  boardInformation?: string;
+  /** Parameters of the log, shown as its headers */
+  rawHeaders: Map<string, string>;
+}
+
+/**
+ * Turn channels from an ArduPilot or PX4 log into a session the analysis
+ * pipeline reads like a Betaflight one.
+ *
+ * Every channel is resampled onto the gyro's timestamps by linear
+ * interpolation, so frame N of each series is the same instant as in a BBL
+ * log. Throttle goes to setpoint[3] as 1000–2000; PID terms, debug and RPM
+ * channels aren't logged in a comparable form and are left empty.
+ */
+export function buildImportedSession(
+  info: ImportedLogInfo,
+  channels: ImportedChannels
+): BlackboxLogSession {
+  const time = Float64Array.from(channels.gyro[0].time);
+  const frameCount = time.length;
+  if (frameCount < 2) {
+    throw new Error('Log has no gyro data');
+  }
+
+  const series = (values: Float64Array): TimeSeries => ({ time, values });
+  const zeros = (): TimeSeries => series(new Float64Array(frameCount));
+  const resampled = (channel: LoggedChannel | undefined, scale = 1, offset = 0): TimeSeries =>
+    channel && channel.time.length > 0
+      ? series(resample(channel, time).map((v) => offset + v * scale))
+      : zeros();
+  const axes = (fn: (axis: number) => TimeSeries) =>
+    [0, 1, 2].map(fn) as [TimeSeries, TimeSeries, TimeSeries];
+
+  const sampleRateHz = 1 / median(Array.from(time.subarray(1), (t, i) => t - time[i]));
+  const flightData: BlackboxFlightData = {
+    gyro: axes((axis) => series(Float64Array.from(channels.gyro[axis].values))),
+    setpoint: [
+      ...axes((axis) => resampled(channels.setpoint?.[axis])),
+      channels.throttle ? resampled(channels.throttle, 1000, 1000) : zeros(),
+    ] as BlackboxFlightData['setpoint'],
+    pidP: axes(zeros),
+    pidI: axes(zeros),
+    pidD: axes(zeros),
+    pidF: axes(zeros),
+    motor: channels.motors.map((motor) => resampled(motor)),
+    debug: [],
+    sampleRateHz,
+    durationSeconds: time[frameCount - 1] - time[0],
+    frameCount,
+  };
+
+  const header: BBLLogHeader = {
+    product: info.product,
+    dataVersion: 0,
+    firmwareType: info.firmwareType,
+    firmware: info.firmware,
+    firmwareRevision: info.firmwareRevision,
+    firmwareDate: '',
+    boardInformation: info.boardInformation ?? '',
+    logStartDatetime: '',
+    craftName: '',
+    iFieldDefs: [],
+    pFieldDefs: [],
+    sFieldDefs: [],
+    gFieldDefs: [],
+    hFieldDefs: [],
+    iInterval: 1,
+    pInterval: 1,
+    pDenom: 1,
+    minthrottle: 1000,
+    maxthrottle: 2000,
+    motorOutputRange: 1000,
+    vbatref: 0,
+    looptime: Math.round(1_000_000 / sampleRateHz),
+    gyroScale: 1,
+    rawHeaders: info.rawHeaders,
+  };
+
+  return {
+    index: 0,
+    header,
+    flightData,
+    events: [],
+    corruptedFrameCount: 0,
+    warnings: channels.motors.every((m) => m.time.length === 0) ? ['Log has no motor outputs'] : [],
+  };
+}
+
+/**
+ * Give the event loop a turn; the importers call this every YIELD_INTERVAL
+ * messages, as BlackboxParser does between frames.
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Values of a channel at the given times, holding the first/last value outside its range */
+function resample(channel: LoggedChannel, times: Float64Array): Float64Array {
+  const { time, values } = channel;
+  const out = new Float64Array(times.length);
+  let j = 0;
+  for (let i = 0; i < times.length; i++) {
+    const t = times[i];
+    while (j < time.length - 1 && time[j + 1] <= t) j++;
+    if (t <= time[0] || j === time.length - 1) {
+      out[i] = t <= time[0] ? values[0] : values[j];
+    } else {
+      const f = (t - time[j]) / (time[j + 1] - time[j]);
+      out[i] = values[j] + f * (values[j + 1] - values[j]);
+    }
+  }
+  return out;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -9,7 +9,7 @@ function makeHeader(overrides: Partial<BBLLogHeader> = {}): BBLLogHeader {
     product: '', dataVersion: 2, firmwareType: 'Betaflight',
     firmwareRevision: '', firmwareDate: '', boardInformation: '',
     logStartDatetime: '', craftName: '',
-    iFieldDefs: [], pFieldDefs: [], sFieldDefs: [], gFieldDefs: [],
+    iFieldDefs: [], pFieldDefs: [], sFieldDefs: [], gFieldDefs: [], hFieldDefs: [],
     iInterval: 32, pInterval: 1, pDenom: 2,
     minthrottle: 1070, maxthrottle: 2000, motorOutputRange: 2047,
     vbatref: 420, looptime: 312, gyroScale: 0.0305176,
@@ -166,6 +166,18 @@ describe('PredictorApplier', () => {
     it('adds previous for P-frame', () => {
       expect(PredictorApplier.apply(BBLPredictor.HOME_COORD, 5, 0, false, [123456], null, [], header, motor0Idx)).toBe(123461);
     });
+
+    it('adds the GPS home coordinate for G-frames', () => {
+      const gps = { homeCoord: [0, 0, 473977418, 85455939], lastMainFrameTime: 0 };
+      expect(PredictorApplier.apply(BBLPredictor.HOME_COORD, -120, 3, true, null, null, [], header, motor0Idx, gps)).toBe(85455819);
+    });
+  });
+
+  describe('LAST_MAIN_FRAME_TIME predictor', () => {
+    it('adds the last main frame time', () => {
+      const gps = { homeCoord: [], lastMainFrameTime: 5_000_000 };
+      expect(PredictorApplier.apply(BBLPredictor.LAST_MAIN_FRAME_TIME, 250, 0, true, null, null, [], header, motor0Idx, gps)).toBe(5_000_250);
+    });
   });
 
   describe('SERVO_CENTER predictor', () => {
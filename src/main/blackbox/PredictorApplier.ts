@@ -1,6 +1,16 @@
 import { BBLPredictor } from '@shared/types/blackbox.types';
 import type { BBLLogHeader } from '@shared/types/blackbox.types';
 
+/**
+ * Reference values for the GPS-only predictors (G-frames).
+ */
+export interface GpsPredictorContext {
+  /** GPS home coordinate each HOME_COORD field is relative to, indexed by field */
+  homeCoord: number[];
+  /** Time of the last main (I/P) frame in microseconds */
+  lastMainFrameTime: number;
+}
+
 /**
  * Applies predictor-based delta decompression to decoded field values.
  *
@@ -22,6 +32,7 @@ export class PredictorApplier {
    * @param currentValues - Current frame's values decoded so far (for MOTOR_0)
    * @param header - Log header (for MINTHROTTLE, VBATREF constants)
    * @param motor0FieldIdx - Index of motor[0] in the field definitions
+   * @param gps - Home coordinate and main frame time (G-frames only)
    */
   static apply(
     predictor: BBLPredictor,
@@ -32,7 +43,8 @@ export class PredictorApplier {
     previous2: number[] | null,
     currentValues: number[],
     header: BBLLogHeader,
-    motor0FieldIdx: number
+    motor0FieldIdx: number,
+    gps?: GpsPredictorContext
   ): number {
     switch (predictor) {
       case BBLPredictor.ZERO:
@@ -79,8 +91,8 @@ export class PredictorApplier {
         return decoded + (previous?.[fieldIdx] ?? 0) + 1;
 
       case BBLPredictor.HOME_COORD:
-        // GPS home coordinate - not needed for PID analysis
-        // For I-frame: absolute, for P-frame: delta from previous
+        // G-frame coordinates are stored relative to the GPS home (H-frame)
+        if (gps) return decoded + (gps.homeCoord[fieldIdx] ?? 0);
         if (isIFrame) return decoded;
         return decoded + (previous?.[fieldIdx] ?? 0);
 
@@ -93,6 +105,9 @@ export class PredictorApplier {
         if (isIFrame) return decoded + header.vbatref;
         return decoded + (previous?.[fieldIdx] ?? header.vbatref);
 
+      case BBLPredictor.LAST_MAIN_FRAME_TIME:
+        return decoded + (gps?.lastMainFrameTime ?? 0);
+
       default:
         return decoded;
     }
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ULogImporter } from './ULogImporter';
+import { BlackboxParser } from './BlackboxParser';
+import { estimateTransferFunction } from '../analysis/TransferFunctionEstimator';
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+
+const GYRO_HZ = 1000;
+const SETPOINT_HZ = 250;
+const DURATION_S = 4;
+const START_US = 12_000_000;
+/** The simulated quad follows its rate setpoint 5 ms late */
+const LAG_S = 0.005;
+
+const FORMATS = {
+  sensor_gyro:
+    'uint64_t timestamp;uint64_t timestamp_sample;uint32_t device_id;float x;float y;float z;' +
+    'float temperature;uint32_t error_count;uint8_t[3] clip_counter;uint8_t samples;uint8_t[4] _padding0;',
+  vehicle_rates_setpoint:
+    'uint64_t timestamp;float roll;float pitch;float yaw;float[3] thrust_body;bool reset_integral;' +
+    'uint8_t[3] _padding0;',
+  actuator_outputs: 'uint64_t timestamp;uint32_t noutputs;float[16] output;uint8_t[4] _padding0;',
+};
+
+function ulogMessage(type: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(3);
+  header.writeUInt16LE(payload.length, 0);
+  header.write(type, 2, 'latin1');
+  return Buffer.concat([header, payload]);
+}
+
+/** An info ('I') or parameter ('P') message: `<type> <key>` then the value */
+function keyValue(type: string, key: string, value: Buffer): Buffer {
+  return ulogMessage(type, Buffer.concat([Buffer.from([key.length]), Buffer.from(key), value]));
+}
+
+const uint32 = (n: number) => {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(n);
+  return b;
+};
+const int32 = (n: number) => {
+  const b = Buffer.alloc(4);
+  b.writeInt32LE(n);
+  return b;
+};
+const float32 = (n: number) => {
+  const b = Buffer.alloc(4);
+  b.writeFloatLE(n);
+  return b;
+};
+const uint64 = (n: number) => {
+  const b = Buffer.alloc(8);
+  b.writeBigUInt64LE(BigInt(n));
+  return b;
+};
+
+function addLogged(multiId: number, msgId: number, topic: string): Buffer {
+  const ids = Buffer.alloc(3);
+  ids.writeUInt8(multiId, 0);
+  ids.writeUInt16LE(msgId, 1);
+  return ulogMessage('A', Buffer.concat([ids, Buffer.from(topic)]));
+}
+
+function data(msgId: number, ...fields: Buffer[]): Buffer {
+  const id = Buffer.alloc(2);
+  id.writeUInt16LE(msgId);
+  return ulogMessage('D', Buffer.concat([id, ...fields]));
+}
+
+/** Desired roll rate in rad/s: a few sines below 20 Hz */
+const rollRate = (t: number) =>
+  Math.sin(2 * Math.PI * 2 * t) +
+  0.6 * Math.sin(2 * Math.PI * 7 * t) +
+  0.3 * Math.sin(2 * Math.PI * 13 * t);
+
+function buildULog(): Buffer {
+  const parts: Buffer[] = [
+    Buffer.from([0x55, 0x4c, 0x6f, 0x67, 0x01, 0x12, 0x35, 0x01]),
+    uint64(0),
+    ulogMessage('B', Buffer.alloc(40)),
+    ...Object.entries(FORMATS).map(([name, format]) =>
+      ulogMessage('F', Buffer.from(`${name}:${format}`))
+    ),
+    keyValue('I', 'char[3] sys_name', Buffer.from('PX4')),
+    keyValue('I', 'uint32_t ver_sw_release', uint32(0x010e03ff)),
+    keyValue('I', 'char[10] ver_hw', Buffer.from('PX4_FMU_V5')),
+    keyValue('P', 'float MC_ROLLRATE_P', float32(0.15)),
+    // Motors 1-4 on outputs 3-6
+    ...[1, 2, 3, 4, 5, 6].map((n) =>
+      keyValue('P', `int32_t PWM_MAIN_FUNC${n}`, int32(n > 2 ? 98 + n : 0))
+    ),
+    addLogged(0, 0, 'sensor_gyro'),
+    addLogged(1, 1, 'sensor_gyro'),
+    addLogged(0, 2, 'vehicle_rates_setpoint'),
+    addLogged(0, 3, 'actuator_outputs'),
+  ];
+
+  const gyroRest = Buffer.concat([float32(40), uint32(0), Buffer.alloc(4)]);
+  for (let k = 0; k < GYRO_HZ * DURATION_S; k++) {
+    const us = START_US + k * 1000;
+    const t = k / GYRO_HZ;
+    // Published 200 µs after the sample was taken
+    const gyro = [rollRate(t - LAG_S), -0.2, 0.1].map(float32);
+    parts.push(data(0, uint64(us + 200), uint64(us), uint32(1), ...gyro, gyroRest));
+    parts.push(
+      data(1, uint64(us + 200), uint64(us), uint32(2), ...[5, 5, 5].map(float32), gyroRest)
+    );
+    if (k % (GYRO_HZ / SETPOINT_HZ) === 0) {
+      const setpoint = [rollRate(t), -0.2, 0.1, 0, 0, -0.55].map(float32);
+      parts.push(data(2, uint64(us), ...setpoint, Buffer.alloc(4)));
+    }
+    if (k % 20 === 0) {
+      const outputs = Array.from({ length: 16 }, (_, n) => float32(n < 2 ? 900 : 1400 + n * 10));
+      parts.push(data(3, uint64(us), uint32(6), ...outputs));
+    }
+  }
+  // Truncated last message
+  parts.push(ulogMessage('D', Buffer.alloc(20)).subarray(0, 10));
+  return Buffer.concat(parts);
+}
+
+describe('ULogImporter', () => {
+  let log: Buffer;
+  let session: BlackboxLogSession;
+
+  beforeAll(async () => {
+    log = buildULog();
+    const result = await BlackboxParser.parse(log);
+    expect(result.sessions).toHaveLength(1);
+    session = result.sessions[0];
+  });
+
+  it('recognises ULog files by their magic', () => {
+    expect(ULogImporter.matches(log)).toBe(true);
+    expect(ULogImporter.matches(Buffer.from('H Product:Blackbox flight data recorder'))).toBe(
+      false
+    );
+  });
+
+  it('takes firmware from info messages and parameters as headers', () => {
+    expect(session.header.firmware).toBe('px4');
+    expect(session.header.firmwareType).toBe('PX4');
+    expect(session.header.firmwareRevision).toBe('v1.14.3');
+    expect(session.header.boardInformation).toBe('PX4_FMU_V5');
+    expect(Number(session.header.rawHeaders.get('MC_ROLLRATE_P'))).toBeCloseTo(0.15);
+    expect(session.header.rawHeaders.get('PWM_MAIN_FUNC3')).toBe('101');
+  });
+
+  it('reads the first sensor_gyro instance by sample time, in deg/s', () => {
+    const fd = session.flightData;
+
+    expect(fd.frameCount).toBe(GYRO_HZ * DURATION_S);
+    expect(fd.sampleRateHz).toBeCloseTo(GYRO_HZ);
+    expect(fd.gyro[0].time[0]).toBe(START_US / 1_000_000);
+    expect(fd.gyro[1].values[0]).toBeCloseTo((-0.2 * 180) / Math.PI, 3);
+    expect(Math.max(...fd.gyro[2].values)).toBeLessThan(10);
+  });
+
+  it('maps rate setpoints, thrust and motor outputs onto the gyro frames', () => {
+    const fd = session.flightData;
+
+    expect(fd.setpoint[0].values[2]).toBeCloseTo((rollRate(0.002) * 180) / Math.PI, 0);
+    expect(fd.setpoint[2].values[100]).toBeCloseTo((0.1 * 180) / Math.PI, 3);
+    // Thrust points up along -z: 55 % collective
+    expect(fd.setpoint[3].values[100]).toBeCloseTo(1550);
+    expect(fd.motor.map((m) => m.values[100])).toEqual([1420, 1430, 1440, 1450]);
+  });
+
+  it('feeds the transfer function: setpoint → gyro with the simulated lag', () => {
+    const fd = session.flightData;
+    const { bode } = estimateTransferFunction(
+      fd.setpoint[0].values,
+      fd.gyro[0].values,
+      fd.sampleRateHz
+    );
+
+    const at = (hz: number) => {
+      let bin = 0;
+      for (let i = 0; i < bode.frequencies.length; i++) {
+        if (Math.abs(bode.frequencies[i] - hz) < Math.abs(bode.frequencies[bin] - hz)) bin = i;
+      }
+      return bin;
+    };
+    const bin = at(7);
+    expect(Math.abs(bode.magnitude[bin])).toBeLessThan(1);
+    expect(bode.phase[bin]).toBeCloseTo(-360 * bode.frequencies[bin] * LAG_S, -1);
+  });
+
+  it('reports progress and yields to the event loop while reading', async () => {
+    const percents: number[] = [];
+    let yielded = false;
+    setImmediate(() => {
+      yielded = true;
+    });
+
+    await BlackboxParser.parse(log, (progress) => percents.push(progress.percent));
+
+    expect(yielded).toBe(true);
+    expect(percents.length).toBeGreaterThan(2);
+    expect(percents).toEqual([...percents].sort((a, b) => a - b));
+    expect(percents[0]).toBeLessThan(50);
+    expect(percents.at(-1)).toBe(100);
+  });
+});
@@ -0,0 +1,339 @@
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+import { buildImportedSession, yieldToEventLoop } from './ImportedLog';
+import type { LoggedChannel } from './ImportedLog';
+import { PROGRESS_INTERVAL, YIELD_INTERVAL } from './constants';
+
+/** "ULog" followed by 0x01 0x12 0x35, then the version byte and start timestamp */
+const MAGIC = Buffer.from([0x55, 0x4c, 0x6f, 0x67, 0x01, 0x12, 0x35]);
+const FILE_HEADER_SIZE = 16;
+
+/** msg_size (uint16) and msg_type (uint8) */
+const MESSAGE_HEADER_SIZE = 3;
+
+const MSG_FORMAT = 'F'.charCodeAt(0);
+const MSG_INFO = 'I'.charCodeAt(0);
+const MSG_PARAMETER = 'P'.charCodeAt(0);
+const MSG_ADD_LOGGED = 'A'.charCodeAt(0);
+const MSG_DATA = 'D'.charCodeAt(0);
+
+/** Byte size of each ULog base type */
+const TYPE_SIZES: Record<string, number> = {
+  int8_t: 1,
+  uint8_t: 1,
+  bool: 1,
+  char: 1,
+  int16_t: 2,
+  uint16_t: 2,
+  int32_t: 4,
+  uint32_t: 4,
+  float: 4,
+  int64_t: 8,
+  uint64_t: 8,
+  double: 8,
+};
+
+/** PWM_MAIN_FUNCn values of Motor 1…Motor 12 */
+const MOTOR1_FUNCTION = 101;
+const MAX_MOTORS = 12;
+const MAX_OUTPUTS = 16;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+interface FieldLayout {
+  type: string;
+  offset: number;
+  /** Array length, 1 for scalars */
+  count: number;
+}
+
+/** Layout of a message format; nested formats are flattened to `outer.inner` */
+type FormatLayout = { size: number; fields: Map<string, FieldLayout> };
+
+type FieldReader = (data: Buffer, payload: number) => number;
+
+/**
+ * Imports PX4 ULog (`.ulg`) files.
+ *
+ * Reads the topics the noise and transfer-function analyses need: gyro from
+ * sensor_gyro (by sample time), desired rates and collective thrust from
+ * vehicle_rates_setpoint, motor outputs from actuator_outputs (mapped through
+ * PWM_MAIN_FUNCn), and parameters as the session's headers. Only the first
+ * instance of each topic is used.
+ */
+export class ULogImporter {
+  /** Whether the buffer starts with the ULog magic */
+  static matches(data: Buffer): boolean {
+    return data.length >= FILE_HEADER_SIZE && data.subarray(0, MAGIC.length).equals(MAGIC);
+  }
+
+  /**
+   * @param onBytesProcessed - Called with the bytes read so far every PROGRESS_INTERVAL messages
+   */
+  static async parse(
+    data: Buffer,
+    onBytesProcessed?: (bytesProcessed: number) => void
+  ): Promise<BlackboxLogSession[]> {
+    const formatTexts = new Map<string, string>();
+    const layouts = new Map<string, FormatLayout>();
+    const info = new Map<string, string>();
+    const params = new Map<string, string>();
+    const gyro = newChannels(3);
+    const rates = newChannels(3);
+    const thrust = newChannels(1);
+    const outputs = newChannels(MAX_OUTPUTS);
+
+    const layoutOf = (name: string) => {
+      let layout = layouts.get(name);
+      if (!layout) {
+        layout = parseLayout(name, formatTexts, layouts);
+        layouts.set(name, layout);
+      }
+      return layout;
+    };
+
+    // Readers per subscription (msg_id), for the topics the import uses
+    const readers = new Map<number, (payload: number) => void>();
+
+    let pos = FILE_HEADER_SIZE;
+    let messageCount = 0;
+    while (pos + MESSAGE_HEADER_SIZE <= data.length) {
+      const size = data.readUInt16LE(pos);
+      const type = data[pos + 2];
+      const body = pos + MESSAGE_HEADER_SIZE;
+      const end = body + size;
+      if (end > data.length) break; // Truncated at the end of the file
+
+      switch (type) {
+        case MSG_FORMAT: {
+          const text = data.toString('latin1', body, end);
+          const colon = text.indexOf(':');
+          formatTexts.set(text.slice(0, colon), text.slice(colon + 1));
+          break;
+        }
+        case MSG_INFO:
+        case MSG_PARAMETER: {
+          const [keyType, key] = data
+            .toString('latin1', body + 1, body + 1 + data[body])
+            .split(' ');
+          const value = readValue(data, body + 1 + data[body], end, keyType);
+          (type === MSG_INFO ? info : params).set(key, value);
+          break;
+        }
+        case MSG_ADD_LOGGED: {
+          const multiId = data[body];
+          const msgId = data.readUInt16LE(body + 1);
+          const topic = data.toString('latin1', body + 3, end);
+          if (multiId !== 0 || !formatTexts.has(topic)) break;
+          const reader = topicReader(topic, layoutOf(topic), data, {
+            gyro,
+            rates,
+            thrust,
+            outputs,
+          });
+          if (reader) readers.set(msgId, reader);
+          break;
+        }
+        case MSG_DATA:
+          readers.get(data.readUInt16LE(body))?.(body + 2);
+          break;
+      }
+      pos = end;
+
+      messageCount++;
+      if (messageCount % PROGRESS_INTERVAL === 0) onBytesProcessed?.(pos);
+      if (messageCount % YIELD_INTERVAL === 0) await yieldToEventLoop();
+    }
+
+    return [
+      buildImportedSession(
+        {
+          firmware: 'px4',
+          product: 'PX4 ULog',
+          firmwareType: info.get('sys_name') || 'PX4',
+          firmwareRevision: releaseVersion(info.get('ver_sw_release')) ?? info.get('ver_sw') ?? '',
+          boardInformation: info.get('ver_hw'),
+          rawHeaders: params,
+        },
+        {
+          gyro: [gyro[0], gyro[1], gyro[2]],
+          setpoint: rates[0].time.length > 0 ? [rates[0], rates[1], rates[2]] : undefined,
+          throttle: thrust[0].time.length > 0 ? thrust[0] : undefined,
+          motors: motorOutputs(params).map((output) => outputs[output]),
+        }
+      ),
+    ];
+  }
+}
+
+function newChannels(count: number): LoggedChannel[] {
+  return Array.from({ length: count }, () => ({ time: [], values: [] }));
+}
+
+/** An info or parameter value as text: strings for char[N], numbers otherwise */
+function readValue(data: Buffer, start: number, end: number, keyType: string): string {
+  if (keyType.startsWith('char')) return data.toString('latin1', start, end);
+  const value = baseReader(keyType, 0);
+  return value && start + TYPE_SIZES[keyType] <= end ? String(value(data, start)) : '';
+}
+
+/**
+ * Byte offsets of a format's fields, e.g. `uint64_t timestamp;float[3] xyz;`.
+ * Fields follow each other without alignment (ULog writes padding fields).
+ */
+function parseLayout(
+  name: string,
+  formatTexts: Map<string, string>,
+  layouts: Map<string, FormatLayout>
+): FormatLayout {
+  const fields = new Map<string, FieldLayout>();
+  let offset = 0;
+  for (const declaration of (formatTexts.get(name) ?? '').split(';')) {
+    const match = declaration.trim().match(/^(\w+)(?:\[(\d+)\])?\s+(\w+)$/);
+    if (!match) continue;
+    const [, type, length, field] = match;
+    const count = length ? parseInt(length, 10) : 1;
+
+    let size = TYPE_SIZES[type];
+    if (size === undefined) {
+      // Nested message format
+      const nested = layouts.get(type) ?? parseLayout(type, formatTexts, layouts);
+      layouts.set(type, nested);
+      for (const [inner, layout] of nested.fields) {
+        fields.set(`${field}.${inner}`, { ...layout, offset: offset + layout.offset });
+      }
+      size = nested.size;
+    }
+    fields.set(field, { type, offset, count });
+    offset += size * count;
+  }
+  return { size: offset, fields };
+}
+
+function baseReader(type: string, at: number): FieldReader | undefined {
+  switch (type) {
+    case 'int8_t':
+      return (d, p) => d.readInt8(p + at);
+    case 'uint8_t':
+    case 'bool':
+      return (d, p) => d.readUInt8(p + at);
+    case 'int16_t':
+      return (d, p) => d.readInt16LE(p + at);
+    case 'uint16_t':
+      return (d, p) => d.readUInt16LE(p + at);
+    case 'int32_t':
+      return (d, p) => d.readInt32LE(p + at);
+    case 'uint32_t':
+      return (d, p) => d.readUInt32LE(p + at);
+    case 'float':
+      return (d, p) => d.readFloatLE(p + at);
+    case 'int64_t':
+      return (d, p) => Number(d.readBigInt64LE(p + at));
+    case 'uint64_t':
+      return (d, p) => Number(d.readBigUInt64LE(p + at));
+    case 'double':
+      return (d, p) => d.readDoubleLE(p + at);
+    default:
+      return undefined;
+  }
+}
+
+/** Reader for a numeric field or array element (`output[3]`), if the format has it */
+function fieldReader(layout: FormatLayout, name: string): FieldReader | undefined {
+  const match = name.match(/^(.+?)(?:\[(\d+)\])?$/)!;
+  const field = layout.fields.get(match[1]);
+  const index = match[2] ? parseInt(match[2], 10) : 0;
+  if (!field || index >= field.count) return undefined;
+  return baseReader(field.type, field.offset + index * (TYPE_SIZES[field.type] ?? 0));
+}
+
+interface Collected {
+  gyro: LoggedChannel[];
+  rates: LoggedChannel[];
+  thrust: LoggedChannel[];
+  outputs: LoggedChannel[];
+}
+
+/** The function storing one topic's samples, for the topics the import uses */
+function topicReader(
+  topic: string,
+  layout: FormatLayout,
+  data: Buffer,
+  into: Collected
+): ((payload: number) => void) | undefined {
+  const timestamp = fieldReader(layout, 'timestamp');
+  if (!timestamp) return undefined;
+
+  /** Append a sample unless time went backwards */
+  const push = (channels: LoggedChannel[], timeUs: number, values: number[]) => {
+    const time = timeUs / 1_000_000;
+    const last = channels[0].time[channels[0].time.length - 1];
+    if (last !== undefined && time <= last) return;
+    channels.forEach((channel, n) => {
+      channel.time.push(time);
+      channel.values.push(values[n]);
+    });
+  };
+
+  switch (topic) {
+    case 'sensor_gyro': {
+      const sampleTime = fieldReader(layout, 'timestamp_sample') ?? timestamp;
+      const axes = ['x', 'y', 'z'].map((axis) => fieldReader(layout, axis));
+      if (axes.some((axis) => !axis)) return undefined;
+      return (p) =>
+        push(
+          into.gyro,
+          sampleTime(data, p),
+          axes.map((axis) => axis!(data, p) * RAD_TO_DEG)
+        );
+    }
+    case 'vehicle_rates_setpoint': {
+      const axes = ['roll', 'pitch', 'yaw'].map((axis) => fieldReader(layout, axis));
+      // Body-frame thrust points down (negative); older logs have a scalar `thrust`
+      const thrustZ = fieldReader(layout, 'thrust_body[2]');
+      const thrust: FieldReader | undefined = thrustZ
+        ? (d, p) => -thrustZ(d, p)
+        : fieldReader(layout, 'thrust');
+      if (axes.some((axis) => !axis)) return undefined;
+      return (p) => {
+        const time = timestamp(data, p);
+        push(
+          into.rates,
+          time,
+          axes.map((axis) => axis!(data, p) * RAD_TO_DEG)
+        );
+        if (thrust) push(into.thrust, time, [thrust(data, p)]);
+      };
+    }
+    case 'actuator_outputs': {
+      const outputs = Array.from({ length: MAX_OUTPUTS }, (_, n) =>
+        fieldReader(layout, `output[${n}]`)
+      );
+      return (p) =>
+        push(
+          into.outputs,
+          timestamp(data, p),
+          outputs.map((output) => (output ? output(data, p) : 0))
+        );
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** ver_sw_release is 0xAABBCCTT: major, minor, patch and release type */
+function releaseVersion(value: string | undefined): string | undefined {
+  const release = Number(value);
+  if (!value || !Number.isFinite(release) || release === 0) return undefined;
+  return `v${(release >>> 24) & 0xff}.${(release >>> 16) & 0xff}.${(release >>> 8) & 0xff}`;
+}
+
+/** actuator_outputs index of each motor, from PWM_MAIN_FUNCn; a quad on 1–4 without params */
+function motorOutputs(params: Map<string, string>): number[] {
+  const outputs: number[] = [];
+  for (let n = 1; n <= MAX_OUTPUTS; n++) {
+    const motor = Number(params.get(`PWM_MAIN_FUNC${n}`)) - MOTOR1_FUNCTION;
+    if (motor >= 0 && motor < MAX_MOTORS) outputs[motor] = n - 1;
+  }
+  const motors = outputs.filter((o) => o !== undefined);
+  return motors.length > 0 ? motors : [0, 1, 2, 3];
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { ValueEncoder } from './ValueEncoder';
+import { ValueDecoder } from './ValueDecoder';
+import { StreamReader } from './StreamReader';
+import { BBLEncoding } from '@shared/types/blackbox.types';
+
+/** Encode then decode one value, checking every byte was consumed */
+function roundTrip(encoding: BBLEncoding, value: number): number {
+  const reader = new StreamReader(Buffer.from(ValueEncoder.encode(encoding, value)));
+  const values = [0];
+  ValueDecoder.decode(reader, encoding, values, 0);
+  expect(reader.eof).toBe(true);
+  return values[0];
+}
+
+/** Encode then decode a group, checking every byte was consumed */
+function roundTripGroup(encoding: BBLEncoding, values: number[], version: number = 2): number[] {
+  const reader = new StreamReader(
+    Buffer.from(ValueEncoder.encodeGroup(encoding, values, values.length, version))
+  );
+  const decoded = new Array(8).fill(0);
+  ValueDecoder.decodeGroup(reader, encoding, decoded, values.length, version);
+  expect(reader.eof).toBe(true);
+  return decoded.slice(0, values.length);
+}
+
+const EDGE_VALUES = [
+  0, 1, -1, 2, -2, 7, -8, 31, -32, 63, -64, 127, -128, 255, -256, 32767, -32768, 65535, 8388607,
+  -8388608, 2147483647, -2147483648,
+];
+
+describe('ValueEncoder', () => {
+  it('writes variable-byte values as Betaflight does', () => {
+    expect(ValueEncoder.unsignedVB(0)).toEqual([0x00]);
+    expect(ValueEncoder.unsignedVB(300)).toEqual([0xac, 0x02]);
+    expect(ValueEncoder.signedVB(-1)).toEqual([0x01]);
+    expect(ValueEncoder.signedVB(1)).toEqual([0x02]);
+  });
+
+  it('round-trips signed values', () => {
+    for (const v of EDGE_VALUES) expect(roundTrip(BBLEncoding.SIGNED_VB, v)).toBe(v);
+  });
+
+  it('round-trips unsigned values', () => {
+    for (const v of [0, 1, 127, 128, 16383, 16384, 2147483647]) {
+      expect(roundTrip(BBLEncoding.UNSIGNED_VB, v)).toBe(v);
+    }
+  });
+
+  it('round-trips 14-bit negated values', () => {
+    for (const v of [0, 1, -1, 420, -420, 8191, -8191]) {
+      expect(roundTrip(BBLEncoding.NEG_14BIT, v)).toBe(v);
+    }
+  });
+
+  it('writes nothing for NULL', () => {
+    expect(ValueEncoder.encode(BBLEncoding.NULL, 5)).toEqual([]);
+  });
+
+  it('round-trips TAG8_8SVB groups of any size, skipping zeros', () => {
+    expect(roundTripGroup(BBLEncoding.TAG8_8SVB, [0, 5, 0, -300, 0, 0, 1, 70000])).toEqual([
+      0, 5, 0, -300, 0, 0, 1, 70000,
+    ]);
+    expect(roundTripGroup(BBLEncoding.TAG8_8SVB, [-3, 0, 9])).toEqual([-3, 0, 9]);
+    expect(ValueEncoder.encodeGroup(BBLEncoding.TAG8_8SVB, [0, 0], 2)).toEqual([0x00]);
+  });
+
+  it('writes a lone TAG8_8SVB value without a tag byte', () => {
+    for (const v of EDGE_VALUES) expect(roundTripGroup(BBLEncoding.TAG8_8SVB, [v])).toEqual([v]);
+    expect(ValueEncoder.encode(BBLEncoding.TAG8_8SVB, -1)).toEqual([0x01]);
+  });
+
+  it.each([BBLEncoding.TAG2_3S32, BBLEncoding.TAG2_3SVARIABLE])(
+    'round-trips TAG2 groups in every sub-encoding (encoding %i)',
+    (encoding) => {
+      const groups = [
+        [1, -2, 0],
+        [7, -8, 3],
+        [15, -7, 6],
+        [31, -32, 20],
+        [127, -60, 63],
+        [200, -3, 1],
+        [1, 40000, -9000000],
+        [-2147483648, 2147483647, 0],
+      ];
+      for (const group of groups) expect(roundTripGroup(encoding, group)).toEqual(group);
+    }
+  );
+
+  it('picks the smallest TAG2_3S32 packing', () => {
+    expect(ValueEncoder.encodeGroup(BBLEncoding.TAG2_3S32, [1, -1, 0], 3)).toHaveLength(1);
+    expect(ValueEncoder.encodeGroup(BBLEncoding.TAG2_3S32, [7, -8, 0], 3)).toHaveLength(2);
+    expect(ValueEncoder.encodeGroup(BBLEncoding.TAG2_3S32, [31, -32, 0], 3)).toHaveLength(3);
+  });
+
+  it.each([1, 2])('round-trips TAG8_4S16 groups (data version %i)', (version) => {
+    const groups = [
+      [0, 0, 0, 0],
+      [3, -4, 7, -8],
+      [100, -128, 0, 127],
+      [1000, -32768, 32767, 0],
+    ];
+    if (version === 2) groups.push([70000, -1, 0, -2000000]);
+    for (const group of groups) {
+      expect(roundTripGroup(BBLEncoding.TAG8_4S16, group, version)).toEqual(group);
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import { BBLEncoding } from '@shared/types/blackbox.types';
+
+/**
+ * Encodes field values into BBL bytes — the inverse of ValueDecoder.
+ *
+ * Every encoding produces exactly the bytes ValueDecoder consumes for it,
+ * picking the smallest sub-encoding that holds the values (as the Betaflight
+ * encoder does), so `decode(encode(v)) === v` for any 32-bit signed value.
+ *
+ * Reference: betaflight/src/main/blackbox/blackbox_encoding.c
+ */
+export class ValueEncoder {
+  /**
+   * Encode a single value with a single-value encoding.
+   * Grouped encodings must go through encodeGroup().
+   */
+  static encode(encoding: BBLEncoding, value: number): number[] {
+    switch (encoding) {
+      case BBLEncoding.SIGNED_VB:
+        return ValueEncoder.signedVB(value);
+      case BBLEncoding.UNSIGNED_VB:
+        return ValueEncoder.unsignedVB(value);
+      case BBLEncoding.NEG_14BIT:
+        // Decoder negates the sign-extended 14-bit value
+        return ValueEncoder.unsignedVB(-value & 0x3fff);
+      case BBLEncoding.NULL:
+        return [];
+      default:
+        return ValueEncoder.encodeGroup(encoding, [value], 1);
+    }
+  }
+
+  /**
+   * Encode a group of values with a grouped encoding.
+   *
+   * @param count - Number of fields in the group; TAG8_8SVB writes only that
+   *   many tag bits, the fixed-size encodings pad missing values with zero
+   * @param version - Data version from header (1 or 2), affects TAG8_4S16
+   */
+  static encodeGroup(
+    encoding: BBLEncoding,
+    values: number[],
+    count: number,
+    version: number = 2
+  ): number[] {
+    const value = (i: number) => values[i] ?? 0;
+
+    switch (encoding) {
+      case BBLEncoding.TAG8_8SVB:
+        return ValueEncoder.tag8_8SVB(Array.from({ length: count }, (_, i) => value(i)));
+      case BBLEncoding.TAG2_3S32:
+        return ValueEncoder.tag2_3S32([value(0), value(1), value(2)]);
+      case BBLEncoding.TAG8_4S16:
+        return ValueEncoder.tag8_4S16(
+          [value(0), value(1), value(2), value(3)],
+          version >= 2 ? 2 : 1
+        );
+      case BBLEncoding.TAG2_3SVARIABLE:
+        return ValueEncoder.tag2_3SVariable([value(0), value(1), value(2)]);
+      default:
+        return values.slice(0, count).flatMap((v) => ValueEncoder.encode(encoding, v));
+    }
+  }
+
+  /** Unsigned variable-byte: 7 bits per byte, high bit set on all but the last */
+  static unsignedVB(value: number): number[] {
+    const bytes: number[] = [];
+    let v = value >>> 0;
+    while (v >= 0x80) {
+      bytes.push((v & 0x7f) | 0x80);
+      v >>>= 7;
+    }
+    bytes.push(v);
+    return bytes;
+  }
+
+  /** Signed variable-byte: ZigZag, then unsigned VB */
+  static signedVB(value: number): number[] {
+    return ValueEncoder.unsignedVB((value << 1) ^ (value >> 31));
+  }
+
+  /**
+   * Encoding 6: one tag byte flagging the non-zero values, then a signed VB
+   * for each of them. A single value is written as a plain signed VB.
+   */
+  private static tag8_8SVB(values: number[]): number[] {
+    if (values.length === 1) return ValueEncoder.signedVB(values[0]);
+
+    let tag = 0;
+    const bytes: number[] = [];
+    values.forEach((v, i) => {
+      if (v === 0) return;
+      tag |= 1 << i;
+      bytes.push(...ValueEncoder.signedVB(v));
+    });
+    return [tag, ...bytes];
+  }
+
+  /**
+   * Encoding 7: 2-bit selector for 2/4/6-bit packed values, or 3 values of
+   * 8–32 bits each with their own width selector.
+   */
+  private static tag2_3S32(values: number[]): number[] {
+    const [a, b, c] = values;
+    if (values.every((v) => fits(v, 2))) {
+      return [((a & 0x03) << 4) | ((b & 0x03) << 2) | (c & 0x03)];
+    }
+    if (values.every((v) => fits(v, 4))) {
+      return [0x40 | (a & 0x0f), ((b & 0x0f) << 4) | (c & 0x0f)];
+    }
+    if (values.every((v) => fits(v, 6))) {
+      return [0x80 | (a & 0x3f), b & 0x3f, c & 0x3f];
+    }
+    return ValueEncoder.variableWidth(values);
+  }
+
+  /**
+   * Encoding 8: tag byte with a 2-bit size per value.
+   * v2: zero / 8-bit / 16-bit / signed VB. v1: zero / 4-bit / 8-bit / 16-bit,
+   * one byte each for the 4- and 8-bit sizes (as ValueDecoder reads them).
+   */
+  private static tag8_4S16(values: number[], version: 1 | 2): number[] {
+    let tag = 0;
+    const bytes: number[] = [];
+
+    values.forEach((v, i) => {
+      let size: number;
+      if (v === 0) {
+        size = 0;
+      } else if (version === 2) {
+        size = fits(v, 8) ? 1 : fits(v, 16) ? 2 : 3;
+        if (size === 1) bytes.push(v & 0xff);
+        else if (size === 2) bytes.push(v & 0xff, (v >> 8) & 0xff);
+        else bytes.push(...ValueEncoder.signedVB(v));
+      } else {
+        size = fits(v, 4) ? 1 : fits(v, 8) ? 2 : 3;
+        if (size === 1) bytes.push(v & 0x0f);
+        else if (size === 2) bytes.push(v & 0xff);
+        else bytes.push(v & 0xff, (v >> 8) & 0xff);
+      }
+      tag |= size << (i * 2);
+    });
+
+    return [tag, ...bytes];
+  }
+
+  /**
+   * Encoding 10: 2-bit selector for 2-2-2, 5-5-4 or 8-7-7 bit packed values,
+   * or 3 values of 8–32 bits each.
+   */
+  private static tag2_3SVariable(values: number[]): number[] {
+    const [a, b, c] = values;
+    if (values.every((v) => fits(v, 2))) {
+      return [((a & 0x03) << 4) | ((b & 0x03) << 2) | (c & 0x03)];
+    }
+    if (fits(a, 5) && fits(b, 5) && fits(c, 4)) {
+      return [0x40 | ((a & 0x1f) << 1) | ((b & 0x1f) >> 4), ((b & 0x0f) << 4) | (c & 0x0f)];
+    }
+    if (fits(a, 8) && fits(b, 7) && fits(c, 7)) {
+      return [
+        0x80 | ((a & 0xff) >> 2),
+        ((a & 0x03) << 6) | ((b & 0x7f) >> 1),
+        ((b & 0x01) << 7) | (c & 0x7f),
+      ];
+    }
+    return ValueEncoder.variableWidth(values);
+  }
+
+  /**
+   * Selector 3 of the TAG2_3* encodings: per-value width (8/16/24/32 bit,
+   * little-endian) in the low 6 bits of the lead byte.
+   */
+  private static variableWidth(values: number[]): number[] {
+    let lead = 0xc0;
+    const bytes: number[] = [];
+
+    values.forEach((v, i) => {
+      const width = fits(v, 8) ? 0 : fits(v, 16) ? 1 : fits(v, 24) ? 2 : 3;
+      lead |= width << (i * 2);
+      for (let b = 0; b <= width; b++) bytes.push((v >> (8 * b)) & 0xff);
+    });
+
+    return [lead, ...bytes];
+  }
+}
+
+/** Whether a signed value fits in a two's complement field of `bits` bits */
+function fits(value: number, bits: number): boolean {
+  const limit = 2 ** (bits - 1);
+  return value >= -limit && value < limit;
+}
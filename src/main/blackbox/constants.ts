@@ -45,10 +45,10 @@ export const HEADER_PREFIX = 'H ';
 /** Maximum bytes to read for a single variable-byte encoded value (safety limit) */
 export const MAX_VB_BYTES = 5;
 
-/** Number of frames between progress reports */
+/** Number of messages between progress reports of the DataFlash and ULog importers */
 export const PROGRESS_INTERVAL = 1000;
 
-/** Number of frames between setImmediate() yields to avoid blocking Electron */
+/** Number of frames (or imported log messages) between setImmediate() yields to avoid blocking Electron */
 export const YIELD_INTERVAL = 5000;
 
 /** Maximum number of bytes to scan ahead when resyncing after corruption */
@@ -61,6 +61,12 @@ export const MAX_RESYNC_BYTES = 65536;
  */
 export const MAX_FRAME_LENGTH = 256;
 
+/** Motor channels produced for logs without motor[n] fields (zero-filled, quad layout) */
+export const DEFAULT_MOTOR_COUNT = 4;
+
+/** Betaflight's default motor_poles when the header omits it (typical 5" motors) */
+export const DEFAULT_MOTOR_POLES = 14;
+
 /**
  * String payload after LOG_END event type byte (0xFF).
  * Betaflight writes "End of log\0" — the viewer validates this to avoid
@@ -171,6 +177,9 @@ export const HEADER_KEYS = {
   GYRO_SCALE: 'gyro_scale',
   ACC_1G: 'acc_1G',
   PID_PROCESS_DENOM: 'pid_process_denom',
+  MOTOR_POLES: 'motor_poles',
+  MIXER: 'mixer',
+  DEBUG_MODE: 'debug_mode',
 } as const;
 
 /** Well-known field name patterns used during flight data extraction */
@@ -185,7 +194,19 @@ export const FIELD_NAMES = {
   AXIS_D_PREFIX: 'axisD[',
   AXIS_F_PREFIX: 'axisF[',
   MOTOR_PREFIX: 'motor[',
+  ERPM_PREFIX: 'eRPM[',
   DEBUG_PREFIX: 'debug[',
+  GPS_NUM_SAT: 'GPS_numSat',
+  GPS_COORD_PREFIX: 'GPS_coord[',
+  GPS_HOME_PREFIX: 'GPS_home[',
+  GPS_ALTITUDE: 'GPS_altitude',
+  GPS_SPEED: 'GPS_speed',
+  GPS_GROUND_COURSE: 'GPS_ground_course',
+  FLIGHT_MODE_FLAGS: 'flightModeFlags',
+  STATE_FLAGS: 'stateFlags',
+  FAILSAFE_PHASE: 'failsafePhase',
+  RX_SIGNAL_RECEIVED: 'rxSignalReceived',
+  RX_FLIGHT_CHANNELS_VALID: 'rxFlightChannelsValid',
 } as const;
 
 /**
@@ -0,0 +1,379 @@
+/**
+ * Synthetic golden set for GoldenFileValidator: small Betaflight 4.3, 4.4 and
+ * 4.5 logs and one log with a corrupt frame, each with a reference CSV.
+ *
+ * Both sides are generated here, so the set is a self-consistency check, not
+ * a comparison with blackbox_decode. This encoder writes known values with
+ * Betaflight's field layouts, predictors and encodings, independently of
+ * BlackboxWriter, and the CSVs list those values in blackbox_decode's CSV
+ * layout with raw units: one row per valid main frame, the slow fields
+ * carried on every row. For the corrupt log the CSV leaves out the P-frame
+ * whose time jumps more than 10 s and every frame after it up to the next
+ * I-frame; that follows blackbox_decode's source but has not been checked
+ * against its output.
+ */
+import { BBLEncoding, BBLPredictor } from '@shared/types/blackbox.types';
+import { ValueEncoder } from '../ValueEncoder';
+
+/** One file of the golden set */
+export interface GoldenFile {
+  name: string;
+  data: Buffer;
+}
+
+interface GoldenField {
+  name: string;
+  signed: boolean;
+  i: [BBLPredictor, BBLEncoding];
+  p: [BBLPredictor, BBLEncoding];
+  /** The logged value at a frame */
+  value: (frame: number) => number;
+}
+
+interface GoldenSession {
+  revision: string;
+  fields: GoldenField[];
+  frameCount: number;
+  /** P-frame whose time is damaged on flash */
+  corruptFrame?: number;
+}
+
+const I_INTERVAL = 32;
+const LOOPTIME_US = 125;
+const MINTHROTTLE = 1070;
+const VBATREF = 1620;
+/** blackbox_decode's MAXIMUM_TIME_JUMP_BETWEEN_FRAMES is 10 s */
+const TIME_DAMAGE_US = 20_000_000;
+
+const SLOW_FIELDS = [
+  'flightModeFlags',
+  'stateFlags',
+  'failsafePhase',
+  'rxSignalReceived',
+  'rxFlightChannelsValid',
+];
+const SLOW_VALUES = [1, 0, 0, 1, 1];
+
+/** Small deterministic noise in [-amplitude, amplitude] */
+function noise(frame: number, seed: number, amplitude: number): number {
+  const hash = Math.imul(frame + 1, 2654435761) ^ Math.imul(seed + 7, 40503);
+  return ((hash >>> 0) % (2 * amplitude + 1)) - amplitude;
+}
+
+/** A slow wave around `center` with noise, distinct per seed */
+function wave(seed: number, center: number, amplitude: number, jitter = 3) {
+  const period = 23 + (seed % 17);
+  return (frame: number) =>
+    Math.round(center + amplitude * Math.sin((2 * Math.PI * frame) / period + seed)) +
+    noise(frame, seed, jitter);
+}
+
+function axes(
+  prefix: string,
+  count: number,
+  spec: Omit<GoldenField, 'name' | 'value'>,
+  value: (axis: number) => (frame: number) => number
+): GoldenField[] {
+  return Array.from({ length: count }, (_, n) => ({
+    name: `${prefix}[${n}]`,
+    ...spec,
+    value: value(n),
+  }));
+}
+
+/** Main fields as Betaflight logs them; 4.4 adds eRPM, 4.5 gyroUnfilt and 8 debug channels */
+function betaflightFields(minor: 3 | 4 | 5, seed: number): GoldenField[] {
+  const {
+    ZERO,
+    PREVIOUS,
+    STRAIGHT_LINE,
+    AVERAGE_2,
+    MINTHROTTLE: MIN,
+    MOTOR_0,
+    INCREMENT,
+  } = BBLPredictor;
+  const { SIGNED_VB, UNSIGNED_VB, NEG_14BIT, TAG8_8SVB, TAG2_3S32, TAG8_4S16, NULL } = BBLEncoding;
+  const s = (n: number) => seed * 100 + n;
+  const startUs = 4_321_000 + seed * 1_000_000;
+
+  return [
+    {
+      name: 'loopIteration',
+      signed: false,
+      i: [ZERO, UNSIGNED_VB],
+      p: [INCREMENT, NULL],
+      value: (f) => f,
+    },
+    {
+      name: 'time',
+      signed: false,
+      i: [ZERO, UNSIGNED_VB],
+      p: [STRAIGHT_LINE, SIGNED_VB],
+      value: (f) => startUs + f * LOOPTIME_US + noise(f, s(1), 2),
+    },
+    ...axes('axisP', 3, { signed: true, i: [ZERO, SIGNED_VB], p: [PREVIOUS, TAG2_3S32] }, (n) =>
+      wave(s(10 + n), 0, 120)
+    ),
+    ...axes('axisI', 3, { signed: true, i: [ZERO, SIGNED_VB], p: [PREVIOUS, TAG2_3S32] }, (n) =>
+      wave(s(13 + n), 10 * n, 40, 1)
+    ),
+    ...axes('axisD', 2, { signed: true, i: [ZERO, SIGNED_VB], p: [PREVIOUS, SIGNED_VB] }, (n) =>
+      wave(s(16 + n), 0, 90, 20)
+    ),
+    ...axes('axisF', 3, { signed: true, i: [ZERO, SIGNED_VB], p: [PREVIOUS, SIGNED_VB] }, (n) =>
+      wave(s(18 + n), 0, 60)
+    ),
+    ...axes('rcCommand', 3, { signed: true, i: [ZERO, SIGNED_VB], p: [PREVIOUS, TAG8_4S16] }, (n) =>
+      wave(s(21 + n), 0, 300, 0)
+    ),
+    {
+      name: 'rcCommand[3]',
+      signed: false,
+      i: [MIN, UNSIGNED_VB],
+      p: [PREVIOUS, TAG8_4S16],
+      value: wave(s(24), 1450, 250, 0),
+    },
+    ...axes('setpoint', 4, { signed: true, i: [ZERO, SIGNED_VB], p: [PREVIOUS, TAG8_4S16] }, (n) =>
+      n === 3 ? wave(s(28), 450, 250, 0) : wave(s(25 + n), 0, 400, 0)
+    ),
+    {
+      name: 'vbatLatest',
+      signed: false,
+      i: [BBLPredictor.VBATREF, NEG_14BIT],
+      p: [PREVIOUS, TAG8_8SVB],
+      value: (f) => 1600 - Math.floor(f / 10) + noise(f, s(30), 1),
+    },
+    {
+      name: 'amperageLatest',
+      signed: true,
+      i: [ZERO, SIGNED_VB],
+      p: [PREVIOUS, TAG8_8SVB],
+      value: wave(s(31), 1800, 900, 5),
+    },
+    {
+      name: 'rssi',
+      signed: false,
+      i: [ZERO, UNSIGNED_VB],
+      p: [PREVIOUS, TAG8_8SVB],
+      value: (f) => 1000 + noise(f, s(32), 20),
+    },
+    ...axes('gyroADC', 3, { signed: true, i: [ZERO, SIGNED_VB], p: [AVERAGE_2, SIGNED_VB] }, (n) =>
+      wave(s(33 + n), 0, 500, 8)
+    ),
+    ...(minor >= 5
+      ? axes(
+          'gyroUnfilt',
+          3,
+          { signed: true, i: [ZERO, SIGNED_VB], p: [AVERAGE_2, SIGNED_VB] },
+          (n) => wave(s(33 + n), 0, 500, 40)
+        )
+      : []),
+    ...axes(
+      'accSmooth',
+      3,
+      { signed: true, i: [ZERO, SIGNED_VB], p: [AVERAGE_2, SIGNED_VB] },
+      (n) => wave(s(36 + n), n === 2 ? 2048 : 0, 300, 10)
+    ),
+    ...axes(
+      'debug',
+      minor >= 5 ? 8 : 4,
+      { signed: true, i: [ZERO, SIGNED_VB], p: [AVERAGE_2, SIGNED_VB] },
+      (n) => wave(s(40 + n), 0, 700, 50)
+    ),
+    {
+      name: 'motor[0]',
+      signed: false,
+      i: [MIN, UNSIGNED_VB],
+      p: [AVERAGE_2, SIGNED_VB],
+      value: wave(s(50), 1400, 250, 15),
+    },
+    ...axes(
+      'motor',
+      4,
+      { signed: false, i: [MOTOR_0, SIGNED_VB], p: [AVERAGE_2, SIGNED_VB] },
+      (n) => wave(s(50 + n), 1400, 250, 15)
+    ).slice(1),
+    ...(minor >= 4
+      ? axes('eRPM', 4, { signed: false, i: [ZERO, UNSIGNED_VB], p: [PREVIOUS, SIGNED_VB] }, (n) =>
+          wave(s(55 + n), 1500, 400, 10)
+        )
+      : []),
+  ];
+}
+
+function headerLines(session: GoldenSession): string[] {
+  const { fields } = session;
+  const list = (values: (number | boolean)[]) => values.map(Number).join(',');
+  const names = fields.map((f) => f.name).join(',');
+  const slow = (value: number) => SLOW_FIELDS.map(() => value).join(',');
+  return [
+    'H Product:Blackbox flight data recorder by Nicholas Sherlock',
+    'H Data version:2',
+    `H I interval:${I_INTERVAL}`,
+    'H P interval:1/1',
+    'H P ratio:1',
+    `H Field I name:${names}`,
+    `H Field I signed:${list(fields.map((f) => f.signed))}`,
+    `H Field I predictor:${list(fields.map((f) => f.i[0]))}`,
+    `H Field I encoding:${list(fields.map((f) => f.i[1]))}`,
+    `H Field P predictor:${list(fields.map((f) => f.p[0]))}`,
+    `H Field P encoding:${list(fields.map((f) => f.p[1]))}`,
+    `H Field S name:${SLOW_FIELDS.join(',')}`,
+    `H Field S signed:${slow(0)}`,
+    `H Field S predictor:${slow(BBLPredictor.ZERO)}`,
+    `H Field S encoding:${slow(BBLEncoding.UNSIGNED_VB)}`,
+    'H Firmware type:Cleanflight',
+    `H Firmware revision:Betaflight ${session.revision} (c155f5830) STM32F7X2`,
+    'H Firmware date:Jan  1 2024 00:00:00',
+    'H Board information:GOLD STM32F7X2',
+    'H Craft name:GOLDEN',
+    `H minthrottle:${MINTHROTTLE}`,
+    'H maxthrottle:2000',
+    'H gyro_scale:0x3f800000',
+    'H motorOutput:48,2047',
+    `H vbatref:${VBATREF}`,
+    `H looptime:${LOOPTIME_US}`,
+    'H pid_process_denom:1',
+    'H debug_mode:6',
+  ];
+}
+
+/** The value the decoder predicts for field `n`, as Betaflight's encoder computes it */
+function predict(
+  predictor: BBLPredictor,
+  n: number,
+  current: number[],
+  previous: number[],
+  previous2: number[],
+  motor0: number
+): number {
+  switch (predictor) {
+    case BBLPredictor.ZERO:
+      return 0;
+    case BBLPredictor.PREVIOUS:
+      return previous[n];
+    case BBLPredictor.STRAIGHT_LINE:
+      return 2 * previous[n] - previous2[n];
+    case BBLPredictor.AVERAGE_2:
+      // C integer division truncates toward zero
+      return Math.trunc((previous[n] + previous2[n]) / 2);
+    case BBLPredictor.MINTHROTTLE:
+      return MINTHROTTLE;
+    case BBLPredictor.MOTOR_0:
+      return current[motor0];
+    case BBLPredictor.INCREMENT:
+      return previous[n] + 1;
+    case BBLPredictor.VBATREF:
+      return VBATREF;
+    default:
+      throw new Error(`Predictor ${predictor} is not used by the golden set`);
+  }
+}
+
+/** Residuals into bytes, grouping fields the way Betaflight's encoder does */
+function encodeResiduals(encodings: BBLEncoding[], residuals: number[]): number[] {
+  const bytes: number[] = [];
+  let n = 0;
+  while (n < encodings.length) {
+    const encoding = encodings[n];
+    if (encoding === BBLEncoding.TAG2_3S32) {
+      bytes.push(...ValueEncoder.encodeGroup(encoding, residuals.slice(n, n + 3), 3));
+      n += 3;
+      continue;
+    }
+    const groupSize =
+      encoding === BBLEncoding.TAG8_8SVB ? 8 : encoding === BBLEncoding.TAG8_4S16 ? 4 : 1;
+    let count = 1;
+    while (count < groupSize && encodings[n + count] === encoding) count++;
+    bytes.push(...ValueEncoder.encodeGroup(encoding, residuals.slice(n, n + count), count));
+    n += count;
+  }
+  return bytes;
+}
+
+/** Frames the reference CSV lists: all but the corrupt one and the rest of its I-frame interval */
+function validFrames(session: GoldenSession): number[] {
+  const { corruptFrame } = session;
+  const frames = Array.from({ length: session.frameCount }, (_, f) => f);
+  if (corruptFrame === undefined) return frames;
+  const nextIFrame = Math.ceil(corruptFrame / I_INTERVAL) * I_INTERVAL;
+  return frames.filter((f) => f < corruptFrame || f >= nextIFrame);
+}
+
+function buildLog(session: GoldenSession): Buffer {
+  const { fields } = session;
+  const motor0 = fields.findIndex((f) => f.name === 'motor[0]');
+  const timeIdx = fields.findIndex((f) => f.name === 'time');
+  const bytes: number[] = [
+    ...Buffer.from(headerLines(session).join('\n') + '\n'),
+    'S'.charCodeAt(0),
+    ...SLOW_VALUES.flatMap((v) => ValueEncoder.encode(BBLEncoding.UNSIGNED_VB, v)),
+  ];
+
+  let previous: number[] = [];
+  let previous2: number[] = [];
+  for (let frame = 0; frame < session.frameCount; frame++) {
+    const isIFrame = frame % I_INTERVAL === 0;
+    const current = fields.map((f) => f.value(frame));
+    const residuals = fields.map((f, n) => {
+      const [predictor] = isIFrame ? f.i : f.p;
+      return current[n] - predict(predictor, n, current, previous, previous2, motor0);
+    });
+    if (frame === session.corruptFrame) residuals[timeIdx] += TIME_DAMAGE_US;
+
+    bytes.push((isIFrame ? 'I' : 'P').charCodeAt(0));
+    bytes.push(
+      ...encodeResiduals(
+        fields.map((f) => (isIFrame ? f.i : f.p)[1]),
+        residuals
+      )
+    );
+
+    // The encoder keeps its own history; flash damage doesn't change it
+    previous2 = isIFrame ? current : previous;
+    previous = current;
+  }
+
+  // LOG_END event: marker(E) + type(0xFF) + "End of log\0"
+  bytes.push(0x45, 0xff, ...Buffer.from('End of log\0', 'ascii'));
+  return Buffer.from(bytes);
+}
+
+/** Reference CSV for a session in blackbox_decode's layout: raw units, `, `-separated */
+function buildCsv(session: GoldenSession): string {
+  const names = session.fields.map((f) => (f.name === 'time' ? 'time (us)' : f.name));
+  const lines = [[...names, ...SLOW_FIELDS].join(', ')];
+  for (const frame of validFrames(session)) {
+    lines.push([...session.fields.map((f) => f.value(frame)), ...SLOW_VALUES].join(', '));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function goldenLog(name: string, sessions: GoldenSession[]): GoldenFile[] {
+  return [
+    { name: `${name}.bbl`, data: Buffer.concat(sessions.map(buildLog)) },
+    ...sessions.map((session, i) => ({
+      name: `${name}.${String(i + 1).padStart(2, '0')}.csv`,
+      data: Buffer.from(buildCsv(session)),
+    })),
+  ];
+}
+
+/**
+ * The golden set: `<name>.bbl` logs with their `<name>.NN.csv` references.
+ * The 4.4 log holds two sessions; the corrupt log is 4.5 with frame 45's
+ * time damaged, so frames 45–63 have no reference rows.
+ */
+export function buildGoldenSet(): GoldenFile[] {
+  return [
+    ...goldenLog('bf43', [{ revision: '4.3.2', fields: betaflightFields(3, 1), frameCount: 100 }]),
+    ...goldenLog('bf44', [
+      { revision: '4.4.3', fields: betaflightFields(4, 2), frameCount: 100 },
+      { revision: '4.4.3', fields: betaflightFields(4, 3), frameCount: 70 },
+    ]),
+    ...goldenLog('bf45', [{ revision: '4.5.1', fields: betaflightFields(5, 4), frameCount: 100 }]),
+    ...goldenLog('bf45-corrupt', [
+      { revision: '4.5.1', fields: betaflightFields(5, 5), frameCount: 100, corruptFrame: 45 },
+    ]),
+  ];
+}
@@ -0,0 +1,94 @@
+/**
+ * Golden-file validation of the parser against reference CSVs.
+ *
+ * Parses every log in the golden directory and compares it with the CSVs
+ * next to it (see GoldenFileValidator). Skipped when the directory doesn't
+ * exist.
+ *
+ * To run:
+ *   npm run validate:parser
+ *
+ * Logs and references go in src/main/blackbox/__fixtures__/golden/ (or the
+ * directory in BBL_GOLDEN_DIR). Set BBL_GOLDEN_REPORT to a path to also write
+ * the JSON report there, BBL_GOLDEN_TOLERANCE to accept small differences.
+ *
+ * The committed golden set is synthetic: fixtures/golden.ts generates both the
+ * logs and their CSVs, so it only checks that the parser reads back the values
+ * that were encoded. It says nothing about agreement with blackbox_decode —
+ * point BBL_GOLDEN_DIR at logs with CSVs blackbox_decode wrote for that.
+ * Regenerate the synthetic set with:
+ *   BBL_GOLDEN_WRITE=1 npm run validate:parser
+ */
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GoldenFileValidator } from './GoldenFileValidator';
+import { buildGoldenSet } from './fixtures/golden';
+
+const COMMITTED_DIR = path.join(__dirname, '__fixtures__', 'golden');
+const GOLDEN_DIR = process.env.BBL_GOLDEN_DIR ?? COMMITTED_DIR;
+const REPORT_PATH = process.env.BBL_GOLDEN_REPORT;
+const TOLERANCE = Number(process.env.BBL_GOLDEN_TOLERANCE ?? 0);
+/** References generated by fixtures/golden.ts rather than written by a decoder */
+const SYNTHETIC = GOLDEN_DIR === COMMITTED_DIR;
+
+if (process.env.BBL_GOLDEN_WRITE) {
+  fs.mkdirSync(COMMITTED_DIR, { recursive: true });
+  for (const file of buildGoldenSet()) {
+    fs.writeFileSync(path.join(COMMITTED_DIR, file.name), file.data);
+  }
+}
+
+const describeGolden = fs.existsSync(GOLDEN_DIR) ? describe : describe.skip;
+
+describe('Committed synthetic golden set', () => {
+  it('holds the logs fixtures/golden.ts generates', () => {
+    for (const file of buildGoldenSet().filter((f) => f.name.endsWith('.bbl'))) {
+      const committed = fs.readFileSync(path.join(COMMITTED_DIR, file.name));
+      expect(committed.equals(file.data), file.name).toBe(true);
+    }
+  });
+});
+
+describeGolden(
+  SYNTHETIC
+    ? 'Synthetic golden set (self-consistency check, not blackbox_decode output)'
+    : `Golden-file validation against the reference CSVs in ${GOLDEN_DIR}`,
+  () => {
+    it(
+      SYNTHETIC
+        ? 'reads back the values each log was generated with'
+        : 'decodes every log like its reference CSVs',
+      async () => {
+        const report = await GoldenFileValidator.validateDirectory(GOLDEN_DIR, TOLERANCE);
+        if (REPORT_PATH) {
+          const referenceSource = SYNTHETIC ? 'synthetic (fixtures/golden.ts)' : GOLDEN_DIR;
+          fs.writeFileSync(REPORT_PATH, JSON.stringify({ referenceSource, ...report }, null, 2));
+        }
+
+        // One line per failing session, so the assertion diff says what broke
+        const failures = report.logs.flatMap((log) =>
+          log.error
+            ? [`${log.file}: ${log.error}`]
+            : log.sessions
+                .filter((s) => !s.passed)
+                .map((s) => {
+                  const fields = s.fields
+                    .filter((f) => f.maxAbsError > TOLERANCE)
+                    .map((f) => `${f.field} ±${f.maxAbsError}`);
+                  return (
+                    `${log.file} #${s.logNumber}: ` +
+                    (s.referenceFile ? '' : 'no reference CSV, ') +
+                    `${s.referenceOnlyFrames.count} reference-only / ${s.parsedOnlyFrames.count} parser-only frames` +
+                    (fields.length > 0 ? `, ${fields.join(', ')}` : '')
+                  );
+                })
+        );
+
+        expect(report.logs.length).toBeGreaterThan(0);
+        expect(failures).toEqual([]);
+      },
+      300_000
+    );
+  }
+);
@@ -664,6 +664,12 @@ async function runFullAnalysis(logId?: string, sessionIndex: number = 0) {
       throttleSpectrogram: r.throttleSpectrogram
         ? { bands: r.throttleSpectrogram.bands?.length }
         : null,
+      rpmSpectrogram: r.rpmSpectrogram
+        ? {
+            source: r.rpmSpectrogram.source,
+            harmonicResiduals: r.rpmSpectrogram.harmonicResiduals,
+          }
+        : null,
       groupDelay: r.groupDelay,
       warnings: [...headerWarnings, ...(r.warnings || [])],
       analysisTimeMs: r.analysisTimeMs,
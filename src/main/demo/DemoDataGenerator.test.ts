@@ -4,9 +4,12 @@ import {
   generatePIDDemoBBL,
   generateVerificationDemoBBL,
   generateCombinedDemoBBL,
+  generateCoaxialOctoBBL,
   progressiveFactor,
 } from './DemoDataGenerator';
 import { BlackboxParser } from '../blackbox/BlackboxParser';
+import { checkMechanicalHealth } from '../analysis/MechanicalHealthChecker';
+import { MIXER_MODE } from '@shared/constants';
 import { detectSteps } from '../analysis/StepDetector';
 import { detectThrottleDrops, analyzePropWash } from '../analysis/PropWashDetector';
 
@@ -133,6 +136,29 @@ describe('DemoDataGenerator', () => {
     });
   });
 
+  describe('generateCoaxialOctoBBL', () => {
+    it('logs 8 motors with one unbalanced coaxial pair', async () => {
+      const result = await BlackboxParser.parse(generateCoaxialOctoBBL());
+      expect(result.success).toBe(true);
+      const fd = result.sessions[0].flightData;
+      expect(fd.motor).toHaveLength(8);
+
+      const spectrum = {
+        frequencies: new Float64Array([100]),
+        magnitudes: new Float64Array([-50]),
+      };
+      const axis = { spectrum, noiseFloorDb: -45, peaks: [] };
+      const health = checkMechanicalHealth(
+        fd,
+        { roll: axis, pitch: axis, yaw: axis, overallLevel: 'low' },
+        MIXER_MODE.OCTOX8
+      );
+      const coaxIssues = health.issues.filter((i) => i.type === 'coaxial_imbalance');
+      expect(coaxIssues).toHaveLength(1);
+      expect(coaxIssues[0].message).toContain('pair 2/6');
+    });
+  });
+
   describe('generateVerificationDemoBBL', () => {
     it('generates a parseable BBL buffer', async () => {
       const buffer = generateVerificationDemoBBL();
@@ -6,7 +6,7 @@
  * - Produces meaningful results from FilterAnalyzer (FFT noise peaks)
  * - Produces meaningful results from PIDAnalyzer (step responses)
  *
- * Uses the same VB encoding functions as bf45-reference.ts fixture.
+ * Sessions are encoded by BlackboxWriter from generated flight data.
  *
  * IMPORTANT: iInterval must produce a sample rate matching the P interval header.
  * The parser computes sampleRateHz = 1e6 / (looptime * pInterval * pDenom).
@@ -15,26 +15,10 @@
  */
 
 import { logger } from '../utils/logger';
-
-// ── VB Encoding (matches bf45-reference.ts) ────────────────────────
-
-/** Encode unsigned value as variable-byte */
-function encodeUVB(value: number): number[] {
-  const bytes: number[] = [];
-  let v = value >>> 0;
-  while (v >= 0x80) {
-    bytes.push((v & 0x7f) | 0x80);
-    v >>>= 7;
-  }
-  bytes.push(v & 0x7f);
-  return bytes;
-}
-
-/** Encode signed value as zigzag VB */
-function encodeSVB(value: number): number[] {
-  const zigzag = (value << 1) ^ (value >> 31);
-  return encodeUVB(zigzag >>> 0);
-}
+import { BlackboxWriter } from '../blackbox/BlackboxWriter';
+import { HeaderParser } from '../blackbox/HeaderParser';
+import { StreamReader } from '../blackbox/StreamReader';
+import type { BlackboxFlightData, TimeSeries } from '@shared/types/blackbox.types';
 
 // ── Noise Generation ───────────────────────────────────────────────
 
@@ -103,7 +87,7 @@ function generateBroadbandSetpoint(
 // ── Demo BBL Builder ───────────────────────────────────────────────
 
 interface DemoSessionConfig {
-  /** Number of I-frames to generate */
+  /** Number of main frames to generate */
   frameCount: number;
   /** Base gyro values [roll, pitch, yaw] in deg/s */
   gyroBase: [number, number, number];
@@ -130,6 +114,10 @@ interface DemoSessionConfig {
   continuousSetpoint?: boolean;
   /** Amplitude of continuous setpoint movement in deg/s (default 150) */
   continuousSetpointAmplitude?: number;
+  /** Number of motor[n] fields to log (default 0 — no motor data) */
+  motorCount?: number;
+  /** Per-motor output multiplier (default 1.0) — e.g. lower props of a coaxial frame work harder */
+  motorOutputScale?: number[];
 }
 
 /** Step event for gyro response simulation */
@@ -310,9 +298,9 @@ function computeThrottle(timeSec: number, durationSec: number): number {
 /**
  * Build a single BBL session with realistic noise and optional step inputs.
  *
- * This generates only I-frames (no P-frames) for simplicity — the parser
- * handles I-only logs just fine, and the analysis engines work on the
- * extracted TimeSeries data regardless of frame type.
+ * The generated flight data is encoded by BlackboxWriter, which writes
+ * I-frames and P-frames with the predictors and encodings declared in the
+ * header below.
  *
  * The iInterval MUST match pDiv (pInterval * pDenom from the P interval header)
  * so that BlackboxParser.sampleRateHz equals the actual data rate.
@@ -333,9 +321,10 @@ function buildDemoSession(config: DemoSessionConfig): Buffer {
     axisAsymmetry = 1.0,
     continuousSetpoint = false,
     continuousSetpointAmplitude = 150,
+    motorCount = 0,
+    motorOutputScale = [],
   } = config;
 
-  const parts: Buffer[] = [];
   const looptime = 125; // µs (8 kHz)
   const sampleRateHz = 1_000_000 / (looptime * iInterval);
 
@@ -379,17 +368,27 @@ function buildDemoSession(config: DemoSessionConfig): Buffer {
     'H dyn_notch_q:300',
     'H dyn_notch_min_hz:100',
     'H dyn_notch_max_hz:600',
-    // Field definitions
-    'H Field I name:loopIteration,time,gyroADC[0],gyroADC[1],gyroADC[2],setpoint[0],setpoint[1],setpoint[2],setpoint[3]',
-    'H Field I signed:0,0,1,1,1,1,1,1,1',
-    'H Field I predictor:0,0,0,0,0,0,0,0,0',
-    'H Field I encoding:1,1,0,0,0,0,0,0,0',
-    'H Field P name:loopIteration,time,gyroADC[0],gyroADC[1],gyroADC[2],setpoint[0],setpoint[1],setpoint[2],setpoint[3]',
-    'H Field P signed:0,0,1,1,1,1,1,1,1',
-    'H Field P predictor:1,1,1,1,1,1,1,1,1',
-    'H Field P encoding:0,0,0,0,0,0,0,0,0',
   ];
-  parts.push(Buffer.from(headers.join('\n') + '\n'));
+  if (motorCount > 0) headers.push('H motorOutput:48,2047');
+
+  // Field definitions — motor[n] fields (unsigned VB) follow the setpoints
+  const motorFields = Array.from({ length: motorCount }, (_, m) => `motor[${m}]`);
+  const fieldNames = [
+    'loopIteration,time,gyroADC[0],gyroADC[1],gyroADC[2],setpoint[0],setpoint[1],setpoint[2],setpoint[3]',
+    ...motorFields,
+  ].join(',');
+  const motorDefs = (value: string) => motorFields.map(() => `,${value}`).join('');
+  headers.push(
+    `H Field I name:${fieldNames}`,
+    `H Field I signed:0,0,1,1,1,1,1,1,1${motorDefs('0')}`,
+    `H Field I predictor:0,0,0,0,0,0,0,0,0${motorDefs('0')}`,
+    `H Field I encoding:1,1,0,0,0,0,0,0,0${motorDefs('1')}`,
+    `H Field P name:${fieldNames}`,
+    `H Field P signed:0,0,1,1,1,1,1,1,1${motorDefs('0')}`,
+    `H Field P predictor:1,1,1,1,1,1,1,1,1${motorDefs('1')}`,
+    `H Field P encoding:0,0,0,0,0,0,0,0,0${motorDefs('0')}`
+  );
+  const header = HeaderParser.parse(new StreamReader(Buffer.from(headers.join('\n') + '\n')));
 
   // ── Step input schedule ─────────────────────────────────────────
   // Generate step events spread across the session for PID analysis.
@@ -477,15 +476,17 @@ function buildDemoSession(config: DemoSessionConfig): Buffer {
 
   // ── Frame generation ────────────────────────────────────────────
   const durationSec = frameCount / sampleRateHz;
-  for (let f = 0; f < frameCount; f++) {
-    const frame: number[] = [0x49]; // I-frame marker
-
-    const loopIter = f * iInterval;
-    const time = loopIter * looptime; // µs
-    const timeSec = time / 1_000_000;
+  const time = Float64Array.from(
+    { length: frameCount },
+    (_, f) => (f * iInterval * looptime) / 1_000_000
+  );
+  const channel = () => new Float64Array(frameCount);
+  const gyro = [channel(), channel(), channel()];
+  const setpoint = [channel(), channel(), channel(), channel()];
+  const motor = Array.from({ length: motorCount }, channel);
 
-    frame.push(...encodeUVB(loopIter));
-    frame.push(...encodeUVB(time));
+  for (let f = 0; f < frameCount; f++) {
+    const timeSec = time[f];
 
     // --- Gyro values: base + broadband noise + harmonic noise ---
     const gyroValues: number[] = [];
@@ -570,38 +571,62 @@ function buildDemoSession(config: DemoSessionConfig): Buffer {
     }
 
     // Round gyro values after all contributions
-    frame.push(...encodeSVB(Math.round(gyroValues[0])));
-    frame.push(...encodeSVB(Math.round(gyroValues[1])));
-    frame.push(...encodeSVB(Math.round(gyroValues[2])));
+    for (let axis = 0; axis < 3; axis++) {
+      gyro[axis][f] = Math.round(gyroValues[axis]);
+    }
 
     // --- Setpoint ---
     if (broadbandSetpoint) {
       // Continuous broadband setpoint (Flash Tune — normal flying)
-      frame.push(...encodeSVB(Math.round(broadbandSetpoint[0][f])));
-      frame.push(...encodeSVB(Math.round(broadbandSetpoint[1][f])));
-      frame.push(...encodeSVB(Math.round(broadbandSetpoint[2][f])));
+      for (let axis = 0; axis < 3; axis++) {
+        setpoint[axis][f] = Math.round(broadbandSetpoint[axis][f]);
+      }
     } else {
       // Discrete step inputs (PID Tune — specific maneuvers)
-      const setpoints = [0, 0, 0]; // roll, pitch, yaw
       const activeStep = steps.find((s) => f >= s.startFrame && f < s.endFrame);
       if (activeStep) {
-        setpoints[activeStep.axis] = activeStep.magnitude;
+        setpoint[activeStep.axis][f] = activeStep.magnitude;
       }
-      frame.push(...encodeSVB(setpoints[0]));
-      frame.push(...encodeSVB(setpoints[1]));
-      frame.push(...encodeSVB(setpoints[2]));
     }
 
     // Throttle: multi-phase profile for realistic segment detection
-    frame.push(...encodeSVB(Math.round(computeThrottle(timeSec, durationSec))));
-
-    parts.push(Buffer.from(frame));
+    const throttle = computeThrottle(timeSec, durationSec);
+    setpoint[3][f] = Math.round(throttle);
+
+    // --- Motor outputs: follow throttle (1000-2000 → 48-2047) with small jitter ---
+    for (let m = 0; m < motorCount; m++) {
+      const base = 48 + ((throttle - 1000) / 1000) * 1999;
+      const output = base * (motorOutputScale[m] ?? 1.0) + gaussianNoise(10);
+      motor[m][f] = Math.max(0, Math.min(2047, Math.round(output)));
+    }
   }
 
-  // ── LOG_END event ───────────────────────────────────────────────
-  parts.push(Buffer.from([0x45, 0xff, ...Buffer.from('End of log\0', 'ascii')]));
-
-  return Buffer.concat(parts);
+  // Fields the header doesn't log (PID terms, debug) are left out by the writer
+  const series = (values: Float64Array): TimeSeries => ({ time, values });
+  const zero = series(channel());
+  const unlogged: [TimeSeries, TimeSeries, TimeSeries] = [zero, zero, zero];
+  const flightData: BlackboxFlightData = {
+    gyro: gyro.map(series) as BlackboxFlightData['gyro'],
+    setpoint: setpoint.map(series) as BlackboxFlightData['setpoint'],
+    pidP: unlogged,
+    pidI: unlogged,
+    pidD: unlogged,
+    pidF: unlogged,
+    motor: motor.map(series),
+    debug: [],
+    sampleRateHz,
+    durationSeconds: durationSec,
+    frameCount,
+  };
+
+  return BlackboxWriter.encodeSession({
+    index: 0,
+    header,
+    flightData,
+    events: [{ type: 'log_end', time: time[frameCount - 1] }],
+    corruptedFrameCount: 0,
+    warnings: [],
+  });
 }
 
 // ── Progressive noise reduction ────────────────────────────────────
@@ -634,7 +659,7 @@ export function progressiveFactor(cycle: number): number {
  * Generate a demo BBL buffer for filter analysis (pre-tuning flight).
  *
  * Contains one session with:
- * - ~10 seconds of flight data at 4000 Hz (I-frame only, iInterval=2)
+ * - ~10 seconds of flight data at 4000 Hz (iInterval=2)
  * - Noise floor dependent on cycle (high on first, lower after tuning)
  * - Motor harmonic at ~160 Hz with 2nd harmonic at ~320 Hz
  * - Electrical noise at ~600 Hz
@@ -664,7 +689,7 @@ export function generateFilterDemoBBL(cycle = 0): Buffer {
  * Generate a demo BBL buffer for PID analysis (post-filter flight).
  *
  * Contains one session with:
- * - ~14 seconds of flight data at 4000 Hz (I-frame only, iInterval=2)
+ * - ~14 seconds of flight data at 4000 Hz (iInterval=2)
  * - Reduced noise floor (simulates applied filter tuning)
  * - 18 step inputs across all 3 axes (for step response detection)
  * - Cycle-dependent second-order step response model (cycle 0: ~35% overshoot → cycle 4: ~3%)
@@ -696,7 +721,7 @@ export function generatePIDDemoBBL(cycle = 0): Buffer {
  * Generate a demo BBL buffer for Filter/PID Tune verification flight (post-all tuning).
  *
  * Contains one session with:
- * - ~10 seconds of hover data at 4000 Hz (I-frame only, iInterval=2)
+ * - ~10 seconds of hover data at 4000 Hz (iInterval=2)
  * - Low noise floor (simulates effect of applied filters + PID tuning)
  * - No step inputs (hover only, same structure as filter flight)
  * - Multi-phase throttle profile for segment detection
@@ -774,7 +799,7 @@ export function generateFlashVerificationDemoBBL(cycle = 0): Buffer {
  * system model, providing rich broadband excitation for Wiener deconvolution.
  *
  * Contains one session with:
- * - ~20 seconds of flight data at 4000 Hz (I-frame only, iInterval=2)
+ * - ~20 seconds of flight data at 4000 Hz (iInterval=2)
  * - Cycle-dependent noise floor (for filter analysis from hover segments)
  * - Continuous broadband setpoint (for transfer function estimation)
  * - Cycle-dependent tracking quality (damping, bandwidth, latency)
@@ -907,3 +932,25 @@ export function generateWindyFlightBBL(): Buffer {
     responseParams: computeCycleResponseParams(0),
   });
 }
+
+/**
+ * Generate a BBL from a coaxial X8 octocopter (8 motors, upper 0-3, lower 4-7).
+ * Lower motors run ~12% harder than their upper partners, except pair 2/6
+ * where the lower motor runs ~40% harder — triggers coaxial_imbalance.
+ */
+export function generateCoaxialOctoBBL(): Buffer {
+  logger.info('[DEMO] Generating coaxial X8 BBL (8 motors, one unbalanced pair)...');
+  return buildDemoSession({
+    frameCount: 40000, // 10s
+    gyroBase: [2, -1, 0],
+    noiseAmplitude: 6,
+    motorHarmonicHz: 120, // Larger props → lower motor harmonic
+    motorHarmonicAmplitude: 12,
+    electricalNoiseHz: 600,
+    electricalNoiseAmplitude: 2,
+    injectSteps: false,
+    iInterval: 2,
+    motorCount: 8,
+    motorOutputScale: [1.0, 1.0, 1.0, 1.0, 1.12, 1.4, 1.12, 1.12],
+  });
+}
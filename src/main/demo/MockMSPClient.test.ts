@@ -6,6 +6,7 @@ import {
   DEMO_FC_INFO,
   DEMO_FLIGHT,
 } from './MockMSPClient';
+import { parseGetOutput } from '@shared/utils/cliConsole';
 
 describe('MockMSPClient', () => {
   let client: MockMSPClient;
@@ -166,6 +167,23 @@ describe('MockMSPClient', () => {
       expect(config.dterm_lpf1_static_hz).toBe(150);
       expect(config.rpm_filter_harmonics).toBe(3);
     });
+
+    it('reads back filter settings written via MSP', async () => {
+      await client.setFilterConfiguration({ gyro_lpf1_static_hz: 200, dyn_notch_count: 2 });
+      const config = await client.getFilterConfiguration();
+      expect(config.gyro_lpf1_static_hz).toBe(200);
+      expect(config.dyn_notch_count).toBe(2);
+    });
+  });
+
+  describe('rates configuration', () => {
+    it('reads back rates written via MSP', async () => {
+      await client.setRatesConfiguration({ roll_srate: 180, rates_type: 0 });
+      const config = await client.getRatesConfiguration();
+      expect(config.ratesType).toBe('BETAFLIGHT');
+      expect(config.roll.rate).toBe(180);
+      expect(config.pitch.rate).toBe(200);
+    });
   });
 
   describe('feedforward configuration', () => {
@@ -204,11 +222,42 @@ describe('MockMSPClient', () => {
       expect(diff).toContain('set p_yaw = 48');
     });
 
+    it('exportCLIDiff shows angle/horizon only when the level controller changes', async () => {
+      const current = await client.getPIDConfiguration();
+      expect(current.level).toEqual({ P: 50, I: 75, D: 75 });
+
+      await client.setPIDConfiguration({ ...current, level: { P: 60, I: 75, D: 75 } });
+      const diff = await client.exportCLIDiff();
+      expect(diff).toContain('set angle_p_gain = 60');
+      expect(diff).not.toContain('horizon_level_strength');
+      expect((await client.getPIDConfiguration()).level!.P).toBe(60);
+    });
+
     it('exportCLIDiff adds new settings not in base diff', async () => {
       await client.connection.sendCLICommand('set rpm_filter_min_hz = 80');
       const diff = await client.exportCLIDiff();
       expect(diff).toContain('set rpm_filter_min_hz = 80');
     });
+
+    it('runCLICommand answers get from the current config and stays in CLI', async () => {
+      const output = await client.runCLICommand('get gyro_lpf');
+      expect(output).toBe('gyro_lpf1_static_hz = 250\ngyro_lpf2_static_hz = 500');
+      expect(client.connection.isInCLI()).toBe(true);
+
+      await client.exitCLIConsole();
+      expect(client.connection.isInCLI()).toBe(false);
+    });
+
+    it('exportSettingsSchema reports ranges and current values in get format', async () => {
+      await client.connection.sendCLICommand('set gyro_lpf1_static_hz = 180');
+
+      const settings = parseGetOutput(await client.exportSettingsSchema());
+      const byName = new Map(settings.map((s) => [s.name, s]));
+
+      expect(byName.get('gyro_lpf1_static_hz')).toMatchObject({ value: '180', min: 0, max: 1000 });
+      expect(byName.get('p_roll')?.scope).toBe('profile');
+      expect(byName.get('rates_type')?.allowedValues).toContain('ACTUAL');
+    });
   });
 
   describe('blackbox download', () => {
@@ -596,6 +645,27 @@ describe('MockMSPClient', () => {
     });
   });
 
+  describe('bench motor test', () => {
+    it('reports 4 motors and vibrates only while motors spin', async () => {
+      expect(await client.getMotorValues()).toEqual([1000, 1000, 1000, 1000, 0, 0, 0, 0]);
+
+      const spread = async () => {
+        const values: number[] = [];
+        for (let i = 0; i < 50; i++) {
+          const p = client.getRawImu();
+          await vi.advanceTimersByTimeAsync(2);
+          values.push((await p).gyro[0]);
+        }
+        return Math.max(...values) - Math.min(...values);
+      };
+
+      expect(await spread()).toBeLessThanOrEqual(1);
+      await client.setMotorValues([1000, 1000, 1200, 1000]);
+      expect(await client.getMotorValues()).toEqual([1000, 1000, 1200, 1000, 0, 0, 0, 0]);
+      expect(await spread()).toBeGreaterThan(5);
+    });
+  });
+
   describe('PID profile selection', () => {
     it('getStatusEx returns default profile 0 with count 4', async () => {
       const result = await client.getStatusEx();
@@ -14,11 +14,13 @@ import type {
 } from '@shared/types/common.types';
 import type {
   PIDConfiguration,
+  PIDTerm,
   FeedforwardConfiguration,
   RatesConfiguration,
 } from '@shared/types/pid.types';
 import type { CurrentFilterSettings } from '@shared/types/analysis.types';
 import type { BlackboxInfo } from '@shared/types/blackbox.types';
+import type { RawImuSample } from '@shared/types/bench.types';
 import {
   generateFilterDemoBBL,
   generatePIDDemoBBL,
@@ -28,8 +30,10 @@ import {
   generatePoorQualityBBL,
   generateMechanicalIssueBBL,
   generateWindyFlightBBL,
+  generateCoaxialOctoBBL,
 } from './DemoDataGenerator';
-import { TUNING_TYPE } from '@shared/constants';
+import { MIXER_MODE, TUNING_TYPE } from '@shared/constants';
+import { RATES_TYPES } from '@shared/utils/rateCurves';
 import type { TuningType } from '@shared/types/tuning.types';
 import { logger } from '../utils/logger';
 
@@ -54,6 +58,8 @@ export interface StressScenario {
   flightType: DemoFlightPhase;
   /** Custom BBL generator to use instead of the default */
   generator: BBLGenerator;
+  /** Mixer the simulated FC reports while this scenario's log is on flash (default QUADX) */
+  mixerMode?: number;
 }
 
 /** Pre-built stress scenarios for common edge cases */
@@ -61,10 +67,17 @@ export const STRESS_SCENARIOS = {
   poorQuality: { flightType: DEMO_FLIGHT.FILTER, generator: generatePoorQualityBBL },
   mechanical: { flightType: DEMO_FLIGHT.FILTER, generator: generateMechanicalIssueBBL },
   windy: { flightType: DEMO_FLIGHT.FILTER, generator: generateWindyFlightBBL },
+  coaxialOcto: {
+    flightType: DEMO_FLIGHT.FILTER,
+    generator: generateCoaxialOctoBBL,
+    mixerMode: MIXER_MODE.OCTOX8,
+  },
 } satisfies Record<string, StressScenario>;
 
 /** Demo FC serial number — used for profile matching */
 export const DEMO_FC_SERIAL = 'DEMO-0001-0002-0003';
+/** Port the demo FC "connects" on — also its connection ID */
+export const DEMO_PORT_PATH = '/dev/demo';
 
 /** Realistic CLI diff for a 5" freestyle quad (BF 4.5 defaults + common tweaks) */
 export const DEMO_CLI_DIFF = `# diff all
@@ -127,6 +140,8 @@ const DEMO_PID_CONFIG: PIDConfiguration = {
   roll: { P: 50, I: 88, D: 45 },
   pitch: { P: 52, I: 92, D: 48 },
   yaw: { P: 45, I: 90, D: 0 },
+  level: { P: 50, I: 75, D: 75 },
+  mag: { P: 40, I: 0, D: 0 },
 };
 
 /** BF 4.5 default filter settings */
@@ -141,6 +156,11 @@ const DEMO_FILTER_CONFIG: CurrentFilterSettings = {
   rpm_filter_min_hz: 100,
   dyn_notch_count: 3,
   dyn_notch_q: 300,
+  gyro_lpf1_dyn_min_hz: 0,
+  gyro_lpf1_dyn_max_hz: 0,
+  dterm_lpf1_dyn_min_hz: 0,
+  dterm_lpf1_dyn_max_hz: 0,
+  dterm_lpf1_dyn_expo: 5,
 };
 
 /** Demo feedforward config */
@@ -155,6 +175,73 @@ const DEMO_FF_CONFIG: FeedforwardConfiguration = {
   maxRateLimit: 100,
 };
 
+/** Demo rates (Actual) */
+const DEMO_RATES_CONFIG: RatesConfiguration = {
+  ratesType: 'ACTUAL',
+  roll: { rcRate: 15, rate: 200, rcExpo: 56, rateLimit: 1998 },
+  pitch: { rcRate: 15, rate: 200, rcExpo: 56, rateLimit: 1998 },
+  yaw: { rcRate: 12, rate: 150, rcExpo: 32, rateLimit: 1998 },
+};
+
+/**
+ * BF 4.5 limits for the settings the analyzers recommend, as
+ * [name, "min - max" or allowed values, default, scope].
+ */
+const DEMO_SETTINGS_SCHEMA: [string, string, string, 'master' | 'profile' | 'rateprofile'][] = [
+  ['gyro_lpf1_static_hz', '0 - 1000', '250', 'master'],
+  ['gyro_lpf2_static_hz', '0 - 1000', '500', 'master'],
+  ['gyro_lpf1_dyn_min_hz', '0 - 1000', '0', 'master'],
+  ['gyro_lpf1_dyn_max_hz', '0 - 1000', '0', 'master'],
+  ['dyn_notch_count', '0 - 7', '3', 'master'],
+  ['dyn_notch_q', '1 - 1000', '300', 'master'],
+  ['dyn_notch_min_hz', '20 - 250', '100', 'master'],
+  ['dyn_notch_max_hz', '200 - 1000', '600', 'master'],
+  ['rpm_filter_harmonics', '0 - 3', '3', 'master'],
+  ['rpm_filter_q', '250 - 3000', '500', 'master'],
+  ['rpm_filter_min_hz', '30 - 200', '100', 'master'],
+  ['dyn_idle_min_rpm', '0 - 200', '0', 'master'],
+  ['rc_smoothing_auto_factor', '0 - 250', '30', 'master'],
+  ['dterm_lpf1_static_hz', '0 - 1000', '150', 'profile'],
+  ['dterm_lpf2_static_hz', '0 - 1000', '150', 'profile'],
+  ['dterm_lpf1_dyn_min_hz', '0 - 1000', '0', 'profile'],
+  ['dterm_lpf1_dyn_max_hz', '0 - 1000', '0', 'profile'],
+  ['dterm_lpf1_dyn_expo', '0 - 10', '5', 'profile'],
+  ...(['roll', 'pitch', 'yaw'] as const).flatMap((axis): [string, string, string, 'profile'][] => [
+    [`p_${axis}`, '0 - 250', String(DEMO_PID_CONFIG[axis].P), 'profile'],
+    [`i_${axis}`, '0 - 250', String(DEMO_PID_CONFIG[axis].I), 'profile'],
+    [`d_${axis}`, '0 - 250', String(DEMO_PID_CONFIG[axis].D), 'profile'],
+    [`feedforward_${axis}`, '0 - 1000', '120', 'profile'],
+  ]),
+  ['angle_p_gain', '0 - 200', '50', 'profile'],
+  ['horizon_level_strength', '0 - 100', '75', 'profile'],
+  ['horizon_transition', '0 - 200', '75', 'profile'],
+  ['feedforward_transition', '0 - 100', '0', 'profile'],
+  ['feedforward_boost', '0 - 50', '15', 'profile'],
+  ['feedforward_smooth_factor', '0 - 95', '37', 'profile'],
+  ['feedforward_jitter_factor', '0 - 20', '7', 'profile'],
+  ['feedforward_max_rate_limit', '0 - 200', '100', 'profile'],
+  ['feedforward_averaging', 'OFF, 2_POINT, 3_POINT, 4_POINT', 'OFF', 'profile'],
+  ['thrust_linear', '0 - 150', '0', 'profile'],
+  ['simplified_dmax_gain', '0 - 200', '100', 'profile'],
+  ['anti_gravity_gain', '0 - 250', '80', 'profile'],
+  ['iterm_relax_cutoff', '1 - 50', '15', 'profile'],
+  ['pidsum_limit', '100 - 1000', '500', 'profile'],
+  ['pidsum_limit_yaw', '100 - 1000', '400', 'profile'],
+  ['tpa_mode', 'PD, D', 'D', 'profile'],
+  ['tpa_rate', '0 - 100', '65', 'profile'],
+  ['tpa_breakpoint', '750 - 2250', '1350', 'profile'],
+  ['tpa_low_always', 'OFF, ON', 'OFF', 'profile'],
+  ['rates_type', 'BETAFLIGHT, RACEFLIGHT, KISS, ACTUAL, QUICK', 'ACTUAL', 'rateprofile'],
+  ...(['roll', 'pitch', 'yaw'] as const).flatMap(
+    (axis): [string, string, string, 'rateprofile'][] => [
+      [`${axis}_rc_rate`, '1 - 255', String(DEMO_RATES_CONFIG[axis].rcRate), 'rateprofile'],
+      [`${axis}_expo`, '0 - 100', String(DEMO_RATES_CONFIG[axis].rcExpo), 'rateprofile'],
+      [`${axis}_srate`, '0 - 255', String(DEMO_RATES_CONFIG[axis].rate), 'rateprofile'],
+      [`${axis}_rate_limit`, '200 - 1998', '1998', 'rateprofile'],
+    ]
+  ),
+];
+
 /**
  * Mock MSPConnection that simulates CLI mode operations.
  */
@@ -245,6 +332,12 @@ export class MockMSPClient extends EventEmitter {
    * Only applies to the matching flight phase.
    */
   private _stressSchedule = new Map<number, StressScenario>();
+  /** Mixer reported via getMixerMode() — follows the stress scenario of the last flight */
+  private _mixerMode: number = MIXER_MODE.QUADX;
+  /** Bench motor outputs set via setMotorValues() (1000 = stopped) */
+  private _motorValues: number[] = Array(8).fill(1000);
+  /** Mag PID — not part of the CLI diff, so kept outside appliedSettings */
+  private _magPID: PIDTerm = { ...DEMO_PID_CONFIG.mag! };
 
   constructor() {
     super();
@@ -284,7 +377,7 @@ export class MockMSPClient extends EventEmitter {
   getConnectionStatus(): ConnectionStatus {
     return {
       connected: this._connected,
-      portPath: this._connected ? '/dev/demo' : undefined,
+      portPath: this._connected ? DEMO_PORT_PATH : undefined,
       fcInfo: this._connected ? DEMO_FC_INFO : undefined,
     };
   }
@@ -315,7 +408,7 @@ export class MockMSPClient extends EventEmitter {
     this.emit('connected');
     this.emit('connection-changed', {
       connected: true,
-      portPath: '/dev/demo',
+      portPath: DEMO_PORT_PATH,
       fcInfo: DEMO_FC_INFO,
     });
     logger.info('[DEMO] FC connected');
@@ -331,8 +424,10 @@ export class MockMSPClient extends EventEmitter {
     this._nextFlightType = DEMO_FLIGHT.FILTER;
     this._lastSessionType = TUNING_TYPE.FILTER;
     this.connection.appliedSettings.clear();
+    this._magPID = { ...DEMO_PID_CONFIG.mag! };
     this._flashHasData = false;
     this._demoBBLData = null;
+    this._mixerMode = MIXER_MODE.QUADX;
     this._pidProfileIndex = 0;
     this._stressSchedule.clear();
     logger.info('[DEMO] Demo state reset — starting from cycle 0');
@@ -408,7 +503,7 @@ export class MockMSPClient extends EventEmitter {
   async listPorts(): Promise<PortInfo[]> {
     return [
       {
-        path: '/dev/demo',
+        path: DEMO_PORT_PATH,
         manufacturer: 'Demo FC (offline mode)',
         vendorId: '0x0483',
         productId: '0x5740',
@@ -437,7 +532,7 @@ export class MockMSPClient extends EventEmitter {
         this.emit('connected');
         this.emit('connection-changed', {
           connected: true,
-          portPath: '/dev/demo',
+          portPath: DEMO_PORT_PATH,
           fcInfo: DEMO_FC_INFO,
         });
       }, 1500);
@@ -509,9 +604,41 @@ export class MockMSPClient extends EventEmitter {
       rpm_filter_min_hz: intOr(s.get('rpm_filter_min_hz'), DEMO_FILTER_CONFIG.rpm_filter_min_hz!),
       dyn_notch_count: intOr(s.get('dyn_notch_count'), DEMO_FILTER_CONFIG.dyn_notch_count!),
       dyn_notch_q: intOr(s.get('dyn_notch_q'), DEMO_FILTER_CONFIG.dyn_notch_q!),
+      gyro_lpf1_dyn_min_hz: intOr(
+        s.get('gyro_lpf1_dyn_min_hz'),
+        DEMO_FILTER_CONFIG.gyro_lpf1_dyn_min_hz!
+      ),
+      gyro_lpf1_dyn_max_hz: intOr(
+        s.get('gyro_lpf1_dyn_max_hz'),
+        DEMO_FILTER_CONFIG.gyro_lpf1_dyn_max_hz!
+      ),
+      dterm_lpf1_dyn_min_hz: intOr(
+        s.get('dterm_lpf1_dyn_min_hz'),
+        DEMO_FILTER_CONFIG.dterm_lpf1_dyn_min_hz!
+      ),
+      dterm_lpf1_dyn_max_hz: intOr(
+        s.get('dterm_lpf1_dyn_max_hz'),
+        DEMO_FILTER_CONFIG.dterm_lpf1_dyn_max_hz!
+      ),
+      dterm_lpf1_dyn_expo: intOr(
+        s.get('dterm_lpf1_dyn_expo'),
+        DEMO_FILTER_CONFIG.dterm_lpf1_dyn_expo!
+      ),
     };
   }
 
+  async setFilterConfiguration(changes: Record<string, number>): Promise<void> {
+    logger.info('[DEMO] Filter config set via MSP:', JSON.stringify(changes));
+    // Same store as CLI `set` so read-back and diff generation see the change
+    for (const [setting, value] of Object.entries(changes)) {
+      this.connection.appliedSettings.set(setting, String(Math.round(value)));
+    }
+  }
+
+  async saveToEeprom(): Promise<void> {
+    logger.info('[DEMO] EEPROM write (simulated)');
+  }
+
   async getPIDConfiguration(): Promise<PIDConfiguration> {
     // Return current state reflecting any applied changes
     const s = this.connection.appliedSettings;
@@ -531,6 +658,12 @@ export class MockMSPClient extends EventEmitter {
         I: intOr(s.get('i_yaw'), DEMO_PID_CONFIG.yaw.I),
         D: intOr(s.get('d_yaw'), DEMO_PID_CONFIG.yaw.D),
       },
+      level: {
+        P: intOr(s.get('angle_p_gain'), DEMO_PID_CONFIG.level!.P),
+        I: intOr(s.get('horizon_level_strength'), DEMO_PID_CONFIG.level!.I),
+        D: intOr(s.get('horizon_transition'), DEMO_PID_CONFIG.level!.D),
+      },
+      mag: { ...this._magPID },
     };
   }
 
@@ -548,6 +681,19 @@ export class MockMSPClient extends EventEmitter {
       this.connection.appliedSettings.set(pidMap[axis].I, String(vals.I));
       this.connection.appliedSettings.set(pidMap[axis].D, String(vals.D));
     }
+    // Level only lands in the diff when it actually changes, like a real `diff`
+    if (config.level) {
+      const current = (await this.getPIDConfiguration()).level!;
+      const levelMap = { P: 'angle_p_gain', I: 'horizon_level_strength', D: 'horizon_transition' };
+      for (const term of ['P', 'I', 'D'] as const) {
+        if (config.level[term] !== current[term]) {
+          this.connection.appliedSettings.set(levelMap[term], String(config.level[term]));
+        }
+      }
+    }
+    if (config.mag) {
+      this._magPID = { ...config.mag };
+    }
   }
 
   async getFeedforwardConfiguration(): Promise<FeedforwardConfiguration> {
@@ -565,18 +711,66 @@ export class MockMSPClient extends EventEmitter {
   }
 
   async getRatesConfiguration(): Promise<RatesConfiguration> {
+    // Return current state reflecting any applied changes
+    const s = this.connection.appliedSettings;
+    const axisRates = (axis: 'roll' | 'pitch' | 'yaw') => ({
+      rcRate: intOr(s.get(`${axis}_rc_rate`), DEMO_RATES_CONFIG[axis].rcRate),
+      rate: intOr(s.get(`${axis}_srate`), DEMO_RATES_CONFIG[axis].rate),
+      rcExpo: intOr(s.get(`${axis}_expo`), DEMO_RATES_CONFIG[axis].rcExpo),
+      rateLimit: intOr(s.get(`${axis}_rate_limit`), DEMO_RATES_CONFIG[axis].rateLimit),
+    });
+    const typeIndex = intOr(s.get('rates_type'), RATES_TYPES.indexOf(DEMO_RATES_CONFIG.ratesType));
     return {
-      ratesType: 'ACTUAL',
-      roll: { rcRate: 15, rate: 200, rcExpo: 56, rateLimit: 1998 },
-      pitch: { rcRate: 15, rate: 200, rcExpo: 56, rateLimit: 1998 },
-      yaw: { rcRate: 12, rate: 150, rcExpo: 32, rateLimit: 1998 },
+      ratesType: RATES_TYPES[typeIndex] ?? DEMO_RATES_CONFIG.ratesType,
+      roll: axisRates('roll'),
+      pitch: axisRates('pitch'),
+      yaw: axisRates('yaw'),
     };
   }
 
+  async setRatesConfiguration(changes: Record<string, number>): Promise<void> {
+    logger.info('[DEMO] Rates config set via MSP:', JSON.stringify(changes));
+    for (const [setting, value] of Object.entries(changes)) {
+      this.connection.appliedSettings.set(setting, String(Math.round(value)));
+    }
+  }
+
   async getPidProcessDenom(): Promise<number> {
     return 2; // 4kHz PID loop (8kHz gyro / 2)
   }
 
+  async getMixerMode(): Promise<number> {
+    return this._mixerMode;
+  }
+
+  async getMotorValues(): Promise<number[]> {
+    return this._motorValues.map((v, i) => (i < 4 ? v : 0));
+  }
+
+  async setMotorValues(values: number[]): Promise<void> {
+    this._motorValues = Array.from({ length: 8 }, (_, i) => values[i] ?? 1000);
+  }
+
+  /**
+   * Simulated MSP_RAW_IMU over a ~400 Hz link. Spinning motors add an
+   * aliased motor tone plus broadband roughness; motor 3 has a worn bearing
+   * so the bench check has something to find.
+   */
+  async getRawImu(): Promise<RawImuSample> {
+    await new Promise((r) => setTimeout(r, 2));
+    const t = Date.now() / 1000;
+    let tone = 0;
+    let roughness = 0.5;
+    for (let m = 0; m < 4; m++) {
+      const throttle = (this._motorValues[m] - 1000) / 1000;
+      if (throttle <= 0) continue;
+      tone += 4 * Math.sin(2 * Math.PI * (40 + 200 * throttle) * t + m);
+      roughness += m === 2 ? 12 : 2;
+    }
+    const axis = () => Math.round(tone + (Math.random() - 0.5) * roughness);
+    return { timestamp: Date.now(), gyro: [axis(), axis(), Math.round(tone / 2)] };
+  }
+
   async exportCLIDiff(): Promise<string> {
     const wasInCLI = this.connection.isInCLI();
     if (!wasInCLI) {
@@ -595,6 +789,56 @@ export class MockMSPClient extends EventEmitter {
     return this.buildCurrentDiff();
   }
 
+  /** Full `get` output for the settings in DEMO_SETTINGS_SCHEMA, current values from the diff */
+  async exportSettingsSchema(): Promise<string> {
+    const current = new Map<string, string>();
+    for (const line of this.buildCurrentDiff().split('\n')) {
+      const match = line.match(/^set\s+(\S+)\s*=\s*(.+)$/);
+      if (match) current.set(match[1], match[2].trim());
+    }
+    return DEMO_SETTINGS_SCHEMA.map(([name, allowed, defaultValue, scope]) => {
+      const lines = [`${name} = ${current.get(name) ?? defaultValue}`];
+      if (scope !== 'master') lines.push(`${scope} 0`);
+      lines.push(
+        /^\d+ - \d+$/.test(allowed) ? `Allowed range: ${allowed}` : `Allowed values: ${allowed}`
+      );
+      lines.push(`Default value: ${defaultValue}`);
+      return lines.join('\n');
+    }).join('\n\n');
+  }
+
+  /** Console commands — answers `get` and `diff` from the simulated config */
+  async runCLICommand(command: string): Promise<string> {
+    if (!this.connection.isInCLI()) {
+      await this.connection.enterCLI();
+    }
+    const [name, ...args] = command.trim().split(/\s+/);
+    switch (name.toLowerCase()) {
+      case 'diff':
+      case 'dump':
+        return this.buildCurrentDiff();
+      case 'version':
+        return `# Betaflight / ${DEMO_FC_INFO.target} ${DEMO_FC_INFO.version} (demo)`;
+      case 'get': {
+        const query = (args[0] ?? '').toLowerCase();
+        const lines = this.buildCurrentDiff()
+          .split('\n')
+          .map((line) => line.match(/^set\s+(\S+)\s*=\s*(.+)$/))
+          .filter((m): m is RegExpMatchArray => m !== null && m[1].includes(query))
+          .map((m) => `${m[1]} = ${m[2].trim()}`);
+        return lines.length > 0 ? lines.join('\n') : 'Invalid name';
+      }
+      default:
+        return '';
+    }
+  }
+
+  async exitCLIConsole(): Promise<void> {
+    if (this.connection.isInCLI()) {
+      await this.connection.writeCLIRaw('exit');
+    }
+  }
+
   /**
    * Build CLI diff reflecting any applied tuning changes.
    * Starts from the base DEMO_CLI_DIFF and overlays appliedSettings.
@@ -685,7 +929,9 @@ export class MockMSPClient extends EventEmitter {
       if (stressOverride && stressOverride.flightType === this._nextFlightType) {
         logger.info(`[DEMO] Using stress override for cycle ${c} (${stressOverride.flightType})`);
         this._demoBBLData = stressOverride.generator(c);
+        this._mixerMode = stressOverride.mixerMode ?? MIXER_MODE.QUADX;
       } else {
+        this._mixerMode = MIXER_MODE.QUADX;
         const generators: Record<DemoFlightPhase, BBLGenerator> = {
           [DEMO_FLIGHT.FILTER]: generateFilterDemoBBL,
           [DEMO_FLIGHT.PID]: generatePIDDemoBBL,
@@ -745,7 +991,7 @@ export class MockMSPClient extends EventEmitter {
     this._rebootPending = false;
     this.emit('connection-changed', {
       connected: true,
-      portPath: '/dev/demo',
+      portPath: DEMO_PORT_PATH,
       fcInfo: DEMO_FC_INFO,
     });
     logger.info('[DEMO] FC rebooted and reconnected');
@@ -782,7 +1028,7 @@ export class MockMSPClient extends EventEmitter {
       this.emit('connected');
       this.emit('connection-changed', {
         connected: true,
-        portPath: '/dev/demo',
+        portPath: DEMO_PORT_PATH,
         fcInfo: DEMO_FC_INFO,
       });
       logger.info('[DEMO] Reconnected with flight data on flash');
@@ -155,6 +155,7 @@ export async function buildDiagnosticBundle(
         ...(record.appliedFilterChanges ?? []),
         ...(record.appliedPIDChanges ?? []),
         ...(record.appliedFeedforwardChanges ?? []),
+        ...(record.appliedRatesChanges ?? []),
       ];
       const change = allChanges.find((c) => c.setting === trace.setting);
       recommendations.push({
@@ -172,6 +173,7 @@ export async function buildDiagnosticBundle(
       ...(record.appliedFilterChanges ?? []),
       ...(record.appliedPIDChanges ?? []),
       ...(record.appliedFeedforwardChanges ?? []),
+      ...(record.appliedRatesChanges ?? []),
     ];
     for (const change of allChanges) {
       recommendations.push({
@@ -97,6 +97,7 @@ export async function sendAutoReport(
     ...(session.appliedFilterChanges ?? []),
     ...(session.appliedPIDChanges ?? []),
     ...(session.appliedFeedforwardChanges ?? []),
+    ...(session.appliedRatesChanges ?? []),
   ];
   const recommendations = (session.recommendationTraces ?? []).map((trace) => {
     const change = allChanges.find((c) => c.setting === trace.setting);
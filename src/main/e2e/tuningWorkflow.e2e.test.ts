@@ -93,7 +93,9 @@ import {
   setSnapshotManager,
   setBlackboxManager,
   setTuningSessionManager,
+  setConnectionManager,
 } from '../ipc/handlers';
+import { ConnectionManager } from '../msp/ConnectionManager';
 import { ProfileManager } from '../storage/ProfileManager';
 import { SnapshotManager } from '../storage/SnapshotManager';
 import { BlackboxManager } from '../storage/BlackboxManager';
@@ -139,6 +141,8 @@ function createMockMSPClient(connected = true) {
       gyro_lpf1_type: 0,
       dterm_lpf1_type: 0,
     }),
+    setFilterConfiguration: vi.fn().mockResolvedValue(undefined),
+    saveToEeprom: vi.fn().mockResolvedValue(undefined),
     getFeedforwardConfiguration: vi.fn().mockResolvedValue({
       feedforward_averaging: 0,
       feedforward_smooth_factor: 25,
@@ -165,7 +169,9 @@ function createMockMSPClient(connected = true) {
     setRebootPending: vi.fn(),
     clearRebootPending: vi.fn(),
     getPidProcessDenom: vi.fn().mockResolvedValue(1),
+    getMixerMode: vi.fn().mockResolvedValue(3),
     testBlackboxRead: vi.fn().mockResolvedValue({ success: true, message: 'OK' }),
+    on: vi.fn(),
     connection: {
       enterCLI: vi.fn().mockResolvedValue(undefined),
       sendCLICommand: vi.fn().mockResolvedValue(''),
@@ -270,6 +276,7 @@ describe('E2E Tuning Workflow', () => {
 
     // Inject managers into IPC handlers
     setMSPClient(mockMSP);
+    setConnectionManager(new ConnectionManager(() => mockMSP as any));
     setProfileManager(profileManager);
     setSnapshotManager(snapshotManager);
     setBlackboxManager(blackboxManager);
@@ -282,6 +289,7 @@ describe('E2E Tuning Workflow', () => {
   afterEach(async () => {
     // Tear down managers
     setMSPClient(null);
+    setConnectionManager(null);
     setProfileManager(null);
     setSnapshotManager(null);
     setBlackboxManager(null);
@@ -699,21 +707,20 @@ describe('E2E Tuning Workflow', () => {
       expect(parseRes.data.sessions).toHaveLength(1);
     });
 
-    it('apply recommendations — 3-stage ordering: MSP PID -> CLI -> save', async () => {
+    it('apply recommendations — 3-stage ordering: MSP PID -> MSP filter -> EEPROM save', async () => {
       await invoke(IPCChannel.TUNING_START_SESSION);
 
       const callOrder: string[] = [];
       mockMSP.setPIDConfiguration.mockImplementation(async () => {
         callOrder.push('setPID');
       });
+      mockMSP.setFilterConfiguration.mockImplementation(async () => {
+        callOrder.push('setFilter');
+      });
       mockMSP.connection.enterCLI.mockImplementation(async () => {
         callOrder.push('enterCLI');
       });
-      mockMSP.connection.sendCLICommand.mockImplementation(async () => {
-        callOrder.push('sendCLI');
-        return '';
-      });
-      mockMSP.saveAndReboot.mockImplementation(async () => {
+      mockMSP.saveToEeprom.mockImplementation(async () => {
         callOrder.push('save');
       });
 
@@ -746,10 +753,11 @@ describe('E2E Tuning Workflow', () => {
       expect(res.success).toBe(true);
       expect(res.data.appliedPIDs).toBe(1);
       expect(res.data.appliedFilters).toBe(1);
-      expect(res.data.rebooted).toBe(true);
+      expect(res.data.rebooted).toBe(false);
 
-      // Verify ordering: PID via MSP -> CLI -> save (no snapshot in Apply)
-      expect(callOrder).toEqual(['setPID', 'enterCLI', 'sendCLI', 'save']);
+      // Verify ordering: PID via MSP -> filter via MSP -> save, no CLI or reboot
+      expect(callOrder).toEqual(['setPID', 'setFilter', 'save']);
+      expect(mockMSP.saveAndReboot).not.toHaveBeenCalled();
     });
 
     it('apply PID-only recommendations — MSP setPID called, no CLI for PID-only', async () => {
@@ -1035,7 +1043,8 @@ describe('E2E Tuning Workflow', () => {
       );
       expect(applyRes.success).toBe(true);
       expect(applyRes.data.appliedFilters).toBe(1);
-      expect(applyRes.data.rebooted).toBe(true);
+      // gyro_lpf1_static_hz is written over MSP — saved to EEPROM without a reboot
+      expect(applyRes.data.rebooted).toBe(false);
 
       // Step 8: Transition to filter_applied -> pid_flight_pending
       await invoke(IPCChannel.TUNING_UPDATE_PHASE, 'filter_applied');
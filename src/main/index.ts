@@ -2,11 +2,15 @@ import { app, BrowserWindow } from 'electron';
 import { join, resolve } from 'path';
 import { createWindow, getMainWindow } from './window';
 import { MSPClient } from './msp/MSPClient';
+import { PortWatcher } from './msp/PortWatcher';
+import { ConnectionManager } from './msp/ConnectionManager';
 import { SnapshotManager } from './storage/SnapshotManager';
 import { ProfileManager } from './storage/ProfileManager';
 import { BlackboxManager } from './storage/BlackboxManager';
 import { TuningSessionManager } from './storage/TuningSessionManager';
 import { TuningHistoryManager } from './storage/TuningHistoryManager';
+import { SettingsSchemaManager } from './storage/SettingsSchemaManager';
+import { AppBackupManager } from './storage/AppBackupManager';
 import {
   registerIPCHandlers,
   setMSPClient,
@@ -15,15 +19,22 @@ import {
   setBlackboxManager,
   setTuningSessionManager,
   setTuningHistoryManager,
+  setSettingsSchemaManager,
   setTelemetryManager,
   setLicenseManager,
   setEventCollector,
+  setConnectionManager,
+  setPortWatcher,
+  setAppBackupManager,
   setDemoMode,
   sendConnectionChanged,
+  sendPortsChanged,
+  sendConnectionsChanged,
   sendProfileChanged,
   sendNewFCDetected,
   sendTuningSessionChanged,
   consumePendingSettingsSnapshot,
+  canSwitchDrone,
 } from './ipc/handlers';
 import { TelemetryManager } from './telemetry/TelemetryManager';
 import { TelemetryEventCollector } from './telemetry/TelemetryEventCollector';
@@ -32,7 +43,7 @@ import { initAutoUpdater } from './updater';
 import { logger } from './utils/logger';
 import { verifyAppliedConfig } from './utils/verifyAppliedConfig';
 import { SNAPSHOT, PROFILE, TUNING_PHASE, TUNING_TYPE_LABELS } from '@shared/constants';
-import { MockMSPClient, DEMO_FC_SERIAL } from './demo/MockMSPClient';
+import { MockMSPClient, DEMO_FC_SERIAL, DEMO_PORT_PATH } from './demo/MockMSPClient';
 import { generateFilterDemoBBL } from './demo/DemoDataGenerator';
 import {
   startDebugServer,
@@ -48,15 +59,21 @@ if (process.env.E2E_USER_DATA_DIR) {
   app.setPath('userData', resolve(process.env.E2E_USER_DATA_DIR));
 }
 
+/** One MSPClient per connected FC */
+let connectionManager: ConnectionManager;
+/** The active connection's client — follows connectionManager 'active-changed' */
 let mspClient: MSPClient | MockMSPClient;
 let snapshotManager: SnapshotManager;
 let profileManager: ProfileManager;
 let blackboxManager: BlackboxManager;
 let tuningSessionManager: TuningSessionManager;
 let tuningHistoryManager: TuningHistoryManager;
+let settingsSchemaManager: SettingsSchemaManager;
+let appBackupManager: AppBackupManager;
 let telemetryManager: TelemetryManager;
 let eventCollector: TelemetryEventCollector;
 let licenseManager: LicenseManager;
+let portWatcher: PortWatcher | null = null;
 
 async function initialize(): Promise<void> {
   // Create MSP client (real or mock depending on demo mode)
@@ -69,10 +86,12 @@ async function initialize(): Promise<void> {
     // Flash starts with data (simulated previous flight) so "Erase Flash" button is visible
     // Without this, flashUsedSize===0 triggers showErasedState immediately in TuningStatusBanner
     mockClient.setFlashHasData(true);
-    mspClient = mockClient;
+    // Demo has a single simulated FC — every connection gets the same mock
+    connectionManager = new ConnectionManager(() => mockClient as any);
   } else {
-    mspClient = new MSPClient();
+    connectionManager = new ConnectionManager(() => new MSPClient());
   }
+  mspClient = connectionManager.getActiveClient();
 
   // Create profile manager
   const profileStoragePath = join(app.getPath('userData'), PROFILE.STORAGE_DIR);
@@ -110,6 +129,19 @@ async function initialize(): Promise<void> {
   tuningHistoryManager = new TuningHistoryManager(dataPath);
   await tuningHistoryManager.initialize();
 
+  // Create settings schema manager (cast: MockMSPClient in demo mode)
+  settingsSchemaManager = new SettingsSchemaManager(dataPath, mspClient as any);
+  await settingsSchemaManager.initialize();
+
+  // Create app backup manager (whole-app / per-profile archives)
+  appBackupManager = new AppBackupManager(app.getPath('userData'), {
+    profileManager,
+    snapshotManager,
+    blackboxManager,
+    tuningSessionManager,
+    tuningHistoryManager,
+  });
+
   // Create Telemetry event collector
   const eventCollectorPath = join(app.getPath('userData'), 'data/telemetry-events.json');
   eventCollector = new TelemetryEventCollector(eventCollectorPath);
@@ -131,6 +163,28 @@ async function initialize(): Promise<void> {
   licenseManager.setInstallationIdProvider(() => telemetryManager.getSettings().installationId);
   await licenseManager.initialize();
 
+  // Watch for FCs being plugged in / unplugged (no serial ports in demo mode)
+  if (!isDemoMode) {
+    portWatcher = new PortWatcher(app.getPath('userData'), {
+      listPorts: () => connectionManager.getActiveClient().listPorts(),
+      connect: (portPath) => connectionManager.connect(portPath),
+      // The FC coming back after a save / CLI exit / MSC cycle is reconnected by
+      // its MSPClient and the MSC manager — auto-connect must not race them, nor
+      // take the active drone away from a running apply, restore or download
+      canAutoConnect: (portPath) =>
+        !connectionManager.hasConnection(portPath) &&
+        !connectionManager.isReconnectPending() &&
+        canSwitchDrone(),
+    });
+    await portWatcher.initialize();
+    portWatcher.on('ports-changed', (event) => {
+      const window = getMainWindow();
+      if (window) {
+        sendPortsChanged(window, event);
+      }
+    });
+  }
+
   // Set up IPC handlers
   setMSPClient(mspClient);
   setSnapshotManager(snapshotManager);
@@ -138,29 +192,48 @@ async function initialize(): Promise<void> {
   setBlackboxManager(blackboxManager);
   setTuningSessionManager(tuningSessionManager);
   setTuningHistoryManager(tuningHistoryManager);
+  setSettingsSchemaManager(settingsSchemaManager);
   setTelemetryManager(telemetryManager);
   setEventCollector(eventCollector);
   setLicenseManager(licenseManager);
+  setConnectionManager(connectionManager);
+  setPortWatcher(portWatcher);
+  setAppBackupManager(appBackupManager);
   setDemoMode(isDemoMode);
   registerIPCHandlers();
 
   // Start debug HTTP server if enabled (dev only)
   if (process.env.DEBUG_SERVER === 'true') {
-    setDebugDependencies({
-      mspClient,
-      profileManager,
-      snapshotManager,
-      tuningSessionManager,
-      blackboxManager,
-      tuningHistoryManager,
-      isDemoMode,
-    });
+    setDebugDependencies(debugDependencies());
     const port = parseInt(process.env.DEBUG_SERVER_PORT || '9300', 10);
     startDebugServer(port);
   }
 
-  // Listen for connection changes
-  mspClient.on('connection-changed', (status) => {
+  // Everything that holds an MSPClient follows the active connection
+  connectionManager.on('active-changed', (connectionId: string, client: MSPClient) => {
+    mspClient = client;
+    setMSPClient(client);
+    snapshotManager.setMSPClient(client);
+    settingsSchemaManager.setMSPClient(client);
+    if (process.env.DEBUG_SERVER === 'true') {
+      setDebugDependencies(debugDependencies());
+    }
+    showActiveConnection(connectionId, client).catch((err) =>
+      logger.warn('Failed to load the switched-to drone (non-fatal):', err)
+    );
+  });
+
+  connectionManager.on('connections-changed', (connections) => {
+    const window = getMainWindow();
+    if (window) {
+      sendConnectionsChanged(window, connections);
+    }
+  });
+
+  // Listen for connection changes — the status bar shows the active drone only;
+  // background drones reach the UI through 'connections-changed'
+  connectionManager.on('connection-changed', (connectionId: string, status) => {
+    if (connectionId !== connectionManager.getActiveId()) return;
     const window = getMainWindow();
     if (window) {
       sendConnectionChanged(window, status);
@@ -172,15 +245,27 @@ async function initialize(): Promise<void> {
   });
 
   // Auto-detect profile and create baseline on connection
-  mspClient.on('connected', async () => {
+  connectionManager.on('connected', async (connectionId: string, client: MSPClient) => {
+    // Read before the first await — the flag belongs to this connection
+    const autoConnected = portWatcher?.consumeAutoConnected() ?? false;
     try {
       // Get FC serial number
-      const fcSerial = await mspClient.getFCSerialNumber();
-      const fcInfo = await mspClient.getFCInfo();
+      const fcSerial = await client.getFCSerialNumber();
+      const fcInfo = await client.getFCInfo();
       logger.info(`Connected to FC with serial: ${fcSerial}`);
 
       // Find or prompt for profile
       const existingProfile = await profileManager.findProfileBySerial(fcSerial);
+      connectionManager.assignFC(connectionId, fcSerial, existingProfile);
+
+      if (connectionId !== connectionManager.getActiveId()) {
+        // A background drone came back from a reboot it started before the user
+        // switched away — its profile loads when it is made active again
+        logger.info(`Background connection ${connectionId} reconnected`);
+        if (client.mscModeActive) client.clearMSCMode();
+        if (client.rebootPending) client.clearRebootPending();
+        return;
+      }
 
       const window = getMainWindow();
       if (existingProfile) {
@@ -198,6 +283,14 @@ async function initialize(): Promise<void> {
         logger.info('Creating baseline for existing profile...');
         await snapshotManager.createBaselineIfMissing();
 
+        // Read the settings schema once per firmware version (the CLI exit
+        // reboots the FC, like the baseline) so applies can be range-checked
+        try {
+          await settingsSchemaManager.getSchema();
+        } catch (err) {
+          logger.warn('Failed to read settings schema (non-fatal):', err);
+        }
+
         // After a settings fix/reset, the FC reboots and reconnects.
         // Create a clean snapshot now (MSP + CLI available, no mode conflicts).
         if (consumePendingSettingsSnapshot()) {
@@ -211,18 +304,18 @@ async function initialize(): Promise<void> {
         }
 
         // Clear MSC mode flag if it was set (FC reconnected after MSC cycle)
-        if (mspClient.mscModeActive) {
+        if (client.mscModeActive) {
           logger.info('FC reconnected after MSC mode — clearing MSC flag');
-          mspClient.clearMSCMode();
+          client.clearMSCMode();
         }
 
         // When rebootPending is set, this is a reconnect after saveAndReboot()
         // (e.g. apply tuning). saveAndReboot() now handles reconnect internally,
         // and the apply IPC handler handles verify+snapshot. Skip those here.
-        const isRebootReconnect = mspClient.rebootPending;
+        const isRebootReconnect = client.rebootPending;
         if (isRebootReconnect) {
           logger.info('FC reconnected after save reboot — apply handler owns verify+snapshot');
-          mspClient.clearRebootPending();
+          client.clearRebootPending();
         }
 
         // Smart reconnect: check tuning session state
@@ -232,7 +325,7 @@ async function initialize(): Promise<void> {
             // Restore BF PID profile if session has one specified
             if (session.bfPidProfileIndex !== undefined) {
               try {
-                await mspClient.selectPidProfile(session.bfPidProfileIndex);
+                await client.selectPidProfile(session.bfPidProfileIndex);
                 logger.info(`Reconnect: restored BF PID profile ${session.bfPidProfileIndex}`);
               } catch (e) {
                 logger.warn('Reconnect: failed to restore BF PID profile (non-fatal):', e);
@@ -245,7 +338,7 @@ async function initialize(): Promise<void> {
               session.phase === TUNING_PHASE.PID_FLIGHT_PENDING ||
               session.phase === TUNING_PHASE.FLASH_FLIGHT_PENDING
             ) {
-              const bbInfo = await mspClient.getBlackboxInfo();
+              const bbInfo = await client.getBlackboxInfo();
 
               // For flash: usedSize > 0 means logs exist
               // For SD card: usedSize is always > 0 (filesystem overhead),
@@ -303,7 +396,7 @@ async function initialize(): Promise<void> {
               session.phase === TUNING_PHASE.PID_VERIFICATION_PENDING ||
               session.phase === TUNING_PHASE.FLASH_VERIFICATION_PENDING;
             if (isVerificationPhase && session.eraseCompleted) {
-              const bbInfo = await mspClient.getBlackboxInfo();
+              const bbInfo = await client.getBlackboxInfo();
               if (bbInfo.storageType === 'flash' && bbInfo.hasLogs && bbInfo.usedSize > 0) {
                 logger.info(
                   `Smart reconnect: ${session.phase} + flash has data — clearing eraseCompleted`
@@ -387,6 +480,11 @@ async function initialize(): Promise<void> {
         } catch (err) {
           logger.warn('Smart reconnect check failed (non-fatal):', err);
         }
+      } else if (autoConnected) {
+        // Auto-connect only keeps drones that already have a profile — an unknown
+        // FC (or any other STM32 device) is left alone until the user connects it
+        logger.info(`Auto-connected FC ${fcSerial} has no profile — disconnecting`);
+        await connectionManager.disconnect(connectionId);
       } else {
         // New drone - notify UI to show ProfileWizard modal
         // DO NOT create baseline yet - wait until profile is created
@@ -404,34 +502,47 @@ async function initialize(): Promise<void> {
   });
 
   // Handle unexpected disconnection (USB unplugged, etc.)
-  mspClient.on('disconnected', () => {
-    const window = getMainWindow();
+  connectionManager.on(
+    'disconnected',
+    (connectionId: string, client: MSPClient, wasActive: boolean) => {
+      if (!wasActive) {
+        // A background drone — the connection list update is all the UI needs
+        logger.info(`Background connection ${connectionId} disconnected`);
+        return;
+      }
 
-    // If FC is in MSC mode or rebooting after save, this disconnect is expected — don't clear profile
-    if (mspClient.mscModeActive || mspClient.rebootPending) {
-      logger.info(
-        `FC disconnected (${mspClient.mscModeActive ? 'MSC mode' : 'reboot pending'} — expected, keeping profile)`
-      );
-      // Still notify renderer that FC is disconnected (UI needs to reflect this)
-      if (window) {
-        sendConnectionChanged(window, { connected: false });
+      const window = getMainWindow();
+
+      // If FC is in MSC mode or rebooting after save, this disconnect is expected — don't clear profile
+      if (client.mscModeActive || client.rebootPending) {
+        logger.info(
+          `FC disconnected (${client.mscModeActive ? 'MSC mode' : 'reboot pending'} — expected, keeping profile)`
+        );
+        // Still notify renderer that FC is disconnected (UI needs to reflect this)
+        if (window) {
+          sendConnectionChanged(window, { connected: false });
+        }
+        return;
       }
-      return;
-    }
 
-    logger.info('FC unexpectedly disconnected');
+      logger.info('FC unexpectedly disconnected');
+      if (eventCollector) {
+        eventCollector.emit('error', 'msp_disconnect');
+      }
 
-    // Clear current profile
-    profileManager.clearCurrentProfile();
+      // Clear current profile — if another drone is still connected, it becomes
+      // active next and 'active-changed' loads its profile
+      profileManager.clearCurrentProfile();
 
-    // Notify renderer
-    if (window) {
-      // Send disconnected status
-      sendConnectionChanged(window, { connected: false });
-      // Clear profile in UI
-      sendProfileChanged(window, null);
+      // Notify renderer
+      if (window) {
+        // Send disconnected status
+        sendConnectionChanged(window, { connected: false });
+        // Clear profile in UI
+        sendProfileChanged(window, null);
+      }
     }
-  });
+  );
 
   // In demo mode, pre-create demo profile so ProfileWizard is skipped on connect
   if (isDemoMode) {
@@ -441,6 +552,45 @@ async function initialize(): Promise<void> {
   logger.info('Application initialized');
 }
 
+/** Debug server view of the managers — re-sent when the active drone changes */
+function debugDependencies() {
+  return {
+    mspClient,
+    profileManager,
+    snapshotManager,
+    tuningSessionManager,
+    blackboxManager,
+    tuningHistoryManager,
+    isDemoMode,
+  };
+}
+
+/**
+ * After switching drones, load the now-active FC's profile and status into the UI.
+ * A connection that is still opening is left to the 'connected' handler.
+ */
+async function showActiveConnection(connectionId: string, client: MSPClient): Promise<void> {
+  if (!client.isConnected()) return;
+
+  const fcSerial = connectionManager.getAssignment(connectionId)?.fcSerial;
+  const existingProfile = fcSerial ? await profileManager.findProfileBySerial(fcSerial) : null;
+  const profile = existingProfile
+    ? await profileManager.setCurrentProfile(existingProfile.id)
+    : null;
+  if (!profile) {
+    profileManager.clearCurrentProfile();
+  }
+
+  const window = getMainWindow();
+  if (!window) return;
+  sendConnectionChanged(window, client.getConnectionStatus());
+  sendProfileChanged(window, profile);
+  if (!profile && fcSerial) {
+    // Still no profile for this FC — bring the ProfileWizard back
+    sendNewFCDetected(window, fcSerial, await client.getFCInfo());
+  }
+}
+
 /**
  * Create the demo profile if it doesn't already exist.
  * This ensures the 'connected' event handler finds an existing profile
@@ -484,16 +634,21 @@ app.whenReady().then(async () => {
     captureRendererConsole();
   }
 
+  // Start after the window exists so the first port list reaches the renderer
+  portWatcher?.start();
+
   // Initialize auto-updater (packaged builds only, not demo)
   if (!isDemoMode) {
     initAutoUpdater();
   }
 
   // In demo mode, auto-connect after window is ready
-  if (isDemoMode && mspClient instanceof MockMSPClient) {
+  if (isDemoMode) {
     setTimeout(() => {
       logger.info('[DEMO] Auto-connecting demo FC...');
-      (mspClient as MockMSPClient).simulateConnect();
+      connectionManager.connect(DEMO_PORT_PATH).catch((err) => {
+        logger.error('[DEMO] Auto-connect failed:', err);
+      });
     }, 1000);
   }
 
@@ -506,9 +661,8 @@ app.whenReady().then(async () => {
 
 app.on('window-all-closed', async () => {
   // Cleanup
-  if (mspClient?.isConnected()) {
-    await mspClient.disconnect();
-  }
+  portWatcher?.stop();
+  await connectionManager?.disconnectAll();
 
   if (process.platform !== 'darwin') {
     app.quit();
@@ -534,11 +688,10 @@ process.on('unhandledRejection', (reason) => {
 });
 
 app.on('before-quit', async () => {
+  portWatcher?.stop();
   // Persist any pending telemetry events before quitting
   if (eventCollector) {
     await eventCollector.persist().catch(() => {});
   }
-  if (mspClient?.isConnected()) {
-    await mspClient.disconnect();
-  }
+  await connectionManager?.disconnectAll();
 });
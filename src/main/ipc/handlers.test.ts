@@ -18,6 +18,7 @@ vi.mock('electron', () => ({
   BrowserWindow: vi.fn(),
   app: { getPath: () => '/tmp/test' },
   shell: { openPath: vi.fn().mockResolvedValue('') },
+  dialog: { showSaveDialog: vi.fn(), showOpenDialog: vi.fn() },
 }));
 
 vi.mock('../utils/logger', () => ({
@@ -31,6 +32,8 @@ vi.mock('../window', () => ({
 
 vi.mock('fs/promises', () => ({
   readFile: vi.fn(),
+  writeFile: vi.fn(),
+  stat: vi.fn(),
 }));
 
 const mockParse = vi.fn();
@@ -44,8 +47,10 @@ vi.mock('../analysis/FilterAnalyzer', () => ({
 }));
 
 const mockAnalyzePID = vi.fn();
+const mockAnalyzeTransferFunction = vi.fn();
 vi.mock('../analysis/PIDAnalyzer', () => ({
   analyzePID: (...args: any[]) => mockAnalyzePID(...args),
+  analyzeTransferFunction: (...args: any[]) => mockAnalyzeTransferFunction(...args),
 }));
 
 const mockExtractFlightPIDs = vi.fn();
@@ -53,6 +58,13 @@ vi.mock('../analysis/PIDRecommender', () => ({
   extractFlightPIDs: (...args: any[]) => mockExtractFlightPIDs(...args),
 }));
 
+const mockAnalyzeRates = vi.fn();
+const mockExtractRatesConfiguration = vi.fn();
+vi.mock('../analysis/RatesAnalyzer', () => ({
+  analyzeRates: (...args: any[]) => mockAnalyzeRates(...args),
+  extractRatesConfiguration: (...args: any[]) => mockExtractRatesConfiguration(...args),
+}));
+
 const mockValidateBBLHeader = vi.fn().mockReturnValue([]);
 const mockEnrichSettings = vi.fn().mockReturnValue(null);
 vi.mock('../analysis/headerValidation', () => ({
@@ -83,9 +95,14 @@ import {
   setBlackboxManager,
   setTuningSessionManager,
   setTuningHistoryManager,
+  setSettingsSchemaManager,
+  setPortWatcher,
+  setConnectionManager,
+  setAppBackupManager,
+  canSwitchDrone,
   consumePendingSettingsSnapshot,
 } from './handlers';
-import { shell } from 'electron';
+import { shell, dialog } from 'electron';
 import * as fsp from 'fs/promises';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -134,6 +151,15 @@ function createMockMSPClient(connected = true) {
       dyn_notch_min_hz: 100,
       dyn_notch_max_hz: 600,
     }),
+    setFilterConfiguration: vi.fn().mockResolvedValue(undefined),
+    getRatesConfiguration: vi.fn().mockResolvedValue({
+      ratesType: 'ACTUAL',
+      roll: { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 },
+      pitch: { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 },
+      yaw: { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 },
+    }),
+    setRatesConfiguration: vi.fn().mockResolvedValue(undefined),
+    saveToEeprom: vi.fn().mockResolvedValue(undefined),
     getFeedforwardConfiguration: vi
       .fn()
       .mockResolvedValue({ feedforwardTransition: 0, feedforwardAveraging: 0 }),
@@ -146,11 +172,18 @@ function createMockMSPClient(connected = true) {
       usagePercent: 50,
     }),
     downloadBlackboxLog: vi.fn().mockResolvedValue(Buffer.from('fake-log-data')),
+    readBlackboxChunk: vi.fn().mockResolvedValue({ data: Buffer.alloc(0), isCompressed: false }),
     eraseBlackboxFlash: vi.fn().mockResolvedValue(undefined),
     testBlackboxRead: vi.fn().mockResolvedValue({ success: true, message: 'OK' }),
     exportCLIDiff: vi.fn().mockResolvedValue('set gyro_lpf1_static_hz = 250'),
     exportCLIDump: vi.fn().mockResolvedValue('dump output'),
     getPidProcessDenom: vi.fn().mockResolvedValue(1),
+    getMixerMode: vi.fn().mockResolvedValue(3),
+    getMotorValues: vi.fn().mockResolvedValue([1000, 1000, 1000, 1000, 0, 0, 0, 0]),
+    setMotorValues: vi.fn().mockResolvedValue(undefined),
+    getRawImu: vi.fn().mockResolvedValue({ timestamp: 0, gyro: [0, 0, 0] }),
+    runCLICommand: vi.fn().mockResolvedValue('gyro_lpf1_static_hz = 250'),
+    exitCLIConsole: vi.fn().mockResolvedValue(undefined),
     saveAndReboot: vi.fn().mockResolvedValue(undefined),
     setRebootPending: vi.fn(),
     clearRebootPending: vi.fn(),
@@ -228,6 +261,13 @@ function createMockSnapshotManager() {
       fcInfo: { variant: 'BTFL', version: '4.5.1' },
     }),
     deleteSnapshot: vi.fn().mockResolvedValue(undefined),
+    importSnapshot: vi.fn().mockResolvedValue({
+      id: 'snap-imported',
+      label: 'Imported: old-diff.txt',
+      type: 'manual',
+      configuration: { cliDiff: 'set gyro_lpf1_static_hz = 200' },
+      fcInfo: { variant: 'BTFL', version: '4.3.1' },
+    }),
     listSnapshots: vi.fn().mockResolvedValue([
       { id: 'snap-1', label: 'Baseline', type: 'baseline', timestamp: '2026-01-01' },
       { id: 'snap-2', label: 'Manual', type: 'manual', timestamp: '2026-01-02' },
@@ -257,6 +297,11 @@ function createMockBlackboxManager() {
     listLogs: vi.fn().mockResolvedValue([]),
     deleteLog: vi.fn().mockResolvedValue(undefined),
     deleteLogsForProfile: vi.fn().mockResolvedValue(undefined),
+    getLastFlashDownload: vi.fn().mockResolvedValue(null),
+    loadPartialDownload: vi.fn().mockResolvedValue(Buffer.alloc(0)),
+    appendPartialDownload: vi.fn().mockResolvedValue(undefined),
+    clearPartialDownload: vi.fn().mockResolvedValue(undefined),
+    exportFlightData: vi.fn().mockResolvedValue(['/tmp/flight.01.csv', '/tmp/flight.02.csv']),
   };
 }
 
@@ -288,6 +333,49 @@ function createMockTuningHistoryManager() {
   };
 }
 
+/** Schema manager serving a small BF 4.5 schema */
+function createMockSettingsSchemaManager() {
+  const schema = {
+    firmware: 'BTFL 4.5.1',
+    fetchedAt: '2026-01-01T00:00:00.000Z',
+    settings: {
+      gyro_lpf1_static_hz: { name: 'gyro_lpf1_static_hz', value: '250', min: 0, max: 1000 },
+      rpm_filter_q: { name: 'rpm_filter_q', value: '500', min: 250, max: 3000 },
+      p_roll: { name: 'p_roll', value: '45', min: 0, max: 250, scope: 'profile' },
+      motor_poles: { name: 'motor_poles', value: '14', min: 4, max: 255 },
+      rates_type: {
+        name: 'rates_type',
+        value: 'ACTUAL',
+        allowedValues: ['BETAFLIGHT', 'RACEFLIGHT', 'KISS', 'ACTUAL', 'QUICK'],
+      },
+    },
+  };
+  return {
+    getSchema: vi.fn().mockResolvedValue(schema),
+    getCachedSchema: vi.fn().mockResolvedValue(schema),
+  };
+}
+
+/** Connection manager with a single connection served by the given client */
+function createMockConnectionManager(msp: ReturnType<typeof createMockMSPClient>) {
+  return {
+    connect: vi.fn((portPath: string) => msp.connect(portPath)),
+    disconnect: vi.fn(() => msp.disconnect()),
+    getActiveId: vi.fn().mockReturnValue('/dev/ttyUSB0'),
+    list: vi.fn().mockReturnValue([
+      { id: '/dev/ttyUSB0', connected: true, active: true },
+      { id: '/dev/ttyUSB1', connected: true, active: false },
+    ]),
+    setActive: vi.fn(),
+    getClient: vi.fn((id: string) => {
+      if (id !== '/dev/ttyUSB0') throw new Error(`No connection on ${id}`);
+      return msp;
+    }),
+    getAssignment: vi.fn().mockReturnValue(null),
+    assignFC: vi.fn(),
+  };
+}
+
 /** Invoke a registered IPC handler by channel name */
 async function invoke(channel: string, ...args: any[]): Promise<IPCResponse<any>> {
   const handler = registeredHandlers.get(channel);
@@ -316,6 +404,7 @@ describe('IPC Handlers', () => {
   let mockBBMgr: ReturnType<typeof createMockBlackboxManager>;
   let mockTuningMgr: ReturnType<typeof createMockTuningSessionManager>;
   let mockTuningHistoryMgr: ReturnType<typeof createMockTuningHistoryManager>;
+  let mockConnectionMgr: ReturnType<typeof createMockConnectionManager>;
 
   beforeEach(() => {
     registeredHandlers.clear();
@@ -326,8 +415,10 @@ describe('IPC Handlers', () => {
     mockBBMgr = createMockBlackboxManager();
     mockTuningMgr = createMockTuningSessionManager();
     mockTuningHistoryMgr = createMockTuningHistoryManager();
+    mockConnectionMgr = createMockConnectionManager(mockMSP);
 
     setMSPClient(mockMSP);
+    setConnectionManager(mockConnectionMgr);
     setProfileManager(mockProfileMgr);
     setSnapshotManager(mockSnapshotMgr);
     setBlackboxManager(mockBBMgr);
@@ -347,6 +438,9 @@ describe('IPC Handlers', () => {
     setSnapshotManager(null);
     setBlackboxManager(null);
     setTuningSessionManager(null);
+    setSettingsSchemaManager(null);
+    setPortWatcher(null);
+    setConnectionManager(null);
     mockMainWindow = null;
     vi.restoreAllMocks();
   });
@@ -389,6 +483,34 @@ describe('IPC Handlers', () => {
       expect(res.success).toBe(true);
       expect(mockMSP.disconnect).toHaveBeenCalled();
     });
+
+    it('passes the target connection ID through', async () => {
+      await invoke(IPCChannel.CONNECTION_DISCONNECT, '/dev/ttyUSB1');
+      expect(mockConnectionMgr.disconnect).toHaveBeenCalledWith('/dev/ttyUSB1');
+    });
+  });
+
+  describe('CONNECTION_LIST / CONNECTION_SET_ACTIVE', () => {
+    it('lists open connections', async () => {
+      const res = await invoke(IPCChannel.CONNECTION_LIST);
+      expect(res.success).toBe(true);
+      expect(res.data.map((c: any) => c.id)).toEqual(['/dev/ttyUSB0', '/dev/ttyUSB1']);
+    });
+
+    it('switches the active connection', async () => {
+      const res = await invoke(IPCChannel.CONNECTION_SET_ACTIVE, '/dev/ttyUSB1');
+      expect(res.success).toBe(true);
+      expect(mockConnectionMgr.setActive).toHaveBeenCalledWith('/dev/ttyUSB1');
+    });
+
+    it('refuses to switch while the active FC reboots', async () => {
+      (mockMSP as any).rebootPending = true;
+      const rebooting = await invoke(IPCChannel.CONNECTION_SET_ACTIVE, '/dev/ttyUSB1');
+
+      expect(rebooting.success).toBe(false);
+      expect(rebooting.error).toContain('rebooting');
+      expect(mockConnectionMgr.setActive).not.toHaveBeenCalled();
+    });
   });
 
   describe('CONNECTION_GET_STATUS', () => {
@@ -399,6 +521,32 @@ describe('IPC Handlers', () => {
     });
   });
 
+  describe('CONNECTION_GET_AUTO_CONNECT / CONNECTION_SET_AUTO_CONNECT', () => {
+    it('reads and persists the auto-connect setting through the port watcher', async () => {
+      const watcher = {
+        getAutoConnect: vi.fn().mockReturnValue(true),
+        setAutoConnect: vi.fn().mockResolvedValue(undefined),
+      };
+      setPortWatcher(watcher);
+
+      const getRes = await invoke(IPCChannel.CONNECTION_GET_AUTO_CONNECT);
+      const setRes = await invoke(IPCChannel.CONNECTION_SET_AUTO_CONNECT, false);
+
+      expect(getRes.data).toBe(true);
+      expect(setRes.success).toBe(true);
+      expect(watcher.setAutoConnect).toHaveBeenCalledWith(false);
+    });
+
+    it('reads as off and refuses to enable without a port watcher (demo mode)', async () => {
+      const getRes = await invoke(IPCChannel.CONNECTION_GET_AUTO_CONNECT);
+      const setRes = await invoke(IPCChannel.CONNECTION_SET_AUTO_CONNECT, true);
+
+      expect(getRes.data).toBe(false);
+      expect(setRes.success).toBe(false);
+      expect(setRes.error).toContain('demo mode');
+    });
+  });
+
   // ─── FC Info Handlers ───────────────────────────────────────────────────
 
   describe('FC_GET_INFO', () => {
@@ -408,6 +556,23 @@ describe('IPC Handlers', () => {
       expect(res.data.variant).toBe('BTFL');
       expect(res.data.version).toBe('4.5.1');
     });
+
+    it('reads the drone its connection ID names, not the active one', async () => {
+      const background = createMockMSPClient();
+      background.getFCInfo.mockResolvedValue({ variant: 'BTFL', version: '4.4.3' });
+      mockConnectionMgr.getClient.mockReturnValue(background);
+
+      const res = await invoke(IPCChannel.FC_GET_INFO, '/dev/ttyUSB1');
+      expect(res.data.version).toBe('4.4.3');
+      expect(mockConnectionMgr.getClient).toHaveBeenCalledWith('/dev/ttyUSB1');
+      expect(mockMSP.getFCInfo).not.toHaveBeenCalled();
+    });
+
+    it('fails for a connection ID with no drone on it', async () => {
+      const res = await invoke(IPCChannel.FC_GET_INFO, '/dev/ttyUSB9');
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('No connection on /dev/ttyUSB9');
+    });
   });
 
   describe('FC_EXPORT_CLI', () => {
@@ -595,6 +760,54 @@ describe('IPC Handlers', () => {
     });
   });
 
+  describe('SNAPSHOT_IMPORT', () => {
+    it('imports the picked file with its modification time', async () => {
+      vi.mocked(dialog.showOpenDialog).mockResolvedValue({
+        canceled: false,
+        filePaths: ['/backups/old-diff.txt'],
+      });
+      vi.mocked(fsp.readFile).mockResolvedValue('# diff all\nset gyro_lpf1_static_hz = 200' as any);
+      vi.mocked(fsp.stat).mockResolvedValue({ mtime: new Date('2023-05-01T10:00:00Z') } as any);
+
+      const res = await invoke(IPCChannel.SNAPSHOT_IMPORT);
+
+      expect(res.success).toBe(true);
+      expect(res.data.id).toBe('snap-imported');
+      expect(mockSnapshotMgr.importSnapshot).toHaveBeenCalledWith(
+        '# diff all\nset gyro_lpf1_static_hz = 200',
+        'old-diff.txt',
+        '2023-05-01T10:00:00.000Z'
+      );
+    });
+
+    it('returns null when the file dialog is cancelled', async () => {
+      vi.mocked(dialog.showOpenDialog).mockResolvedValue({ canceled: true, filePaths: [] });
+
+      const res = await invoke(IPCChannel.SNAPSHOT_IMPORT);
+
+      expect(res.success).toBe(true);
+      expect(res.data).toBeNull();
+      expect(mockSnapshotMgr.importSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('returns the board mismatch error', async () => {
+      vi.mocked(dialog.showOpenDialog).mockResolvedValue({
+        canceled: false,
+        filePaths: ['/backups/other-quad.txt'],
+      });
+      vi.mocked(fsp.readFile).mockResolvedValue('board_name MATEKF405' as any);
+      vi.mocked(fsp.stat).mockResolvedValue({ mtime: new Date() } as any);
+      mockSnapshotMgr.importSnapshot.mockRejectedValueOnce(
+        new Error('other-quad.txt is for MATEKF405, but the connected FC is SPEEDYBEEF7V3')
+      );
+
+      const res = await invoke(IPCChannel.SNAPSHOT_IMPORT);
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('MATEKF405');
+    });
+  });
+
   // ─── Profile Handlers ──────────────────────────────────────────────────
 
   describe('PROFILE_CREATE', () => {
@@ -806,6 +1019,25 @@ describe('IPC Handlers', () => {
       );
     });
 
+    it('writes a background drone without announcing it as the active PIDs', async () => {
+      const background = createMockMSPClient();
+      mockConnectionMgr.getClient.mockReturnValue(background);
+      const config: PIDConfiguration = {
+        roll: { P: 50, I: 80, D: 40 },
+        pitch: { P: 52, I: 84, D: 43 },
+        yaw: { P: 45, I: 80, D: 0 },
+      };
+
+      const res = await invoke(IPCChannel.PID_UPDATE_CONFIG, config, '/dev/ttyUSB1');
+      expect(res.success).toBe(true);
+      expect(background.setPIDConfiguration).toHaveBeenCalledWith(config);
+      expect(mockMSP.setPIDConfiguration).not.toHaveBeenCalled();
+      expect(mockMainWindow.webContents.send).not.toHaveBeenCalledWith(
+        IPCChannel.EVENT_PID_CHANGED,
+        config
+      );
+    });
+
     it('rejects out-of-range PID values', async () => {
       const config: PIDConfiguration = {
         roll: { P: 300, I: 80, D: 40 }, // P > 255
@@ -827,6 +1059,19 @@ describe('IPC Handlers', () => {
       expect(res.success).toBe(false);
       expect(res.error).toContain('Invalid');
     });
+
+    it('validates the level controller when present', async () => {
+      const config: PIDConfiguration = {
+        roll: { P: 50, I: 80, D: 40 },
+        pitch: { P: 52, I: 84, D: 43 },
+        yaw: { P: 45, I: 80, D: 0 },
+        level: { P: 50, I: 300, D: 75 },
+      };
+      const res = await invoke(IPCChannel.PID_UPDATE_CONFIG, config);
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('level I value out of range');
+      expect(mockMSP.setPIDConfiguration).not.toHaveBeenCalled();
+    });
   });
 
   describe('PID_SAVE_CONFIG', () => {
@@ -917,6 +1162,107 @@ describe('IPC Handlers', () => {
       const res2 = await invoke(IPCChannel.BLACKBOX_DOWNLOAD_LOG);
       expect(res2.success).toBe(true);
     });
+
+    it('resumes from a partial download and saves the joined log', async () => {
+      mockBBMgr.loadPartialDownload.mockResolvedValue(Buffer.from('first-'));
+      mockMSP.downloadBlackboxLog.mockResolvedValue({
+        data: Buffer.from('second'),
+        compressionDetected: false,
+      });
+
+      const res = await invoke(IPCChannel.BLACKBOX_DOWNLOAD_LOG);
+
+      expect(res.success).toBe(true);
+      expect(mockBBMgr.loadPartialDownload).toHaveBeenCalledWith('SN-001', 0, 1024000);
+      expect(mockMSP.downloadBlackboxLog).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ startAddress: 6 })
+      );
+      expect(mockBBMgr.saveLog.mock.calls[0][0].toString()).toBe('first-second');
+      expect(mockBBMgr.saveLog.mock.calls[0][4]).toEqual({
+        compressionDetected: false,
+        flashRange: { start: 0, end: 1024000 },
+      });
+      expect(mockBBMgr.clearPartialDownload).toHaveBeenCalledWith('SN-001', 0, 1024000);
+    });
+
+    it('keeps downloaded chunks on disk when the download fails', async () => {
+      mockMSP.downloadBlackboxLog.mockImplementation(async (_onProgress: any, options: any) => {
+        await options.onChunk(0, Buffer.from('abc'));
+        await options.onChunk(3, Buffer.from('def'));
+        throw new Error('Port closed');
+      });
+
+      const res = await invoke(IPCChannel.BLACKBOX_DOWNLOAD_LOG);
+
+      expect(res.success).toBe(false);
+      expect(mockBBMgr.appendPartialDownload).toHaveBeenCalledWith(
+        'SN-001',
+        0,
+        1024000,
+        Buffer.from('abcdef')
+      );
+      expect(mockBBMgr.clearPartialDownload).not.toHaveBeenCalled();
+    });
+
+    it('downloads only new data after the previous flash download', async () => {
+      mockBBMgr.getLastFlashDownload.mockResolvedValue({
+        id: 'log-0',
+        filepath: '/tmp/logs/prev.bbl',
+        flashRange: { start: 0, end: 1000 },
+      });
+      vi.mocked(fsp.readFile).mockResolvedValue(Buffer.from('previous-tail') as any);
+      mockMSP.readBlackboxChunk.mockResolvedValue({
+        data: Buffer.from('previous-tail'),
+        isCompressed: false,
+      });
+      mockMSP.downloadBlackboxLog.mockResolvedValue({
+        data: Buffer.from('new'),
+        compressionDetected: false,
+      });
+
+      const res = await invoke(IPCChannel.BLACKBOX_DOWNLOAD_LOG, { newDataOnly: true });
+
+      expect(res.success).toBe(true);
+      expect(mockMSP.readBlackboxChunk).toHaveBeenCalledWith(987, 13);
+      expect(mockMSP.downloadBlackboxLog).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ startAddress: 1000 })
+      );
+      expect(mockBBMgr.saveLog.mock.calls[0][4].flashRange).toEqual({ start: 1000, end: 1024000 });
+    });
+
+    it('refuses new-data-only download when the flash was erased and re-filled', async () => {
+      mockBBMgr.getLastFlashDownload.mockResolvedValue({
+        id: 'log-0',
+        filepath: '/tmp/logs/prev.bbl',
+        flashRange: { start: 0, end: 1000 },
+      });
+      vi.mocked(fsp.readFile).mockResolvedValue(Buffer.from('previous-tail') as any);
+      mockMSP.readBlackboxChunk.mockResolvedValue({
+        data: Buffer.from('different-xx'),
+        isCompressed: false,
+      });
+
+      const res = await invoke(IPCChannel.BLACKBOX_DOWNLOAD_LOG, { newDataOnly: true });
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('erased');
+      expect(mockMSP.downloadBlackboxLog).not.toHaveBeenCalled();
+    });
+
+    it('reports when there is no new data', async () => {
+      mockBBMgr.getLastFlashDownload.mockResolvedValue({
+        id: 'log-0',
+        filepath: '/tmp/logs/prev.bbl',
+        flashRange: { start: 0, end: 1024000 },
+      });
+
+      const res = await invoke(IPCChannel.BLACKBOX_DOWNLOAD_LOG, { newDataOnly: true });
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('No new Blackbox data');
+    });
   });
 
   describe('BLACKBOX_LIST_LOGS', () => {
@@ -1012,6 +1358,106 @@ describe('IPC Handlers', () => {
     });
   });
 
+  describe('BLACKBOX_EXPORT_TRACK', () => {
+    beforeEach(() => {
+      vi.mocked(dialog.showSaveDialog).mockReset();
+      vi.mocked(fsp.readFile).mockResolvedValue(Buffer.from('bbl-data'));
+      mockParse.mockResolvedValue({
+        sessions: [
+          {
+            index: 0,
+            header: { logStartDatetime: '' },
+            flightData: {
+              gyro: [{ time: new Float64Array([0]) }],
+              gps: {
+                time: new Float64Array([0]),
+                lat: new Float64Array([47.5]),
+                lon: new Float64Array([8.5]),
+                altitude: new Float64Array([400]),
+                speed: new Float64Array([0]),
+                course: new Float64Array([0]),
+                numSat: new Float64Array([10]),
+              },
+            },
+          },
+        ],
+        success: true,
+        parseTimeMs: 10,
+      });
+    });
+
+    it('writes the track to the chosen file', async () => {
+      vi.mocked(dialog.showSaveDialog).mockResolvedValue({
+        canceled: false,
+        filePath: '/tmp/track.kml',
+      });
+
+      const res = await invoke(IPCChannel.BLACKBOX_EXPORT_TRACK, 'log-1', 'kml');
+      expect(res.success).toBe(true);
+      expect(res.data).toBe('/tmp/track.kml');
+      expect(dialog.showSaveDialog).toHaveBeenCalledWith(
+        expect.objectContaining({ defaultPath: 'blackbox_001.kml' })
+      );
+      expect(fsp.writeFile).toHaveBeenCalledWith(
+        '/tmp/track.kml',
+        expect.stringContaining('<kml'),
+        'utf-8'
+      );
+    });
+
+    it('returns null when the save dialog is cancelled', async () => {
+      vi.mocked(dialog.showSaveDialog).mockResolvedValue({ canceled: true, filePath: '' });
+      const res = await invoke(IPCChannel.BLACKBOX_EXPORT_TRACK, 'log-1', 'gpx');
+      expect(res.success).toBe(true);
+      expect(res.data).toBeNull();
+    });
+
+    it('returns error when the log has no GPS data', async () => {
+      mockParse.mockResolvedValue({ sessions: [{ index: 0, flightData: {} }], success: true });
+      const res = await invoke(IPCChannel.BLACKBOX_EXPORT_TRACK, 'log-1', 'gpx');
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('No GPS data');
+      expect(dialog.showSaveDialog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('BLACKBOX_EXPORT_DATA', () => {
+    beforeEach(() => {
+      vi.mocked(dialog.showSaveDialog).mockReset();
+    });
+
+    it('exports the flight data to the chosen file', async () => {
+      vi.mocked(dialog.showSaveDialog).mockResolvedValue({
+        canceled: false,
+        filePath: '/tmp/flight.csv',
+      });
+
+      const res = await invoke(IPCChannel.BLACKBOX_EXPORT_DATA, 'log-1', 'csv');
+      expect(res.success).toBe(true);
+      expect(res.data).toBe('/tmp/flight.01.csv');
+      expect(dialog.showSaveDialog).toHaveBeenCalledWith(
+        expect.objectContaining({ defaultPath: 'blackbox_001.csv' })
+      );
+      expect(mockBBMgr.exportFlightData).toHaveBeenCalledWith('log-1', 'csv', '/tmp/flight.csv');
+    });
+
+    it('returns null when the save dialog is cancelled', async () => {
+      vi.mocked(dialog.showSaveDialog).mockResolvedValue({ canceled: true, filePath: '' });
+      const res = await invoke(IPCChannel.BLACKBOX_EXPORT_DATA, 'log-1', 'arrow');
+      expect(res.success).toBe(true);
+      expect(res.data).toBeNull();
+      expect(mockBBMgr.exportFlightData).not.toHaveBeenCalled();
+    });
+
+    it('returns error when the log does not exist', async () => {
+      mockBBMgr.getLog.mockResolvedValue(null);
+      const res = await invoke(IPCChannel.BLACKBOX_EXPORT_DATA, 'missing', 'csv');
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('Blackbox log not found');
+      expect(dialog.showSaveDialog).not.toHaveBeenCalled();
+    });
+  });
+
   // ─── Analysis Handlers ─────────────────────────────────────────────────
 
   describe('ANALYSIS_RUN_FILTER', () => {
@@ -1023,6 +1469,7 @@ describe('IPC Handlers', () => {
             index: 0,
             header: { rawHeaders: new Map() },
             flightData: {},
+            events: [],
           },
         ],
         success: true,
@@ -1047,6 +1494,55 @@ describe('IPC Handlers', () => {
       expect(res.data.recommendations).toHaveLength(1);
     });
 
+    it('passes failsafe spans from the event timeline to the analyzer', async () => {
+      mockParse.mockResolvedValue({
+        sessions: [
+          {
+            index: 0,
+            header: { rawHeaders: new Map() },
+            flightData: {},
+            events: [
+              { type: 'state', time: 2, flightModeFlags: 0, stateFlags: 0, failsafePhase: 1 },
+              { type: 'state', time: 3, flightModeFlags: 0, stateFlags: 0, failsafePhase: 0 },
+            ],
+          },
+        ],
+        success: true,
+        parseTimeMs: 100,
+      });
+      const { event } = createMockEvent();
+      await invokeWithEvent(IPCChannel.ANALYSIS_RUN_FILTER, event, 'log-1', 0);
+      const options = mockAnalyzeFilters.mock.calls.at(-1)?.[4];
+      expect(options.excludedSpans).toEqual([{ start: 2, end: 3, reason: 'failsafe' }]);
+    });
+
+    it('passes the FC mixer mode to the analyzer', async () => {
+      mockMSP.getMixerMode.mockResolvedValue(11);
+      const { event } = createMockEvent();
+      await invokeWithEvent(IPCChannel.ANALYSIS_RUN_FILTER, event, 'log-1', 0);
+      expect(mockAnalyzeFilters.mock.calls.at(-1)?.[4].mixerMode).toBe(11);
+    });
+
+    it('prefers the mixer recorded in the log over the FC', async () => {
+      mockParse.mockResolvedValue({
+        sessions: [
+          {
+            index: 0,
+            header: { rawHeaders: new Map([['mixer', 'Y6']]) },
+            flightData: {},
+            events: [],
+          },
+        ],
+        success: true,
+        parseTimeMs: 100,
+      });
+      mockMSP.getMixerMode.mockClear();
+      const { event } = createMockEvent();
+      await invokeWithEvent(IPCChannel.ANALYSIS_RUN_FILTER, event, 'log-1', 0);
+      expect(mockAnalyzeFilters.mock.calls.at(-1)?.[4].mixerMode).toBe(6);
+      expect(mockMSP.getMixerMode).not.toHaveBeenCalled();
+    });
+
     it('auto-reads filter settings from FC when not provided', async () => {
       const { event } = createMockEvent();
       await invokeWithEvent(IPCChannel.ANALYSIS_RUN_FILTER, event, 'log-1');
@@ -1082,6 +1578,31 @@ describe('IPC Handlers', () => {
       expect(res.data.warnings[0].code).toBe('wrong_debug_mode');
     });
 
+    it('keeps the noise analysis but drops recommendations for other firmwares', async () => {
+      mockParse.mockResolvedValue({
+        sessions: [
+          {
+            index: 0,
+            header: { firmware: 'inav', rawHeaders: new Map() },
+            flightData: {},
+            events: [],
+          },
+        ],
+        success: true,
+        parseTimeMs: 100,
+      });
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.ANALYSIS_RUN_FILTER, event, 'log-1', 0, {
+        gyro_lpf1_static_hz: 250,
+      });
+      expect(res.success).toBe(true);
+      expect(res.data.noise.overallLevel).toBe('medium');
+      expect(res.data.recommendations).toEqual([]);
+      expect(res.data.warnings.map((w: any) => w.code)).toContain('unsupported_firmware');
+      // The given (FC) settings don't describe an INAV log
+      expect(mockAnalyzeFilters.mock.calls.at(-1)?.[2]).toBeUndefined();
+    });
+
     it('reports progress via events', async () => {
       mockAnalyzeFilters.mockImplementation(
         async (_data: any, _idx: any, _settings: any, onProgress: any) => {
@@ -1145,6 +1666,20 @@ describe('IPC Handlers', () => {
       expect(res.data.stepsDetected).toBe(15);
     });
 
+    it('refuses logs from firmwares whose PID controller is not modelled', async () => {
+      mockParse.mockResolvedValue({
+        sessions: [{ index: 0, header: { firmware: 'rotorflight', rawHeaders: new Map() } }],
+        success: true,
+        parseTimeMs: 100,
+      });
+      const { event } = createMockEvent();
+      const calls = mockAnalyzePID.mock.calls.length;
+      const res = await invokeWithEvent(IPCChannel.ANALYSIS_RUN_PID, event, 'log-1', 0);
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('not supported for Rotorflight logs');
+      expect(mockAnalyzePID).toHaveBeenCalledTimes(calls);
+    });
+
     it('auto-reads PID config from FC when not provided', async () => {
       const { event } = createMockEvent();
       await invokeWithEvent(IPCChannel.ANALYSIS_RUN_PID, event, 'log-1');
@@ -1177,17 +1712,82 @@ describe('IPC Handlers', () => {
       expect(res.success).toBe(false);
       expect(res.error).toContain('out of range');
     });
+
+    it('attaches rates analysis using the FC rates', async () => {
+      mockAnalyzeRates.mockReturnValue({ summary: 'Rates' });
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.ANALYSIS_RUN_PID, event, 'log-1', 0);
+
+      expect(res.data.ratesAnalysis).toEqual({ summary: 'Rates' });
+      expect(mockMSP.getRatesConfiguration).toHaveBeenCalled();
+      expect(mockAnalyzeRates).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ ratesType: 'ACTUAL' })
+      );
+      expect(mockExtractRatesConfiguration).not.toHaveBeenCalled();
+    });
+
+    it('falls back to BBL header rates when the FC read fails', async () => {
+      mockMSP.getRatesConfiguration.mockRejectedValue(new Error('timeout'));
+      mockExtractRatesConfiguration.mockReturnValue(undefined);
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.ANALYSIS_RUN_PID, event, 'log-1', 0);
+
+      expect(res.success).toBe(true);
+      expect(mockExtractRatesConfiguration).toHaveBeenCalled();
+      expect(res.data.ratesAnalysis).toBeUndefined();
+    });
   });
 
-  // ─── Tuning Apply Recommendations ──────────────────────────────────────
+  describe('ANALYSIS_RUN_TRANSFER_FUNCTION', () => {
+    beforeEach(() => {
+      vi.mocked(fsp.readFile).mockResolvedValue(Buffer.from('log-data'));
+      mockAnalyzeTransferFunction.mockResolvedValue({
+        roll: { responses: [], meanOvershoot: 10 },
+        pitch: { responses: [], meanOvershoot: 12 },
+        yaw: { responses: [], meanOvershoot: 8 },
+        recommendations: [{ setting: 'pid_roll_d', currentValue: 40, recommendedValue: 35 }],
+        summary: 'Test TF',
+        analysisTimeMs: 300,
+        sessionIndex: 0,
+        stepsDetected: 0,
+      });
+    });
 
-  describe('TUNING_APPLY_RECOMMENDATIONS', () => {
-    const baseInput = {
-      filterRecommendations: [
-        {
-          setting: 'gyro_lpf1_static_hz',
-          currentValue: 250,
-          recommendedValue: 200,
+    it('keeps the transfer function but drops PID advice for imported logs', async () => {
+      mockParse.mockResolvedValue({
+        sessions: [{ index: 0, header: { firmware: 'ardupilot', rawHeaders: new Map() } }],
+        success: true,
+        parseTimeMs: 100,
+      });
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(
+        IPCChannel.ANALYSIS_RUN_TRANSFER_FUNCTION,
+        event,
+        'log-1',
+        0,
+        { roll: { P: 45, I: 80, D: 40 } }
+      );
+
+      expect(res.success).toBe(true);
+      expect(res.data.recommendations).toEqual([]);
+      expect(res.data.summary).toContain('ArduPilot');
+      expect(res.data.warnings[0].code).toBe('unsupported_firmware');
+      // Betaflight PIDs from the FC don't describe an ArduPilot log
+      expect(mockAnalyzeTransferFunction.mock.calls.at(-1)?.[2]).toBeUndefined();
+    });
+  });
+
+  // ─── Tuning Apply Recommendations ──────────────────────────────────────
+
+  describe('TUNING_APPLY_RECOMMENDATIONS', () => {
+    // rpm_filter_q is not in MSP_FILTER_CONFIG, so it still goes through CLI
+    const baseInput = {
+      filterRecommendations: [
+        {
+          setting: 'rpm_filter_q',
+          currentValue: 500,
+          recommendedValue: 800,
           reason: '',
           impact: 'noise' as const,
           confidence: 'high' as const,
@@ -1230,6 +1830,89 @@ describe('IPC Handlers', () => {
       expect(callOrder).toEqual(['setPID', 'enterCLI', 'sendCLI', 'save']);
     });
 
+    it('writes to the drone that is active when applying, not the one at startup', async () => {
+      const second = createMockMSPClient();
+      setMSPClient(second);
+
+      const res = await invoke(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, baseInput);
+
+      expect(res.success).toBe(true);
+      expect(second.setPIDConfiguration).toHaveBeenCalled();
+      expect(second.saveAndReboot).toHaveBeenCalled();
+      expect(mockMSP.setPIDConfiguration).not.toHaveBeenCalled();
+    });
+
+    it('keeps writing to the same drone when another one becomes active mid-apply', async () => {
+      const second = createMockMSPClient();
+      mockMSP.setPIDConfiguration.mockImplementation(async () => {
+        setMSPClient(second);
+      });
+
+      const res = await invoke(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, baseInput);
+
+      expect(res.success).toBe(true);
+      expect(mockMSP.connection.sendCLICommand).toHaveBeenCalled();
+      expect(mockMSP.saveAndReboot).toHaveBeenCalled();
+      expect(second.connection.sendCLICommand).not.toHaveBeenCalled();
+      expect(second.saveAndReboot).not.toHaveBeenCalled();
+    });
+
+    it('blocks connecting and switching drones until the apply finishes', async () => {
+      let finishSave!: () => void;
+      mockMSP.saveAndReboot.mockImplementation(
+        () => new Promise<void>((resolve) => (finishSave = resolve))
+      );
+
+      const pending = invoke(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, baseInput);
+      await vi.waitFor(() => expect(mockMSP.saveAndReboot).toHaveBeenCalled());
+
+      const connect = await invoke(IPCChannel.CONNECTION_CONNECT, '/dev/ttyUSB1');
+      const switchTo = await invoke(IPCChannel.CONNECTION_SET_ACTIVE, '/dev/ttyUSB1');
+      expect(connect.error).toContain('Wait for the apply to finish');
+      expect(switchTo.error).toContain('Wait for the apply to finish');
+      expect(canSwitchDrone()).toBe(false);
+      expect(mockConnectionMgr.connect).not.toHaveBeenCalled();
+      expect(mockConnectionMgr.setActive).not.toHaveBeenCalled();
+
+      finishSave();
+      expect((await pending).success).toBe(true);
+      expect(canSwitchDrone()).toBe(true);
+    });
+
+    it('refuses to apply to a drone other than the active one', async () => {
+      const res = await invoke(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, baseInput, '/dev/ttyUSB1');
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('/dev/ttyUSB1 is not the active drone');
+      expect(mockMSP.setPIDConfiguration).not.toHaveBeenCalled();
+    });
+
+    it('applies angle/horizon (level) recommendations to the level controller', async () => {
+      mockMSP.getPIDConfiguration.mockResolvedValue({
+        roll: { P: 45, I: 80, D: 40 },
+        pitch: { P: 47, I: 84, D: 43 },
+        yaw: { P: 45, I: 80, D: 0 },
+        level: { P: 50, I: 75, D: 75 },
+        mag: { P: 40, I: 0, D: 0 },
+      });
+      const input = {
+        ...baseInput,
+        filterRecommendations: [],
+        pidRecommendations: [
+          { ...baseInput.pidRecommendations[0], setting: 'pid_level_p', recommendedValue: 60 },
+        ],
+      };
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(true);
+      expect(res.data.appliedPIDs).toBe(1);
+      const setCall = mockMSP.setPIDConfiguration.mock.calls[0][0];
+      expect(setCall.level).toEqual({ P: 60, I: 75, D: 75 });
+      expect(setCall.mag).toEqual({ P: 40, I: 0, D: 0 });
+      expect(setCall.roll).toEqual({ P: 45, I: 80, D: 40 });
+    });
+
     it('clamps PID values to 0-255', async () => {
       const input = {
         ...baseInput,
@@ -1285,6 +1968,213 @@ describe('IPC Handlers', () => {
       expect(res.data.appliedPIDs).toBe(1);
       expect(res.data.appliedFilters).toBe(0);
       expect(mockMSP.connection.enterCLI).not.toHaveBeenCalled();
+      expect(mockMSP.saveToEeprom).toHaveBeenCalled();
+      expect(mockMSP.saveAndReboot).not.toHaveBeenCalled();
+    });
+
+    it('writes MSP-covered filters via MSP and saves without reboot', async () => {
+      const input = {
+        ...baseInput,
+        filterRecommendations: [
+          {
+            setting: 'gyro_lpf1_static_hz',
+            currentValue: 250,
+            recommendedValue: 200.4,
+            reason: '',
+            impact: 'noise' as const,
+            confidence: 'high' as const,
+          },
+          {
+            setting: 'dterm_lpf1_dyn_expo',
+            currentValue: 5,
+            recommendedValue: 7,
+            reason: '',
+            impact: 'noise' as const,
+            confidence: 'medium' as const,
+          },
+        ],
+      };
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(true);
+      expect(res.data.appliedFilters).toBe(2);
+      expect(res.data.rebooted).toBe(false);
+      expect(mockMSP.setFilterConfiguration).toHaveBeenCalledWith({
+        gyro_lpf1_static_hz: 200,
+        dterm_lpf1_dyn_expo: 7,
+      });
+      expect(mockMSP.connection.enterCLI).not.toHaveBeenCalled();
+      expect(mockMSP.saveToEeprom).toHaveBeenCalled();
+      expect(mockMSP.saveAndReboot).not.toHaveBeenCalled();
+    });
+
+    it('writes MSP-covered filters before entering CLI for the rest', async () => {
+      const input = {
+        ...baseInput,
+        filterRecommendations: [
+          ...baseInput.filterRecommendations,
+          {
+            setting: 'dyn_notch_count',
+            currentValue: 3,
+            recommendedValue: 2,
+            reason: '',
+            impact: 'latency' as const,
+            confidence: 'high' as const,
+          },
+        ],
+      };
+      const { event } = createMockEvent();
+      const callOrder: string[] = [];
+      mockMSP.setFilterConfiguration.mockImplementation(async () => {
+        callOrder.push('setFilter');
+      });
+      mockMSP.connection.enterCLI.mockImplementation(async () => {
+        callOrder.push('enterCLI');
+      });
+      mockMSP.connection.sendCLICommand.mockImplementation(async (cmd: string) => {
+        callOrder.push(`cli:${cmd}`);
+        return '';
+      });
+      mockMSP.saveAndReboot.mockImplementation(async () => {
+        callOrder.push('save');
+      });
+
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(true);
+      expect(res.data.appliedFilters).toBe(2);
+      expect(res.data.rebooted).toBe(true);
+      expect(callOrder).toEqual(['setFilter', 'enterCLI', 'cli:set rpm_filter_q = 800', 'save']);
+      expect(mockMSP.saveToEeprom).not.toHaveBeenCalled();
+    });
+
+    it('returns error when the MSP filter write fails', async () => {
+      mockMSP.setFilterConfiguration.mockRejectedValue(
+        new Error('Failed to set filter configuration')
+      );
+      const input = {
+        ...baseInput,
+        filterRecommendations: [
+          { ...baseInput.filterRecommendations[0], setting: 'dyn_notch_q', recommendedValue: 250 },
+        ],
+      };
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('Filter changes failed (0/1 applied)');
+      expect(res.error).toContain('1 PID changes were already written');
+      expect(mockMSP.saveToEeprom).not.toHaveBeenCalled();
+    });
+
+    it('writes rates via MSP and saves without reboot', async () => {
+      const input = {
+        filterRecommendations: [],
+        pidRecommendations: [],
+        feedforwardRecommendations: [],
+        ratesRecommendations: [
+          {
+            setting: 'roll_srate',
+            currentValue: 67,
+            recommendedValue: 77,
+            reason: '',
+            impact: 'response' as const,
+            confidence: 'medium' as const,
+          },
+        ],
+      };
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(true);
+      expect(res.data.appliedRates).toBe(1);
+      expect(res.data.rebooted).toBe(false);
+      expect(mockMSP.setRatesConfiguration).toHaveBeenCalledWith({ roll_srate: 77 });
+      expect(mockMSP.connection.enterCLI).not.toHaveBeenCalled();
+      expect(mockMSP.saveToEeprom).toHaveBeenCalled();
+    });
+
+    it('returns error without saving when the rates write fails', async () => {
+      mockMSP.setRatesConfiguration.mockRejectedValue(new Error('Failed to set rates'));
+      const input = {
+        ...baseInput,
+        filterRecommendations: [],
+        ratesRecommendations: [
+          {
+            setting: 'yaw_expo',
+            currentValue: 0,
+            recommendedValue: 20,
+            reason: '',
+            impact: 'precision' as const,
+            confidence: 'medium' as const,
+          },
+        ],
+      };
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('Rate changes failed');
+      expect(res.error).toContain('1 PID/filter changes were already written');
+      expect(mockMSP.saveToEeprom).not.toHaveBeenCalled();
+    });
+
+    it('clamps values outside the firmware range before writing', async () => {
+      setSettingsSchemaManager(createMockSettingsSchemaManager());
+      const input = {
+        ...baseInput,
+        filterRecommendations: [{ ...baseInput.filterRecommendations[0], recommendedValue: 4000 }],
+      };
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(true);
+      expect(mockMSP.connection.sendCLICommand).toHaveBeenCalledWith('set rpm_filter_q = 3000');
+      // The renderer records these, not the unclamped recommendations
+      expect(res.data.writtenValues).toEqual({ pid_roll_p: 50, rpm_filter_q: 3000 });
+    });
+
+    it('writes nothing when a value is invalid for the firmware', async () => {
+      setSettingsSchemaManager(createMockSettingsSchemaManager());
+      const input = {
+        ...baseInput,
+        ratesRecommendations: [
+          {
+            setting: 'rates_type',
+            currentValue: 3,
+            recommendedValue: 7,
+            reason: '',
+            impact: 'response' as const,
+            confidence: 'medium' as const,
+          },
+        ],
+      };
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('Nothing was written');
+      expect(res.error).toContain('rates_type = 7');
+      expect(mockMSP.setPIDConfiguration).not.toHaveBeenCalled();
+      expect(mockMSP.connection.enterCLI).not.toHaveBeenCalled();
+    });
+
+    it('applies unchecked without a cached schema, never reading it mid-apply', async () => {
+      const schemaMgr = createMockSettingsSchemaManager();
+      schemaMgr.getCachedSchema.mockResolvedValue(null);
+      setSettingsSchemaManager(schemaMgr);
+      const { event } = createMockEvent();
+      const input = {
+        ...baseInput,
+        filterRecommendations: [{ ...baseInput.filterRecommendations[0], recommendedValue: 4000 }],
+      };
+      const res = await invokeWithEvent(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, event, input);
+
+      expect(res.success).toBe(true);
+      expect(mockMSP.connection.sendCLICommand).toHaveBeenCalledWith('set rpm_filter_q = 4000');
+      // Reading the schema leaves CLI with a reboot
+      expect(schemaMgr.getSchema).not.toHaveBeenCalled();
     });
 
     it('returns success without reboot when no recommendations', async () => {
@@ -1426,6 +2316,33 @@ describe('IPC Handlers', () => {
   // ─── Snapshot Restore ──────────────────────────────────────────────────
 
   describe('SNAPSHOT_RESTORE', () => {
+    it('clamps out-of-range values and skips settings the firmware lacks', async () => {
+      setSettingsSchemaManager(createMockSettingsSchemaManager());
+      mockSnapshotMgr.loadSnapshot.mockResolvedValue({
+        id: 'snap-1',
+        configuration: {
+          cliDiff: [
+            'set gyro_lpf1_static_hz = 1200',
+            'set dyn_lpf_gyro_min_hz = 200',
+            'set motor_poles = 12',
+          ].join('\n'),
+        },
+      });
+
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.SNAPSHOT_RESTORE, event, 'snap-1', false);
+
+      expect(res.success).toBe(true);
+      expect(res.data.appliedCommands).toBe(2);
+      expect(res.data.failedCommands).toEqual(['set dyn_lpf_gyro_min_hz = 200']);
+      expect(mockMSP.connection.sendCLICommand).toHaveBeenCalledWith(
+        'set gyro_lpf1_static_hz = 1000'
+      );
+      expect(mockMSP.connection.sendCLICommand).not.toHaveBeenCalledWith(
+        'set dyn_lpf_gyro_min_hz = 200'
+      );
+    });
+
     it('restores snapshot with backup → CLI commands → save', async () => {
       const { event } = createMockEvent();
       const res = await invokeWithEvent(IPCChannel.SNAPSHOT_RESTORE, event, 'snap-1', true);
@@ -1512,6 +2429,87 @@ describe('IPC Handlers', () => {
       expect(stages).toContain('save');
     });
 
+    it('full restore resets to defaults, replays in profile context and reports residuals', async () => {
+      mockSnapshotMgr.loadSnapshot.mockResolvedValue({
+        id: 'snap-1',
+        configuration: {
+          cliDiff: [
+            '# master',
+            'set motor_poles = 12',
+            'profile 1',
+            '# profile 1',
+            'set p_roll = 52',
+            '# restore original profile selection',
+            'profile 0',
+          ].join('\n'),
+        },
+      });
+      mockMSP.connection.sendCLICommand.mockImplementation(async (cmd: string) =>
+        cmd === 'diff all'
+          ? 'diff all\r\nset motor_poles = 12\r\nprofile 1\r\nset p_roll = 50\r\nprofile 0\r\n# '
+          : ''
+      );
+
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(
+        IPCChannel.SNAPSHOT_RESTORE,
+        event,
+        'snap-1',
+        false,
+        'full'
+      );
+
+      expect(res.success).toBe(true);
+      expect(res.data.mode).toBe('full');
+      const sent = mockMSP.connection.sendCLICommand.mock.calls.map((c: any[]) => c[0]);
+      expect(sent).toEqual([
+        'defaults nosave',
+        'set motor_poles = 12',
+        'profile 1',
+        'set p_roll = 52',
+        'profile 0',
+        'diff all',
+      ]);
+      expect(res.data.residualDifferences).toEqual([
+        { scope: 'profile 1', key: 'set p_roll', expected: '52', actual: '50' },
+      ]);
+      expect(mockMSP.saveAndReboot).toHaveBeenCalled();
+    });
+
+    it('merge restore neither resets to defaults nor reads back', async () => {
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(IPCChannel.SNAPSHOT_RESTORE, event, 'snap-1', false);
+
+      expect(res.data.mode).toBe('merge');
+      expect(res.data.residualDifferences).toBeUndefined();
+      expect(mockMSP.connection.sendCLICommand).not.toHaveBeenCalledWith(
+        'defaults nosave',
+        expect.anything()
+      );
+      expect(mockMSP.connection.sendCLICommand).not.toHaveBeenCalledWith(
+        'diff all',
+        expect.anything()
+      );
+    });
+
+    it('aborts a full restore without saving when defaults is rejected', async () => {
+      mockMSP.connection.sendCLICommand.mockImplementation(async (cmd: string) =>
+        cmd === 'defaults nosave' ? 'defaults nosave\r\nUnknown command\r\n# ' : ''
+      );
+
+      const { event } = createMockEvent();
+      const res = await invokeWithEvent(
+        IPCChannel.SNAPSHOT_RESTORE,
+        event,
+        'snap-1',
+        false,
+        'full'
+      );
+
+      expect(res.success).toBe(false);
+      expect(mockMSP.saveAndReboot).not.toHaveBeenCalled();
+    });
+
     it('continues restore when CLI command is rejected, reports failed commands', async () => {
       mockMSP.connection.sendCLICommand.mockResolvedValue(
         'set bad_setting = 200\r\nInvalid name\r\n# '
@@ -1625,6 +2623,248 @@ describe('IPC Handlers', () => {
     });
   });
 
+  // ─── Bench Vibration Check ──────────────────────────────────────────────
+
+  describe('BENCH_START', () => {
+    const benchConfig = {
+      mode: 'together',
+      throttlePercent: 15,
+      stepSeconds: 5,
+      propsRemoved: true,
+    };
+
+    it('refuses to spin motors without props-removed confirmation', async () => {
+      const res = await invoke(IPCChannel.BENCH_START, { ...benchConfig, propsRemoved: false });
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('propellers');
+      expect(mockMSP.setMotorValues).not.toHaveBeenCalled();
+    });
+
+    it('returns error when FC not connected', async () => {
+      mockMSP.isConnected.mockReturnValue(false);
+      const res = await invoke(IPCChannel.BENCH_START, benchConfig);
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('not connected');
+    });
+
+    it('stops motors and reports the final state when the gyro stream fails', async () => {
+      mockMSP.getRawImu.mockRejectedValue(new Error('Response timeout'));
+      const { event, sentEvents } = createMockEvent();
+
+      const res = await invokeWithEvent(IPCChannel.BENCH_START, event, benchConfig);
+
+      expect(res.success).toBe(true);
+      expect(res.data.state).toBe('error');
+      expect(mockMSP.setMotorValues).toHaveBeenCalledWith([1150, 1150, 1150, 1150]);
+      expect(mockMSP.setMotorValues).toHaveBeenLastCalledWith([]);
+      expect(sentEvents.some((e) => e.channel === IPCChannel.EVENT_BENCH_UPDATE)).toBe(true);
+    });
+  });
+
+  // ─── CLI Console ────────────────────────────────────────────────────────
+
+  describe('CLI_SEND_COMMAND', () => {
+    it('runs read-only commands', async () => {
+      const res = await invoke(IPCChannel.CLI_SEND_COMMAND, ' get gyro_lpf1 ');
+      expect(res.success).toBe(true);
+      expect(res.data).toBe('gyro_lpf1_static_hz = 250');
+      expect(mockMSP.runCLICommand).toHaveBeenCalledWith('get gyro_lpf1');
+    });
+
+    it('rejects commands that change config', async () => {
+      const res = await invoke(IPCChannel.CLI_SEND_COMMAND, 'set gyro_lpf1_static_hz = 300');
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('batch mode');
+      expect(mockMSP.runCLICommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('CLI_APPLY_BATCH', () => {
+    it('snapshots, sends normalized set lines, then saves', async () => {
+      const res = await invoke(IPCChannel.CLI_APPLY_BATCH, [
+        'set gyro_lpf1_static_hz=300',
+        'set dshot_idle_value = 550',
+      ]);
+
+      expect(res.success).toBe(true);
+      expect(res.data).toEqual({
+        snapshotId: 'snap-new',
+        appliedCommands: ['set gyro_lpf1_static_hz = 300', 'set dshot_idle_value = 550'],
+      });
+      expect(mockSnapshotMgr.createSnapshot).toHaveBeenCalledWith('Pre-CLI batch (auto)', 'auto');
+      expect(mockMSP.connection.sendCLICommand).toHaveBeenCalledWith(
+        'set gyro_lpf1_static_hz = 300'
+      );
+      expect(mockMSP.saveAndReboot).toHaveBeenCalled();
+      expect(consumePendingSettingsSnapshot()).toBe(true);
+    });
+
+    it('keeps sending to the same drone when another one becomes active mid-batch', async () => {
+      const second = createMockMSPClient();
+      mockSnapshotMgr.createSnapshot.mockImplementationOnce(async () => {
+        setMSPClient(second);
+        return { id: 'snap-new' };
+      });
+
+      const res = await invoke(IPCChannel.CLI_APPLY_BATCH, ['set motor_poles = 12']);
+
+      expect(res.success).toBe(true);
+      expect(mockMSP.connection.sendCLICommand).toHaveBeenCalledWith('set motor_poles = 12');
+      expect(mockMSP.saveAndReboot).toHaveBeenCalled();
+      expect(second.connection.sendCLICommand).not.toHaveBeenCalled();
+      expect(second.saveAndReboot).not.toHaveBeenCalled();
+    });
+
+    it('blocks connecting and switching drones until the batch finishes', async () => {
+      let finishSave!: () => void;
+      mockMSP.saveAndReboot.mockImplementation(
+        () => new Promise<void>((resolve) => (finishSave = resolve))
+      );
+
+      const pending = invoke(IPCChannel.CLI_APPLY_BATCH, ['set motor_poles = 12']);
+      await vi.waitFor(() => expect(mockMSP.saveAndReboot).toHaveBeenCalled());
+
+      const connect = await invoke(IPCChannel.CONNECTION_CONNECT, '/dev/ttyUSB1');
+      const switchTo = await invoke(IPCChannel.CONNECTION_SET_ACTIVE, '/dev/ttyUSB1');
+      expect(connect.error).toContain('Wait for the CLI batch to finish');
+      expect(switchTo.error).toContain('Wait for the CLI batch to finish');
+      expect(canSwitchDrone()).toBe(false);
+      expect(mockConnectionMgr.connect).not.toHaveBeenCalled();
+
+      finishSave();
+      expect((await pending).success).toBe(true);
+      expect(canSwitchDrone()).toBe(true);
+    });
+
+    it('leaves the console CLI session before taking the snapshot', async () => {
+      mockMSP.connection.isInCLI.mockReturnValue(true);
+      await invoke(IPCChannel.CLI_APPLY_BATCH, ['set motor_poles = 12']);
+
+      expect(mockMSP.exitCLIConsole.mock.invocationCallOrder[0]).toBeLessThan(
+        mockSnapshotMgr.createSnapshot.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('rejects the whole batch when a value is outside the firmware limits', async () => {
+      setSettingsSchemaManager(createMockSettingsSchemaManager());
+      const res = await invoke(IPCChannel.CLI_APPLY_BATCH, [
+        'set motor_poles = 12',
+        'set rpm_filter_q = 100',
+      ]);
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('Nothing was sent');
+      expect(res.error).toContain('rpm_filter_q must be 250 - 3000');
+      expect(mockSnapshotMgr.createSnapshot).not.toHaveBeenCalled();
+      expect(mockMSP.connection.sendCLICommand).not.toHaveBeenCalled();
+    });
+
+    it('refuses anything but set commands', async () => {
+      const res = await invoke(IPCChannel.CLI_APPLY_BATCH, ['set motor_poles = 12', 'save']);
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('only accepts set');
+      expect(mockSnapshotMgr.createSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('reboots without saving when the FC rejects a line', async () => {
+      mockMSP.connection.sendCLICommand
+        .mockResolvedValueOnce('')
+        .mockResolvedValueOnce('set bogus = 1\r\nInvalid name\r\n# ');
+
+      const res = await invoke(IPCChannel.CLI_APPLY_BATCH, [
+        'set motor_poles = 12',
+        'set bogus = 1',
+      ]);
+
+      expect(res.success).toBe(false);
+      expect(res.error).toContain('1 of 2 commands were sent');
+      expect(res.error).toContain('FC was NOT saved');
+      expect(mockMSP.saveAndReboot).not.toHaveBeenCalled();
+      expect(mockMSP.exitCLIConsole).toHaveBeenCalled();
+    });
+  });
+
+  describe('FC_GET_SETTINGS_SCHEMA', () => {
+    it('returns the cached schema without reading the FC', async () => {
+      const schemaMgr = createMockSettingsSchemaManager();
+      setSettingsSchemaManager(schemaMgr);
+
+      const res = await invoke(IPCChannel.FC_GET_SETTINGS_SCHEMA);
+
+      expect(res.success).toBe(true);
+      expect(res.data.firmware).toBe('BTFL 4.5.1');
+      expect(schemaMgr.getSchema).not.toHaveBeenCalled();
+    });
+  });
+
+  // ─── App Backup ─────────────────────────────────────────────────────────
+
+  describe('App backup', () => {
+    let backupMgr: {
+      exportToFile: ReturnType<typeof vi.fn>;
+      importFromFile: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(() => {
+      backupMgr = {
+        exportToFile: vi.fn().mockResolvedValue(undefined),
+        importFromFile: vi.fn().mockResolvedValue({ profilesAdded: 1, appFilesRestored: [] }),
+      };
+      setAppBackupManager(backupMgr);
+    });
+
+    afterEach(() => {
+      setAppBackupManager(null);
+    });
+
+    it('exports one profile to the file picked in the save dialog', async () => {
+      mockProfileMgr.getProfile.mockResolvedValueOnce({ id: 'prof-1', name: 'Race Quad' });
+      vi.mocked(dialog.showSaveDialog).mockResolvedValue({
+        canceled: false,
+        filePath: '/backups/race.fpvbackup',
+      });
+
+      const res = await invoke(IPCChannel.APP_BACKUP_EXPORT, { profileId: 'prof-1' });
+
+      expect(res).toEqual({ success: true, data: '/backups/race.fpvbackup', error: undefined });
+      expect(vi.mocked(dialog.showSaveDialog).mock.calls[0][0]).toMatchObject({
+        title: 'Export Race Quad',
+        defaultPath: expect.stringMatching(/^fpvpidlab-race-quad-\d{4}-\d{2}-\d{2}\.fpvbackup$/),
+      });
+      expect(backupMgr.exportToFile).toHaveBeenCalledWith('/backups/race.fpvbackup', {
+        profileId: 'prof-1',
+      });
+    });
+
+    it('returns null when the export dialog is cancelled', async () => {
+      vi.mocked(dialog.showSaveDialog).mockResolvedValue({ canceled: true, filePath: '' });
+
+      const res = await invoke(IPCChannel.APP_BACKUP_EXPORT);
+
+      expect(res.data).toBeNull();
+      expect(backupMgr.exportToFile).not.toHaveBeenCalled();
+    });
+
+    it('imports the picked archive and refreshes the profile views', async () => {
+      vi.mocked(dialog.showOpenDialog).mockResolvedValue({
+        canceled: false,
+        filePaths: ['/backups/all.fpvbackup'],
+      });
+
+      const res = await invoke(IPCChannel.APP_BACKUP_IMPORT);
+
+      expect(res.success).toBe(true);
+      expect(res.data.profilesAdded).toBe(1);
+      expect(backupMgr.importFromFile).toHaveBeenCalledWith('/backups/all.fpvbackup', {
+        profileLimit: undefined,
+      });
+      expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+        IPCChannel.EVENT_PROFILE_CHANGED,
+        expect.objectContaining({ id: 'prof-1' })
+      );
+    });
+  });
+
   // ─── consumePendingSettingsSnapshot ─────────────────────────────────────
 
   describe('consumePendingSettingsSnapshot', () => {
@@ -1650,16 +2890,22 @@ describe('IPC Handlers', () => {
         IPCChannel.CONNECTION_CONNECT,
         IPCChannel.CONNECTION_DISCONNECT,
         IPCChannel.CONNECTION_GET_STATUS,
+        IPCChannel.CONNECTION_LIST,
+        IPCChannel.CONNECTION_SET_ACTIVE,
+        IPCChannel.CONNECTION_GET_AUTO_CONNECT,
+        IPCChannel.CONNECTION_SET_AUTO_CONNECT,
         IPCChannel.FC_GET_INFO,
         IPCChannel.FC_EXPORT_CLI,
         IPCChannel.FC_GET_BLACKBOX_SETTINGS,
         IPCChannel.FC_GET_FEEDFORWARD_CONFIG,
         IPCChannel.FC_FIX_BLACKBOX_SETTINGS,
+        IPCChannel.FC_GET_SETTINGS_SCHEMA,
         IPCChannel.SNAPSHOT_CREATE,
         IPCChannel.SNAPSHOT_LIST,
         IPCChannel.SNAPSHOT_DELETE,
         IPCChannel.SNAPSHOT_EXPORT,
         IPCChannel.SNAPSHOT_LOAD,
+        IPCChannel.SNAPSHOT_IMPORT,
         IPCChannel.PROFILE_CREATE,
         IPCChannel.PROFILE_CREATE_FROM_PRESET,
         IPCChannel.PROFILE_UPDATE,
@@ -1689,6 +2935,13 @@ describe('IPC Handlers', () => {
         IPCChannel.TUNING_START_SESSION,
         IPCChannel.TUNING_UPDATE_PHASE,
         IPCChannel.TUNING_RESET_SESSION,
+        IPCChannel.BENCH_START,
+        IPCChannel.BENCH_STOP,
+        IPCChannel.CLI_SEND_COMMAND,
+        IPCChannel.CLI_APPLY_BATCH,
+        IPCChannel.CLI_EXIT,
+        IPCChannel.APP_BACKUP_EXPORT,
+        IPCChannel.APP_BACKUP_IMPORT,
       ];
 
       for (const channel of expectedChannels) {
@@ -6,14 +6,19 @@ import type {
   PIDAnalysisResult,
   CurrentFilterSettings,
 } from '@shared/types/analysis.types';
-import type { PIDConfiguration } from '@shared/types/pid.types';
+import type { PIDConfiguration, RatesConfiguration } from '@shared/types/pid.types';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/errors';
 import { BlackboxParser } from '../../blackbox/BlackboxParser';
 import { analyze as analyzeFilters } from '../../analysis/FilterAnalyzer';
+import { findExcludedSpans } from '../../analysis/SegmentSelector';
+import { parseMixerMode } from '../../analysis/MechanicalHealthChecker';
 import { analyzePID, analyzeTransferFunction } from '../../analysis/PIDAnalyzer';
 import { extractFlightPIDs } from '../../analysis/PIDRecommender';
+import { analyzeRates, extractRatesConfiguration } from '../../analysis/RatesAnalyzer';
 import { validateBBLHeader, enrichSettingsFromBBLHeaders } from '../../analysis/headerValidation';
+import { betaflightHeaders, dialectOf } from '../../blackbox/FirmwareDialect';
+import { HEADER_KEYS } from '../../blackbox/constants';
 import type { HandlerDependencies } from './types';
 import { createResponse } from './types';
 
@@ -80,6 +85,12 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
         }
 
         const session = parseResult.sessions[idx];
+        const dialect = dialectOf(session.header);
+        const headers = betaflightHeaders(session.header);
+
+        // The connected FC's settings don't describe another firmware's log
+        const unsupported = dialect.unsupported.filter_recommendations;
+        if (unsupported) currentSettings = undefined;
 
         // Enrich filter settings with data from BBL headers as fallback
         // Runs when any key field is missing (RPM data, dyn_notch_count/q, rpm_filter_q, dterm expo)
@@ -92,7 +103,7 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
             currentSettings.dterm_lpf1_dyn_expo === undefined ||
             currentSettings.dterm_lpf1_dyn_min_hz === undefined)
         ) {
-          const enriched = enrichSettingsFromBBLHeaders(currentSettings, session.header.rawHeaders);
+          const enriched = enrichSettingsFromBBLHeaders(currentSettings, headers);
           if (enriched) {
             currentSettings = enriched;
             logger.info('Enriched filter settings from BBL headers');
@@ -100,10 +111,7 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
         } else if (!currentSettings) {
           // No FC connected and no settings provided — try to build from BBL headers
           const { DEFAULT_FILTER_SETTINGS } = await import('@shared/types/analysis.types');
-          const enriched = enrichSettingsFromBBLHeaders(
-            DEFAULT_FILTER_SETTINGS,
-            session.header.rawHeaders
-          );
+          const enriched = enrichSettingsFromBBLHeaders(DEFAULT_FILTER_SETTINGS, headers);
           if (enriched) {
             currentSettings = enriched;
             logger.info('Built filter settings from BBL headers (no FC connected)');
@@ -126,6 +134,18 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
           }
         }
 
+        // Mixer mode decides coaxial motor pairing in the mechanical health check.
+        // The log's own mixer wins; the FC may since have been set up differently.
+        const loggedMixer = session.header.rawHeaders.get(HEADER_KEYS.MIXER);
+        let mixerMode = loggedMixer !== undefined ? parseMixerMode(loggedMixer) : undefined;
+        if (mixerMode === undefined && deps.mspClient?.isConnected()) {
+          try {
+            mixerMode = await deps.mspClient.getMixerMode();
+          } catch {
+            // Older FC or read error — motors are compared as a flat frame
+          }
+        }
+
         // Run analysis with progress reporting
         const result = await analyzeFilters(
           session.flightData,
@@ -134,9 +154,37 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
           (progress) => {
             event.sender.send(IPCChannel.EVENT_ANALYSIS_PROGRESS, progress);
           },
-          { droneSize, flightStyle }
+          {
+            droneSize,
+            flightStyle,
+            excludedSpans: findExcludedSpans(session.events, dialect.flightModes(session.header)),
+            mixerMode,
+          }
         );
 
+        // Keep the noise analysis, drop the Betaflight-specific advice
+        if (unsupported) {
+          result.recommendations = [];
+          result.summary = `Noise analysis only — filter recommendations are not made for ${dialect.name} logs.`;
+          headerWarnings.push({
+            code: 'unsupported_firmware',
+            message: `${dialect.name} log: ${unsupported}. Filter recommendations are skipped.`,
+            severity: 'info',
+          });
+        }
+
+        // Angle mode and rescue spans can't be told apart without the firmware's flag bits
+        if (
+          !dialect.flightModes(session.header) &&
+          session.events.some((e) => e.type === 'state')
+        ) {
+          headerWarnings.push({
+            code: 'unsupported_firmware',
+            message: `${dialect.name} log: flight mode flags are not mapped — only failsafe phases are left out of the analysis.`,
+            severity: 'info',
+          });
+        }
+
         // Attach header warnings to the result
         if (headerWarnings.length > 0) {
           result.warnings = [...headerWarnings, ...(result.warnings || [])];
@@ -219,6 +267,13 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
         }
 
         const session = parseResult.sessions[idx];
+        const dialect = dialectOf(session.header);
+        if (dialect.unsupported.pid) {
+          return createResponse<PIDAnalysisResult>(
+            undefined,
+            `PID analysis is not supported for ${dialect.name} logs: ${dialect.unsupported.pid}`
+          );
+        }
 
         // Validate BBL header for data quality warnings
         const headerWarnings = validateBBLHeader(session.header);
@@ -263,6 +318,22 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
           droneWeight
         );
 
+        // Stick usage → rates. Prefer the FC's rates (what an apply would change),
+        // fall back to the ones logged in the BBL header.
+        let ratesConfig: RatesConfiguration | undefined;
+        if (deps.mspClient?.isConnected()) {
+          try {
+            ratesConfig = await deps.mspClient.getRatesConfiguration();
+          } catch {
+            // Older FC (pre-4.3) or read error — try the header
+          }
+        }
+        ratesConfig ??= extractRatesConfiguration(session.header.rawHeaders);
+        if (ratesConfig) {
+          const ratesAnalysis = analyzeRates(session.flightData, ratesConfig);
+          if (ratesAnalysis) result.ratesAnalysis = ratesAnalysis;
+        }
+
         // Attach header warnings to the result
         if (headerWarnings.length > 0) {
           result.warnings = [...headerWarnings, ...(result.warnings || [])];
@@ -342,6 +413,17 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
         }
 
         const session = parseResult.sessions[idx];
+        const dialect = dialectOf(session.header);
+        if (dialect.unsupported.transfer_function) {
+          return createResponse<PIDAnalysisResult>(
+            undefined,
+            `Transfer function analysis is not supported for ${dialect.name} logs: ` +
+              dialect.unsupported.transfer_function
+          );
+        }
+        // Bode plots and step response still apply; Betaflight PID advice doesn't
+        const unsupportedPid = dialect.unsupported.pid;
+        if (unsupportedPid) currentPIDs = undefined;
         const flightPIDs = extractFlightPIDs(session.header.rawHeaders);
 
         let flightStyle: 'smooth' | 'balanced' | 'aggressive' = 'balanced';
@@ -379,6 +461,19 @@ export function registerAnalysisHandlers(deps: HandlerDependencies): void {
           droneWeight
         );
 
+        if (unsupportedPid) {
+          result.recommendations = [];
+          result.summary = `Transfer function only — PID recommendations are not made for ${dialect.name} logs.`;
+          result.warnings = [
+            {
+              code: 'unsupported_firmware',
+              message: `${dialect.name} log: ${unsupportedPid}. PID recommendations are skipped.`,
+              severity: 'info',
+            },
+            ...(result.warnings || []),
+          ];
+        }
+
         logger.info(
           `Transfer function analysis complete: ${result.recommendations.length} recommendations, ${result.analysisTimeMs}ms`
         );
@@ -0,0 +1,95 @@
+import { ipcMain, dialog } from 'electron';
+import { IPCChannel, type IPCResponse } from '@shared/types/ipc.types';
+import type { AppBackupExportOptions, AppBackupImportResult } from '@shared/types/backup.types';
+import { APP_BACKUP, LICENSE } from '@shared/constants';
+import { HandlerDependencies, createResponse } from './types';
+import { logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/errors';
+import { getMainWindow } from '../../window';
+import { sendLicenseChanged, sendProfileChanged } from './events';
+
+const BACKUP_FILTERS = [
+  { name: 'FPVPIDlab backup', extensions: [APP_BACKUP.FILE_EXTENSION] },
+  { name: 'All Files', extensions: ['*'] },
+];
+
+/**
+ * Registers whole-app backup IPC handlers: export everything (or one profile)
+ * to a single archive, and merge an archive into this install.
+ */
+export function registerBackupHandlers(deps: HandlerDependencies): void {
+  ipcMain.handle(
+    IPCChannel.APP_BACKUP_EXPORT,
+    async (_, options: AppBackupExportOptions = {}): Promise<IPCResponse<string | null>> => {
+      try {
+        if (!deps.appBackupManager) throw new Error('Backup manager not initialized');
+
+        const profile = options.profileId
+          ? await deps.profileManager?.getProfile(options.profileId)
+          : null;
+        const date = new Date().toISOString().slice(0, 10);
+        const baseName = profile
+          ? `fpvpidlab-${profile.name.replace(/[^A-Za-z0-9-]+/g, '-').toLowerCase()}-${date}`
+          : `fpvpidlab-backup-${date}`;
+
+        const { canceled, filePath } = await dialog.showSaveDialog({
+          title: profile ? `Export ${profile.name}` : 'Export Backup',
+          defaultPath: `${baseName}.${APP_BACKUP.FILE_EXTENSION}`,
+          filters: BACKUP_FILTERS,
+        });
+        if (canceled || !filePath) {
+          // User cancelled — not an error
+          return createResponse<string | null>(null);
+        }
+
+        await deps.appBackupManager.exportToFile(filePath, options);
+        return createResponse<string | null>(filePath);
+      } catch (error) {
+        logger.error('Failed to export backup:', error);
+        return createResponse<string | null>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPCChannel.APP_BACKUP_IMPORT,
+    async (): Promise<IPCResponse<AppBackupImportResult | null>> => {
+      try {
+        if (!deps.appBackupManager) throw new Error('Backup manager not initialized');
+
+        const { canceled, filePaths } = await dialog.showOpenDialog({
+          title: 'Import Backup',
+          filters: BACKUP_FILTERS,
+          properties: ['openFile'],
+        });
+        if (canceled || filePaths.length === 0) {
+          return createResponse<AppBackupImportResult | null>(null);
+        }
+
+        const profileLimit =
+          deps.licenseManager && !deps.licenseManager.isPro()
+            ? LICENSE.FREE_PROFILE_LIMIT
+            : undefined;
+        const result: AppBackupImportResult = await deps.appBackupManager.importFromFile(
+          filePaths[0],
+          { profileLimit }
+        );
+
+        const window = getMainWindow();
+        if (result.appFilesRestored.includes('license.json') && deps.licenseManager) {
+          await deps.licenseManager.initialize();
+          if (window) sendLicenseChanged(window, deps.licenseManager.getLicenseStatus());
+        }
+        // Profile lists and the current profile's snapshots reload on this event
+        if (window && deps.profileManager) {
+          sendProfileChanged(window, await deps.profileManager.getCurrentProfile());
+        }
+
+        return createResponse<AppBackupImportResult | null>(result);
+      } catch (error) {
+        logger.error('Failed to import backup:', error);
+        return createResponse<AppBackupImportResult | null>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+}
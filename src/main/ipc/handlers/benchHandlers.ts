@@ -0,0 +1,59 @@
+import { ipcMain } from 'electron';
+import { IPCChannel, type IPCResponse } from '@shared/types/ipc.types';
+import type { BenchTestConfig, BenchTestUpdate } from '@shared/types/bench.types';
+import {
+  HandlerDependencies,
+  createResponse,
+  resolveMSPClient,
+  startFCOperation,
+  endFCOperation,
+} from './types';
+import { BenchVibrationTest } from '../../bench/BenchVibrationTest';
+import { logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/errors';
+
+/** The running bench test — only one may spin motors at a time */
+let activeBenchTest: BenchVibrationTest | null = null;
+
+/**
+ * Registers bench vibration check IPC handlers.
+ * BENCH_START resolves when the run ends; live spectra arrive via EVENT_BENCH_UPDATE.
+ */
+export function registerBenchHandlers(deps: HandlerDependencies): void {
+  ipcMain.handle(
+    IPCChannel.BENCH_START,
+    async (
+      event,
+      config: BenchTestConfig,
+      connectionId?: string
+    ): Promise<IPCResponse<BenchTestUpdate>> => {
+      try {
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
+        if (activeBenchTest) throw new Error('Bench test already running');
+        if (deps.isDownloadingBlackbox) throw new Error('Blackbox download in progress');
+
+        const test = new BenchVibrationTest(mspClient, config, (update) => {
+          event.sender.send(IPCChannel.EVENT_BENCH_UPDATE, update);
+        });
+        startFCOperation(deps, 'bench test');
+        activeBenchTest = test;
+        try {
+          return createResponse<BenchTestUpdate>(await test.run());
+        } finally {
+          activeBenchTest = null;
+          endFCOperation(deps);
+        }
+      } catch (error) {
+        logger.error('Bench test failed:', error);
+        return createResponse<BenchTestUpdate>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
+  ipcMain.handle(IPCChannel.BENCH_STOP, async (): Promise<IPCResponse<void>> => {
+    activeBenchTest?.stop('Stopped by user');
+    return createResponse<void>(undefined);
+  });
+}
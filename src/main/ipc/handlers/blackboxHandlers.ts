@@ -3,28 +3,80 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { IPCChannel } from '@shared/types/ipc.types';
 import type {
+  BlackboxDownloadOptions,
   BlackboxInfo,
   BlackboxLogMetadata,
   BlackboxParseResult,
+  GpsTrackFormat,
+  FlightDataExportFormat,
 } from '@shared/types/blackbox.types';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/errors';
 import { BlackboxParser } from '../../blackbox/BlackboxParser';
+import { GpsTrackExporter } from '../../blackbox/GpsTrackExporter';
 import { MSCProgress } from '../../msc/MSCManager';
 import type { HandlerDependencies } from './types';
-import { createResponse } from './types';
+import { createResponse, requireActiveConnection, resolveMSPClient } from './types';
+
+/** Partial flash downloads are written to disk in blocks of this size */
+const PARTIAL_FLUSH_BYTES = 64 * 1024;
+
+/** Bytes re-read from the end of the previous download to check the flash wasn't erased */
+const TAIL_CHECK_BYTES = 64;
+
+/**
+ * Flash offset where data logged since the last download from this FC begins.
+ * Re-reads the tail of the previous download from flash and compares it with
+ * the saved log, so an erased and re-filled flash isn't mistaken for new data.
+ */
+async function findNewDataOffset(
+  deps: HandlerDependencies,
+  mspClient: any,
+  fcSerial: string,
+  usedSize: number
+): Promise<number> {
+  const last = await deps.blackboxManager!.getLastFlashDownload(fcSerial);
+  if (!last?.flashRange) {
+    throw new Error('No previous flash download from this FC — download all logs first');
+  }
+
+  const end = last.flashRange.end;
+  if (usedSize < end) {
+    throw new Error('Flash was erased since the last download — download all logs');
+  }
+  if (usedSize === end) {
+    throw new Error('No new Blackbox data since the last download');
+  }
+
+  let saved: Buffer;
+  try {
+    saved = await fs.readFile(last.filepath);
+  } catch {
+    throw new Error('Previous download is no longer on disk — download all logs');
+  }
+  const length = Math.min(TAIL_CHECK_BYTES, saved.length);
+  if (length > 0) {
+    const onFlash = await mspClient.readBlackboxChunk(end - length, length);
+    if (!onFlash.data.equals(saved.subarray(saved.length - length))) {
+      throw new Error('Flash was erased since the last download — download all logs');
+    }
+  }
+
+  return end;
+}
 
 /**
  * Registers Blackbox-related IPC handlers.
  */
 export function registerBlackboxHandlers(deps: HandlerDependencies): void {
-  ipcMain.handle(IPCChannel.BLACKBOX_GET_INFO, async () => {
+  ipcMain.handle(IPCChannel.BLACKBOX_GET_INFO, async (_event, connectionId?: string) => {
     try {
-      if (!deps.mspClient) {
+      const mspClient = resolveMSPClient(deps, connectionId);
+      if (!mspClient) {
         return createResponse<BlackboxInfo>(undefined, 'MSP client not initialized');
       }
 
-      const info = await deps.mspClient.getBlackboxInfo();
+      const info = await mspClient.getBlackboxInfo();
       return createResponse<BlackboxInfo>(info);
     } catch (error) {
       logger.error('Failed to get Blackbox info:', error);
@@ -32,136 +84,208 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
     }
   });
 
-  ipcMain.handle(IPCChannel.BLACKBOX_DOWNLOAD_LOG, async (event) => {
-    try {
-      if (!deps.mspClient) {
-        logger.error('MSPClient not initialized');
-        return createResponse<BlackboxLogMetadata>(undefined, 'MSPClient not initialized');
-      }
-      if (!deps.blackboxManager) {
-        logger.error('BlackboxManager not initialized');
-        return createResponse<BlackboxLogMetadata>(undefined, 'BlackboxManager not initialized');
-      }
-      if (!deps.profileManager) {
-        logger.error('ProfileManager not initialized');
-        return createResponse<BlackboxLogMetadata>(undefined, 'ProfileManager not initialized');
-      }
+  ipcMain.handle(
+    IPCChannel.BLACKBOX_DOWNLOAD_LOG,
+    async (event, options?: BlackboxDownloadOptions, connectionId?: string) => {
+      try {
+        requireActiveConnection(deps, connectionId);
+        // The log is read from, and filed under, this drone even if another one
+        // is connected meanwhile
+        const mspClient = deps.mspClient;
+        const mscManager = deps.mscManager;
+        if (!mspClient) {
+          logger.error('MSPClient not initialized');
+          return createResponse<BlackboxLogMetadata>(undefined, 'MSPClient not initialized');
+        }
+        if (!deps.blackboxManager) {
+          logger.error('BlackboxManager not initialized');
+          return createResponse<BlackboxLogMetadata>(undefined, 'BlackboxManager not initialized');
+        }
+        if (!deps.profileManager) {
+          logger.error('ProfileManager not initialized');
+          return createResponse<BlackboxLogMetadata>(undefined, 'ProfileManager not initialized');
+        }
 
-      // Get current profile
-      const currentProfile = await deps.profileManager.getCurrentProfile();
-      if (!currentProfile) {
-        return createResponse<BlackboxLogMetadata>(undefined, 'No active profile selected');
-      }
+        // Get current profile
+        const currentProfile = await deps.profileManager.getCurrentProfile();
+        if (!currentProfile) {
+          return createResponse<BlackboxLogMetadata>(undefined, 'No active profile selected');
+        }
 
-      // Prevent concurrent downloads
-      if (deps.isDownloadingBlackbox) {
-        return createResponse<BlackboxLogMetadata>(undefined, 'Download already in progress');
-      }
+        // Prevent concurrent downloads
+        if (deps.isDownloadingBlackbox) {
+          return createResponse<BlackboxLogMetadata>(undefined, 'Download already in progress');
+        }
+        if (deps.activeFCOperation) {
+          return createResponse<BlackboxLogMetadata>(
+            undefined,
+            `Wait for the ${deps.activeFCOperation} to finish`
+          );
+        }
 
-      // #2: Refresh storage type before branching (cache may be stale after FC swap or SD removal)
-      const bbInfo = await deps.mspClient.getBlackboxInfo();
-      const storageType = bbInfo.storageType;
+        // #2: Refresh storage type before branching (cache may be stale after FC swap or SD removal)
+        const bbInfo = await mspClient.getBlackboxInfo();
+        const storageType = bbInfo.storageType;
 
-      // #7: Bail early for empty SD card — avoid unnecessary MSC reboot cycle (~30s)
-      if (storageType === 'sdcard' && !bbInfo.hasLogs) {
-        return createResponse<BlackboxLogMetadata>(
-          undefined,
-          'No logs on SD card — fly first, then download'
-        );
-      }
+        // #7: Bail early for empty SD card — avoid unnecessary MSC reboot cycle (~30s)
+        if (storageType === 'sdcard' && !bbInfo.hasLogs) {
+          return createResponse<BlackboxLogMetadata>(
+            undefined,
+            'No logs on SD card — fly first, then download'
+          );
+        }
 
-      // #9: Set flag AFTER early-return checks to prevent leak on early exit paths
-      deps.isDownloadingBlackbox = true;
+        // #9: Set flag AFTER early-return checks to prevent leak on early exit paths
+        deps.isDownloadingBlackbox = true;
 
-      try {
-        if (storageType === 'sdcard') {
-          // --- SD Card: MSC mode download ---
-          logger.info('Starting SD card download via MSC mode...');
+        try {
+          if (storageType === 'sdcard') {
+            // --- SD Card: MSC mode download ---
+            logger.info('Starting SD card download via MSC mode...');
 
-          if (!deps.mscManager) {
-            return createResponse<BlackboxLogMetadata>(undefined, 'MSC manager not initialized');
-          }
+            if (!mscManager) {
+              return createResponse<BlackboxLogMetadata>(undefined, 'MSC manager not initialized');
+            }
+
+            // Get FC info before MSC reboot (FC won't be available during MSC)
+            const fcInfo = await mspClient.getFCInfo();
 
-          // Get FC info before MSC reboot (FC won't be available during MSC)
-          const fcInfo = await deps.mspClient.getFCInfo();
+            const copiedFiles = await mscManager.downloadLogs(
+              deps.blackboxManager.getLogsDir(),
+              (progress: MSCProgress) => {
+                // Map MSC progress stages to percentage for renderer
+                event.sender.send(IPCChannel.EVENT_BLACKBOX_DOWNLOAD_PROGRESS, progress.percent);
+              }
+            );
 
-          const copiedFiles = await deps.mscManager.downloadLogs(
-            deps.blackboxManager.getLogsDir(),
-            (progress: MSCProgress) => {
-              // Map MSC progress stages to percentage for renderer
-              event.sender.send(IPCChannel.EVENT_BLACKBOX_DOWNLOAD_PROGRESS, progress.percent);
+            if (copiedFiles.length === 0) {
+              return createResponse<BlackboxLogMetadata>(
+                undefined,
+                'No log files found on SD card'
+              );
             }
-          );
 
-          if (copiedFiles.length === 0) {
-            return createResponse<BlackboxLogMetadata>(undefined, 'No log files found on SD card');
-          }
+            // Register each copied file in BlackboxManager
+            const allMetadata: BlackboxLogMetadata[] = [];
+            for (const file of copiedFiles) {
+              const metadata = await deps.blackboxManager.saveLogFromFile(
+                file.destPath,
+                file.originalName,
+                file.size,
+                currentProfile.id,
+                currentProfile.fcSerialNumber,
+                {
+                  variant: fcInfo.variant,
+                  version: fcInfo.version,
+                  target: fcInfo.target,
+                }
+              );
+              allMetadata.push(metadata);
+            }
 
-          // Register each copied file in BlackboxManager
-          const allMetadata: BlackboxLogMetadata[] = [];
-          for (const file of copiedFiles) {
-            const metadata = await deps.blackboxManager.saveLogFromFile(
-              file.destPath,
-              file.originalName,
-              file.size,
+            logger.info(`SD card download complete: ${allMetadata.length} logs saved`);
+
+            // Always return the last (newest) metadata for API compatibility.
+            // The preload API signature is Promise<BlackboxLogMetadata> (single object).
+            // Tuning workflow needs only the most recent flight log.
+            // All files are still saved to disk.
+            const latest = allMetadata[allMetadata.length - 1];
+            return createResponse<BlackboxLogMetadata>(latest);
+          } else {
+            // --- Flash: existing MSP_DATAFLASH_READ path ---
+            const fcSerial = currentProfile.fcSerialNumber;
+            const usedSize = bbInfo.usedSize;
+            const start = options?.newDataOnly
+              ? await findNewDataOffset(deps, mspClient, fcSerial, usedSize)
+              : 0;
+
+            // Resume an interrupted download of the same flash contents
+            const partial = await deps.blackboxManager.loadPartialDownload(
+              fcSerial,
+              start,
+              usedSize
+            );
+            const resumeFrom = start + partial.length;
+            logger.info(
+              partial.length > 0
+                ? `Resuming flash download at ${resumeFrom}/${usedSize} bytes`
+                : `Starting flash download via MSP at ${start}/${usedSize} bytes...`
+            );
+
+            // Buffer chunks and flush them to disk periodically so a dropped
+            // connection loses at most PARTIAL_FLUSH_BYTES
+            let pending: Buffer[] = [];
+            let pendingBytes = 0;
+            const flushPartial = async () => {
+              if (pendingBytes === 0) return;
+              const data = Buffer.concat(pending);
+              pending = [];
+              pendingBytes = 0;
+              await deps.blackboxManager!.appendPartialDownload(fcSerial, start, usedSize, data);
+            };
+
+            let downloadResult: { data: Buffer; compressionDetected: boolean };
+            try {
+              downloadResult = await mspClient.downloadBlackboxLog(
+                (...progress: unknown[]) => {
+                  event.sender.send(IPCChannel.EVENT_BLACKBOX_DOWNLOAD_PROGRESS, ...progress);
+                },
+                {
+                  startAddress: resumeFrom,
+                  onChunk: async (_address: number, chunk: Buffer) => {
+                    pending.push(chunk);
+                    pendingBytes += chunk.length;
+                    if (pendingBytes >= PARTIAL_FLUSH_BYTES) {
+                      await flushPartial();
+                    }
+                  },
+                }
+              );
+            } catch (error) {
+              await flushPartial().catch((flushError) =>
+                logger.warn('Failed to keep partial flash download:', flushError)
+              );
+              throw error;
+            }
+
+            const fcInfo = await mspClient.getFCInfo();
+
+            const metadata = await deps.blackboxManager.saveLog(
+              partial.length > 0
+                ? Buffer.concat([partial, downloadResult.data])
+                : downloadResult.data,
               currentProfile.id,
-              currentProfile.fcSerialNumber,
+              fcSerial,
               {
                 variant: fcInfo.variant,
                 version: fcInfo.version,
                 target: fcInfo.target,
+              },
+              {
+                compressionDetected: downloadResult.compressionDetected,
+                flashRange: { start, end: usedSize },
               }
             );
-            allMetadata.push(metadata);
-          }
+            await deps.blackboxManager.clearPartialDownload(fcSerial, start, usedSize);
 
-          logger.info(`SD card download complete: ${allMetadata.length} logs saved`);
-
-          // Always return the last (newest) metadata for API compatibility.
-          // The preload API signature is Promise<BlackboxLogMetadata> (single object).
-          // Tuning workflow needs only the most recent flight log.
-          // All files are still saved to disk.
-          const latest = allMetadata[allMetadata.length - 1];
-          return createResponse<BlackboxLogMetadata>(latest);
-        } else {
-          // --- Flash: existing MSP_DATAFLASH_READ path ---
-          logger.info('Starting flash download via MSP...');
-
-          const downloadResult = await deps.mspClient.downloadBlackboxLog((progress: number) => {
-            event.sender.send(IPCChannel.EVENT_BLACKBOX_DOWNLOAD_PROGRESS, progress);
-          });
-
-          const fcInfo = await deps.mspClient.getFCInfo();
-
-          const metadata = await deps.blackboxManager.saveLog(
-            downloadResult.data,
-            currentProfile.id,
-            currentProfile.fcSerialNumber,
-            {
-              variant: fcInfo.variant,
-              version: fcInfo.version,
-              target: fcInfo.target,
-            },
-            { compressionDetected: downloadResult.compressionDetected }
-          );
+            if (downloadResult.compressionDetected) {
+              logger.info(
+                `Blackbox log ${metadata.filename} was downloaded with Huffman compression`
+              );
+            }
 
-          if (downloadResult.compressionDetected) {
-            logger.warn(
-              `Huffman compression detected in Blackbox log ${metadata.filename} — data cannot be analyzed`
-            );
+            logger.info(`Blackbox log saved: ${metadata.filename} (${metadata.size} bytes)`);
+            return createResponse<BlackboxLogMetadata>(metadata);
           }
-
-          logger.info(`Blackbox log saved: ${metadata.filename} (${metadata.size} bytes)`);
-          return createResponse<BlackboxLogMetadata>(metadata);
+        } finally {
+          deps.isDownloadingBlackbox = false;
         }
-      } finally {
-        deps.isDownloadingBlackbox = false;
+      } catch (error) {
+        logger.error('Failed to download Blackbox log:', error);
+        return createResponse<BlackboxLogMetadata>(undefined, getErrorMessage(error));
       }
-    } catch (error) {
-      logger.error('Failed to download Blackbox log:', error);
-      return createResponse<BlackboxLogMetadata>(undefined, getErrorMessage(error));
     }
-  });
+  );
 
   ipcMain.handle(IPCChannel.BLACKBOX_OPEN_FOLDER, async (_event, filepath: string) => {
     try {
@@ -184,16 +308,17 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
     }
   });
 
-  ipcMain.handle(IPCChannel.BLACKBOX_TEST_READ, async () => {
+  ipcMain.handle(IPCChannel.BLACKBOX_TEST_READ, async (_event, connectionId?: string) => {
     try {
-      if (!deps.mspClient) {
+      const mspClient = resolveMSPClient(deps, connectionId);
+      if (!mspClient) {
         return createResponse<{ success: boolean; message: string }>(
           undefined,
           'MSP client not initialized'
         );
       }
 
-      const result = await deps.mspClient.testBlackboxRead();
+      const result = await mspClient.testBlackboxRead();
       return createResponse<{ success: boolean; message: string; data?: string }>(result);
     } catch (error) {
       logger.error('Failed to test Blackbox read:', error);
@@ -240,13 +365,14 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
     }
   });
 
-  ipcMain.handle(IPCChannel.BLACKBOX_ERASE_FLASH, async (event) => {
+  ipcMain.handle(IPCChannel.BLACKBOX_ERASE_FLASH, async (event, connectionId?: string) => {
     try {
-      if (!deps.mspClient) {
+      const mspClient = resolveMSPClient(deps, connectionId);
+      if (!mspClient) {
         return createResponse<void>(undefined, 'MSP client not initialized');
       }
 
-      const storageType = deps.mspClient.lastStorageType;
+      const storageType = mspClient.lastStorageType;
 
       if (storageType === 'sdcard') {
         // --- SD Card: erase via MSC mode ---
@@ -263,7 +389,7 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
       } else {
         // --- Flash: existing erase path ---
         logger.warn('Erasing Blackbox flash memory...');
-        await deps.mspClient.eraseBlackboxFlash();
+        await mspClient.eraseBlackboxFlash();
         logger.info('Blackbox flash erased successfully');
       }
 
@@ -274,7 +400,7 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
     }
   });
 
-  // Blackbox import handler — user picks a .bbl/.bfl file from disk
+  // Blackbox import handler — user picks a .bbl/.bfl, ArduPilot .bin or PX4 .ulg file from disk
   ipcMain.handle(IPCChannel.BLACKBOX_IMPORT_LOG, async () => {
     try {
       if (!deps.blackboxManager) {
@@ -291,7 +417,12 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
 
       const result = await dialog.showOpenDialog({
         title: 'Import Blackbox Log',
-        filters: [{ name: 'Blackbox Logs', extensions: ['bbl', 'bfl'] }],
+        filters: [
+          { name: 'Flight Logs', extensions: ['bbl', 'bfl', 'bin', 'ulg'] },
+          { name: 'Blackbox Logs', extensions: ['bbl', 'bfl'] },
+          { name: 'ArduPilot DataFlash Logs', extensions: ['bin'] },
+          { name: 'PX4 ULog Files', extensions: ['ulg'] },
+        ],
         properties: ['openFile'],
       });
 
@@ -309,6 +440,8 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
         target: 'unknown',
       };
 
+      // ArduPilot and PX4 logs keep their extension; the parser detects them by content
+      const extension = path.extname(sourcePath).slice(1).toLowerCase();
       const metadata = await deps.blackboxManager.saveLog(
         data,
         currentProfile.id,
@@ -317,7 +450,8 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
           variant: fcInfo.variant,
           version: fcInfo.version || 'unknown',
           target: fcInfo.target,
-        }
+        },
+        ['bin', 'ulg'].includes(extension) ? { extension } : undefined
       );
 
       logger.info(
@@ -365,4 +499,84 @@ export function registerBlackboxHandlers(deps: HandlerDependencies): void {
       return createResponse<BlackboxParseResult>(undefined, getErrorMessage(error));
     }
   });
+
+  // GPS track export — parses the log and writes its GPS track as GPX or KML
+  ipcMain.handle(
+    IPCChannel.BLACKBOX_EXPORT_TRACK,
+    async (_event, logId: string, format: GpsTrackFormat) => {
+      try {
+        if (!deps.blackboxManager) {
+          return createResponse<string | null>(undefined, 'BlackboxManager not initialized');
+        }
+
+        const logMeta = await deps.blackboxManager.getLog(logId);
+        if (!logMeta) {
+          return createResponse<string | null>(undefined, `Blackbox log not found: ${logId}`);
+        }
+
+        const data = await fs.readFile(logMeta.filepath);
+        const result = await BlackboxParser.parse(data);
+        const baseName = path.basename(logMeta.filename, path.extname(logMeta.filename));
+        const contents = GpsTrackExporter.export(result.sessions, format, logMeta.filename);
+
+        const formatName = format === 'kml' ? 'KML' : 'GPX';
+        const saveResult = await dialog.showSaveDialog({
+          title: `Export GPS Track (${formatName})`,
+          defaultPath: `${baseName}.${format}`,
+          filters: [{ name: `${formatName} files`, extensions: [format] }],
+        });
+
+        if (saveResult.canceled || !saveResult.filePath) {
+          return createResponse<string | null>(null);
+        }
+
+        await fs.writeFile(saveResult.filePath, contents, 'utf-8');
+        logger.info(`Exported GPS track: ${logMeta.filename} → ${saveResult.filePath}`);
+        return createResponse<string | null>(saveResult.filePath);
+      } catch (error) {
+        logger.error('Failed to export GPS track:', error);
+        return createResponse<string | null>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
+  // Flight data export — blackbox_decode-style CSV or an Arrow file per session
+  ipcMain.handle(
+    IPCChannel.BLACKBOX_EXPORT_DATA,
+    async (_event, logId: string, format: FlightDataExportFormat) => {
+      try {
+        if (!deps.blackboxManager) {
+          return createResponse<string | null>(undefined, 'BlackboxManager not initialized');
+        }
+
+        const logMeta = await deps.blackboxManager.getLog(logId);
+        if (!logMeta) {
+          return createResponse<string | null>(undefined, `Blackbox log not found: ${logId}`);
+        }
+
+        const baseName = path.basename(logMeta.filename, path.extname(logMeta.filename));
+        const formatName = format === 'arrow' ? 'Arrow' : 'CSV';
+        const saveResult = await dialog.showSaveDialog({
+          title: `Export Flight Data (${formatName})`,
+          defaultPath: `${baseName}.${format}`,
+          filters: [{ name: `${formatName} files`, extensions: [format] }],
+        });
+
+        if (saveResult.canceled || !saveResult.filePath) {
+          return createResponse<string | null>(null);
+        }
+
+        const written = await deps.blackboxManager.exportFlightData(
+          logId,
+          format,
+          saveResult.filePath
+        );
+        logger.info(`Exported flight data: ${logMeta.filename} → ${written.join(', ')}`);
+        return createResponse<string | null>(written[0]);
+      } catch (error) {
+        logger.error('Failed to export flight data:', error);
+        return createResponse<string | null>(undefined, getErrorMessage(error));
+      }
+    }
+  );
 }
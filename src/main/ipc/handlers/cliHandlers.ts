@@ -0,0 +1,148 @@
+import { ipcMain } from 'electron';
+import { IPCChannel, type IPCResponse } from '@shared/types/ipc.types';
+import type { CLIBatchResult } from '@shared/types/cli.types';
+import { isReadOnlyCLICommand, parseSetCommand } from '@shared/utils/cliConsole';
+import { checkSetting } from '@shared/utils/settingsSchema';
+import {
+  HandlerDependencies,
+  createResponse,
+  requireActiveConnection,
+  resolveMSPClient,
+  startFCOperation,
+  endFCOperation,
+} from './types';
+import { logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/errors';
+import { validateCLIResponse } from '../../msp/cliUtils';
+
+/**
+ * Registers CLI console IPC handlers.
+ *
+ * Only read-only commands go straight to the FC. Everything that changes
+ * config goes through CLI_APPLY_BATCH: auto-snapshot → `set` lines → save.
+ */
+export function registerCLIHandlers(deps: HandlerDependencies): void {
+  ipcMain.handle(
+    IPCChannel.CLI_SEND_COMMAND,
+    async (_, command: string, connectionId?: string): Promise<IPCResponse<string>> => {
+      try {
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
+        if (deps.isDownloadingBlackbox) throw new Error('Blackbox download in progress');
+        if (!isReadOnlyCLICommand(command)) {
+          throw new Error(
+            `"${command.trim()}" can change the FC config — stage set commands in batch mode instead`
+          );
+        }
+
+        const output = await mspClient.runCLICommand(command.trim());
+        return createResponse<string>(output);
+      } catch (error) {
+        logger.error('CLI console command failed:', error);
+        return createResponse<string>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPCChannel.CLI_APPLY_BATCH,
+    async (_, commands: string[], connectionId?: string): Promise<IPCResponse<CLIBatchResult>> => {
+      let operationStarted = false;
+      try {
+        requireActiveConnection(deps, connectionId);
+        // Every line goes to this drone, even if another one is connected meanwhile
+        const mspClient = deps.mspClient;
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
+        if (!deps.snapshotManager) throw new Error('Snapshot manager not initialized');
+        if (deps.isDownloadingBlackbox) throw new Error('Blackbox download in progress');
+        if (!commands || commands.length === 0) throw new Error('No commands to apply');
+
+        const parsed = commands.map((line) => {
+          const set = parseSetCommand(line);
+          if (!set) throw new Error(`Batch mode only accepts set commands: "${line.trim()}"`);
+          return set;
+        });
+        startFCOperation(deps, 'CLI batch');
+        operationStarted = true;
+
+        // Snapshot reads FC info over MSP, which the FC ignores while in CLI.
+        // Leaving CLI reboots — nothing is lost, the console never sends set.
+        if (mspClient.connection.isInCLI()) {
+          await mspClient.exitCLIConsole();
+        }
+
+        // Typed values are never clamped — anything outside the firmware's
+        // limits rejects the whole batch before the snapshot
+        let schema = null;
+        if (deps.settingsSchemaManager) {
+          try {
+            schema = await deps.settingsSchemaManager.getSchema();
+          } catch (err) {
+            logger.warn('Settings schema unavailable — sending batch without range checks:', err);
+          }
+        }
+        if (schema) {
+          const problems = parsed
+            .map((set) => checkSetting(schema, set.name, set.value))
+            .filter((check) => check !== null);
+          if (problems.length > 0) {
+            throw new Error(
+              `Nothing was sent — ${problems
+                .map((c) => (c.allowed ? `${c.setting} must be ${c.allowed}` : c.message))
+                .join('; ')}`
+            );
+          }
+        }
+        const sets = parsed.map((set) => `set ${set.name} = ${set.value}`);
+
+        const snapshot = await deps.snapshotManager.createSnapshot('Pre-CLI batch (auto)', 'auto');
+        logger.info(`Pre-CLI batch snapshot created: ${snapshot.id}`);
+
+        await mspClient.connection.enterCLI();
+        for (let i = 0; i < sets.length; i++) {
+          try {
+            const response = await mspClient.connection.sendCLICommand(sets[i]);
+            validateCLIResponse(sets[i], response);
+          } catch (cmdError) {
+            // Reboot without save so the earlier lines don't linger in FC RAM
+            try {
+              await mspClient.exitCLIConsole();
+            } catch {}
+            throw new Error(
+              `${getErrorMessage(cmdError)}. ${i} of ${sets.length} commands were sent; ` +
+                'FC was NOT saved and has rebooted with its previous config.'
+            );
+          }
+        }
+
+        deps.pendingSettingsSnapshot = true;
+        await mspClient.saveAndReboot();
+
+        logger.info(`CLI batch applied: ${sets.length} commands, FC rebooting`);
+        return createResponse<CLIBatchResult>({ snapshotId: snapshot.id, appliedCommands: sets });
+      } catch (error) {
+        logger.error('Failed to apply CLI batch:', error);
+        return createResponse<CLIBatchResult>(undefined, getErrorMessage(error));
+      } finally {
+        if (operationStarted) endFCOperation(deps);
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPCChannel.CLI_EXIT,
+    async (_, connectionId?: string): Promise<IPCResponse<void>> => {
+      try {
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) throw new Error('MSP client not initialized');
+        await mspClient.exitCLIConsole();
+        return createResponse<void>(undefined);
+      } catch (error) {
+        logger.error('Failed to exit CLI console:', error);
+        return createResponse<void>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+}
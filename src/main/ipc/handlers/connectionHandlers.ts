@@ -1,9 +1,9 @@
 import { ipcMain, dialog } from 'electron';
 import fs from 'fs/promises';
 import { IPCChannel, IPCResponse } from '@shared/types/ipc.types';
-import type { PortInfo, ConnectionStatus } from '@shared/types/common.types';
+import type { PortInfo, ConnectionStatus, ConnectionSummary } from '@shared/types/common.types';
 import type { HandlerDependencies } from './types';
-import { createResponse } from './types';
+import { createResponse, getDroneSwitchBlocker } from './types';
 import { sendTuningSessionChanged, sendProfileChanged } from './events';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/errors';
@@ -91,10 +91,13 @@ export function registerConnectionHandlers(deps: HandlerDependencies): void {
     IPCChannel.CONNECTION_CONNECT,
     async (_, portPath: string): Promise<IPCResponse<void>> => {
       try {
-        if (!deps.mspClient) {
-          throw new Error('MSP client not initialized');
+        if (!deps.connectionManager) {
+          throw new Error('Connection manager not initialized');
         }
-        await deps.mspClient.connect(portPath);
+        // Opens a new connection next to any existing ones and makes it active
+        const blocker = getDroneSwitchBlocker(deps);
+        if (blocker) throw new Error(blocker);
+        await deps.connectionManager.connect(portPath);
         return createResponse<void>(undefined);
       } catch (error) {
         logger.error('Failed to connect:', error);
@@ -103,18 +106,61 @@ export function registerConnectionHandlers(deps: HandlerDependencies): void {
     }
   );
 
-  ipcMain.handle(IPCChannel.CONNECTION_DISCONNECT, async (): Promise<IPCResponse<void>> => {
-    try {
-      if (!deps.mspClient) {
-        throw new Error('MSP client not initialized');
+  ipcMain.handle(
+    IPCChannel.CONNECTION_DISCONNECT,
+    async (_, connectionId?: string): Promise<IPCResponse<void>> => {
+      try {
+        if (!deps.connectionManager) {
+          throw new Error('Connection manager not initialized');
+        }
+        // No ID: the active connection
+        await deps.connectionManager.disconnect(connectionId);
+        return createResponse<void>(undefined);
+      } catch (error) {
+        logger.error('Failed to disconnect:', error);
+        return createResponse<void>(undefined, getErrorMessage(error));
       }
-      await deps.mspClient.disconnect();
-      return createResponse<void>(undefined);
-    } catch (error) {
-      logger.error('Failed to disconnect:', error);
-      return createResponse<void>(undefined, getErrorMessage(error));
     }
-  });
+  );
+
+  ipcMain.handle(
+    IPCChannel.CONNECTION_LIST,
+    async (): Promise<IPCResponse<ConnectionSummary[]>> => {
+      try {
+        if (!deps.connectionManager) {
+          throw new Error('Connection manager not initialized');
+        }
+        return createResponse<ConnectionSummary[]>(deps.connectionManager.list());
+      } catch (error) {
+        logger.error('Failed to list connections:', error);
+        return createResponse<ConnectionSummary[]>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPCChannel.CONNECTION_SET_ACTIVE,
+    async (_, connectionId: string): Promise<IPCResponse<void>> => {
+      try {
+        if (!deps.connectionManager) {
+          throw new Error('Connection manager not initialized');
+        }
+        // Long operations hold one drone's client across awaits — switching under
+        // them would leave the UI, profile and snapshots on the other drone
+        const blocker = getDroneSwitchBlocker(deps);
+        if (blocker) throw new Error(blocker);
+        const active = deps.mspClient;
+        if (active?.rebootPending || active?.awaitingReconnect || active?.mscModeActive) {
+          throw new Error('The active FC is rebooting — switch drones once it has reconnected');
+        }
+        deps.connectionManager.setActive(connectionId);
+        return createResponse<void>(undefined);
+      } catch (error) {
+        logger.error('Failed to switch connection:', error);
+        return createResponse<void>(undefined, getErrorMessage(error));
+      }
+    }
+  );
 
   ipcMain.handle(
     IPCChannel.CONNECTION_GET_STATUS,
@@ -132,6 +178,30 @@ export function registerConnectionHandlers(deps: HandlerDependencies): void {
     }
   );
 
+  ipcMain.handle(
+    IPCChannel.CONNECTION_GET_AUTO_CONNECT,
+    async (): Promise<IPCResponse<boolean>> => {
+      // No port watcher in demo mode — auto-connect simply reads as off
+      return createResponse<boolean>(deps.portWatcher?.getAutoConnect() ?? false);
+    }
+  );
+
+  ipcMain.handle(
+    IPCChannel.CONNECTION_SET_AUTO_CONNECT,
+    async (_, enabled: boolean): Promise<IPCResponse<void>> => {
+      try {
+        if (!deps.portWatcher) {
+          throw new Error('Auto-connect is not available in demo mode');
+        }
+        await deps.portWatcher.setAutoConnect(enabled);
+        return createResponse<void>(undefined);
+      } catch (error) {
+        logger.error('Failed to set auto-connect:', error);
+        return createResponse<void>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
   // ── App Logs ────────────────────────────────────────────────────────
 
   ipcMain.handle(
@@ -92,8 +92,10 @@ describe('diagnosticHandlers', () => {
       tuningHistoryManager: {
         getHistory: vi.fn().mockResolvedValue([mockRecord]),
       },
+      settingsSchemaManager: null,
       mscManager: null,
       isDownloadingBlackbox: false,
+      activeFCOperation: null,
       pendingSettingsSnapshot: false,
       isDemoMode: false,
       telemetryManager: {
@@ -106,6 +108,9 @@ describe('diagnosticHandlers', () => {
         emit: vi.fn(),
         getEvents: vi.fn().mockReturnValue([]),
       } as any,
+      connectionManager: null,
+      portWatcher: null,
+      appBackupManager: null,
     };
 
     registerDiagnosticHandlers(deps);
@@ -1,6 +1,11 @@
 import { BrowserWindow } from 'electron';
 import { IPCChannel } from '@shared/types/ipc.types';
-import type { ConnectionStatus, FCInfo } from '@shared/types/common.types';
+import type {
+  ConnectionStatus,
+  ConnectionSummary,
+  FCInfo,
+  PortsChangedEvent,
+} from '@shared/types/common.types';
 import type { DroneProfile } from '@shared/types/profile.types';
 import type { PIDConfiguration } from '@shared/types/pid.types';
 import type { TuningSession } from '@shared/types/tuning.types';
@@ -11,6 +16,17 @@ export function sendConnectionChanged(window: BrowserWindow, status: ConnectionS
   window.webContents.send(IPCChannel.EVENT_CONNECTION_CHANGED, status);
 }
 
+export function sendPortsChanged(window: BrowserWindow, event: PortsChangedEvent): void {
+  window.webContents.send(IPCChannel.EVENT_PORTS_CHANGED, event);
+}
+
+export function sendConnectionsChanged(
+  window: BrowserWindow,
+  connections: ConnectionSummary[]
+): void {
+  window.webContents.send(IPCChannel.EVENT_CONNECTIONS_CHANGED, connections);
+}
+
 export function sendError(window: BrowserWindow, error: string): void {
   window.webContents.send(IPCChannel.EVENT_ERROR, error);
 }
@@ -3,9 +3,15 @@ import { IPCChannel } from '@shared/types/ipc.types';
 import type { BlackboxSettings } from '@shared/types/blackbox.types';
 import type { FeedforwardConfiguration, RatesConfiguration } from '@shared/types/pid.types';
 import type { FCInfo } from '@shared/types/common.types';
+import type { SettingsSchema } from '@shared/types/cli.types';
 import type { FixBlackboxSettingsInput, FixBlackboxSettingsResult } from '@shared/types/ipc.types';
 import type { HandlerDependencies } from './types';
-import { createResponse, parseDiffSetting } from './types';
+import {
+  createResponse,
+  parseDiffSetting,
+  requireActiveConnection,
+  resolveMSPClient,
+} from './types';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/errors';
 import { validateCLIResponse } from '../../msp/cliUtils';
@@ -17,31 +23,34 @@ import type { IPCResponse } from '@shared/types/ipc.types';
  */
 export function registerFCInfoHandlers(deps: HandlerDependencies): void {
   // FC_GET_INFO
-  ipcMain.handle(IPCChannel.FC_GET_INFO, async (): Promise<IPCResponse<FCInfo>> => {
-    try {
-      if (!deps.mspClient) {
-        throw new Error('MSP client not initialized');
+  ipcMain.handle(
+    IPCChannel.FC_GET_INFO,
+    async (_, connectionId?: string): Promise<IPCResponse<FCInfo>> => {
+      try {
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) {
+          throw new Error('MSP client not initialized');
+        }
+        const info = await mspClient.getFCInfo();
+        return createResponse<FCInfo>(info);
+      } catch (error) {
+        logger.error('Failed to get FC info:', error);
+        return createResponse<FCInfo>(undefined, getErrorMessage(error));
       }
-      const info = await deps.mspClient.getFCInfo();
-      return createResponse<FCInfo>(info);
-    } catch (error) {
-      logger.error('Failed to get FC info:', error);
-      return createResponse<FCInfo>(undefined, getErrorMessage(error));
     }
-  });
+  );
 
   // FC_EXPORT_CLI
   ipcMain.handle(
     IPCChannel.FC_EXPORT_CLI,
-    async (_, format: 'diff' | 'dump'): Promise<IPCResponse<string>> => {
+    async (_, format: 'diff' | 'dump', connectionId?: string): Promise<IPCResponse<string>> => {
       try {
-        if (!deps.mspClient) {
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) {
           throw new Error('MSP client not initialized');
         }
         const cli =
-          format === 'diff'
-            ? await deps.mspClient.exportCLIDiff()
-            : await deps.mspClient.exportCLIDump();
+          format === 'diff' ? await mspClient.exportCLIDiff() : await mspClient.exportCLIDump();
         return createResponse<string>(cli);
       } catch (error) {
         logger.error('Failed to export CLI:', error);
@@ -117,12 +126,13 @@ export function registerFCInfoHandlers(deps: HandlerDependencies): void {
   // FC_GET_FEEDFORWARD_CONFIG
   ipcMain.handle(
     IPCChannel.FC_GET_FEEDFORWARD_CONFIG,
-    async (): Promise<IPCResponse<FeedforwardConfiguration>> => {
+    async (_, connectionId?: string): Promise<IPCResponse<FeedforwardConfiguration>> => {
       try {
-        if (!deps.mspClient) throw new Error('MSP client not initialized');
-        if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
 
-        const config = await deps.mspClient.getFeedforwardConfiguration();
+        const config = await mspClient.getFeedforwardConfiguration();
         return createResponse<FeedforwardConfiguration>(config);
       } catch (error) {
         logger.error('Failed to get feedforward configuration:', error);
@@ -134,12 +144,13 @@ export function registerFCInfoHandlers(deps: HandlerDependencies): void {
   // FC_GET_RATES_CONFIG
   ipcMain.handle(
     IPCChannel.FC_GET_RATES_CONFIG,
-    async (): Promise<IPCResponse<RatesConfiguration>> => {
+    async (_, connectionId?: string): Promise<IPCResponse<RatesConfiguration>> => {
       try {
-        if (!deps.mspClient) throw new Error('MSP client not initialized');
-        if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
 
-        const config = await deps.mspClient.getRatesConfiguration();
+        const config = await mspClient.getRatesConfiguration();
         return createResponse<RatesConfiguration>(config);
       } catch (error) {
         logger.error('Failed to get rates configuration:', error);
@@ -148,15 +159,34 @@ export function registerFCInfoHandlers(deps: HandlerDependencies): void {
     }
   );
 
+  // FC_GET_SETTINGS_SCHEMA — cache only; reading from the FC reboots it
+  ipcMain.handle(
+    IPCChannel.FC_GET_SETTINGS_SCHEMA,
+    async (_, connectionId?: string): Promise<IPCResponse<SettingsSchema | null>> => {
+      try {
+        requireActiveConnection(deps, connectionId);
+        if (!deps.settingsSchemaManager) throw new Error('Settings schema manager not initialized');
+        if (!deps.mspClient?.isConnected()) throw new Error('Flight controller not connected');
+
+        const schema = await deps.settingsSchemaManager.getCachedSchema();
+        return createResponse<SettingsSchema | null>(schema);
+      } catch (error) {
+        logger.error('Failed to get settings schema:', error);
+        return createResponse<SettingsSchema | null>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
   // FC_SELECT_PID_PROFILE
   ipcMain.handle(
     IPCChannel.FC_SELECT_PID_PROFILE,
-    async (_, index: number): Promise<IPCResponse<void>> => {
+    async (_, index: number, connectionId?: string): Promise<IPCResponse<void>> => {
       try {
-        if (!deps.mspClient) throw new Error('MSP client not initialized');
-        if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
 
-        await deps.mspClient.selectPidProfile(index);
+        await mspClient.selectPidProfile(index);
         return createResponse<void>(undefined);
       } catch (error) {
         logger.error('Failed to select PID profile:', error);
@@ -168,8 +198,13 @@ export function registerFCInfoHandlers(deps: HandlerDependencies): void {
   // FC_FIX_BLACKBOX_SETTINGS
   ipcMain.handle(
     IPCChannel.FC_FIX_BLACKBOX_SETTINGS,
-    async (_, input: FixBlackboxSettingsInput): Promise<IPCResponse<FixBlackboxSettingsResult>> => {
+    async (
+      _,
+      input: FixBlackboxSettingsInput,
+      connectionId?: string
+    ): Promise<IPCResponse<FixBlackboxSettingsResult>> => {
       try {
+        requireActiveConnection(deps, connectionId);
         if (!deps.mspClient) throw new Error('MSP client not initialized');
         if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
 
@@ -7,6 +7,7 @@
  */
 
 import type { HandlerDependencies } from './types';
+import { getDroneSwitchBlocker } from './types';
 import { MSCManager } from '../../msc/MSCManager';
 
 import { registerConnectionHandlers } from './connectionHandlers';
@@ -21,10 +22,15 @@ import { registerTelemetryHandlers } from './telemetryHandlers';
 import { registerLicenseHandlers } from './licenseHandlers';
 import { registerUpdateHandlers } from './updateHandlers';
 import { registerDiagnosticHandlers } from './diagnosticHandlers';
+import { registerBenchHandlers } from './benchHandlers';
+import { registerCLIHandlers } from './cliHandlers';
+import { registerBackupHandlers } from './backupHandlers';
 
 // Re-export events for use in src/main/index.ts
 export {
   sendConnectionChanged,
+  sendPortsChanged,
+  sendConnectionsChanged,
   sendError,
   sendLog,
   sendProfileChanged,
@@ -45,13 +51,18 @@ const deps: HandlerDependencies = {
   blackboxManager: null,
   tuningSessionManager: null,
   tuningHistoryManager: null,
+  settingsSchemaManager: null,
   mscManager: null,
   isDownloadingBlackbox: false,
+  activeFCOperation: null,
   pendingSettingsSnapshot: false,
   isDemoMode: false,
   telemetryManager: null,
   licenseManager: null,
   eventCollector: null,
+  connectionManager: null,
+  portWatcher: null,
+  appBackupManager: null,
 };
 
 // ── Setter functions (called from src/main/index.ts) ─────────────────
@@ -80,6 +91,10 @@ export function setTuningHistoryManager(manager: any): void {
   deps.tuningHistoryManager = manager;
 }
 
+export function setSettingsSchemaManager(manager: any): void {
+  deps.settingsSchemaManager = manager;
+}
+
 export function setDemoMode(value: boolean): void {
   deps.isDemoMode = value;
 }
@@ -96,6 +111,18 @@ export function setEventCollector(collector: any): void {
   deps.eventCollector = collector;
 }
 
+export function setConnectionManager(manager: any): void {
+  deps.connectionManager = manager;
+}
+
+export function setPortWatcher(watcher: any): void {
+  deps.portWatcher = watcher;
+}
+
+export function setAppBackupManager(manager: any): void {
+  deps.appBackupManager = manager;
+}
+
 /** Returns true if a settings fix/reset was applied and a clean snapshot is needed on reconnect. */
 export function consumePendingSettingsSnapshot(): boolean {
   if (deps.pendingSettingsSnapshot) {
@@ -105,6 +132,11 @@ export function consumePendingSettingsSnapshot(): boolean {
   return false;
 }
 
+/** False while an apply, restore, bench test or Blackbox download holds the active drone. */
+export function canSwitchDrone(): boolean {
+  return getDroneSwitchBlocker(deps) === null;
+}
+
 // ── Register all IPC handlers ────────────────────────────────────────
 export function registerIPCHandlers(): void {
   registerConnectionHandlers(deps);
@@ -118,5 +150,8 @@ export function registerIPCHandlers(): void {
   registerTelemetryHandlers(deps);
   registerLicenseHandlers(deps);
   registerDiagnosticHandlers(deps);
+  registerBenchHandlers(deps);
+  registerCLIHandlers(deps);
+  registerBackupHandlers(deps);
   registerUpdateHandlers();
 }
@@ -6,18 +6,22 @@ import { getErrorMessage } from '../../utils/errors';
 import { getMainWindow } from '../../window';
 import { sendPIDChanged } from './events';
 import type { HandlerDependencies } from './types';
-import { createResponse } from './types';
+import { createResponse, resolveMSPClient } from './types';
 
 /**
  * Validates that all PID values are numbers in the range 0-255.
+ * roll/pitch/yaw are required; level and mag are checked when present.
  */
 function validatePIDConfiguration(config: PIDConfiguration): void {
-  const axes: Array<keyof PIDConfiguration> = ['roll', 'pitch', 'yaw'];
+  const axes: Array<keyof PIDConfiguration> = ['roll', 'pitch', 'yaw', 'level', 'mag'];
   const terms: Array<keyof PIDTerm> = ['P', 'I', 'D'];
 
   for (const axis of axes) {
     const term = config[axis];
-    if (!term) throw new Error(`Missing ${axis} configuration`);
+    if (!term) {
+      if (axis === 'level' || axis === 'mag') continue;
+      throw new Error(`Missing ${axis} configuration`);
+    }
 
     for (const t of terms) {
       const value = term[t];
@@ -35,12 +39,13 @@ function validatePIDConfiguration(config: PIDConfiguration): void {
  * Registers PID configuration IPC handlers.
  */
 export function registerPIDHandlers(deps: HandlerDependencies): void {
-  ipcMain.handle(IPCChannel.PID_GET_CONFIG, async () => {
+  ipcMain.handle(IPCChannel.PID_GET_CONFIG, async (_, connectionId?: string) => {
     try {
-      if (!deps.mspClient) throw new Error('MSP client not initialized');
-      if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
+      const mspClient = resolveMSPClient(deps, connectionId);
+      if (!mspClient) throw new Error('MSP client not initialized');
+      if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
 
-      const config = await deps.mspClient.getPIDConfiguration();
+      const config = await mspClient.getPIDConfiguration();
       return createResponse<PIDConfiguration>(config);
     } catch (error) {
       logger.error('Failed to get PID configuration:', error);
@@ -48,35 +53,41 @@ export function registerPIDHandlers(deps: HandlerDependencies): void {
     }
   });
 
-  ipcMain.handle(IPCChannel.PID_UPDATE_CONFIG, async (_, config: PIDConfiguration) => {
-    try {
-      if (!deps.mspClient) throw new Error('MSP client not initialized');
-      if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
+  ipcMain.handle(
+    IPCChannel.PID_UPDATE_CONFIG,
+    async (_, config: PIDConfiguration, connectionId?: string) => {
+      try {
+        const mspClient = resolveMSPClient(deps, connectionId);
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
 
-      // Validate config (0-255 range for all values)
-      validatePIDConfiguration(config);
+        // Validate config (0-255 range for all values)
+        validatePIDConfiguration(config);
 
-      await deps.mspClient.setPIDConfiguration(config);
+        await mspClient.setPIDConfiguration(config);
 
-      // Broadcast to all renderer windows
-      const window = getMainWindow();
-      if (window) {
-        sendPIDChanged(window, config);
-      }
+        // Broadcast to all renderer windows
+        // Only the active drone's PIDs are on screen
+        const window = getMainWindow();
+        if (window && mspClient === deps.mspClient) {
+          sendPIDChanged(window, config);
+        }
 
-      return createResponse<void>(undefined);
-    } catch (error) {
-      logger.error('Failed to update PID configuration:', error);
-      return createResponse<void>(undefined, getErrorMessage(error));
+        return createResponse<void>(undefined);
+      } catch (error) {
+        logger.error('Failed to update PID configuration:', error);
+        return createResponse<void>(undefined, getErrorMessage(error));
+      }
     }
-  });
+  );
 
-  ipcMain.handle(IPCChannel.PID_SAVE_CONFIG, async () => {
+  ipcMain.handle(IPCChannel.PID_SAVE_CONFIG, async (_, connectionId?: string) => {
     try {
-      if (!deps.mspClient) throw new Error('MSP client not initialized');
-      if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
+      const mspClient = resolveMSPClient(deps, connectionId);
+      if (!mspClient) throw new Error('MSP client not initialized');
+      if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
 
-      await deps.mspClient.saveAndReboot(); // Uses existing CLI save command
+      await mspClient.saveAndReboot(); // Uses existing CLI save command
 
       return createResponse<void>(undefined);
     } catch (error) {
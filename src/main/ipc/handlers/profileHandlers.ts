@@ -14,6 +14,16 @@ import type { HandlerDependencies } from './types';
 import { createResponse } from './types';
 import { sendConnectionChanged, sendProfileChanged } from './events';
 
+/** Show a freshly created profile against the connection of the FC it was created for */
+function assignProfileToConnection(deps: HandlerDependencies, profile: DroneProfile): void {
+  const connectionId = deps.connectionManager?.getActiveId();
+  if (!connectionId) return;
+  const assignment = deps.connectionManager.getAssignment(connectionId);
+  if (assignment?.fcSerial === profile.fcSerialNumber) {
+    deps.connectionManager.assignFC(connectionId, profile.fcSerialNumber, profile);
+  }
+}
+
 export function registerProfileHandlers(deps: HandlerDependencies): void {
   ipcMain.handle(
     IPCChannel.PROFILE_CREATE,
@@ -35,6 +45,7 @@ export function registerProfileHandlers(deps: HandlerDependencies): void {
         }
 
         const profile = await deps.profileManager.createProfile(input);
+        assignProfileToConnection(deps, profile);
 
         // Create baseline snapshot for new profile BEFORE notifying UI
         // so snapshots are available when renderer reloads
@@ -94,6 +105,7 @@ export function registerProfileHandlers(deps: HandlerDependencies): void {
           fcInfo,
           customName
         );
+        assignProfileToConnection(deps, profile);
 
         // Create baseline snapshot for new profile from preset BEFORE notifying UI
         // so snapshots are available when renderer reloads
@@ -1,22 +1,45 @@
-import { ipcMain } from 'electron';
+import { ipcMain, dialog } from 'electron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import {
   IPCChannel,
   type IPCResponse,
   type SnapshotRestoreResult,
   type SnapshotRestoreProgress,
+  type SnapshotRestoreMode,
 } from '@shared/types/ipc.types';
+import type { CLIDiffResidual } from '@shared/types/cli.types';
 import type { ConfigurationSnapshot, SnapshotMetadata } from '@shared/types/common.types';
-import { HandlerDependencies, createResponse } from './types';
+import {
+  HandlerDependencies,
+  createResponse,
+  requireActiveConnection,
+  startFCOperation,
+  endFCOperation,
+} from './types';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/errors';
 import { validateCLIResponse, CLICommandError } from '../../msp/cliUtils';
+import { parseSetCommand } from '@shared/utils/cliConsole';
+import { checkSetting } from '@shared/utils/settingsSchema';
+import { buildReplayCommands, compareCLIDiffs, parseScopedCLIDiff } from '@shared/utils/cliDiff';
+
+/** `defaults nosave` rebuilds the whole config in RAM before the prompt returns */
+const DEFAULTS_NOSAVE_TIMEOUT_MS = 15000;
+/** Same budget as the `diff all` a snapshot is created with */
+const READ_BACK_TIMEOUT_MS = 10000;
 
 export function registerSnapshotHandlers(deps: HandlerDependencies): void {
   // SNAPSHOT_CREATE
   ipcMain.handle(
     IPCChannel.SNAPSHOT_CREATE,
-    async (_, label?: string): Promise<IPCResponse<ConfigurationSnapshot>> => {
+    async (
+      _,
+      label?: string,
+      connectionId?: string
+    ): Promise<IPCResponse<ConfigurationSnapshot>> => {
       try {
+        requireActiveConnection(deps, connectionId);
         if (!deps.snapshotManager) {
           throw new Error('Snapshot manager not initialized');
         }
@@ -107,18 +130,67 @@ export function registerSnapshotHandlers(deps: HandlerDependencies): void {
     }
   );
 
+  // SNAPSHOT_IMPORT (CLI diff/dump text, Configurator JSON backup or exported snapshot)
+  ipcMain.handle(
+    IPCChannel.SNAPSHOT_IMPORT,
+    async (): Promise<IPCResponse<ConfigurationSnapshot | null>> => {
+      try {
+        if (!deps.snapshotManager) {
+          throw new Error('Snapshot manager not initialized');
+        }
+
+        const result = await dialog.showOpenDialog({
+          title: 'Import Configuration Backup',
+          filters: [
+            { name: 'CLI diff / dump or backup', extensions: ['txt', 'json'] },
+            { name: 'All Files', extensions: ['*'] },
+          ],
+          properties: ['openFile'],
+        });
+        if (result.canceled || result.filePaths.length === 0) {
+          // User cancelled — not an error
+          return createResponse<ConfigurationSnapshot | null>(null);
+        }
+
+        const sourcePath = result.filePaths[0];
+        const [content, stat] = await Promise.all([
+          fs.readFile(sourcePath, 'utf-8'),
+          fs.stat(sourcePath),
+        ]);
+        // File time places old backups where they belong in the timeline
+        const snapshot = await deps.snapshotManager.importSnapshot(
+          content,
+          path.basename(sourcePath),
+          stat.mtime.toISOString()
+        );
+        return createResponse<ConfigurationSnapshot | null>(snapshot);
+      } catch (error) {
+        logger.error('Failed to import snapshot:', error);
+        return createResponse<ConfigurationSnapshot | null>(undefined, getErrorMessage(error));
+      }
+    }
+  );
+
   // SNAPSHOT_RESTORE (complex restore flow)
   ipcMain.handle(
     IPCChannel.SNAPSHOT_RESTORE,
     async (
       event,
       snapshotId: string,
-      createBackup: boolean
+      createBackup: boolean,
+      mode: SnapshotRestoreMode = 'merge',
+      connectionId?: string
     ): Promise<IPCResponse<SnapshotRestoreResult>> => {
+      let operationStarted = false;
       try {
-        if (!deps.mspClient) throw new Error('MSP client not initialized');
-        if (!deps.mspClient.isConnected()) throw new Error('Flight controller not connected');
+        requireActiveConnection(deps, connectionId);
+        // Every command goes to this drone, even if another one is connected meanwhile
+        const mspClient = deps.mspClient;
+        if (!mspClient) throw new Error('MSP client not initialized');
+        if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
         if (!deps.snapshotManager) throw new Error('Snapshot manager not initialized');
+        startFCOperation(deps, 'restore');
+        operationStarted = true;
 
         const sendProgress = (progress: SnapshotRestoreProgress) => {
           event.sender.send(IPCChannel.EVENT_SNAPSHOT_RESTORE_PROGRESS, progress);
@@ -128,36 +200,51 @@ export function registerSnapshotHandlers(deps: HandlerDependencies): void {
         const snapshot = await deps.snapshotManager.loadSnapshot(snapshotId);
         if (!snapshot) throw new Error(`Snapshot not found: ${snapshotId}`);
 
-        // Parse CLI diff — extract restorable CLI commands
-        // Safe commands: set, feature, serial, aux, beacon, map, resource, timer, dma,
-        //   profile (context switch), rateprofile (context switch)
-        // Skip: diff all, batch start/end, defaults nosave, save, board_name,
-        //       manufacturer_id, mcu_id, signature, comments (#)
-        const SKIP_PREFIXES = [
-          'diff',
-          'batch',
-          'defaults',
-          'save',
-          'board_name',
-          'manufacturer_id',
-          'mcu_id',
-          'signature',
-        ];
-        const cliDiff: string = snapshot.configuration.cliDiff || '';
-        const restorableCommands = cliDiff
-          .split('\n')
-          .map((line: string) => line.trim())
-          .filter((line: string) => {
-            if (!line || line.length < 3 || line.startsWith('#')) return false;
-            const prefix = line.split(/\s/)[0].toLowerCase();
-            return !SKIP_PREFIXES.includes(prefix);
-          });
-
-        if (restorableCommands.length === 0) {
+        // Parse CLI diff — every config line tagged with its profile/rateprofile.
+        // Skipped: comments, diff/batch/defaults/save, board_name, manufacturer_id,
+        // mcu_id, signature (board identity the FC won't take back)
+        const parsed = parseScopedCLIDiff(snapshot.configuration.cliDiff || '');
+        if (parsed.entries.length === 0) {
           throw new Error('Snapshot contains no restorable settings');
         }
 
-        logger.info(`Restoring snapshot ${snapshotId}: ${restorableCommands.length} CLI commands`);
+        // Check `set` values against the connected firmware before sending:
+        // out-of-range values are clamped, settings the firmware can't take
+        // (renamed/removed, invalid values) are skipped and reported as failed
+        const failedCommands: string[] = [];
+        let entries = parsed.entries;
+        let schema = null;
+        if (deps.settingsSchemaManager) {
+          try {
+            schema = await deps.settingsSchemaManager.getSchema();
+          } catch (err) {
+            logger.warn('Settings schema unavailable — restoring without range checks:', err);
+          }
+        }
+        if (schema) {
+          entries = [];
+          for (const entry of parsed.entries) {
+            const set = parseSetCommand(entry.line);
+            const check = set && checkSetting(schema, set.name, set.value);
+            if (!set || !check) {
+              entries.push(entry);
+            } else if (check.adjustedValue !== undefined) {
+              logger.warn(`Restore: ${check.message}`);
+              entries.push({ ...entry, line: `set ${set.name} = ${check.adjustedValue}` });
+            } else {
+              logger.warn(`Restore: skipping ${entry.line} — ${check.message}`);
+              failedCommands.push(entry.line);
+            }
+          }
+        }
+
+        // Each line is sent in its own profile/rateprofile context, ending with
+        // the snapshot's profile selection
+        const restorableCommands = buildReplayCommands({ ...parsed, entries });
+
+        logger.info(
+          `Restoring snapshot ${snapshotId} (${mode}): ${restorableCommands.length} CLI commands`
+        );
 
         // Stage 1: Create backup snapshot (enters CLI mode via exportCLIDiff)
         let backupSnapshotId: string | undefined;
@@ -172,18 +259,29 @@ export function registerSnapshotHandlers(deps: HandlerDependencies): void {
 
         // Stage 2: Enter CLI and send set commands
         sendProgress({ stage: 'cli', message: 'Entering CLI mode...', percent: 25 });
-        await deps.mspClient.connection.enterCLI();
+        await mspClient.connection.enterCLI();
 
-        const failedCommands: string[] = [];
+        if (mode === 'full') {
+          // Reset RAM config only — nothing is written until the final save,
+          // so an aborted restore leaves the stored config untouched
+          sendProgress({ stage: 'cli', message: 'Resetting to defaults...', percent: 27 });
+          const response = await mspClient.connection.sendCLICommand(
+            'defaults nosave',
+            DEFAULTS_NOSAVE_TIMEOUT_MS
+          );
+          validateCLIResponse('defaults nosave', response);
+        }
+
+        let rejectedCount = 0;
         for (let i = 0; i < restorableCommands.length; i++) {
           const cmd = restorableCommands[i];
           sendProgress({
             stage: 'cli',
             message: `Applying: ${cmd}`,
-            percent: 25 + Math.round((i / restorableCommands.length) * 55),
+            percent: 30 + Math.round((i / restorableCommands.length) * 50),
           });
           try {
-            const response = await deps.mspClient.connection.sendCLICommand(cmd);
+            const response = await mspClient.connection.sendCLICommand(cmd);
             validateCLIResponse(cmd, response);
           } catch (cmdError) {
             // Only continue for CLI rejection errors (Invalid name, Allowed range, etc.)
@@ -194,26 +292,45 @@ export function registerSnapshotHandlers(deps: HandlerDependencies): void {
             const msg = cmdError.message;
             logger.warn(`Restore: command rejected (continuing): ${cmd} — ${msg}`);
             failedCommands.push(cmd);
+            rejectedCount++;
           }
         }
 
-        const applied = restorableCommands.length - failedCommands.length;
+        const applied = restorableCommands.length - rejectedCount;
         logger.info(
           `Applied ${applied}/${restorableCommands.length} CLI commands from snapshot` +
             (failedCommands.length > 0 ? ` (${failedCommands.length} failed)` : '')
         );
 
-        // Stage 3: Save and reboot
+        // Stage 3 (full only): read the result back before saving and compare
+        let residualDifferences: CLIDiffResidual[] | undefined;
+        if (mode === 'full') {
+          sendProgress({ stage: 'verify', message: 'Reading back configuration...', percent: 85 });
+          const readBack = await mspClient.connection.sendCLICommand(
+            'diff all',
+            READ_BACK_TIMEOUT_MS
+          );
+          residualDifferences = compareCLIDiffs(parsed, parseScopedCLIDiff(readBack));
+          if (residualDifferences.length > 0) {
+            logger.warn(
+              `Full restore: ${residualDifferences.length} settings differ from the snapshot`
+            );
+          }
+        }
+
+        // Stage 4: Save and reboot
         sendProgress({ stage: 'save', message: 'Saving and rebooting FC...', percent: 90 });
-        await deps.mspClient.saveAndReboot();
+        await mspClient.saveAndReboot();
 
         sendProgress({ stage: 'save', message: 'FC is rebooting', percent: 100 });
 
         const result: SnapshotRestoreResult = {
           success: true,
+          mode,
           backupSnapshotId,
           appliedCommands: applied,
           failedCommands: failedCommands.length > 0 ? failedCommands : undefined,
+          residualDifferences,
           rebooted: true,
         };
 
@@ -222,6 +339,8 @@ export function registerSnapshotHandlers(deps: HandlerDependencies): void {
       } catch (error) {
         logger.error('Failed to restore snapshot:', error);
         return createResponse<SnapshotRestoreResult>(undefined, getErrorMessage(error));
+      } finally {
+        if (operationStarted) endFCOperation(deps);
       }
     }
   );
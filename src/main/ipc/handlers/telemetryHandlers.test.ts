@@ -37,13 +37,18 @@ describe('telemetryHandlers', () => {
       blackboxManager: null,
       tuningSessionManager: null,
       tuningHistoryManager: null,
+      settingsSchemaManager: null,
       mscManager: null,
       isDownloadingBlackbox: false,
+      activeFCOperation: null,
       pendingSettingsSnapshot: false,
       isDemoMode: false,
       telemetryManager: mockTelemetryManager,
       licenseManager: null,
       eventCollector: null,
+      connectionManager: null,
+      portWatcher: null,
+      appBackupManager: null,
     };
 
     registerTelemetryHandlers(deps);
@@ -14,16 +14,25 @@ import {
   PIDMetricsSummary,
   TransferFunctionMetricsSummary,
 } from '@shared/types/tuning-history.types';
-import { PIDConfiguration } from '@shared/types/pid.types';
-import { HandlerDependencies, createResponse } from './types';
+import { PIDConfiguration, PIDController } from '@shared/types/pid.types';
+import {
+  HandlerDependencies,
+  createResponse,
+  requireActiveConnection,
+  startFCOperation,
+  endFCOperation,
+} from './types';
 import { sendTuningSessionChanged, sendProfileChanged } from './events';
 import { getMainWindow } from '../../window';
 import { logger } from '../../utils/logger';
 import { getErrorMessage } from '../../utils/errors';
 import { validateCLIResponse } from '../../msp/cliUtils';
+import { MSP_FILTER_CONFIG_FIELDS } from '../../msp/types';
 import { verifyAppliedConfig } from '../../utils/verifyAppliedConfig';
 import { sendAutoReport } from '../../diagnostic/DiagnosticReportService';
 import { MockMSPClient } from '../../demo/MockMSPClient';
+import { applySettingsSchema } from '@shared/utils/settingsSchema';
+import type { SettingCheck } from '@shared/types/cli.types';
 
 /**
  * Compute the next tuning session number.
@@ -57,10 +66,65 @@ async function getNextSessionNumber(deps: HandlerDependencies, profileId: string
   return sessionNumber;
 }
 
-export function registerTuningHandlers(deps: HandlerDependencies): void {
-  const { mspClient, snapshotManager, profileManager, tuningSessionManager, tuningHistoryManager } =
-    deps;
+/**
+ * Checks every recommendation against the FC's settings schema before
+ * anything is written. Out-of-range values are clamped to the firmware
+ * limits; a value the firmware can't take at all aborts the apply.
+ *
+ * Only the cached schema is used: reading it from the FC leaves CLI with a
+ * reboot, which must not happen halfway through an apply. The schema is read
+ * on connect, so it is normally there; without it the apply proceeds
+ * unchecked, as before.
+ */
+async function validateRecommendations(
+  deps: HandlerDependencies,
+  input: ApplyRecommendationsInput
+): Promise<ApplyRecommendationsInput> {
+  if (!deps.settingsSchemaManager) return input;
+
+  let schema;
+  try {
+    schema = await deps.settingsSchemaManager.getCachedSchema();
+  } catch (error) {
+    logger.warn('Settings schema unavailable — applying without range checks:', error);
+    return input;
+  }
+  if (!schema) {
+    logger.warn('No cached settings schema — applying without range checks');
+    return input;
+  }
+
+  const checks: SettingCheck[] = [];
+  const validate = <T extends { setting: string; recommendedValue: number }>(recs: T[]): T[] => {
+    const result = applySettingsSchema(schema, recs);
+    checks.push(...result.checks);
+    return result.recommendations;
+  };
+
+  const informational = input.filterRecommendations.filter((r) => r.informational);
+  const validated: ApplyRecommendationsInput = {
+    filterRecommendations: [
+      ...validate(input.filterRecommendations.filter((r) => !r.informational)),
+      ...informational,
+    ],
+    pidRecommendations: validate(input.pidRecommendations),
+    feedforwardRecommendations: validate(input.feedforwardRecommendations ?? []),
+    ...(input.ratesRecommendations
+      ? { ratesRecommendations: validate(input.ratesRecommendations) }
+      : {}),
+  };
+
+  const invalid = checks.filter((c) => c.status === 'invalid');
+  if (invalid.length > 0) {
+    throw new Error(`Nothing was written — ${invalid.map((c) => c.message).join('; ')}`);
+  }
+  for (const check of checks) {
+    logger.warn(`Apply: ${check.message}`);
+  }
+  return validated;
+}
 
+export function registerTuningHandlers(deps: HandlerDependencies): void {
   const emitEvent = (
     type: 'error' | 'workflow' | 'analysis',
     name: string,
@@ -72,15 +136,23 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
     IPCChannel.TUNING_APPLY_RECOMMENDATIONS,
     async (
       event,
-      input: ApplyRecommendationsInput
+      input: ApplyRecommendationsInput,
+      connectionId?: string
     ): Promise<IPCResponse<ApplyRecommendationsResult>> => {
+      let operationStarted = false;
       try {
+        requireActiveConnection(deps, connectionId);
+        // Every step targets this drone, even if another one is connected meanwhile
+        const mspClient = deps.mspClient;
+        const profileId: string | undefined = deps.profileManager?.getCurrentProfileId();
         if (!mspClient) throw new Error('MSP client not initialized');
         if (!mspClient.isConnected()) throw new Error('Flight controller not connected');
 
-        const ffRecs = input.feedforwardRecommendations ?? [];
         const totalRecs =
-          input.filterRecommendations.length + input.pidRecommendations.length + ffRecs.length;
+          input.filterRecommendations.length +
+          input.pidRecommendations.length +
+          (input.feedforwardRecommendations?.length ?? 0) +
+          (input.ratesRecommendations?.length ?? 0);
 
         // Zero recommendations: skip apply, return success without reboot
         if (totalRecs === 0) {
@@ -90,31 +162,41 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
             appliedPIDs: 0,
             appliedFilters: 0,
             appliedFeedforward: 0,
+            appliedRates: 0,
             rebooted: false,
           });
         }
 
+        startFCOperation(deps, 'apply');
+        operationStarted = true;
+
         const sendProgress = (progress: ApplyRecommendationsProgress) => {
           event.sender.send(IPCChannel.EVENT_TUNING_APPLY_PROGRESS, progress);
         };
 
-        // Order matters: MSP commands first (PIDs), then CLI operations
-        // (filters, save). The apply flow enters CLI explicitly for filter/FF
-        // commands — exportCLIDiff() detects wasInCLI=true and skips exit.
+        // Check against the firmware's own limits before anything is sent
+        sendProgress({ stage: 'validate', message: 'Checking settings ranges...', percent: 1 });
+        input = await validateRecommendations(deps, input);
+        const ffRecs = input.feedforwardRecommendations ?? [];
+        const ratesRecs = input.ratesRecommendations ?? [];
+
+        // Order matters: MSP commands first (PIDs, MSP-covered filters, rates), then CLI
+        // operations (remaining filters, FF, save). The apply flow enters CLI
+        // explicitly for those — exportCLIDiff() detects wasInCLI=true and skips exit.
 
         // Stage 0: Ensure correct BF PID profile is selected (safety net)
-        if (profileManager && tuningSessionManager) {
-          const pId = profileManager.getCurrentProfileId();
-          if (pId) {
-            const session = await tuningSessionManager.getSession(pId);
-            if (session?.bfPidProfileIndex !== undefined) {
-              sendProgress({ stage: 'pid', message: 'Selecting PID profile...', percent: 2 });
-              await mspClient.selectPidProfile(session.bfPidProfileIndex);
-              logger.info(`Apply: ensured BF PID profile ${session.bfPidProfileIndex}`);
-            }
+        if (profileId && deps.tuningSessionManager) {
+          const session = await deps.tuningSessionManager.getSession(profileId);
+          if (session?.bfPidProfileIndex !== undefined) {
+            sendProgress({ stage: 'pid', message: 'Selecting PID profile...', percent: 2 });
+            await mspClient.selectPidProfile(session.bfPidProfileIndex);
+            logger.info(`Apply: ensured BF PID profile ${session.bfPidProfileIndex}`);
           }
         }
 
+        // What actually goes to the FC, after schema clamping and rounding
+        const writtenValues: Record<string, number> = {};
+
         // Stage 1: Apply PID recommendations via MSP (must happen before CLI)
         let appliedPIDs = 0;
         if (input.pidRecommendations.length > 0) {
@@ -124,15 +206,21 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
           const newConfig: PIDConfiguration = JSON.parse(JSON.stringify(currentConfig));
 
           for (const rec of input.pidRecommendations) {
-            const match = rec.setting.match(/^pid_(roll|pitch|yaw)_(p|i|d)$/i);
+            const match = rec.setting.match(/^pid_(roll|pitch|yaw|level|mag)_(p|i|d)$/i);
             if (!match) {
               logger.warn(`Unknown PID setting: ${rec.setting}, skipping`);
               continue;
             }
-            const axis = match[1] as 'roll' | 'pitch' | 'yaw';
+            const axis = match[1].toLowerCase() as PIDController;
             const term = match[2].toUpperCase() as 'P' | 'I' | 'D';
+            const controller = newConfig[axis];
+            if (!controller) {
+              logger.warn(`FC does not report a ${axis} PID controller, skipping ${rec.setting}`);
+              continue;
+            }
             const value = Math.round(Math.max(0, Math.min(255, rec.recommendedValue)));
-            newConfig[axis][term] = value;
+            controller[term] = value;
+            writtenValues[rec.setting] = value;
             appliedPIDs++;
           }
 
@@ -144,19 +232,97 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
 
         sendProgress({ stage: 'pid', message: `Applied ${appliedPIDs} PID changes`, percent: 20 });
 
-        // Stage 2: Apply filter recommendations via CLI
+        // Stage 2: Apply filter recommendations — MSP_SET_FILTER_CONFIG for every
+        // setting the payload covers, CLI only for the rest (e.g. rpm_filter_q)
         let appliedFilters = 0;
         // Filter out informational/advisory-only recommendations — they are for display only
         const actionableFilterRecs = input.filterRecommendations.filter((r) => !r.informational);
-        const needsCLI = actionableFilterRecs.length > 0 || ffRecs.length > 0;
+        const mspFilterRecs = actionableFilterRecs.filter(
+          (r) => r.setting in MSP_FILTER_CONFIG_FIELDS
+        );
+        const cliFilterRecs = actionableFilterRecs.filter(
+          (r) => !(r.setting in MSP_FILTER_CONFIG_FIELDS)
+        );
+
+        const filterFailure = (filterError: unknown): Error => {
+          // #8: PIDs were already written via MSP (Stage 1) but filter writes failed.
+          // FC has mixed state: new PIDs + old filters in RAM. Save was NOT called yet.
+          // Pre-tuning snapshot remains valid for rollback.
+          logger.error(
+            `Filter apply failed after ${appliedPIDs} PIDs were already written. ` +
+              `FC has mixed state (new PIDs, old filters). Save was NOT called. ` +
+              `Pre-tuning snapshot is valid for rollback.`,
+            filterError
+          );
+          return new Error(
+            `Filter changes failed (${appliedFilters}/${actionableFilterRecs.length} applied). ` +
+              `${appliedPIDs > 0 ? `${appliedPIDs} PID changes were already written to FC RAM. ` : ''}` +
+              `FC was NOT saved — power cycle to discard, or restore from pre-tuning snapshot.`
+          );
+        };
+
+        // MSP writes must happen before entering CLI
+        if (mspFilterRecs.length > 0) {
+          sendProgress({
+            stage: 'filter',
+            message: `Writing ${mspFilterRecs.length} filter settings via MSP...`,
+            percent: 40,
+          });
+          const changes: Record<string, number> = {};
+          for (const rec of mspFilterRecs) {
+            changes[rec.setting] = Math.round(rec.recommendedValue);
+          }
+          Object.assign(writtenValues, changes);
+          try {
+            await mspClient.setFilterConfiguration(changes);
+          } catch (filterError) {
+            throw filterFailure(filterError);
+          }
+          appliedFilters += mspFilterRecs.length;
+          logger.info(`Applied ${mspFilterRecs.length} filter changes via MSP`);
+        }
+
+        // Stage 2b: Apply rates via MSP_SET_RC_TUNING (one read-modify-write)
+        let appliedRates = 0;
+        if (ratesRecs.length > 0) {
+          sendProgress({
+            stage: 'rates',
+            message: `Writing ${ratesRecs.length} rate settings via MSP...`,
+            percent: 45,
+          });
+          const changes: Record<string, number> = {};
+          for (const rec of ratesRecs) {
+            changes[rec.setting] = Math.round(rec.recommendedValue);
+          }
+          Object.assign(writtenValues, changes);
+          try {
+            await mspClient.setRatesConfiguration(changes);
+          } catch (ratesError) {
+            const written = appliedPIDs + appliedFilters;
+            logger.error(
+              `Rates apply failed after ${written} PID/filter changes were already written. ` +
+                `Save was NOT called. Pre-tuning snapshot is valid for rollback.`,
+              ratesError
+            );
+            throw new Error(
+              `Rate changes failed. ` +
+                `${written > 0 ? `${written} PID/filter changes were already written to FC RAM. ` : ''}` +
+                `FC was NOT saved — power cycle to discard, or restore from pre-tuning snapshot.`
+            );
+          }
+          appliedRates = ratesRecs.length;
+          logger.info(`Applied ${appliedRates} rate changes via MSP`);
+        }
+
+        const needsCLI = cliFilterRecs.length > 0 || ffRecs.length > 0;
         if (needsCLI) {
           sendProgress({ stage: 'filter', message: 'Entering CLI mode...', percent: 50 });
           await mspClient.connection.enterCLI();
         }
 
-        if (actionableFilterRecs.length > 0) {
+        if (cliFilterRecs.length > 0) {
           try {
-            for (const rec of actionableFilterRecs) {
+            for (const rec of cliFilterRecs) {
               const value = Math.round(rec.recommendedValue);
               const cmd = `set ${rec.setting} = ${value}`;
               sendProgress({
@@ -166,25 +332,13 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
               });
               const response = await mspClient.connection.sendCLICommand(cmd);
               validateCLIResponse(cmd, response);
+              writtenValues[rec.setting] = value;
               appliedFilters++;
             }
 
-            logger.info(`Applied ${appliedFilters} filter changes via CLI`);
+            logger.info(`Applied ${cliFilterRecs.length} filter changes via CLI`);
           } catch (filterError) {
-            // #8: PIDs were already written via MSP (Stage 1) but filter CLI commands failed.
-            // FC has mixed state: new PIDs + old filters in RAM. Save was NOT called yet.
-            // Pre-tuning snapshot remains valid for rollback.
-            logger.error(
-              `Filter apply failed after ${appliedPIDs} PIDs were already written. ` +
-                `FC has mixed state (new PIDs, old filters). Save was NOT called. ` +
-                `Pre-tuning snapshot is valid for rollback.`,
-              filterError
-            );
-            throw new Error(
-              `Filter changes failed (${appliedFilters}/${actionableFilterRecs.length} applied). ` +
-                `${appliedPIDs > 0 ? `${appliedPIDs} PID changes were already written to FC RAM. ` : ''}` +
-                `FC was NOT saved — power cycle to discard, or restore from pre-tuning snapshot.`
-            );
+            throw filterFailure(filterError);
           }
         }
 
@@ -207,6 +361,7 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
             });
             const response = await mspClient.connection.sendCLICommand(cmd);
             validateCLIResponse(cmd, response);
+            writtenValues[rec.setting] = value;
             appliedFeedforward++;
           }
 
@@ -219,16 +374,24 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
           percent: 85,
         });
 
-        // Stage 5: Save and reboot — saveAndReboot() now blocks until FC reconnects
-        sendProgress({ stage: 'save', message: 'Saving and rebooting FC...', percent: 85 });
-        await mspClient.saveAndReboot();
+        // Stage 5: Save. Pure-MSP applies persist with MSP_EEPROM_WRITE and keep the
+        // connection; CLI changes need `save`, which reboots — saveAndReboot()
+        // blocks until the FC reconnects.
+        if (needsCLI) {
+          sendProgress({ stage: 'save', message: 'Saving and rebooting FC...', percent: 85 });
+          await mspClient.saveAndReboot();
 
-        // FC is now reconnected (or failed to reconnect). Continue with verify+snapshot.
-        sendProgress({ stage: 'reboot', message: 'FC reconnected', percent: 88 });
+          // FC is now reconnected (or failed to reconnect). Continue with verify+snapshot.
+          sendProgress({ stage: 'reboot', message: 'FC reconnected', percent: 88 });
+        } else {
+          sendProgress({ stage: 'save', message: 'Saving to EEPROM...', percent: 85 });
+          await mspClient.saveToEeprom();
+        }
 
         // Stage 6: Post-apply verification — read back settings and compare
-        const profileId = profileManager?.getCurrentProfileId();
-        const currentSession = profileId ? await tuningSessionManager?.getSession(profileId) : null;
+        const currentSession = profileId
+          ? await deps.tuningSessionManager?.getSession(profileId)
+          : null;
 
         if (mspClient.isConnected() && profileId && currentSession) {
           sendProgress({
@@ -241,9 +404,10 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
               mspClient,
               currentSession.tuningType,
               currentSession.appliedPIDChanges,
-              currentSession.appliedFilterChanges
+              currentSession.appliedFilterChanges,
+              currentSession.appliedRatesChanges
             );
-            await tuningSessionManager!.updatePhase(profileId, currentSession.phase, {
+            await deps.tuningSessionManager!.updatePhase(profileId, currentSession.phase, {
               applyVerified: verifyResult.verified,
               applyMismatches:
                 verifyResult.mismatches.length > 0 ? verifyResult.mismatches : undefined,
@@ -263,12 +427,12 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
               }
 
               // Fire-and-forget auto-report on verification failure
-              const refreshedForReport = await tuningSessionManager!.getSession(profileId);
+              const refreshedForReport = await deps.tuningSessionManager!.getSession(profileId);
               if (refreshedForReport) {
                 sendAutoReport(
                   {
-                    profileManager: profileManager!,
-                    snapshotManager: snapshotManager!,
+                    profileManager: deps.profileManager!,
+                    snapshotManager: deps.snapshotManager!,
                     telemetrySettings: deps.telemetryManager?.getSettings?.() ?? null,
                     eventCollector: deps.eventCollector ?? null,
                     licenseManager: deps.licenseManager ?? null,
@@ -284,14 +448,19 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
                     if (autoReportId && profileId) {
                       try {
                         // Reload current session to avoid regressing phase with a stale value
-                        const latestSession = await tuningSessionManager!.getSession(profileId);
+                        const latestSession =
+                          await deps.tuningSessionManager!.getSession(profileId);
                         if (!latestSession) {
                           logger.warn('Auto-report ID not saved: tuning session no longer exists');
                           return;
                         }
-                        await tuningSessionManager!.updatePhase(profileId, latestSession.phase, {
-                          autoReportId,
-                        });
+                        await deps.tuningSessionManager!.updatePhase(
+                          profileId,
+                          latestSession.phase,
+                          {
+                            autoReportId,
+                          }
+                        );
                         logger.info(`Auto-report ID saved to session: ${autoReportId}`);
                       } catch (saveErr) {
                         logger.warn('Failed to save autoReportId to session:', saveErr);
@@ -314,14 +483,14 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
             percent: 95,
           });
           try {
-            const refreshedSession = await tuningSessionManager!.getSession(profileId);
+            const refreshedSession = await deps.tuningSessionManager!.getSession(profileId);
             const tuningType = (refreshedSession?.tuningType ??
               currentSession.tuningType) as keyof typeof TUNING_TYPE_LABELS;
             // Use session number from pre-tuning snapshot so Pre/Post pairs match
             let sessionNumber = await getNextSessionNumber(deps, profileId);
-            if (refreshedSession?.baselineSnapshotId && snapshotManager) {
+            if (refreshedSession?.baselineSnapshotId && deps.snapshotManager) {
               try {
-                const baseline = await snapshotManager.loadSnapshot(
+                const baseline = await deps.snapshotManager.loadSnapshot(
                   refreshedSession.baselineSnapshotId
                 );
                 if (baseline?.tuningSessionNumber) {
@@ -337,7 +506,7 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
             mspClient.setRebootPending();
             let snapshot;
             try {
-              snapshot = await snapshotManager!.createSnapshot(label, 'auto', {
+              snapshot = await deps.snapshotManager!.createSnapshot(label, 'auto', {
                 tuningSessionNumber: sessionNumber,
                 tuningType,
                 snapshotRole: 'post-tuning',
@@ -345,15 +514,15 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
             } finally {
               mspClient.clearRebootPending();
             }
-            await tuningSessionManager!.updatePhase(profileId, currentSession.phase, {
+            await deps.tuningSessionManager!.updatePhase(profileId, currentSession.phase, {
               postTuningSnapshotId: snapshot.id,
             });
             logger.info(`Post-tuning snapshot created in apply handler: ${snapshot.id}`);
 
             // Emit profileChanged so renderer refreshes snapshot list
             const win = getMainWindow();
-            if (win && profileManager) {
-              const profile = await profileManager.getCurrentProfile();
+            if (win && deps.profileManager) {
+              const profile = await deps.profileManager.getCurrentProfile();
               if (profile) {
                 sendProfileChanged(win, profile);
               }
@@ -363,7 +532,7 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
           }
 
           // Re-emit session so UI picks up verify+snapshot changes
-          const finalSession = await tuningSessionManager!.getSession(profileId);
+          const finalSession = await deps.tuningSessionManager!.getSession(profileId);
           if (finalSession) {
             sendTuningSessionChanged(finalSession);
           }
@@ -376,17 +545,23 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
           appliedPIDs,
           appliedFilters,
           appliedFeedforward,
-          rebooted: true,
+          appliedRates,
+          rebooted: needsCLI,
+          writtenValues,
         };
 
         logger.info(
-          `Tuning applied: ${appliedPIDs} PIDs, ${appliedFilters} filters, ${appliedFeedforward} FF, rebooted`
+          `Tuning applied: ${appliedPIDs} PIDs, ${appliedFilters} filters, ` +
+            `${appliedRates} rates, ${appliedFeedforward} FF` +
+            (needsCLI ? ', rebooted' : ', saved via MSP')
         );
         return createResponse<ApplyRecommendationsResult>(result);
       } catch (error) {
         emitEvent('error', 'apply_failed', { stage: 'apply', message: getErrorMessage(error) });
         logger.error('Failed to apply recommendations:', error);
         return createResponse<ApplyRecommendationsResult>(undefined, getErrorMessage(error));
+      } finally {
+        if (operationStarted) endFCOperation(deps);
       }
     }
   );
@@ -396,14 +571,14 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
     IPCChannel.TUNING_GET_SESSION,
     async (): Promise<IPCResponse<TuningSession | null>> => {
       try {
-        if (!tuningSessionManager || !profileManager) {
+        if (!deps.tuningSessionManager || !deps.profileManager) {
           return createResponse<TuningSession | null>(null);
         }
-        const profileId = profileManager.getCurrentProfileId();
+        const profileId = deps.profileManager.getCurrentProfileId();
         if (!profileId) {
           return createResponse<TuningSession | null>(null);
         }
-        const session = await tuningSessionManager.getSession(profileId);
+        const session = await deps.tuningSessionManager.getSession(profileId);
         return createResponse<TuningSession | null>(session);
       } catch (error) {
         logger.error('Failed to get tuning session:', error);
@@ -422,18 +597,18 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
       try {
         const resolvedType: TuningType = tuningType ?? TUNING_TYPE.FILTER;
 
-        if (!tuningSessionManager || !profileManager) {
+        if (!deps.tuningSessionManager || !deps.profileManager) {
           return createResponse<TuningSession>(undefined, 'Tuning session manager not initialized');
         }
-        const profileId = profileManager.getCurrentProfileId();
+        const profileId = deps.profileManager.getCurrentProfileId();
         if (!profileId) {
           return createResponse<TuningSession>(undefined, 'No active profile');
         }
 
         // Stage 0: Switch BF PID profile if requested (before snapshot and PID reads)
-        if (bfPidProfileIndex !== undefined && mspClient?.isConnected()) {
+        if (bfPidProfileIndex !== undefined && deps.mspClient?.isConnected()) {
           try {
-            await mspClient.selectPidProfile(bfPidProfileIndex);
+            await deps.mspClient.selectPidProfile(bfPidProfileIndex);
             logger.info(`Switched to BF PID profile ${bfPidProfileIndex} for tuning session`);
           } catch (e) {
             logger.error('Failed to switch PID profile:', e);
@@ -445,22 +620,22 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
         }
 
         // Tell MockMSPClient which flight type cycle to use
-        if (deps.isDemoMode && mspClient instanceof MockMSPClient) {
+        if (deps.isDemoMode && deps.mspClient instanceof MockMSPClient) {
           if (resolvedType === TUNING_TYPE.FLASH) {
-            mspClient.setFlashTuneMode();
+            deps.mspClient.setFlashTuneMode();
           } else if (resolvedType === TUNING_TYPE.PID) {
-            mspClient.setPIDTuneMode();
+            deps.mspClient.setPIDTuneMode();
           } else {
-            mspClient.setFilterTuneMode();
+            deps.mspClient.setFilterTuneMode();
           }
         }
 
         // Read rates BEFORE snapshot — snapshot enters CLI mode (exportCLIDiff),
         // and BF CLI exit triggers FC reboot, making MSP unavailable afterward
         let ratesConfig: TuningSession['ratesConfig'];
-        if (mspClient?.isConnected()) {
+        if (deps.mspClient?.isConnected()) {
           try {
-            ratesConfig = await mspClient.getRatesConfiguration();
+            ratesConfig = await deps.mspClient.getRatesConfiguration();
           } catch (e) {
             logger.warn('Could not read rates configuration:', e);
           }
@@ -472,15 +647,15 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
         // Setting rebootPending prevents it from clearing the profile/session.
         // exportCLIDiff() handles the full reboot+reconnect cycle internally.
         let baselineSnapshotId: string | undefined;
-        if (snapshotManager && mspClient?.isConnected()) {
+        if (deps.snapshotManager && deps.mspClient?.isConnected()) {
           try {
             const sessionNumber = await getNextSessionNumber(deps, profileId);
             const label = `Pre-tuning #${sessionNumber} (${TUNING_TYPE_LABELS[resolvedType]})`;
 
             // Protect against disconnect handler clearing state during FC reboot
-            mspClient.setRebootPending();
+            deps.mspClient.setRebootPending();
 
-            const snapshot = await snapshotManager.createSnapshot(label, 'auto', {
+            const snapshot = await deps.snapshotManager.createSnapshot(label, 'auto', {
               tuningSessionNumber: sessionNumber,
               tuningType: resolvedType,
               snapshotRole: 'pre-tuning',
@@ -491,14 +666,14 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
             // exportCLIDiff() handles the full reboot cycle: waits for FC,
             // reconnects if USB re-enumerated, pings MSP until responsive.
             // Clear rebootPending after — FC is either reconnected or truly gone.
-            mspClient.clearRebootPending();
+            deps.mspClient.clearRebootPending();
           } catch (e) {
-            mspClient.clearRebootPending();
+            deps.mspClient.clearRebootPending();
             logger.warn('Could not create pre-tuning snapshot:', e);
           }
         }
 
-        const session = await tuningSessionManager.createSession(profileId, resolvedType);
+        const session = await deps.tuningSessionManager.createSession(profileId, resolvedType);
         const initialPhase =
           resolvedType === TUNING_TYPE.FLASH
             ? TUNING_PHASE.FLASH_FLIGHT_PENDING
@@ -510,19 +685,19 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
         if (bfPidProfileIndex !== undefined) phaseData.bfPidProfileIndex = bfPidProfileIndex;
         if (ratesConfig) phaseData.ratesConfig = ratesConfig;
         if (Object.keys(phaseData).length > 0) {
-          await tuningSessionManager.updatePhase(profileId, initialPhase, phaseData);
+          await deps.tuningSessionManager.updatePhase(profileId, initialPhase, phaseData);
         }
 
         // Persist selected profile as preference for next session
-        if (bfPidProfileIndex !== undefined && profileManager) {
+        if (bfPidProfileIndex !== undefined && deps.profileManager) {
           try {
-            await profileManager.updateProfile(profileId, { bfPidProfileIndex });
+            await deps.profileManager.updateProfile(profileId, { bfPidProfileIndex });
           } catch (e) {
             logger.warn('Could not persist bfPidProfileIndex preference:', e);
           }
         }
 
-        const updated = await tuningSessionManager.getSession(profileId);
+        const updated = await deps.tuningSessionManager.getSession(profileId);
         if (updated) {
           deps.eventCollector?.setActiveSessionId(updated.id);
           emitEvent('workflow', 'tuning_started', { mode: resolvedType });
@@ -533,8 +708,8 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
         // (pre-tuning snapshot was created above, UI needs to pick it up)
         if (baselineSnapshotId) {
           const win = getMainWindow();
-          if (win && profileManager) {
-            const profile = await profileManager.getCurrentProfile();
+          if (win && deps.profileManager) {
+            const profile = await deps.profileManager.getCurrentProfile();
             if (profile) {
               sendProfileChanged(win, profile);
             }
@@ -557,29 +732,29 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
       data?: Partial<TuningSession>
     ): Promise<IPCResponse<TuningSession>> => {
       try {
-        if (!tuningSessionManager || !profileManager) {
+        if (!deps.tuningSessionManager || !deps.profileManager) {
           return createResponse<TuningSession>(undefined, 'Tuning session manager not initialized');
         }
-        const profileId = profileManager.getCurrentProfileId();
+        const profileId = deps.profileManager.getCurrentProfileId();
         if (!profileId) {
           return createResponse<TuningSession>(undefined, 'No active profile');
         }
 
         // Archive session to history before completing
-        if (phase === TUNING_PHASE.COMPLETED && tuningHistoryManager) {
+        if (phase === TUNING_PHASE.COMPLETED && deps.tuningHistoryManager) {
           try {
             // In demo mode, advance past skipped verification so flight type cycle stays in sync
-            if (deps.isDemoMode && mspClient instanceof MockMSPClient) {
-              mspClient.advancePastVerification();
+            if (deps.isDemoMode && deps.mspClient instanceof MockMSPClient) {
+              deps.mspClient.advancePastVerification();
             }
 
             // First update the phase to 'completed' so the session has the final data
-            const completedSession = await tuningSessionManager.updatePhase(
+            const completedSession = await deps.tuningSessionManager.updatePhase(
               profileId,
               TUNING_PHASE.COMPLETED,
               data
             );
-            await tuningHistoryManager.archiveSession(completedSession);
+            await deps.tuningHistoryManager.archiveSession(completedSession);
             logger.info(`Tuning session archived to history for profile ${profileId}`);
             emitEvent('workflow', 'tuning_completed', {
               mode: completedSession.tuningType,
@@ -595,7 +770,7 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
           }
         }
 
-        const updated = await tuningSessionManager.updatePhase(profileId, phase, data);
+        const updated = await deps.tuningSessionManager.updatePhase(profileId, phase, data);
         emitEvent('workflow', 'phase_changed', {
           mode: updated.tuningType,
           to: phase,
@@ -614,14 +789,14 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
     IPCChannel.TUNING_GET_HISTORY,
     async (): Promise<IPCResponse<CompletedTuningRecord[]>> => {
       try {
-        if (!tuningHistoryManager || !profileManager) {
+        if (!deps.tuningHistoryManager || !deps.profileManager) {
           return createResponse<CompletedTuningRecord[]>([]);
         }
-        const profileId = profileManager.getCurrentProfileId();
+        const profileId = deps.profileManager.getCurrentProfileId();
         if (!profileId) {
           return createResponse<CompletedTuningRecord[]>([]);
         }
-        const history = await tuningHistoryManager.getHistory(profileId);
+        const history = await deps.tuningHistoryManager.getHistory(profileId);
         return createResponse<CompletedTuningRecord[]>(history);
       } catch (error) {
         logger.error('Failed to get tuning history:', error);
@@ -632,16 +807,16 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
 
   ipcMain.handle(IPCChannel.TUNING_RESET_SESSION, async (): Promise<IPCResponse<void>> => {
     try {
-      if (!tuningSessionManager || !profileManager) {
+      if (!deps.tuningSessionManager || !deps.profileManager) {
         return createResponse<void>(undefined);
       }
-      const profileId = profileManager.getCurrentProfileId();
+      const profileId = deps.profileManager.getCurrentProfileId();
       if (!profileId) {
         return createResponse<void>(undefined);
       }
 
       // Emit abandoned event before deletion
-      const abandonedSession = await tuningSessionManager.getSession(profileId);
+      const abandonedSession = await deps.tuningSessionManager.getSession(profileId);
       if (abandonedSession) {
         emitEvent('workflow', 'tuning_abandoned', {
           mode: abandonedSession.tuningType,
@@ -650,7 +825,7 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
         deps.eventCollector?.setActiveSessionId(undefined);
       }
 
-      await tuningSessionManager.deleteSession(profileId);
+      await deps.tuningSessionManager.deleteSession(profileId);
       sendTuningSessionChanged(null);
       return createResponse<void>(undefined);
     } catch (error) {
@@ -669,10 +844,10 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
       verificationPidMetrics?: PIDMetricsSummary
     ): Promise<IPCResponse<TuningSession>> => {
       try {
-        if (!tuningSessionManager || !profileManager) {
+        if (!deps.tuningSessionManager || !deps.profileManager) {
           return createResponse<TuningSession>(undefined, 'Tuning session manager not initialized');
         }
-        const profileId = profileManager.getCurrentProfileId();
+        const profileId = deps.profileManager.getCurrentProfileId();
         if (!profileId) {
           return createResponse<TuningSession>(undefined, 'No active profile');
         }
@@ -684,15 +859,15 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
           updateData.verificationTransferFunctionMetrics = verificationTransferFunctionMetrics;
         }
         if (verificationPidMetrics) updateData.verificationPidMetrics = verificationPidMetrics;
-        const updated = await tuningSessionManager.updatePhase(
+        const updated = await deps.tuningSessionManager.updatePhase(
           profileId,
           TUNING_PHASE.COMPLETED,
           updateData
         );
 
         // Update the latest history record (no new archive entry)
-        if (tuningHistoryManager) {
-          await tuningHistoryManager.updateLatestVerification(
+        if (deps.tuningHistoryManager) {
+          await deps.tuningHistoryManager.updateLatestVerification(
             profileId,
             verificationMetrics,
             verificationTransferFunctionMetrics,
@@ -719,15 +894,15 @@ export function registerTuningHandlers(deps: HandlerDependencies): void {
       verificationPidMetrics?: PIDMetricsSummary
     ): Promise<IPCResponse<void>> => {
       try {
-        if (!tuningHistoryManager || !profileManager) {
+        if (!deps.tuningHistoryManager || !deps.profileManager) {
           return createResponse<void>(undefined, 'Tuning history manager not initialized');
         }
-        const profileId = profileManager.getCurrentProfileId();
+        const profileId = deps.profileManager.getCurrentProfileId();
         if (!profileId) {
           return createResponse<void>(undefined, 'No active profile');
         }
 
-        const updated = await tuningHistoryManager.updateRecordVerification(
+        const updated = await deps.tuningHistoryManager.updateRecordVerification(
           profileId,
           recordId,
           verificationMetrics,
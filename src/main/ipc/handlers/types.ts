@@ -13,9 +13,13 @@ export interface HandlerDependencies {
   blackboxManager: any;
   tuningSessionManager: any;
   tuningHistoryManager: any;
+  /** FC settings schema (ranges/allowed values), cached per firmware version */
+  settingsSchemaManager: any;
   mscManager: MSCManager | null;
   /** Guard against concurrent blackbox downloads */
   isDownloadingBlackbox: boolean;
+  /** Apply, restore or bench test in progress — see startFCOperation() */
+  activeFCOperation: string | null;
   /** Set after fix/reset — triggers clean snapshot on reconnect */
   pendingSettingsSnapshot: boolean;
   /** Whether the app is running in demo mode */
@@ -24,8 +28,65 @@ export interface HandlerDependencies {
   telemetryManager: any;
   /** License manager for Pro/Free enforcement */
   licenseManager: any;
+  /** One MSPClient per open port; mspClient above is always its active client */
+  connectionManager: any;
+  /** Serial port hot-plug watcher (null in demo mode) */
+  portWatcher: any;
   /** Telemetry event collector for structured event logging */
   eventCollector: TelemetryEventCollector | null;
+  /** Whole-app backup export/import */
+  appBackupManager: any;
+}
+
+/**
+ * The MSP client an FC call targets: the connection the renderer named, or
+ * the active one when it named none.
+ */
+export function resolveMSPClient(deps: HandlerDependencies, connectionId?: string): any {
+  if (!connectionId) return deps.mspClient;
+  if (!deps.connectionManager) throw new Error('Connection manager not initialized');
+  return deps.connectionManager.getClient(connectionId);
+}
+
+/**
+ * For FC calls that also use the active drone's profile, snapshots, tuning
+ * session or settings schema: a named connection must be the active one, so
+ * the FC and that state never belong to different drones.
+ */
+export function requireActiveConnection(deps: HandlerDependencies, connectionId?: string): void {
+  if (connectionId && deps.connectionManager?.getActiveId() !== connectionId) {
+    throw new Error(`${connectionId} is not the active drone — switch to it first`);
+  }
+}
+
+/**
+ * Marks a long FC operation (apply, restore, bench test) as running. These
+ * hold one drone's client across many awaits, so only one may run and the
+ * active drone must not change until endFCOperation().
+ */
+export function startFCOperation(deps: HandlerDependencies, name: string): void {
+  if (deps.activeFCOperation) {
+    throw new Error(`Wait for the ${deps.activeFCOperation} to finish`);
+  }
+  deps.activeFCOperation = name;
+}
+
+export function endFCOperation(deps: HandlerDependencies): void {
+  deps.activeFCOperation = null;
+}
+
+/**
+ * Why the active drone can't change right now (connect, set-active,
+ * auto-connect), or null when it can.
+ */
+export function getDroneSwitchBlocker(deps: HandlerDependencies): string | null {
+  if (deps.isDownloadingBlackbox) {
+    return 'Wait for the Blackbox download to finish before switching drones';
+  }
+  if (deps.activeFCOperation) {
+    return `Wait for the ${deps.activeFCOperation} to finish before switching drones`;
+  }
+  return null;
 }
 
 export function createResponse<T>(data: T | undefined, error?: string): IPCResponse<T> {
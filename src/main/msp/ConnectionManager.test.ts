@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { ConnectionManager } from './ConnectionManager';
+import type { MSPClient } from './MSPClient';
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+/** Just enough of MSPClient for the manager: connection state, flags and events */
+class FakeClient extends EventEmitter {
+  connected = false;
+  portPath: string | null = null;
+  rebootPending = false;
+  mscModeActive = false;
+  awaitingReconnect = false;
+  failConnect = false;
+
+  connect = vi.fn(async (portPath: string) => {
+    if (this.failConnect) throw new Error('FC not responding');
+    this.connected = true;
+    this.portPath = portPath;
+    this.emit('connected');
+  });
+
+  disconnect = vi.fn(async () => {
+    this.unplug();
+  });
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionStatus() {
+    return { connected: this.connected, portPath: this.portPath ?? undefined };
+  }
+
+  unplug(): void {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+}
+
+describe('ConnectionManager', () => {
+  let clients: FakeClient[];
+  let manager: ConnectionManager;
+
+  beforeEach(() => {
+    clients = [];
+    manager = new ConnectionManager(() => {
+      const client = new FakeClient();
+      clients.push(client);
+      return client as unknown as MSPClient;
+    });
+  });
+
+  it('opens one client per port and makes the newest connection active', async () => {
+    const activeChanged = vi.fn();
+    manager.on('active-changed', activeChanged);
+
+    await manager.connect('/dev/ttyACM0');
+    await manager.connect('/dev/ttyACM1');
+
+    // The first connection reuses the idle client created up front
+    expect(clients).toHaveLength(2);
+    expect(clients[0].connect).toHaveBeenCalledWith('/dev/ttyACM0');
+    expect(clients[1].connect).toHaveBeenCalledWith('/dev/ttyACM1');
+    expect(manager.getActiveId()).toBe('/dev/ttyACM1');
+    expect(manager.getActiveClient()).toBe(clients[1]);
+    expect(activeChanged).toHaveBeenLastCalledWith('/dev/ttyACM1', clients[1]);
+    expect(manager.list()).toEqual([
+      expect.objectContaining({ id: '/dev/ttyACM0', connected: true, active: false }),
+      expect.objectContaining({ id: '/dev/ttyACM1', connected: true, active: true }),
+    ]);
+  });
+
+  it('forwards client events with the connection ID', async () => {
+    const connected = vi.fn();
+    manager.on('connected', connected);
+
+    await manager.connect('/dev/ttyACM0');
+
+    expect(connected).toHaveBeenCalledWith('/dev/ttyACM0', clients[0]);
+  });
+
+  it('switches the active connection and records FC assignments', async () => {
+    await manager.connect('/dev/ttyACM0');
+    await manager.connect('/dev/ttyACM1');
+    manager.assignFC('/dev/ttyACM0', 'SN-A', { id: 'p1', name: 'Freestyle 5"' });
+
+    manager.setActive('/dev/ttyACM0');
+
+    expect(manager.getActiveClient()).toBe(clients[0]);
+    expect(manager.list()[0]).toMatchObject({
+      active: true,
+      fcSerial: 'SN-A',
+      profileId: 'p1',
+      profileName: 'Freestyle 5"',
+    });
+    expect(() => manager.setActive('/dev/ttyUSB9')).toThrow('No connection on /dev/ttyUSB9');
+  });
+
+  it('hands out the client of any connection by ID', async () => {
+    await manager.connect('/dev/ttyACM0');
+    await manager.connect('/dev/ttyACM1');
+
+    expect(manager.getClient('/dev/ttyACM0')).toBe(clients[0]);
+    expect(manager.getActiveId()).toBe('/dev/ttyACM1');
+    expect(() => manager.getClient('/dev/ttyUSB9')).toThrow('No connection on /dev/ttyUSB9');
+  });
+
+  it('activates a remaining drone when the active one is unplugged', async () => {
+    const disconnected = vi.fn();
+    manager.on('disconnected', disconnected);
+    await manager.connect('/dev/ttyACM0');
+    await manager.connect('/dev/ttyACM1');
+
+    clients[1].unplug();
+
+    expect(disconnected).toHaveBeenCalledWith('/dev/ttyACM1', clients[1], true);
+    expect(manager.hasConnection('/dev/ttyACM1')).toBe(false);
+    expect(manager.getActiveId()).toBe('/dev/ttyACM0');
+  });
+
+  it('keeps a rebooting connection so the FC comes back to it', async () => {
+    const connected = vi.fn();
+    manager.on('connected', connected);
+    await manager.connect('/dev/ttyACM0');
+
+    clients[0].rebootPending = true;
+    clients[0].unplug();
+
+    expect(manager.hasConnection('/dev/ttyACM0')).toBe(true);
+    expect(manager.isReconnectPending()).toBe(true);
+
+    await clients[0].connect('/dev/ttyACM0');
+    expect(connected).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets a port that fails to connect and restores the previous active drone', async () => {
+    await manager.connect('/dev/ttyACM0');
+    manager.on('active-changed', () => {
+      clients[1].failConnect = true;
+    });
+
+    await expect(manager.connect('/dev/ttyACM1')).rejects.toThrow('FC not responding');
+
+    expect(manager.hasConnection('/dev/ttyACM1')).toBe(false);
+    expect(manager.getActiveId()).toBe('/dev/ttyACM0');
+  });
+
+  it('rejects a second connection on the same port', async () => {
+    await manager.connect('/dev/ttyACM0');
+
+    await expect(manager.connect('/dev/ttyACM0')).rejects.toThrow(
+      'Already connected to /dev/ttyACM0'
+    );
+  });
+
+  it('disconnects a background drone without touching the active one', async () => {
+    await manager.connect('/dev/ttyACM0');
+    await manager.connect('/dev/ttyACM1');
+
+    await manager.disconnect('/dev/ttyACM0');
+
+    expect(clients[0].disconnect).toHaveBeenCalled();
+    expect(manager.list().map((c) => c.id)).toEqual(['/dev/ttyACM1']);
+    expect(manager.getActiveId()).toBe('/dev/ttyACM1');
+  });
+});
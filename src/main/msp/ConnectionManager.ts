@@ -0,0 +1,255 @@
+import { EventEmitter } from 'events';
+import type { ConnectionStatus, ConnectionSummary } from '@shared/types/common.types';
+import type { DroneProfileMetadata } from '@shared/types/profile.types';
+import type { MSPClient } from './MSPClient';
+import { ConnectionError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+interface ManagedConnection {
+  client: MSPClient;
+  fcSerial?: string;
+  profile?: Pick<DroneProfileMetadata, 'id' | 'name'>;
+}
+
+/**
+ * Owns one MSPClient per open port so several FCs can stay connected at once.
+ * Connections are keyed by port path (the connection ID). Exactly one is
+ * active: snapshots, downloads and tuning sessions work against the active
+ * client and its profile. FC calls that name a connection ID reach any
+ * connected FC through getClient().
+ *
+ * Events:
+ * - 'active-changed' (connectionId | null, client) — before the new client connects
+ * - 'connected' (connectionId, client) — after connect() or a reboot reconnect
+ * - 'disconnected' (connectionId, client, wasActive) — before the next active is picked
+ * - 'connection-changed' (connectionId, status)
+ * - 'connections-changed' (ConnectionSummary[])
+ */
+export class ConnectionManager extends EventEmitter {
+  private createClient: () => MSPClient;
+  private connections = new Map<string, ManagedConnection>();
+  private activeId: string | null = null;
+  /** Active client — stays set (disconnected) when no connection is open */
+  private activeClient: MSPClient;
+  private wiredClients = new WeakSet<MSPClient>();
+
+  constructor(createClient: () => MSPClient) {
+    super();
+    this.createClient = createClient;
+    this.activeClient = this.wire(createClient());
+  }
+
+  getActiveClient(): MSPClient {
+    return this.activeClient;
+  }
+
+  getActiveId(): string | null {
+    return this.activeId;
+  }
+
+  /** Client of one connection, whether or not it is the active one */
+  getClient(connectionId: string): MSPClient {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      throw new ConnectionError(`No connection on ${connectionId}`);
+    }
+    return conn.client;
+  }
+
+  hasConnection(connectionId: string): boolean {
+    return this.connections.has(connectionId);
+  }
+
+  /** True while any FC is expected back on its own (save reboot, CLI exit reboot, MSC mode) */
+  isReconnectPending(): boolean {
+    return [...this.connections.values()].some(({ client }) => this.isExpectedDisconnect(client));
+  }
+
+  list(): ConnectionSummary[] {
+    return [...this.connections.entries()].map(([id, conn]) => {
+      const status = conn.client.getConnectionStatus();
+      return {
+        id,
+        connected: status.connected,
+        active: id === this.activeId,
+        fcInfo: status.fcInfo,
+        fcSerial: conn.fcSerial,
+        profileId: conn.profile?.id,
+        profileName: conn.profile?.name,
+      };
+    });
+  }
+
+  /**
+   * Open a connection on a port and make it active. A port that is already
+   * known but dropped (e.g. a reboot that never came back) reuses its client.
+   */
+  async connect(portPath: string): Promise<void> {
+    const existing = this.connections.get(portPath);
+    if (existing?.client.isConnected()) {
+      throw new ConnectionError(`Already connected to ${portPath}`);
+    }
+
+    const previousId = this.activeId;
+    const client = existing?.client ?? this.takeIdleClient();
+    if (!existing) {
+      this.connections.set(portPath, { client });
+    }
+    this.setActiveInternal(portPath, client);
+
+    try {
+      await client.connect(portPath);
+    } catch (error) {
+      this.connections.delete(portPath);
+      // Fall back to whatever was active before the failed attempt
+      const previous = previousId ? this.connections.get(previousId) : undefined;
+      if (previous && previousId) {
+        this.setActiveInternal(previousId, previous.client);
+      } else {
+        this.activeId = null;
+      }
+      this.emitConnectionsChanged();
+      throw error;
+    }
+    this.emitConnectionsChanged();
+  }
+
+  /** Disconnect one FC (the active one by default) and forget it */
+  async disconnect(connectionId: string | null = this.activeId): Promise<void> {
+    if (!connectionId) {
+      // Nothing tracked — still let the idle client report a clean disconnected state
+      await this.activeClient.disconnect();
+      return;
+    }
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      throw new ConnectionError(`No connection on ${connectionId}`);
+    }
+    await conn.client.disconnect();
+    // The client's 'disconnected' event normally removes it already
+    this.remove(connectionId);
+  }
+
+  async disconnectAll(): Promise<void> {
+    for (const [id, { client }] of this.connections) {
+      if (client.isConnected()) {
+        try {
+          await client.disconnect();
+        } catch (error) {
+          logger.warn(`Failed to disconnect ${id}:`, error);
+        }
+      }
+    }
+  }
+
+  setActive(connectionId: string): void {
+    const conn = this.connections.get(connectionId);
+    if (!conn) {
+      throw new ConnectionError(`No connection on ${connectionId}`);
+    }
+    if (connectionId === this.activeId) return;
+    this.setActiveInternal(connectionId, conn.client);
+    this.emitConnectionsChanged();
+  }
+
+  /** Record which FC (MSP_UID) and profile a connection belongs to */
+  assignFC(
+    connectionId: string,
+    fcSerial: string,
+    profile: Pick<DroneProfileMetadata, 'id' | 'name'> | null
+  ): void {
+    const conn = this.connections.get(connectionId);
+    if (!conn) return;
+    conn.fcSerial = fcSerial;
+    conn.profile = profile ? { id: profile.id, name: profile.name } : undefined;
+    this.emitConnectionsChanged();
+  }
+
+  getAssignment(
+    connectionId: string
+  ): { fcSerial?: string; profile?: Pick<DroneProfileMetadata, 'id' | 'name'> } | null {
+    const conn = this.connections.get(connectionId);
+    return conn ? { fcSerial: conn.fcSerial, profile: conn.profile } : null;
+  }
+
+  private takeIdleClient(): MSPClient {
+    // Reuse the active client when it is not serving a connection (nothing open yet)
+    const activeInUse = [...this.connections.values()].some((c) => c.client === this.activeClient);
+    return activeInUse ? this.wire(this.createClient()) : this.activeClient;
+  }
+
+  private setActiveInternal(connectionId: string, client: MSPClient): void {
+    this.activeId = connectionId;
+    this.activeClient = client;
+    logger.info(`Active connection: ${connectionId}`);
+    this.emit('active-changed', connectionId, client);
+  }
+
+  private isExpectedDisconnect(client: MSPClient): boolean {
+    return client.mscModeActive || client.rebootPending || client.awaitingReconnect;
+  }
+
+  private idOf(client: MSPClient): string | null {
+    for (const [id, conn] of this.connections) {
+      if (conn.client === client) return id;
+    }
+    return null;
+  }
+
+  private wire(client: MSPClient): MSPClient {
+    if (this.wiredClients.has(client)) return client;
+    this.wiredClients.add(client);
+
+    client.on('connected', () => {
+      const id = this.idOf(client);
+      if (id) {
+        this.emit('connected', id, client);
+        this.emitConnectionsChanged();
+      }
+    });
+
+    client.on('connection-changed', (status: ConnectionStatus) => {
+      const id = this.idOf(client);
+      if (id) {
+        this.emit('connection-changed', id, status);
+      }
+    });
+
+    client.on('disconnected', () => {
+      const id = this.idOf(client);
+      if (!id) return;
+      if (this.isExpectedDisconnect(client)) {
+        // Rebooting or in MSC mode — keep the connection so the FC comes back to it
+        this.emit('disconnected', id, client, id === this.activeId);
+        this.emitConnectionsChanged();
+        return;
+      }
+      this.remove(id);
+    });
+
+    return client;
+  }
+
+  private remove(connectionId: string): void {
+    const conn = this.connections.get(connectionId);
+    if (!conn) return;
+    this.connections.delete(connectionId);
+    const wasActive = connectionId === this.activeId;
+    logger.info(`Connection closed: ${connectionId}`);
+    this.emit('disconnected', connectionId, conn.client, wasActive);
+
+    if (wasActive) {
+      const [nextId, next] = [...this.connections.entries()][0] ?? [];
+      if (nextId && next) {
+        this.setActiveInternal(nextId, next.client);
+      } else {
+        this.activeId = null;
+      }
+    }
+    this.emitConnectionsChanged();
+  }
+
+  private emitConnectionsChanged(): void {
+    this.emit('connections-changed', this.list());
+  }
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { MSPClient } from './MSPClient';
 import { MSPCommand } from './types';
-import { TimeoutError } from '../utils/errors';
+import { FlashDecodeError, MSPError, TimeoutError } from '../utils/errors';
 import {
   buildAPIVersionData,
   buildFCVariantData,
@@ -9,7 +9,9 @@ import {
   buildBoardInfoData,
   buildUIDData,
   buildPIDData,
+  buildFilterConfigData,
   buildDataflashSummaryData,
+  buildDataflashReadData,
 } from './test/mspResponseFactory';
 
 // Mock dependencies
@@ -26,39 +28,48 @@ vi.mock('../utils/logger', () => ({
   },
 }));
 
-vi.mock('../utils/errors', () => ({
-  ConnectionError: class extends Error {
-    constructor(
-      m: string,
-      public details?: any
-    ) {
-      super(m);
-      this.name = 'ConnectionError';
-    }
-  },
-  MSPError: class extends Error {
+vi.mock('../utils/errors', () => {
+  class MSPError extends Error {
     constructor(m: string) {
       super(m);
       this.name = 'MSPError';
     }
-  },
-  TimeoutError: class extends Error {
-    constructor(m = 'Operation timed out') {
-      super(m);
-      this.name = 'TimeoutError';
-    }
-  },
-  UnsupportedVersionError: class extends Error {
-    constructor(
-      m: string,
-      public detectedVersion?: string,
-      public detectedApi?: any
-    ) {
-      super(m);
-      this.name = 'UnsupportedVersionError';
-    }
-  },
-}));
+  }
+  return {
+    ConnectionError: class extends Error {
+      constructor(
+        m: string,
+        public details?: any
+      ) {
+        super(m);
+        this.name = 'ConnectionError';
+      }
+    },
+    MSPError,
+    FlashDecodeError: class extends MSPError {
+      constructor(m: string) {
+        super(m);
+        this.name = 'FlashDecodeError';
+      }
+    },
+    TimeoutError: class extends Error {
+      constructor(m = 'Operation timed out') {
+        super(m);
+        this.name = 'TimeoutError';
+      }
+    },
+    UnsupportedVersionError: class extends Error {
+      constructor(
+        m: string,
+        public detectedVersion?: string,
+        public detectedApi?: any
+      ) {
+        super(m);
+        this.name = 'UnsupportedVersionError';
+      }
+    },
+  };
+});
 
 vi.mock('@shared/constants', () => ({
   MSP: { DEFAULT_BAUD_RATE: 115200 },
@@ -105,8 +116,16 @@ describe('MSPClient.extractFlashPayload', () => {
     expect(result.isCompressed).toBe(false);
   });
 
-  it('detects compressed response and sets isCompressed flag', () => {
-    // [4B addr][2B size=3][1B comp=1][3 bytes compressed data]
+  it('decodes compressed response and sets isCompressed flag', () => {
+    const flash = Buffer.from('H Product:Blackbox flight data recorder by Nicholas Sherlock\n');
+    const response = buildDataflashReadData(100, flash, { compressed: true });
+    const result = MSPClient.extractFlashPayload(response);
+    expect(result.data.toString()).toBe(flash.toString());
+    expect(result.isCompressed).toBe(true);
+  });
+
+  it('throws FlashDecodeError for a truncated compressed stream', () => {
+    // [4B addr][2B size=3][1B comp=1][2B decodedLength=0xbbaa][1B bits]
     const buf = Buffer.alloc(10);
     buf.writeUInt32LE(100, 0);
     buf.writeUInt16LE(3, 4);
@@ -115,10 +134,7 @@ describe('MSPClient.extractFlashPayload', () => {
     buf[8] = 0xbb;
     buf[9] = 0xcc;
 
-    const result = MSPClient.extractFlashPayload(buf);
-    expect(result.data.length).toBe(3);
-    expect(result.data[0]).toBe(0xaa);
-    expect(result.isCompressed).toBe(true);
+    expect(() => MSPClient.extractFlashPayload(buf)).toThrow(FlashDecodeError);
   });
 
   it('returns raw data for buffers shorter than 6 bytes', () => {
@@ -195,6 +211,10 @@ describe('MSPClient.getFilterConfiguration', () => {
       dyn_notch_q: 300,
       rpm_filter_harmonics: 3,
       rpm_filter_min_hz: 100,
+      gyro_lpf1_dyn_min_hz: 0,
+      gyro_lpf1_dyn_max_hz: 0,
+      dterm_lpf1_dyn_min_hz: 0,
+      dterm_lpf1_dyn_max_hz: 0,
     });
   });
 
@@ -223,11 +243,15 @@ describe('MSPClient.getFilterConfiguration', () => {
       dyn_notch_q: 0,
       rpm_filter_harmonics: 0,
       rpm_filter_min_hz: 0,
+      gyro_lpf1_dyn_min_hz: 0,
+      gyro_lpf1_dyn_max_hz: 0,
+      dterm_lpf1_dyn_min_hz: 0,
+      dterm_lpf1_dyn_max_hz: 0,
     });
   });
 
-  it('reads dyn_notch_count from extended response (byte 47+)', async () => {
-    const buf = Buffer.alloc(48, 0);
+  it('reads dterm_lpf1_dyn_expo and dyn_notch_count from extended response (bytes 47-48)', async () => {
+    const buf = Buffer.alloc(49, 0);
     buf.writeUInt16LE(250, 20); // gyro_lpf1_static_hz
     buf.writeUInt16LE(150, 1); // dterm_lpf1_static_hz
     buf.writeUInt16LE(500, 22); // gyro_lpf2_static_hz
@@ -237,12 +261,14 @@ describe('MSPClient.getFilterConfiguration', () => {
     buf.writeUInt8(3, 43); // rpm_filter_harmonics
     buf.writeUInt8(100, 44); // rpm_filter_min_hz
     buf.writeUInt16LE(600, 45); // dyn_notch_max_hz
-    buf.writeUInt8(1, 47); // dyn_notch_count
+    buf.writeUInt8(7, 47); // dterm_lpf1_dyn_expo
+    buf.writeUInt8(1, 48); // dyn_notch_count
 
     mockSendCommand.mockResolvedValue({ command: MSPCommand.MSP_FILTER_CONFIG, data: buf });
 
     const result = await client.getFilterConfiguration();
 
+    expect(result.dterm_lpf1_dyn_expo).toBe(7);
     expect(result.dyn_notch_count).toBe(1);
     expect(result.rpm_filter_harmonics).toBe(3);
   });
@@ -258,6 +284,185 @@ describe('MSPClient.getFilterConfiguration', () => {
     expect(result.rpm_filter_harmonics).toBe(3);
     expect(result.dyn_notch_count).toBeUndefined();
   });
+
+  it('reads dynamic lowpass ranges', async () => {
+    const buf = buildFilterConfigData({
+      gyro_lpf1_dyn_min_hz: 250,
+      gyro_lpf1_dyn_max_hz: 500,
+      dterm_lpf1_dyn_min_hz: 75,
+      dterm_lpf1_dyn_max_hz: 150,
+    });
+    mockSendCommand.mockResolvedValue({ command: MSPCommand.MSP_FILTER_CONFIG, data: buf });
+
+    const result = await client.getFilterConfiguration();
+
+    expect(result.gyro_lpf1_dyn_min_hz).toBe(250);
+    expect(result.gyro_lpf1_dyn_max_hz).toBe(500);
+    expect(result.dterm_lpf1_dyn_min_hz).toBe(75);
+    expect(result.dterm_lpf1_dyn_max_hz).toBe(150);
+  });
+});
+
+describe('MSPClient.setFilterConfiguration', () => {
+  let client: MSPClient;
+  let mockSendCommand: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new MSPClient();
+    mockSendCommand = vi.fn();
+    (client as any).connection = {
+      sendCommand: mockSendCommand,
+      isOpen: vi.fn().mockReturnValue(true),
+      on: vi.fn(),
+    };
+  });
+
+  it('patches only the changed fields and round-trips unknown bytes', async () => {
+    // 52 bytes: 3 trailing bytes from a newer firmware the app does not know about
+    const current = Buffer.concat([
+      buildFilterConfigData({ gyro_lpf1_static_hz: 250, dyn_notch_count: 3 }),
+      Buffer.from([0xaa, 0xbb, 0xcc]),
+    ]);
+    current.writeUInt16LE(100, 3); // yaw_lowpass_hz — not touched
+    mockSendCommand
+      .mockResolvedValueOnce({ command: MSPCommand.MSP_FILTER_CONFIG, data: current })
+      .mockResolvedValueOnce({ command: MSPCommand.MSP_SET_FILTER_CONFIG, data: Buffer.alloc(0) });
+
+    await client.setFilterConfiguration({
+      gyro_lpf1_static_hz: 300,
+      dyn_notch_count: 2,
+      rpm_filter_min_hz: 90,
+    });
+
+    const [command, payload] = mockSendCommand.mock.calls[1];
+    expect(command).toBe(MSPCommand.MSP_SET_FILTER_CONFIG);
+    expect(payload.length).toBe(52);
+    expect(payload.readUInt16LE(20)).toBe(300);
+    expect(payload.readUInt8(0)).toBe(300 & 0xff);
+    expect(payload.readUInt8(48)).toBe(2);
+    expect(payload.readUInt8(44)).toBe(90);
+    expect(payload.readUInt16LE(3)).toBe(100);
+    expect([...payload.subarray(49)]).toEqual([0xaa, 0xbb, 0xcc]);
+  });
+
+  it('rejects settings that MSP_FILTER_CONFIG does not carry', async () => {
+    mockSendCommand.mockResolvedValue({
+      command: MSPCommand.MSP_FILTER_CONFIG,
+      data: buildFilterConfigData(),
+    });
+
+    await expect(client.setFilterConfiguration({ rpm_filter_q: 500 })).rejects.toThrow(
+      'rpm_filter_q is not part of MSP_FILTER_CONFIG'
+    );
+    expect(mockSendCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects fields beyond the payload of older firmware', async () => {
+    mockSendCommand.mockResolvedValue({
+      command: MSPCommand.MSP_FILTER_CONFIG,
+      data: Buffer.alloc(47, 0),
+    });
+
+    await expect(client.setFilterConfiguration({ dyn_notch_count: 2 })).rejects.toThrow(
+      'dyn_notch_count is not available over MSP on this firmware'
+    );
+  });
+
+  it('throws when the FC rejects the write', async () => {
+    mockSendCommand
+      .mockResolvedValueOnce({
+        command: MSPCommand.MSP_FILTER_CONFIG,
+        data: buildFilterConfigData(),
+      })
+      .mockResolvedValueOnce({
+        command: MSPCommand.MSP_SET_FILTER_CONFIG,
+        data: Buffer.alloc(0),
+        error: true,
+      });
+
+    await expect(client.setFilterConfiguration({ dyn_notch_q: 250 })).rejects.toThrow(
+      'Failed to set filter configuration'
+    );
+  });
+
+  it('saveToEeprom sends MSP_EEPROM_WRITE', async () => {
+    mockSendCommand.mockResolvedValue({
+      command: MSPCommand.MSP_EEPROM_WRITE,
+      data: Buffer.alloc(0),
+    });
+
+    await client.saveToEeprom();
+
+    expect(mockSendCommand).toHaveBeenCalledWith(MSPCommand.MSP_EEPROM_WRITE);
+  });
+});
+
+describe('MSPClient.setRatesConfiguration', () => {
+  let client: MSPClient;
+  let mockSendCommand: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new MSPClient();
+    mockSendCommand = vi.fn();
+    (client as any).connection = {
+      sendCommand: mockSendCommand,
+      isOpen: vi.fn().mockReturnValue(true),
+      on: vi.fn(),
+    };
+  });
+
+  it('patches rate fields and keeps throttle/TPA bytes', async () => {
+    // 25 bytes: BF 4.5 adds throttle_limit_type/percent after rates_type
+    const current = Buffer.alloc(25, 0);
+    current.writeUInt8(7, 0); // roll_rc_rate
+    current.writeUInt8(67, 2); // roll_srate
+    current.writeUInt8(50, 5); // dyn_thr_pid (TPA) — not touched
+    current.writeUInt16LE(1998, 16); // roll_rate_limit
+    current.writeUInt8(3, 22); // rates_type = ACTUAL
+    current.writeUInt8(80, 24); // throttle_limit_percent — not touched
+    mockSendCommand
+      .mockResolvedValueOnce({ command: MSPCommand.MSP_RC_TUNING, data: current })
+      .mockResolvedValueOnce({ command: MSPCommand.MSP_SET_RC_TUNING, data: Buffer.alloc(0) });
+
+    await client.setRatesConfiguration({ roll_srate: 77, yaw_expo: 20, pitch_rate_limit: 1800 });
+
+    const [command, payload] = mockSendCommand.mock.calls[1];
+    expect(command).toBe(MSPCommand.MSP_SET_RC_TUNING);
+    expect(payload.length).toBe(25);
+    expect(payload.readUInt8(0)).toBe(7);
+    expect(payload.readUInt8(2)).toBe(77);
+    expect(payload.readUInt8(10)).toBe(20);
+    expect(payload.readUInt16LE(18)).toBe(1800);
+    expect(payload.readUInt8(5)).toBe(50);
+    expect(payload.readUInt8(22)).toBe(3);
+    expect(payload.readUInt8(24)).toBe(80);
+  });
+
+  it('rejects settings that MSP_RC_TUNING does not carry', async () => {
+    mockSendCommand.mockResolvedValue({
+      command: MSPCommand.MSP_RC_TUNING,
+      data: Buffer.alloc(23, 0),
+    });
+
+    await expect(client.setRatesConfiguration({ thr_mid: 50 })).rejects.toThrow(
+      'thr_mid is not part of MSP_RC_TUNING'
+    );
+    expect(mockSendCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws when the FC rejects the write', async () => {
+    mockSendCommand
+      .mockResolvedValueOnce({ command: MSPCommand.MSP_RC_TUNING, data: Buffer.alloc(23, 0) })
+      .mockResolvedValueOnce({
+        command: MSPCommand.MSP_SET_RC_TUNING,
+        data: Buffer.alloc(0),
+        error: true,
+      });
+
+    await expect(client.setRatesConfiguration({ roll_expo: 10 })).rejects.toThrow(
+      'Failed to set rates configuration'
+    );
+  });
 });
 
 describe('MSPClient.getFeedforwardConfiguration', () => {
@@ -370,6 +575,104 @@ describe('getPidProcessDenom', () => {
   });
 });
 
+describe('getMixerMode', () => {
+  let client: any;
+  let mockSendCommand: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockSendCommand = vi.fn();
+    client = Object.create(MSPClient.prototype);
+    client.connection = {
+      sendCommand: mockSendCommand,
+      isOpen: vi.fn().mockReturnValue(true),
+      on: vi.fn(),
+    };
+  });
+
+  it('reads mixerMode from byte 0 of MSP_MIXER_CONFIG', async () => {
+    const buf = Buffer.from([11, 0]); // OCTOX8, yaw not reversed
+    mockSendCommand.mockResolvedValue({ command: MSPCommand.MSP_MIXER_CONFIG, data: buf });
+
+    const result = await client.getMixerMode();
+
+    expect(mockSendCommand).toHaveBeenCalledWith(MSPCommand.MSP_MIXER_CONFIG);
+    expect(result).toBe(11);
+  });
+
+  it('throws on empty response', async () => {
+    mockSendCommand.mockResolvedValue({
+      command: MSPCommand.MSP_MIXER_CONFIG,
+      data: Buffer.alloc(0),
+    });
+
+    await expect(client.getMixerMode()).rejects.toThrow('Invalid MSP_MIXER_CONFIG response');
+  });
+});
+
+describe('bench motor test MSP', () => {
+  let client: any;
+  let mockSendCommand: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockSendCommand = vi.fn();
+    client = Object.create(MSPClient.prototype);
+    client.connection = {
+      sendCommand: mockSendCommand,
+      isOpen: vi.fn().mockReturnValue(true),
+      on: vi.fn(),
+    };
+  });
+
+  it('getRawImu reads signed gyro deg/s from bytes 6-11', async () => {
+    const buf = Buffer.alloc(18);
+    buf.writeInt16LE(512, 0); // acc x — ignored
+    buf.writeInt16LE(-12, 6);
+    buf.writeInt16LE(340, 8);
+    buf.writeInt16LE(-1, 10);
+    mockSendCommand.mockResolvedValue({ command: MSPCommand.MSP_RAW_IMU, data: buf });
+
+    const sample = await client.getRawImu();
+
+    expect(mockSendCommand).toHaveBeenCalledWith(MSPCommand.MSP_RAW_IMU);
+    expect(sample.gyro).toEqual([-12, 340, -1]);
+    expect(sample.timestamp).toBeGreaterThan(0);
+  });
+
+  it('getRawImu throws on short response', async () => {
+    mockSendCommand.mockResolvedValue({ command: MSPCommand.MSP_RAW_IMU, data: Buffer.alloc(6) });
+    await expect(client.getRawImu()).rejects.toThrow('Invalid MSP_RAW_IMU response');
+  });
+
+  it('getMotorValues reads 8 motor outputs', async () => {
+    const buf = Buffer.alloc(16);
+    [1000, 1000, 1000, 1000, 0, 0, 0, 0].forEach((v, i) => buf.writeUInt16LE(v, i * 2));
+    mockSendCommand.mockResolvedValue({ command: MSPCommand.MSP_MOTOR, data: buf });
+
+    expect(await client.getMotorValues()).toEqual([1000, 1000, 1000, 1000, 0, 0, 0, 0]);
+  });
+
+  it('setMotorValues pads to 8 motors with 1000 and clamps to 1000-2000', async () => {
+    mockSendCommand.mockResolvedValue({ command: MSPCommand.MSP_SET_MOTOR, data: Buffer.alloc(0) });
+
+    await client.setMotorValues([1150, 2500, 900]);
+
+    const [command, payload] = mockSendCommand.mock.calls[0];
+    expect(command).toBe(MSPCommand.MSP_SET_MOTOR);
+    expect(payload.length).toBe(16);
+    const values = Array.from({ length: 8 }, (_, i) => payload.readUInt16LE(i * 2));
+    expect(values).toEqual([1150, 2000, 1000, 1000, 1000, 1000, 1000, 1000]);
+  });
+
+  it('setMotorValues throws when the FC rejects the command', async () => {
+    mockSendCommand.mockResolvedValue({
+      command: MSPCommand.MSP_SET_MOTOR,
+      data: Buffer.alloc(0),
+      error: true,
+    });
+    await expect(client.setMotorValues([1100])).rejects.toThrow('MSP_SET_MOTOR');
+  });
+});
+
 // ─── Helper: create MSPClient with stubbed connection ────────────────
 
 function createClientWithStub() {
@@ -640,7 +943,25 @@ describe('MSPClient.getFCInfo', () => {
 // ─── getPIDConfiguration ─────────────────────────────────────────────
 
 describe('MSPClient.getPIDConfiguration', () => {
-  it('parses roll/pitch/yaw P/I/D from first 9 bytes', async () => {
+  it('parses every controller in the block (roll/pitch/yaw/level/mag)', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    const pidConfig = {
+      roll: { P: 45, I: 67, D: 23 },
+      pitch: { P: 50, I: 72, D: 25 },
+      yaw: { P: 35, I: 90, D: 0 },
+      level: { P: 50, I: 75, D: 75 },
+      mag: { P: 40, I: 0, D: 0 },
+    };
+    sendCommand.mockResolvedValue({
+      command: MSPCommand.MSP_PID,
+      data: buildPIDData(pidConfig, 15),
+    });
+
+    const result = await client.getPIDConfiguration();
+    expect(result).toEqual(pidConfig);
+  });
+
+  it('omits level and mag when the response stops after yaw', async () => {
     const { client, sendCommand } = createClientWithStub();
     const pidConfig = {
       roll: { P: 45, I: 67, D: 23 },
@@ -649,7 +970,7 @@ describe('MSPClient.getPIDConfiguration', () => {
     };
     sendCommand.mockResolvedValue({
       command: MSPCommand.MSP_PID,
-      data: buildPIDData(pidConfig),
+      data: buildPIDData(pidConfig, 9),
     });
 
     const result = await client.getPIDConfiguration();
@@ -670,39 +991,90 @@ describe('MSPClient.getPIDConfiguration', () => {
 // ─── setPIDConfiguration ─────────────────────────────────────────────
 
 describe('MSPClient.setPIDConfiguration', () => {
-  it('sends correct 30-byte buffer with P/I/D values', async () => {
-    const { client, sendCommand } = createClientWithStub();
-    sendCommand.mockResolvedValue({
-      command: MSPCommand.MSP_SET_PID,
-      data: Buffer.alloc(0),
-      error: false,
+  const current = {
+    roll: { P: 45, I: 80, D: 40 },
+    pitch: { P: 47, I: 84, D: 43 },
+    yaw: { P: 45, I: 80, D: 0 },
+    level: { P: 50, I: 75, D: 75 },
+    mag: { P: 40, I: 0, D: 0 },
+  };
+
+  /** FC that stores the MSP_SET_PID block and returns it from MSP_PID */
+  function stubFC(sendCommand: ReturnType<typeof vi.fn>, block: Buffer) {
+    let stored = Buffer.from(block);
+    sendCommand.mockImplementation(async (cmd: number, payload?: Buffer) => {
+      if (cmd === MSPCommand.MSP_SET_PID) {
+        stored = Buffer.from(payload!);
+        return { command: cmd, data: Buffer.alloc(0), error: false };
+      }
+      return { command: cmd, data: stored };
     });
+  }
+
+  it('patches roll/pitch/yaw into the current block and keeps level/mag', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    stubFC(sendCommand, buildPIDData(current, 15));
 
     await client.setPIDConfiguration({
-      roll: { P: 45, I: 67, D: 23 },
+      roll: { P: 50, I: 67, D: 23 },
       pitch: { P: 50, I: 72, D: 25 },
       yaw: { P: 35, I: 90, D: 0 },
     });
 
-    expect(sendCommand).toHaveBeenCalledWith(MSPCommand.MSP_SET_PID, expect.any(Buffer));
-    const sentBuf: Buffer = sendCommand.mock.calls[0][1];
-    expect(sentBuf.length).toBe(30);
-    expect(sentBuf[0]).toBe(45); // roll P
-    expect(sentBuf[1]).toBe(67); // roll I
-    expect(sentBuf[2]).toBe(23); // roll D
-    expect(sentBuf[3]).toBe(50); // pitch P
-    expect(sentBuf[6]).toBe(35); // yaw P
-    expect(sentBuf[7]).toBe(90); // yaw I
-    expect(sentBuf[8]).toBe(0); // yaw D
+    expect(sendCommand.mock.calls.map((c: any[]) => c[0])).toEqual([
+      MSPCommand.MSP_PID,
+      MSPCommand.MSP_SET_PID,
+      MSPCommand.MSP_PID,
+    ]);
+    const sentBuf: Buffer = sendCommand.mock.calls[1][1];
+    expect(sentBuf.length).toBe(15);
+    expect([...sentBuf.subarray(0, 9)]).toEqual([50, 67, 23, 50, 72, 25, 35, 90, 0]);
+    expect([...sentBuf.subarray(9)]).toEqual([50, 75, 75, 40, 0, 0]);
+  });
+
+  it('writes the level controller when given', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    stubFC(sendCommand, buildPIDData(current, 15));
+
+    await client.setPIDConfiguration({ ...current, level: { P: 60, I: 70, D: 80 } });
+
+    const sentBuf: Buffer = sendCommand.mock.calls[1][1];
+    expect([...sentBuf.subarray(9, 12)]).toEqual([60, 70, 80]);
+    expect(sentBuf[12]).toBe(40); // mag P untouched
+  });
+
+  it('rejects a controller the FC does not report', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    stubFC(sendCommand, buildPIDData(current, 9));
+
+    const { roll, pitch, yaw } = current;
+    await expect(
+      client.setPIDConfiguration({ roll, pitch, yaw, mag: { P: 10, I: 0, D: 0 } })
+    ).rejects.toThrow('FC does not report a mag PID controller');
+    expect(sendCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws when the readback does not match', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    const block = buildPIDData(current, 15);
+    sendCommand.mockImplementation(async (cmd: number) =>
+      cmd === MSPCommand.MSP_SET_PID
+        ? { command: cmd, data: Buffer.alloc(0), error: false }
+        : { command: cmd, data: block }
+    );
+
+    await expect(
+      client.setPIDConfiguration({ ...current, pitch: { P: 47, I: 84, D: 30 } })
+    ).rejects.toThrow('PID readback mismatch after MSP_SET_PID: pitch D expected 30, got 43');
   });
 
   it('throws on error response from FC', async () => {
     const { client, sendCommand } = createClientWithStub();
-    sendCommand.mockResolvedValue({
-      command: MSPCommand.MSP_SET_PID,
-      data: Buffer.alloc(0),
-      error: true,
-    });
+    sendCommand.mockImplementation(async (cmd: number) =>
+      cmd === MSPCommand.MSP_SET_PID
+        ? { command: cmd, data: Buffer.alloc(0), error: true }
+        : { command: cmd, data: buildPIDData(current, 15) }
+    );
 
     await expect(
       client.setPIDConfiguration({
@@ -1074,6 +1446,69 @@ describe('MSPClient.exportCLIDiff', () => {
   });
 });
 
+describe('MSPClient.exportSettingsSchema', () => {
+  it('reads the full get output with a longer timeout and exits CLI', async () => {
+    const { client, mockConn } = createClientWithStub();
+    mockConn.sendCLICommand.mockResolvedValue(
+      'get\ngyro_lpf1_static_hz = 250\nAllowed range: 0 - 1000\n\n#'
+    );
+
+    const result = await client.exportSettingsSchema();
+
+    expect(mockConn.sendCLICommand).toHaveBeenCalledWith('get', 30000);
+    expect(mockConn.writeCLIRaw).toHaveBeenCalledWith('exit');
+    expect(result).toContain('Allowed range: 0 - 1000');
+  });
+});
+
+// ─── CLI console ─────────────────────────────────────────────────────
+
+describe('MSPClient.runCLICommand', () => {
+  it('enters CLI once and stays there between commands', async () => {
+    const { client, mockConn } = createClientWithStub();
+    mockConn.sendCLICommand.mockResolvedValue('status\r\nSystem Uptime: 42 seconds\r\n\r\n# ');
+
+    const result = await client.runCLICommand('status');
+
+    expect(mockConn.enterCLI).toHaveBeenCalledTimes(1);
+    expect(mockConn.writeCLIRaw).not.toHaveBeenCalled();
+    // Echo and prompt stripped
+    expect(result).toBe('System Uptime: 42 seconds');
+  });
+
+  it('keeps comment lines from diff output', async () => {
+    const { client, mockConn } = createClientWithStub();
+    mockConn.isInCLI.mockReturnValue(true);
+    mockConn.sendCLICommand.mockResolvedValue('diff\r\n# master\r\nset motor_poles = 12\r\n# ');
+
+    const result = await client.runCLICommand('diff');
+
+    expect(mockConn.enterCLI).not.toHaveBeenCalled();
+    expect(result).toBe('# master\nset motor_poles = 12');
+  });
+});
+
+describe('MSPClient.exitCLIConsole', () => {
+  it('does nothing when not in CLI', async () => {
+    const { client, mockConn } = createClientWithStub();
+
+    await client.exitCLIConsole();
+
+    expect(mockConn.writeCLIRaw).not.toHaveBeenCalled();
+  });
+
+  it('sends exit and waits for the FC to come back', async () => {
+    const { client, mockConn } = createClientWithStub();
+    mockConn.isInCLI.mockReturnValue(true);
+
+    await client.exitCLIConsole();
+
+    expect(mockConn.writeCLIRaw).toHaveBeenCalledWith('exit');
+    expect(mockConn.resetProtocol).toHaveBeenCalled();
+    expect(mockConn.clearFCRebootedFromCLI).toHaveBeenCalled();
+  });
+});
+
 // ─── saveAndReboot ───────────────────────────────────────────────────
 
 describe('MSPClient.saveAndReboot', () => {
@@ -1367,6 +1802,45 @@ describe('MSPClient.connect', () => {
   });
 });
 
+describe('MSPClient.reconnectAfterReboot — TCP endpoint', () => {
+  it('retries the socket until the FC accepts it, without polling serial ports', async () => {
+    const { SerialPort } = await import('serialport');
+    const { client, sendCommand, mockConn } = createClientWithStub();
+    (client as any).delay = vi.fn().mockResolvedValue(undefined);
+    (client as any).currentPort = '127.0.0.1:5761';
+    mockConn.isOpen.mockReturnValue(false);
+    vi.mocked(SerialPort.list).mockClear();
+
+    let attempts = 0;
+    mockConn.open.mockImplementation(async () => {
+      attempts++;
+      if (attempts < 3) throw new Error('connect ECONNREFUSED');
+    });
+    sendCommand.mockImplementation(async (cmd: number) => {
+      switch (cmd) {
+        case MSPCommand.MSP_API_VERSION:
+          return { command: cmd, data: buildAPIVersionData(1, 46) };
+        case MSPCommand.MSP_FC_VARIANT:
+          return { command: cmd, data: buildFCVariantData('BTFL') };
+        case MSPCommand.MSP_FC_VERSION:
+          return { command: cmd, data: buildFCVersionData(4, 5, 1) };
+        case MSPCommand.MSP_BOARD_INFO:
+          return { command: cmd, data: buildBoardInfoData({ targetName: 'SITL' }) };
+        default:
+          return { command: cmd, data: Buffer.alloc(0) };
+      }
+    });
+
+    const result = await client.reconnectAfterReboot(5000);
+
+    expect(result).toBe(true);
+    expect(attempts).toBe(3);
+    expect(mockConn.open).toHaveBeenLastCalledWith('127.0.0.1:5761', 115200);
+    expect(SerialPort.list).not.toHaveBeenCalled();
+    expect(client.getConnectionStatus().portPath).toBe('127.0.0.1:5761');
+  });
+});
+
 // ─── downloadBlackboxLog: chunk ceiling ──────────────────────────────
 
 describe('MSPClient.downloadBlackboxLog — chunk ceiling after failure', () => {
@@ -1424,6 +1898,241 @@ describe('MSPClient.downloadBlackboxLog — chunk ceiling after failure', () =>
   });
 });
 
+describe('MSPClient.downloadBlackboxLog — Huffman compression', () => {
+  const flash = Buffer.from(
+    Array.from({ length: 3000 }, (_, i) => (i % 7 === 0 ? 0x10 + (i % 5) : i % 3))
+  );
+
+  it('requests compressed reads and returns decoded flash contents', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    const requests: Buffer[] = [];
+
+    sendCommand.mockImplementation(async (cmd: number, payload?: Buffer) => {
+      if (cmd === MSPCommand.MSP_DATAFLASH_SUMMARY) {
+        return {
+          command: cmd,
+          data: buildDataflashSummaryData({ totalSize: 8192, usedSize: flash.length }),
+        };
+      }
+      if (cmd === MSPCommand.MSP_DATAFLASH_READ && payload) {
+        requests.push(payload);
+        const address = payload.readUInt32LE(0);
+        // Firmware fills the requested size with compressed output, so it reads
+        // further than requested — including erased flash past usedSize
+        const end = address + payload.readUInt16LE(4) * 2;
+        const padded = Buffer.concat([flash, Buffer.alloc(8192 - flash.length, 0xff)]);
+        return {
+          command: cmd,
+          data: buildDataflashReadData(address, padded.subarray(address, end), {
+            compressed: true,
+          }),
+        };
+      }
+      return { command: cmd, data: Buffer.alloc(0) };
+    });
+
+    const result = await client.downloadBlackboxLog();
+
+    expect(result.compressionDetected).toBe(true);
+    expect(result.data).toEqual(flash);
+    expect(requests[0].length).toBe(7);
+    expect(requests[0][6]).toBe(1);
+    // Addresses advance by decoded length, not compressed length
+    expect(requests[1].readUInt32LE(0)).toBe(requests[0].readUInt16LE(4) * 2);
+  });
+
+  it('falls back to uncompressed reads when a compressed chunk cannot be decoded', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    const requests: Buffer[] = [];
+
+    sendCommand.mockImplementation(async (cmd: number, payload?: Buffer) => {
+      if (cmd === MSPCommand.MSP_DATAFLASH_SUMMARY) {
+        return {
+          command: cmd,
+          data: buildDataflashSummaryData({ totalSize: 8192, usedSize: 400 }),
+        };
+      }
+      if (cmd === MSPCommand.MSP_DATAFLASH_READ && payload) {
+        requests.push(payload);
+        const address = payload.readUInt32LE(0);
+        if (payload.length === 7) {
+          // Claims 0xffff decoded bytes but carries a single byte of bits
+          return { command: cmd, data: Buffer.from([0, 0, 0, 0, 3, 0, 1, 0xff, 0xff, 0x00]) };
+        }
+        const size = payload.readUInt16LE(4);
+        return {
+          command: cmd,
+          data: buildDataflashReadData(address, Buffer.alloc(size, 0x42)),
+        };
+      }
+      return { command: cmd, data: Buffer.alloc(0) };
+    });
+
+    const result = await client.downloadBlackboxLog();
+
+    expect(result.compressionDetected).toBe(false);
+    expect(result.data).toEqual(Buffer.alloc(400, 0x42));
+    expect(requests[0].length).toBe(7);
+    expect(requests.slice(1).every((r) => r.length === 6)).toBe(true);
+    expect(requests[1].readUInt32LE(0)).toBe(0);
+  });
+
+  it('retries other read errors with a smaller chunk and keeps compression', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    const flash = Buffer.alloc(300, 0x00);
+    const requests: Buffer[] = [];
+
+    sendCommand.mockImplementation(async (cmd: number, payload?: Buffer) => {
+      if (cmd === MSPCommand.MSP_DATAFLASH_SUMMARY) {
+        return {
+          command: cmd,
+          data: buildDataflashSummaryData({ totalSize: 8192, usedSize: flash.length }),
+        };
+      }
+      if (cmd === MSPCommand.MSP_DATAFLASH_READ && payload) {
+        requests.push(payload);
+        if (requests.length === 1) {
+          throw new MSPError('MSP error response for command 71');
+        }
+        const address = payload.readUInt32LE(0);
+        const end = Math.min(address + payload.readUInt16LE(4), flash.length);
+        return {
+          command: cmd,
+          data: buildDataflashReadData(address, flash.subarray(address, end), {
+            compressed: true,
+          }),
+        };
+      }
+      return { command: cmd, data: Buffer.alloc(0) };
+    });
+
+    const result = await client.downloadBlackboxLog();
+
+    expect(result.compressionDetected).toBe(true);
+    expect(result.data).toEqual(flash);
+    expect(requests.every((r) => r.length === 7)).toBe(true);
+    expect(requests[1].readUInt32LE(0)).toBe(0);
+    expect(requests[1].readUInt16LE(4)).toBeLessThan(requests[0].readUInt16LE(4));
+  });
+});
+
+describe('MSPClient.downloadBlackboxLog — resume', () => {
+  const flash = Buffer.from(Array.from({ length: 1000 }, (_, i) => i & 0xff));
+
+  function stubFlash(
+    sendCommand: ReturnType<typeof vi.fn>,
+    requests: number[],
+    emptyReads: number[] = []
+  ) {
+    sendCommand.mockImplementation(async (cmd: number, payload?: Buffer) => {
+      if (cmd === MSPCommand.MSP_DATAFLASH_SUMMARY) {
+        return {
+          command: cmd,
+          data: buildDataflashSummaryData({ totalSize: 4096, usedSize: flash.length }),
+        };
+      }
+      if (cmd === MSPCommand.MSP_DATAFLASH_READ && payload) {
+        const address = payload.readUInt32LE(0);
+        requests.push(address);
+        if (emptyReads.includes(address)) {
+          return { command: cmd, data: buildDataflashReadData(address, Buffer.alloc(0)) };
+        }
+        const end = Math.min(address + payload.readUInt16LE(4), flash.length);
+        return {
+          command: cmd,
+          data: buildDataflashReadData(address, flash.subarray(address, end)),
+        };
+      }
+      return { command: cmd, data: Buffer.alloc(0) };
+    });
+  }
+
+  it('reads from startAddress and reports the resumed offset', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    const requests: number[] = [];
+    stubFlash(sendCommand, requests);
+    const onProgress = vi.fn();
+
+    const result = await client.downloadBlackboxLog(onProgress, { startAddress: 600 });
+
+    expect(requests[0]).toBe(600);
+    expect(result.data).toEqual(flash.subarray(600));
+    expect(onProgress).toHaveBeenNthCalledWith(1, 60, {
+      downloaded: 600,
+      total: 1000,
+      percent: 60,
+      resumedFrom: 600,
+    });
+    expect(onProgress).toHaveBeenLastCalledWith(
+      100,
+      expect.objectContaining({ downloaded: 1000, resumedFrom: 600 })
+    );
+  });
+
+  it('passes every chunk with its flash address to onChunk', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    stubFlash(sendCommand, []);
+    const seen: Array<[number, Buffer]> = [];
+
+    await client.downloadBlackboxLog(undefined, {
+      onChunk: (address, data) => {
+        seen.push([address, Buffer.from(data)]);
+      },
+    });
+
+    expect(seen[0][0]).toBe(0);
+    expect(seen[1][0]).toBe(seen[0][1].length);
+    expect(Buffer.concat(seen.map(([, data]) => data))).toEqual(flash);
+  });
+
+  it('keeps a skipped empty read as filler so a resumed download lines up', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    stubFlash(sendCommand, [], [180]);
+    const seen: Array<[number, Buffer]> = [];
+
+    const first = await client.downloadBlackboxLog(undefined, {
+      onChunk: (address, data) => {
+        seen.push([address, Buffer.from(data)]);
+      },
+    });
+
+    const expected = Buffer.concat([
+      flash.subarray(0, 180),
+      Buffer.alloc(180, 0xff),
+      flash.subarray(360),
+    ]);
+    expect(first.data).toEqual(expected);
+    expect(seen[1]).toEqual([180, Buffer.alloc(180, 0xff)]);
+
+    // Interrupted after the skip: resume where the kept chunks end
+    const kept = Buffer.concat(seen.slice(0, 3).map(([, data]) => data));
+    expect(seen[3][0]).toBe(kept.length);
+    const resumed = await client.downloadBlackboxLog(undefined, { startAddress: kept.length });
+
+    expect(Buffer.concat([kept, resumed.data])).toEqual(expected);
+  });
+
+  it('returns no data when starting at the end of used flash', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    const requests: number[] = [];
+    stubFlash(sendCommand, requests);
+
+    const result = await client.downloadBlackboxLog(undefined, { startAddress: 1000 });
+
+    expect(result.data.length).toBe(0);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects a start address past used flash', async () => {
+    const { client, sendCommand } = createClientWithStub();
+    stubFlash(sendCommand, []);
+
+    await expect(client.downloadBlackboxLog(undefined, { startAddress: 1001 })).rejects.toThrow(
+      'beyond used flash'
+    );
+  });
+});
+
 // ─── eraseBlackboxFlash: disconnect detection ────────────────────────
 
 describe('MSPClient.eraseBlackboxFlash — disconnect detection', () => {
@@ -1,7 +1,9 @@
 import { EventEmitter } from 'events';
 import { SerialPort } from 'serialport';
 import { MSPConnection } from './MSPConnection';
+import { huffmanDecode } from './huffman';
 import { MSPCommand, CLI_COMMANDS } from './commands';
+import { MSP_FILTER_CONFIG_FIELDS, MSP_RC_TUNING_FIELDS, type FlashDownloadOptions } from './types';
 import type {
   PortInfo,
   ApiVersionInfo,
@@ -11,17 +13,46 @@ import type {
 } from '@shared/types/common.types';
 import type {
   PIDConfiguration,
+  PIDController,
+  PIDTerm,
   FeedforwardConfiguration,
   RatesConfiguration,
   RatesType,
 } from '@shared/types/pid.types';
 import type { CurrentFilterSettings } from '@shared/types/analysis.types';
-import type { BlackboxInfo, SDCardInfo } from '@shared/types/blackbox.types';
+import type { RawImuSample } from '@shared/types/bench.types';
+import type {
+  BlackboxDownloadProgress,
+  BlackboxInfo,
+  SDCardInfo,
+} from '@shared/types/blackbox.types';
 import { SDCardState } from '@shared/types/blackbox.types';
-import { ConnectionError, MSPError, TimeoutError } from '../utils/errors';
+import { ConnectionError, FlashDecodeError, MSPError, TimeoutError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { MSP, BETAFLIGHT } from '@shared/constants';
 import { UnsupportedVersionError } from '../utils/errors';
+import { isTcpAddress } from '@shared/utils/tcpAddress';
+import { isFCPort } from './PortWatcher';
+
+/** MSP_PID controller slots in wire order (BF pidIndex_e) */
+const PID_CONTROLLERS: readonly PIDController[] = ['roll', 'pitch', 'yaw', 'level', 'mag'];
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+/** Decode every complete controller in an MSP_PID block (at least roll/pitch/yaw) */
+function parsePIDBlock(data: Buffer): PIDConfiguration {
+  const term = (offset: number): PIDTerm => ({
+    P: data[offset],
+    I: data[offset + 1],
+    D: data[offset + 2],
+  });
+  const config: PIDConfiguration = { roll: term(0), pitch: term(3), yaw: term(6) };
+  if (data.length >= 12) config.level = term(9);
+  if (data.length >= 15) config.mag = term(12);
+  return config;
+}
 
 export class MSPClient extends EventEmitter {
   private connection: MSPConnection;
@@ -31,6 +62,8 @@ export class MSPClient extends EventEmitter {
   private _mscModeActive: boolean = false;
   /** True when FC is rebooting after save — suppresses normal disconnect handling */
   private _rebootPending: boolean = false;
+  /** True while waiting for the FC to come back after a CLI exit reboot */
+  private _awaitingReconnect: boolean = false;
   /** Cached storage type from last getBlackboxInfo() call */
   private _lastStorageType: 'flash' | 'sdcard' | 'none' = 'none';
   private _eraseInProgress: boolean = false;
@@ -64,6 +97,10 @@ export class MSPClient extends EventEmitter {
     return this._rebootPending;
   }
 
+  get awaitingReconnect(): boolean {
+    return this._awaitingReconnect;
+  }
+
   get lastStorageType(): 'flash' | 'sdcard' | 'none' {
     return this._lastStorageType;
   }
@@ -71,16 +108,13 @@ export class MSPClient extends EventEmitter {
   async listPorts(): Promise<PortInfo[]> {
     try {
       const ports = await SerialPort.list();
-      logger.info(`Found ${ports.length} serial ports:`, ports);
+      // Debug level: the port watcher polls this every couple of seconds
+      logger.debug(`Found ${ports.length} serial ports:`, ports);
 
       // Filter for likely Betaflight devices
-      const filtered = ports.filter((port) => {
-        if (!port.vendorId) return false;
-        const vid = `0x${port.vendorId}`;
-        return BETAFLIGHT.VENDOR_IDS.some((id) => id.toLowerCase() === vid.toLowerCase());
-      });
+      const filtered = ports.filter(isFCPort);
 
-      logger.info(`Filtered to ${filtered.length} Betaflight-compatible ports`);
+      logger.debug(`Filtered to ${filtered.length} Betaflight-compatible ports`);
 
       // If no filtered ports, return all ports with vendorId
       const result = filtered.length > 0 ? filtered : ports.filter((p) => p.vendorId);
@@ -228,7 +262,8 @@ export class MSPClient extends EventEmitter {
 
   /**
    * Wait for the serial port to re-appear after FC reboot (USB re-enumeration),
-   * then reconnect and verify MSP communication.
+   * then reconnect and verify MSP communication. For TCP endpoints the socket is
+   * simply retried until the FC accepts it again.
    *
    * On boards where USB-CDC disconnects during soft reset (e.g. some STM32F405),
    * the port disappears for 2-5 seconds then re-enumerates. This method polls
@@ -245,6 +280,28 @@ export class MSPClient extends EventEmitter {
 
     const POLL_INTERVAL = 500;
     const start = Date.now();
+
+    // Network endpoints (SITL, ESP bridges) never enumerate — just retry the socket
+    // until the FC behind it accepts connections and answers MSP again.
+    if (isTcpAddress(portPath)) {
+      logger.info(`Waiting for ${portPath} to accept connections (timeout ${timeoutMs}ms)...`);
+      while (Date.now() - start < timeoutMs) {
+        try {
+          if (this.connection.isOpen()) {
+            await this.connection.close();
+          }
+          await this.connect(portPath);
+          logger.info(`Reconnected to ${portPath} after ${Date.now() - start}ms`);
+          return true;
+        } catch {
+          // FC still rebooting — connection refused or MSP not answering yet
+        }
+        await this.delay(POLL_INTERVAL);
+      }
+      logger.warn(`${portPath} did not accept a connection within ${timeoutMs}ms`);
+      return false;
+    }
+
     logger.info(`Waiting for port ${portPath} to re-appear (timeout ${timeoutMs}ms)...`);
 
     while (Date.now() - start < timeoutMs) {
@@ -464,13 +521,29 @@ export class MSPClient extends EventEmitter {
   }
 
   async exportCLIDiff(): Promise<string> {
+    return this.exportCLI(CLI_COMMANDS.DIFF, 10000);
+  }
+
+  async exportCLIDump(): Promise<string> {
+    return this.exportCLI(CLI_COMMANDS.DUMP, 15000);
+  }
+
+  /**
+   * Full `get` output — every setting with its value, scope and allowed
+   * range/values. Large, so it gets the longest timeout.
+   */
+  async exportSettingsSchema(): Promise<string> {
+    return this.exportCLI(CLI_COMMANDS.GET, 30000);
+  }
+
+  private async exportCLI(command: string, timeout: number): Promise<string> {
     const wasInCLI = this.connection.isInCLI();
 
     try {
       if (!wasInCLI) {
         await this.connection.enterCLI();
       }
-      const output = await this.connection.sendCLICommand(CLI_COMMANDS.DIFF, 10000);
+      const output = await this.connection.sendCLICommand(command, timeout);
 
       // Exit CLI if WE entered it (not if caller was already in CLI).
       // BF CLI `exit` reboots the FC — this is intentional. Leaving FC in CLI
@@ -486,56 +559,7 @@ export class MSPClient extends EventEmitter {
           // Port closing during reboot is expected
         }
 
-        // FC is now rebooting (CLI `exit` calls systemReset()).
-        // Two scenarios:
-        //   A) USB-CDC stays alive (some STM32F4xx) → ping MSP after settle
-        //   B) USB re-enumerates → port closes → poll for port → reconnect
-        const BOOT_SETTLE_MS = 4000;
-        const PING_TIMEOUT_MS = 2000;
-        const PING_INTERVAL_MS = 1000;
-        const MAX_WAIT_MS = 15000;
-        logger.info('CLI exit sent — waiting for FC to reboot...');
-        await new Promise((resolve) => setTimeout(resolve, BOOT_SETTLE_MS));
-
-        if (this.connection.isOpen()) {
-          // Scenario A: port stayed open — clear parser, switch to MSP, ping
-          this.connection.resetProtocol();
-          await this.connection.forceExitCLI();
-          this.connection.clearFCRebootedFromCLI();
-
-          const pingStart = Date.now();
-          while (Date.now() - pingStart < MAX_WAIT_MS) {
-            if (!this.connection.isOpen()) {
-              // Port closed late — fall through to reconnect path below
-              break;
-            }
-            try {
-              await this.connection.sendCommand(
-                MSPCommand.MSP_API_VERSION,
-                Buffer.alloc(0),
-                PING_TIMEOUT_MS
-              );
-              logger.info('FC is MSP-responsive after reboot');
-              break;
-            } catch {
-              logger.debug('MSP ping after reboot — FC still booting...');
-              await new Promise((resolve) => setTimeout(resolve, PING_INTERVAL_MS));
-            }
-          }
-        }
-
-        if (!this.connection.isOpen()) {
-          // Scenario B: port closed (USB re-enumeration) — poll and reconnect
-          logger.info('Port closed during reboot — attempting auto-reconnect...');
-          await this.connection.forceExitCLI();
-          this.connection.clearFCRebootedFromCLI();
-          const reconnected = await this.reconnectAfterReboot(MAX_WAIT_MS);
-          if (!reconnected) {
-            logger.warn('Auto-reconnect failed — FC may need manual reconnection');
-            this.connectionStatus = { connected: false };
-            this.emit('connection-changed', this.connectionStatus);
-          }
-        }
+        await this.waitForRebootFromCLI();
       }
 
       return this.cleanCLIOutput(output);
@@ -557,80 +581,31 @@ export class MSPClient extends EventEmitter {
     }
   }
 
-  async exportCLIDump(): Promise<string> {
-    const wasInCLI = this.connection.isInCLI();
+  /**
+   * Run a single command from the CLI console. Enters CLI if needed and stays
+   * there — the console session ends with exitCLIConsole() or a save.
+   * Returns the FC's reply without the echoed command and trailing prompt.
+   */
+  async runCLICommand(command: string, timeout: number = 10000): Promise<string> {
+    if (!this.connection.isInCLI()) {
+      await this.connection.enterCLI();
+    }
+    const output = await this.connection.sendCLICommand(command, timeout);
+    return this.cleanConsoleOutput(command, output);
+  }
 
+  /**
+   * Leave a CLI console session without saving. BF CLI `exit` reboots the FC,
+   * which also discards any `set` commands that were not saved.
+   */
+  async exitCLIConsole(): Promise<void> {
+    if (!this.connection.isInCLI()) return;
     try {
-      if (!wasInCLI) {
-        await this.connection.enterCLI();
-      }
-      const output = await this.connection.sendCLICommand(CLI_COMMANDS.DUMP, 15000);
-
-      // Exit CLI if WE entered it — same rationale as exportCLIDiff()
-      if (!wasInCLI) {
-        try {
-          await this.connection.writeCLIRaw('exit');
-        } catch {
-          // Port closing during reboot is expected
-        }
-        const BOOT_SETTLE_MS = 4000;
-        const PING_TIMEOUT_MS = 2000;
-        const PING_INTERVAL_MS = 1000;
-        const MAX_WAIT_MS = 15000;
-        logger.info('CLI exit sent (dump) — waiting for FC to reboot...');
-        await new Promise((resolve) => setTimeout(resolve, BOOT_SETTLE_MS));
-
-        if (this.connection.isOpen()) {
-          this.connection.resetProtocol();
-          await this.connection.forceExitCLI();
-          this.connection.clearFCRebootedFromCLI();
-
-          const pingStart = Date.now();
-          while (Date.now() - pingStart < MAX_WAIT_MS) {
-            if (!this.connection.isOpen()) break;
-            try {
-              await this.connection.sendCommand(
-                MSPCommand.MSP_API_VERSION,
-                Buffer.alloc(0),
-                PING_TIMEOUT_MS
-              );
-              logger.info('FC is MSP-responsive after reboot (dump)');
-              break;
-            } catch {
-              logger.debug('MSP ping after reboot — FC still booting...');
-              await new Promise((resolve) => setTimeout(resolve, PING_INTERVAL_MS));
-            }
-          }
-        }
-
-        if (!this.connection.isOpen()) {
-          logger.info('Port closed during reboot (dump) — attempting auto-reconnect...');
-          await this.connection.forceExitCLI();
-          this.connection.clearFCRebootedFromCLI();
-          const reconnected = await this.reconnectAfterReboot(MAX_WAIT_MS);
-          if (!reconnected) {
-            logger.warn('Auto-reconnect failed (dump) — FC may need manual reconnection');
-            this.connectionStatus = { connected: false };
-            this.emit('connection-changed', this.connectionStatus);
-          }
-        }
-      }
-
-      return this.cleanCLIOutput(output);
-    } catch (error) {
-      try {
-        if (!wasInCLI) {
-          try {
-            await this.connection.writeCLIRaw('exit');
-          } catch {}
-          await new Promise((resolve) => setTimeout(resolve, 4000));
-          this.connection.resetProtocol();
-          await this.connection.forceExitCLI();
-          this.connection.clearFCRebootedFromCLI();
-        }
-      } catch {}
-      throw error;
+      await this.connection.writeCLIRaw('exit');
+    } catch {
+      // Port closing during reboot is expected
     }
+    await this.waitForRebootFromCLI();
   }
 
   async saveAndReboot(): Promise<void> {
@@ -714,8 +689,12 @@ export class MSPClient extends EventEmitter {
   }
 
   /**
-   * Read PID configuration from flight controller
-   * @returns Current PID values for roll, pitch, yaw axes
+   * Read PID configuration from flight controller.
+   *
+   * MSP_PID is 3 bytes (P, I, D) per controller in BF pidIndex_e order:
+   *  0-2: roll   3-5: pitch   6-8: yaw   9-11: level   12-14: mag
+   * BF 4.x sends 15 bytes; older firmware padded to 30.
+   * @returns PID values for every controller the FC reports
    */
   async getPIDConfiguration(): Promise<PIDConfiguration> {
     const response = await this.connection.sendCommand(MSPCommand.MSP_PID);
@@ -724,26 +703,7 @@ export class MSPClient extends EventEmitter {
       throw new MSPError('Invalid MSP_PID response - expected at least 9 bytes');
     }
 
-    // Parse roll, pitch, yaw (first 9 bytes)
-    // Format: Roll P/I/D (0-2), Pitch P/I/D (3-5), Yaw P/I/D (6-8)
-    const config: PIDConfiguration = {
-      roll: {
-        P: response.data[0],
-        I: response.data[1],
-        D: response.data[2],
-      },
-      pitch: {
-        P: response.data[3],
-        I: response.data[4],
-        D: response.data[5],
-      },
-      yaw: {
-        P: response.data[6],
-        I: response.data[7],
-        D: response.data[8],
-      },
-    };
-
+    const config = parsePIDBlock(response.data);
     logger.info('PID configuration read:', config);
     return config;
   }
@@ -792,6 +752,8 @@ export class MSPClient extends EventEmitter {
     // 43: U8  rpm_notch_harmonics
     // 44: U8  rpm_notch_min_hz
     // 45: U16 dyn_notch_max_hz
+    // 47: U8  dterm_lpf1_dyn_expo (API 1.44+)
+    // 48: U8  dyn_notch_count (API 1.44+)
     const settings: CurrentFilterSettings = {
       gyro_lpf1_static_hz: response.data.readUInt16LE(20),
       dterm_lpf1_static_hz: response.data.readUInt16LE(1),
@@ -802,17 +764,84 @@ export class MSPClient extends EventEmitter {
       dyn_notch_q: response.data.readUInt16LE(39),
       rpm_filter_harmonics: response.data.readUInt8(43),
       rpm_filter_min_hz: response.data.readUInt8(44),
+      gyro_lpf1_dyn_min_hz: response.data.readUInt16LE(29),
+      gyro_lpf1_dyn_max_hz: response.data.readUInt16LE(31),
+      dterm_lpf1_dyn_min_hz: response.data.readUInt16LE(33),
+      dterm_lpf1_dyn_max_hz: response.data.readUInt16LE(35),
     };
 
-    // dyn_notch_count is at byte 47 in BF 4.3+ extended response
-    if (response.data.length > 47) {
-      settings.dyn_notch_count = response.data.readUInt8(47);
+    if (response.data.length > 48) {
+      settings.dterm_lpf1_dyn_expo = response.data.readUInt8(47);
+      settings.dyn_notch_count = response.data.readUInt8(48);
     }
 
     logger.info('Filter configuration read:', settings);
     return settings;
   }
 
+  /**
+   * Write filter settings via MSP_SET_FILTER_CONFIG (command 93).
+   *
+   * Read-modify-write: fetches the current MSP_FILTER_CONFIG payload, patches
+   * the offsets from MSP_FILTER_CONFIG_FIELDS and sends the whole buffer back,
+   * so fields this app does not know about (and any trailing bytes from newer
+   * firmware) round-trip untouched. Changes live in RAM until saveToEeprom().
+   *
+   * @param changes - CLI setting name → new value (must be in MSP_FILTER_CONFIG_FIELDS)
+   */
+  async setFilterConfiguration(changes: Record<string, number>): Promise<void> {
+    const response = await this.connection.sendCommand(MSPCommand.MSP_FILTER_CONFIG);
+    if (response.data.length < 47) {
+      throw new MSPError(
+        `Invalid MSP_FILTER_CONFIG response - expected at least 47 bytes, got ${response.data.length}`
+      );
+    }
+
+    const payload = Buffer.from(response.data);
+    for (const [setting, rawValue] of Object.entries(changes)) {
+      const field = MSP_FILTER_CONFIG_FIELDS[setting];
+      if (!field) {
+        throw new MSPError(`${setting} is not part of MSP_FILTER_CONFIG`);
+      }
+      if (field.offset + field.size > payload.length) {
+        throw new MSPError(`${setting} is not available over MSP on this firmware`);
+      }
+      const max = field.size === 1 ? 0xff : 0xffff;
+      const value = Math.max(0, Math.min(max, Math.round(rawValue)));
+      if (field.size === 1) {
+        payload.writeUInt8(value, field.offset);
+      } else {
+        payload.writeUInt16LE(value, field.offset);
+      }
+      if (setting === 'gyro_lpf1_static_hz') {
+        // Legacy U8 copy at byte 0 — BF overwrites it with the U16 at byte 20
+        payload.writeUInt8(value & 0xff, 0);
+      }
+    }
+
+    const setResponse = await this.connection.sendCommand(
+      MSPCommand.MSP_SET_FILTER_CONFIG,
+      payload
+    );
+    if (setResponse.error) {
+      throw new MSPError('Failed to set filter configuration');
+    }
+
+    logger.info('Filter configuration updated via MSP:', changes);
+  }
+
+  /**
+   * Persist the current RAM configuration via MSP_EEPROM_WRITE (command 250).
+   * Unlike CLI `save`, the FC does not reboot and the connection stays up.
+   */
+  async saveToEeprom(): Promise<void> {
+    const response = await this.connection.sendCommand(MSPCommand.MSP_EEPROM_WRITE);
+    if (response.error) {
+      throw new MSPError('Failed to write EEPROM');
+    }
+    logger.info('Configuration saved to EEPROM');
+  }
+
   /**
    * Read pid_process_denom from MSP_ADVANCED_CONFIG (command 90).
    *
@@ -835,6 +864,82 @@ export class MSPClient extends EventEmitter {
     return response.data.readUInt8(1);
   }
 
+  /**
+   * Read the airframe mixer mode via MSP_MIXER_CONFIG.
+   *
+   * Byte layout:
+   *  0: U8  mixerMode (BF mixerMode_e: 3 = QUADX, 6 = Y6, 11 = OCTOX8, ...)
+   *  1: U8  yaw_motors_reversed
+   */
+  async getMixerMode(): Promise<number> {
+    const response = await this.connection.sendCommand(MSPCommand.MSP_MIXER_CONFIG);
+    if (response.data.length < 1) {
+      throw new MSPError('Invalid MSP_MIXER_CONFIG response - expected at least 1 byte, got 0');
+    }
+    return response.data.readUInt8(0);
+  }
+
+  /**
+   * Read one gyro sample via MSP_RAW_IMU.
+   *
+   * Byte layout (9 × S16):
+   *  0-5:   acc x/y/z
+   *  6-11:  gyro x/y/z (deg/s, BF 4.3+ sends gyroADCf rounded to 1 deg/s)
+   *  12-17: mag x/y/z
+   */
+  async getRawImu(): Promise<RawImuSample> {
+    const response = await this.connection.sendCommand(MSPCommand.MSP_RAW_IMU);
+    if (response.data.length < 12) {
+      throw new MSPError(
+        `Invalid MSP_RAW_IMU response - expected at least 12 bytes, got ${response.data.length}`
+      );
+    }
+    return {
+      timestamp: Date.now(),
+      gyro: [
+        response.data.readInt16LE(6),
+        response.data.readInt16LE(8),
+        response.data.readInt16LE(10),
+      ],
+    };
+  }
+
+  /**
+   * Read current motor outputs via MSP_MOTOR (8 × U16).
+   * Unused motor slots read 0; configured motors read their disarmed value while disarmed.
+   */
+  async getMotorValues(): Promise<number[]> {
+    const response = await this.connection.sendCommand(MSPCommand.MSP_MOTOR);
+    if (response.data.length < 16) {
+      throw new MSPError(
+        `Invalid MSP_MOTOR response - expected at least 16 bytes, got ${response.data.length}`
+      );
+    }
+    const values: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      values.push(response.data.readUInt16LE(i * 2));
+    }
+    return values;
+  }
+
+  /**
+   * Command motor outputs via MSP_SET_MOTOR (8 × U16, 1000 = stop, 2000 = full).
+   * Betaflight only honours this while disarmed — the motor test tab path.
+   * Missing entries are padded with 1000 (stopped).
+   */
+  async setMotorValues(values: number[]): Promise<void> {
+    const payload = Buffer.alloc(16);
+    for (let i = 0; i < 8; i++) {
+      const value = Math.round(values[i] ?? 1000);
+      payload.writeUInt16LE(Math.max(1000, Math.min(2000, value)), i * 2);
+    }
+
+    const response = await this.connection.sendCommand(MSPCommand.MSP_SET_MOTOR, payload);
+    if (response.error) {
+      throw new MSPError('FC rejected MSP_SET_MOTOR (is the craft armed?)');
+    }
+  }
+
   /**
    * Read feedforward configuration from flight controller via MSP_PID_ADVANCED.
    *
@@ -937,29 +1042,73 @@ export class MSPClient extends EventEmitter {
   }
 
   /**
-   * Write PID configuration to flight controller RAM (not persisted)
-   * @param config PID values to write
+   * Write rate settings via MSP_SET_RC_TUNING (command 204).
+   *
+   * Read-modify-write like setFilterConfiguration(): the current
+   * MSP_RC_TUNING payload is patched at the MSP_RC_TUNING_FIELDS offsets and
+   * sent back whole, so throttle mid/expo, TPA and anything newer round-trip
+   * untouched. Changes live in RAM until saveToEeprom().
+   *
+   * @param changes - CLI setting name → new value (must be in MSP_RC_TUNING_FIELDS)
    */
-  async setPIDConfiguration(config: PIDConfiguration): Promise<void> {
-    // Create 30-byte buffer for all PID values (Betaflight MSP_SET_PID format)
-    const data = Buffer.alloc(30);
+  async setRatesConfiguration(changes: Record<string, number>): Promise<void> {
+    const response = await this.connection.sendCommand(MSPCommand.MSP_RC_TUNING);
+    if (response.data.length < 23) {
+      throw new MSPError(
+        `Invalid MSP_RC_TUNING response - expected at least 23 bytes, got ${response.data.length}`
+      );
+    }
+
+    const payload = Buffer.from(response.data);
+    for (const [setting, rawValue] of Object.entries(changes)) {
+      const field = MSP_RC_TUNING_FIELDS[setting];
+      if (!field) {
+        throw new MSPError(`${setting} is not part of MSP_RC_TUNING`);
+      }
+      const max = field.size === 1 ? 0xff : 0xffff;
+      const value = Math.max(0, Math.min(max, Math.round(rawValue)));
+      if (field.size === 1) {
+        payload.writeUInt8(value, field.offset);
+      } else {
+        payload.writeUInt16LE(value, field.offset);
+      }
+    }
 
-    // Roll (bytes 0-2)
-    data[0] = Math.round(config.roll.P);
-    data[1] = Math.round(config.roll.I);
-    data[2] = Math.round(config.roll.D);
+    const setResponse = await this.connection.sendCommand(MSPCommand.MSP_SET_RC_TUNING, payload);
+    if (setResponse.error) {
+      throw new MSPError('Failed to set rates configuration');
+    }
 
-    // Pitch (bytes 3-5)
-    data[3] = Math.round(config.pitch.P);
-    data[4] = Math.round(config.pitch.I);
-    data[5] = Math.round(config.pitch.D);
+    logger.info('Rates configuration updated via MSP:', changes);
+  }
 
-    // Yaw (bytes 6-8)
-    data[6] = Math.round(config.yaw.P);
-    data[7] = Math.round(config.yaw.I);
-    data[8] = Math.round(config.yaw.D);
+  /**
+   * Write PID configuration via MSP_SET_PID (command 202).
+   *
+   * Read-modify-write: fetches the current MSP_PID block, patches only the
+   * controllers present in `config` and sends the whole block back, so LEVEL,
+   * MAG and any slots this app doesn't model keep their FC values. The block
+   * is read back afterwards and any byte that didn't stick throws. Changes
+   * live in RAM until saved.
+   */
+  async setPIDConfiguration(config: PIDConfiguration): Promise<void> {
+    const current = await this.connection.sendCommand(MSPCommand.MSP_PID);
+    if (current.data.length < 9) {
+      throw new MSPError('Invalid MSP_PID response - expected at least 9 bytes');
+    }
 
-    // Bytes 9-29: other PIDs (leave as 0 - won't affect FC if unchanged)
+    const data = Buffer.from(current.data);
+    PID_CONTROLLERS.forEach((controller, index) => {
+      const term = config[controller];
+      if (!term) return;
+      const offset = index * 3;
+      if (offset + 3 > data.length) {
+        throw new MSPError(`FC does not report a ${controller} PID controller`);
+      }
+      data[offset] = clampByte(term.P);
+      data[offset + 1] = clampByte(term.I);
+      data[offset + 2] = clampByte(term.D);
+    });
 
     const response = await this.connection.sendCommand(MSPCommand.MSP_SET_PID, data);
 
@@ -967,6 +1116,19 @@ export class MSPClient extends EventEmitter {
       throw new MSPError('Failed to set PID configuration');
     }
 
+    const readback = await this.connection.sendCommand(MSPCommand.MSP_PID);
+    const mismatches: string[] = [];
+    for (let i = 0; i < data.length; i++) {
+      if (readback.data[i] !== data[i]) {
+        const controller = PID_CONTROLLERS[Math.floor(i / 3)] ?? `slot ${Math.floor(i / 3)}`;
+        const term = ['P', 'I', 'D'][i % 3];
+        mismatches.push(`${controller} ${term} expected ${data[i]}, got ${readback.data[i]}`);
+      }
+    }
+    if (mismatches.length > 0) {
+      throw new MSPError(`PID readback mismatch after MSP_SET_PID: ${mismatches.join('; ')}`);
+    }
+
     logger.info('PID configuration updated successfully:', config);
   }
 
@@ -1358,15 +1520,19 @@ export class MSPClient extends EventEmitter {
    * MSP_DATAFLASH_READ response format:
    *   [4B readAddress LE] [2B dataSize LE] [1B isCompressed (BF 4.1+)] [dataSize bytes]
    *
-   * We strip the response header and return only the raw flash data.
+   * We strip the response header and return only the flash data, Huffman-decoded
+   * if the FC compressed it. With compression, `size` caps the compressed payload,
+   * so the returned data is usually longer than `size`.
    *
    * @param address - Start address to read from
    * @param size - Number of bytes to read (max 4096)
+   * @param allowCompression - Ask the FC for a Huffman-compressed response (ignored by firmware without USE_HUFFMAN)
    * @returns Buffer containing only the flash data (header stripped)
    */
   async readBlackboxChunk(
     address: number,
-    size: number
+    size: number,
+    allowCompression = false
   ): Promise<{ data: Buffer; isCompressed: boolean }> {
     if (!this.isConnected()) {
       throw new ConnectionError('Flight controller not connected');
@@ -1378,10 +1544,13 @@ export class MSPClient extends EventEmitter {
     }
 
     try {
-      // Build request: address (uint32 LE) + size (uint16 LE)
-      const request = Buffer.alloc(6);
+      // Build request: address (uint32 LE) + size (uint16 LE) [+ allowCompression (uint8)]
+      const request = Buffer.alloc(allowCompression ? 7 : 6);
       request.writeUInt32LE(address, 0);
       request.writeUInt16LE(size, 4);
+      if (allowCompression) {
+        request[6] = 1;
+      }
 
       // Use 5 second timeout - fail fast so adaptive chunking can adjust quickly
       const response = await this.connection.sendCommand(
@@ -1408,11 +1577,15 @@ export class MSPClient extends EventEmitter {
    * Response format (BF 4.1+ with USE_HUFFMAN):
    *   [4B readAddress] [2B dataSize] [1B isCompressed] [data...]
    *
+   * When compressed, data is [2B decodedLength] [Huffman bit stream] and
+   * dataSize covers both.
+   *
    * Older format (no compression support):
    *   [4B readAddress] [2B dataSize] [data...]
    *
    * Detects header size by comparing response length with dataSize field.
-   * Returns both the payload data and whether Huffman compression was detected.
+   * Returns the flash data (decoded if it was compressed) and whether the FC
+   * compressed it. Throws FlashDecodeError if the compressed stream is malformed.
    */
   static extractFlashPayload(responseData: Buffer): { data: Buffer; isCompressed: boolean } {
     if (responseData.length < 6) {
@@ -1425,7 +1598,12 @@ export class MSPClient extends EventEmitter {
     if (responseData.length === 7 + dataSize && responseData.length >= 7) {
       const isCompressed = responseData[6] !== 0;
       if (isCompressed) {
-        logger.warn('Compressed dataflash response detected — Huffman decompression not supported');
+        if (dataSize < 2) {
+          throw new FlashDecodeError('Compressed dataflash response is missing its length header');
+        }
+        const decodedLength = responseData.readUInt16LE(7);
+        const data = huffmanDecode(responseData.subarray(9, 7 + dataSize), decodedLength);
+        return { data, isCompressed };
       }
       return { data: responseData.subarray(7, 7 + dataSize), isCompressed };
     }
@@ -1443,11 +1621,23 @@ export class MSPClient extends EventEmitter {
 
   /**
    * Download entire Blackbox log from flash storage
-   * @param onProgress - Optional callback for progress updates (0-100)
-   * @returns Buffer containing all log data
+   *
+   * Requests Huffman-compressed reads; firmware without USE_HUFFMAN answers
+   * uncompressed. If the FC sends a compressed stream we can't decode, the
+   * rest of the download falls back to uncompressed reads.
+   *
+   * Reading starts at `options.startAddress` (0 by default) so an interrupted
+   * download can resume, or only data appended since an earlier download is
+   * read. `options.onChunk` sees every chunk as it arrives, letting the caller
+   * persist progress before the download completes.
+   *
+   * @param onProgress - Optional callback for progress updates (0-100 of the used flash area, plus byte offsets)
+   * @param options - Start address and per-chunk callback
+   * @returns Flash data from the start address to the end of used flash (always decoded) and whether the FC compressed it
    */
   async downloadBlackboxLog(
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number, detail: BlackboxDownloadProgress) => void,
+    options: FlashDownloadOptions = {}
   ): Promise<{ data: Buffer; compressionDetected: boolean }> {
     if (!this.isConnected()) {
       throw new ConnectionError('Flight controller not connected');
@@ -1461,11 +1651,35 @@ export class MSPClient extends EventEmitter {
         throw new Error('No Blackbox logs available to download');
       }
 
-      logger.info(`Starting Blackbox download: ${info.usedSize} bytes`);
+      const startAddress = options.startAddress ?? 0;
+      if (startAddress > info.usedSize) {
+        throw new Error(
+          `Start address ${startAddress} is beyond used flash (${info.usedSize} bytes)`
+        );
+      }
+
+      logger.info(
+        startAddress > 0
+          ? `Starting Blackbox download at ${startAddress}/${info.usedSize} bytes`
+          : `Starting Blackbox download: ${info.usedSize} bytes`
+      );
+
+      const reportProgress = (address: number) => {
+        onProgress?.(Math.round((address / info.usedSize) * 100), {
+          downloaded: address,
+          total: info.usedSize,
+          percent: Math.round((address / info.usedSize) * 100),
+          resumedFrom: startAddress,
+        });
+      };
+      if (startAddress > 0) {
+        reportProgress(startAddress);
+      }
 
       const chunks: Buffer[] = [];
-      let bytesRead = 0;
+      let bytesRead = startAddress;
       let compressionDetected = false;
+      let allowCompression = true;
 
       // Conservative adaptive chunking with recovery delays
       // Start with known-working size, gradually increase with caution
@@ -1481,7 +1695,11 @@ export class MSPClient extends EventEmitter {
         const requestSize = Math.min(currentChunkSize, remaining);
 
         try {
-          const chunkResult = await this.readBlackboxChunk(bytesRead, requestSize);
+          const chunkResult = await this.readBlackboxChunk(
+            bytesRead,
+            requestSize,
+            allowCompression
+          );
           const chunk = chunkResult.data;
           if (chunkResult.isCompressed) {
             compressionDetected = true;
@@ -1492,11 +1710,18 @@ export class MSPClient extends EventEmitter {
             logger.warn(
               `FC returned 0 bytes at address ${bytesRead}, skipping ${requestSize} bytes`
             );
+            // Fill the gap as erased flash so later data stays at its offset —
+            // a resumed download continues at start + bytes kept so far
+            const filler = Buffer.alloc(requestSize, 0xff);
+            chunks.push(filler);
+            await options.onChunk?.(bytesRead, filler);
             bytesRead += requestSize;
             continue;
           }
 
           chunks.push(chunk);
+          // Compressed reads can decode past usedSize into erased flash
+          await options.onChunk?.(bytesRead, chunk.subarray(0, info.usedSize - bytesRead));
           bytesRead += chunk.length;
           consecutiveSuccesses++;
           consecutiveFailures = 0;
@@ -1512,7 +1737,7 @@ export class MSPClient extends EventEmitter {
           // Report progress
           if (onProgress) {
             const progress = Math.round((bytesRead / info.usedSize) * 100);
-            onProgress(progress);
+            reportProgress(bytesRead);
 
             // Log only at 5% intervals to reduce overhead
             if (progress % 5 === 0 && progress > 0) {
@@ -1525,6 +1750,16 @@ export class MSPClient extends EventEmitter {
           // Tiny delay to keep FC stable
           await new Promise((resolve) => setTimeout(resolve, 5));
         } catch (error) {
+          if (allowCompression && error instanceof FlashDecodeError) {
+            // FC sent a compressed stream we can't decode — anything else is
+            // retried below like an uncompressed read
+            logger.warn(
+              `Compressed read failed at address ${bytesRead} (${error.message}), continuing uncompressed`
+            );
+            allowCompression = false;
+            continue;
+          }
+
           // Chunk failed - reduce size and retry with recovery delay
           consecutiveFailures++;
           consecutiveSuccesses = 0;
@@ -1554,9 +1789,10 @@ export class MSPClient extends EventEmitter {
         }
       }
 
-      const fullLog = Buffer.concat(chunks);
+      // Trim the overshoot of a final compressed read
+      const fullLog = Buffer.concat(chunks).subarray(0, info.usedSize - startAddress);
       logger.info(
-        `Blackbox download complete: ${fullLog.length} bytes (final chunk size: ${currentChunkSize}B)${compressionDetected ? ' — HUFFMAN COMPRESSION DETECTED' : ''}`
+        `Blackbox download complete: ${fullLog.length} bytes (final chunk size: ${currentChunkSize}B)${compressionDetected ? ' — Huffman-compressed reads decoded' : ''}`
       );
 
       return { data: fullLog, compressionDetected };
@@ -1696,6 +1932,68 @@ export class MSPClient extends EventEmitter {
     }
   }
 
+  /**
+   * Wait for the FC to come back after CLI `exit` (which calls systemReset()).
+   * Caller must have already sent `exit` with cliMode still set.
+   */
+  private async waitForRebootFromCLI(): Promise<void> {
+    this._awaitingReconnect = true;
+    try {
+      // FC is now rebooting (CLI `exit` calls systemReset()).
+      // Two scenarios:
+      //   A) USB-CDC stays alive (some STM32F4xx) → ping MSP after settle
+      //   B) USB re-enumerates → port closes → poll for port → reconnect
+      const BOOT_SETTLE_MS = 4000;
+      const PING_TIMEOUT_MS = 2000;
+      const PING_INTERVAL_MS = 1000;
+      const MAX_WAIT_MS = 15000;
+      logger.info('CLI exit sent — waiting for FC to reboot...');
+      await new Promise((resolve) => setTimeout(resolve, BOOT_SETTLE_MS));
+
+      if (this.connection.isOpen()) {
+        // Scenario A: port stayed open — clear parser, switch to MSP, ping
+        this.connection.resetProtocol();
+        await this.connection.forceExitCLI();
+        this.connection.clearFCRebootedFromCLI();
+
+        const pingStart = Date.now();
+        while (Date.now() - pingStart < MAX_WAIT_MS) {
+          if (!this.connection.isOpen()) {
+            // Port closed late — fall through to reconnect path below
+            break;
+          }
+          try {
+            await this.connection.sendCommand(
+              MSPCommand.MSP_API_VERSION,
+              Buffer.alloc(0),
+              PING_TIMEOUT_MS
+            );
+            logger.info('FC is MSP-responsive after reboot');
+            break;
+          } catch {
+            logger.debug('MSP ping after reboot — FC still booting...');
+            await new Promise((resolve) => setTimeout(resolve, PING_INTERVAL_MS));
+          }
+        }
+      }
+
+      if (!this.connection.isOpen()) {
+        // Scenario B: port closed (USB re-enumeration) — poll and reconnect
+        logger.info('Port closed during reboot — attempting auto-reconnect...');
+        await this.connection.forceExitCLI();
+        this.connection.clearFCRebootedFromCLI();
+        const reconnected = await this.reconnectAfterReboot(MAX_WAIT_MS);
+        if (!reconnected) {
+          logger.warn('Auto-reconnect failed — FC may need manual reconnection');
+          this.connectionStatus = { connected: false };
+          this.emit('connection-changed', this.connectionStatus);
+        }
+      }
+    } finally {
+      this._awaitingReconnect = false;
+    }
+  }
+
   private cleanCLIOutput(output: string): string {
     // Remove CLI prompt characters and clean up
     return output
@@ -1708,6 +2006,21 @@ export class MSPClient extends EventEmitter {
       .trim();
   }
 
+  /** Unlike cleanCLIOutput, keeps comment lines (`# master`) — the user asked to see them */
+  private cleanConsoleOutput(command: string, output: string): string {
+    const lines = output.replace(/\r/g, '').split('\n');
+    if (lines.length > 0 && lines[0].trim() === command.trim()) {
+      lines.shift();
+    }
+    while (
+      lines.length > 0 &&
+      (lines[lines.length - 1].trim() === '#' || lines[lines.length - 1].trim() === '')
+    ) {
+      lines.pop();
+    }
+    return lines.join('\n');
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { buildMSPv1Response, buildMSPv1ErrorResponse } from './test/mspResponseFactory';
+import {
+  buildMSPv1Response,
+  buildMSPv1ErrorResponse,
+  buildMSPv2Response,
+} from './test/mspResponseFactory';
 
 // Track mock port instances across test and MSPConnection
 let mockPortInstance: any = null;
@@ -345,6 +349,52 @@ describe('MSPConnection', () => {
       expect(written[2]).toBe(0x3c); // '<' direction to FC
       expect(written[4]).toBe(112); // command
     });
+
+    it('sends 16-bit commands as MSP v2 and matches the v2 response', async () => {
+      await conn.open('/dev/ttyUSB0');
+      const port = getPort();
+      port.clearWritten();
+
+      const cmdPromise = conn.sendCommand(0x1003, Buffer.from('name\0'));
+      await new Promise((r) => setTimeout(r, 20));
+      port.injectData(buildMSPv2Response(0x1003, [0x2a, 0x00]));
+
+      const result = await cmdPromise;
+      expect(result.command).toBe(0x1003);
+      expect(result.version).toBe(2);
+      expect(result.data.readUInt16LE(0)).toBe(42);
+
+      const written = port.getAllWrittenBytes();
+      expect(written[1]).toBe(0x58); // 'X'
+      expect(written.readUInt16LE(4)).toBe(0x1003);
+    });
+
+    it('sends an 8-bit command in v2 framing when requested', async () => {
+      await conn.open('/dev/ttyUSB0');
+      const port = getPort();
+      port.clearWritten();
+
+      const cmdPromise = conn.sendCommand(1, Buffer.alloc(0), 1000, 2);
+      await new Promise((r) => setTimeout(r, 20));
+      port.injectData(buildMSPv2Response(1, [0, 1, 46]));
+
+      const result = await cmdPromise;
+      expect(result.data[2]).toBe(46);
+      expect(port.getAllWrittenBytes()[1]).toBe(0x58);
+    });
+
+    it('accepts a v1 reply to a v2-framed request', async () => {
+      await conn.open('/dev/ttyUSB0');
+      const port = getPort();
+
+      const cmdPromise = conn.sendCommand(1, Buffer.alloc(0), 1000, 2);
+      await new Promise((r) => setTimeout(r, 20));
+      port.injectData(buildMSPv1Response(1, [0, 1, 46]));
+
+      const result = await cmdPromise;
+      expect(result.command).toBe(1);
+      expect(result.version).toBeUndefined();
+    });
   });
 
   // ─── sendCommandNoResponse() ───────────────────────────────
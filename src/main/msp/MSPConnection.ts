@@ -1,15 +1,18 @@
-import { SerialPort } from 'serialport';
 import { EventEmitter } from 'events';
 import { MSPProtocol } from './MSPProtocol';
-import { MSPResponse } from './types';
-import { ConnectionError, TimeoutError } from '../utils/errors';
+import { MSPResponse, MSPVersion } from './types';
+import type { MSPTransport } from './MSPTransport';
+import { SerialTransport } from './SerialTransport';
+import { TCPTransport } from './TCPTransport';
+import { ConnectionError, TimeoutError, getErrorMessage } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { MSP } from '@shared/constants';
+import { parseTcpAddress } from '@shared/utils/tcpAddress';
 
 const CLI_BUFFER_MAX_SIZE = 512 * 1024; // 512KB
 
 export class MSPConnection extends EventEmitter {
-  private port: SerialPort | null = null;
+  private port: MSPTransport | null = null;
   private protocol: MSPProtocol;
   private buffer: Buffer = Buffer.alloc(0);
   private responseQueue: Map<
@@ -33,6 +36,11 @@ export class MSPConnection extends EventEmitter {
     this.protocol = new MSPProtocol();
   }
 
+  /**
+   * Open a link to the FC. `portPath` is a serial device path, or `host:port` /
+   * `tcp://host:port` for network endpoints (SITL, ESP bridges) — baudRate is
+   * ignored for those.
+   */
   async open(portPath: string, baudRate: number = MSP.DEFAULT_BAUD_RATE): Promise<void> {
     if (this.port?.isOpen) {
       throw new ConnectionError('Port already open');
@@ -40,28 +48,23 @@ export class MSPConnection extends EventEmitter {
 
     this._portError = false;
 
-    return new Promise((resolve, reject) => {
-      this.port = new SerialPort(
-        {
-          path: portPath,
-          baudRate,
-          dataBits: 8,
-          stopBits: 1,
-          parity: 'none',
-        },
-        (error) => {
-          if (error) {
-            reject(new ConnectionError(`Failed to open port: ${error.message}`, error));
-            return;
-          }
-
-          this.setupListeners();
-          logger.info(`Connected to ${portPath} at ${baudRate} baud`);
-          this.emit('connected');
-          resolve();
-        }
-      );
-    });
+    const tcpAddress = parseTcpAddress(portPath);
+    const transport: MSPTransport = tcpAddress
+      ? new TCPTransport(tcpAddress)
+      : new SerialTransport(portPath, baudRate);
+    this.port = transport;
+
+    try {
+      await transport.open();
+    } catch (error) {
+      throw new ConnectionError(`Failed to open port: ${getErrorMessage(error)}`, error);
+    }
+
+    this.setupListeners();
+    logger.info(
+      tcpAddress ? `Connected to ${transport.path}` : `Connected to ${portPath} at ${baudRate} baud`
+    );
+    this.emit('connected');
   }
 
   async close(): Promise<void> {
@@ -157,7 +160,11 @@ export class MSPConnection extends EventEmitter {
   }
 
   /** Send an MSP command without waiting for response. Used for commands that reboot the FC. */
-  async sendCommandNoResponse(command: number, data: Buffer = Buffer.alloc(0)): Promise<void> {
+  async sendCommandNoResponse(
+    command: number,
+    data: Buffer = Buffer.alloc(0),
+    version?: MSPVersion
+  ): Promise<void> {
     if (!this.isOpen()) {
       throw new ConnectionError('Port not open');
     }
@@ -171,7 +178,7 @@ export class MSPConnection extends EventEmitter {
       }
     }
 
-    const message = this.protocol.encode(command, data);
+    const message = this.protocol.encode(command, data, version);
 
     return new Promise((resolve, reject) => {
       this.port!.write(message, (error) => {
@@ -184,10 +191,16 @@ export class MSPConnection extends EventEmitter {
     });
   }
 
+  /**
+   * Send an MSP command and wait for the matching response.
+   * @param version Framing to use — defaults to v1 for 8-bit IDs and v2 for 16-bit IDs.
+   *   Responses are matched by command ID regardless of the framing the FC replies in.
+   */
   async sendCommand(
     command: number,
     data: Buffer = Buffer.alloc(0),
-    timeout: number = MSP.COMMAND_TIMEOUT
+    timeout: number = MSP.COMMAND_TIMEOUT,
+    version?: MSPVersion
   ): Promise<MSPResponse> {
     if (!this.isOpen()) {
       throw new ConnectionError('Port not open');
@@ -209,7 +222,7 @@ export class MSPConnection extends EventEmitter {
       }
     }
 
-    const message = this.protocol.encode(command, data);
+    const message = this.protocol.encode(command, data, version);
 
     return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
@@ -363,8 +376,8 @@ export class MSPConnection extends EventEmitter {
       }
     });
 
-    this.port.on('error', (error) => {
-      logger.error('Serial port error:', error);
+    this.port.on('error', (error: Error) => {
+      logger.error('Transport error:', error);
       this._portError = true;
 
       // Fast-fail all pending MSP commands instead of waiting for timeout
@@ -1,10 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { MSPProtocol } from './MSPProtocol';
-import { MSP_PROTOCOL } from './types';
+import { MSPProtocol, crc8DvbS2 } from './MSPProtocol';
+import { MSP_PROTOCOL, MSPCommand } from './types';
 import {
   buildMSPv1Response,
   buildMSPv1ErrorResponse,
   buildMSPJumboResponse,
+  buildMSPv2Response,
 } from './test/mspResponseFactory';
 
 describe('MSPProtocol', () => {
@@ -509,4 +510,149 @@ describe('MSPProtocol', () => {
       expect(remaining.length).toBe(0);
     });
   });
+
+  // ─── MSP v2 ─────────────────────────────────────────────────────
+
+  describe('crc8DvbS2', () => {
+    it('matches the CRC-8/DVB-S2 check value for "123456789"', () => {
+      let crc = 0;
+      for (const byte of Buffer.from('123456789')) crc = crc8DvbS2(crc, byte);
+      expect(crc).toBe(0xbc);
+    });
+  });
+
+  describe('versionFor', () => {
+    it('selects v1 for 8-bit command IDs and v2 for 16-bit IDs', () => {
+      expect(MSPProtocol.versionFor(MSPCommand.MSP_PID)).toBe(1);
+      expect(MSPProtocol.versionFor(255)).toBe(1);
+      expect(MSPProtocol.versionFor(MSPCommand.MSP2_COMMON_SETTING)).toBe(2);
+    });
+  });
+
+  describe('encode v2', () => {
+    it('encodes $X< frame with 16-bit command, size and CRC8 DVB-S2', () => {
+      const data = Buffer.from([0x61, 0x62, 0x00]);
+      const result = protocol.encode(MSPCommand.MSP2_COMMON_SETTING, data);
+
+      expect(result.length).toBe(9 + 3);
+      expect(result[0]).toBe(0x24); // '$'
+      expect(result[1]).toBe(0x58); // 'X'
+      expect(result[2]).toBe(0x3c); // '<'
+      expect(result[3]).toBe(0); // flag
+      expect(result.readUInt16LE(4)).toBe(0x1003);
+      expect(result.readUInt16LE(6)).toBe(3);
+      expect(result.subarray(8, 11)).toEqual(data);
+
+      let crc = 0;
+      for (let i = 3; i < 11; i++) crc = crc8DvbS2(crc, result[i]);
+      expect(result[11]).toBe(crc);
+    });
+
+    it('encodes an 8-bit command in v2 framing when requested', () => {
+      const result = protocol.encode(MSPCommand.MSP_API_VERSION, Buffer.alloc(0), 2);
+      expect(result[1]).toBe(0x58);
+      expect(result.readUInt16LE(4)).toBe(1);
+      expect(result.length).toBe(9);
+    });
+
+    it('uses v2 instead of jumbo frames for large payloads', () => {
+      const result = protocol.encode(MSPCommand.MSP_DATAFLASH_READ, Buffer.alloc(1000), 2);
+      expect(result[1]).toBe(0x58);
+      expect(result.readUInt16LE(6)).toBe(1000);
+      expect(result.length).toBe(1009);
+    });
+
+    it('throws when forcing v1 framing for a 16-bit command', () => {
+      expect(() => protocol.encode(MSPCommand.MSP2_COMMON_SETTING, Buffer.alloc(0), 1)).toThrow(
+        'does not fit in an MSP v1 frame'
+      );
+    });
+
+    it('throws for payloads above the 16-bit size limit', () => {
+      const data = Buffer.alloc(MSP_PROTOCOL.MAX_V2_PAYLOAD_SIZE + 1);
+      expect(() => protocol.encode(0x1003, data)).toThrow('MSP v2 payload too large');
+    });
+  });
+
+  describe('decode v2', () => {
+    it('decodes valid v2 response', () => {
+      const frame = buildMSPv2Response(0x300a, [1, 2, 3, 4]);
+      const result = protocol.decode(frame);
+
+      expect(result).not.toBeNull();
+      expect(result!.command).toBe(0x300a);
+      expect(Array.from(result!.data)).toEqual([1, 2, 3, 4]);
+      expect(result!.error).toBe(false);
+      expect(result!.version).toBe(2);
+    });
+
+    it('decodes v2 error response ($X!)', () => {
+      const frame = buildMSPv2Response(0x1003, [], { error: true });
+      const result = protocol.decode(frame);
+      expect(result!.error).toBe(true);
+      expect(result!.command).toBe(0x1003);
+    });
+
+    it('returns null for incomplete v2 header and payload', () => {
+      const frame = buildMSPv2Response(0x1003, Buffer.alloc(20));
+      expect(protocol.decode(frame.subarray(0, 8))).toBeNull();
+      expect(protocol.decode(frame.subarray(0, 20))).toBeNull();
+    });
+
+    it('throws on CRC mismatch', () => {
+      const frame = buildMSPv2Response(0x1003, [0x42]);
+      frame[frame.length - 1] ^= 0xff;
+      expect(() => protocol.decode(frame)).toThrow('MSP v2 CRC mismatch');
+    });
+
+    it('round-trips an encoded request turned into a response', () => {
+      const data = Buffer.alloc(600);
+      for (let i = 0; i < 600; i++) data[i] = (i * 13) & 0xff;
+      const encoded = protocol.encode(0x1004, data);
+      encoded[2] = MSP_PROTOCOL.DIRECTION_FROM_FC;
+
+      const decoded = protocol.decode(encoded);
+      expect(decoded!.command).toBe(0x1004);
+      expect(Buffer.compare(decoded!.data, data)).toBe(0);
+    });
+  });
+
+  describe('parseBuffer v2 frames', () => {
+    it('parses mixed v1, jumbo and v2 frames from one buffer', () => {
+      const combined = Buffer.concat([
+        buildMSPv1Response(1, [0, 1, 46]),
+        buildMSPv2Response(0x1003, Buffer.from('gyro_lpf1_static_hz')),
+        buildMSPJumboResponse(71, Buffer.alloc(300, 0xab)),
+        buildMSPv2Response(0x300a, [7]),
+      ]);
+
+      const { messages, remaining } = protocol.parseBuffer(combined);
+
+      expect(messages.map((m) => m.command)).toEqual([1, 0x1003, 71, 0x300a]);
+      expect(messages[1].data.toString()).toBe('gyro_lpf1_static_hz');
+      expect(messages[2].data.length).toBe(300);
+      expect(remaining.length).toBe(0);
+    });
+
+    it('keeps an incomplete trailing v2 frame as remaining', () => {
+      const full = buildMSPv2Response(0x1003, Buffer.alloc(10));
+      const combined = Buffer.concat([buildMSPv1Response(1, [0]), full.subarray(0, 12)]);
+
+      const { messages, remaining } = protocol.parseBuffer(combined);
+
+      expect(messages.length).toBe(1);
+      expect(remaining.length).toBe(12);
+    });
+
+    it('skips a corrupted v2 frame and continues with the next one', () => {
+      const corrupt = buildMSPv2Response(0x1003, [1, 2]);
+      corrupt[corrupt.length - 1] ^= 0xff;
+      const combined = Buffer.concat([corrupt, buildMSPv2Response(0x1004, [])]);
+
+      const { messages } = protocol.parseBuffer(combined);
+
+      expect(messages.length).toBe(1);
+      expect(messages[0].command).toBe(0x1004);
+    });
+  });
 });
@@ -1,12 +1,43 @@
-import { MSPResponse, MSP_PROTOCOL } from './types';
+import { MSPResponse, MSPVersion, MSP_PROTOCOL } from './types';
 import { MSPError } from '../utils/errors';
 
+/**
+ * CRC8 DVB-S2 (polynomial 0xD5), as used by MSP v2 framing.
+ */
+export function crc8DvbS2(crc: number, byte: number): number {
+  crc ^= byte;
+  for (let i = 0; i < 8; i++) {
+    crc = crc & 0x80 ? ((crc << 1) ^ 0xd5) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
 export class MSPProtocol {
+  /**
+   * Pick the framing version for a command when the caller doesn't specify one.
+   * Command IDs above 255 only exist in MSP v2.
+   */
+  static versionFor(command: number): MSPVersion {
+    return command > MSP_PROTOCOL.MAX_V1_COMMAND ? 2 : 1;
+  }
+
   /**
    * Encode MSP message to send to FC
-   * Automatically uses jumbo frames (MSPv2) for payloads > 255 bytes
+   * Automatically uses jumbo frames for v1 payloads > 255 bytes
    */
-  encode(command: number, data: Buffer = Buffer.alloc(0)): Buffer {
+  encode(
+    command: number,
+    data: Buffer = Buffer.alloc(0),
+    version: MSPVersion = MSPProtocol.versionFor(command)
+  ): Buffer {
+    if (version === 2) {
+      return this.encodeV2(command, data);
+    }
+
+    if (command > MSP_PROTOCOL.MAX_V1_COMMAND) {
+      throw new MSPError(`Command ${command} does not fit in an MSP v1 frame`);
+    }
+
     const size = data.length;
 
     // Use jumbo frames for large payloads
@@ -81,9 +112,48 @@ export class MSPProtocol {
     return buffer;
   }
 
+  /**
+   * Encode MSP v2 message
+   * Format: $X<<flag><command 16-bit LE><size 16-bit LE><data><crc8 dvb-s2>
+   * CRC covers flag, command, size and data (everything after the direction byte).
+   */
+  private encodeV2(command: number, data: Buffer, flag: number = 0): Buffer {
+    const size = data.length;
+
+    if (size > MSP_PROTOCOL.MAX_V2_PAYLOAD_SIZE) {
+      throw new MSPError(`MSP v2 payload too large: ${size} > ${MSP_PROTOCOL.MAX_V2_PAYLOAD_SIZE}`);
+    }
+
+    const buffer = Buffer.alloc(MSP_PROTOCOL.V2_OVERHEAD + size);
+
+    buffer[0] = MSP_PROTOCOL.PREAMBLE1; // '$'
+    buffer[1] = MSP_PROTOCOL.PREAMBLE2_V2; // 'X'
+    buffer[2] = MSP_PROTOCOL.DIRECTION_TO_FC; // '<'
+    buffer[3] = flag;
+    buffer.writeUInt16LE(command, 4);
+    buffer.writeUInt16LE(size, 6);
+
+    if (size > 0) {
+      data.copy(buffer, 8);
+    }
+
+    buffer[8 + size] = this.crcV2(buffer, 3, 8 + size);
+
+    return buffer;
+  }
+
+  /** CRC8 DVB-S2 over buffer[start, end) */
+  private crcV2(buffer: Buffer, start: number, end: number): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+      crc = crc8DvbS2(crc, buffer[i]);
+    }
+    return crc;
+  }
+
   /**
    * Decode MSP response from FC
-   * Handles both standard MSP v1 and jumbo frames (MSPv2)
+   * Handles standard MSP v1, v1 jumbo frames and MSP v2 frames
    */
   decode(buffer: Buffer): MSPResponse | null {
     if (buffer.length < 6) {
@@ -91,7 +161,13 @@ export class MSPProtocol {
     }
 
     // Check preamble
-    if (buffer[0] !== MSP_PROTOCOL.PREAMBLE1 || buffer[1] !== MSP_PROTOCOL.PREAMBLE2) {
+    if (buffer[0] !== MSP_PROTOCOL.PREAMBLE1) {
+      throw new MSPError('Invalid MSP preamble');
+    }
+    if (buffer[1] === MSP_PROTOCOL.PREAMBLE2_V2) {
+      return this.decodeV2(buffer);
+    }
+    if (buffer[1] !== MSP_PROTOCOL.PREAMBLE2) {
       throw new MSPError('Invalid MSP preamble');
     }
 
@@ -181,6 +257,64 @@ export class MSPProtocol {
     };
   }
 
+  /**
+   * Decode MSP v2 response
+   * Format: $X><flag><command 16-bit LE><size 16-bit LE><data><crc8 dvb-s2>
+   */
+  private decodeV2(buffer: Buffer): MSPResponse | null {
+    if (buffer.length < MSP_PROTOCOL.V2_OVERHEAD) {
+      return null; // Incomplete v2 header
+    }
+
+    const direction = buffer[2];
+    const isError = direction === MSP_PROTOCOL.ERROR;
+
+    if (direction !== MSP_PROTOCOL.DIRECTION_FROM_FC && !isError) {
+      throw new MSPError(`Invalid MSP direction: 0x${direction.toString(16)}`);
+    }
+
+    const command = buffer.readUInt16LE(4);
+    const size = buffer.readUInt16LE(6);
+
+    if (buffer.length < MSP_PROTOCOL.V2_OVERHEAD + size) {
+      return null; // Incomplete message
+    }
+
+    const receivedChecksum = buffer[8 + size];
+    const calculatedChecksum = this.crcV2(buffer, 3, 8 + size);
+
+    if (receivedChecksum !== calculatedChecksum) {
+      throw new MSPError(
+        `MSP v2 CRC mismatch: received 0x${receivedChecksum.toString(16)}, calculated 0x${calculatedChecksum.toString(16)}`
+      );
+    }
+
+    return {
+      command,
+      data: buffer.slice(8, 8 + size),
+      error: isError,
+      version: 2,
+    };
+  }
+
+  /**
+   * Total byte length of the complete frame starting at buffer[offset].
+   * Only valid after decode() has returned a message for that offset.
+   */
+  private frameLength(buffer: Buffer, offset: number): number {
+    if (buffer[offset + 1] === MSP_PROTOCOL.PREAMBLE2_V2) {
+      // v2: $X<flag><cmd_lo><cmd_hi><size_lo><size_hi><data><crc> = 9 + payload
+      return MSP_PROTOCOL.V2_OVERHEAD + buffer.readUInt16LE(offset + 6);
+    }
+    const sizeOrFlag = buffer[offset + 3];
+    if (sizeOrFlag === 0xff) {
+      // Jumbo frame: $M>0xFF<size_lo><size_hi><cmd><data><crc> = 8 + payload
+      return 8 + buffer.readUInt16LE(offset + 4);
+    }
+    // Standard frame: $M><size><cmd><data><crc> = 6 + payload
+    return 6 + sizeOrFlag;
+  }
+
   /**
    * Parse multiple messages from buffer
    */
@@ -189,10 +323,13 @@ export class MSPProtocol {
     let offset = 0;
 
     while (offset < buffer.length) {
-      // Find preamble
+      // Find preamble ($M for v1, $X for v2)
       let preambleIndex = -1;
       for (let i = offset; i < buffer.length - 1; i++) {
-        if (buffer[i] === MSP_PROTOCOL.PREAMBLE1 && buffer[i + 1] === MSP_PROTOCOL.PREAMBLE2) {
+        if (
+          buffer[i] === MSP_PROTOCOL.PREAMBLE1 &&
+          (buffer[i + 1] === MSP_PROTOCOL.PREAMBLE2 || buffer[i + 1] === MSP_PROTOCOL.PREAMBLE2_V2)
+        ) {
           preambleIndex = i;
           break;
         }
@@ -210,16 +347,8 @@ export class MSPProtocol {
         const message = this.decode(buffer.slice(offset));
         if (message) {
           messages.push(message);
-          // Advance past the decoded message — jumbo frames have a different layout
-          const sizeOrFlag = buffer[offset + 3];
-          if (sizeOrFlag === 0xff) {
-            // Jumbo frame: $M>0xFF<size_lo><size_hi><cmd><data><crc> = 8 + payload
-            const jumboSize = buffer.readUInt16LE(offset + 4);
-            offset += 8 + jumboSize;
-          } else {
-            // Standard frame: $M><size><cmd><data><crc> = 6 + payload
-            offset += 6 + sizeOrFlag;
-          }
+          // Advance past the decoded message — jumbo and v2 frames have different layouts
+          offset += this.frameLength(buffer, offset);
         } else {
           // Incomplete message, save remaining
           break;
@@ -0,0 +1,22 @@
+import type { EventEmitter } from 'events';
+
+/**
+ * Byte-stream link between MSPConnection and a flight controller.
+ *
+ * Mirrors the subset of the `serialport` API that MSPConnection relies on, so
+ * the MSP/CLI logic is identical whether the FC is on USB or behind a TCP socket.
+ *
+ * Events:
+ *  - `data` (Buffer) — bytes received from the FC
+ *  - `error` (Error) — link-level failure
+ *  - `close` — link closed (by either side)
+ */
+export interface MSPTransport extends EventEmitter {
+  /** Port path or `tcp://host:port` this transport is bound to */
+  readonly path: string;
+  readonly isOpen: boolean;
+  open(): Promise<void>;
+  write(data: string | Buffer, callback?: (error?: Error | null) => void): void;
+  drain(callback: (error?: Error | null) => void): void;
+  close(callback: (error?: Error | null) => void): void;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PortWatcher, isFCPort, type PortWatcherOptions } from './PortWatcher';
+import type { PortInfo, PortsChangedEvent } from '@shared/types/common.types';
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const STM32: PortInfo = { path: '/dev/ttyACM0', vendorId: '0483', productId: '5740' };
+const FTDI: PortInfo = { path: '/dev/ttyUSB0', vendorId: '0403', productId: '6001' };
+
+describe('isFCPort', () => {
+  it('matches FC vendor IDs with or without the 0x prefix', () => {
+    expect(isFCPort(STM32)).toBe(true);
+    expect(isFCPort({ path: '/dev/ttyACM1', vendorId: '0x2e8a' })).toBe(true);
+    expect(isFCPort(FTDI)).toBe(false);
+    expect(isFCPort({ path: '/dev/ttyS0' })).toBe(false);
+  });
+});
+
+describe('PortWatcher', () => {
+  let tempDir: string;
+  let ports: PortInfo[];
+  let options: PortWatcherOptions & {
+    connect: ReturnType<typeof vi.fn>;
+    canAutoConnect: ReturnType<typeof vi.fn>;
+  };
+
+  const createWatcher = async (): Promise<PortWatcher> => {
+    const watcher = new PortWatcher(tempDir, options);
+    await watcher.initialize();
+    return watcher;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'port-watcher-test-'));
+    ports = [];
+    options = {
+      listPorts: vi.fn(async () => ports),
+      connect: vi.fn().mockResolvedValue(undefined),
+      canAutoConnect: vi.fn().mockReturnValue(true),
+      settleMs: 0,
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('emits added and removed ports only when the list changes', async () => {
+    const watcher = await createWatcher();
+    const events: PortsChangedEvent[] = [];
+    watcher.on('ports-changed', (e) => events.push(e));
+
+    ports = [FTDI];
+    await watcher.poll();
+    await watcher.poll();
+    ports = [STM32];
+    await watcher.poll();
+
+    expect(events).toEqual([
+      { ports: [FTDI], added: [FTDI], removed: [] },
+      { ports: [STM32], added: [STM32], removed: [FTDI] },
+    ]);
+    expect(watcher.getPorts()).toEqual([STM32]);
+  });
+
+  it('auto-connects a newly plugged-in FC and flags the connection once', async () => {
+    const watcher = await createWatcher();
+    await watcher.setAutoConnect(true);
+
+    ports = [FTDI, STM32];
+    await watcher.poll();
+
+    expect(options.connect).toHaveBeenCalledTimes(1);
+    expect(options.connect).toHaveBeenCalledWith(STM32.path);
+    expect(watcher.consumeAutoConnected()).toBe(true);
+    expect(watcher.consumeAutoConnected()).toBe(false);
+  });
+
+  it('leaves ports alone when auto-connect is off or the app is busy with the FC', async () => {
+    const watcher = await createWatcher();
+
+    ports = [STM32];
+    await watcher.poll();
+    expect(options.connect).not.toHaveBeenCalled();
+
+    await watcher.setAutoConnect(true);
+    options.canAutoConnect.mockReturnValue(false);
+    ports = [];
+    await watcher.poll();
+    ports = [STM32];
+    await watcher.poll();
+    expect(options.connect).not.toHaveBeenCalled();
+  });
+
+  it('clears the auto-connect flag when the connection fails', async () => {
+    options.connect.mockRejectedValue(new Error('Port busy'));
+    const watcher = await createWatcher();
+    await watcher.setAutoConnect(true);
+
+    ports = [STM32];
+    await watcher.poll();
+
+    expect(options.connect).toHaveBeenCalled();
+    expect(watcher.consumeAutoConnected()).toBe(false);
+  });
+
+  it('persists the auto-connect setting', async () => {
+    const first = await createWatcher();
+    expect(first.getAutoConnect()).toBe(false);
+    await first.setAutoConnect(true);
+
+    const second = await createWatcher();
+    expect(second.getAutoConnect()).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import fs from 'fs/promises';
+import { BETAFLIGHT, PORT_WATCHER } from '@shared/constants';
+import type { PortInfo, PortsChangedEvent } from '@shared/types/common.types';
+import { logger } from '../utils/logger';
+
+interface PortWatcherSettings {
+  /** Connect automatically when a flight controller is plugged in */
+  autoConnect: boolean;
+}
+
+export interface PortWatcherOptions {
+  listPorts: () => Promise<PortInfo[]>;
+  connect: (portPath: string) => Promise<void>;
+  /**
+   * False when the port is already connected or the app expects an FC back on
+   * its own (save reboot, CLI exit reboot, MSC mode) — auto-connect must not race those.
+   */
+  canAutoConnect: (portPath: string) => boolean;
+  pollIntervalMs?: number;
+  settleMs?: number;
+}
+
+/**
+ * Whether a port looks like a flight controller (STM32 / RP2040 USB VID).
+ * serialport reports vendorId without the 0x prefix; accept both forms.
+ */
+export function isFCPort(port: PortInfo): boolean {
+  if (!port.vendorId) return false;
+  const vid = port.vendorId.toLowerCase().replace(/^0x/, '');
+  return BETAFLIGHT.VENDOR_IDS.some((id) => id.toLowerCase().replace(/^0x/, '') === vid);
+}
+
+/**
+ * Polls the serial port list and emits 'ports-changed' when ports appear or
+ * disappear. With auto-connect enabled, a newly plugged-in FC is connected
+ * automatically; the 'connected' handler keeps the connection only when the
+ * FC's UID matches an existing profile (see consumeAutoConnected()).
+ */
+export class PortWatcher extends EventEmitter {
+  private basePath: string;
+  private options: PortWatcherOptions;
+  private settings: PortWatcherSettings = { autoConnect: false };
+  private ports: PortInfo[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private autoConnected = false;
+
+  constructor(basePath: string, options: PortWatcherOptions) {
+    super();
+    this.basePath = basePath;
+    this.options = options;
+  }
+
+  private get settingsPath(): string {
+    return join(this.basePath, PORT_WATCHER.SETTINGS_FILE);
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.settingsPath, 'utf-8');
+      this.settings = { autoConnect: JSON.parse(raw).autoConnect === true };
+    } catch {
+      // File doesn't exist or is corrupt — auto-connect stays off until the user opts in
+      this.settings = { autoConnect: false };
+    }
+  }
+
+  getAutoConnect(): boolean {
+    return this.settings.autoConnect;
+  }
+
+  async setAutoConnect(enabled: boolean): Promise<void> {
+    this.settings.autoConnect = enabled;
+    await fs.mkdir(this.basePath, { recursive: true });
+    await fs.writeFile(this.settingsPath, JSON.stringify(this.settings, null, 2), 'utf-8');
+    logger.info(`Auto-connect ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  getPorts(): PortInfo[] {
+    return [...this.ports];
+  }
+
+  start(): void {
+    if (this.timer) return;
+    const interval = this.options.pollIntervalMs ?? PORT_WATCHER.POLL_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      this.poll().catch(() => {});
+    }, interval);
+    this.poll().catch(() => {});
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * True once after a connection started by auto-connect — the 'connected'
+   * handler uses it to drop connections to FCs without a profile instead of
+   * opening the profile wizard for a drone nobody asked to connect.
+   */
+  consumeAutoConnected(): boolean {
+    const value = this.autoConnected;
+    this.autoConnected = false;
+    return value;
+  }
+
+  async poll(): Promise<void> {
+    // A slow listPorts() (or an auto-connect in progress) must not overlap the next tick
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const ports = await this.options.listPorts();
+      const previous = new Set(this.ports.map((p) => p.path));
+      const current = new Set(ports.map((p) => p.path));
+      const added = ports.filter((p) => !previous.has(p.path));
+      const removed = this.ports.filter((p) => !current.has(p.path));
+      this.ports = ports;
+
+      if (added.length === 0 && removed.length === 0) return;
+
+      if (added.length > 0) {
+        logger.info(`Port(s) added: ${added.map((p) => p.path).join(', ')}`);
+      }
+      if (removed.length > 0) {
+        logger.info(`Port(s) removed: ${removed.map((p) => p.path).join(', ')}`);
+      }
+      const event: PortsChangedEvent = { ports, added, removed };
+      this.emit('ports-changed', event);
+
+      const fcPort = added.find(isFCPort);
+      if (fcPort && this.settings.autoConnect && this.options.canAutoConnect(fcPort.path)) {
+        await this.autoConnect(fcPort.path);
+      }
+    } catch (error) {
+      // SerialPort.list() can fail transiently during USB re-enumeration
+      logger.debug('Port watcher poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async autoConnect(portPath: string): Promise<void> {
+    await new Promise((resolve) =>
+      setTimeout(resolve, this.options.settleMs ?? PORT_WATCHER.SETTLE_MS)
+    );
+    // Re-check after settling — the user may have connected manually meanwhile
+    if (!this.options.canAutoConnect(portPath)) return;
+
+    logger.info(`Auto-connecting to ${portPath}...`);
+    this.autoConnected = true;
+    try {
+      await this.options.connect(portPath);
+    } catch (error) {
+      this.autoConnected = false;
+      logger.warn(`Auto-connect to ${portPath} failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { EventEmitter } from 'events';
+import { SerialPort } from 'serialport';
+import type { MSPTransport } from './MSPTransport';
+
+/**
+ * USB / UART transport backed by `serialport`.
+ */
+export class SerialTransport extends EventEmitter implements MSPTransport {
+  private port: SerialPort | null = null;
+
+  constructor(
+    public readonly path: string,
+    private readonly baudRate: number
+  ) {
+    super();
+  }
+
+  get isOpen(): boolean {
+    return this.port?.isOpen ?? false;
+  }
+
+  open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.port = new SerialPort(
+        {
+          path: this.path,
+          baudRate: this.baudRate,
+          dataBits: 8,
+          stopBits: 1,
+          parity: 'none',
+        },
+        (error) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+
+          this.port!.on('data', (data: Buffer) => this.emit('data', data));
+          this.port!.on('error', (err: Error) => this.emit('error', err));
+          this.port!.on('close', () => this.emit('close'));
+          resolve();
+        }
+      );
+    });
+  }
+
+  write(data: string | Buffer, callback?: (error?: Error | null) => void): void {
+    this.port!.write(data, callback);
+  }
+
+  drain(callback: (error?: Error | null) => void): void {
+    this.port!.drain(callback);
+  }
+
+  close(callback: (error?: Error | null) => void): void {
+    this.port!.close(callback);
+  }
+}
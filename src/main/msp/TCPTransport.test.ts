@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import net from 'net';
+import { buildMSPv1Response } from './test/mspResponseFactory';
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { TCPTransport } from './TCPTransport';
+import { MSPConnection } from './MSPConnection';
+
+/** Minimal loopback "FC": records received bytes and lets tests push replies. */
+async function startFakeFC(): Promise<{
+  server: net.Server;
+  port: number;
+  received: Buffer[];
+  client: () => net.Socket | null;
+}> {
+  const received: Buffer[] = [];
+  let socket: net.Socket | null = null;
+  const server = net.createServer((s) => {
+    socket = s;
+    s.on('data', (d) => received.push(d));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as net.AddressInfo).port;
+  return { server, port, received, client: () => socket };
+}
+
+const tick = (ms = 20) => new Promise((r) => setTimeout(r, ms));
+
+describe('TCPTransport', () => {
+  let fc: Awaited<ReturnType<typeof startFakeFC>>;
+
+  beforeEach(async () => {
+    fc = await startFakeFC();
+  });
+
+  afterEach(async () => {
+    fc.client()?.destroy();
+    await new Promise((r) => fc.server.close(r));
+  });
+
+  it('opens, writes and receives bytes', async () => {
+    const transport = new TCPTransport({ host: '127.0.0.1', port: fc.port });
+    expect(transport.path).toBe(`tcp://127.0.0.1:${fc.port}`);
+
+    await transport.open();
+    expect(transport.isOpen).toBe(true);
+
+    const dataSpy = vi.fn();
+    transport.on('data', dataSpy);
+
+    await new Promise<void>((resolve) => transport.write(Buffer.from('#\r\n'), () => resolve()));
+    await tick();
+    expect(Buffer.concat(fc.received).toString()).toBe('#\r\n');
+
+    fc.client()!.write(Buffer.from('# '));
+    await tick();
+    expect(dataSpy).toHaveBeenCalledWith(Buffer.from('# '));
+
+    await new Promise((r) => transport.close(r));
+    expect(transport.isOpen).toBe(false);
+  });
+
+  it('rejects when nothing is listening', async () => {
+    // Grab a free port, then release it so the connect is refused
+    const probe = net.createServer();
+    await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+    const freePort = (probe.address() as net.AddressInfo).port;
+    await new Promise((r) => probe.close(r));
+
+    const transport = new TCPTransport({ host: '127.0.0.1', port: freePort });
+
+    await expect(transport.open()).rejects.toThrow();
+    expect(transport.isOpen).toBe(false);
+  });
+
+  it('emits close when the remote end drops', async () => {
+    const transport = new TCPTransport({ host: '127.0.0.1', port: fc.port });
+    await transport.open();
+    const closeSpy = vi.fn();
+    transport.on('close', closeSpy);
+
+    await tick();
+    fc.client()!.destroy();
+    await tick(50);
+
+    expect(closeSpy).toHaveBeenCalled();
+    expect(transport.isOpen).toBe(false);
+  });
+});
+
+describe('MSPConnection over TCP', () => {
+  let fc: Awaited<ReturnType<typeof startFakeFC>>;
+  let conn: MSPConnection;
+
+  beforeEach(async () => {
+    fc = await startFakeFC();
+    conn = new MSPConnection();
+  });
+
+  afterEach(async () => {
+    conn.removeAllListeners();
+    await conn.close().catch(() => {});
+    fc.client()?.destroy();
+    await new Promise((r) => fc.server.close(r));
+  });
+
+  it('selects TCP transport for host:port and round-trips MSP', async () => {
+    await conn.open(`127.0.0.1:${fc.port}`);
+    expect(conn.isOpen()).toBe(true);
+
+    const cmdPromise = conn.sendCommand(1);
+    await tick();
+    expect(Buffer.concat(fc.received)[1]).toBe(0x4d); // '$M<' request reached the socket
+    fc.client()!.write(buildMSPv1Response(1, [0, 1, 46]));
+
+    const result = await cmdPromise;
+    expect(result.data[2]).toBe(46);
+  });
+
+  it('runs CLI commands over TCP', async () => {
+    await conn.open(`tcp://127.0.0.1:${fc.port}`);
+    await tick();
+    fc.client()!.on('data', (d) => {
+      const text = d.toString();
+      if (text === '#\r\n') fc.client()!.write('\r\nEntering CLI Mode\r\n# ');
+      if (text === 'get gyro_lpf1_static_hz\r\n') {
+        fc.client()!.write('gyro_lpf1_static_hz = 250\r\n# ');
+      }
+    });
+
+    await conn.enterCLI();
+    const output = await conn.sendCLICommand('get gyro_lpf1_static_hz', 2000);
+    expect(output).toContain('gyro_lpf1_static_hz = 250');
+  });
+
+  it('emits disconnected when the socket drops', async () => {
+    await conn.open(`127.0.0.1:${fc.port}`);
+    const spy = vi.fn();
+    conn.on('disconnected', spy);
+
+    await tick();
+    fc.client()!.destroy();
+    await tick(50);
+
+    expect(spy).toHaveBeenCalled();
+    expect(conn.isOpen()).toBe(false);
+  });
+
+  it('wraps connection failures in ConnectionError', async () => {
+    await expect(conn.open('127.0.0.1:1')).rejects.toThrow('Failed to open port');
+  });
+});
@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import type { MSPTransport } from './MSPTransport';
+import { formatTcpAddress, type TcpAddress } from '@shared/utils/tcpAddress';
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * TCP transport for network MSP endpoints: Betaflight SITL (port 5761) and
+ * ESP8266/ESP32 serial bridges. MSP and CLI bytes are passed through unchanged.
+ */
+export class TCPTransport extends EventEmitter implements MSPTransport {
+  public readonly path: string;
+  private socket: net.Socket | null = null;
+  private connected: boolean = false;
+
+  constructor(private readonly address: TcpAddress) {
+    super();
+    this.path = formatTcpAddress(address);
+  }
+
+  get isOpen(): boolean {
+    return this.connected && !!this.socket && !this.socket.destroyed;
+  }
+
+  open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new net.Socket();
+      this.socket = socket;
+
+      const onConnectError = (error: Error) => {
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.setTimeout(CONNECT_TIMEOUT_MS, () => {
+        onConnectError(new Error(`Connection to ${this.path} timed out`));
+      });
+      socket.once('error', onConnectError);
+
+      socket.connect(this.address.port, this.address.host, () => {
+        socket.removeListener('error', onConnectError);
+        socket.setTimeout(0);
+        // MSP is request/response with tiny frames — don't let Nagle batch them
+        socket.setNoDelay(true);
+        this.connected = true;
+
+        socket.on('data', (data: Buffer) => this.emit('data', data));
+        socket.on('error', (err: Error) => this.emit('error', err));
+        socket.on('close', () => {
+          this.connected = false;
+          this.emit('close');
+        });
+        resolve();
+      });
+    });
+  }
+
+  write(data: string | Buffer, callback?: (error?: Error | null) => void): void {
+    this.socket!.write(data, (error) => callback?.(error ?? null));
+  }
+
+  drain(callback: (error?: Error | null) => void): void {
+    if (this.socket?.writableNeedDrain) {
+      this.socket.once('drain', () => callback(null));
+    } else {
+      process.nextTick(() => callback(null));
+    }
+  }
+
+  close(callback: (error?: Error | null) => void): void {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) {
+      this.connected = false;
+      process.nextTick(() => callback(null));
+      return;
+    }
+    // Like serialport, a local close also emits 'close' to listeners
+    socket.once('close', () => callback(null));
+    socket.destroy();
+  }
+}
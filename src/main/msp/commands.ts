@@ -7,6 +7,7 @@ export const CLI_COMMANDS = {
   EXIT: 'exit',
   DIFF: 'diff all',
   DUMP: 'dump',
+  GET: 'get',
   SAVE: 'save'
 } as const;
 
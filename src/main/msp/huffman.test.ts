@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { huffmanDecode, huffmanEncode } from './huffman';
+import { FlashDecodeError } from '../utils/errors';
+
+describe('huffman', () => {
+  it('encodes with the Betaflight table (MSB-first, zero-padded)', () => {
+    // 0x00 → 11, 0x01 → 101
+    expect(huffmanEncode(Buffer.from([0x00, 0x01, 0x00]))).toEqual(Buffer.from([0xee]));
+  });
+
+  it('decodes a known stream', () => {
+    expect(huffmanDecode(Buffer.from([0xee]), 3)).toEqual(Buffer.from([0x00, 0x01, 0x00]));
+  });
+
+  it('round-trips every byte value', () => {
+    const input = Buffer.alloc(1024);
+    for (let i = 0; i < input.length; i++) input[i] = (i * 37) & 0xff;
+
+    const encoded = huffmanEncode(input);
+    expect(huffmanDecode(encoded, input.length)).toEqual(input);
+  });
+
+  it('compresses typical blackbox bytes', () => {
+    // Small deltas and zeros dominate real logs
+    const input = Buffer.from(Array.from({ length: 512 }, (_, i) => [0, 1, 0, 2][i % 4]));
+    expect(huffmanEncode(input).length).toBeLessThan(input.length / 2);
+  });
+
+  it('ignores padding bits once the requested length is decoded', () => {
+    // 0xef: 11 101 11 then a trailing 1 that is not a full code
+    expect(huffmanDecode(Buffer.from([0xef]), 3)).toEqual(Buffer.from([0x00, 0x01, 0x00]));
+  });
+
+  it('stops at the EOF code', () => {
+    // 0x00 (11) then EOF (000000000000)
+    expect(huffmanDecode(Buffer.from([0xc0, 0x00]), 10)).toEqual(Buffer.from([0x00]));
+  });
+
+  it('throws FlashDecodeError when the stream is too short', () => {
+    expect(() => huffmanDecode(Buffer.from([0xee]), 4)).toThrow(FlashDecodeError);
+  });
+});
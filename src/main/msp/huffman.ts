@@ -0,0 +1,124 @@
+import { FlashDecodeError } from '../utils/errors';
+
+/**
+ * Huffman coding used by Betaflight for compressed MSP_DATAFLASH_READ responses
+ * (firmware built with USE_HUFFMAN, BF 4.1+).
+ *
+ * The tree is fixed and shared by firmware and configurator, so nothing about it
+ * is transmitted — only the bit stream. Bits are packed MSB-first and the last
+ * byte is zero-padded.
+ */
+
+/** Symbol index of the end-of-stream code (one past the byte values) */
+export const HUFFMAN_EOF = 256;
+
+/**
+ * Betaflight's fixed Huffman table (src/main/common/huffman_table.c),
+ * indexed by symbol: [codeLength, code]. Entry 256 is EOF.
+ */
+// prettier-ignore
+const HUFFMAN_TABLE: ReadonlyArray<readonly [number, number]> = [
+  [2, 0x003], [3, 0x005], [4, 0x009], [5, 0x011], [5, 0x010], [6, 0x01d], [6, 0x01c], [6, 0x01b],
+  [6, 0x01a], [7, 0x031], [7, 0x030], [7, 0x02f], [7, 0x02e], [7, 0x02d], [7, 0x02c], [7, 0x02b],
+  [6, 0x019], [7, 0x02a], [7, 0x029], [8, 0x051], [8, 0x050], [8, 0x04f], [8, 0x04e], [8, 0x04d],
+  [8, 0x04c], [8, 0x04b], [8, 0x04a], [8, 0x049], [8, 0x048], [8, 0x047], [8, 0x046], [8, 0x045],
+  [8, 0x044], [8, 0x043], [8, 0x042], [8, 0x041], [8, 0x040], [9, 0x079], [9, 0x078], [9, 0x077],
+  [9, 0x076], [9, 0x075], [9, 0x074], [9, 0x073], [9, 0x072], [9, 0x071], [9, 0x070], [9, 0x06f],
+  [8, 0x03f], [9, 0x06e], [9, 0x06d], [9, 0x06c], [9, 0x06b], [9, 0x06a], [9, 0x069], [9, 0x068],
+  [9, 0x067], [9, 0x066], [9, 0x065], [9, 0x064], [9, 0x063], [9, 0x062], [9, 0x061], [9, 0x060],
+  [8, 0x03e], [9, 0x05f], [9, 0x05e], [9, 0x05d], [9, 0x05c], [9, 0x05b], [9, 0x05a], [9, 0x059],
+  [9, 0x058], [9, 0x057], [10, 0x09f], [10, 0x09e], [9, 0x056], [10, 0x09d], [10, 0x09c], [9, 0x055],
+  [5, 0x00f], [9, 0x054], [10, 0x09b], [10, 0x09a], [10, 0x099], [10, 0x098], [10, 0x097], [10, 0x096],
+  [10, 0x095], [10, 0x094], [10, 0x093], [10, 0x092], [10, 0x091], [10, 0x090], [10, 0x08f], [10, 0x08e],
+  [10, 0x08d], [10, 0x08c], [10, 0x08b], [10, 0x08a], [10, 0x089], [10, 0x088], [10, 0x087], [10, 0x086],
+  [10, 0x085], [10, 0x084], [10, 0x083], [10, 0x082], [10, 0x081], [10, 0x080], [10, 0x07f], [10, 0x07e],
+  [10, 0x07d], [10, 0x07c], [10, 0x07b], [10, 0x07a], [10, 0x079], [10, 0x078], [10, 0x077], [10, 0x076],
+  [10, 0x075], [10, 0x074], [10, 0x073], [10, 0x072], [10, 0x071], [10, 0x070], [10, 0x06f], [10, 0x06e],
+  [9, 0x053], [10, 0x06d], [10, 0x06c], [10, 0x06b], [10, 0x06a], [10, 0x069], [10, 0x068], [10, 0x067],
+  [10, 0x066], [10, 0x065], [10, 0x064], [10, 0x063], [10, 0x062], [10, 0x061], [10, 0x060], [10, 0x05f],
+  [10, 0x05e], [10, 0x05d], [10, 0x05c], [10, 0x05b], [10, 0x05a], [10, 0x059], [10, 0x058], [10, 0x057],
+  [10, 0x056], [10, 0x055], [10, 0x054], [10, 0x053], [10, 0x052], [10, 0x051], [10, 0x050], [10, 0x04f],
+  [10, 0x04e], [10, 0x04d], [10, 0x04c], [10, 0x04b], [10, 0x04a], [10, 0x049], [10, 0x048], [10, 0x047],
+  [10, 0x046], [10, 0x045], [10, 0x044], [10, 0x043], [10, 0x042], [10, 0x041], [10, 0x040], [10, 0x03f],
+  [10, 0x03e], [10, 0x03d], [10, 0x03c], [10, 0x03b], [10, 0x03a], [10, 0x039], [10, 0x038], [10, 0x037],
+  [10, 0x036], [10, 0x035], [10, 0x034], [10, 0x033], [10, 0x032], [10, 0x031], [10, 0x030], [10, 0x02f],
+  [10, 0x02e], [10, 0x02d], [10, 0x02c], [10, 0x02b], [10, 0x02a], [10, 0x029], [10, 0x028], [10, 0x027],
+  [10, 0x026], [10, 0x025], [10, 0x024], [10, 0x023], [10, 0x022], [10, 0x021], [10, 0x020], [10, 0x01f],
+  [10, 0x01e], [10, 0x01d], [10, 0x01c], [10, 0x01b], [10, 0x01a], [11, 0x019], [10, 0x019], [10, 0x018],
+  [10, 0x017], [10, 0x016], [10, 0x015], [10, 0x014], [10, 0x013], [11, 0x018], [10, 0x012], [10, 0x011],
+  [9, 0x052], [10, 0x010], [10, 0x00f], [11, 0x017], [10, 0x00e], [11, 0x016], [11, 0x015], [11, 0x014],
+  [11, 0x013], [11, 0x012], [11, 0x011], [11, 0x010], [11, 0x00f], [11, 0x00e], [11, 0x00d], [10, 0x00d],
+  [8, 0x03d], [9, 0x051], [11, 0x00c], [11, 0x00b], [11, 0x00a], [11, 0x009], [11, 0x008], [11, 0x007],
+  [11, 0x006], [12, 0x001], [11, 0x005], [11, 0x004], [11, 0x003], [11, 0x002], [11, 0x001], [9, 0x050],
+  [12, 0x000],
+];
+
+/** Code lookup keyed by (length << 16) | code */
+const DECODE_TABLE = new Map<number, number>(
+  HUFFMAN_TABLE.map(([length, code], symbol) => [(length << 16) | code, symbol])
+);
+
+const MAX_CODE_LENGTH = Math.max(...HUFFMAN_TABLE.map(([length]) => length));
+
+/**
+ * Decode a Huffman bit stream into `outputLength` bytes.
+ *
+ * Stops early on the EOF code. Throws FlashDecodeError if the stream runs out before
+ * `outputLength` bytes are produced or contains a code that is not in the table.
+ */
+export function huffmanDecode(input: Buffer, outputLength: number): Buffer {
+  const output = Buffer.alloc(outputLength);
+  let written = 0;
+  let code = 0;
+  let codeLength = 0;
+
+  for (let i = 0; i < input.length && written < outputLength; i++) {
+    for (let bit = 7; bit >= 0 && written < outputLength; bit--) {
+      code = (code << 1) | ((input[i] >> bit) & 1);
+      codeLength++;
+
+      const symbol = DECODE_TABLE.get((codeLength << 16) | code);
+      if (symbol === undefined) {
+        if (codeLength >= MAX_CODE_LENGTH) {
+          throw new FlashDecodeError(`Invalid Huffman code at byte ${i}`);
+        }
+        continue;
+      }
+      if (symbol === HUFFMAN_EOF) {
+        return output.subarray(0, written);
+      }
+      output[written++] = symbol;
+      code = 0;
+      codeLength = 0;
+    }
+  }
+
+  if (written < outputLength) {
+    throw new FlashDecodeError(`Huffman stream ended after ${written} of ${outputLength} bytes`);
+  }
+  return output;
+}
+
+/**
+ * Encode bytes with the fixed table, as the firmware does. No EOF code is
+ * appended — the receiver knows the decoded length from the response header.
+ */
+export function huffmanEncode(input: Buffer): Buffer {
+  let totalBits = 0;
+  for (const byte of input) {
+    totalBits += HUFFMAN_TABLE[byte][0];
+  }
+
+  const output = Buffer.alloc(Math.ceil(totalBits / 8));
+  let bitPos = 0;
+  for (const byte of input) {
+    const [length, code] = HUFFMAN_TABLE[byte];
+    for (let bit = length - 1; bit >= 0; bit--) {
+      if ((code >> bit) & 1) {
+        output[bitPos >> 3] |= 0x80 >> (bitPos & 7);
+      }
+      bitPos++;
+    }
+  }
+  return output;
+}
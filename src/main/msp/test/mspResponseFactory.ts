@@ -9,6 +9,8 @@ import type { PIDConfiguration } from '@shared/types/pid.types';
 import type { CurrentFilterSettings } from '@shared/types/analysis.types';
 import type { BlackboxInfo } from '@shared/types/blackbox.types';
 import { MSP_PROTOCOL } from '../types';
+import { crc8DvbS2 } from '../MSPProtocol';
+import { huffmanEncode } from '../huffman';
 
 // ─── Binary buffer helpers ───────────────────────────────────────────
 
@@ -108,6 +110,38 @@ export function buildMSPJumboResponse(command: number, data: Buffer | number[]):
   return frame;
 }
 
+/**
+ * Build a complete MSP v2 response frame ($X> or $X! for errors)
+ */
+export function buildMSPv2Response(
+  command: number,
+  data: Buffer | number[],
+  opts: { error?: boolean; flag?: number } = {}
+): Buffer {
+  const payload = Buffer.isBuffer(data) ? data : Buffer.from(data);
+  const size = payload.length;
+
+  const frame = Buffer.alloc(9 + size);
+  frame[0] = MSP_PROTOCOL.PREAMBLE1; // '$'
+  frame[1] = MSP_PROTOCOL.PREAMBLE2_V2; // 'X'
+  frame[2] = opts.error ? MSP_PROTOCOL.ERROR : MSP_PROTOCOL.DIRECTION_FROM_FC;
+  frame[3] = opts.flag ?? 0;
+  frame.writeUInt16LE(command, 4);
+  frame.writeUInt16LE(size, 6);
+
+  if (size > 0) {
+    payload.copy(frame, 8);
+  }
+
+  let crc = 0;
+  for (let i = 3; i < 8 + size; i++) {
+    crc = crc8DvbS2(crc, frame[i]);
+  }
+  frame[8 + size] = crc;
+
+  return frame;
+}
+
 // ─── MSP response data builders (payload only, no frame wrapper) ────
 
 /** MSP_API_VERSION (1) — 3 bytes: protocol, major, minor */
@@ -169,9 +203,9 @@ export function buildUIDData(uid: [number, number, number]): Buffer {
   return buf;
 }
 
-/** MSP_PID (112) — 30 bytes (first 9 are R/P/Y P/I/D) */
-export function buildPIDData(config: PIDConfiguration): Buffer {
-  const buf = Buffer.alloc(30, 0);
+/** MSP_PID (112) — 3 bytes per controller: roll, pitch, yaw, level, mag (BF 4.x sends 15, older firmware 30) */
+export function buildPIDData(config: PIDConfiguration, length = 30): Buffer {
+  const buf = Buffer.alloc(length, 0);
   buf[0] = config.roll.P;
   buf[1] = config.roll.I;
   buf[2] = config.roll.D;
@@ -181,12 +215,22 @@ export function buildPIDData(config: PIDConfiguration): Buffer {
   buf[6] = config.yaw.P;
   buf[7] = config.yaw.I;
   buf[8] = config.yaw.D;
+  if (config.level) {
+    buf[9] = config.level.P;
+    buf[10] = config.level.I;
+    buf[11] = config.level.D;
+  }
+  if (config.mag) {
+    buf[12] = config.mag.P;
+    buf[13] = config.mag.I;
+    buf[14] = config.mag.D;
+  }
   return buf;
 }
 
-/** MSP_FILTER_CONFIG (92) — 47+ bytes */
+/** MSP_FILTER_CONFIG (92) — 49 bytes (BF 4.3+, API 1.44) */
 export function buildFilterConfigData(settings: Partial<CurrentFilterSettings> = {}): Buffer {
-  const buf = Buffer.alloc(48, 0);
+  const buf = Buffer.alloc(49, 0);
   if (settings.dterm_lpf1_static_hz !== undefined) buf.writeUInt16LE(settings.dterm_lpf1_static_hz, 1);
   if (settings.gyro_lpf1_static_hz !== undefined) buf.writeUInt16LE(settings.gyro_lpf1_static_hz, 20);
   if (settings.gyro_lpf2_static_hz !== undefined) buf.writeUInt16LE(settings.gyro_lpf2_static_hz, 22);
@@ -195,8 +239,13 @@ export function buildFilterConfigData(settings: Partial<CurrentFilterSettings> =
   if (settings.dyn_notch_min_hz !== undefined) buf.writeUInt16LE(settings.dyn_notch_min_hz, 41);
   if (settings.rpm_filter_harmonics !== undefined) buf.writeUInt8(settings.rpm_filter_harmonics, 43);
   if (settings.rpm_filter_min_hz !== undefined) buf.writeUInt8(settings.rpm_filter_min_hz, 44);
+  if (settings.gyro_lpf1_dyn_min_hz !== undefined) buf.writeUInt16LE(settings.gyro_lpf1_dyn_min_hz, 29);
+  if (settings.gyro_lpf1_dyn_max_hz !== undefined) buf.writeUInt16LE(settings.gyro_lpf1_dyn_max_hz, 31);
+  if (settings.dterm_lpf1_dyn_min_hz !== undefined) buf.writeUInt16LE(settings.dterm_lpf1_dyn_min_hz, 33);
+  if (settings.dterm_lpf1_dyn_max_hz !== undefined) buf.writeUInt16LE(settings.dterm_lpf1_dyn_max_hz, 35);
   if (settings.dyn_notch_max_hz !== undefined) buf.writeUInt16LE(settings.dyn_notch_max_hz, 45);
-  if (settings.dyn_notch_count !== undefined) buf.writeUInt8(settings.dyn_notch_count, 47);
+  if (settings.dterm_lpf1_dyn_expo !== undefined) buf.writeUInt8(settings.dterm_lpf1_dyn_expo, 47);
+  if (settings.dyn_notch_count !== undefined) buf.writeUInt8(settings.dyn_notch_count, 48);
   return buf;
 }
 
@@ -211,6 +260,22 @@ export function buildDataflashSummaryData(info: Partial<BlackboxInfo> & { ready?
   return buf;
 }
 
+/**
+ * MSP_DATAFLASH_READ (71) — [addr u32][dataSize u16][compression u8][data].
+ * With `compressed`, data is Huffman-encoded behind a u16 decoded-length prefix, as BF 4.1+ sends it.
+ */
+export function buildDataflashReadData(address: number, flash: Buffer, opts: { compressed?: boolean } = {}): Buffer {
+  const payload = opts.compressed
+    ? Buffer.concat([Buffer.from([flash.length & 0xff, flash.length >> 8]), huffmanEncode(flash)])
+    : flash;
+  const buf = Buffer.alloc(7 + payload.length);
+  buf.writeUInt32LE(address, 0);
+  buf.writeUInt16LE(payload.length, 4);
+  buf.writeUInt8(opts.compressed ? 1 : 0, 6);
+  payload.copy(buf, 7);
+  return buf;
+}
+
 /** MSP_ADVANCED_CONFIG (90) — 8+ bytes (byte 1 = pid_process_denom) */
 export function buildAdvancedConfigData(pidProcessDenom: number, gyroSyncDenom = 1): Buffer {
   const buf = Buffer.alloc(8, 0);
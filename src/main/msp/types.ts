@@ -6,25 +6,39 @@ export enum MSPCommand {
   MSP_BUILD_INFO = 5,
   MSP_NAME = 10,
   MSP_SET_NAME = 11,
+  MSP_MIXER_CONFIG = 42,
   MSP_REBOOT = 68,
   MSP_DATAFLASH_SUMMARY = 70,
   MSP_DATAFLASH_READ = 71,
   MSP_DATAFLASH_ERASE = 72,
   MSP_SDCARD_SUMMARY = 79,
   MSP_STATUS = 101,
+  MSP_RAW_IMU = 102,
+  MSP_MOTOR = 104,
   MSP_ADVANCED_CONFIG = 90,
   MSP_FILTER_CONFIG = 92,
+  MSP_SET_FILTER_CONFIG = 93,
   MSP_PID_ADVANCED = 94,
   MSP_RC_TUNING = 111,
   MSP_PID = 112,
   MSP_STATUS_EX = 150,
   MSP_UID = 160,
   MSP_SET_PID = 202,
+  MSP_SET_RC_TUNING = 204,
   MSP_SELECT_SETTING = 210,
+  MSP_SET_MOTOR = 214,
   MSP_SET_BLACKBOX_CONFIG = 238,
   MSP_EEPROM_WRITE = 250,
+
+  // MSP v2 commands (16-bit IDs, require v2 framing)
+  MSP2_COMMON_SETTING = 0x1003,
+  MSP2_COMMON_SET_SETTING = 0x1004,
+  MSP2_SENSOR_CONFIG_ACTIVE = 0x300a,
 }
 
+/** MSP framing version: v1 (`$M`, 8-bit command, XOR checksum) or v2 (`$X`, 16-bit command, CRC8 DVB-S2) */
+export type MSPVersion = 1 | 2;
+
 export interface MSPMessage {
   command: number;
   data: Buffer;
@@ -34,15 +48,93 @@ export interface MSPResponse {
   command: number;
   data: Buffer;
   error?: boolean;
+  /** Framing version the response arrived in (undefined = v1) */
+  version?: MSPVersion;
+}
+
+export interface FlashDownloadOptions {
+  /** Flash address to start reading from (resume point or end of a previous download) */
+  startAddress?: number;
+  /**
+   * Called with each decoded chunk and its flash address, before the next read.
+   * A read the FC answered empty arrives as 0xFF filler of the requested size.
+   */
+  onChunk?: (address: number, data: Buffer) => void | Promise<void>;
 }
 
+/** Position of a CLI setting inside an MSP config payload */
+export interface MSPPayloadField {
+  offset: number;
+  /** 1 = U8, 2 = U16 (little-endian) */
+  size: 1 | 2;
+}
+
+/**
+ * Filter settings carried by MSP_FILTER_CONFIG (92), keyed by CLI name.
+ *
+ * MSP_SET_FILTER_CONFIG (93) takes the same layout back, so any setting
+ * listed here can be written without CLI. Settings not listed (e.g.
+ * rpm_filter_q) are CLI-only. Fields at offset 47+ only exist on
+ * BF 4.3+ (API 1.44) and are absent from shorter payloads.
+ */
+export const MSP_FILTER_CONFIG_FIELDS: Record<string, MSPPayloadField> = {
+  dterm_lpf1_static_hz: { offset: 1, size: 2 },
+  yaw_lowpass_hz: { offset: 3, size: 2 },
+  gyro_notch1_hz: { offset: 5, size: 2 },
+  gyro_notch1_cutoff: { offset: 7, size: 2 },
+  dterm_notch_hz: { offset: 9, size: 2 },
+  dterm_notch_cutoff: { offset: 11, size: 2 },
+  gyro_notch2_hz: { offset: 13, size: 2 },
+  gyro_notch2_cutoff: { offset: 15, size: 2 },
+  gyro_lpf1_static_hz: { offset: 20, size: 2 },
+  gyro_lpf2_static_hz: { offset: 22, size: 2 },
+  dterm_lpf2_static_hz: { offset: 26, size: 2 },
+  gyro_lpf1_dyn_min_hz: { offset: 29, size: 2 },
+  gyro_lpf1_dyn_max_hz: { offset: 31, size: 2 },
+  dterm_lpf1_dyn_min_hz: { offset: 33, size: 2 },
+  dterm_lpf1_dyn_max_hz: { offset: 35, size: 2 },
+  dyn_notch_q: { offset: 39, size: 2 },
+  dyn_notch_min_hz: { offset: 41, size: 2 },
+  rpm_filter_harmonics: { offset: 43, size: 1 },
+  rpm_filter_min_hz: { offset: 44, size: 1 },
+  dyn_notch_max_hz: { offset: 45, size: 2 },
+  dterm_lpf1_dyn_expo: { offset: 47, size: 1 },
+  dyn_notch_count: { offset: 48, size: 1 },
+};
+
+/**
+ * Rate settings carried by MSP_RC_TUNING (111), keyed by CLI name.
+ *
+ * MSP_SET_RC_TUNING (204) reads the same layout back. rates_type is the
+ * RatesType index (0 = BETAFLIGHT … 4 = QUICK) and needs BF 4.3+ (API 1.44).
+ */
+export const MSP_RC_TUNING_FIELDS: Record<string, MSPPayloadField> = {
+  roll_rc_rate: { offset: 0, size: 1 },
+  roll_expo: { offset: 1, size: 1 },
+  roll_srate: { offset: 2, size: 1 },
+  pitch_srate: { offset: 3, size: 1 },
+  yaw_srate: { offset: 4, size: 1 },
+  yaw_expo: { offset: 10, size: 1 },
+  yaw_rc_rate: { offset: 11, size: 1 },
+  pitch_rc_rate: { offset: 12, size: 1 },
+  pitch_expo: { offset: 13, size: 1 },
+  roll_rate_limit: { offset: 16, size: 2 },
+  pitch_rate_limit: { offset: 18, size: 2 },
+  yaw_rate_limit: { offset: 20, size: 2 },
+  rates_type: { offset: 22, size: 1 },
+};
+
 export const MSP_PROTOCOL = {
   PREAMBLE1: 0x24, // '$'
   PREAMBLE2: 0x4d, // 'M'
+  PREAMBLE2_V2: 0x58, // 'X'
   DIRECTION_TO_FC: 0x3c, // '<'
   DIRECTION_FROM_FC: 0x3e, // '>'
   ERROR: 0x21, // '!'
   JUMBO_FRAME_MIN_SIZE: 0xff, // 255 - use jumbo frames for larger payloads
   MAX_PAYLOAD_SIZE: 256, // MSP v1 limit
   MAX_JUMBO_PAYLOAD_SIZE: 8192, // MSP v2 jumbo frame limit
+  MAX_V1_COMMAND: 0xff, // v1 command IDs are a single byte
+  MAX_V2_PAYLOAD_SIZE: 0xffff, // v2 size field is 16-bit
+  V2_OVERHEAD: 9, // $X< + flag + cmd(2) + size(2) + crc
 } as const;
@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { gunzipSync, gzipSync } from 'zlib';
+
+// BlackboxManager reads userData when constructed — point it at the install being built
+let userDataDir: string;
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userDataDir },
+}));
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { AppBackupManager } from './AppBackupManager';
+import { tarStream } from './tarArchive';
+import { ProfileManager } from './ProfileManager';
+import { SnapshotManager } from './SnapshotManager';
+import { BlackboxManager } from './BlackboxManager';
+import { TuningSessionManager } from './TuningSessionManager';
+import { TuningHistoryManager } from './TuningHistoryManager';
+import type { MSPClient } from '../msp/MSPClient';
+import type { ConfigurationSnapshot } from '@shared/types/common.types';
+import { TUNING_PHASE } from '@shared/constants';
+
+const fcInfo = {
+  variant: 'BTFL',
+  version: '4.5.1',
+  target: 'STM32F7X2',
+  boardName: 'SPEEDYBEEF7V3',
+  apiVersion: { protocol: 0, major: 1, minor: 46 },
+};
+
+async function createInstall(dir: string) {
+  userDataDir = dir;
+  const data = join(dir, 'data');
+  const profileManager = new ProfileManager(join(data, 'profiles'));
+  const snapshotManager = new SnapshotManager(join(data, 'snapshots'), {} as MSPClient);
+  const blackboxManager = new BlackboxManager();
+  const tuningSessionManager = new TuningSessionManager(data);
+  const tuningHistoryManager = new TuningHistoryManager(data);
+  await profileManager.initialize();
+  await snapshotManager.initialize();
+  await blackboxManager.initialize();
+  await tuningSessionManager.initialize();
+  await tuningHistoryManager.initialize();
+  snapshotManager.setProfileManager(profileManager);
+
+  const managers = {
+    profileManager,
+    snapshotManager,
+    blackboxManager,
+    tuningSessionManager,
+    tuningHistoryManager,
+  };
+  return { ...managers, backup: new AppBackupManager(dir, managers) };
+}
+
+function makeSnapshot(id: string, cliDiff: string): ConfigurationSnapshot {
+  return {
+    id,
+    timestamp: '2026-03-01T10:00:00.000Z',
+    label: `Snapshot ${id}`,
+    type: 'manual',
+    fcInfo,
+    configuration: { cliDiff },
+    metadata: { appVersion: '1.0.0', createdBy: 'user' },
+  } as ConfigurationSnapshot;
+}
+
+function profileInput(serial: string, name: string) {
+  return {
+    fcSerialNumber: serial,
+    fcInfo,
+    name,
+    size: '5"' as const,
+    battery: '6S' as const,
+    weight: 650,
+    flightStyle: 'balanced' as const,
+  };
+}
+
+describe('AppBackupManager', () => {
+  let baseDir: string;
+  let source: Awaited<ReturnType<typeof createInstall>>;
+  let profileId: string;
+  let logId: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(join(tmpdir(), 'app-backup-test-'));
+    source = await createInstall(join(baseDir, 'laptop-a'));
+
+    const profile = await source.profileManager.createProfile(profileInput('SN-A', 'Freestyle'));
+    profileId = profile.id;
+    await source.snapshotManager.saveImportedSnapshot(makeSnapshot('snap-1', 'set p_roll = 45'));
+    await source.profileManager.linkSnapshot(profileId, 'snap-1', true);
+
+    const log = await source.blackboxManager.saveLog(
+      Buffer.from('H Product:Blackbox flight data recorder'),
+      profileId,
+      'SN-A',
+      fcInfo
+    );
+    logId = log.id;
+
+    await source.tuningSessionManager.createSession(profileId);
+    const session = await source.tuningSessionManager.updatePhase(
+      profileId,
+      TUNING_PHASE.COMPLETED,
+      {
+        baselineSnapshotId: 'snap-1',
+        filterLogId: logId,
+      }
+    );
+    await source.tuningHistoryManager.archiveSession(session);
+    await fs.writeFile(join(source.backup['userDataPath'], 'license.json'), '{"key":"x"}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('restores everything into an empty install through a backup file', async () => {
+    const file = join(baseDir, 'all.fpvbackup');
+    await source.backup.exportToFile(file);
+    const target = await createInstall(join(baseDir, 'laptop-b'));
+
+    const result = await target.backup.importFromFile(file);
+
+    expect(result).toMatchObject({
+      profilesAdded: 1,
+      profilesMerged: 0,
+      snapshotsAdded: 1,
+      logsAdded: 1,
+      sessionsAdded: 1,
+      historyRecordsAdded: 1,
+      skipped: 0,
+      reassignedIds: 0,
+      appFilesRestored: ['license.json'],
+    });
+    const profile = await target.profileManager.getProfile(profileId);
+    expect(profile).toMatchObject({ name: 'Freestyle', baselineSnapshotId: 'snap-1' });
+    const [log] = await target.blackboxManager.listLogs(profileId);
+    expect(log.filepath.startsWith(join(baseDir, 'laptop-b'))).toBe(true);
+    expect((await fs.readFile(log.filepath)).toString()).toContain('Blackbox flight data');
+    expect((await target.tuningHistoryManager.getHistory(profileId))[0].filterLogId).toBe(logId);
+  });
+
+  it('skips what is already there when the same archive is imported twice', async () => {
+    const file = join(baseDir, 'all.fpvbackup');
+    await source.backup.exportToFile(file);
+    const target = await createInstall(join(baseDir, 'laptop-b'));
+    await target.backup.importFromFile(file);
+    await target.tuningSessionManager.deleteSession(profileId);
+
+    const result = await target.backup.importFromFile(file);
+
+    expect(result).toMatchObject({
+      profilesAdded: 0,
+      profilesMerged: 1,
+      snapshotsAdded: 0,
+      logsAdded: 0,
+      historyRecordsAdded: 0,
+      skipped: 3,
+    });
+    expect(await target.blackboxManager.listAllLogs()).toHaveLength(1);
+  });
+
+  it('merges into the local profile of the same FC and renumbers clashing IDs', async () => {
+    const file = join(baseDir, 'freestyle.fpvbackup');
+    await source.backup.exportToFile(file, { profileId });
+    const target = await createInstall(join(baseDir, 'laptop-b'));
+    const local = await target.profileManager.createProfile(profileInput('SN-A', 'My quad'));
+    // A different snapshot that happens to use the same ID
+    await target.snapshotManager.saveImportedSnapshot(makeSnapshot('snap-1', 'set p_roll = 60'));
+    await target.tuningSessionManager.createSession(local.id);
+
+    const result = await target.backup.importFromFile(file);
+
+    expect(result).toMatchObject({ profilesMerged: 1, snapshotsAdded: 1, reassignedIds: 1 });
+    expect(result.conflicts).toEqual(['Kept the tuning session already in progress for Freestyle']);
+    expect(result.appFilesRestored).toEqual([]);
+
+    const merged = await target.profileManager.getProfile(local.id);
+    expect(merged?.name).toBe('My quad');
+    const newId = merged!.snapshotIds[0];
+    expect(newId).not.toBe('snap-1');
+    expect((await target.snapshotManager.loadSnapshot(newId)).configuration.cliDiff).toBe(
+      'set p_roll = 45'
+    );
+    expect((await target.snapshotManager.loadSnapshot('snap-1')).configuration.cliDiff).toBe(
+      'set p_roll = 60'
+    );
+
+    const [record] = await target.tuningHistoryManager.getHistory(local.id);
+    expect(record).toMatchObject({ profileId: local.id, baselineSnapshotId: newId });
+    expect((await target.blackboxManager.listLogs(local.id))[0].id).toBe(logId);
+  });
+
+  it('refuses to add profiles beyond the limit', async () => {
+    const file = join(baseDir, 'all.fpvbackup');
+    await source.backup.exportToFile(file);
+    const target = await createInstall(join(baseDir, 'laptop-b'));
+    await target.profileManager.createProfile(profileInput('SN-B', 'Whoop'));
+
+    await expect(target.backup.importFromFile(file, { profileLimit: 1 })).rejects.toThrow(
+      'Free version supports 1 profile'
+    );
+    expect(await target.snapshotManager.listAllSnapshotIds()).toEqual([]);
+  });
+
+  async function writeManifestOnly(file: string, manifest: object): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of tarStream([
+      { name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest)) },
+    ])) {
+      chunks.push(chunk);
+    }
+    await fs.writeFile(file, gzipSync(Buffer.concat(chunks)));
+  }
+
+  it('rejects files that are not backups or come from a newer version', async () => {
+    const notBackup = join(baseDir, 'notes.txt');
+    await fs.writeFile(notBackup, 'set p_roll = 45');
+    const newer = join(baseDir, 'newer.fpvbackup');
+    await writeManifestOnly(newer, {
+      format: 'fpvpidlab-backup',
+      version: 99,
+      appVersion: '9.0.0',
+    });
+
+    await expect(source.backup.importFromFile(notBackup)).rejects.toThrow(
+      'Not an FPVPIDlab backup file'
+    );
+    await expect(source.backup.importFromFile(newer)).rejects.toThrow(
+      'made by FPVPIDlab 9.0.0 — update the app'
+    );
+  });
+
+  it('rejects an archive with an older layout version', async () => {
+    const older = join(baseDir, 'older.fpvbackup');
+    await writeManifestOnly(older, { format: 'fpvpidlab-backup', version: 1, appVersion: '1.0.0' });
+
+    await expect(source.backup.importFromFile(older)).rejects.toThrow(
+      'Backup layout version 1 is not supported'
+    );
+  });
+
+  it('stores each log as its own archive entry next to a JSON manifest', async () => {
+    const file = join(baseDir, 'all.fpvbackup');
+    await source.backup.exportToFile(file);
+
+    const tar = gunzipSync(await fs.readFile(file));
+    const manifest = JSON.parse(
+      tar.subarray(512, 512 + parseInt(tar.toString('latin1', 124, 135), 8)).toString()
+    );
+    expect(tar.toString('latin1', 0, 13)).toBe('manifest.json');
+    expect(manifest.blackboxLogs[0]).not.toHaveProperty('data');
+    expect(tar.includes(`logs/${logId}`)).toBe(true);
+    expect(tar.includes('app/license.json')).toBe(true);
+  });
+
+  it('rejects a gzipped manifest that is not inside a tar archive', async () => {
+    const bare = join(baseDir, 'bare.fpvbackup');
+    await fs.writeFile(
+      bare,
+      gzipSync(
+        JSON.stringify({
+          format: 'fpvpidlab-backup',
+          version: 1,
+          createdAt: '2026-03-01T10:00:00.000Z',
+          appVersion: '1.0.0',
+          profiles: [await source.profileManager.getProfile(profileId)],
+          snapshots: [],
+          blackboxLogs: [],
+          tuningSessions: [],
+          tuningHistory: [],
+          appFiles: [],
+        })
+      )
+    );
+
+    await expect(source.backup.importFromFile(bare)).rejects.toThrow(
+      'Not an FPVPIDlab backup file'
+    );
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * AppBackupManager
+ *
+ * Backup archives of the whole app — or one profile — for moving an install
+ * to another computer: profiles, snapshots, Blackbox logs, tuning sessions and
+ * tuning history in a gzipped tar. A JSON manifest entry holds the metadata;
+ * each Blackbox log and app file is its own entry, streamed to and from disk
+ * so that large log collections are never held in memory.
+ *
+ * Import merges into the existing data rather than replacing it:
+ * - A profile matching a local one by ID or FC serial is merged into it (the
+ *   local profile's settings win; its snapshots, logs and history grow)
+ * - Items already present with the same ID and content are skipped
+ * - Items whose ID is taken by something different get a new ID, and every
+ *   reference to them (profile links, sessions, history) is rewritten
+ */
+
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { v4 as uuidv4 } from 'uuid';
+import type { DroneProfile } from '@shared/types/profile.types';
+import type { ConfigurationSnapshot } from '@shared/types/common.types';
+import type { BlackboxLogMetadata } from '@shared/types/blackbox.types';
+import type { TuningSession } from '@shared/types/tuning.types';
+import type { CompletedTuningRecord } from '@shared/types/tuning-history.types';
+import type { AppBackupExportOptions, AppBackupImportResult } from '@shared/types/backup.types';
+import { APP_BACKUP, APP_VERSION } from '@shared/constants';
+import { BackupError, ProfileLimitError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import type { ProfileManager } from './ProfileManager';
+import type { SnapshotManager } from './SnapshotManager';
+import type { BlackboxManager } from './BlackboxManager';
+import type { TuningSessionManager } from './TuningSessionManager';
+import type { TuningHistoryManager } from './TuningHistoryManager';
+import { extractTar, tarStream, type TarEntrySource } from './tarArchive';
+
+/** Archive entries: the manifest first, then one per log and app file */
+const MANIFEST_ENTRY = 'manifest.json';
+const logEntry = (id: string) => `logs/${id}`;
+const appFileEntry = (name: string) => `app/${name}`;
+const ENTRY_PATTERN = /^(manifest\.json|logs\/[\w-]+|app\/[\w-]+\.json)$/;
+
+/** Snapshot and log references in tuning sessions and history records */
+const SNAPSHOT_REF_FIELDS = [
+  'baselineSnapshotId',
+  'postFilterSnapshotId',
+  'postTuningSnapshotId',
+] as const;
+const LOG_REF_FIELDS = ['filterLogId', 'pidLogId', 'quickLogId', 'verificationLogId'] as const;
+
+export interface AppBackupManifest {
+  format: typeof APP_BACKUP.FORMAT;
+  /** Layout version, see APP_BACKUP.VERSION */
+  version: number;
+  createdAt: string;
+  appVersion: string;
+  /** Set when the archive holds a single profile */
+  profileId?: string;
+  profiles: DroneProfile[];
+  snapshots: ConfigurationSnapshot[];
+  /** Each log's file is the `logs/<id>` entry */
+  blackboxLogs: BlackboxLogMetadata[];
+  tuningSessions: TuningSession[];
+  tuningHistory: CompletedTuningRecord[];
+  /** APP_BACKUP.APP_FILES present as `app/<name>` entries (whole-app exports only) */
+  appFiles: string[];
+}
+
+export interface AppBackupSources {
+  profileManager: ProfileManager;
+  snapshotManager: SnapshotManager;
+  blackboxManager: BlackboxManager;
+  tuningSessionManager: TuningSessionManager;
+  tuningHistoryManager: TuningHistoryManager;
+}
+
+export interface AppBackupImportOptions {
+  /** Most profiles the install may have afterwards (free license) */
+  profileLimit?: number;
+}
+
+export class AppBackupManager {
+  constructor(
+    private userDataPath: string,
+    private sources: AppBackupSources
+  ) {}
+
+  /**
+   * Collect the metadata of everything (or one profile's data) for an archive.
+   * Logs whose file is gone and app files this install lacks are left out.
+   *
+   * @throws BackupError if the requested profile does not exist
+   */
+  async createManifest(options: AppBackupExportOptions = {}): Promise<AppBackupManifest> {
+    const { profileManager, snapshotManager, blackboxManager } = this.sources;
+    const { tuningSessionManager, tuningHistoryManager } = this.sources;
+
+    let profiles: DroneProfile[];
+    let snapshotIds: string[];
+    if (options.profileId) {
+      const profile = await profileManager.getProfile(options.profileId);
+      if (!profile) {
+        throw new BackupError(`Profile ${options.profileId} not found`);
+      }
+      profiles = [profile];
+      snapshotIds = profile.snapshotIds;
+    } else {
+      const list = await profileManager.listProfiles();
+      const loaded = await Promise.all(list.map((p) => profileManager.getProfile(p.id)));
+      profiles = loaded.filter((p): p is DroneProfile => p !== null);
+      snapshotIds = await snapshotManager.listAllSnapshotIds();
+    }
+
+    const snapshots: ConfigurationSnapshot[] = [];
+    for (const id of snapshotIds) {
+      try {
+        snapshots.push(await snapshotManager.loadSnapshot(id));
+      } catch (error) {
+        logger.warn(`Backup: skipping unreadable snapshot ${id}`, error);
+      }
+    }
+
+    const logs = options.profileId
+      ? await blackboxManager.listLogs(options.profileId)
+      : await blackboxManager.listAllLogs();
+    const blackboxLogs: BlackboxLogMetadata[] = [];
+    for (const metadata of logs) {
+      try {
+        const { size } = await fs.stat(metadata.filepath);
+        blackboxLogs.push({ ...metadata, size });
+      } catch (error) {
+        logger.warn(`Backup: skipping missing Blackbox log file ${metadata.filename}`, error);
+      }
+    }
+
+    const tuningSessions: TuningSession[] = [];
+    const tuningHistory: CompletedTuningRecord[] = [];
+    for (const profile of profiles) {
+      const session = await tuningSessionManager.getSession(profile.id);
+      if (session) tuningSessions.push(session);
+      tuningHistory.push(...(await tuningHistoryManager.getHistory(profile.id)).reverse());
+    }
+
+    const appFiles: string[] = [];
+    if (!options.profileId) {
+      for (const name of APP_BACKUP.APP_FILES) {
+        try {
+          await fs.access(join(this.userDataPath, name));
+          appFiles.push(name);
+        } catch {
+          // Not created on this install (no license, telemetry never initialized)
+        }
+      }
+    }
+
+    return {
+      format: APP_BACKUP.FORMAT,
+      version: APP_BACKUP.VERSION,
+      createdAt: new Date().toISOString(),
+      appVersion: APP_VERSION,
+      ...(options.profileId && { profileId: options.profileId }),
+      profiles,
+      snapshots,
+      blackboxLogs,
+      tuningSessions,
+      tuningHistory,
+      appFiles,
+    };
+  }
+
+  async exportToFile(filePath: string, options: AppBackupExportOptions = {}): Promise<void> {
+    const manifest = await this.createManifest(options);
+    const entries: TarEntrySource[] = [
+      { name: MANIFEST_ENTRY, data: Buffer.from(JSON.stringify(manifest)) },
+      ...manifest.blackboxLogs.map((log) => ({
+        name: logEntry(log.id),
+        path: log.filepath,
+        size: log.size,
+      })),
+    ];
+    for (const name of manifest.appFiles) {
+      entries.push({
+        name: appFileEntry(name),
+        data: await fs.readFile(join(this.userDataPath, name)),
+      });
+    }
+
+    await pipeline(tarStream(entries), createGzip(), createWriteStream(filePath));
+    logger.info(
+      `Backup exported to ${filePath}: ${manifest.profiles.length} profiles, ` +
+        `${manifest.snapshots.length} snapshots, ${manifest.blackboxLogs.length} logs`
+    );
+  }
+
+  /**
+   * Unpack and check an archive file: entries go to `extractDir`, the
+   * manifest is returned.
+   *
+   * @throws BackupError if the file is not an archive or its layout version isn't this one
+   */
+  async readArchive(filePath: string, extractDir: string): Promise<AppBackupManifest> {
+    let manifest: any;
+    try {
+      const extracted = await extractTar(gunzipFile(filePath), extractDir, (name) =>
+        ENTRY_PATTERN.test(name)
+      );
+      if (!extracted.has(MANIFEST_ENTRY)) throw new Error('No manifest');
+      manifest = JSON.parse(await fs.readFile(join(extractDir, MANIFEST_ENTRY), 'utf-8'));
+    } catch (error) {
+      throw new BackupError('Not an FPVPIDlab backup file', error);
+    }
+
+    if (manifest?.format !== APP_BACKUP.FORMAT || typeof manifest.version !== 'number') {
+      throw new BackupError('Not an FPVPIDlab backup file');
+    }
+    if (manifest.version > APP_BACKUP.VERSION) {
+      throw new BackupError(
+        `This backup was made by FPVPIDlab ${manifest.appVersion} — update the app to import it`
+      );
+    }
+    if (manifest.version !== APP_BACKUP.VERSION) {
+      throw new BackupError(`Backup layout version ${manifest.version} is not supported`);
+    }
+    return manifest as AppBackupManifest;
+  }
+
+  async importFromFile(
+    filePath: string,
+    options: AppBackupImportOptions = {}
+  ): Promise<AppBackupImportResult> {
+    const extractDir = await fs.mkdtemp(join(tmpdir(), 'fpvpidlab-backup-'));
+    try {
+      const manifest = await this.readArchive(filePath, extractDir);
+      return await this.importArchive(manifest, extractDir, options);
+    } finally {
+      await fs.rm(extractDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Merge an unpacked archive into this install.
+   *
+   * @throws ProfileLimitError if the new profiles would exceed options.profileLimit
+   */
+  async importArchive(
+    archive: AppBackupManifest,
+    extractDir: string,
+    options: AppBackupImportOptions = {}
+  ): Promise<AppBackupImportResult> {
+    const { profileManager, snapshotManager, blackboxManager } = this.sources;
+    const { tuningSessionManager, tuningHistoryManager } = this.sources;
+    const result: AppBackupImportResult = {
+      profilesAdded: 0,
+      profilesMerged: 0,
+      snapshotsAdded: 0,
+      logsAdded: 0,
+      sessionsAdded: 0,
+      historyRecordsAdded: 0,
+      skipped: 0,
+      reassignedIds: 0,
+      appFilesRestored: [],
+      conflicts: [],
+    };
+
+    // Archive profile ID → local profile it merges into (or itself when new)
+    const localProfiles = await profileManager.listProfiles();
+    const profileIds = new Map<string, string>();
+    const newProfiles: DroneProfile[] = [];
+    for (const profile of archive.profiles) {
+      const match =
+        localProfiles.find((p) => p.id === profile.id) ??
+        localProfiles.find((p) => p.fcSerialNumber === profile.fcSerialNumber);
+      if (match) {
+        profileIds.set(profile.id, match.id);
+      } else {
+        profileIds.set(profile.id, profile.id);
+        newProfiles.push(profile);
+      }
+    }
+
+    if (
+      options.profileLimit !== undefined &&
+      newProfiles.length > 0 &&
+      localProfiles.length + newProfiles.length > options.profileLimit
+    ) {
+      throw new ProfileLimitError();
+    }
+
+    // Snapshots: new ID when a different snapshot already has this one's ID
+    const snapshotIds = new Map<string, string>();
+    const snapshotsToSave: ConfigurationSnapshot[] = [];
+    for (const snapshot of archive.snapshots) {
+      if (await snapshotManager.snapshotExists(snapshot.id)) {
+        const local = await snapshotManager.loadSnapshot(snapshot.id);
+        if (isSameSnapshot(local, snapshot)) {
+          snapshotIds.set(snapshot.id, snapshot.id);
+          result.skipped++;
+          continue;
+        }
+        const id = uuidv4();
+        snapshotIds.set(snapshot.id, id);
+        snapshotsToSave.push({ ...snapshot, id });
+        result.reassignedIds++;
+      } else {
+        snapshotIds.set(snapshot.id, snapshot.id);
+        snapshotsToSave.push(snapshot);
+      }
+    }
+    for (const snapshot of snapshotsToSave) {
+      await snapshotManager.saveImportedSnapshot(snapshot);
+      result.snapshotsAdded++;
+    }
+
+    for (const profile of archive.profiles) {
+      const localId = profileIds.get(profile.id)!;
+      const linkedIds = remapIds(profile.snapshotIds, snapshotIds);
+      const baselineId = profile.baselineSnapshotId
+        ? (snapshotIds.get(profile.baselineSnapshotId) ?? profile.baselineSnapshotId)
+        : undefined;
+
+      if (newProfiles.includes(profile)) {
+        await profileManager.saveImportedProfile({
+          ...profile,
+          snapshotIds: linkedIds,
+          baselineSnapshotId: baselineId,
+        });
+        result.profilesAdded++;
+        continue;
+      }
+
+      const local = await profileManager.getProfile(localId);
+      if (!local) continue;
+      for (const id of linkedIds) {
+        if (local.snapshotIds.includes(id)) continue;
+        await profileManager.linkSnapshot(
+          localId,
+          id,
+          !local.baselineSnapshotId && id === baselineId
+        );
+      }
+      result.profilesMerged++;
+    }
+
+    // Logs: same rule as snapshots
+    const logIds = new Map<string, string>();
+    const localLogs = await blackboxManager.listAllLogs();
+    for (const metadata of archive.blackboxLogs) {
+      const source = join(extractDir, logEntry(metadata.id));
+      if (!ENTRY_PATTERN.test(logEntry(metadata.id)) || !(await fileExists(source))) {
+        logger.warn(`Backup: log ${metadata.filename} has no file in the archive, skipped`);
+        continue;
+      }
+      const local = localLogs.find((log) => log.id === metadata.id);
+      if (local && local.timestamp === metadata.timestamp && local.size === metadata.size) {
+        logIds.set(metadata.id, metadata.id);
+        result.skipped++;
+        continue;
+      }
+      const id = local ? uuidv4() : metadata.id;
+      if (local) result.reassignedIds++;
+      logIds.set(metadata.id, id);
+      await blackboxManager.importLog(
+        { ...metadata, id, profileId: profileIds.get(metadata.profileId) ?? metadata.profileId },
+        source
+      );
+      result.logsAdded++;
+    }
+
+    // Sessions: a session in progress here is never overwritten
+    for (const session of archive.tuningSessions) {
+      const profileId = profileIds.get(session.profileId) ?? session.profileId;
+      if (await tuningSessionManager.getSession(profileId)) {
+        const name = archive.profiles.find((p) => p.id === session.profileId)?.name ?? profileId;
+        result.conflicts.push(`Kept the tuning session already in progress for ${name}`);
+        continue;
+      }
+      await tuningSessionManager.importSession(
+        remapRefs({ ...session, profileId }, snapshotIds, logIds)
+      );
+      result.sessionsAdded++;
+    }
+
+    const historyByProfile = new Map<string, CompletedTuningRecord[]>();
+    for (const record of archive.tuningHistory) {
+      const profileId = profileIds.get(record.profileId) ?? record.profileId;
+      const records = historyByProfile.get(profileId) ?? [];
+      records.push(remapRefs(record, snapshotIds, logIds));
+      historyByProfile.set(profileId, records);
+    }
+    for (const [profileId, records] of historyByProfile) {
+      const added = await tuningHistoryManager.importRecords(profileId, records);
+      result.historyRecordsAdded += added;
+      result.skipped += records.length - added;
+    }
+
+    // App files only fill in what this install doesn't have yet
+    for (const name of archive.appFiles ?? []) {
+      if (!(APP_BACKUP.APP_FILES as readonly string[]).includes(name)) continue;
+      const source = join(extractDir, appFileEntry(name));
+      if (!(await fileExists(source))) continue;
+      const filePath = join(this.userDataPath, name);
+      if (await fileExists(filePath)) {
+        result.conflicts.push(`Kept this computer's ${name}`);
+      } else {
+        await fs.copyFile(source, filePath);
+        result.appFilesRestored.push(name);
+      }
+    }
+
+    logger.info(
+      `Backup imported: ${result.profilesAdded} profiles added, ${result.profilesMerged} merged, ` +
+        `${result.snapshotsAdded} snapshots, ${result.logsAdded} logs, ` +
+        `${result.historyRecordsAdded} history records, ${result.skipped} skipped`
+    );
+    return result;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Decompressed contents of a file; read errors surface on the returned stream */
+function gunzipFile(filePath: string): Readable {
+  const gunzip = createGunzip();
+  return createReadStream(filePath)
+    .on('error', (error) => gunzip.destroy(error))
+    .pipe(gunzip);
+}
+
+function isSameSnapshot(a: ConfigurationSnapshot, b: ConfigurationSnapshot): boolean {
+  return a.timestamp === b.timestamp && a.configuration.cliDiff === b.configuration.cliDiff;
+}
+
+function remapIds(ids: string[], map: Map<string, string>): string[] {
+  return ids.map((id) => map.get(id) ?? id);
+}
+
+/** Point a session's or record's snapshot/log references at their imported IDs */
+function remapRefs<T extends TuningSession | CompletedTuningRecord>(
+  item: T,
+  snapshotIds: Map<string, string>,
+  logIds: Map<string, string>
+): T {
+  const remapped: Record<string, unknown> = { ...item };
+  for (const field of SNAPSHOT_REF_FIELDS) {
+    const id = remapped[field];
+    if (typeof id === 'string') remapped[field] = snapshotIds.get(id) ?? id;
+  }
+  for (const field of LOG_REF_FIELDS) {
+    const id = remapped[field];
+    if (typeof id === 'string') remapped[field] = logIds.get(id) ?? id;
+  }
+  return remapped as T;
+}
@@ -20,9 +20,35 @@ vi.mock('../utils/logger', () => ({
 }));
 
 import { BlackboxManager } from './BlackboxManager';
+import { BlackboxParser } from '../blackbox/BlackboxParser';
+import { BlackboxWriter } from '../blackbox/BlackboxWriter';
+import { buildReferenceFixture } from '../blackbox/fixtures/bf45-reference';
+import { buildGoldenSet } from '../blackbox/fixtures/golden';
 
 const mockFCInfo = { variant: 'BTFL', version: '4.5.1', target: 'STM32F7X2' };
 
+/** A PX4 ULog with one second of 1 kHz gyro */
+function buildULog(): Buffer {
+  const message = (type: string, payload: Buffer) => {
+    const header = Buffer.alloc(3);
+    header.writeUInt16LE(payload.length);
+    header.write(type, 2, 'latin1');
+    return Buffer.concat([header, payload]);
+  };
+  const parts = [
+    Buffer.from([0x55, 0x4c, 0x6f, 0x67, 0x01, 0x12, 0x35, 0x01, 0, 0, 0, 0, 0, 0, 0, 0]),
+    message('F', Buffer.from('sensor_gyro:uint64_t timestamp;float x;float y;float z;')),
+    message('A', Buffer.concat([Buffer.from([0, 0, 0]), Buffer.from('sensor_gyro')])),
+  ];
+  for (let k = 0; k < 1000; k++) {
+    const sample = Buffer.alloc(22);
+    sample.writeBigUInt64LE(BigInt(1_000_000 + k * 1000), 2);
+    sample.writeFloatLE(Math.sin(k / 10), 10);
+    parts.push(message('D', sample));
+  }
+  return Buffer.concat(parts);
+}
+
 describe('BlackboxManager', () => {
   let manager: BlackboxManager;
   let logsDir: string;
@@ -81,6 +107,15 @@ describe('BlackboxManager', () => {
     expect(fileContent[0]).toBe(0x42);
   });
 
+  it('marks compressed downloads as decoded, not as unusable', async () => {
+    const meta = await manager.saveLog(Buffer.from('H Product'), 'p1', 'sn1', mockFCInfo, {
+      compressionDetected: true,
+    });
+
+    expect(meta.huffmanDecoded).toBe(true);
+    expect(meta.compressionDetected).toBeUndefined();
+  });
+
   it('generates unique filenames for concurrent saves', async () => {
     const data = Buffer.from('log');
     const [m1, m2] = await Promise.all([
@@ -189,4 +224,184 @@ describe('BlackboxManager', () => {
   it('throws for non-existent log on export', async () => {
     await expect(manager.exportLog('ghost', '/tmp/out.bbl')).rejects.toThrow('not found');
   });
+
+  // ─── flash downloads ─────────────────────────────────────────
+
+  it('stores flashRange and finds the newest flash download per FC', async () => {
+    await manager.saveLog(Buffer.from('a'), 'p1', 'sn1', mockFCInfo, {
+      flashRange: { start: 0, end: 100 },
+    });
+    const second = await manager.saveLog(Buffer.from('b'), 'p1', 'sn1', mockFCInfo, {
+      flashRange: { start: 100, end: 250 },
+    });
+    await manager.saveLog(Buffer.from('c'), 'p1', 'sn2', mockFCInfo, {
+      flashRange: { start: 0, end: 900 },
+    });
+    await manager.saveLog(Buffer.from('d'), 'p1', 'sn1', mockFCInfo);
+
+    const last = await manager.getLastFlashDownload('sn1');
+    expect(last?.id).toBe(second.id);
+    expect(last?.flashRange).toEqual({ start: 100, end: 250 });
+    expect(await manager.getLastFlashDownload('sn-none')).toBeNull();
+  });
+
+  it('accumulates, loads and clears a partial download', async () => {
+    expect((await manager.loadPartialDownload('sn1', 0, 500)).length).toBe(0);
+
+    await manager.appendPartialDownload('sn1', 0, 500, Buffer.from('abc'));
+    await manager.appendPartialDownload('sn1', 0, 500, Buffer.from('def'));
+    expect((await manager.loadPartialDownload('sn1', 0, 500)).toString()).toBe('abcdef');
+
+    await manager.clearPartialDownload('sn1', 0, 500);
+    expect((await manager.loadPartialDownload('sn1', 0, 500)).length).toBe(0);
+  });
+
+  it('discards partial downloads of flash contents that have changed', async () => {
+    await manager.appendPartialDownload('sn1', 0, 500, Buffer.from('old'));
+    await manager.appendPartialDownload('sn2', 0, 500, Buffer.from('other FC'));
+
+    // usedSize grew — the old partial no longer matches
+    expect((await manager.loadPartialDownload('sn1', 0, 800)).length).toBe(0);
+    expect((await manager.loadPartialDownload('sn1', 0, 500)).length).toBe(0);
+    expect((await manager.loadPartialDownload('sn2', 0, 500)).toString()).toBe('other FC');
+  });
+
+  it('trims a session to a time range as a new log of the same profile', async () => {
+    const source = await manager.saveLog(buildReferenceFixture(), 'p1', 'sn1', mockFCInfo);
+
+    const trimmed = await manager.trimLog(source.id, 0, 0.05, 0.1);
+
+    expect(trimmed).toMatchObject({
+      profileId: 'p1',
+      fcSerial: 'sn1',
+      fcInfo: mockFCInfo,
+      derivedFrom: { logId: source.id, sessionIndex: 0, startSeconds: 0.05, endSeconds: 0.1 },
+    });
+    expect(trimmed.filename).toBe(source.filename.replace('.bbl', '_s1_0.05-0.1s.bbl'));
+    expect(trimmed.size).toBeLessThan(source.size);
+
+    const result = await BlackboxParser.parse(await fs.readFile(trimmed.filepath));
+    expect(result.sessions).toHaveLength(1);
+    const time = result.sessions[0].flightData.gyro[0].time;
+    expect(time.length).toBe(13);
+    expect(time[0]).toBeCloseTo(0.052, 6);
+    expect(time[time.length - 1]).toBeCloseTo(0.1, 6);
+    expect(result.sessions[0].events.at(-1)?.type).toBe('log_end');
+    expect((await manager.listLogs('p1')).map((l) => l.id)).toEqual([source.id, trimmed.id]);
+
+    // The header and frames as logged, closed with a LOG_END event
+    const fixture = buildReferenceFixture();
+    const bytes = await fs.readFile(trimmed.filepath);
+    const logEnd = BlackboxWriter.logEndFrame();
+    const headerLength = fixture.indexOf('\nI') + 1;
+    expect(bytes.subarray(0, headerLength).equals(fixture.subarray(0, headerLength))).toBe(true);
+    expect(fixture.indexOf(bytes.subarray(headerLength, -logEnd.length))).toBeGreaterThan(headerLength);
+    expect(bytes.subarray(-logEnd.length).equals(logEnd)).toBe(true);
+  });
+
+  it('starts a trim at the first I-frame at or after the start time', async () => {
+    const bbl = buildGoldenSet().find((f) => f.name === 'bf45.bbl')!.data;
+    const source = await manager.saveLog(bbl, 'p1', 'sn1', mockFCInfo);
+    const original = (await BlackboxParser.parse(bbl)).sessions[0].flightData;
+
+    // Frames are 125 µs apart with an I-frame every 32, so 1 ms falls on a P-frame
+    const trimmed = await manager.trimLog(source.id, 0, 0.001, 0.0059);
+
+    const { flightData } = (await BlackboxParser.parse(await fs.readFile(trimmed.filepath))).sessions[0];
+    expect(flightData.frameCount).toBe(16);
+    expect(flightData.gyro[0].time[0]).toBe(original.gyro[0].time[32]);
+    expect(Array.from(flightData.gyro[1].values)).toEqual(Array.from(original.gyro[1].values.slice(32, 48)));
+    expect(Array.from(flightData.motor[3].values)).toEqual(Array.from(original.motor[3].values.slice(32, 48)));
+  });
+
+  it('rejects trims of unknown logs, sessions or empty ranges', async () => {
+    const source = await manager.saveLog(buildReferenceFixture(), 'p1', 'sn1', mockFCInfo);
+
+    await expect(manager.trimLog('missing', 0, 0, 1)).rejects.toThrow('Blackbox log not found: missing');
+    await expect(manager.trimLog(source.id, 2, 0, 1)).rejects.toThrow(
+      'Session index 2 out of range (log has 2 sessions)'
+    );
+    await expect(manager.trimLog(source.id, 0, 5, 2)).rejects.toThrow('Invalid time range');
+    await expect(manager.trimLog(source.id, 0, 30, 40)).rejects.toThrow('No flight data between 30s and 40s');
+  });
+
+  it('rejects trims of a session without main frames', async () => {
+    const source = await manager.saveLog(buildReferenceFixture(), 'p1', 'sn1', mockFCInfo);
+    const parsed = await BlackboxParser.parse(buildReferenceFixture(), undefined, { frameIndex: true });
+    parsed.sessions[0].frameIndex!.frames = [];
+    const parse = vi.spyOn(BlackboxParser, 'parse').mockResolvedValue(parsed);
+
+    try {
+      await expect(manager.trimLog(source.id, 0, 0, 1)).rejects.toThrow('No flight data between 0s and 1s');
+    } finally {
+      parse.mockRestore();
+    }
+  });
+
+  it('keeps imported logs under their own extension but cannot trim or export them', async () => {
+    const source = await manager.saveLog(buildULog(), 'p1', 'sn1', mockFCInfo, { extension: 'ulg' });
+
+    expect(source.filename).toMatch(/\.ulg$/);
+    expect((await BlackboxParser.parse(await fs.readFile(source.filepath))).sessions[0].header.firmware).toBe('px4');
+    await expect(manager.trimLog(source.id, 0, 1.1, 1.5)).rejects.toThrow('Trimming is not supported for PX4 logs');
+    await expect(manager.exportFlightData(source.id, 'csv', join(testUserDataDir, 'out.csv'))).rejects.toThrow(
+      'Flight data export is not supported for PX4 logs'
+    );
+  });
+
+  it('splits a multi-session log into one log per session', async () => {
+    const fixture = buildReferenceFixture();
+    const source = await manager.saveLog(fixture, 'p1', 'sn1', mockFCInfo);
+
+    const parts = await manager.splitLog(source.id);
+
+    expect(parts).toHaveLength(2);
+    expect(parts.map((p) => p.derivedFrom)).toEqual([
+      { logId: source.id, sessionIndex: 0 },
+      { logId: source.id, sessionIndex: 1 },
+    ]);
+    expect(parts[0].filename).not.toBe(parts[1].filename);
+    expect(parts[0].size + parts[1].size).toBe(fixture.length);
+
+    const frameCounts = [];
+    for (const part of parts) {
+      const result = await BlackboxParser.parse(await fs.readFile(part.filepath));
+      expect(result.sessions).toHaveLength(1);
+      frameCounts.push(result.sessions[0].flightData.frameCount);
+    }
+    expect(frameCounts).toEqual([50, 30]);
+
+    const single = await manager.saveLog(await fs.readFile(parts[1].filepath), 'p1', 'sn1', mockFCInfo);
+    await expect(manager.splitLog(single.id)).rejects.toThrow('Blackbox log has only one session');
+  });
+
+  it('exports each session as numbered CSV files with a header dump', async () => {
+    const source = await manager.saveLog(buildReferenceFixture(), 'p1', 'sn1', mockFCInfo);
+    const destination = join(testUserDataDir, 'flight.csv');
+
+    const files = await manager.exportFlightData(source.id, 'csv', destination);
+
+    expect(files).toEqual([
+      join(testUserDataDir, 'flight.01.csv'),
+      join(testUserDataDir, 'flight.02.csv'),
+      join(testUserDataDir, 'flight.01.headers.csv'),
+      join(testUserDataDir, 'flight.02.headers.csv'),
+    ]);
+    const csv = (await fs.readFile(files[1], 'utf-8')).trimEnd().split('\n');
+    expect(csv[0]).toMatch(/^loopIteration, time \(us\), gyroADC\[0\]/);
+    expect(csv).toHaveLength(31);
+    expect(await fs.readFile(files[2], 'utf-8')).toContain('"looptime","125"');
+  });
+
+  it('exports a single-session log to the chosen Arrow file', async () => {
+    const fixture = buildReferenceFixture();
+    const single = fixture.subarray(0, BlackboxParser.findSessionBoundaries(fixture)[1]);
+    const source = await manager.saveLog(single, 'p1', 'sn1', mockFCInfo);
+    const destination = join(testUserDataDir, 'flight.arrow');
+
+    const files = await manager.exportFlightData(source.id, 'arrow', destination);
+
+    expect(files).toEqual([destination]);
+    expect((await fs.readFile(destination)).subarray(0, 6).toString()).toBe('ARROW1');
+  });
 });
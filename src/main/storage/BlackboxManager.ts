@@ -2,18 +2,29 @@ import { app } from 'electron';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { BlackboxLogMetadata } from '@shared/types/blackbox.types';
+import type {
+  BlackboxLogMetadata,
+  BlackboxLogSession,
+  BlackboxParseOptions,
+  FlightDataExportFormat,
+} from '@shared/types/blackbox.types';
+import { BlackboxParser } from '../blackbox/BlackboxParser';
+import { BlackboxWriter } from '../blackbox/BlackboxWriter';
+import { FlightDataExporter } from '../blackbox/FlightDataExporter';
+import { dialectOf } from '../blackbox/FirmwareDialect';
 import { logger } from '../utils/logger';
 
 export class BlackboxManager {
   private dataDir: string;
   private logsDir: string;
   private metadataFile: string;
+  private partialDir: string;
 
   constructor() {
     this.dataDir = path.join(app.getPath('userData'), 'data');
     this.logsDir = path.join(this.dataDir, 'blackbox-logs');
     this.metadataFile = path.join(this.logsDir, 'logs.json');
+    this.partialDir = path.join(this.logsDir, 'partial');
   }
 
   async initialize(): Promise<void> {
@@ -32,18 +43,26 @@ export class BlackboxManager {
   }
 
   /**
-   * Save a Blackbox log with metadata
+   * Save a Blackbox log with metadata.
+   *
+   * `data` must already be decoded — MSPClient decodes compressed flash reads,
+   * so `compressionDetected` only records that the FC sent them.
    */
   async saveLog(
     data: Buffer,
     profileId: string,
     fcSerial: string,
     fcInfo: { variant: string; version: string; target: string },
-    options?: { compressionDetected?: boolean }
+    options?: {
+      compressionDetected?: boolean;
+      flashRange?: { start: number; end: number };
+      /** File extension for imported ArduPilot (`bin`) and PX4 (`ulg`) logs */
+      extension?: string;
+    }
   ): Promise<BlackboxLogMetadata> {
     const id = uuidv4();
     const timestamp = new Date().toISOString();
-    const filename = `blackbox_${timestamp.replace(/[:.]/g, '-')}.bbl`;
+    const filename = `blackbox_${timestamp.replace(/[:.]/g, '-')}.${options?.extension ?? 'bbl'}`;
     const filepath = path.join(this.logsDir, filename);
 
     // Write log file
@@ -58,7 +77,8 @@ export class BlackboxManager {
       filepath,
       size: data.length,
       fcInfo,
-      ...(options?.compressionDetected && { compressionDetected: true }),
+      ...(options?.compressionDetected && { huffmanDecoded: true }),
+      ...(options?.flashRange && { flashRange: options.flashRange }),
     };
 
     // Update metadata index
@@ -190,6 +210,228 @@ export class BlackboxManager {
     return metadata;
   }
 
+  /**
+   * Newest flash download from this FC, used as the base for "new data only" downloads
+   */
+  async getLastFlashDownload(fcSerial: string): Promise<BlackboxLogMetadata | null> {
+    const logs = await this.loadMetadata();
+    const downloads = logs.filter((log) => log.fcSerial === fcSerial && log.flashRange);
+    if (downloads.length === 0) {
+      return null;
+    }
+    return downloads.reduce((latest, log) =>
+      log.flashRange!.end > latest.flashRange!.end ||
+      (log.flashRange!.end === latest.flashRange!.end && log.timestamp > latest.timestamp)
+        ? log
+        : latest
+    );
+  }
+
+  /**
+   * Load the data kept from an interrupted flash download.
+   *
+   * Partial downloads are keyed by FC serial, start address and flash usedSize.
+   * Partials for the same FC with a different key are stale (the flash has
+   * changed since) and are deleted. Returns an empty buffer if there is nothing
+   * to resume.
+   */
+  async loadPartialDownload(fcSerial: string, start: number, usedSize: number): Promise<Buffer> {
+    const current = this.partialFilename(fcSerial, start, usedSize);
+    const prefix = this.partialPrefix(fcSerial);
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.partialDir);
+    } catch {
+      return Buffer.alloc(0);
+    }
+
+    for (const file of files) {
+      if (file.startsWith(prefix) && file !== current) {
+        await fs.unlink(path.join(this.partialDir, file)).catch(() => {});
+        logger.info(`[BlackboxManager] Discarded stale partial download: ${file}`);
+      }
+    }
+
+    try {
+      return await fs.readFile(path.join(this.partialDir, current));
+    } catch {
+      return Buffer.alloc(0);
+    }
+  }
+
+  /**
+   * Append downloaded flash data to the partial download for this key
+   */
+  async appendPartialDownload(
+    fcSerial: string,
+    start: number,
+    usedSize: number,
+    data: Buffer
+  ): Promise<void> {
+    await fs.mkdir(this.partialDir, { recursive: true });
+    await fs.appendFile(
+      path.join(this.partialDir, this.partialFilename(fcSerial, start, usedSize)),
+      data
+    );
+  }
+
+  /**
+   * Remove the partial download for this key (after the log has been saved)
+   */
+  async clearPartialDownload(fcSerial: string, start: number, usedSize: number): Promise<void> {
+    await fs
+      .unlink(path.join(this.partialDir, this.partialFilename(fcSerial, start, usedSize)))
+      .catch(() => {});
+  }
+
+  /**
+   * Add a log from an unpacked app backup, keeping its ID, profile and
+   * timestamps. The file is copied in, renamed if another log already uses
+   * its filename.
+   */
+  async importLog(
+    metadata: BlackboxLogMetadata,
+    sourcePath: string
+  ): Promise<BlackboxLogMetadata> {
+    const logs = await this.loadMetadata();
+    const filename = this.uniqueFilename(logs, metadata.filename);
+    const filepath = path.join(this.logsDir, filename);
+    await fs.mkdir(this.logsDir, { recursive: true });
+    await fs.copyFile(sourcePath, filepath);
+    const { size } = await fs.stat(filepath);
+
+    const imported: BlackboxLogMetadata = { ...metadata, filename, filepath, size };
+    logs.push(imported);
+    await this.saveMetadata(logs);
+
+    logger.info(
+      `[BlackboxManager] Imported Blackbox log: ${filename} for profile ${metadata.profileId}`
+    );
+    return imported;
+  }
+
+  /**
+   * Save part of one session as a new log, e.g. the 20 s around a problem
+   * out of a 5-minute flight. Times are seconds from the start of the
+   * session. Like splitLog, the header and frames are copied byte for byte:
+   * from the first I-frame at or after the start (P-frames need one to
+   * decode) up to the first main frame past the end, then a LOG_END event.
+   */
+  async trimLog(
+    id: string,
+    sessionIndex: number,
+    startSeconds: number,
+    endSeconds: number
+  ): Promise<BlackboxLogMetadata> {
+    if (!(endSeconds > startSeconds) || startSeconds < 0) {
+      throw new Error(`Invalid time range: ${startSeconds}s to ${endSeconds}s`);
+    }
+    const { log, data, sessions } = await this.parseLog(id, { frameIndex: true });
+    const session = sessions[sessionIndex];
+    if (!session) {
+      throw new Error(
+        `Session index ${sessionIndex} out of range (log has ${sessions.length} sessions)`
+      );
+    }
+    BlackboxManager.requireBlackboxFields(session, 'Trimming');
+
+    const { start, dataStart, end, frames } = session.frameIndex!;
+    if (frames.length === 0) {
+      throw new Error(`No flight data between ${startSeconds}s and ${endSeconds}s`);
+    }
+    const from = frames[0].timeUs + startSeconds * 1_000_000;
+    const to = frames[0].timeUs + endSeconds * 1_000_000;
+    const first = frames.findIndex((f) => f.intra && f.timeUs >= from);
+    if (first === -1 || frames[first].timeUs > to) {
+      throw new Error(`No flight data between ${startSeconds}s and ${endSeconds}s`);
+    }
+    const next = frames.find((f, i) => i > first && f.timeUs > to);
+
+    const trimmed = Buffer.concat([
+      data.subarray(start, dataStart),
+      data.subarray(frames[first].offset, next?.offset ?? end),
+      BlackboxWriter.logEndFrame(),
+    ]);
+    const range = `${formatSeconds(startSeconds)}-${formatSeconds(endSeconds)}s`;
+    return this.saveDerivedLog(log, trimmed, `s${sessionIndex + 1}_${range}`, {
+      logId: log.id,
+      sessionIndex,
+      startSeconds,
+      endSeconds,
+    });
+  }
+
+  /**
+   * Save each session of a multi-session log (several arm/disarm cycles on
+   * one flash) as a log of its own. Sessions are copied byte for byte, so
+   * nothing the parser skips is lost. Sessions without flight data are left out.
+   */
+  async splitLog(id: string): Promise<BlackboxLogMetadata[]> {
+    const { log, data, sessions } = await this.parseLog(id);
+    if (sessions.length < 2) {
+      throw new Error('Blackbox log has only one session');
+    }
+
+    const boundaries = BlackboxParser.findSessionBoundaries(data);
+    const saved: BlackboxLogMetadata[] = [];
+    for (let i = 0; i < sessions.length; i++) {
+      const start = boundaries[sessions[i].index];
+      const end = boundaries[sessions[i].index + 1] ?? data.length;
+      saved.push(
+        await this.saveDerivedLog(log, data.subarray(start, end), `session${i + 1}`, {
+          logId: log.id,
+          sessionIndex: i,
+        })
+      );
+    }
+    return saved;
+  }
+
+  /**
+   * Export the parsed flight data of a log for post-processing.
+   *
+   * Each session goes to its own file; with several sessions they are
+   * numbered like blackbox_decode output (`flight.01.csv`, `flight.02.csv`).
+   * CSV exports also write the header lines to `<name>.headers.csv`.
+   *
+   * @returns Paths of the written files, data files first
+   */
+  async exportFlightData(
+    id: string,
+    format: FlightDataExportFormat,
+    destinationPath: string
+  ): Promise<string[]> {
+    const { sessions } = await this.parseLog(id, { mainFields: true });
+    BlackboxManager.requireBlackboxFields(sessions[0], 'Flight data export');
+    const ext = path.extname(destinationPath) || (format === 'csv' ? '.csv' : '.arrow');
+    const stem = path.join(
+      path.dirname(destinationPath),
+      path.basename(destinationPath, path.extname(destinationPath))
+    );
+
+    const dataFiles: string[] = [];
+    const headerFiles: string[] = [];
+    for (const [n, session] of sessions.entries()) {
+      const name = sessions.length > 1 ? `${stem}.${String(n + 1).padStart(2, '0')}` : stem;
+      if (format === 'csv') {
+        await fs.writeFile(`${name}${ext}`, FlightDataExporter.toCsv(session), 'utf-8');
+        await fs.writeFile(
+          `${name}.headers.csv`,
+          FlightDataExporter.headersToCsv(session),
+          'utf-8'
+        );
+        headerFiles.push(`${name}.headers.csv`);
+      } else {
+        await fs.writeFile(`${name}${ext}`, FlightDataExporter.toArrow(session));
+      }
+      dataFiles.push(`${name}${ext}`);
+    }
+
+    logger.info(`[BlackboxManager] Exported flight data of ${id} to ${dataFiles.join(', ')}`);
+    return [...dataFiles, ...headerFiles];
+  }
+
   /**
    * Export a Blackbox log to a user-specified location
    */
@@ -204,6 +446,86 @@ export class BlackboxManager {
     logger.info(`[BlackboxManager] Exported Blackbox log to: ${destinationPath}`);
   }
 
+  /** Read and parse a stored log; `data` has any flash page headers stripped */
+  private async parseLog(
+    id: string,
+    options?: BlackboxParseOptions
+  ): Promise<{ log: BlackboxLogMetadata; data: Buffer; sessions: BlackboxLogSession[] }> {
+    const log = await this.getLog(id);
+    if (!log) {
+      throw new Error(`Blackbox log not found: ${id}`);
+    }
+
+    const data = BlackboxParser.stripFlashHeaders(await fs.readFile(log.filepath));
+    const result = await BlackboxParser.parse(data, undefined, options);
+    if (!result.success || result.sessions.length === 0) {
+      throw new Error(`Failed to parse Blackbox log: ${result.error ?? log.filename}`);
+    }
+    return { log, data, sessions: result.sessions };
+  }
+
+  /** Imported ArduPilot/PX4 logs have no Blackbox fields to write back out */
+  private static requireBlackboxFields(session: BlackboxLogSession, action: string): void {
+    if (session.header.iFieldDefs.length === 0) {
+      throw new Error(`${action} is not supported for ${dialectOf(session.header).name} logs`);
+    }
+  }
+
+  /** Store a log cut from another, with the same profile and FC */
+  private async saveDerivedLog(
+    source: BlackboxLogMetadata,
+    data: Buffer,
+    suffix: string,
+    derivedFrom: NonNullable<BlackboxLogMetadata['derivedFrom']>
+  ): Promise<BlackboxLogMetadata> {
+    const logs = await this.loadMetadata();
+    const ext = path.extname(source.filename);
+    const filename = this.uniqueFilename(
+      logs,
+      `${path.basename(source.filename, ext)}_${suffix}${ext || '.bbl'}`
+    );
+    const filepath = path.join(this.logsDir, filename);
+    await fs.writeFile(filepath, data);
+
+    const metadata: BlackboxLogMetadata = {
+      id: uuidv4(),
+      profileId: source.profileId,
+      fcSerial: source.fcSerial,
+      timestamp: new Date().toISOString(),
+      filename,
+      filepath,
+      size: data.length,
+      fcInfo: source.fcInfo,
+      derivedFrom,
+    };
+    logs.push(metadata);
+    await this.saveMetadata(logs);
+
+    logger.info(
+      `[BlackboxManager] Saved ${filename} (${data.length} bytes) from Blackbox log ${source.id}`
+    );
+    return metadata;
+  }
+
+  /** The filename itself, or with _2, _3, … appended if another log uses it */
+  private uniqueFilename(logs: BlackboxLogMetadata[], filename: string): string {
+    const taken = new Set(logs.map((log) => log.filename));
+    const ext = path.extname(filename);
+    let unique = filename;
+    for (let n = 2; taken.has(unique); n++) {
+      unique = `${path.basename(filename, ext)}_${n}${ext}`;
+    }
+    return unique;
+  }
+
+  private partialPrefix(fcSerial: string): string {
+    return `${fcSerial.replace(/[^A-Za-z0-9-]/g, '-')}_`;
+  }
+
+  private partialFilename(fcSerial: string, start: number, usedSize: number): string {
+    return `${this.partialPrefix(fcSerial)}${start}-${usedSize}.part`;
+  }
+
   private async loadMetadata(): Promise<BlackboxLogMetadata[]> {
     try {
       const data = await fs.readFile(this.metadataFile, 'utf-8');
@@ -218,3 +540,8 @@ export class BlackboxManager {
     await fs.writeFile(this.metadataFile, JSON.stringify(logs, null, 2));
   }
 }
+
+/** Seconds for a filename: "12", "12.5", "0.05" */
+function formatSeconds(seconds: number): string {
+  return String(Number(seconds.toFixed(2)));
+}
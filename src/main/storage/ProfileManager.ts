@@ -269,6 +269,13 @@ export class ProfileManager {
     logger.info(`Snapshot ${snapshotId} unlinked from profile ${profileId}`);
   }
 
+  /**
+   * Store a profile from an app backup unchanged (same ID and timestamps)
+   */
+  async saveImportedProfile(profile: DroneProfile): Promise<void> {
+    await this.storage.saveProfile(profile);
+  }
+
   /**
    * Export profile
    */
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SettingsSchemaManager } from './SettingsSchemaManager';
+import type { MSPClient } from '../msp/MSPClient';
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const GET_OUTPUT = [
+  'gyro_lpf1_static_hz = 250',
+  'Allowed range: 0 - 1000',
+  '',
+  'dterm_lpf1_type = PT1',
+  'Allowed values: PT1, BIQUAD, PT2, PT3',
+  '',
+  'p_roll = 45',
+  'profile 0',
+  'Allowed range: 0 - 250',
+].join('\n');
+
+function createMockMSPClient(version = '4.5.1'): MSPClient {
+  return {
+    getFCInfo: vi.fn().mockResolvedValue({
+      variant: 'BTFL',
+      version,
+      target: 'STM32F7X2',
+      boardName: 'SPEEDYBEEF7V3',
+      apiVersion: { protocol: 0, major: 1, minor: 46 },
+    }),
+    exportSettingsSchema: vi.fn().mockResolvedValue(GET_OUTPUT),
+  } as any;
+}
+
+describe('SettingsSchemaManager', () => {
+  let tempDir: string;
+  let mspClient: MSPClient;
+  let manager: SettingsSchemaManager;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'settings-schema-test-'));
+    mspClient = createMockMSPClient();
+    manager = new SettingsSchemaManager(tempDir, mspClient);
+    await manager.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads the schema from the FC and caches it per firmware version', async () => {
+    const schema = await manager.getSchema();
+
+    expect(schema.firmware).toBe('BTFL 4.5.1');
+    expect(schema.settings.gyro_lpf1_static_hz).toMatchObject({ min: 0, max: 1000 });
+    expect(schema.settings.dterm_lpf1_type.allowedValues).toEqual(['PT1', 'BIQUAD', 'PT2', 'PT3']);
+    expect(schema.settings.p_roll.scope).toBe('profile');
+
+    const file = join(tempDir, 'settings-schema', 'BTFL-4.5.1.json');
+    expect(JSON.parse(await fs.readFile(file, 'utf-8')).firmware).toBe('BTFL 4.5.1');
+  });
+
+  it('does not read the FC again once cached, even after a restart', async () => {
+    await manager.getSchema();
+    const restarted = new SettingsSchemaManager(tempDir, mspClient);
+
+    const schema = await restarted.getSchema();
+
+    expect(schema.settings.p_roll).toBeDefined();
+    expect(mspClient.exportSettingsSchema).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-reads the schema when the firmware version changes', async () => {
+    await manager.getSchema();
+    const upgraded = createMockMSPClient('4.6.0');
+    const other = new SettingsSchemaManager(tempDir, upgraded);
+
+    expect(await other.getCachedSchema()).toBeNull();
+    await other.getSchema();
+
+    expect(upgraded.exportSettingsSchema).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects empty get output', async () => {
+    vi.mocked(mspClient.exportSettingsSchema).mockResolvedValue('');
+
+    await expect(manager.getSchema()).rejects.toThrow('FC returned no settings');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * SettingsSchemaManager
+ *
+ * Reads every setting's allowed range/values from the FC (full CLI `get`) and
+ * caches the result per firmware version, since the schema only changes when
+ * the firmware does. One file per firmware: {dataDir}/settings-schema/{variant}-{version}.json
+ *
+ * Reading the schema enters CLI, and leaving CLI reboots the FC — so this
+ * happens once per firmware version, not on every connect.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { FCInfo } from '@shared/types/common.types';
+import type { SettingsSchema } from '@shared/types/cli.types';
+import { parseGetOutput } from '@shared/utils/cliConsole';
+import type { MSPClient } from '../msp/MSPClient';
+import { logger } from '../utils/logger';
+
+export class SettingsSchemaManager {
+  private dataDir: string;
+  private mspClient: MSPClient;
+  private cache = new Map<string, SettingsSchema>();
+
+  constructor(basePath: string, mspClient: MSPClient) {
+    this.dataDir = join(basePath, 'settings-schema');
+    this.mspClient = mspClient;
+  }
+
+  /** Follow the active connection when several FCs are connected */
+  setMSPClient(mspClient: MSPClient): void {
+    this.mspClient = mspClient;
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    logger.info('SettingsSchemaManager initialized');
+  }
+
+  /** Cached schema for the connected FC's firmware, or null. Never touches the CLI. */
+  async getCachedSchema(): Promise<SettingsSchema | null> {
+    const fcInfo = await this.mspClient.getFCInfo();
+    return this.loadSchema(firmwareKey(fcInfo));
+  }
+
+  /**
+   * Cached schema, or read it from the FC. The first read for a firmware
+   * version reboots the FC (CLI `exit`), unless the caller is already in CLI.
+   */
+  async getSchema(): Promise<SettingsSchema> {
+    const fcInfo = await this.mspClient.getFCInfo();
+    const key = firmwareKey(fcInfo);
+    const cached = await this.loadSchema(key);
+    if (cached) return cached;
+
+    logger.info(`Reading settings schema for ${key}...`);
+    const output = await this.mspClient.exportSettingsSchema();
+    const settings = parseGetOutput(output);
+    if (settings.length === 0) {
+      throw new Error('FC returned no settings for `get`');
+    }
+
+    const schema: SettingsSchema = {
+      firmware: `${fcInfo.variant} ${fcInfo.version}`,
+      fetchedAt: new Date().toISOString(),
+      settings: Object.fromEntries(settings.map((s) => [s.name, s])),
+    };
+    await fs.mkdir(this.dataDir, { recursive: true });
+    await fs.writeFile(this.schemaPath(key), JSON.stringify(schema), 'utf-8');
+    this.cache.set(key, schema);
+    logger.info(`Settings schema cached for ${key}: ${settings.length} settings`);
+    return schema;
+  }
+
+  private schemaPath(key: string): string {
+    return join(this.dataDir, `${key}.json`);
+  }
+
+  private async loadSchema(key: string): Promise<SettingsSchema | null> {
+    const memory = this.cache.get(key);
+    if (memory) return memory;
+
+    try {
+      const json = await fs.readFile(this.schemaPath(key), 'utf-8');
+      const schema = JSON.parse(json) as SettingsSchema;
+      this.cache.set(key, schema);
+      return schema;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn(`Failed to load settings schema ${key}, will re-read from FC`, error);
+      }
+      return null;
+    }
+  }
+}
+
+/** File-safe cache key, e.g. "BTFL-4.5.1" */
+function firmwareKey(fcInfo: FCInfo): string {
+  return `${fcInfo.variant}-${fcInfo.version}`.replace(/[^A-Za-z0-9._-]/g, '_');
+}
@@ -263,6 +263,70 @@ describe('SnapshotManager', () => {
     expect(content.id).toBe(snap.id);
   });
 
+  // ─── importSnapshot ──────────────────────────────────────────
+
+  it('imports a CLI diff into the current profile at the given time', async () => {
+    const profile = await profileManager.createProfile(makeProfileInput('SN-IMP'));
+    const diff =
+      '# Betaflight / STM32F7X2 (S7X2) 4.3.1 Jul 13 2022 / 03:32:52 (8d4f005) MSP API: 1.44\n' +
+      'board_name SPEEDYBEEF7V3\n' +
+      'set gyro_lpf1_static_hz = 200';
+
+    const snap = await manager.importSnapshot(diff, 'spring-2023.txt', '2023-04-01T09:00:00.000Z');
+
+    expect(snap).toMatchObject({
+      label: 'Imported: spring-2023.txt',
+      type: 'manual',
+      timestamp: '2023-04-01T09:00:00.000Z',
+      fcInfo: { variant: 'BTFL', version: '4.3.1', boardName: 'SPEEDYBEEF7V3' },
+      metadata: { createdBy: 'user', importedFrom: 'spring-2023.txt' },
+    });
+    expect(snap.configuration.cliDiff).toContain('set gyro_lpf1_static_hz = 200');
+
+    const updated = await profileManager.getProfile(profile.id);
+    expect(updated!.snapshotIds).toContain(snap.id);
+    const list = await manager.listSnapshots();
+    expect(list[0].importedFrom).toBe('spring-2023.txt');
+  });
+
+  it('rejects a backup from a different board', async () => {
+    await profileManager.createProfile(makeProfileInput('SN-IMP2'));
+
+    await expect(
+      manager.importSnapshot('board_name MATEKF405\nset p_roll = 45', 'other.txt')
+    ).rejects.toThrow('other.txt is for MATEKF405, but the connected FC is SPEEDYBEEF7V3');
+  });
+
+  it('checks the target of old diffs without a board_name', async () => {
+    await profileManager.createProfile(makeProfileInput('SN-IMP4'));
+    const versionLine = (target: string) =>
+      `# Betaflight / ${target} (S7X2) 3.5.7 Mar  1 2019 / 10:00:00 (abcdef0) MSP API: 1.40\n`;
+
+    await expect(
+      manager.importSnapshot(versionLine('OMNIBUSF4SD') + 'set p_roll = 45', 'old.txt')
+    ).rejects.toThrow('old.txt is for OMNIBUSF4SD, but the connected FC is STM32F7X2');
+
+    const snap = await manager.importSnapshot(
+      versionLine('STM32F7X2') + 'set p_roll = 45',
+      'ok.txt'
+    );
+    expect(snap.fcInfo).toMatchObject({ target: 'STM32F7X2', boardName: 'SPEEDYBEEF7V3' });
+  });
+
+  it('uses the connected FC board for backups that do not name one', async () => {
+    await profileManager.createProfile(makeProfileInput('SN-IMP3'));
+
+    const snap = await manager.importSnapshot('set p_roll = 45', 'plain.txt');
+
+    expect(snap.fcInfo).toMatchObject({ boardName: 'SPEEDYBEEF7V3', version: 'unknown' });
+  });
+
+  it('requires a current profile to import into', async () => {
+    await expect(manager.importSnapshot('set p_roll = 45', 'plain.txt')).rejects.toThrow(
+      'No active profile selected'
+    );
+  });
+
   // ─── getBaseline ─────────────────────────────────────────────
 
   it('returns baseline via profile baselineSnapshotId', async () => {
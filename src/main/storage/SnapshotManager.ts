@@ -5,6 +5,7 @@ import type { ProfileManager } from './ProfileManager';
 import type { ConfigurationSnapshot, SnapshotMetadata } from '@shared/types/common.types';
 import { SnapshotError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { parseImportedConfig } from './snapshotImport';
 import { APP_VERSION, SNAPSHOT } from '@shared/constants';
 
 export class SnapshotManager {
@@ -18,6 +19,11 @@ export class SnapshotManager {
     this.mspClient = mspClient;
   }
 
+  /** Follow the active connection when several FCs are connected */
+  setMSPClient(mspClient: MSPClient): void {
+    this.mspClient = mspClient;
+  }
+
   setProfileManager(profileManager: ProfileManager): void {
     this.profileManager = profileManager;
   }
@@ -97,6 +103,87 @@ export class SnapshotManager {
     }
   }
 
+  /**
+   * Import a backup made outside the app (CLI diff/dump text, Configurator
+   * JSON backup or an exported snapshot) into the current profile's timeline.
+   * The backup's board must match the connected FC.
+   *
+   * @param importedAt - when the backup was taken (e.g. the file's mtime); defaults to now
+   */
+  async importSnapshot(
+    content: string,
+    fileName: string,
+    importedAt?: string
+  ): Promise<ConfigurationSnapshot> {
+    if (!this.mspClient.isConnected()) {
+      throw new SnapshotError('Not connected to FC');
+    }
+    const currentProfileId = this.profileManager?.getCurrentProfileId() ?? null;
+    if (this.profileManager && !currentProfileId) {
+      throw new SnapshotError('No active profile selected');
+    }
+
+    const imported = parseImportedConfig(content, fileName);
+    const connectedFC = await this.mspClient.getFCInfo();
+    if (
+      imported.fcInfo.boardName &&
+      imported.fcInfo.boardName.toUpperCase() !== connectedFC.boardName.toUpperCase()
+    ) {
+      throw new SnapshotError(
+        `${fileName} is for ${imported.fcInfo.boardName}, but the connected FC is ${connectedFC.boardName}`
+      );
+    }
+    // Older diffs have no board_name, only the firmware target in the version line
+    if (
+      !imported.fcInfo.boardName &&
+      imported.fcInfo.target &&
+      imported.fcInfo.target.toUpperCase() !== connectedFC.target.toUpperCase()
+    ) {
+      throw new SnapshotError(
+        `${fileName} is for ${imported.fcInfo.target}, but the connected FC is ${connectedFC.target}`
+      );
+    }
+
+    const snapshot: ConfigurationSnapshot = {
+      id: uuidv4(),
+      timestamp: imported.timestamp ?? importedAt ?? new Date().toISOString(),
+      label: imported.label ?? `Imported: ${fileName}`,
+      type: 'manual',
+      fcInfo: {
+        variant: imported.fcInfo.variant ?? connectedFC.variant,
+        version: imported.fcInfo.version ?? 'unknown',
+        target: imported.fcInfo.target ?? connectedFC.target,
+        // Board or target was matched above, or the backup doesn't say
+        boardName: imported.fcInfo.boardName ?? connectedFC.boardName,
+        apiVersion: imported.fcInfo.apiVersion ?? { protocol: 0, major: 0, minor: 0 },
+        ...(imported.fcInfo.craftName && { craftName: imported.fcInfo.craftName }),
+      },
+      configuration: {
+        cliDiff: imported.cliDiff,
+      },
+      metadata: {
+        appVersion: APP_VERSION,
+        createdBy: 'user',
+        importedFrom: fileName,
+      },
+    };
+
+    try {
+      await this.storage.saveSnapshot(snapshot);
+      if (this.profileManager && currentProfileId) {
+        await this.profileManager.linkSnapshot(currentProfileId, snapshot.id, false);
+      }
+    } catch (error) {
+      throw new SnapshotError('Failed to import snapshot', error);
+    }
+
+    logger.info(
+      `Snapshot imported from ${fileName} (${imported.format}): ${snapshot.id} ` +
+        `(${snapshot.fcInfo.variant} ${snapshot.fcInfo.version}, ${snapshot.fcInfo.boardName})`
+    );
+    return snapshot;
+  }
+
   async createBaselineIfMissing(): Promise<void> {
     const snapshots = await this.listSnapshots();
     const hasBaseline = snapshots.some((s) => s.type === 'baseline');
@@ -182,6 +269,9 @@ export class SnapshotManager {
           ...(snapshot.metadata.bfPidProfileIndex != null && {
             bfPidProfileIndex: snapshot.metadata.bfPidProfileIndex,
           }),
+          ...(snapshot.metadata.importedFrom != null && {
+            importedFrom: snapshot.metadata.importedFrom,
+          }),
         });
       }
 
@@ -194,6 +284,23 @@ export class SnapshotManager {
     }
   }
 
+  /** IDs of every stored snapshot, whichever profile it belongs to (for app backups) */
+  async listAllSnapshotIds(): Promise<string[]> {
+    return this.storage.listSnapshots();
+  }
+
+  async snapshotExists(id: string): Promise<boolean> {
+    return this.storage.snapshotExists(id);
+  }
+
+  /**
+   * Store a snapshot from an app backup unchanged. Linking it to a profile is
+   * up to the caller.
+   */
+  async saveImportedSnapshot(snapshot: ConfigurationSnapshot): Promise<void> {
+    await this.storage.saveSnapshot(snapshot);
+  }
+
   async exportSnapshot(id: string, destinationPath: string): Promise<void> {
     try {
       await this.storage.exportSnapshot(id, destinationPath);
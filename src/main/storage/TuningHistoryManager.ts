@@ -57,6 +57,7 @@ export class TuningHistoryManager {
       appliedFilterChanges: session.appliedFilterChanges ?? [],
       appliedPIDChanges: session.appliedPIDChanges ?? [],
       appliedFeedforwardChanges: session.appliedFeedforwardChanges ?? [],
+      appliedRatesChanges: session.appliedRatesChanges ?? [],
       filterMetrics: session.filterMetrics ?? null,
       pidMetrics: session.pidMetrics ?? null,
       verificationMetrics: session.verificationMetrics ?? null,
@@ -167,6 +168,24 @@ export class TuningHistoryManager {
     }
   }
 
+  /**
+   * Merge records from an app backup into a profile's history. Records whose
+   * ID is already there are skipped. Returns the number of records added.
+   */
+  async importRecords(profileId: string, records: CompletedTuningRecord[]): Promise<number> {
+    const existing = await this.loadRecords(profileId);
+    const known = new Set(existing.map((r) => r.id));
+    const added = records.filter((r) => !known.has(r.id));
+    if (added.length === 0) return 0;
+
+    const merged = [...existing, ...added.map((r) => ({ ...r, profileId }))].sort((a, b) =>
+      a.completedAt.localeCompare(b.completedAt)
+    );
+    await this.saveRecords(profileId, merged);
+    logger.info(`Imported ${added.length} tuning history records for profile ${profileId}`);
+    return added.length;
+  }
+
   private historyPath(profileId: string): string {
     return join(this.dataDir, `${profileId}.json`);
   }
@@ -109,6 +109,12 @@ export class TuningSessionManager {
     }
   }
 
+  /** Store a session from an app backup, replacing any session of its profile */
+  async importSession(session: TuningSession): Promise<void> {
+    await this.saveSession(session);
+    logger.info(`Tuning session imported for profile ${session.profileId}`);
+  }
+
   private sessionPath(profileId: string): string {
     return join(this.dataDir, `${profileId}.json`);
   }
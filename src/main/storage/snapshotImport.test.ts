@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { parseImportedConfig } from './snapshotImport';
+
+const DIFF_ALL_43 = `# diff all
+
+# version
+# Betaflight / STM32F405 (S405) 4.3.1 Jul 13 2022 / 03:32:52 (8d4f005) MSP API: 1.44
+
+# config: manufacturer_id: MTKS, board_name: MATEKF405, version: 5a6b1b74, date: 2022-07-13T03:32:52Z
+
+# start the command batch
+batch start
+
+board_name MATEKF405
+manufacturer_id MTKS
+
+# feature
+feature GPS
+
+# master
+set gyro_lpf1_static_hz = 200
+set craft_name = Ripper
+
+profile 0
+
+# profile 0
+set p_roll = 48
+
+# end the command batch
+batch end
+`;
+
+const DIFF_35 = `# Betaflight / OMNIBUSF4SD (OBSD) 3.5.7 Mar 20 2019 / 12:45:44 (a6d1fd36c) MSP API: 1.40
+
+name OldQuad
+set gyro_sync_denom = 2
+`;
+
+describe('parseImportedConfig', () => {
+  it('reads firmware, board and craft name from a diff all header', () => {
+    const result = parseImportedConfig(DIFF_ALL_43, 'ripper.txt');
+
+    expect(result.format).toBe('cli');
+    expect(result.fcInfo).toEqual({
+      variant: 'BTFL',
+      target: 'STM32F405',
+      version: '4.3.1',
+      apiVersion: { protocol: 0, major: 1, minor: 44 },
+      boardName: 'MATEKF405',
+      craftName: 'Ripper',
+    });
+    expect(result.cliDiff).toContain('set p_roll = 48');
+  });
+
+  it('leaves the board unknown when an old diff has no board_name', () => {
+    const result = parseImportedConfig(DIFF_35.replace(/\n/g, '\r\n'), 'old.txt');
+
+    expect(result.fcInfo).toMatchObject({
+      version: '3.5.7',
+      target: 'OMNIBUSF4SD',
+      craftName: 'OldQuad',
+    });
+    expect(result.fcInfo.boardName).toBeUndefined();
+    expect(result.cliDiff).not.toContain('\r');
+  });
+
+  it('rejects text without CLI commands', () => {
+    expect(() => parseImportedConfig('Shopping list\n- props\n- batteries', 'notes.txt')).toThrow(
+      'notes.txt does not look like a Betaflight CLI diff'
+    );
+    expect(() => parseImportedConfig('{ "broken": ', 'backup.json')).toThrow(
+      'backup.json is not valid JSON'
+    );
+  });
+
+  it('converts a Configurator JSON backup into CLI commands', () => {
+    const backup = {
+      generatedBy: '10.7.0',
+      apiVersion: '1.42.0',
+      CRAFT_NAME: 'Cinewhoop',
+      MODE_RANGES: [
+        { id: 0, auxChannelIndex: 0, range: { start: 1700, end: 2100 } },
+        { id: 1, auxChannelIndex: 1, range: { start: 900, end: 900 } },
+      ],
+      profiles: [
+        {
+          PIDs: [
+            [45, 80, 30],
+            [47, 84, 32],
+            [45, 80, 0],
+          ],
+        },
+        {
+          PIDs: [
+            [40, 70, 25],
+            [42, 72, 27],
+            [40, 70, 0],
+          ],
+        },
+      ],
+    };
+
+    const result = parseImportedConfig(JSON.stringify(backup), 'backup.json');
+
+    expect(result.format).toBe('configurator-backup');
+    expect(result.fcInfo).toEqual({
+      variant: 'BTFL',
+      apiVersion: { protocol: 0, major: 1, minor: 42 },
+      craftName: 'Cinewhoop',
+    });
+    const lines = result.cliDiff.split('\n');
+    expect(lines[0]).toMatch(/^# Converted from Betaflight Configurator 10\.7\.0 backup/);
+    expect(lines).toContain('set craft_name = Cinewhoop');
+    expect(lines).toContain('aux 0 0 0 1700 2100 0 0');
+    expect(lines.filter((l) => l.startsWith('aux'))).toHaveLength(1);
+    expect(lines.slice(lines.indexOf('profile 1'))).toEqual([
+      'profile 1',
+      'set p_roll = 40',
+      'set i_roll = 70',
+      'set d_roll = 25',
+      'set p_pitch = 42',
+      'set i_pitch = 72',
+      'set d_pitch = 27',
+      'set p_yaw = 40',
+      'set i_yaw = 70',
+      'set d_yaw = 0',
+      'profile 0',
+    ]);
+  });
+
+  it('keeps label, time and FC info of a snapshot exported by the app', () => {
+    const exported = {
+      id: 'abc',
+      timestamp: '2024-03-02T12:00:00.000Z',
+      label: 'Before new props',
+      type: 'manual',
+      fcInfo: { variant: 'BTFL', version: '4.4.2', target: 'STM32F7X2', boardName: 'JHEF7DUAL' },
+      configuration: { cliDiff: 'set dshot_bidir = ON' },
+    };
+
+    const result = parseImportedConfig(JSON.stringify(exported), 'export.json');
+
+    expect(result).toMatchObject({
+      format: 'snapshot-export',
+      cliDiff: 'set dshot_bidir = ON',
+      label: 'Before new props',
+      timestamp: '2024-03-02T12:00:00.000Z',
+      fcInfo: { boardName: 'JHEF7DUAL' },
+    });
+  });
+
+  it('rejects unrelated JSON', () => {
+    expect(() => parseImportedConfig('{"foo": 1}', 'data.json')).toThrow(
+      'data.json is not a Betaflight Configurator backup'
+    );
+  });
+});
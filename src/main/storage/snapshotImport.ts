@@ -0,0 +1,227 @@
+/**
+ * Parsing of configuration backups made outside the app, so they can be
+ * imported as snapshots:
+ *
+ * - CLI text files: `diff`, `diff all` or `dump` output saved from the
+ *   Configurator CLI tab (or a terminal)
+ * - Betaflight Configurator JSON backups (legacy Setup tab "Backup")
+ * - Snapshots exported by this app (JSON)
+ *
+ * Firmware and board are taken from the header comments where present.
+ */
+import type { ApiVersionInfo, FCInfo } from '@shared/types/common.types';
+import { SnapshotError } from '../utils/errors';
+
+export type ImportFormat = 'cli' | 'configurator-backup' | 'snapshot-export';
+
+export interface ImportedConfiguration {
+  format: ImportFormat;
+  /** CLI commands to store as the snapshot's diff */
+  cliDiff: string;
+  /** Whatever the file says about the FC it came from */
+  fcInfo: Partial<FCInfo>;
+  /** Only for snapshot exports, which carry their own label and time */
+  label?: string;
+  timestamp?: string;
+}
+
+/** Firmware names in the CLI version line → MSP_FC_VARIANT identifiers */
+const FIRMWARE_VARIANTS: Record<string, string> = {
+  betaflight: 'BTFL',
+  inav: 'INAV',
+  emuflight: 'EMUF',
+};
+
+/** First words of CLI lines that make a file a diff/dump rather than random text */
+const CLI_COMMANDS = new Set([
+  'set',
+  'feature',
+  'aux',
+  'serial',
+  'resource',
+  'timer',
+  'dma',
+  'map',
+  'beeper',
+  'beacon',
+  'profile',
+  'rateprofile',
+  'board_name',
+  'mixer',
+  'mmix',
+  'smix',
+  'led',
+  'color',
+  'mode_color',
+  'adjrange',
+  'rxrange',
+  'vtxtable',
+  'vtx',
+  'name',
+]);
+
+/** `# Betaflight / STM32F7X2 (S7X2) 4.3.1 Jul 13 2022 / 03:32:52 (8d4f005) MSP API: 1.44` */
+const VERSION_LINE_REGEX = /^#\s*([A-Za-z]+)\s*\/\s*(\S+)\s+\((\w+)\)\s+(\d+\.\d+\.\d+)/;
+const MSP_API_REGEX = /MSP API:\s*(\d+)\.(\d+)/;
+/** `# config: manufacturer_id: MTKS, board_name: MATEKH743, version: ..., date: ...` */
+const CONFIG_BOARD_REGEX = /^#\s*config:.*\bboard_name:\s*([^,\s]+)/;
+
+/** PID controllers in a Configurator backup's `PIDs` array, in MSP_PID order */
+const BACKUP_PID_AXES = ['roll', 'pitch', 'yaw'] as const;
+
+/**
+ * Parse an imported backup file.
+ *
+ * @throws SnapshotError if the content is not a recognizable backup
+ */
+export function parseImportedConfig(content: string, fileName: string): ImportedConfiguration {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{')) {
+    let json: any;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (error) {
+      throw new SnapshotError(`${fileName} is not valid JSON`, error);
+    }
+    return parseJsonBackup(json, fileName);
+  }
+  return parseCLIText(content, fileName);
+}
+
+/** Parse `diff`/`diff all`/`dump` output. */
+function parseCLIText(content: string, fileName: string): ImportedConfiguration {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const fcInfo: Partial<FCInfo> = {};
+  let hasCommands = false;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      const version = line.match(VERSION_LINE_REGEX);
+      if (version) {
+        const [, firmware, target, , firmwareVersion] = version;
+        fcInfo.variant =
+          FIRMWARE_VARIANTS[firmware.toLowerCase()] ?? firmware.toUpperCase().slice(0, 4);
+        fcInfo.target = target;
+        fcInfo.version = firmwareVersion;
+        const api = line.match(MSP_API_REGEX);
+        if (api) {
+          fcInfo.apiVersion = toApiVersion(Number(api[1]), Number(api[2]));
+        }
+        continue;
+      }
+      const config = line.match(CONFIG_BOARD_REGEX);
+      if (config && !fcInfo.boardName) {
+        fcInfo.boardName = config[1];
+      }
+      continue;
+    }
+
+    const [command, ...args] = line.split(/\s+/);
+    if (!CLI_COMMANDS.has(command.toLowerCase())) continue;
+    hasCommands = true;
+
+    if (command === 'board_name' && args[0]) {
+      fcInfo.boardName = args[0];
+    } else if (command === 'name' && args.length > 0) {
+      // BF 3.x/4.0 craft name command
+      fcInfo.craftName = args.join(' ');
+    } else if (command === 'set') {
+      const craftName = line.match(/^set\s+(?:craft_name|name)\s*=\s*(.*)$/i);
+      if (craftName && craftName[1].trim() && craftName[1].trim() !== '-') {
+        fcInfo.craftName = craftName[1].trim();
+      }
+    }
+  }
+
+  if (!hasCommands) {
+    throw new SnapshotError(
+      `${fileName} does not look like a Betaflight CLI diff, dump or Configurator backup`
+    );
+  }
+
+  return { format: 'cli', cliDiff: content.replace(/\r\n?/g, '\n').trim(), fcInfo };
+}
+
+function parseJsonBackup(json: any, fileName: string): ImportedConfiguration {
+  // Snapshot exported by this app
+  if (typeof json?.configuration?.cliDiff === 'string' && json.fcInfo) {
+    return {
+      format: 'snapshot-export',
+      cliDiff: json.configuration.cliDiff,
+      fcInfo: json.fcInfo,
+      label: typeof json.label === 'string' ? json.label : undefined,
+      timestamp: typeof json.timestamp === 'string' ? json.timestamp : undefined,
+    };
+  }
+
+  if (typeof json?.generatedBy === 'string') {
+    return parseConfiguratorBackup(json, fileName);
+  }
+
+  throw new SnapshotError(`${fileName} is not a Betaflight Configurator backup`);
+}
+
+/**
+ * Convert a Configurator backup (MSP data dumped as JSON) into CLI commands.
+ * Only what maps 1:1 onto CLI is converted: craft name, PIDs per profile and
+ * mode ranges. These backups carry no board name or firmware version.
+ */
+function parseConfiguratorBackup(json: any, fileName: string): ImportedConfiguration {
+  const commands: string[] = [];
+  const fcInfo: Partial<FCInfo> = { variant: 'BTFL' };
+
+  const apiMatch = typeof json.apiVersion === 'string' && json.apiVersion.match(/^(\d+)\.(\d+)/);
+  if (apiMatch) {
+    fcInfo.apiVersion = toApiVersion(Number(apiMatch[1]), Number(apiMatch[2]));
+  }
+
+  if (typeof json.CRAFT_NAME === 'string' && json.CRAFT_NAME.trim()) {
+    fcInfo.craftName = json.CRAFT_NAME.trim();
+    commands.push(`set craft_name = ${fcInfo.craftName}`);
+  }
+
+  const modeRanges: any[] = Array.isArray(json.MODE_RANGES)
+    ? json.MODE_RANGES
+    : (json.profiles?.[0]?.ModeRanges ?? []);
+  modeRanges.forEach((range, index) => {
+    const start = range?.range?.start;
+    const end = range?.range?.end;
+    if (typeof start !== 'number' || typeof end !== 'number' || start >= end) return;
+    commands.push(`aux ${index} ${range.id} ${range.auxChannelIndex} ${start} ${end} 0 0`);
+  });
+
+  const profiles: any[] = Array.isArray(json.profiles) ? json.profiles : [];
+  profiles.forEach((profile, index) => {
+    if (!Array.isArray(profile?.PIDs)) return;
+    const pidCommands: string[] = [];
+    BACKUP_PID_AXES.forEach((axis, i) => {
+      const [p, iTerm, d] = profile.PIDs[i] ?? [];
+      if (typeof p !== 'number' || typeof iTerm !== 'number' || typeof d !== 'number') return;
+      pidCommands.push(`set p_${axis} = ${p}`, `set i_${axis} = ${iTerm}`, `set d_${axis} = ${d}`);
+    });
+    if (pidCommands.length > 0) {
+      commands.push(`profile ${index}`, ...pidCommands);
+    }
+  });
+
+  if (commands.length === 0) {
+    throw new SnapshotError(`${fileName} contains no settings that can be imported`);
+  }
+  if (profiles.length > 1) {
+    commands.push('profile 0');
+  }
+
+  const header = `# Converted from Betaflight Configurator ${json.generatedBy} backup (${fileName})`;
+  return {
+    format: 'configurator-backup',
+    cliDiff: [header, ...commands].join('\n'),
+    fcInfo,
+  };
+}
+
+function toApiVersion(major: number, minor: number): ApiVersionInfo {
+  return { protocol: 0, major, minor };
+}
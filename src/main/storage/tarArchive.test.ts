@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { extractTar, tarStream } from './tarArchive';
+
+async function collect(stream: AsyncIterable<Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+/** Feed an archive back in small, unaligned chunks */
+async function* inChunks(data: Buffer, size: number): AsyncGenerator<Buffer> {
+  for (let i = 0; i < data.length; i += size) yield data.subarray(i, i + size);
+}
+
+describe('tarArchive', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'tar-archive-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips files and buffers through block-aligned entries', async () => {
+    const log = Buffer.from(Array.from({ length: 1500 }, (_, i) => i % 251));
+    await fs.writeFile(join(dir, 'flight.bbl'), log);
+
+    const tar = await collect(
+      tarStream([
+        { name: 'manifest.json', data: Buffer.from('{"ok":true}') },
+        { name: 'logs/abc', path: join(dir, 'flight.bbl'), size: log.length },
+        { name: 'other/skipped', data: Buffer.from('x') },
+      ])
+    );
+    expect(tar.length % 512).toBe(0);
+
+    const out = join(dir, 'out');
+    const names = await extractTar(inChunks(tar, 333), out, (name) => name !== 'other/skipped');
+
+    expect([...names]).toEqual(['manifest.json', 'logs/abc']);
+    expect(await fs.readFile(join(out, 'manifest.json'), 'utf-8')).toBe('{"ok":true}');
+    expect((await fs.readFile(join(out, 'logs/abc'))).equals(log)).toBe(true);
+    await expect(fs.access(join(out, 'other'))).rejects.toThrow();
+  });
+
+  it('rejects data that is not a tar archive or is cut short', async () => {
+    const tar = await collect(tarStream([{ name: 'a', data: Buffer.alloc(600, 1) }]));
+
+    await expect(extractTar(inChunks(Buffer.alloc(1024, 7), 512), dir, () => true)).rejects.toThrow(
+      'Not a tar archive'
+    );
+    await expect(extractTar(inChunks(tar.subarray(0, 1024), 512), dir, () => true)).rejects.toThrow(
+      'Archive ends unexpectedly'
+    );
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Minimal ustar reader/writer for app backups.
+ *
+ * Entries are streamed: file contents go from disk into the archive and back
+ * out to disk chunk by chunk, so archives of any size never sit in memory.
+ * Only regular files are written or extracted.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import { dirname, join } from 'path';
+
+const BLOCK = 512;
+
+export type TarEntrySource =
+  | { name: string; data: Buffer }
+  | { name: string; path: string; size: number };
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'latin1');
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function createHeader(name: string, size: number): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new Error(`Archive entry name too long: ${name}`);
+  }
+  const header = Buffer.alloc(BLOCK);
+  header.write(name, 0, 100, 'utf-8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(Date.now() / 1000), 136, 12);
+  header.write('0', 156, 'latin1');
+  header.write('ustar\0' + '00', 257, 8, 'latin1');
+  header.write(checksum(header).toString(8).padStart(6, '0') + '\0 ', 148, 8, 'latin1');
+  return header;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+/**
+ * The archive as a stream of chunks, for `pipeline()` into gzip and a file.
+ *
+ * @throws Error if a file's size changed since it was listed
+ */
+export async function* tarStream(entries: TarEntrySource[]): AsyncGenerator<Buffer> {
+  for (const entry of entries) {
+    if ('data' in entry) {
+      yield createHeader(entry.name, entry.data.length);
+      yield entry.data;
+      yield padding(entry.data.length);
+      continue;
+    }
+    yield createHeader(entry.name, entry.size);
+    let written = 0;
+    for await (const chunk of createReadStream(entry.path)) {
+      written += chunk.length;
+      if (written > entry.size) break;
+      yield chunk as Buffer;
+    }
+    if (written !== entry.size) {
+      throw new Error(`${entry.path} changed while it was being archived`);
+    }
+    yield padding(entry.size);
+  }
+  yield Buffer.alloc(BLOCK * 2);
+}
+
+/**
+ * Extract the regular files whose names `accept` allows into `destDir`,
+ * skipping the rest. Returns the extracted entry names.
+ *
+ * @throws Error if the stream is not a tar archive or ends early
+ */
+export async function extractTar(
+  source: AsyncIterable<Buffer>,
+  destDir: string,
+  accept: (name: string) => boolean
+): Promise<Set<string>> {
+  const extracted = new Set<string>();
+  let pending: Buffer = Buffer.alloc(0);
+  let file: fs.FileHandle | null = null;
+  let remaining = 0;
+  let skip = 0;
+
+  try {
+    for await (const chunk of source) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+      while (pending.length > 0) {
+        if (remaining > 0) {
+          const body = pending.subarray(0, remaining);
+          if (file) await file.write(body);
+          remaining -= body.length;
+          pending = pending.subarray(body.length);
+          if (remaining === 0 && file) {
+            await file.close();
+            file = null;
+          }
+          continue;
+        }
+        if (skip > 0) {
+          const skipped = Math.min(skip, pending.length);
+          skip -= skipped;
+          pending = pending.subarray(skipped);
+          continue;
+        }
+        if (pending.length < BLOCK) break;
+
+        const header = pending.subarray(0, BLOCK);
+        pending = pending.subarray(BLOCK);
+        if (header.every((b) => b === 0)) return extracted;
+
+        const stored = parseInt(readString(header, 148, 8).trim(), 8);
+        if (stored !== checksum(header)) {
+          throw new Error('Not a tar archive');
+        }
+        const prefix = readString(header, 345, 155);
+        const name = (prefix ? `${prefix}/` : '') + readString(header, 0, 100);
+        const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+        const type = String.fromCharCode(header[156]);
+
+        remaining = size;
+        skip = padding(size).length;
+        if ((type === '0' || type === '\0') && accept(name)) {
+          const target = join(destDir, name);
+          await fs.mkdir(dirname(target), { recursive: true });
+          file = await fs.open(target, 'w');
+          extracted.add(name);
+          if (size === 0) {
+            await file.close();
+            file = null;
+          }
+        }
+      }
+    }
+  } finally {
+    await file?.close();
+  }
+  throw new Error('Archive ends unexpectedly');
+}
@@ -232,7 +232,7 @@ export class TelemetryManager {
           const logs = await this.blackboxManager.listLogs(meta.id);
           totalLogs += logs.length;
           for (const log of logs) {
-            if (log.compressionDetected) compression = true;
+            if (log.compressionDetected || log.huffmanDecoded) compression = true;
           }
         }
 
@@ -358,6 +358,7 @@ export class TelemetryManager {
       ...(record.appliedFilterChanges ?? []),
       ...(record.appliedPIDChanges ?? []),
       ...(record.appliedFeedforwardChanges ?? []),
+      ...(record.appliedRatesChanges ?? []),
     ];
     for (const change of allChanges) {
       rules.push({
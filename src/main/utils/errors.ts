@@ -23,6 +23,14 @@ export class MSPError extends BetaflightError {
   }
 }
 
+/** A compressed MSP_DATAFLASH_READ response that can't be Huffman-decoded */
+export class FlashDecodeError extends MSPError {
+  constructor(message: string, details?: any) {
+    super(message, details);
+    this.name = 'FlashDecodeError';
+  }
+}
+
 export class TimeoutError extends BetaflightError {
   constructor(message: string = 'Operation timed out') {
     super(message, 'TIMEOUT_ERROR');
@@ -51,6 +59,13 @@ export class SnapshotError extends BetaflightError {
   }
 }
 
+export class BackupError extends BetaflightError {
+  constructor(message: string, details?: any) {
+    super(message, 'BACKUP_ERROR', details);
+    this.name = 'BackupError';
+  }
+}
+
 export class ProfileLimitError extends BetaflightError {
   constructor(
     message: string = 'Free version supports 1 profile. Upgrade to Pro for unlimited profiles.'
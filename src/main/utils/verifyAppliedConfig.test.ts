@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { verifyAppliedConfig } from './verifyAppliedConfig';
-import type { PIDConfiguration } from '@shared/types/pid.types';
+import type { PIDConfiguration, RatesConfiguration } from '@shared/types/pid.types';
 import type { CurrentFilterSettings } from '@shared/types/analysis.types';
 import type { AppliedChange } from '@shared/types/tuning.types';
 
@@ -37,10 +37,20 @@ function makeFilterConfig(overrides?: Partial<CurrentFilterSettings>): CurrentFi
   };
 }
 
-function createMockMSPClient(pidConfig: PIDConfiguration, filterConfig: CurrentFilterSettings) {
+function makeRatesConfig(): RatesConfiguration {
+  const axis = { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 };
+  return { ratesType: 'ACTUAL', roll: { ...axis }, pitch: { ...axis }, yaw: { ...axis } };
+}
+
+function createMockMSPClient(
+  pidConfig: PIDConfiguration,
+  filterConfig: CurrentFilterSettings,
+  ratesConfig: RatesConfiguration = makeRatesConfig()
+) {
   return {
     getPIDConfiguration: vi.fn().mockResolvedValue(pidConfig),
     getFilterConfiguration: vi.fn().mockResolvedValue(filterConfig),
+    getRatesConfiguration: vi.fn().mockResolvedValue(ratesConfig),
     setPIDConfiguration: vi.fn().mockResolvedValue(undefined),
     isConnected: vi.fn().mockReturnValue(true),
   };
@@ -143,6 +153,26 @@ describe('verifyAppliedConfig', () => {
       expect(result.unchecked).toContain('rpm_filter_q');
     });
 
+    it('verifies dynamic lowpass and RPM filter changes read back over MSP', async () => {
+      const filterConfig = makeFilterConfig({
+        dterm_lpf1_dyn_min_hz: 80,
+        dterm_lpf1_dyn_expo: 7,
+        rpm_filter_harmonics: 2,
+      });
+      const msp = createMockMSPClient(makePIDConfig(), filterConfig);
+      const applied: AppliedChange[] = [
+        { setting: 'dterm_lpf1_dyn_min_hz', previousValue: 75, newValue: 80 },
+        { setting: 'dterm_lpf1_dyn_expo', previousValue: 5, newValue: 7 },
+        { setting: 'rpm_filter_harmonics', previousValue: 3, newValue: 1 },
+      ];
+
+      const result = await verifyAppliedConfig(msp, 'filter', undefined, applied);
+
+      expect(result.unchecked).toHaveLength(0);
+      expect(result.mismatches).toEqual(['rpm_filter_harmonics: expected 1, got 2']);
+      expect(result.actual.dterm_lpf1_dyn_expo).toBe(7);
+    });
+
     it('returns verified=true when all filter values match', async () => {
       const filterConfig = makeFilterConfig({ gyro_lpf1_static_hz: 200 });
       const msp = createMockMSPClient(makePIDConfig(), filterConfig);
@@ -241,4 +271,39 @@ describe('verifyAppliedConfig', () => {
       expect(result.actual.gyro_lpf1_static_hz).toBe(200);
     });
   });
+
+  describe('Rates', () => {
+    it('verifies rate changes read back over MSP', async () => {
+      const rates = makeRatesConfig();
+      rates.roll.rate = 77;
+      const msp = createMockMSPClient(makePIDConfig(), makeFilterConfig(), rates);
+      const applied: AppliedChange[] = [
+        { setting: 'roll_srate', previousValue: 67, newValue: 77 },
+        { setting: 'rates_type', previousValue: 3, newValue: 3 },
+      ];
+
+      const result = await verifyAppliedConfig(msp, 'pid', undefined, undefined, applied);
+
+      expect(result.verified).toBe(true);
+      expect(result.actual.roll_srate).toBe(77);
+    });
+
+    it('detects a rate mismatch', async () => {
+      const msp = createMockMSPClient(makePIDConfig(), makeFilterConfig());
+      const applied: AppliedChange[] = [{ setting: 'yaw_expo', previousValue: 0, newValue: 20 }];
+
+      const result = await verifyAppliedConfig(msp, 'pid', undefined, undefined, applied);
+
+      expect(result.verified).toBe(false);
+      expect(result.mismatches).toContain('yaw_expo: expected 20, got 0');
+    });
+
+    it('does not read rates when none were applied', async () => {
+      const msp = createMockMSPClient(makePIDConfig(), makeFilterConfig());
+
+      await verifyAppliedConfig(msp, 'pid');
+
+      expect(msp.getRatesConfiguration).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,7 +1,7 @@
 /**
  * Apply verification utility.
  *
- * Reads back PID and filter configuration from FC after apply,
+ * Reads back PID, filter and rates configuration from FC after apply,
  * compares applied changes against expected values, tracks settings
  * that cannot be verified via MSP, and runs sanity checks for
  * dangerous states (I=0, bypassed filter).
@@ -12,14 +12,17 @@
  * recorded for diagnostic bundles, not for full-state comparison.
  */
 
-import type { PIDConfiguration } from '@shared/types/pid.types';
+import type { PIDConfiguration, PIDController, RatesConfiguration } from '@shared/types/pid.types';
 import type { CurrentFilterSettings } from '@shared/types/analysis.types';
 import type { AppliedChange, TuningType } from '@shared/types/tuning.types';
+import { MSP_FILTER_CONFIG_FIELDS } from '../msp/types';
+import { RATES_TYPES } from '@shared/utils/rateCurves';
 
 /** MSP client interface — subset needed for verification */
 interface VerifyMSPClient {
   getPIDConfiguration(): Promise<PIDConfiguration>;
   getFilterConfiguration(): Promise<CurrentFilterSettings>;
+  getRatesConfiguration(): Promise<RatesConfiguration>;
   setPIDConfiguration(config: PIDConfiguration): Promise<void>;
   isConnected(): boolean;
 }
@@ -40,17 +43,7 @@ function buildExpectedPIDMap(
   currentConfig: PIDConfiguration,
   appliedChanges?: AppliedChange[]
 ): Record<string, number> {
-  const map: Record<string, number> = {
-    pid_roll_p: currentConfig.roll.P,
-    pid_roll_i: currentConfig.roll.I,
-    pid_roll_d: currentConfig.roll.D,
-    pid_pitch_p: currentConfig.pitch.P,
-    pid_pitch_i: currentConfig.pitch.I,
-    pid_pitch_d: currentConfig.pitch.D,
-    pid_yaw_p: currentConfig.yaw.P,
-    pid_yaw_i: currentConfig.yaw.I,
-    pid_yaw_d: currentConfig.yaw.D,
-  };
+  const map = buildActualPIDMap(currentConfig);
   // Patch with applied changes (these are what we wrote)
   if (appliedChanges) {
     for (const change of appliedChanges) {
@@ -62,19 +55,17 @@ function buildExpectedPIDMap(
   return map;
 }
 
-/** Build actual PID map from FC read-back */
+/** Build actual PID map from FC read-back — every controller MSP_PID reported */
 function buildActualPIDMap(config: PIDConfiguration): Record<string, number> {
-  return {
-    pid_roll_p: config.roll.P,
-    pid_roll_i: config.roll.I,
-    pid_roll_d: config.roll.D,
-    pid_pitch_p: config.pitch.P,
-    pid_pitch_i: config.pitch.I,
-    pid_pitch_d: config.pitch.D,
-    pid_yaw_p: config.yaw.P,
-    pid_yaw_i: config.yaw.I,
-    pid_yaw_d: config.yaw.D,
-  };
+  const map: Record<string, number> = {};
+  for (const controller of ['roll', 'pitch', 'yaw', 'level', 'mag'] as const) {
+    const term = config[controller];
+    if (!term) continue;
+    map[`pid_${controller}_p`] = term.P;
+    map[`pid_${controller}_i`] = term.I;
+    map[`pid_${controller}_d`] = term.D;
+  }
+  return map;
 }
 
 /** Build expected filter map — only MSP-readable fields */
@@ -82,21 +73,7 @@ function buildExpectedFilterMap(
   currentConfig: CurrentFilterSettings,
   appliedChanges?: AppliedChange[]
 ): Record<string, number> {
-  const map: Record<string, number> = {
-    gyro_lpf1_static_hz: currentConfig.gyro_lpf1_static_hz,
-    gyro_lpf2_static_hz: currentConfig.gyro_lpf2_static_hz,
-    dterm_lpf1_static_hz: currentConfig.dterm_lpf1_static_hz,
-    dterm_lpf2_static_hz: currentConfig.dterm_lpf2_static_hz,
-    dyn_notch_min_hz: currentConfig.dyn_notch_min_hz,
-    dyn_notch_max_hz: currentConfig.dyn_notch_max_hz,
-  };
-  // Optional MSP fields
-  if (currentConfig.dyn_notch_q !== undefined) {
-    map.dyn_notch_q = currentConfig.dyn_notch_q;
-  }
-  if (currentConfig.dyn_notch_count !== undefined) {
-    map.dyn_notch_count = currentConfig.dyn_notch_count;
-  }
+  const map = buildActualFilterMap(currentConfig);
   // Patch with applied changes
   if (appliedChanges) {
     for (const change of appliedChanges) {
@@ -108,21 +85,29 @@ function buildExpectedFilterMap(
   return map;
 }
 
-/** Build actual filter map from FC read-back */
+/**
+ * Build actual filter map from FC read-back — every MSP_FILTER_CONFIG field
+ * the read returned (fields newer firmware adds are absent on older FCs)
+ */
 function buildActualFilterMap(config: CurrentFilterSettings): Record<string, number> {
-  const map: Record<string, number> = {
-    gyro_lpf1_static_hz: config.gyro_lpf1_static_hz,
-    gyro_lpf2_static_hz: config.gyro_lpf2_static_hz,
-    dterm_lpf1_static_hz: config.dterm_lpf1_static_hz,
-    dterm_lpf2_static_hz: config.dterm_lpf2_static_hz,
-    dyn_notch_min_hz: config.dyn_notch_min_hz,
-    dyn_notch_max_hz: config.dyn_notch_max_hz,
-  };
-  if (config.dyn_notch_q !== undefined) {
-    map.dyn_notch_q = config.dyn_notch_q;
+  const values = config as unknown as Record<string, number | undefined>;
+  const map: Record<string, number> = {};
+  for (const key of Object.keys(MSP_FILTER_CONFIG_FIELDS)) {
+    if (values[key] !== undefined) {
+      map[key] = values[key];
+    }
   }
-  if (config.dyn_notch_count !== undefined) {
-    map.dyn_notch_count = config.dyn_notch_count;
+  return map;
+}
+
+/** Build actual rates map from FC read-back, keyed by CLI setting name */
+function buildActualRatesMap(config: RatesConfiguration): Record<string, number> {
+  const map: Record<string, number> = { rates_type: RATES_TYPES.indexOf(config.ratesType) };
+  for (const axis of ['roll', 'pitch', 'yaw'] as const) {
+    map[`${axis}_rc_rate`] = config[axis].rcRate;
+    map[`${axis}_srate`] = config[axis].rate;
+    map[`${axis}_expo`] = config[axis].rcExpo;
+    map[`${axis}_rate_limit`] = config[axis].rateLimit;
   }
   return map;
 }
@@ -164,6 +149,7 @@ function runSanityChecks(actual: Record<string, number>, tuningType: TuningType)
  * For PID mode: reads and verifies PID values only.
  * For Filter mode: reads and verifies filter settings only.
  * For Flash mode: reads and verifies both PID values and filter settings.
+ * Rate changes, when present, are read back and verified in any mode.
  * Includes PID retry on mismatch (1 attempt, PID/Flash modes only).
  * Runs sanity checks on PID terms (P/I/D = 0 on roll/pitch) and on
  * gyro_lpf1_static_hz = 0 (LPF1 bypass) where applicable.
@@ -172,7 +158,8 @@ export async function verifyAppliedConfig(
   mspClient: VerifyMSPClient,
   tuningType: TuningType,
   appliedPIDChanges?: AppliedChange[],
-  appliedFilterChanges?: AppliedChange[]
+  appliedFilterChanges?: AppliedChange[],
+  appliedRatesChanges?: AppliedChange[]
 ): Promise<VerifyResult> {
   const expected: Record<string, number> = {};
   const actual: Record<string, number> = {};
@@ -218,15 +205,19 @@ export async function verifyAppliedConfig(
       const retryConfig: PIDConfiguration = JSON.parse(JSON.stringify(pidConfig));
       if (appliedPIDChanges) {
         for (const change of appliedPIDChanges) {
-          const match = change.setting.match(/^pid_(roll|pitch|yaw)_(p|i|d)$/i);
-          if (match) {
-            const axis = match[1] as 'roll' | 'pitch' | 'yaw';
+          const match = change.setting.match(/^pid_(roll|pitch|yaw|level|mag)_(p|i|d)$/i);
+          const controller = match && retryConfig[match[1].toLowerCase() as PIDController];
+          if (match && controller) {
             const term = match[2].toUpperCase() as 'P' | 'I' | 'D';
-            retryConfig[axis][term] = change.newValue;
+            controller[term] = change.newValue;
           }
         }
       }
-      await mspClient.setPIDConfiguration(retryConfig);
+      try {
+        await mspClient.setPIDConfiguration(retryConfig);
+      } catch {
+        // A write that doesn't read back throws — the re-check below records it
+      }
       retried = true;
 
       // Re-read and re-check
@@ -272,6 +263,29 @@ export async function verifyAppliedConfig(
     }
   }
 
+  // Read rates config — only when rates were part of the apply
+  if (appliedRatesChanges && appliedRatesChanges.length > 0) {
+    const actualRates = buildActualRatesMap(await mspClient.getRatesConfiguration());
+    const expectedRates = { ...actualRates };
+    for (const change of appliedRatesChanges) {
+      if (change.setting in expectedRates) {
+        expectedRates[change.setting] = change.newValue;
+      }
+    }
+
+    Object.assign(expected, expectedRates);
+    Object.assign(actual, actualRates);
+
+    for (const change of appliedRatesChanges) {
+      const act = actualRates[change.setting];
+      if (act === undefined) {
+        unchecked.push(change.setting);
+      } else if (act !== change.newValue) {
+        mismatches.push(`${change.setting}: expected ${change.newValue}, got ${act}`);
+      }
+    }
+  }
+
   // Sanity checks on actual values (detect I=0, bypassed filter, etc.)
   const sanityWarnings = runSanityChecks(actual, tuningType);
   const suspicious = sanityWarnings.length > 0;
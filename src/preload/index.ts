@@ -6,6 +6,8 @@ import type {
   ConfigurationSnapshot,
   SnapshotMetadata,
   ConnectionStatus,
+  ConnectionSummary,
+  PortsChangedEvent,
 } from '@shared/types/common.types';
 import type {
   DroneProfile,
@@ -19,11 +21,15 @@ import type {
   RatesConfiguration,
 } from '@shared/types/pid.types';
 import type {
+  BlackboxDownloadOptions,
+  BlackboxDownloadProgress,
   BlackboxInfo,
   BlackboxLogMetadata,
   BlackboxParseResult,
   BlackboxParseProgress,
   BlackboxSettings,
+  GpsTrackFormat,
+  FlightDataExportFormat,
 } from '@shared/types/blackbox.types';
 import type {
   FilterAnalysisResult,
@@ -37,6 +43,7 @@ import type {
   ApplyRecommendationsProgress,
   SnapshotRestoreResult,
   SnapshotRestoreProgress,
+  SnapshotRestoreMode,
   FixBlackboxSettingsInput,
   FixBlackboxSettingsResult,
 } from '@shared/types/ipc.types';
@@ -48,7 +55,10 @@ import type {
   TransferFunctionMetricsSummary,
 } from '@shared/types/tuning-history.types';
 import type { TelemetrySettings } from '@shared/types/telemetry.types';
+import type { BenchTestConfig, BenchTestUpdate } from '@shared/types/bench.types';
+import type { CLIBatchResult, SettingsSchema } from '@shared/types/cli.types';
 import type { LicenseInfo } from '@shared/types/license.types';
+import type { AppBackupExportOptions, AppBackupImportResult } from '@shared/types/backup.types';
 
 const betaflightAPI: BetaflightAPI = {
   // App
@@ -83,8 +93,8 @@ const betaflightAPI: BetaflightAPI = {
     }
   },
 
-  async disconnect(): Promise<void> {
-    const response = await ipcRenderer.invoke(IPCChannel.CONNECTION_DISCONNECT);
+  async disconnect(connectionId?: string): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.CONNECTION_DISCONNECT, connectionId);
     if (!response.success) {
       throw new Error(response.error);
     }
@@ -106,17 +116,63 @@ const betaflightAPI: BetaflightAPI = {
     };
   },
 
+  async listConnections(): Promise<ConnectionSummary[]> {
+    const response = await ipcRenderer.invoke(IPCChannel.CONNECTION_LIST);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to list connections');
+    }
+    return response.data;
+  },
+
+  async setActiveConnection(connectionId: string): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.CONNECTION_SET_ACTIVE, connectionId);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to switch drone');
+    }
+  },
+
+  onConnectionsChanged(callback: (connections: ConnectionSummary[]) => void): () => void {
+    const listener = (_: any, connections: ConnectionSummary[]) => callback(connections);
+    ipcRenderer.on(IPCChannel.EVENT_CONNECTIONS_CHANGED, listener);
+    return () => {
+      ipcRenderer.removeListener(IPCChannel.EVENT_CONNECTIONS_CHANGED, listener);
+    };
+  },
+
+  onPortsChanged(callback: (event: PortsChangedEvent) => void): () => void {
+    const listener = (_: any, event: PortsChangedEvent) => callback(event);
+    ipcRenderer.on(IPCChannel.EVENT_PORTS_CHANGED, listener);
+    return () => {
+      ipcRenderer.removeListener(IPCChannel.EVENT_PORTS_CHANGED, listener);
+    };
+  },
+
+  async getAutoConnect(): Promise<boolean> {
+    const response = await ipcRenderer.invoke(IPCChannel.CONNECTION_GET_AUTO_CONNECT);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get auto-connect setting');
+    }
+    return response.data;
+  },
+
+  async setAutoConnect(enabled: boolean): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.CONNECTION_SET_AUTO_CONNECT, enabled);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to set auto-connect setting');
+    }
+  },
+
   // FC Info
-  async getFCInfo(): Promise<FCInfo> {
-    const response = await ipcRenderer.invoke(IPCChannel.FC_GET_INFO);
+  async getFCInfo(connectionId?: string): Promise<FCInfo> {
+    const response = await ipcRenderer.invoke(IPCChannel.FC_GET_INFO, connectionId);
     if (!response.success) {
       throw new Error(response.error);
     }
     return response.data;
   },
 
-  async exportCLI(format: 'diff' | 'dump'): Promise<string> {
-    const response = await ipcRenderer.invoke(IPCChannel.FC_EXPORT_CLI, format);
+  async exportCLI(format: 'diff' | 'dump', connectionId?: string): Promise<string> {
+    const response = await ipcRenderer.invoke(IPCChannel.FC_EXPORT_CLI, format, connectionId);
     if (!response.success) {
       throw new Error(response.error);
     }
@@ -131,40 +187,59 @@ const betaflightAPI: BetaflightAPI = {
     return response.data;
   },
 
-  async getFeedforwardConfig(): Promise<FeedforwardConfiguration> {
-    const response = await ipcRenderer.invoke(IPCChannel.FC_GET_FEEDFORWARD_CONFIG);
+  async getFeedforwardConfig(connectionId?: string): Promise<FeedforwardConfiguration> {
+    const response = await ipcRenderer.invoke(IPCChannel.FC_GET_FEEDFORWARD_CONFIG, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to get feedforward configuration');
     }
     return response.data;
   },
 
-  async getRatesConfig(): Promise<RatesConfiguration> {
-    const response = await ipcRenderer.invoke(IPCChannel.FC_GET_RATES_CONFIG);
+  async getRatesConfig(connectionId?: string): Promise<RatesConfiguration> {
+    const response = await ipcRenderer.invoke(IPCChannel.FC_GET_RATES_CONFIG, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to get rates configuration');
     }
     return response.data;
   },
 
-  async fixBlackboxSettings(input: FixBlackboxSettingsInput): Promise<FixBlackboxSettingsResult> {
-    const response = await ipcRenderer.invoke(IPCChannel.FC_FIX_BLACKBOX_SETTINGS, input);
+  async getSettingsSchema(connectionId?: string): Promise<SettingsSchema | null> {
+    const response = await ipcRenderer.invoke(IPCChannel.FC_GET_SETTINGS_SCHEMA, connectionId);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to get settings schema');
+    }
+    return response.data;
+  },
+
+  async fixBlackboxSettings(
+    input: FixBlackboxSettingsInput,
+    connectionId?: string
+  ): Promise<FixBlackboxSettingsResult> {
+    const response = await ipcRenderer.invoke(
+      IPCChannel.FC_FIX_BLACKBOX_SETTINGS,
+      input,
+      connectionId
+    );
     if (!response.success) {
       throw new Error(response.error || 'Failed to fix blackbox settings');
     }
     return response.data;
   },
 
-  async selectPidProfile(index: number): Promise<void> {
-    const response = await ipcRenderer.invoke(IPCChannel.FC_SELECT_PID_PROFILE, index);
+  async selectPidProfile(index: number, connectionId?: string): Promise<void> {
+    const response = await ipcRenderer.invoke(
+      IPCChannel.FC_SELECT_PID_PROFILE,
+      index,
+      connectionId
+    );
     if (!response.success) {
       throw new Error(response.error || 'Failed to select PID profile');
     }
   },
 
   // Snapshots
-  async createSnapshot(label?: string): Promise<ConfigurationSnapshot> {
-    const response = await ipcRenderer.invoke(IPCChannel.SNAPSHOT_CREATE, label);
+  async createSnapshot(label?: string, connectionId?: string): Promise<ConfigurationSnapshot> {
+    const response = await ipcRenderer.invoke(IPCChannel.SNAPSHOT_CREATE, label, connectionId);
     if (!response.success) {
       throw new Error(response.error);
     }
@@ -201,6 +276,14 @@ const betaflightAPI: BetaflightAPI = {
     return response.data;
   },
 
+  async importSnapshot(): Promise<ConfigurationSnapshot | null> {
+    const response = await ipcRenderer.invoke(IPCChannel.SNAPSHOT_IMPORT);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to import snapshot');
+    }
+    return response.data;
+  },
+
   // Profiles
   async createProfile(input: ProfileCreationInput): Promise<DroneProfile> {
     const response = await ipcRenderer.invoke(IPCChannel.PROFILE_CREATE, input);
@@ -318,47 +401,58 @@ const betaflightAPI: BetaflightAPI = {
   },
 
   // PID Configuration
-  async getPIDConfig(): Promise<PIDConfiguration> {
-    const response = await ipcRenderer.invoke(IPCChannel.PID_GET_CONFIG);
+  async getPIDConfig(connectionId?: string): Promise<PIDConfiguration> {
+    const response = await ipcRenderer.invoke(IPCChannel.PID_GET_CONFIG, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to get PID configuration');
     }
     return response.data;
   },
 
-  async updatePIDConfig(config: PIDConfiguration): Promise<void> {
-    const response = await ipcRenderer.invoke(IPCChannel.PID_UPDATE_CONFIG, config);
+  async updatePIDConfig(config: PIDConfiguration, connectionId?: string): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.PID_UPDATE_CONFIG, config, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to update PID configuration');
     }
   },
 
-  async savePIDConfig(): Promise<void> {
-    const response = await ipcRenderer.invoke(IPCChannel.PID_SAVE_CONFIG);
+  async savePIDConfig(connectionId?: string): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.PID_SAVE_CONFIG, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to save PID configuration');
     }
   },
 
   // Blackbox
-  async getBlackboxInfo(): Promise<BlackboxInfo> {
-    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_GET_INFO);
+  async getBlackboxInfo(connectionId?: string): Promise<BlackboxInfo> {
+    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_GET_INFO, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to get Blackbox info');
     }
     return response.data;
   },
 
-  async downloadBlackboxLog(onProgress?: (progress: number) => void): Promise<BlackboxLogMetadata> {
+  async downloadBlackboxLog(
+    onProgress?: (progress: number, detail?: BlackboxDownloadProgress) => void,
+    options?: BlackboxDownloadOptions,
+    connectionId?: string
+  ): Promise<BlackboxLogMetadata> {
     // Set up progress listener if callback provided
-    let progressListener: ((event: any, progress: number) => void) | null = null;
+    let progressListener:
+      | ((event: any, progress: number, detail?: BlackboxDownloadProgress) => void)
+      | null = null;
     if (onProgress) {
-      progressListener = (_event: any, progress: number) => onProgress(progress);
+      progressListener = (_event: any, progress: number, detail?: BlackboxDownloadProgress) =>
+        onProgress(progress, detail);
       ipcRenderer.on(IPCChannel.EVENT_BLACKBOX_DOWNLOAD_PROGRESS, progressListener);
     }
 
     try {
-      const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_DOWNLOAD_LOG);
+      const response = await ipcRenderer.invoke(
+        IPCChannel.BLACKBOX_DOWNLOAD_LOG,
+        options,
+        connectionId
+      );
       if (!response.success) {
         throw new Error(response.error || 'Failed to download Blackbox log');
       }
@@ -386,8 +480,8 @@ const betaflightAPI: BetaflightAPI = {
     }
   },
 
-  async eraseBlackboxFlash(): Promise<void> {
-    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_ERASE_FLASH);
+  async eraseBlackboxFlash(connectionId?: string): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_ERASE_FLASH, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to erase Blackbox flash');
     }
@@ -400,8 +494,10 @@ const betaflightAPI: BetaflightAPI = {
     }
   },
 
-  async testBlackboxRead(): Promise<{ success: boolean; message: string; data?: string }> {
-    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_TEST_READ);
+  async testBlackboxRead(
+    connectionId?: string
+  ): Promise<{ success: boolean; message: string; data?: string }> {
+    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_TEST_READ, connectionId);
     if (!response.success) {
       throw new Error(response.error || 'Failed to test Blackbox read');
     }
@@ -439,6 +535,22 @@ const betaflightAPI: BetaflightAPI = {
     return response.data;
   },
 
+  async exportBlackboxTrack(logId: string, format: GpsTrackFormat): Promise<string | null> {
+    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_EXPORT_TRACK, logId, format);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to export GPS track');
+    }
+    return response.data;
+  },
+
+  async exportBlackboxData(logId: string, format: FlightDataExportFormat): Promise<string | null> {
+    const response = await ipcRenderer.invoke(IPCChannel.BLACKBOX_EXPORT_DATA, logId, format);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to export flight data');
+    }
+    return response.data;
+  },
+
   onBlackboxParseProgress(callback: (progress: BlackboxParseProgress) => void): () => void {
     const listener = (_: any, progress: BlackboxParseProgress) => callback(progress);
     ipcRenderer.on(IPCChannel.EVENT_BLACKBOX_PARSE_PROGRESS, listener);
@@ -539,8 +651,19 @@ const betaflightAPI: BetaflightAPI = {
   },
 
   // Snapshot Restore
-  async restoreSnapshot(id: string, createBackup: boolean): Promise<SnapshotRestoreResult> {
-    const response = await ipcRenderer.invoke(IPCChannel.SNAPSHOT_RESTORE, id, createBackup);
+  async restoreSnapshot(
+    id: string,
+    createBackup: boolean,
+    mode: SnapshotRestoreMode = 'merge',
+    connectionId?: string
+  ): Promise<SnapshotRestoreResult> {
+    const response = await ipcRenderer.invoke(
+      IPCChannel.SNAPSHOT_RESTORE,
+      id,
+      createBackup,
+      mode,
+      connectionId
+    );
     if (!response.success) {
       throw new Error(response.error || 'Failed to restore snapshot');
     }
@@ -555,11 +678,64 @@ const betaflightAPI: BetaflightAPI = {
     };
   },
 
+  // Bench vibration check
+  async startBenchTest(config: BenchTestConfig, connectionId?: string): Promise<BenchTestUpdate> {
+    const response = await ipcRenderer.invoke(IPCChannel.BENCH_START, config, connectionId);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to run bench test');
+    }
+    return response.data;
+  },
+
+  async stopBenchTest(): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.BENCH_STOP);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to stop bench test');
+    }
+  },
+
+  onBenchUpdate(callback: (update: BenchTestUpdate) => void): () => void {
+    const listener = (_: any, update: BenchTestUpdate) => callback(update);
+    ipcRenderer.on(IPCChannel.EVENT_BENCH_UPDATE, listener);
+    return () => {
+      ipcRenderer.removeListener(IPCChannel.EVENT_BENCH_UPDATE, listener);
+    };
+  },
+
+  // CLI console
+  async sendCLICommand(command: string, connectionId?: string): Promise<string> {
+    const response = await ipcRenderer.invoke(IPCChannel.CLI_SEND_COMMAND, command, connectionId);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to run CLI command');
+    }
+    return response.data;
+  },
+
+  async applyCLIBatch(commands: string[], connectionId?: string): Promise<CLIBatchResult> {
+    const response = await ipcRenderer.invoke(IPCChannel.CLI_APPLY_BATCH, commands, connectionId);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to apply CLI batch');
+    }
+    return response.data;
+  },
+
+  async exitCLI(connectionId?: string): Promise<void> {
+    const response = await ipcRenderer.invoke(IPCChannel.CLI_EXIT, connectionId);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to exit CLI');
+    }
+  },
+
   // Tuning
   async applyRecommendations(
-    input: ApplyRecommendationsInput
+    input: ApplyRecommendationsInput,
+    connectionId?: string
   ): Promise<ApplyRecommendationsResult> {
-    const response = await ipcRenderer.invoke(IPCChannel.TUNING_APPLY_RECOMMENDATIONS, input);
+    const response = await ipcRenderer.invoke(
+      IPCChannel.TUNING_APPLY_RECOMMENDATIONS,
+      input,
+      connectionId
+    );
     if (!response.success) {
       throw new Error(response.error || 'Failed to apply recommendations');
     }
@@ -693,6 +869,23 @@ const betaflightAPI: BetaflightAPI = {
     return response.data;
   },
 
+  // App backup
+  async exportAppBackup(options?: AppBackupExportOptions): Promise<string | null> {
+    const response = await ipcRenderer.invoke(IPCChannel.APP_BACKUP_EXPORT, options);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to export backup');
+    }
+    return response.data;
+  },
+
+  async importAppBackup(): Promise<AppBackupImportResult | null> {
+    const response = await ipcRenderer.invoke(IPCChannel.APP_BACKUP_IMPORT);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to import backup');
+    }
+    return response.data;
+  },
+
   // Auto-update
   async checkForUpdate(): Promise<void> {
     const response = await ipcRenderer.invoke(IPCChannel.UPDATE_CHECK);
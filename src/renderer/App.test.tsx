@@ -42,11 +42,13 @@ vi.mock('./hooks/useConnection', () => ({
   useConnection: vi.fn(() => ({
     ports: [],
     status: { connected: false },
+    connections: [],
     loading: false,
     error: null,
     scanPorts: vi.fn(),
     connect: vi.fn(),
     disconnect: vi.fn(),
+    switchConnection: vi.fn(),
   })),
   markIntentionalDisconnect: vi.fn(),
   resetConnectionGlobalState: vi.fn(),
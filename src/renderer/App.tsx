@@ -3,6 +3,8 @@ import { ConnectionPanel } from './components/ConnectionPanel/ConnectionPanel';
 import { FCInfoDisplay } from './components/FCInfo/FCInfoDisplay';
 import { BlackboxStatus } from './components/BlackboxStatus/BlackboxStatus';
 import { SnapshotManager } from './components/SnapshotManager/SnapshotManager';
+import { BenchVibrationPanel } from './components/BenchTest/BenchVibrationPanel';
+import { CLIConsole } from './components/CLIConsole/CLIConsole';
 import { ProfileWizard } from './components/ProfileWizard';
 import type { FlightStyle } from '@shared/types/profile.types';
 import { ProfileSelector } from './components/ProfileSelector';
@@ -298,14 +300,6 @@ function AppContent() {
           });
           toast.success(`Log downloaded: ${metadata.filename}`);
 
-          // Block tuning flow if Huffman compression detected
-          if (metadata.compressionDetected) {
-            toast.error(
-              'Huffman compressed data detected — analysis unavailable. Reflash firmware without USE_HUFFMAN or download logs via Betaflight Configurator.'
-            );
-            break;
-          }
-
           // Transition session to *_analysis phase and store the log ID.
           // Clear eraseCompleted — the phase is advancing past the erase step.
           const phase = tuning.session?.phase;
@@ -456,6 +450,7 @@ function AppContent() {
     filterChanges?: AppliedChange[];
     pidChanges?: AppliedChange[];
     feedforwardChanges?: AppliedChange[];
+    ratesChanges?: AppliedChange[];
     filterMetrics?: FilterMetricsSummary;
     pidMetrics?: PIDMetricsSummary;
     transferFunctionMetrics?: TransferFunctionMetricsSummary;
@@ -464,7 +459,8 @@ function AppContent() {
     const totalChanges =
       (changes.filterChanges?.length ?? 0) +
       (changes.pidChanges?.length ?? 0) +
-      (changes.feedforwardChanges?.length ?? 0);
+      (changes.feedforwardChanges?.length ?? 0) +
+      (changes.ratesChanges?.length ?? 0);
 
     // No changes applied → skip verification, go directly to completed
     if (totalChanges === 0) {
@@ -501,6 +497,7 @@ function AppContent() {
       await tuning.updatePhase(TUNING_PHASE.PID_APPLIED, {
         appliedPIDChanges: changes.pidChanges,
         appliedFeedforwardChanges: changes.feedforwardChanges,
+        appliedRatesChanges: changes.ratesChanges,
         pidMetrics: changes.pidMetrics,
       });
     } else if (phase === TUNING_PHASE.FLASH_ANALYSIS) {
@@ -828,6 +825,8 @@ function AppContent() {
                 refreshKey={bbRefreshKey}
               />
             )}
+            {isConnected && !tuning.session && <BenchVibrationPanel />}
+            {isConnected && !tuning.session && <CLIConsole />}
             {isConnected && currentProfile && <SnapshotManager />}
             {isConnected && currentProfile && (
               <TuningHistoryPanel
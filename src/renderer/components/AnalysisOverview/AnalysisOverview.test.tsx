@@ -35,6 +35,7 @@ const mockSession: BlackboxLogSession = {
     pFieldDefs: [],
     sFieldDefs: [],
     gFieldDefs: [],
+    hFieldDefs: [],
     iInterval: 32,
     pInterval: 1,
     pDenom: 1,
@@ -89,6 +90,7 @@ const mockSession: BlackboxLogSession = {
     durationSeconds: 60,
     frameCount: 480000,
   },
+  events: [],
   corruptedFrameCount: 0,
   warnings: [],
 };
@@ -366,7 +366,10 @@ export function AnalysisOverview({ logId, logName, onExit }: AnalysisOverviewPro
               <div style={{ marginTop: 16 }}>
                 <h4 className="chart-title">Throttle Spectrogram</h4>
                 <p className="chart-description">{CHART_DESCRIPTIONS.throttleSpectrogram}</p>
-                <ThrottleSpectrogramChart data={overview.filterResult.throttleSpectrogram} />
+                <ThrottleSpectrogramChart
+                  data={overview.filterResult.throttleSpectrogram}
+                  rpmData={overview.filterResult.rpmSpectrogram}
+                />
               </div>
             )}
         </div>
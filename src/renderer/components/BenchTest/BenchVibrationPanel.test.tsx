@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BenchVibrationPanel } from './BenchVibrationPanel';
+import type { BenchTestUpdate } from '@shared/types/bench.types';
+import type { NoiseProfile } from '@shared/types/analysis.types';
+
+vi.mock('../TuningWizard/charts/SpectrumChart', () => ({
+  SpectrumChart: () => <div data-testid="spectrum-chart" />,
+}));
+
+const spectrum = {
+  frequencies: new Float64Array([20, 100]),
+  magnitudes: new Float64Array([-40, -50]),
+};
+const noise: NoiseProfile = {
+  roll: { spectrum, noiseFloorDb: -40, peaks: [] },
+  pitch: { spectrum, noiseFloorDb: -40, peaks: [] },
+  yaw: { spectrum, noiseFloorDb: -45, peaks: [] },
+  overallLevel: 'low',
+};
+
+const result = (m: number) => ({
+  motors: [m],
+  label: `Motor ${m + 1}`,
+  noise,
+  sampleRateHz: 400,
+  sampleCount: 2800,
+});
+
+describe('BenchVibrationPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  async function expand() {
+    const user = userEvent.setup();
+    render(<BenchVibrationPanel />);
+    await user.click(screen.getByText('Bench Vibration Check'));
+    return user;
+  }
+
+  it('keeps Start disabled until props-off is confirmed', async () => {
+    const user = await expand();
+
+    const startBtn = screen.getByRole('button', { name: 'Start Bench Test' });
+    expect(startBtn).toBeDisabled();
+
+    await user.click(screen.getByLabelText(/propellers are removed/));
+    expect(startBtn).toBeEnabled();
+  });
+
+  it('starts the test with the chosen settings and shows Stop while running', async () => {
+    let resolve!: (u: BenchTestUpdate) => void;
+    vi.mocked(window.betaflight.startBenchTest).mockReturnValue(
+      new Promise((r) => {
+        resolve = r;
+      })
+    );
+    const user = await expand();
+
+    await user.selectOptions(screen.getByRole('combobox'), 'together');
+    await user.click(screen.getByLabelText(/propellers are removed/));
+    await user.click(screen.getByRole('button', { name: 'Start Bench Test' }));
+
+    expect(window.betaflight.startBenchTest).toHaveBeenCalledWith({
+      mode: 'together',
+      throttlePercent: 15,
+      stepSeconds: 8,
+      propsRemoved: true,
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Stop Motors' }));
+    expect(window.betaflight.stopBenchTest).toHaveBeenCalled();
+
+    await act(async () => {
+      resolve({
+        state: 'stopped',
+        step: 0,
+        totalSteps: 1,
+        activeMotors: [],
+        remainingSeconds: 0,
+        results: [],
+        issues: [],
+        message: 'Stopped by user',
+      });
+    });
+    expect(screen.getByText('Stopped by user')).toBeInTheDocument();
+    expect(screen.getByLabelText(/propellers are removed/)).not.toBeChecked();
+  });
+
+  it('shows a spectrum per motor and the issues found', async () => {
+    vi.mocked(window.betaflight.startBenchTest).mockResolvedValue({
+      state: 'complete',
+      step: 3,
+      totalSteps: 4,
+      activeMotors: [],
+      remainingSeconds: 0,
+      results: [result(0), result(1), result(2), result(3)],
+      issues: [
+        {
+          type: 'motor_imbalance',
+          severity: 'warning',
+          message: 'Motor 3 is 12 dB noisier than the other motors on the bench.',
+          measuredValue: 12,
+          threshold: 8,
+        },
+      ],
+    });
+    const user = await expand();
+
+    await user.click(screen.getByLabelText(/propellers are removed/));
+    await user.click(screen.getByRole('button', { name: 'Start Bench Test' }));
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId('spectrum-chart')).toHaveLength(4);
+    });
+    expect(screen.getByText('Motor 4')).toBeInTheDocument();
+    expect(screen.getByText(/Motor 3 is 12 dB noisier/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { BENCH_TEST } from '@shared/constants';
+import type { BenchMotorMode } from '@shared/types/bench.types';
+import { useBenchTest } from '../../hooks/useBenchTest';
+import { SpectrumChart } from '../TuningWizard/charts/SpectrumChart';
+import './BenchVibrationPanel.css';
+
+export function BenchVibrationPanel() {
+  const { update, running, error, start, stop } = useBenchTest();
+  const [expanded, setExpanded] = useState(false);
+  const [mode, setMode] = useState<BenchMotorMode>('individual');
+  const [throttlePercent, setThrottlePercent] = useState<number>(
+    BENCH_TEST.DEFAULT_THROTTLE_PERCENT
+  );
+  const [stepSeconds, setStepSeconds] = useState<number>(BENCH_TEST.DEFAULT_STEP_SECONDS);
+  const [propsRemoved, setPropsRemoved] = useState(false);
+
+  const handleStart = () => {
+    start({ mode, throttlePercent, stepSeconds, propsRemoved });
+    // Require a fresh confirmation for every run
+    setPropsRemoved(false);
+  };
+
+  const spinning = running && update?.state === 'spinning';
+
+  return (
+    <div className="bench-panel">
+      <button
+        className="bench-panel-header"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded || running}
+      >
+        <span className="bench-panel-title">Bench Vibration Check</span>
+        {running && <span className="bench-panel-live">Motors spinning</span>}
+      </button>
+
+      {(expanded || running) && (
+        <div className="bench-panel-body">
+          <p className="bench-panel-hint">
+            Spins motors over USB with the props off and shows the gyro spectrum live. A motor that
+            is much louder than the rest usually has a worn bearing or bent shaft.
+          </p>
+
+          <div className="bench-controls">
+            <label>
+              Motors
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as BenchMotorMode)}
+                disabled={running}
+              >
+                <option value="individual">Each motor in turn</option>
+                <option value="together">All motors together</option>
+              </select>
+            </label>
+            <label>
+              Throttle {throttlePercent}%
+              <input
+                type="range"
+                min={1}
+                max={BENCH_TEST.MAX_THROTTLE_PERCENT}
+                value={throttlePercent}
+                onChange={(e) => setThrottlePercent(Number(e.target.value))}
+                disabled={running}
+              />
+            </label>
+            <label>
+              Seconds per step
+              <input
+                type="number"
+                min={2}
+                max={BENCH_TEST.MAX_STEP_SECONDS}
+                value={stepSeconds}
+                onChange={(e) => setStepSeconds(Number(e.target.value))}
+                disabled={running}
+              />
+            </label>
+          </div>
+
+          <label className="bench-confirm">
+            <input
+              type="checkbox"
+              checked={propsRemoved}
+              onChange={(e) => setPropsRemoved(e.target.checked)}
+              disabled={running}
+            />
+            All propellers are removed and the craft is secured
+          </label>
+
+          <div className="bench-actions">
+            {running ? (
+              <button className="danger bench-stop" onClick={stop}>
+                Stop Motors
+              </button>
+            ) : (
+              <button className="primary" onClick={handleStart} disabled={!propsRemoved}>
+                Start Bench Test
+              </button>
+            )}
+            {spinning && update && (
+              <span className="bench-status">
+                Step {update.step + 1} of {update.totalSteps} — {update.remainingSeconds}s left
+              </span>
+            )}
+          </div>
+
+          {error && <div className="bench-error">{error}</div>}
+          {!running && update?.message && <div className="bench-error">{update.message}</div>}
+
+          {update && update.issues.length > 0 && (
+            <ul className="bench-issues">
+              {update.issues.map((issue, i) => (
+                <li key={i} className={`bench-issue bench-issue-${issue.severity}`}>
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {update?.state === 'complete' && update.issues.length === 0 && (
+            <div className="bench-ok">No vibration issues found.</div>
+          )}
+
+          {update?.results.map((result) => (
+            <div key={result.label} className="bench-result">
+              <div className="bench-result-header">
+                <span>{result.label}</span>
+                <span className="bench-result-rate">
+                  {result.sampleRateHz} Hz gyro over MSP, {result.sampleCount} samples
+                </span>
+              </div>
+              <SpectrumChart noise={result.noise} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -591,6 +591,114 @@ describe('BlackboxStatus', () => {
     });
   });
 
+  describe('GPS track export', () => {
+    it('exports the track of a log in the chosen format', async () => {
+      const user = userEvent.setup();
+      vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
+      vi.mocked(window.betaflight.listBlackboxLogs).mockResolvedValue([makeMockLog(1)]);
+
+      render(<BlackboxStatus />);
+
+      await waitFor(() => {
+        expect(screen.getByText('KML')).toBeInTheDocument();
+      });
+      await user.click(screen.getByText('KML'));
+
+      expect(window.betaflight.exportBlackboxTrack).toHaveBeenCalledWith('log-1', 'kml');
+    });
+
+    it('hides track export for undecoded compressed logs', async () => {
+      vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
+      vi.mocked(window.betaflight.listBlackboxLogs).mockResolvedValue([
+        { ...makeMockLog(1), compressionDetected: true },
+      ]);
+
+      render(<BlackboxStatus />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Huffman')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('GPX')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('flight data export', () => {
+    it('exports the flight data of a log in the chosen format', async () => {
+      const user = userEvent.setup();
+      vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
+      vi.mocked(window.betaflight.listBlackboxLogs).mockResolvedValue([makeMockLog(1)]);
+
+      render(<BlackboxStatus />);
+
+      await waitFor(() => {
+        expect(screen.getByText('CSV')).toBeInTheDocument();
+      });
+      await user.click(screen.getByText('CSV'));
+      await user.click(screen.getByText('Arrow'));
+
+      expect(window.betaflight.exportBlackboxData).toHaveBeenCalledWith('log-1', 'csv');
+      expect(window.betaflight.exportBlackboxData).toHaveBeenCalledWith('log-1', 'arrow');
+    });
+  });
+
+  describe('incremental and resumed downloads', () => {
+    it('offers Download New once a flash download exists and requests new data only', async () => {
+      const user = userEvent.setup();
+      vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
+      vi.mocked(window.betaflight.listBlackboxLogs).mockResolvedValue([
+        { ...makeMockLog(1), flashRange: { start: 0, end: 4096 } },
+      ]);
+      vi.mocked(window.betaflight.downloadBlackboxLog).mockResolvedValue(makeMockLog(2));
+
+      render(<BlackboxStatus />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Download New')).toBeInTheDocument();
+      });
+      await user.click(screen.getByText('Download New'));
+
+      expect(window.betaflight.downloadBlackboxLog).toHaveBeenCalledWith(expect.any(Function), {
+        newDataOnly: true,
+      });
+    });
+
+    it('hides Download New without a previous flash download', async () => {
+      vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
+      vi.mocked(window.betaflight.listBlackboxLogs).mockResolvedValue([makeMockLog(1)]);
+
+      render(<BlackboxStatus />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Download Logs')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Download New')).not.toBeInTheDocument();
+    });
+
+    it('shows the offset a resumed download continues from', async () => {
+      const user = userEvent.setup();
+      vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
+      vi.mocked(window.betaflight.downloadBlackboxLog).mockImplementation((onProgress) => {
+        onProgress?.(75, {
+          downloaded: 6 * 1024 * 1024,
+          total: 8 * 1024 * 1024,
+          percent: 75,
+          resumedFrom: 6 * 1024 * 1024,
+        });
+        return new Promise(() => {});
+      });
+
+      render(<BlackboxStatus />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Download Logs')).toBeInTheDocument();
+      });
+      await user.click(screen.getByText('Download Logs'));
+
+      expect(await screen.findByText('Continuing from 6.00 MB')).toBeInTheDocument();
+      expect(screen.getByText('Downloading... 75%')).toBeInTheDocument();
+    });
+  });
+
   describe('Huffman compression detection', () => {
     it('shows compression badge and warning for compressed logs', async () => {
       const compressedLog = {
@@ -628,6 +736,25 @@ describe('BlackboxStatus', () => {
       expect(analyzeBtn.title).toContain('Huffman');
     });
 
+    it('keeps Analyze enabled for logs decoded from compressed reads', async () => {
+      const decodedLog = {
+        ...makeMockLog(1),
+        huffmanDecoded: true,
+      };
+      vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
+      vi.mocked(window.betaflight.listBlackboxLogs).mockResolvedValue([decodedLog]);
+
+      render(<BlackboxStatus onAnalyze={vi.fn()} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Huffman')).toBeInTheDocument();
+      });
+
+      expect(screen.queryByText(/Huffman compressed/)).not.toBeInTheDocument();
+      const analyzeBtn = screen.getByText('Analyze').closest('button')!;
+      expect(analyzeBtn).not.toBeDisabled();
+    });
+
     it('does not show compression warning for normal logs', async () => {
       vi.mocked(window.betaflight.getBlackboxInfo).mockResolvedValue(mockBlackboxInfoSupported);
       vi.mocked(window.betaflight.listBlackboxLogs).mockResolvedValue([makeMockLog(1)]);
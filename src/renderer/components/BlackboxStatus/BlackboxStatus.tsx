@@ -3,6 +3,11 @@ import { useBlackboxInfo } from '../../hooks/useBlackboxInfo';
 import { useBlackboxLogs } from '../../hooks/useBlackboxLogs';
 import { useToast } from '../../hooks/useToast';
 import { useDemoMode } from '../../hooks/useDemoMode';
+import type {
+  BlackboxDownloadOptions,
+  FlightDataExportFormat,
+  GpsTrackFormat,
+} from '@shared/types/blackbox.types';
 import './BlackboxStatus.css';
 
 const PAGE_SIZE = 20;
@@ -26,6 +31,7 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
   const toast = useToast();
   const [downloading, setDownloading] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
+  const [resumedFrom, setResumedFrom] = useState(0);
   const [showEraseConfirm, setShowEraseConfirm] = useState(false);
   const [erasing, setErasing] = useState(false);
   const [logsPage, setLogsPage] = useState(persistedLogsPage);
@@ -61,14 +67,18 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
   const logsPageStart = (logsPage - 1) * PAGE_SIZE;
   const pageLogs = sortedLogs.slice(logsPageStart, logsPageStart + PAGE_SIZE);
 
-  const handleDownload = async () => {
+  const handleDownload = async (options?: BlackboxDownloadOptions) => {
     setDownloading(true);
     setDownloadProgress(0);
+    setResumedFrom(0);
 
     try {
-      const metadata = await window.betaflight.downloadBlackboxLog((progress) => {
+      const metadata = await window.betaflight.downloadBlackboxLog((progress, detail) => {
         setDownloadProgress(progress);
-      });
+        if (detail?.resumedFrom) {
+          setResumedFrom(detail.resumedFrom);
+        }
+      }, options);
 
       toast.success(`Log downloaded: ${metadata.filename} (${formatSize(metadata.size)})`);
       setDownloadProgress(100);
@@ -82,6 +92,7 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
       setTimeout(() => {
         setDownloading(false);
         setDownloadProgress(0);
+        setResumedFrom(0);
       }, 2000);
     }
   };
@@ -113,6 +124,30 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
     }
   };
 
+  const handleExportTrack = async (logId: string, format: GpsTrackFormat) => {
+    try {
+      const filePath = await window.betaflight.exportBlackboxTrack(logId, format);
+      if (filePath) {
+        toast.success(`GPS track exported: ${filePath}`);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to export GPS track';
+      toast.error(message);
+    }
+  };
+
+  const handleExportData = async (logId: string, format: FlightDataExportFormat) => {
+    try {
+      const filePath = await window.betaflight.exportBlackboxData(logId, format);
+      if (filePath) {
+        toast.success(`Flight data exported: ${filePath}`);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to export flight data';
+      toast.error(message);
+    }
+  };
+
   const handleTestRead = async () => {
     try {
       const result = await window.betaflight.testBlackboxRead();
@@ -201,6 +236,7 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
 
   const isSDCard = info.storageType === 'sdcard';
   const eraseLabel = isSDCard ? 'Erase Logs' : 'Erase Flash';
+  const hasFlashDownload = logs.some((log) => log.flashRange);
 
   return (
     <div className="blackbox-status">
@@ -262,7 +298,7 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
                 <div className="action-buttons">
                   <button
                     className="download-button"
-                    onClick={handleDownload}
+                    onClick={() => handleDownload()}
                     disabled={downloading}
                   >
                     {downloading ? (
@@ -278,6 +314,18 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
                     )}
                   </button>
 
+                  {!isSDCard && hasFlashDownload && (
+                    <button
+                      className="download-new-button"
+                      onClick={() => handleDownload({ newDataOnly: true })}
+                      disabled={downloading}
+                      title="Only read flights logged since the last download"
+                    >
+                      <span className="icon">➕</span>
+                      <span>Download New</span>
+                    </button>
+                  )}
+
                   <button
                     className="erase-flash-button"
                     onClick={() => setShowEraseConfirm(true)}
@@ -310,6 +358,9 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
                     />
                   </div>
                 )}
+                {downloading && resumedFrom > 0 && (
+                  <div className="download-resumed">Continuing from {formatSize(resumedFrom)}</div>
+                )}
               </>
             )}
           </>
@@ -346,14 +397,14 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
                       <span>
                         {log.fcInfo.variant} {log.fcInfo.version}
                       </span>
-                      {log.compressionDetected && (
+                      {(log.compressionDetected || log.huffmanDecoded) && (
                         <span className="compression-badge">Huffman</span>
                       )}
                     </div>
                     {log.compressionDetected && (
                       <div className="compression-warning">
-                        Data is Huffman compressed — analysis unavailable. Reflash firmware without
-                        USE_HUFFMAN or download logs via Betaflight Configurator.
+                        Saved as undecoded Huffman compressed data by an older version — analysis
+                        unavailable. Download the log again to analyze it.
                       </div>
                     )}
                   </div>
@@ -372,6 +423,38 @@ export function BlackboxStatus({ onAnalyze, readonly, refreshKey }: BlackboxStat
                         Analyze
                       </button>
                     )}
+                    {!log.compressionDetected && (
+                      <>
+                        <button
+                          className="log-action-button track"
+                          onClick={() => handleExportTrack(log.id, 'gpx')}
+                          title="Export GPS track (GPX)"
+                        >
+                          GPX
+                        </button>
+                        <button
+                          className="log-action-button track"
+                          onClick={() => handleExportTrack(log.id, 'kml')}
+                          title="Export GPS track (KML)"
+                        >
+                          KML
+                        </button>
+                        <button
+                          className="log-action-button data"
+                          onClick={() => handleExportData(log.id, 'csv')}
+                          title="Export flight data (blackbox_decode CSV)"
+                        >
+                          CSV
+                        </button>
+                        <button
+                          className="log-action-button data"
+                          onClick={() => handleExportData(log.id, 'arrow')}
+                          title="Export flight data (Arrow/Feather)"
+                        >
+                          Arrow
+                        </button>
+                      </>
+                    )}
                     <button
                       className="log-action-button"
                       onClick={() => openFolder(log.filepath)}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CLIConsole } from './CLIConsole';
+import type { ConfigurationSnapshot, SnapshotMetadata } from '@shared/types/common.types';
+
+describe('CLIConsole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  async function expand() {
+    const user = userEvent.setup();
+    render(<CLIConsole />);
+    await user.click(screen.getByText('CLI Console'));
+    return user;
+  }
+
+  it('sends a command on Enter and shows its output', async () => {
+    vi.mocked(window.betaflight.sendCLICommand).mockResolvedValue('gyro_lpf1_static_hz = 250');
+    const user = await expand();
+
+    await user.type(screen.getByLabelText('CLI command'), 'get gyro_lpf1{Enter}');
+
+    expect(await screen.findByText('gyro_lpf1_static_hz = 250')).toBeInTheDocument();
+    expect(screen.getByText('FC in CLI mode')).toBeInTheDocument();
+    expect(screen.getByLabelText('CLI command')).toHaveValue('');
+  });
+
+  it('tab-completes commands and recalls history with the arrow keys', async () => {
+    vi.mocked(window.betaflight.sendCLICommand).mockResolvedValue('');
+    const user = await expand();
+    const input = screen.getByLabelText('CLI command');
+
+    await user.type(input, 'sta');
+    await user.keyboard('{Tab}');
+    expect(input).toHaveValue('status ');
+
+    await user.keyboard('{Enter}');
+    await waitFor(() => expect(input).toBeEnabled());
+    await user.keyboard('{ArrowUp}');
+    expect(input).toHaveValue('status');
+  });
+
+  it('reviews staged sets against the latest snapshot before saving', async () => {
+    vi.mocked(window.betaflight.listSnapshots).mockResolvedValue([
+      { id: 'snap-1', timestamp: '2026-02-01T00:00:00Z', label: 'Baseline' },
+    ] as SnapshotMetadata[]);
+    vi.mocked(window.betaflight.loadSnapshot).mockResolvedValue({
+      label: 'Baseline',
+      configuration: { cliDiff: 'set motor_poles = 14' },
+    } as ConfigurationSnapshot);
+    vi.mocked(window.betaflight.applyCLIBatch).mockResolvedValue({
+      snapshotId: 'snap-pre',
+      appliedCommands: ['set motor_poles = 12'],
+    });
+    const user = await expand();
+
+    await user.type(screen.getByLabelText('CLI command'), 'set motor_poles = 12{Enter}');
+    expect(screen.getByText('Batch (1 staged)')).toBeInTheDocument();
+    expect(window.betaflight.sendCLICommand).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Review Changes' }));
+    expect(await screen.findByText('Compared to snapshot "Baseline"')).toBeInTheDocument();
+    expect(screen.getByText('14')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Confirm & Save' }));
+
+    expect(window.betaflight.applyCLIBatch).toHaveBeenCalledWith(['set motor_poles = 12']);
+    expect(await screen.findByText(/Saved 1 setting/)).toBeInTheDocument();
+    expect(screen.queryByText(/Batch \(/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useCLIConsole } from '../../hooks/useCLIConsole';
+import { scopeLabel } from '../SnapshotManager/snapshotDiffUtils';
+import './CLIConsole.css';
+
+export function CLIConsole() {
+  const {
+    entries,
+    batch,
+    review,
+    busy,
+    inCLI,
+    submit,
+    recallHistory,
+    complete,
+    unstage,
+    clearBatch,
+    reviewBatch,
+    applyBatch,
+    exitCLI,
+  } = useCLIConsole();
+  const [expanded, setExpanded] = useState(false);
+  const [input, setInput] = useState('');
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    outputRef.current?.scrollTo?.({ top: outputRef.current.scrollHeight });
+  }, [entries]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submit(input);
+      setInput('');
+      setCandidates([]);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const completion = complete(input);
+      setInput(completion.line);
+      setCandidates(completion.candidates.length > 1 ? completion.candidates : []);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      setInput(recallHistory(e.key === 'ArrowUp' ? -1 : 1));
+      setCandidates([]);
+    }
+  };
+
+  return (
+    <div className="cli-console">
+      <button
+        className="cli-console-header"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+      >
+        <span className="cli-console-title">CLI Console</span>
+        {inCLI && <span className="cli-console-live">FC in CLI mode</span>}
+      </button>
+
+      {expanded && (
+        <div className="cli-console-body">
+          <p className="cli-console-hint">
+            Read-only commands (get, diff, status, …) run immediately. Set commands are staged and
+            saved together after a backup snapshot. Tab completes names and values you have already
+            seen with get.
+          </p>
+
+          <div className="cli-console-output" ref={outputRef} role="log">
+            {entries.map((entry, i) => (
+              <div key={i} className="cli-console-entry">
+                <div className="cli-console-command"># {entry.command}</div>
+                {entry.output && <pre className="cli-console-text">{entry.output}</pre>}
+                {entry.error && <div className="cli-console-error">{entry.error}</div>}
+              </div>
+            ))}
+          </div>
+
+          <input
+            className="cli-console-input"
+            aria-label="CLI command"
+            placeholder="get gyro_lpf"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            disabled={busy}
+            spellCheck={false}
+            autoComplete="off"
+          />
+          {candidates.length > 0 && (
+            <div className="cli-console-candidates">{candidates.join('  ')}</div>
+          )}
+
+          {inCLI && (
+            <div className="cli-console-actions">
+              <button onClick={exitCLI} disabled={busy}>
+                Exit CLI (reboots FC)
+              </button>
+            </div>
+          )}
+
+          {batch.length > 0 && (
+            <div className="cli-batch">
+              <div className="cli-batch-header">Batch ({batch.length} staged)</div>
+              {review ? (
+                <>
+                  <div className="cli-batch-base">
+                    {review.snapshotLabel
+                      ? `Compared to snapshot "${review.snapshotLabel}"`
+                      : 'No snapshot yet — comparing to defaults'}
+                  </div>
+                  {review.entries.length === 0 ? (
+                    <div className="cli-batch-base">
+                      Nothing changes — every value already matches.
+                    </div>
+                  ) : (
+                    <table className="cli-batch-diff">
+                      <thead>
+                        <tr>
+                          <th>Setting</th>
+                          <th>Before</th>
+                          <th>After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {review.entries.map((entry) => (
+                          <tr key={`${entry.scope}|${entry.key}`}>
+                            <td>
+                              {entry.key.replace(/^set /, '')}
+                              {entry.scope !== 'master' && (
+                                <span className="cli-batch-scope">{` (${scopeLabel(entry.scope)})`}</span>
+                              )}
+                            </td>
+                            <td className="cli-batch-old">{entry.oldValue ?? 'default'}</td>
+                            <td className="cli-batch-new">{entry.newValue}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <div className="cli-console-actions">
+                    <button
+                      className="primary"
+                      onClick={applyBatch}
+                      disabled={busy || review.entries.length === 0}
+                    >
+                      Confirm &amp; Save
+                    </button>
+                    <button onClick={clearBatch} disabled={busy}>
+                      Discard Batch
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <ul className="cli-batch-list">
+                    {batch.map((set) => (
+                      <li key={set.name}>
+                        <code>
+                          set {set.name} = {set.value}
+                        </code>
+                        <button
+                          className="cli-batch-remove"
+                          aria-label={`Remove ${set.name}`}
+                          onClick={() => unstage(set.name)}
+                          disabled={busy}
+                        >
+                          ×
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="cli-console-actions">
+                    <button className="primary" onClick={reviewBatch} disabled={busy}>
+                      Review Changes
+                    </button>
+                    <button onClick={clearBatch} disabled={busy}>
+                      Discard Batch
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -262,4 +262,79 @@ describe('ConnectionPanel', () => {
       expect(select).toBeDisabled();
     });
   });
+
+  it('connects to a TCP address when network mode is enabled', async () => {
+    const user = userEvent.setup();
+    vi.mocked(window.betaflight.listPorts).mockResolvedValue([]);
+
+    render(<ConnectionPanel />);
+
+    await user.click(screen.getByLabelText(/network \(tcp\)/i));
+    const input = screen.getByLabelText(/address/i);
+    expect(input).toHaveValue('127.0.0.1:5761');
+
+    await user.clear(input);
+    await user.type(input, '192.168.4.1:23');
+
+    const connectButton = screen.getByRole('button', { name: /^connect$/i });
+    expect(connectButton).not.toBeDisabled();
+    await user.click(connectButton);
+
+    expect(window.betaflight.connect).toHaveBeenCalledWith('192.168.4.1:23');
+  });
+
+  it('loads and toggles the auto-connect setting', async () => {
+    const user = userEvent.setup();
+    vi.mocked(window.betaflight.getAutoConnect).mockResolvedValue(true);
+
+    render(<ConnectionPanel />);
+
+    const checkbox = screen.getByLabelText(/auto-connect to known drones/i);
+    await waitFor(() => expect(checkbox).toBeChecked());
+
+    await user.click(checkbox);
+
+    expect(window.betaflight.setAutoConnect).toHaveBeenCalledWith(false);
+    expect(checkbox).not.toBeChecked();
+  });
+
+  it('lists connected drones and switches or disconnects a background one', async () => {
+    const user = userEvent.setup();
+    vi.mocked(window.betaflight.getConnectionStatus).mockResolvedValue({
+      connected: true,
+      portPath: '/dev/ttyUSB0'
+    });
+    vi.mocked(window.betaflight.listConnections).mockResolvedValue([
+      { id: '/dev/ttyUSB0', connected: true, active: true, profileName: 'Freestyle 5"' },
+      { id: '/dev/ttyUSB1', connected: true, active: false, profileName: 'Cinewhoop' }
+    ]);
+
+    render(<ConnectionPanel />);
+
+    const list = await screen.findByRole('list', { name: /connected drones/i });
+    expect(list).toHaveTextContent('Freestyle 5"');
+    expect(list).toHaveTextContent('Cinewhoop');
+    // Both ports are taken — nothing left to add
+    expect(screen.getByLabelText(/add drone/i)).toHaveTextContent('No ports found');
+
+    await user.click(screen.getByRole('button', { name: /switch/i }));
+    expect(window.betaflight.setActiveConnection).toHaveBeenCalledWith('/dev/ttyUSB1');
+
+    await user.click(screen.getByRole('button', { name: 'Disconnect /dev/ttyUSB1' }));
+    expect(window.betaflight.disconnect).toHaveBeenCalledWith('/dev/ttyUSB1');
+  });
+
+  it('disables connect for an invalid network address', async () => {
+    const user = userEvent.setup();
+
+    render(<ConnectionPanel />);
+
+    await user.click(screen.getByLabelText(/network \(tcp\)/i));
+    const input = screen.getByLabelText(/address/i);
+    await user.clear(input);
+    await user.type(input, 'sitl');
+
+    expect(screen.getByText('Use host:port')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /^connect$/i })).toBeDisabled();
+  });
 });
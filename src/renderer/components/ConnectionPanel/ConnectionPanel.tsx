@@ -1,37 +1,75 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { useConnection } from '../../hooks/useConnection';
+import { useDemoMode } from '../../hooks/useDemoMode';
+import { DEFAULT_SITL_ADDRESS, isTcpAddress } from '@shared/utils/tcpAddress';
 import './ConnectionPanel.css';
 
 export function ConnectionPanel() {
-  const { ports, status, loading, error, scanPorts, connect, disconnect } = useConnection();
+  const {
+    ports,
+    status,
+    connections,
+    loading,
+    error,
+    scanPorts,
+    connect,
+    disconnect,
+    switchConnection,
+  } = useConnection();
   const [selectedPort, setSelectedPort] = useState<string>('');
+  const [useNetwork, setUseNetwork] = useState(false);
+  const [networkAddress, setNetworkAddress] = useState(DEFAULT_SITL_ADDRESS);
   const [reconnectCooldown, setReconnectCooldown] = useState(0);
+  const [autoConnect, setAutoConnect] = useState(false);
+  const { isDemoMode } = useDemoMode();
   const wasConnectedRef = useRef(false);
 
   useEffect(() => {
     scanPorts();
   }, [scanPorts]);
 
+  useEffect(() => {
+    window.betaflight
+      .getAutoConnect()
+      .then(setAutoConnect)
+      .catch(() => {});
+  }, []);
+
+  const handleAutoConnectChange = async (enabled: boolean) => {
+    setAutoConnect(enabled);
+    try {
+      await window.betaflight.setAutoConnect(enabled);
+    } catch {
+      setAutoConnect(!enabled);
+    }
+  };
+
+  // Ports that already have a drone on them can't be connected again
+  const availablePorts = useMemo(
+    () => ports.filter((port) => !connections.some((c) => c.id === port.path)),
+    [ports, connections]
+  );
+
   useEffect(() => {
     // If no port selected, select first available
-    if (ports.length > 0 && !selectedPort) {
-      setSelectedPort(ports[0].path);
+    if (availablePorts.length > 0 && !selectedPort) {
+      setSelectedPort(availablePorts[0].path);
       return;
     }
 
     // If selected port no longer exists in the list, select first available
-    if (ports.length > 0 && selectedPort) {
-      const portExists = ports.some((port) => port.path === selectedPort);
+    if (availablePorts.length > 0 && selectedPort) {
+      const portExists = availablePorts.some((port) => port.path === selectedPort);
       if (!portExists) {
-        setSelectedPort(ports[0].path);
+        setSelectedPort(availablePorts[0].path);
       }
     }
 
     // If no ports available, clear selection
-    if (ports.length === 0 && selectedPort) {
+    if (availablePorts.length === 0 && selectedPort) {
       setSelectedPort('');
     }
-  }, [ports, selectedPort]);
+  }, [availablePorts, selectedPort]);
 
   // Auto-set cooldown on any disconnect (FC reboot, USB unplug, etc.)
   useEffect(() => {
@@ -54,9 +92,16 @@ export function ConnectionPanel() {
     }
   }, [reconnectCooldown]);
 
+  const networkAddressValid = isTcpAddress(networkAddress);
+  const connectTarget = useNetwork
+    ? networkAddressValid
+      ? networkAddress.trim()
+      : ''
+    : selectedPort;
+
   const handleConnect = async () => {
-    if (selectedPort) {
-      await connect(selectedPort);
+    if (connectTarget) {
+      await connect(connectTarget);
     }
   };
 
@@ -89,16 +134,54 @@ export function ConnectionPanel() {
 
       <div className="connection-controls">
         {!status.connected && (
+          <label className="network-toggle">
+            <input
+              type="checkbox"
+              checked={useNetwork}
+              onChange={(e) => setUseNetwork(e.target.checked)}
+              disabled={loading}
+            />
+            Network (TCP) — SITL or WiFi bridge
+          </label>
+        )}
+
+        {!status.connected && !isDemoMode && (
+          <label className="network-toggle">
+            <input
+              type="checkbox"
+              checked={autoConnect}
+              onChange={(e) => handleAutoConnectChange(e.target.checked)}
+            />
+            Auto-connect to known drones when plugged in
+          </label>
+        )}
+
+        {!status.connected && useNetwork && (
           <div className="port-selection">
-            <label htmlFor="port-select">Serial Port:</label>
+            <label htmlFor="network-address">Address:</label>
+            <input
+              id="network-address"
+              type="text"
+              value={networkAddress}
+              placeholder={DEFAULT_SITL_ADDRESS}
+              onChange={(e) => setNetworkAddress(e.target.value)}
+              disabled={loading || reconnectCooldown > 0}
+            />
+            {!networkAddressValid && <span className="network-address-error">Use host:port</span>}
+          </div>
+        )}
+
+        {(status.connected || !useNetwork) && (
+          <div className="port-selection">
+            <label htmlFor="port-select">{status.connected ? 'Add drone:' : 'Serial Port:'}</label>
             <select
               id="port-select"
               value={selectedPort}
               onChange={(e) => setSelectedPort(e.target.value)}
               disabled={loading || reconnectCooldown > 0}
             >
-              {ports.length === 0 && <option value="">No ports found</option>}
-              {ports.map((port) => (
+              {availablePorts.length === 0 && <option value="">No ports found</option>}
+              {availablePorts.map((port) => (
                 <option key={port.path} value={port.path}>
                   {port.path}
                   {port.manufacturer && ` - ${port.manufacturer}`}
@@ -112,14 +195,62 @@ export function ConnectionPanel() {
             >
               {loading ? 'Scanning...' : 'Scan'}
             </button>
+            {status.connected && (
+              <button
+                className="secondary"
+                onClick={handleConnect}
+                disabled={!selectedPort || loading}
+              >
+                Connect
+              </button>
+            )}
           </div>
         )}
 
+        {connections.length > 1 && (
+          <ul className="connection-list" aria-label="Connected drones">
+            {connections.map((conn) => (
+              <li
+                key={conn.id}
+                className={`connection-list-item${conn.active ? ' connection-list-item-active' : ''}`}
+              >
+                <span className="connection-list-name">
+                  {conn.profileName ?? conn.fcInfo?.boardName ?? 'Unknown FC'}
+                </span>
+                <span className="connection-port-info">{conn.id}</span>
+                {!conn.connected && <span className="connection-list-state">reconnecting…</span>}
+                {conn.active ? (
+                  <span className="connection-list-state">active</span>
+                ) : (
+                  <>
+                    <button
+                      className="secondary"
+                      onClick={() => switchConnection(conn.id)}
+                      disabled={loading || !conn.connected}
+                    >
+                      Switch
+                    </button>
+                    <button
+                      className="secondary"
+                      onClick={() => disconnect(conn.id)}
+                      disabled={loading}
+                      aria-label={`Disconnect ${conn.id}`}
+                    >
+                      Disconnect
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
         <div className="connection-status">
           <span className="status-label">Status: </span>
           {status.connected ? (
             <span className="status-connected">
-              ● Connected <span className="connection-port-info">{selectedPort}</span>
+              ● Connected{' '}
+              <span className="connection-port-info">{status.portPath ?? selectedPort}</span>
             </span>
           ) : (
             <span className="status-disconnected">Disconnected</span>
@@ -135,7 +266,12 @@ export function ConnectionPanel() {
             <button
               className="primary"
               onClick={handleConnect}
-              disabled={!selectedPort || loading || ports.length === 0 || reconnectCooldown > 0}
+              disabled={
+                !connectTarget ||
+                loading ||
+                (!useNetwork && ports.length === 0) ||
+                reconnectCooldown > 0
+              }
             >
               {loading
                 ? 'Connecting...'
@@ -148,4 +148,35 @@ describe('SnapshotDiffModal', () => {
     // All entries in B should be "added" — only "added" in summary
     expect(screen.getByText('3 added')).toBeInTheDocument();
   });
+
+  it('labels angle/horizon controller settings', () => {
+    const a = makeSnapshot({ id: 'x', label: 'A', cliDiff: 'set angle_p_gain = 50' });
+    const b = makeSnapshot({ id: 'y', label: 'B', cliDiff: 'set angle_p_gain = 60' });
+    render(<SnapshotDiffModal snapshotA={a} snapshotB={b} onClose={vi.fn()} />);
+    // Shown on both the old and the new line of the change
+    expect(screen.getAllByText('(Angle strength)')).toHaveLength(2);
+  });
+
+  it('groups changes by profile so the same setting in two profiles stays apart', () => {
+    const a = makeSnapshot({
+      id: 'x',
+      label: 'A',
+      cliDiff: 'set motor_poles = 14\nprofile 0\nset p_roll = 45\nprofile 2\nset p_roll = 60\nrateprofile 1\nset roll_srate = 70',
+    });
+    const b = makeSnapshot({
+      id: 'y',
+      label: 'B',
+      cliDiff: 'set motor_poles = 12\nprofile 0\nset p_roll = 45\nprofile 2\nset p_roll = 52\nrateprofile 1\nset roll_srate = 70',
+    });
+    render(<SnapshotDiffModal snapshotA={a} snapshotB={b} onClose={vi.fn()} />);
+
+    const scopes = Array.from(document.querySelectorAll('.diff-scope'));
+    expect(scopes.map(el => el.querySelector('.diff-scope-title')?.textContent)).toEqual([
+      'General',
+      'PID Profile 3'
+    ]);
+    expect(scopes[1].textContent).toContain('= 60');
+    expect(scopes[1].textContent).toContain('= 52');
+    expect(screen.getByText('2 changed')).toBeInTheDocument();
+  });
 });
@@ -1,10 +1,13 @@
 import React from 'react';
-import type { ConfigurationSnapshot } from '@shared/types/common.types';
+import type { ConfigurationSnapshot, DiffEntry } from '@shared/types/common.types';
 import {
   parseCLIDiff,
   computeDiff,
+  groupDiffByScope,
   groupDiffByCommand,
   detectCorruptedConfigLines,
+  controllerLabel,
+  scopeLabel,
 } from './snapshotDiffUtils';
 import './SnapshotDiffModal.css';
 
@@ -14,11 +17,61 @@ interface SnapshotDiffModalProps {
   onClose: () => void;
 }
 
+function DiffLabel({ entryKey }: { entryKey: string }) {
+  const label = controllerLabel(entryKey);
+  return label ? <span className="diff-label">({label})</span> : null;
+}
+
+/** Lines keyed by their whole text (e.g. `timer A08 AF1`) have no separate value */
+function DiffValue({ value }: { value?: string }) {
+  return value ? <span className="diff-value">= {value}</span> : null;
+}
+
+function DiffEntryLines({ entry }: { entry: DiffEntry }) {
+  return (
+    <>
+      {entry.status === 'added' && (
+        <div className="diff-line diff-line-added">
+          <span className="diff-prefix">+</span>
+          <span className="diff-key">{entry.key}</span>
+          <DiffLabel entryKey={entry.key} />
+          <DiffValue value={entry.newValue} />
+        </div>
+      )}
+      {entry.status === 'removed' && (
+        <div className="diff-line diff-line-removed">
+          <span className="diff-prefix">-</span>
+          <span className="diff-key">{entry.key}</span>
+          <DiffLabel entryKey={entry.key} />
+          <DiffValue value={entry.oldValue} />
+          <span className="diff-default-tag">reset to default</span>
+        </div>
+      )}
+      {entry.status === 'changed' && (
+        <>
+          <div className="diff-line diff-line-changed-old">
+            <span className="diff-prefix">-</span>
+            <span className="diff-key">{entry.key}</span>
+            <DiffLabel entryKey={entry.key} />
+            <DiffValue value={entry.oldValue} />
+          </div>
+          <div className="diff-line diff-line-changed-new">
+            <span className="diff-prefix">+</span>
+            <span className="diff-key">{entry.key}</span>
+            <DiffLabel entryKey={entry.key} />
+            <DiffValue value={entry.newValue} />
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
 export function SnapshotDiffModal({ snapshotA, snapshotB, onClose }: SnapshotDiffModalProps) {
   const beforeMap = parseCLIDiff(snapshotA.configuration.cliDiff);
   const afterMap = parseCLIDiff(snapshotB.configuration.cliDiff);
   const diff = computeDiff(beforeMap, afterMap);
-  const groups = groupDiffByCommand(diff);
+  const scopes = groupDiffByScope(diff);
 
   const corruptedA = detectCorruptedConfigLines(snapshotA.configuration.cliDiff);
   const corruptedB = detectCorruptedConfigLines(snapshotB.configuration.cliDiff);
@@ -62,43 +115,20 @@ export function SnapshotDiffModal({ snapshotA, snapshotB, onClose }: SnapshotDif
           {diff.length === 0 ? (
             <div className="snapshot-diff-empty">Snapshots have identical configuration.</div>
           ) : (
-            Array.from(groups.entries()).map(([command, entries]) => (
-              <div key={command} className="diff-group">
-                <div className="diff-group-title">{command}</div>
-                {entries.map((entry) => (
-                  <div key={entry.key}>
-                    {entry.status === 'added' && (
-                      <div className="diff-line diff-line-added">
-                        <span className="diff-prefix">+</span>
-                        <span className="diff-key">{entry.key}</span>
-                        <span className="diff-value">= {entry.newValue}</span>
-                      </div>
-                    )}
-                    {entry.status === 'removed' && (
-                      <div className="diff-line diff-line-removed">
-                        <span className="diff-prefix">-</span>
-                        <span className="diff-key">{entry.key}</span>
-                        <span className="diff-value">= {entry.oldValue}</span>
-                        <span className="diff-default-tag">reset to default</span>
-                      </div>
-                    )}
-                    {entry.status === 'changed' && (
-                      <>
-                        <div className="diff-line diff-line-changed-old">
-                          <span className="diff-prefix">-</span>
-                          <span className="diff-key">{entry.key}</span>
-                          <span className="diff-value">= {entry.oldValue}</span>
-                        </div>
-                        <div className="diff-line diff-line-changed-new">
-                          <span className="diff-prefix">+</span>
-                          <span className="diff-key">{entry.key}</span>
-                          <span className="diff-value">= {entry.newValue}</span>
-                        </div>
-                      </>
-                    )}
-                  </div>
-                ))}
-              </div>
+            Array.from(scopes.entries()).map(([scope, scopeEntries]) => (
+              <section key={scope} className="diff-scope">
+                <h4 className="diff-scope-title">{scopeLabel(scope)}</h4>
+                {Array.from(groupDiffByCommand(scopeEntries).entries()).map(
+                  ([command, entries]) => (
+                    <div key={command} className="diff-group">
+                      <div className="diff-group-title">{command}</div>
+                      {entries.map((entry) => (
+                        <DiffEntryLines key={entry.key} entry={entry} />
+                      ))}
+                    </div>
+                  )
+                )}
+              </section>
             ))
           )}
         </div>
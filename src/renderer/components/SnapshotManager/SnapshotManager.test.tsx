@@ -157,6 +157,17 @@ describe('SnapshotManager', () => {
     expect(createButton).toBeDisabled();
   });
 
+  it('imports a backup file when import clicked', async () => {
+    const user = userEvent.setup();
+    render(<SnapshotManager />);
+
+    const importButton = screen.getByRole('button', { name: /^import$/i });
+    await waitFor(() => expect(importButton).not.toBeDisabled());
+    await user.click(importButton);
+
+    expect(window.betaflight.importSnapshot).toHaveBeenCalled();
+  });
+
   it('opens create dialog when create button clicked', async () => {
     const user = userEvent.setup();
     render(<SnapshotManager />);
@@ -434,7 +445,7 @@ describe('SnapshotManager', () => {
     await user.click(confirmButton);
 
     await waitFor(() => {
-      expect(window.betaflight.restoreSnapshot).toHaveBeenCalledWith('snapshot-1', true);
+      expect(window.betaflight.restoreSnapshot).toHaveBeenCalledWith('snapshot-1', true, 'merge');
     });
   });
 
@@ -459,7 +470,7 @@ describe('SnapshotManager', () => {
     await user.click(confirmButton);
 
     await waitFor(() => {
-      expect(window.betaflight.restoreSnapshot).toHaveBeenCalledWith('snapshot-1', false);
+      expect(window.betaflight.restoreSnapshot).toHaveBeenCalledWith('snapshot-1', false, 'merge');
     });
   });
 
@@ -869,6 +880,20 @@ describe('SnapshotManager', () => {
       });
     });
 
+    it('displays imported badge for imported snapshots', async () => {
+      vi.mocked(window.betaflight.listSnapshots).mockResolvedValue([
+        { ...mockSnapshots[1], label: 'Imported: 2022-diff.txt', importedFrom: '2022-diff.txt' },
+      ]);
+
+      render(<SnapshotManager />);
+
+      await waitFor(() => {
+        const badge = document.querySelector('.badge.imported');
+        expect(badge).toBeTruthy();
+        expect(badge?.getAttribute('title')).toBe('2022-diff.txt');
+      });
+    });
+
     it('does not show role badges for snapshots without metadata', async () => {
       render(<SnapshotManager />);
 
@@ -1025,4 +1050,39 @@ describe('SnapshotManager', () => {
       expect(screen.queryByRole('alert')).not.toBeInTheDocument();
     });
   });
+
+  it('runs a full restore and lists settings that still differ', async () => {
+    vi.mocked(window.betaflight.restoreSnapshot).mockResolvedValue({
+      success: true,
+      mode: 'full',
+      appliedCommands: 12,
+      residualDifferences: [
+        { scope: 'profile 1', key: 'set p_roll', expected: '52', actual: '50' },
+        { scope: 'master', key: 'set gyro_lpf1_static_hz', actual: '0' },
+      ],
+      rebooted: true,
+    } as SnapshotRestoreResult);
+
+    const user = userEvent.setup();
+    render(<SnapshotManager />);
+
+    await waitFor(() => {
+      expect(screen.getByText('After PID tune')).toBeInTheDocument();
+    });
+
+    await user.click(screen.getAllByRole('button', { name: /^restore$/i })[0]);
+    await user.click(screen.getByRole('radio', { name: /full/i }));
+
+    const dialog = screen
+      .getByRole('heading', { name: 'Restore Snapshot' })
+      .closest('.create-dialog')!;
+    await user.click(within(dialog as HTMLElement).getByRole('button', { name: /^restore$/i }));
+
+    await waitFor(() => {
+      expect(window.betaflight.restoreSnapshot).toHaveBeenCalledWith('snapshot-1', true, 'full');
+      expect(screen.getByText(/2 settings differ from the snapshot/)).toBeInTheDocument();
+    });
+    expect(screen.getByText('set p_roll (profile 1): 52 → 50')).toBeInTheDocument();
+    expect(screen.getByText('set gyro_lpf1_static_hz: default → 0')).toBeInTheDocument();
+  });
 });
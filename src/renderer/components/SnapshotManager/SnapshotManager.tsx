@@ -5,7 +5,8 @@ import { useToast } from '../../hooks/useToast';
 import { useDemoMode } from '../../hooks/useDemoMode';
 import { SnapshotDiffModal } from './SnapshotDiffModal';
 import type { ConfigurationSnapshot } from '@shared/types/common.types';
-import type { SnapshotRestoreProgress } from '@shared/types/ipc.types';
+import type { SnapshotRestoreMode, SnapshotRestoreProgress } from '@shared/types/ipc.types';
+import type { CLIDiffResidual } from '@shared/types/cli.types';
 import './SnapshotManager.css';
 
 const PAGE_SIZE = 20;
@@ -16,6 +17,11 @@ export function _resetPersistedSnapshotsPage() {
   persistedSnapshotsPage = 1;
 }
 
+function formatResidual(residual: CLIDiffResidual): string {
+  const scope = residual.scope === 'master' ? '' : ` (${residual.scope})`;
+  return `${residual.key}${scope}: ${residual.expected ?? 'default'} → ${residual.actual ?? 'default'}`;
+}
+
 function formatBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   const kb = bytes / 1024;
@@ -33,6 +39,7 @@ export function SnapshotManager() {
     createSnapshot,
     deleteSnapshot,
     restoreSnapshot,
+    importSnapshot,
     loadSnapshot,
   } = useSnapshots();
   const { isDemoMode } = useDemoMode();
@@ -42,6 +49,7 @@ export function SnapshotManager() {
   const [_selectedSnapshot, setSelectedSnapshot] = useState<string | null>(null);
   const [restoreConfirmId, setRestoreConfirmId] = useState<string | null>(null);
   const [restoreBackup, setRestoreBackup] = useState(true);
+  const [restoreMode, setRestoreMode] = useState<SnapshotRestoreMode>('merge');
   const [restoring, setRestoring] = useState(false);
   const [restoreProgress, setRestoreProgress] = useState<SnapshotRestoreProgress | null>(null);
   const [diffSnapshots, setDiffSnapshots] = useState<{
@@ -50,6 +58,7 @@ export function SnapshotManager() {
   } | null>(null);
   const [loadingDiff, setLoadingDiff] = useState(false);
   const [restoreWarnings, setRestoreWarnings] = useState<string[] | null>(null);
+  const [restoreResiduals, setRestoreResiduals] = useState<CLIDiffResidual[] | null>(null);
   const [snapshotsPage, setSnapshotsPage] = useState(persistedSnapshotsPage);
 
   // Keep module-level var in sync for persistence across unmounts
@@ -110,6 +119,7 @@ export function SnapshotManager() {
   const handleRestoreClick = (id: string) => {
     setRestoreConfirmId(id);
     setRestoreBackup(true);
+    setRestoreMode('merge');
   };
 
   const handleRestoreConfirm = async () => {
@@ -117,13 +127,17 @@ export function SnapshotManager() {
     setRestoring(true);
     setRestoreProgress(null);
     setRestoreWarnings(null);
+    setRestoreResiduals(null);
     const id = restoreConfirmId;
     setRestoreConfirmId(null);
     try {
-      const result = await restoreSnapshot(id, restoreBackup);
+      const result = await restoreSnapshot(id, restoreBackup, restoreMode);
       if (result?.failedCommands && result.failedCommands.length > 0) {
         setRestoreWarnings(result.failedCommands);
       }
+      if (result?.residualDifferences && result.residualDifferences.length > 0) {
+        setRestoreResiduals(result.residualDifferences);
+      }
     } finally {
       setRestoring(false);
       setRestoreProgress(null);
@@ -225,6 +239,14 @@ export function SnapshotManager() {
         >
           Create Snapshot
         </button>
+        <button
+          className="secondary"
+          onClick={() => importSnapshot()}
+          disabled={!status.connected || loading}
+          title="Import a CLI diff/dump or Betaflight Configurator backup"
+        >
+          Import
+        </button>
       </div>
 
       {showCreateDialog && (
@@ -253,6 +275,26 @@ export function SnapshotManager() {
           <p className="restore-warning">
             This will restore FC configuration from this snapshot. FC will reboot.
           </p>
+          <div className="restore-mode" role="radiogroup" aria-label="Restore mode">
+            <label className="restore-checkbox">
+              <input
+                type="radio"
+                name="restore-mode"
+                checked={restoreMode === 'merge'}
+                onChange={() => setRestoreMode('merge')}
+              />
+              Merge — apply snapshot settings on top of the current configuration
+            </label>
+            <label className="restore-checkbox">
+              <input
+                type="radio"
+                name="restore-mode"
+                checked={restoreMode === 'full'}
+                onChange={() => setRestoreMode('full')}
+              />
+              Full — reset to defaults first, so the FC matches the snapshot exactly
+            </label>
+          </div>
           <label className="restore-checkbox">
             <input
               type="checkbox"
@@ -298,6 +340,22 @@ export function SnapshotManager() {
         </div>
       )}
 
+      {restoreResiduals && restoreResiduals.length > 0 && (
+        <div className="restore-warnings" role="alert">
+          <strong>
+            {restoreResiduals.length} settings differ from the snapshot after restore:
+          </strong>
+          <ul>
+            {restoreResiduals.map((residual, i) => (
+              <li key={i}>{formatResidual(residual)}</li>
+            ))}
+          </ul>
+          <button className="secondary" onClick={() => setRestoreResiduals(null)}>
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <div className="snapshot-list">
         {loading && <div>Loading snapshots...</div>}
 
@@ -322,6 +380,11 @@ export function SnapshotManager() {
                   {snapshot.snapshotRole === 'post-tuning' && (
                     <span className="badge post-tuning">Post-tuning</span>
                   )}
+                  {snapshot.importedFrom && (
+                    <span className="badge imported" title={snapshot.importedFrom}>
+                      Imported
+                    </span>
+                  )}
                 </div>
                 <div className="snapshot-meta">
                   <span>{new Date(snapshot.timestamp).toLocaleString()}</span>
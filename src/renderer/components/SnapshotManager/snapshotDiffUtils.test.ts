@@ -2,32 +2,68 @@ import { describe, it, expect } from 'vitest';
 import {
   parseCLIDiff,
   computeDiff,
+  groupDiffByScope,
   groupDiffByCommand,
   detectCorruptedConfigLines,
+  controllerLabel,
+  scopeLabel,
 } from './snapshotDiffUtils';
 
+/** Values of a parsed diff keyed by `scope|key`, for compact assertions */
+function values(cliDiff: string): Record<string, string> {
+  return Object.fromEntries([...parseCLIDiff(cliDiff)].map(([id, entry]) => [id, entry.value]));
+}
+
 describe('parseCLIDiff', () => {
   it('parses set commands', () => {
-    const result = parseCLIDiff('set gyro_lpf1_static_hz = 150\nset dterm_lpf1_static_hz = 100');
-    expect(result.get('set gyro_lpf1_static_hz')).toBe('150');
-    expect(result.get('set dterm_lpf1_static_hz')).toBe('100');
-    expect(result.size).toBe(2);
+    expect(values('set gyro_lpf1_static_hz = 150\nset dterm_lpf1_static_hz = 100')).toEqual({
+      'master|set gyro_lpf1_static_hz': '150',
+      'master|set dterm_lpf1_static_hz': '100',
+    });
   });
 
-  it('parses feature commands', () => {
-    const result = parseCLIDiff('feature TELEMETRY\nfeature -GPS');
-    expect(result.get('feature TELEMETRY')).toBe('(enabled)');
-    expect(result.get('feature -GPS')).toBe('(enabled)');
+  it('parses feature commands as on/off toggles of the same key', () => {
+    expect(values('feature TELEMETRY\nfeature -GPS')).toEqual({
+      'master|feature TELEMETRY': 'ON',
+      'master|feature GPS': 'OFF',
+    });
   });
 
   it('parses serial commands', () => {
     const result = parseCLIDiff('serial 0 64 115200 57600 0 115200');
-    expect(result.get('serial 0')).toBe('64 115200 57600 0 115200');
+    expect(result.get('master|serial 0')?.value).toBe('64 115200 57600 0 115200');
   });
 
   it('parses aux commands', () => {
     const result = parseCLIDiff('aux 0 0 0 1700 2100 0 0');
-    expect(result.get('aux 0')).toBe('0 0 1700 2100 0 0');
+    expect(result.get('master|aux 0')?.value).toBe('0 0 1700 2100 0 0');
+  });
+
+  it('keys resource lines by function and index, and map by itself', () => {
+    expect(values('resource MOTOR 1 B06\nresource MOTOR 2 B07\nmap TAER1234')).toEqual({
+      'master|resource MOTOR 1': 'B06',
+      'master|resource MOTOR 2': 'B07',
+      'master|map': 'TAER1234',
+    });
+  });
+
+  it('keeps the same setting in different profiles apart', () => {
+    const input = [
+      'set motor_poles = 14',
+      'profile 0',
+      'set p_roll = 45',
+      'profile 2',
+      'set p_roll = 60',
+      'rateprofile 1',
+      'set roll_srate = 70',
+    ].join('\n');
+
+    expect(values(input)).toEqual({
+      'master|set motor_poles': '14',
+      'profile 0|set p_roll': '45',
+      'profile 2|set p_roll': '60',
+      'rateprofile 1|set roll_srate': '70',
+    });
   });
 
   it('skips empty lines', () => {
@@ -62,7 +98,7 @@ describe('parseCLIDiff', () => {
       'set gyro_lpf1_static_hz = 150\r\nset dterm_lpf1_static_hz = 100\r\n'
     );
     expect(result.size).toBe(2);
-    expect(result.get('set gyro_lpf1_static_hz')).toBe('150');
+    expect(result.get('master|set gyro_lpf1_static_hz')?.value).toBe('150');
   });
 
   it('handles empty input', () => {
@@ -71,17 +107,17 @@ describe('parseCLIDiff', () => {
 
   it('trims whitespace from values', () => {
     const result = parseCLIDiff('set motor_pwm_protocol =  DSHOT600  ');
-    expect(result.get('set motor_pwm_protocol')).toBe('DSHOT600');
+    expect(result.get('master|set motor_pwm_protocol')?.value).toBe('DSHOT600');
   });
 
   it('handles set with equals in value', () => {
     const result = parseCLIDiff('set osd_item_0 = 2048');
-    expect(result.get('set osd_item_0')).toBe('2048');
+    expect(result.get('master|set osd_item_0')?.value).toBe('2048');
   });
 
-  it('handles generic commands as key-value', () => {
-    const result = parseCLIDiff('beacon RX_LOST');
-    expect(result.get('beacon')).toBe('RX_LOST');
+  it('handles single-value commands as key-value', () => {
+    const result = parseCLIDiff('mixer QUADX');
+    expect(result.get('master|mixer')?.value).toBe('QUADX');
   });
 
   it('handles mixed command types', () => {
@@ -100,35 +136,43 @@ describe('parseCLIDiff', () => {
 
 describe('computeDiff', () => {
   it('detects added entries', () => {
-    const before = new Map<string, string>();
-    const after = new Map([['set gyro_lpf1_static_hz', '150']]);
-    const diff = computeDiff(before, after);
+    const diff = computeDiff(parseCLIDiff(''), parseCLIDiff('set gyro_lpf1_static_hz = 150'));
 
-    expect(diff).toEqual([{ key: 'set gyro_lpf1_static_hz', newValue: '150', status: 'added' }]);
+    expect(diff).toEqual([
+      { scope: 'master', key: 'set gyro_lpf1_static_hz', newValue: '150', status: 'added' },
+    ]);
   });
 
   it('detects removed entries (reverted to default)', () => {
-    const before = new Map([['set gyro_lpf1_static_hz', '150']]);
-    const after = new Map<string, string>();
-    const diff = computeDiff(before, after);
+    const diff = computeDiff(parseCLIDiff('set gyro_lpf1_static_hz = 150'), parseCLIDiff(''));
 
-    expect(diff).toEqual([{ key: 'set gyro_lpf1_static_hz', oldValue: '150', status: 'removed' }]);
+    expect(diff).toEqual([
+      { scope: 'master', key: 'set gyro_lpf1_static_hz', oldValue: '150', status: 'removed' },
+    ]);
   });
 
   it('detects changed entries', () => {
-    const before = new Map([['set gyro_lpf1_static_hz', '150']]);
-    const after = new Map([['set gyro_lpf1_static_hz', '200']]);
-    const diff = computeDiff(before, after);
+    const diff = computeDiff(
+      parseCLIDiff('set gyro_lpf1_static_hz = 150'),
+      parseCLIDiff('set gyro_lpf1_static_hz = 200')
+    );
 
     expect(diff).toEqual([
-      { key: 'set gyro_lpf1_static_hz', oldValue: '150', newValue: '200', status: 'changed' },
+      {
+        scope: 'master',
+        key: 'set gyro_lpf1_static_hz',
+        oldValue: '150',
+        newValue: '200',
+        status: 'changed',
+      },
     ]);
   });
 
   it('ignores identical entries', () => {
-    const before = new Map([['set gyro_lpf1_static_hz', '150']]);
-    const after = new Map([['set gyro_lpf1_static_hz', '150']]);
-    const diff = computeDiff(before, after);
+    const diff = computeDiff(
+      parseCLIDiff('set gyro_lpf1_static_hz = 150'),
+      parseCLIDiff('set gyro_lpf1_static_hz = 150')
+    );
 
     expect(diff).toEqual([]);
   });
@@ -138,16 +182,12 @@ describe('computeDiff', () => {
   });
 
   it('handles mixed added, changed, and reverted-to-default entries', () => {
-    const before = new Map([
-      ['set dterm_lpf1_static_hz', '100'],
-      ['set gyro_lpf1_static_hz', '150'],
-      ['feature GPS', '(enabled)'],
-    ]);
-    const after = new Map([
-      ['set dterm_lpf1_static_hz', '120'],
-      ['set gyro_lpf1_static_hz', '150'],
-      ['feature TELEMETRY', '(enabled)'],
-    ]);
+    const before = parseCLIDiff(
+      'set dterm_lpf1_static_hz = 100\nset gyro_lpf1_static_hz = 150\nfeature GPS'
+    );
+    const after = parseCLIDiff(
+      'set dterm_lpf1_static_hz = 120\nset gyro_lpf1_static_hz = 150\nfeature TELEMETRY'
+    );
     const diff = computeDiff(before, after);
 
     expect(diff).toHaveLength(3);
@@ -156,29 +196,89 @@ describe('computeDiff', () => {
     // feature GPS disappeared from diff → reverted to default, shown as 'removed'
     const gpsEntry = diff.find((d) => d.key === 'feature GPS');
     expect(gpsEntry?.status).toBe('removed');
-    expect(gpsEntry?.oldValue).toBe('(enabled)');
+    expect(gpsEntry?.oldValue).toBe('ON');
   });
 
-  it('returns sorted entries by key', () => {
-    const before = new Map<string, string>();
-    const after = new Map([
-      ['set z_value', '1'],
-      ['set a_value', '2'],
-      ['set m_value', '3'],
+  it('shows a disabled feature as a change of the same entry', () => {
+    const diff = computeDiff(parseCLIDiff('feature AIRMODE'), parseCLIDiff('feature -AIRMODE'));
+
+    expect(diff).toEqual([
+      {
+        scope: 'master',
+        key: 'feature AIRMODE',
+        oldValue: 'ON',
+        newValue: 'OFF',
+        status: 'changed',
+      },
+    ]);
+  });
+
+  it('reports a change only in the profile where it happened', () => {
+    const before = parseCLIDiff('profile 0\nset p_roll = 45\nprofile 2\nset p_roll = 60');
+    const after = parseCLIDiff('profile 0\nset p_roll = 45\nprofile 2\nset p_roll = 52');
+
+    expect(computeDiff(before, after)).toEqual([
+      { scope: 'profile 2', key: 'set p_roll', oldValue: '60', newValue: '52', status: 'changed' },
+    ]);
+  });
+
+  it('returns entries sorted by scope, then key', () => {
+    const after = parseCLIDiff(
+      [
+        'set z_value = 1',
+        'set a_value = 2',
+        'rateprofile 0',
+        'set rc_expo = 5',
+        'profile 10',
+        'set p_roll = 40',
+        'profile 1',
+        'set m_value = 3',
+      ].join('\n')
+    );
+    const diff = computeDiff(new Map(), after);
+    expect(diff.map((d) => `${d.scope}|${d.key}`)).toEqual([
+      'master|set a_value',
+      'master|set z_value',
+      'profile 1|set m_value',
+      'profile 10|set p_roll',
+      'rateprofile 0|set rc_expo',
     ]);
-    const diff = computeDiff(before, after);
-    expect(diff.map((d) => d.key)).toEqual(['set a_value', 'set m_value', 'set z_value']);
+  });
+});
+
+describe('groupDiffByScope', () => {
+  it('groups entries by scope in diff order', () => {
+    const diff = computeDiff(
+      new Map(),
+      parseCLIDiff('set motor_poles = 14\nprofile 1\nset p_roll = 40\nset d_roll = 30')
+    );
+    const groups = groupDiffByScope(diff);
+
+    expect([...groups.keys()]).toEqual(['master', 'profile 1']);
+    expect(groups.get('profile 1')?.map((e) => e.key)).toEqual(['set d_roll', 'set p_roll']);
+  });
+
+  it('handles empty entries', () => {
+    expect(groupDiffByScope([]).size).toBe(0);
+  });
+});
+
+describe('scopeLabel', () => {
+  it('numbers profiles from 1 like the rest of the UI', () => {
+    expect(scopeLabel('master')).toBe('General');
+    expect(scopeLabel('profile 0')).toBe('PID Profile 1');
+    expect(scopeLabel('rateprofile 2')).toBe('Rate Profile 3');
   });
 });
 
 describe('groupDiffByCommand', () => {
   it('groups entries by command prefix', () => {
     const entries = [
-      { key: 'set gyro_lpf1_static_hz', newValue: '150', status: 'added' as const },
-      { key: 'set dterm_lpf1_static_hz', newValue: '100', status: 'added' as const },
-      { key: 'feature TELEMETRY', newValue: '(enabled)', status: 'added' as const },
-    ];
-    const groups = groupDiffByCommand(entries);
+      { scope: 'master', key: 'set gyro_lpf1_static_hz', newValue: '150', status: 'added' },
+      { scope: 'master', key: 'set dterm_lpf1_static_hz', newValue: '100', status: 'added' },
+      { scope: 'master', key: 'feature TELEMETRY', newValue: 'ON', status: 'added' },
+    ] as const;
+    const groups = groupDiffByCommand([...entries]);
 
     expect(groups.size).toBe(2);
     expect(groups.get('set')).toHaveLength(2);
@@ -192,10 +292,10 @@ describe('groupDiffByCommand', () => {
 
   it('preserves entry ordering within groups', () => {
     const entries = [
-      { key: 'set a_value', newValue: '1', status: 'added' as const },
-      { key: 'set b_value', newValue: '2', status: 'added' as const },
-    ];
-    const groups = groupDiffByCommand(entries);
+      { scope: 'master', key: 'set a_value', newValue: '1', status: 'added' },
+      { scope: 'master', key: 'set b_value', newValue: '2', status: 'added' },
+    ] as const;
+    const groups = groupDiffByCommand([...entries]);
     const setGroup = groups.get('set')!;
     expect(setGroup[0].key).toBe('set a_value');
     expect(setGroup[1].key).toBe('set b_value');
@@ -203,12 +303,12 @@ describe('groupDiffByCommand', () => {
 
   it('handles multiple command types', () => {
     const entries = [
-      { key: 'aux 0', newValue: '0 0 1700 2100', status: 'added' as const },
-      { key: 'feature GPS', oldValue: '(enabled)', status: 'removed' as const },
-      { key: 'serial 0', oldValue: '64', newValue: '128', status: 'changed' as const },
-      { key: 'set gyro_lpf1_static_hz', newValue: '150', status: 'added' as const },
-    ];
-    const groups = groupDiffByCommand(entries);
+      { scope: 'master', key: 'aux 0', newValue: '0 0 1700 2100', status: 'added' },
+      { scope: 'master', key: 'feature GPS', oldValue: 'ON', status: 'removed' },
+      { scope: 'master', key: 'serial 0', oldValue: '64', newValue: '128', status: 'changed' },
+      { scope: 'master', key: 'set gyro_lpf1_static_hz', newValue: '150', status: 'added' },
+    ] as const;
+    const groups = groupDiffByCommand([...entries]);
 
     expect(groups.size).toBe(4);
     expect(groups.has('aux')).toBe(true);
@@ -256,3 +356,16 @@ describe('detectCorruptedConfigLines', () => {
     expect(lines).toHaveLength(1);
   });
 });
+
+describe('controllerLabel', () => {
+  it('names angle/horizon settings across BF versions', () => {
+    expect(controllerLabel('set angle_p_gain')).toBe('Angle strength');
+    expect(controllerLabel('set angle_level_strength')).toBe('Angle strength');
+    expect(controllerLabel('set horizon_transition')).toBe('Horizon transition');
+  });
+
+  it('returns undefined for other settings and non-set keys', () => {
+    expect(controllerLabel('set gyro_lpf1_static_hz')).toBeUndefined();
+    expect(controllerLabel('feature GPS')).toBeUndefined();
+  });
+});
@@ -1,4 +1,7 @@
 import type { DiffEntry } from '@shared/types/common.types';
+import type { CLIDiffEntry, CLIDiffScope } from '@shared/types/cli.types';
+import { PID_CONTROLLER_LABELS } from '@shared/constants';
+import { parseScopedCLIDiff } from '@shared/utils/cliDiff';
 
 /**
  * Detect corrupted config lines in a CLI diff.
@@ -11,84 +14,72 @@ export function detectCorruptedConfigLines(cliDiff: string): string[] {
     .filter((line) => line.includes('###ERROR') && line.includes('CORRUPTED'));
 }
 
-const SKIP_PATTERNS = [
-  /^#/,
-  /^$/,
-  /^diff\s/,
-  /^batch\s/,
-  /^defaults\s/,
-  /^board_name\s/,
-  /^manufacturer_id\s/,
-  /^mcu_id\s/,
-  /^signature\s/,
-  /^profile\s/,
-  /^rateprofile\s/,
-  /^save$/,
-];
-
-export function parseCLIDiff(cliDiff: string): Map<string, string> {
-  const result = new Map<string, string>();
-  if (!cliDiff) return result;
-
-  const lines = cliDiff.split(/\r?\n/);
-
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line || SKIP_PATTERNS.some((p) => p.test(line))) continue;
-
-    const setMatch = line.match(/^set\s+(\S+)\s*=\s*(.+)$/);
-    if (setMatch) {
-      result.set(`set ${setMatch[1]}`, setMatch[2].trim());
-      continue;
-    }
+/** Map key of a diff entry — the same setting in two profiles must not collide */
+export function diffEntryId(scope: CLIDiffScope, key: string): string {
+  return `${scope}|${key}`;
+}
 
-    const featureMatch = line.match(/^feature\s+(-?\S+)$/);
-    if (featureMatch) {
-      result.set(`feature ${featureMatch[1]}`, '(enabled)');
-      continue;
-    }
+export function indexDiffEntries(entries: CLIDiffEntry[]): Map<string, CLIDiffEntry> {
+  return new Map(entries.map((entry) => [diffEntryId(entry.scope, entry.key), entry]));
+}
 
-    const serialMatch = line.match(/^serial\s+(\d+)\s+(.+)$/);
-    if (serialMatch) {
-      result.set(`serial ${serialMatch[1]}`, serialMatch[2].trim());
-      continue;
-    }
+/**
+ * Parse a snapshot's CLI diff into entries keyed by scope and setting, e.g.
+ * `profile 2|set p_roll` or `master|feature GPS`.
+ */
+export function parseCLIDiff(cliDiff: string): Map<string, CLIDiffEntry> {
+  if (!cliDiff) return new Map();
+  return indexDiffEntries(parseScopedCLIDiff(cliDiff).entries);
+}
+
+export function computeDiff(
+  before: Map<string, CLIDiffEntry>,
+  after: Map<string, CLIDiffEntry>
+): DiffEntry[] {
+  const entries: DiffEntry[] = [];
 
-    const auxMatch = line.match(/^aux\s+(\d+)\s+(.+)$/);
-    if (auxMatch) {
-      result.set(`aux ${auxMatch[1]}`, auxMatch[2].trim());
-      continue;
+  for (const [id, { scope, key, value: newValue }] of after) {
+    const oldValue = before.get(id)?.value;
+    if (oldValue === undefined) {
+      entries.push({ scope, key, newValue, status: 'added' });
+    } else if (oldValue !== newValue) {
+      entries.push({ scope, key, oldValue, newValue, status: 'changed' });
     }
+  }
 
-    const genericMatch = line.match(/^(\S+)\s+(.+)$/);
-    if (genericMatch) {
-      result.set(genericMatch[1], genericMatch[2].trim());
-      continue;
+  for (const [id, { scope, key, value: oldValue }] of before) {
+    if (!after.has(id)) {
+      entries.push({ scope, key, oldValue, status: 'removed' });
     }
   }
 
-  return result;
+  return entries.sort((a, b) => compareScopes(a.scope, b.scope) || a.key.localeCompare(b.key));
 }
 
-export function computeDiff(before: Map<string, string>, after: Map<string, string>): DiffEntry[] {
-  const entries: DiffEntry[] = [];
+/** Master first, then PID profiles, then rate profiles, each in index order */
+function compareScopes(a: CLIDiffScope, b: CLIDiffScope): number {
+  const rank = (scope: CLIDiffScope) => {
+    const [kind, index] = scope.split(' ');
+    if (kind === 'profile') return 1000 + Number(index);
+    if (kind === 'rateprofile') return 2000 + Number(index);
+    return 0;
+  };
+  return rank(a) - rank(b);
+}
 
-  for (const [key, newValue] of after) {
-    const oldValue = before.get(key);
-    if (oldValue === undefined) {
-      entries.push({ key, newValue, status: 'added' });
-    } else if (oldValue !== newValue) {
-      entries.push({ key, oldValue, newValue, status: 'changed' });
-    }
-  }
+export function groupDiffByScope(entries: DiffEntry[]): Map<CLIDiffScope, DiffEntry[]> {
+  const groups = new Map<CLIDiffScope, DiffEntry[]>();
 
-  for (const [key, oldValue] of before) {
-    if (!after.has(key)) {
-      entries.push({ key, oldValue, status: 'removed' });
+  for (const entry of entries) {
+    const group = groups.get(entry.scope);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(entry.scope, [entry]);
     }
   }
 
-  return entries.sort((a, b) => a.key.localeCompare(b.key));
+  return groups;
 }
 
 export function groupDiffByCommand(entries: DiffEntry[]): Map<string, DiffEntry[]> {
@@ -108,3 +99,17 @@ export function groupDiffByCommand(entries: DiffEntry[]): Map<string, DiffEntry[
 
   return groups;
 }
+
+/** Heading for a scope, numbered from 1 like the rest of the UI (`profile 0` → "PID Profile 1") */
+export function scopeLabel(scope: CLIDiffScope): string {
+  const [kind, index] = scope.split(' ');
+  if (kind === 'profile') return `PID Profile ${Number(index) + 1}`;
+  if (kind === 'rateprofile') return `Rate Profile ${Number(index) + 1}`;
+  return 'General';
+}
+
+/** Readable name for diff keys that map to the angle/horizon (LEVEL) or MAG PID controller */
+export function controllerLabel(key: string): string | undefined {
+  const setMatch = key.match(/^set\s+(\S+)$/);
+  return setMatch ? PID_CONTROLLER_LABELS[setMatch[1]] : undefined;
+}
@@ -104,4 +104,61 @@ describe('TelemetrySettingsModal', () => {
 
     expect(onClose).toHaveBeenCalled();
   });
+
+  it('exports the current profile from the Backup tab', async () => {
+    const user = userEvent.setup();
+    vi.mocked(window.betaflight.getCurrentProfile).mockResolvedValue({
+      id: 'prof-1',
+      name: 'Freestyle',
+    } as any);
+    vi.mocked(window.betaflight.exportAppBackup).mockResolvedValue('/tmp/freestyle.fpvbackup');
+    render(<TelemetrySettingsModal onClose={onClose} />);
+
+    await user.click(screen.getByText('Backup'));
+    await user.click(await screen.findByText('Export Freestyle'));
+
+    expect(window.betaflight.exportAppBackup).toHaveBeenCalledWith({ profileId: 'prof-1' });
+    expect(await screen.findByText('Backup saved to /tmp/freestyle.fpvbackup')).toBeInTheDocument();
+  });
+
+  it('summarizes what an imported backup added', async () => {
+    const user = userEvent.setup();
+    vi.mocked(window.betaflight.getCurrentProfile).mockResolvedValue(null);
+    vi.mocked(window.betaflight.importAppBackup).mockResolvedValue({
+      profilesAdded: 1,
+      profilesMerged: 0,
+      snapshotsAdded: 3,
+      logsAdded: 2,
+      sessionsAdded: 0,
+      historyRecordsAdded: 1,
+      skipped: 0,
+      reassignedIds: 0,
+      appFilesRestored: [],
+      conflicts: ["Kept this computer's license.json"],
+    });
+    render(<TelemetrySettingsModal onClose={onClose} />);
+
+    await user.click(screen.getByText('Backup'));
+    expect(screen.getByText('Export current profile')).toBeDisabled();
+    await user.click(screen.getByText('Import backup'));
+
+    expect(await screen.findByText('3 snapshots')).toBeInTheDocument();
+    expect(screen.getByText('2 blackbox logs')).toBeInTheDocument();
+    expect(screen.getByText("Kept this computer's license.json")).toBeInTheDocument();
+    expect(screen.queryByText(/skipped/)).not.toBeInTheDocument();
+  });
+
+  it('shows an import error', async () => {
+    const user = userEvent.setup();
+    vi.mocked(window.betaflight.getCurrentProfile).mockResolvedValue(null);
+    vi.mocked(window.betaflight.importAppBackup).mockRejectedValue(
+      new Error('Not an FPVPIDlab backup file')
+    );
+    render(<TelemetrySettingsModal onClose={onClose} />);
+
+    await user.click(screen.getByText('Backup'));
+    await user.click(screen.getByText('Import backup'));
+
+    expect(await screen.findByText('Not an FPVPIDlab backup file')).toBeInTheDocument();
+  });
 });
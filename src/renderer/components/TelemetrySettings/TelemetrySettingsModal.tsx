@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useTelemetrySettings } from '../../hooks/useTelemetrySettings';
+import type { DroneProfile } from '@shared/types/profile.types';
+import type { AppBackupImportResult } from '@shared/types/backup.types';
 import './TelemetrySettingsModal.css';
 
 interface TelemetrySettingsModalProps {
@@ -9,11 +11,16 @@ interface TelemetrySettingsModalProps {
 export function TelemetrySettingsModal({ onClose }: TelemetrySettingsModalProps) {
   const { settings, loading, toggleEnabled, sendNow, sending } = useTelemetrySettings();
   const [copied, setCopied] = useState(false);
-  const [activeTab, setActiveTab] = useState<'telemetry' | 'logs'>('telemetry');
+  const [activeTab, setActiveTab] = useState<'telemetry' | 'logs' | 'backup'>('telemetry');
   const [logs, setLogs] = useState<string[]>([]);
   const [logsLoading, setLogsLoading] = useState(false);
   const [exporting, setExporting] = useState(false);
   const logBoxRef = useRef<HTMLDivElement>(null);
+  const [currentProfile, setCurrentProfile] = useState<DroneProfile | null>(null);
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<AppBackupImportResult | null>(null);
 
   const handleCopyId = async () => {
     if (!settings) return;
@@ -58,10 +65,46 @@ export function TelemetrySettingsModal({ onClose }: TelemetrySettingsModalProps)
     }
   };
 
+  const handleExportBackup = async (profileId?: string) => {
+    setBackupBusy(true);
+    setBackupError(null);
+    setBackupMessage(null);
+    setImportResult(null);
+    try {
+      const path = await window.betaflight.exportAppBackup(profileId ? { profileId } : undefined);
+      if (path) setBackupMessage(`Backup saved to ${path}`);
+    } catch (err) {
+      setBackupError(err instanceof Error ? err.message : 'Failed to export backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleImportBackup = async () => {
+    setBackupBusy(true);
+    setBackupError(null);
+    setBackupMessage(null);
+    setImportResult(null);
+    try {
+      const result = await window.betaflight.importAppBackup();
+      if (result) setImportResult(result);
+    } catch (err) {
+      setBackupError(err instanceof Error ? err.message : 'Failed to import backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
   useEffect(() => {
     if (activeTab === 'logs' && logs.length === 0) {
       loadLogs();
     }
+    if (activeTab === 'backup') {
+      window.betaflight
+        .getCurrentProfile()
+        .then(setCurrentProfile)
+        .catch(() => setCurrentProfile(null));
+    }
   }, [activeTab]);
 
   useEffect(() => {
@@ -93,6 +136,12 @@ export function TelemetrySettingsModal({ onClose }: TelemetrySettingsModalProps)
           >
             Logs
           </button>
+          <button
+            className={`settings-tab ${activeTab === 'backup' ? 'settings-tab-active' : ''}`}
+            onClick={() => setActiveTab('backup')}
+          >
+            Backup
+          </button>
         </div>
 
         {activeTab === 'telemetry' && (
@@ -232,6 +281,71 @@ export function TelemetrySettingsModal({ onClose }: TelemetrySettingsModalProps)
             </div>
           </div>
         )}
+
+        {activeTab === 'backup' && (
+          <div className="telemetry-modal-body">
+            <p className="telemetry-description">
+              Save all drone profiles with their snapshots, blackbox logs and tuning history to a
+              single file, or bring a backup from another computer into this one. Importing adds to
+              what is already here and never deletes anything.
+            </p>
+
+            <div className="logs-actions">
+              <button
+                className="wizard-btn wizard-btn-secondary"
+                onClick={() => handleExportBackup()}
+                disabled={backupBusy}
+              >
+                Export everything
+              </button>
+              <button
+                className="wizard-btn wizard-btn-secondary"
+                onClick={() => handleExportBackup(currentProfile?.id)}
+                disabled={backupBusy || !currentProfile}
+              >
+                {currentProfile ? `Export ${currentProfile.name}` : 'Export current profile'}
+              </button>
+              <button
+                className="wizard-btn wizard-btn-secondary"
+                onClick={handleImportBackup}
+                disabled={backupBusy}
+              >
+                Import backup
+              </button>
+            </div>
+
+            {backupMessage && <p className="backup-status">{backupMessage}</p>}
+            {backupError && <p className="backup-status telemetry-error-value">{backupError}</p>}
+
+            {importResult && (
+              <div className="backup-result">
+                <p className="backup-status">Backup imported</p>
+                <ul className="telemetry-data-list">
+                  <li>
+                    {importResult.profilesAdded} new profiles, {importResult.profilesMerged} merged
+                    into existing ones
+                  </li>
+                  <li>{importResult.snapshotsAdded} snapshots</li>
+                  <li>{importResult.logsAdded} blackbox logs</li>
+                  <li>{importResult.sessionsAdded} tuning sessions</li>
+                  <li>{importResult.historyRecordsAdded} tuning history records</li>
+                  {importResult.skipped > 0 && (
+                    <li>{importResult.skipped} already here, skipped</li>
+                  )}
+                  {importResult.reassignedIds > 0 && (
+                    <li>{importResult.reassignedIds} given a new ID to avoid a clash</li>
+                  )}
+                  {importResult.appFilesRestored.map((file) => (
+                    <li key={file}>Restored {file}</li>
+                  ))}
+                  {importResult.conflicts.map((note) => (
+                    <li key={note}>{note}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -57,4 +57,14 @@ describe('AppliedChangesTable', () => {
     expect(screen.getByText('setting_a')).toBeInTheDocument();
     expect(screen.getByText('setting_b')).toBeInTheDocument();
   });
+
+  it('labels angle/horizon (level) controller changes', () => {
+    const changes: AppliedChange[] = [
+      { setting: 'pid_level_p', previousValue: 50, newValue: 60 },
+      { setting: 'pid_roll_p', previousValue: 45, newValue: 50 },
+    ];
+    render(<AppliedChangesTable title="PID Changes" changes={changes} />);
+    expect(screen.getByText('Angle strength')).toBeInTheDocument();
+    expect(screen.getByText('pid_roll_p')).toBeInTheDocument();
+  });
 });
@@ -1,5 +1,6 @@
 import React from 'react';
 import type { AppliedChange } from '@shared/types/tuning.types';
+import { PID_CONTROLLER_LABELS } from '@shared/constants';
 
 interface AppliedChangesTableProps {
   title: string;
@@ -25,7 +26,12 @@ export function AppliedChangesTable({ title, changes }: AppliedChangesTableProps
         <tbody>
           {changes.map((c) => (
             <tr key={c.setting}>
-              <td className="applied-changes-setting">{c.setting}</td>
+              <td className="applied-changes-setting">
+                {c.setting}
+                {PID_CONTROLLER_LABELS[c.setting] && (
+                  <span className="applied-changes-label">{PID_CONTROLLER_LABELS[c.setting]}</span>
+                )}
+              </td>
               <td className="applied-changes-values">
                 <span className="applied-changes-prev">{c.previousValue}</span>
                 <span className="applied-changes-arrow">{'\u2192'}</span>
@@ -129,6 +129,7 @@ export function TuningCompletionSummary({
   const filterChanges = session.appliedFilterChanges ?? [];
   const pidChanges = session.appliedPIDChanges ?? [];
   const ffChanges = session.appliedFeedforwardChanges ?? [];
+  const ratesChanges = session.appliedRatesChanges ?? [];
   const score = useMemo(
     () =>
       computeTuneQualityScore({
@@ -252,6 +253,9 @@ export function TuningCompletionSummary({
         {ffChanges.length > 0 && (
           <AppliedChangesTable title="Feedforward Changes" changes={ffChanges} />
         )}
+        {ratesChanges.length > 0 && (
+          <AppliedChangesTable title="Rate Changes" changes={ratesChanges} />
+        )}
       </div>
 
       {/* PID metrics (shown when no PID verification — raw metrics before changes) */}
@@ -25,8 +25,10 @@ function recordSummary(record: CompletedTuningRecord): string {
   const parts: string[] = [];
   const fc = record.appliedFilterChanges.length;
   const pc = record.appliedPIDChanges.length;
+  const rc = record.appliedRatesChanges?.length ?? 0;
   if (fc > 0) parts.push(`${fc} filter`);
   if (pc > 0) parts.push(`${pc} PID`);
+  if (rc > 0) parts.push(`${rc} rate`);
   const changes = parts.length > 0 ? `${parts.join(' + ')} changes` : 'No changes';
 
   const noise = record.filterMetrics ? `Noise: ${record.filterMetrics.noiseLevel}` : '';
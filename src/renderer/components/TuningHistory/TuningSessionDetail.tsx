@@ -185,6 +185,9 @@ export function TuningSessionDetail({ record, onReanalyzeVerification }: TuningS
             changes={record.appliedFeedforwardChanges}
           />
         )}
+        {record.appliedRatesChanges && record.appliedRatesChanges.length > 0 && (
+          <AppliedChangesTable title="Rate Changes" changes={record.appliedRatesChanges} />
+        )}
       </div>
 
       {/* PID metrics (no PID verification — raw metrics before changes) */}
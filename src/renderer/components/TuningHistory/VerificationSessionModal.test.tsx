@@ -22,6 +22,7 @@ function makeSession(index: number, duration = 60, frames = 6000): BlackboxLogSe
       durationSeconds: duration,
       frameCount: frames,
     },
+    events: [],
     corruptedFrameCount: 0,
     warnings: [],
   };
@@ -66,6 +66,54 @@ describe('ApplyConfirmationModal', () => {
     expect(mockCancel).toHaveBeenCalled();
   });
 
+  it('lists values clamped to the firmware range', () => {
+    render(
+      <ApplyConfirmationModal
+        filterCount={1}
+        pidCount={0}
+        settingChecks={[
+          {
+            setting: 'rpm_filter_q',
+            value: 4000,
+            status: 'clamped',
+            adjustedValue: 3000,
+            allowed: '250 - 3000',
+            message: '',
+          },
+        ]}
+        onConfirm={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText(/4000 → 3000 \(firmware allows 250 - 3000\)/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Apply Changes' })).toBeEnabled();
+  });
+
+  it('blocks apply when a value is invalid for the firmware', () => {
+    render(
+      <ApplyConfirmationModal
+        filterCount={0}
+        pidCount={1}
+        settingChecks={[
+          {
+            setting: 'rates_type',
+            value: 7,
+            status: 'invalid',
+            message: 'rates_type = 7 is not one of: BETAFLIGHT, ACTUAL',
+          },
+        ]}
+        onConfirm={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(
+      screen.getByText('rates_type = 7 is not one of: BETAFLIGHT, ACTUAL')
+    ).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Apply Changes' })).toBeDisabled();
+  });
+
   it('shows reboot warning text', () => {
     render(
       <ApplyConfirmationModal filterCount={3} pidCount={2} onConfirm={vi.fn()} onCancel={vi.fn()} />
@@ -1,10 +1,13 @@
 import React from 'react';
+import type { SettingCheck } from '@shared/types/cli.types';
 import '../ProfileWizard.css';
 import './ApplyConfirmationModal.css';
 
 interface ApplyConfirmationModalProps {
   filterCount: number;
   pidCount: number;
+  /** Recommendations outside the firmware's limits (from the settings schema) */
+  settingChecks?: SettingCheck[];
   onConfirm: () => void;
   onCancel: () => void;
 }
@@ -12,10 +15,12 @@ interface ApplyConfirmationModalProps {
 export function ApplyConfirmationModal({
   filterCount,
   pidCount,
+  settingChecks = [],
   onConfirm,
   onCancel,
 }: ApplyConfirmationModalProps) {
   const totalChanges = filterCount + pidCount;
+  const hasInvalid = settingChecks.some((c) => c.status === 'invalid');
 
   return (
     <div className="profile-wizard-overlay" onClick={onCancel}>
@@ -44,6 +49,26 @@ export function ApplyConfirmationModal({
           )}
         </div>
 
+        {settingChecks.length > 0 && (
+          <ul className="apply-confirm-checks">
+            {settingChecks.map((check) => (
+              <li
+                key={check.setting}
+                className={`apply-confirm-check apply-confirm-check-${check.status}`}
+              >
+                {check.status === 'clamped' ? (
+                  <>
+                    <code>{check.setting}</code>: {check.value} → {check.adjustedValue} (firmware
+                    allows {check.allowed})
+                  </>
+                ) : (
+                  check.message
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
         <div className="apply-confirm-warning">
           Your FC will reboot after applying. You will need to reconnect.
         </div>
@@ -52,7 +77,12 @@ export function ApplyConfirmationModal({
           <button className="wizard-btn wizard-btn-secondary" onClick={onCancel}>
             Cancel
           </button>
-          <button className="wizard-btn wizard-btn-success" onClick={onConfirm}>
+          <button
+            className="wizard-btn wizard-btn-success"
+            onClick={onConfirm}
+            disabled={hasInvalid}
+            title={hasInvalid ? 'A value is not valid for this firmware' : undefined}
+          >
             Apply Changes
           </button>
         </div>
@@ -226,7 +226,10 @@ export function FilterAnalysisStep({
           <div className="noise-details">
             <h4 className="chart-title">Throttle Spectrogram</h4>
             <p className="chart-description">{CHART_DESCRIPTIONS.throttleSpectrogram}</p>
-            <ThrottleSpectrogramChart data={filterResult.throttleSpectrogram} />
+            <ThrottleSpectrogramChart
+              data={filterResult.throttleSpectrogram}
+              rpmData={filterResult.rpmSpectrogram}
+            />
           </div>
         )}
 
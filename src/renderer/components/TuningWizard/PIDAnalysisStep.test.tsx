@@ -1,6 +1,7 @@
 import React from 'react';
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { PIDAnalysisStep } from './PIDAnalysisStep';
 import type { PIDAnalysisResult } from '@shared/types/analysis.types';
 
@@ -16,6 +17,7 @@ vi.mock('recharts', () => ({
   CartesianGrid: () => null,
   Tooltip: () => null,
   ReferenceLine: () => null,
+  Legend: () => null,
 }));
 
 const mockPIDResult: PIDAnalysisResult = {
@@ -200,4 +202,67 @@ describe('PIDAnalysisStep', () => {
     render(<PIDAnalysisStep {...defaultProps} pidResult={mockPIDResult} />);
     expect(screen.queryByText(/Prop wash/)).not.toBeInTheDocument();
   });
+
+  it('shows stick usage, rate system selector and rate recommendations', async () => {
+    const user = userEvent.setup();
+    const axisRates = { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 };
+    const target = { centerSensitivity: 70, maxRate: 670, expo: 0 };
+    const axis = {
+      usage: {
+        histogram: [],
+        fullStickPercent: 8.2,
+        centerPercent: 40,
+        p95Deflection: 0.9,
+        peakRateDegS: 665,
+      },
+      current: target,
+      target,
+      reasons: [],
+    };
+    const current = {
+      ratesType: 'ACTUAL' as const,
+      roll: axisRates,
+      pitch: axisRates,
+      yaw: axisRates,
+    };
+    const onRatesTypeChange = vi.fn();
+    render(
+      <PIDAnalysisStep
+        {...defaultProps}
+        pidResult={{
+          ...mockPIDResult,
+          ratesAnalysis: {
+            current,
+            source: 'rcCommand',
+            roll: axis,
+            pitch: axis,
+            yaw: axis,
+            recommendations: [],
+            summary: 'Your stick usage suggests rate changes on roll.',
+          },
+        }}
+        ratesType="ACTUAL"
+        onRatesTypeChange={onRatesTypeChange}
+        proposedRates={{ ...current, roll: { ...axisRates, rate: 77 } }}
+        ratesRecommendations={[
+          {
+            setting: 'roll_srate',
+            currentValue: 67,
+            recommendedValue: 77,
+            reason: 'Saturated.',
+            impact: 'response',
+            confidence: 'medium',
+          },
+        ]}
+      />
+    );
+
+    expect(screen.getByText('Your stick usage suggests rate changes on roll.')).toBeInTheDocument();
+    expect(screen.getAllByText('8.2%')).toHaveLength(3);
+    expect(screen.getByText('Roll Super Rate')).toBeInTheDocument();
+    expect(screen.getByText(/Proposed \(Actual\): 770 deg\/s/)).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByRole('combobox'), 'BETAFLIGHT');
+    expect(onRatesTypeChange).toHaveBeenCalledWith('BETAFLIGHT');
+  });
 });
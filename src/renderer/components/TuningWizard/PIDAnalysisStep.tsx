@@ -1,9 +1,16 @@
 import React from 'react';
 import { RecommendationCard } from './RecommendationCard';
 import { StepResponseChart } from './charts/StepResponseChart';
-import type { PIDAnalysisResult, AnalysisProgress } from '@shared/types/analysis.types';
+import { RateCurveChart } from './charts/RateCurveChart';
+import type {
+  PIDAnalysisResult,
+  AnalysisProgress,
+  RatesRecommendation,
+} from '@shared/types/analysis.types';
 import type { FlightStyle } from '@shared/types/profile.types';
+import type { RatesConfiguration, RatesType } from '@shared/types/pid.types';
 import { CHART_DESCRIPTIONS, METRIC_TOOLTIPS } from '@shared/constants/metricTooltips';
+import { RATES_TYPES, RATES_TYPE_LABELS } from '@shared/utils/rateCurves';
 
 const FLIGHT_STYLE_LABELS: Record<FlightStyle, string> = {
   smooth: 'Smooth',
@@ -18,6 +25,11 @@ interface PIDAnalysisStepProps {
   pidError: string | null;
   runPIDAnalysis: () => Promise<void>;
   onContinue: () => void;
+  /** Rate system the rates proposal is expressed in */
+  ratesType?: RatesType | null;
+  onRatesTypeChange?: (ratesType: RatesType) => void;
+  proposedRates?: RatesConfiguration | null;
+  ratesRecommendations?: RatesRecommendation[];
 }
 
 const STEP_LABELS: Record<string, string> = {
@@ -34,6 +46,10 @@ export function PIDAnalysisStep({
   pidError,
   runPIDAnalysis,
   onContinue,
+  ratesType,
+  onRatesTypeChange,
+  proposedRates,
+  ratesRecommendations = [],
 }: PIDAnalysisStepProps) {
   // Check if any trace data exists
   const hasTraces = pidResult
@@ -241,6 +257,69 @@ export function PIDAnalysisStep({
           </div>
         )}
 
+        {pidResult.ratesAnalysis && (
+          <>
+            <h4 className="chart-title">Rates</h4>
+            <p>{pidResult.ratesAnalysis.summary}</p>
+            <div className="axis-summary">
+              {(['roll', 'pitch', 'yaw'] as const).map((axis) => {
+                const usage = pidResult.ratesAnalysis![axis].usage;
+                return (
+                  <div key={`rates-${axis}`} className="axis-summary-card">
+                    <div className="axis-summary-card-title">{axis}</div>
+                    <div className="axis-summary-card-stat">
+                      <span>Full stick: </span>
+                      {usage.fullStickPercent.toFixed(1)}%
+                    </div>
+                    <div className="axis-summary-card-stat">
+                      <span>Near center: </span>
+                      {usage.centerPercent.toFixed(0)}%
+                    </div>
+                    <div className="axis-summary-card-stat">
+                      <span>Peak rate: </span>
+                      {Math.round(usage.peakRateDegS)} deg/s
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {ratesType && onRatesTypeChange && (
+              <label className="rates-type-select">
+                Rates system:{' '}
+                <select
+                  value={ratesType}
+                  onChange={(e) => onRatesTypeChange(e.target.value as RatesType)}
+                >
+                  {RATES_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {RATES_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <RateCurveChart
+              current={pidResult.ratesAnalysis.current}
+              proposed={ratesRecommendations.length > 0 ? proposedRates : null}
+            />
+            {ratesRecommendations.length > 0 && (
+              <div className="recommendation-list">
+                {ratesRecommendations.map((rec) => (
+                  <RecommendationCard
+                    key={rec.setting}
+                    setting={rec.setting}
+                    currentValue={rec.currentValue}
+                    recommendedValue={rec.recommendedValue}
+                    reason={rec.reason}
+                    impact={rec.impact}
+                    confidence={rec.confidence}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
         <div className="analysis-actions">
           <button className="wizard-btn wizard-btn-primary" onClick={onContinue}>
             Continue to Summary
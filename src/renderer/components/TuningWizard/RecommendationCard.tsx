@@ -22,6 +22,16 @@ export const SETTING_LABELS: Record<string, string> = {
   feedforward_jitter_factor: 'FF Jitter Factor',
   feedforward_transition: 'FF Transition',
   feedforward_max_rate_limit: 'FF Max Rate Limit',
+  roll_rc_rate: 'Roll RC Rate',
+  pitch_rc_rate: 'Pitch RC Rate',
+  yaw_rc_rate: 'Yaw RC Rate',
+  roll_srate: 'Roll Super Rate',
+  pitch_srate: 'Pitch Super Rate',
+  yaw_srate: 'Yaw Super Rate',
+  roll_expo: 'Roll Expo',
+  pitch_expo: 'Pitch Expo',
+  yaw_expo: 'Yaw Expo',
+  rates_type: 'Rates System',
 };
 
 function computeChange(
@@ -8,6 +8,7 @@ const emptyTimeSeries: TimeSeries = { time: new Float64Array(), values: new Floa
 
 const mockSession: BlackboxLogSession = {
   index: 0,
+  events: [],
   corruptedFrameCount: 0,
   warnings: [],
   flightData: {
@@ -36,6 +37,7 @@ const mockSession: BlackboxLogSession = {
     pFieldDefs: [],
     sFieldDefs: [],
     gFieldDefs: [],
+    hFieldDefs: [],
     iInterval: 32,
     pInterval: 1,
     pDenom: 1,
@@ -32,6 +32,7 @@ const mockSession: BlackboxLogSession = {
     pFieldDefs: [],
     sFieldDefs: [],
     gFieldDefs: [],
+    hFieldDefs: [],
     iInterval: 32,
     pInterval: 1,
     pDenom: 1,
@@ -86,6 +87,7 @@ const mockSession: BlackboxLogSession = {
     durationSeconds: 60,
     frameCount: 480000,
   },
+  events: [],
   corruptedFrameCount: 0,
   warnings: [],
 };
@@ -1065,6 +1067,49 @@ describe('TuningWizard', () => {
     });
   });
 
+  it('records the values the FC was given when the apply clamped them', async () => {
+    vi.mocked(window.betaflight.parseBlackboxLog).mockResolvedValue(mockSingleSessionResult);
+    vi.mocked(window.betaflight.analyzeFilters).mockResolvedValue(mockFilterResult);
+    vi.mocked(window.betaflight.applyRecommendations).mockResolvedValue({
+      success: true,
+      appliedPIDs: 0,
+      appliedFilters: 1,
+      appliedFeedforward: 0,
+      rebooted: true,
+      writtenValues: { gyro_lpf1_static_hz: 280 },
+    });
+
+    const onApplyComplete = vi.fn();
+    const user = userEvent.setup();
+    render(
+      <TuningWizard
+        logId="test-log-1"
+        mode={TUNING_MODE.FILTER}
+        onExit={onExit}
+        onApplyComplete={onApplyComplete}
+      />
+    );
+
+    await waitFor(() => expect(screen.getByText('Run Filter Analysis')).toBeInTheDocument());
+    await user.click(screen.getByText('Run Filter Analysis'));
+    await waitFor(() => expect(screen.getByText('Continue to Summary')).toBeInTheDocument());
+    await user.click(screen.getByText('Continue to Summary'));
+    await waitFor(() => expect(screen.getByText('Apply Filters')).toBeInTheDocument());
+    await user.click(screen.getByText('Apply Filters'));
+    await waitFor(() => expect(screen.getByText('Apply Tuning Changes')).toBeInTheDocument());
+
+    const modalApplyBtns = screen.getAllByText('Apply Changes');
+    await user.click(modalApplyBtns[modalApplyBtns.length - 1]);
+
+    await waitFor(() => {
+      expect(onApplyComplete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filterChanges: [{ setting: 'gyro_lpf1_static_hz', previousValue: 250, newValue: 280 }],
+        })
+      );
+    });
+  });
+
   // ---- RPM filter status display ----
 
   it('FilterAnalysisStep shows RPM Filter: Active pill when rpmFilterActive is true', async () => {
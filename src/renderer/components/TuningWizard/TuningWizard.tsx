@@ -20,6 +20,7 @@ import { PIDAnalysisStep } from './PIDAnalysisStep';
 import { TuningSummaryStep } from './TuningSummaryStep';
 import { QuickAnalysisStep } from './QuickAnalysisStep';
 import { ApplyConfirmationModal } from './ApplyConfirmationModal';
+import { FlightTimelineChart } from './charts/FlightTimelineChart';
 import './TuningWizard.css';
 
 interface TuningWizardProps {
@@ -30,6 +31,7 @@ interface TuningWizardProps {
     filterChanges?: AppliedChange[];
     pidChanges?: AppliedChange[];
     feedforwardChanges?: AppliedChange[];
+    ratesChanges?: AppliedChange[];
     filterMetrics?: FilterMetricsSummary;
     pidMetrics?: PIDMetricsSummary;
     transferFunctionMetrics?: TransferFunctionMetricsSummary;
@@ -51,14 +53,18 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
       applyCalled.current = true;
 
       if (onApplyComplete) {
+        // Record what the FC got: the apply clamps values to the firmware's limits
+        const written = (r: { setting: string; recommendedValue: number }) =>
+          wizard.applyResult?.writtenValues?.[r.setting] ?? r.recommendedValue;
+
         const filterChanges =
           mode !== TUNING_MODE.PID
             ? wizard.filterResult?.recommendations
-                .filter((r) => r.currentValue !== r.recommendedValue)
+                .filter((r) => r.currentValue !== written(r))
                 .map((r) => ({
                   setting: r.setting,
                   previousValue: r.currentValue,
-                  newValue: r.recommendedValue,
+                  newValue: written(r),
                 }))
             : undefined;
 
@@ -76,7 +82,7 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
           .map((r) => ({
             setting: r.setting,
             previousValue: r.currentValue,
-            newValue: r.recommendedValue,
+            newValue: written(r),
           }));
 
         const feedforwardChanges = allPidRecs
@@ -84,9 +90,15 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
           .map((r) => ({
             setting: r.setting,
             previousValue: r.currentValue,
-            newValue: r.recommendedValue,
+            newValue: written(r),
           }));
 
+        const ratesChanges = wizard.ratesRecommendations.map((r) => ({
+          setting: r.setting,
+          previousValue: r.currentValue,
+          newValue: written(r),
+        }));
+
         const filterMetrics =
           mode !== TUNING_MODE.PID && wizard.filterResult
             ? extractFilterMetrics(wizard.filterResult)
@@ -111,6 +123,7 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
           filterChanges,
           pidChanges: pidChanges.length > 0 ? pidChanges : undefined,
           feedforwardChanges: feedforwardChanges.length > 0 ? feedforwardChanges : undefined,
+          ratesChanges: ratesChanges.length > 0 ? ratesChanges : undefined,
           filterMetrics,
           pidMetrics,
           transferFunctionMetrics,
@@ -128,9 +141,11 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
     }
   }, [
     wizard.applyState,
+    wizard.applyResult,
     wizard.filterResult,
     wizard.pidResult,
     wizard.tfResult,
+    wizard.ratesRecommendations,
     mode,
     onApplyComplete,
   ]);
@@ -142,6 +157,14 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
     };
   }, []);
 
+  // The analysis steps show the analyzed flight with its events (failsafe, disarm, mode changes)
+  const selectedSession = wizard.sessionSelected
+    ? wizard.sessions?.[wizard.sessionIndex]
+    : undefined;
+  const showTimeline =
+    !!selectedSession &&
+    (wizard.step === 'filter' || wizard.step === 'pid' || wizard.step === 'flash_analysis');
+
   const renderStep = () => {
     switch (wizard.step) {
       case 'guide':
@@ -188,6 +211,10 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
             pidError={wizard.pidError}
             runPIDAnalysis={wizard.runPIDAnalysis}
             onContinue={() => wizard.setStep('summary')}
+            ratesType={wizard.ratesType}
+            onRatesTypeChange={wizard.setRatesType}
+            proposedRates={wizard.proposedRates}
+            ratesRecommendations={wizard.ratesRecommendations}
           />
         );
       case 'flash_analysis':
@@ -248,12 +275,16 @@ export function TuningWizard({ logId, mode = 'full', onExit, onApplyComplete }:
 
       <WizardProgress currentStep={wizard.step} mode={mode} />
 
-      <div className="tuning-wizard-content">{renderStep()}</div>
+      <div className="tuning-wizard-content">
+        {showTimeline && <FlightTimelineChart session={selectedSession} />}
+        {renderStep()}
+      </div>
 
       {wizard.applyState === 'confirming' && (
         <ApplyConfirmationModal
           filterCount={wizard.filterResult?.recommendations.length ?? 0}
           pidCount={wizard.pidResult?.recommendations.length ?? 0}
+          settingChecks={wizard.settingChecks}
           onConfirm={wizard.confirmApply}
           onCancel={wizard.cancelApply}
         />
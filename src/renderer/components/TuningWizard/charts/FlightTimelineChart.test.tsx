@@ -0,0 +1,79 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { FlightTimelineChart } from './FlightTimelineChart';
+import type { BlackboxLogSession, TimeSeries } from '@shared/types/blackbox.types';
+
+vi.mock('recharts', () => ({
+  ResponsiveContainer: ({ children }: any) => <div>{children}</div>,
+  LineChart: ({ children }: any) => <div data-testid="line-chart">{children}</div>,
+  Line: () => null,
+  XAxis: () => null,
+  YAxis: () => null,
+  CartesianGrid: () => null,
+  Tooltip: () => null,
+  ReferenceLine: ({ x, label }: any) => (
+    <div data-testid="event-marker" data-x={x}>
+      {label.value}
+    </div>
+  ),
+}));
+
+function series(length: number): TimeSeries {
+  const time = new Float64Array(length);
+  const values = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    time[i] = i / 100;
+    values[i] = 1200 + i;
+  }
+  return { time, values };
+}
+
+function makeSession(events: BlackboxLogSession['events']): BlackboxLogSession {
+  const s = series(1000);
+  return {
+    index: 0,
+    header: {} as BlackboxLogSession['header'],
+    flightData: {
+      gyro: [s, s, s],
+      setpoint: [s, s, s, s],
+      pidP: [s, s, s],
+      pidI: [s, s, s],
+      pidD: [s, s, s],
+      pidF: [s, s, s],
+      motor: [s, s, s, s],
+      debug: [],
+      sampleRateHz: 100,
+      durationSeconds: 10,
+      frameCount: 1000,
+    },
+    events,
+    corruptedFrameCount: 0,
+    warnings: [],
+  };
+}
+
+describe('FlightTimelineChart', () => {
+  it('marks the session events at their flight time', () => {
+    render(
+      <FlightTimelineChart
+        session={makeSession([
+          { type: 'state', time: 3, flightModeFlags: 0, stateFlags: 0, failsafePhase: 1 },
+          { type: 'disarm', time: 8.5, reason: 4 },
+        ])}
+      />
+    );
+
+    const markers = screen.getAllByTestId('event-marker');
+    expect(markers.map((m) => m.textContent)).toEqual(['Failsafe', 'Disarm (reason 4)']);
+    expect(markers[1]).toHaveAttribute('data-x', '8.5');
+    expect(screen.getByText('2 events')).toBeInTheDocument();
+  });
+
+  it('says so when the log has no events', () => {
+    render(<FlightTimelineChart session={makeSession([])} />);
+
+    expect(screen.queryByTestId('event-marker')).not.toBeInTheDocument();
+    expect(screen.getByText('No flight events logged')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+} from 'recharts';
+import { downsampleData, eventsToChartMarkers, type EventMarker } from './chartUtils';
+import type { BlackboxLogSession } from '@shared/types/blackbox.types';
+import './FlightTimelineChart.css';
+
+interface FlightTimelineChartProps {
+  session: BlackboxLogSession;
+}
+
+interface ThrottlePoint {
+  time: number;
+  throttle: number;
+}
+
+const MAX_POINTS = 600;
+const HEIGHT = 140;
+
+const MARKER_COLORS: Partial<Record<EventMarker['kind'], string>> = {
+  state: '#ff6b6b',
+  disarm: '#ff6b6b',
+  flight_mode: '#ffd43b',
+  inflight_adjustment: '#4dabf7',
+};
+
+/** Throttle over the whole session with the flight event timeline marked on it */
+export function FlightTimelineChart({ session }: FlightTimelineChartProps) {
+  const data = useMemo(() => {
+    const throttle = session.flightData.setpoint[3];
+    if (!throttle) return [];
+    const points: ThrottlePoint[] = [];
+    for (let i = 0; i < throttle.time.length; i++) {
+      points.push({
+        time: Math.round(throttle.time[i] * 100) / 100,
+        throttle: Math.round(throttle.values[i]),
+      });
+    }
+    return downsampleData(points, MAX_POINTS);
+  }, [session]);
+
+  const markers = useMemo(() => eventsToChartMarkers(session.events), [session]);
+
+  if (data.length < 2) return null;
+
+  return (
+    <div className="flight-timeline-chart">
+      <div className="flight-timeline-chart-header">
+        <span>Flight timeline</span>
+        <span className="flight-timeline-chart-count">
+          {markers.length > 0
+            ? `${markers.length} event${markers.length !== 1 ? 's' : ''}`
+            : 'No flight events logged'}
+        </span>
+      </div>
+      <div className="flight-timeline-chart-container">
+        <ResponsiveContainer width="100%" height={HEIGHT}>
+          <LineChart data={data} margin={{ top: 16, right: 16, left: 8, bottom: 4 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fontSize: 11, fill: '#aaa' }}
+              tickFormatter={(t: number) => `${Math.round(t)}s`}
+            />
+            <YAxis tick={{ fontSize: 11, fill: '#aaa' }} width={40} />
+            <Tooltip
+              contentStyle={{
+                background: '#1a1a1a',
+                border: '1px solid #444',
+                borderRadius: 4,
+                fontSize: 12,
+              }}
+              labelFormatter={(val) => `${Number(val).toFixed(2)}s`}
+            />
+            <Line
+              dataKey="throttle"
+              name="Throttle"
+              stroke="#aaa"
+              strokeWidth={1}
+              dot={false}
+              isAnimationActive={false}
+            />
+            {markers.map((marker, i) => (
+              <ReferenceLine
+                key={i}
+                x={marker.time}
+                stroke={MARKER_COLORS[marker.kind] ?? '#888'}
+                strokeDasharray="3 3"
+                label={{
+                  value: marker.label,
+                  position: 'insideTopLeft',
+                  fontSize: 10,
+                  fill: MARKER_COLORS[marker.kind] ?? '#888',
+                }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RateCurveChart } from './RateCurveChart';
+import type { RatesConfiguration } from '@shared/types/pid.types';
+
+vi.mock('recharts', () => ({
+  ResponsiveContainer: ({ children }: any) => (
+    <div data-testid="responsive-container">{children}</div>
+  ),
+  LineChart: ({ children }: any) => <div data-testid="line-chart">{children}</div>,
+  Line: ({ name }: any) => <div data-testid="line">{name}</div>,
+  XAxis: () => null,
+  YAxis: () => null,
+  CartesianGrid: () => null,
+  Tooltip: () => null,
+  Legend: () => null,
+}));
+
+const current: RatesConfiguration = {
+  ratesType: 'ACTUAL',
+  roll: { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 },
+  pitch: { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 },
+  yaw: { rcRate: 7, rate: 40, rcExpo: 0, rateLimit: 1998 },
+};
+
+describe('RateCurveChart', () => {
+  it('draws only the current curve when there is no proposal', () => {
+    render(<RateCurveChart current={current} />);
+
+    expect(screen.getAllByTestId('line')).toHaveLength(1);
+    expect(screen.getByText('Current (Actual): 670 deg/s')).toBeInTheDocument();
+  });
+
+  it('draws current and proposed curves with their max rates', () => {
+    const proposed = { ...current, roll: { ...current.roll, rate: 77 } };
+
+    render(<RateCurveChart current={current} proposed={proposed} />);
+
+    expect(screen.getAllByTestId('line')).toHaveLength(2);
+    expect(screen.getByText('Proposed (Actual): 770 deg/s')).toBeInTheDocument();
+  });
+
+  it('switches axis without an "All" tab', async () => {
+    const user = userEvent.setup();
+    render(<RateCurveChart current={current} />);
+
+    expect(screen.queryByRole('tab', { name: 'All' })).not.toBeInTheDocument();
+    await user.click(screen.getByRole('tab', { name: 'Yaw' }));
+
+    expect(screen.getByText('Current (Actual): 400 deg/s')).toBeInTheDocument();
+  });
+});
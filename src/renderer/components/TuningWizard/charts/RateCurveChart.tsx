@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { AxisTabs, type AxisSelection } from './AxisTabs';
+import { AXIS_COLORS, type Axis } from './chartUtils';
+import type { RatesConfiguration } from '@shared/types/pid.types';
+import { rateAt, RATES_TYPE_LABELS } from '@shared/utils/rateCurves';
+import './RateCurveChart.css';
+
+interface RateCurveChartProps {
+  current: RatesConfiguration;
+  /** Proposed rates — omitted when nothing changes */
+  proposed?: RatesConfiguration | null;
+}
+
+interface RateCurvePoint {
+  stick: number;
+  current: number;
+  proposed?: number;
+}
+
+/** Stick positions plotted, 0..100% in 2% steps */
+const STICK_STEPS = 50;
+const MIN_HEIGHT = 220;
+const ASPECT_RATIO = 2;
+
+/** Sample both curves from center to full stick (curves are symmetric) */
+function buildCurveData(
+  axis: Axis,
+  current: RatesConfiguration,
+  proposed?: RatesConfiguration | null
+): RateCurvePoint[] {
+  const points: RateCurvePoint[] = [];
+  for (let i = 0; i <= STICK_STEPS; i++) {
+    const stick = i / STICK_STEPS;
+    const point: RateCurvePoint = {
+      stick: Math.round(stick * 100),
+      current: Math.round(rateAt(current.ratesType, current[axis], stick)),
+    };
+    if (proposed) {
+      point.proposed = Math.round(rateAt(proposed.ratesType, proposed[axis], stick));
+    }
+    points.push(point);
+  }
+  return points;
+}
+
+export function RateCurveChart({ current, proposed }: RateCurveChartProps) {
+  const [selectedAxis, setSelectedAxis] = useState<AxisSelection>('roll');
+  const axis: Axis = selectedAxis === 'all' ? 'roll' : selectedAxis;
+
+  const data = useMemo(() => buildCurveData(axis, current, proposed), [axis, current, proposed]);
+  const maxCurrent = data[data.length - 1].current;
+  const maxProposed = data[data.length - 1].proposed;
+
+  return (
+    <div className="rate-curve-chart">
+      <AxisTabs selected={selectedAxis} onChange={setSelectedAxis} showAll={false} />
+      <div className="rate-curve-chart-maxes">
+        <span>
+          Current ({RATES_TYPE_LABELS[current.ratesType]}): {maxCurrent} deg/s
+        </span>
+        {proposed && maxProposed !== undefined && (
+          <span>
+            Proposed ({RATES_TYPE_LABELS[proposed.ratesType]}): {maxProposed} deg/s
+          </span>
+        )}
+      </div>
+      <div className="rate-curve-chart-container">
+        <ResponsiveContainer width="100%" aspect={ASPECT_RATIO} minHeight={MIN_HEIGHT}>
+          <LineChart data={data} margin={{ top: 8, right: 16, left: 8, bottom: 4 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+            <XAxis
+              dataKey="stick"
+              type="number"
+              domain={[0, 100]}
+              tick={{ fontSize: 11, fill: '#aaa' }}
+              label={{
+                value: 'Stick deflection (%)',
+                position: 'insideBottom',
+                offset: -2,
+                style: { fontSize: 11, fill: '#888' },
+              }}
+            />
+            <YAxis
+              tick={{ fontSize: 11, fill: '#aaa' }}
+              label={{
+                value: 'deg/s',
+                angle: -90,
+                position: 'insideLeft',
+                style: { fontSize: 11, fill: '#888' },
+              }}
+            />
+            <Tooltip
+              contentStyle={{
+                background: '#1a1a1a',
+                border: '1px solid #444',
+                borderRadius: 4,
+                fontSize: 12,
+              }}
+              labelFormatter={(val) => `${val}% stick`}
+              formatter={
+                ((value: number | undefined, name: string) => [`${value ?? 0} deg/s`, name]) as any
+              }
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line
+              dataKey="current"
+              name="Current"
+              stroke="#888"
+              strokeWidth={1.5}
+              strokeDasharray="5 5"
+              dot={false}
+              isAnimationActive={false}
+            />
+            {proposed && (
+              <Line
+                dataKey="proposed"
+                name="Proposed"
+                stroke={AXIS_COLORS[axis]}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import { ThrottleSpectrogramChart } from './ThrottleSpectrogramChart';
 import type {
   ThrottleSpectrogramResult,
+  RpmSpectrogramResult,
   PowerSpectrum,
   ThrottleBand,
 } from '@shared/types/analysis.types';
@@ -94,6 +95,41 @@ describe('ThrottleSpectrogramChart', () => {
     expect(dbLabels.length).toBeGreaterThanOrEqual(2);
   });
 
+  it('shows no mode toggle without RPM data', () => {
+    render(<ThrottleSpectrogramChart data={makeResult(5)} />);
+    expect(screen.queryByRole('button', { name: 'Motor RPM' })).not.toBeInTheDocument();
+  });
+
+  it('switches to the motor RPM mode with harmonic lines', async () => {
+    const user = userEvent.setup();
+    const rpmData: RpmSpectrogramResult = {
+      bands: [100, 120, 140].map((min) => ({
+        motorHzMin: min,
+        motorHzMax: min + 20,
+        sampleCount: 1000,
+        spectra: [makeSpectrum(100, -40), makeSpectrum(100, -35), makeSpectrum(100, -45)],
+        noiseFloorDb: [-40, -35, -45],
+        harmonicHz: [min + 10, (min + 10) * 2],
+        harmonicResidualDb: [8, 2],
+      })),
+      numBands: 3,
+      minSamplesPerBand: 512,
+      bandsWithData: 3,
+      source: 'erpm',
+      harmonicResiduals: [],
+    };
+    const { container } = render(
+      <ThrottleSpectrogramChart data={makeResult(5)} rpmData={rpmData} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Motor RPM' }));
+
+    const texts = Array.from(container.querySelectorAll('text')).map((t) => t.textContent);
+    expect(texts).toContain('Motor frequency');
+    expect(texts).toContain('120-140 Hz');
+    expect(container.querySelectorAll('.spectrogram-harmonic-line')).toHaveLength(2);
+  });
+
   it('renders nothing when neither data nor compactData provided', () => {
     const { container } = render(<ThrottleSpectrogramChart />);
     expect(container.querySelector('.spectrogram-chart')).toBeNull();
@@ -3,11 +3,12 @@ import { AxisTabs, type AxisSelection } from './AxisTabs';
 import {
   prepareHeatmapData,
   prepareHeatmapDataFromCompact,
+  prepareRpmHeatmapData,
   dbToColor,
   type Axis,
   type HeatmapCell,
 } from '../../../utils/spectrogramUtils';
-import type { ThrottleSpectrogramResult } from '@shared/types/analysis.types';
+import type { ThrottleSpectrogramResult, RpmSpectrogramResult } from '@shared/types/analysis.types';
 import type { CompactThrottleSpectrogram } from '@shared/types/tuning-history.types';
 import './ThrottleSpectrogramChart.css';
 
@@ -16,6 +17,8 @@ interface ThrottleSpectrogramChartProps {
   data?: ThrottleSpectrogramResult;
   /** Compact spectrogram (from history/archived metrics) */
   compactData?: CompactThrottleSpectrogram;
+  /** Motor-frequency-indexed spectrogram — enables the "Motor RPM" mode when present */
+  rpmData?: RpmSpectrogramResult;
   /** When set, axis is controlled externally and local AxisTabs are hidden */
   sharedAxis?: 'roll' | 'pitch' | 'yaw';
 }
@@ -30,12 +33,16 @@ function fmtThrottle(value: number): string {
   return `${Math.round(value * 100)}`;
 }
 
+type SpectrogramMode = 'throttle' | 'rpm';
+
 export function ThrottleSpectrogramChart({
   data,
   compactData,
+  rpmData,
   sharedAxis,
 }: ThrottleSpectrogramChartProps) {
   const [localAxis, setLocalAxis] = useState<AxisSelection>('roll');
+  const [mode, setMode] = useState<SpectrogramMode>('throttle');
   const [tooltip, setTooltip] = useState<{
     x: number;
     y: number;
@@ -45,11 +52,21 @@ export function ThrottleSpectrogramChart({
   const selectedAxis = sharedAxis ?? localAxis;
   const axis: Axis = selectedAxis === 'all' ? 'roll' : (selectedAxis as Axis);
 
+  const hasRpm = !!rpmData && rpmData.bandsWithData > 0;
+  const rpmMode = hasRpm && mode === 'rpm';
+
   const heatmap = useMemo(() => {
+    if (rpmMode) return prepareRpmHeatmapData(rpmData!, axis);
     if (data) return prepareHeatmapData(data, axis);
     if (compactData) return prepareHeatmapDataFromCompact(compactData, axis);
     return null;
-  }, [data, compactData, axis]);
+  }, [rpmMode, rpmData, data, compactData, axis]);
+
+  /** Y-axis band label: throttle percent, or motor Hz in RPM mode */
+  const fmtBand = (min: number, max: number): string =>
+    rpmMode
+      ? `${Math.round(min)}-${Math.round(max)} Hz`
+      : `${fmtThrottle(min)}-${fmtThrottle(max)}%`;
 
   const handleMouseMove = useCallback((e: React.MouseEvent<SVGRectElement>, cell: HeatmapCell) => {
     const svg = (e.target as SVGElement).closest('svg');
@@ -99,6 +116,24 @@ export function ThrottleSpectrogramChart({
   return (
     <div className="spectrogram-chart">
       {!sharedAxis && <AxisTabs selected={selectedAxis} onChange={setLocalAxis} showAll={false} />}
+      {hasRpm && (
+        <div className="spectrogram-mode-toggle" role="group" aria-label="Spectrogram index">
+          <button
+            className={`spectrogram-mode ${mode === 'throttle' ? 'active' : ''}`}
+            aria-pressed={mode === 'throttle'}
+            onClick={() => setMode('throttle')}
+          >
+            Throttle
+          </button>
+          <button
+            className={`spectrogram-mode ${mode === 'rpm' ? 'active' : ''}`}
+            aria-pressed={mode === 'rpm'}
+            onClick={() => setMode('rpm')}
+          >
+            Motor RPM
+          </button>
+        </div>
+      )}
       <div className="spectrogram-chart-container">
         <svg
           viewBox={`0 0 ${svgWidth} ${svgHeight}`}
@@ -128,6 +163,38 @@ export function ThrottleSpectrogramChart({
               />
             ))}
 
+            {/* Expected motor harmonic lines (RPM mode) */}
+            {heatmap.harmonicLines?.map((line) => {
+              const points = line.points
+                .map((p) => {
+                  const x = (p.frequency / maxFreq) * heatmapWidth;
+                  const y = (numBands - 1 - p.bandIndex) * cellHeight + cellHeight / 2;
+                  return `${x},${y}`;
+                })
+                .join(' ');
+              const top = line.points[line.points.length - 1];
+              return (
+                <g key={line.harmonic} className="spectrogram-harmonic-line" pointerEvents="none">
+                  <polyline
+                    points={points}
+                    fill="none"
+                    stroke="#fff"
+                    strokeWidth={1.5}
+                    strokeDasharray="6 4"
+                    opacity={0.8}
+                  />
+                  <text
+                    x={(top.frequency / maxFreq) * heatmapWidth + 4}
+                    y={(numBands - 1 - top.bandIndex) * cellHeight + cellHeight / 2 - 4}
+                    fontSize={10}
+                    fill="#fff"
+                  >
+                    {line.harmonic}×
+                  </text>
+                </g>
+              );
+            })}
+
             {/* X-axis (frequency) */}
             <line x1={0} y1={CHART_HEIGHT} x2={heatmapWidth} y2={CHART_HEIGHT} stroke="#666" />
             {xTicks.map((freq) => {
@@ -165,7 +232,7 @@ export function ThrottleSpectrogramChart({
                   fontSize={10}
                   fill="#aaa"
                 >
-                  {fmtThrottle(band.min)}-{fmtThrottle(band.max)}%
+                  {fmtBand(band.min, band.max)}
                 </text>
               );
             })}
@@ -178,7 +245,7 @@ export function ThrottleSpectrogramChart({
               fill="#888"
               transform={`rotate(-90, -50, ${CHART_HEIGHT / 2})`}
             >
-              Throttle
+              {rpmMode ? 'Motor frequency' : 'Throttle'}
             </text>
 
             {/* Colorbar */}
@@ -223,8 +290,8 @@ export function ThrottleSpectrogramChart({
                 strokeWidth={1}
               />
               <text x={10} y={2} fontSize={13} fill="#ddd">
-                Throttle {fmtThrottle(tooltip.cell.throttleMin)}-
-                {fmtThrottle(tooltip.cell.throttleMax)}%
+                {rpmMode ? 'Motor' : 'Throttle'}{' '}
+                {fmtBand(tooltip.cell.bandMin, tooltip.cell.bandMax)}
               </text>
               <text x={10} y={22} fontSize={13} fill="#ddd">
                 {tooltip.cell.frequency.toFixed(0)} Hz, {tooltip.cell.db.toFixed(1)} dB
@@ -5,9 +5,11 @@ import {
   findBestStep,
   downsampleData,
   computeRobustYDomain,
+  eventsToChartMarkers,
   AXIS_COLORS,
 } from './chartUtils';
 import type { AxisNoiseProfile, StepResponse, StepEvent } from '@shared/types/analysis.types';
+import type { BlackboxEvent } from '@shared/types/blackbox.types';
 
 function makeSpectrum(freqs: number[], mags: number[]) {
   return {
@@ -241,4 +243,33 @@ describe('chartUtils', () => {
       expect(result[result.length - 1]).toBe(9);
     });
   });
+
+  describe('eventsToChartMarkers', () => {
+    it('labels events and only marks failsafe transitions for state events', () => {
+      const state = (time: number, failsafePhase: number): BlackboxEvent => ({
+        type: 'state',
+        time,
+        flightModeFlags: 0,
+        stateFlags: 0,
+        failsafePhase,
+      });
+      const events: BlackboxEvent[] = [
+        state(0, 0),
+        { type: 'sync_beep', time: 0.1, beepTime: 1000 },
+        state(2, 1),
+        state(2.5, 2),
+        state(4, 0),
+        { type: 'inflight_adjustment', time: 5, adjustmentFunction: 3, value: 42 },
+        { type: 'disarm', time: 6, reason: 4 },
+      ];
+
+      expect(eventsToChartMarkers(events)).toEqual([
+        { time: 0.1, label: 'Sync beep', kind: 'sync_beep' },
+        { time: 2, label: 'Failsafe', kind: 'state' },
+        { time: 4, label: 'Failsafe cleared', kind: 'state' },
+        { time: 5, label: 'Adjustment 3 = 42', kind: 'inflight_adjustment' },
+        { time: 6, label: 'Disarm (reason 4)', kind: 'disarm' },
+      ]);
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import type { AxisNoiseProfile, StepResponse } from '@shared/types/analysis.types';
+import type { BlackboxEvent } from '@shared/types/blackbox.types';
 import type { CompactStepResponse } from '@shared/types/tuning-history.types';
 
 export type Axis = 'roll' | 'pitch' | 'yaw';
@@ -22,6 +23,14 @@ export interface TraceDataPoint {
   gyro: number;
 }
 
+/** A flight event positioned on a time axis (for Recharts ReferenceLine) */
+export interface EventMarker {
+  /** Seconds, same time base as the session's flight data */
+  time: number;
+  label: string;
+  kind: BlackboxEvent['type'];
+}
+
 /**
  * Convert PowerSpectrum Float64Arrays to Recharts-compatible data.
  * Filters to the specified frequency range.
@@ -147,3 +156,48 @@ export function compactToPerAxisStepResponse(compact: CompactStepResponse) {
     yaw: { timeMs: compact.timeMs, response: compact.yaw },
   };
 }
+
+/**
+ * Convert a session event timeline to chart markers.
+ * State events only produce a marker when failsafe starts or clears;
+ * other state changes are already covered by flight mode events.
+ */
+export function eventsToChartMarkers(events: BlackboxEvent[]): EventMarker[] {
+  const markers: EventMarker[] = [];
+  let inFailsafe = false;
+
+  for (const event of events) {
+    let label: string | null = null;
+    switch (event.type) {
+      case 'state': {
+        const failsafe = event.failsafePhase !== 0;
+        if (failsafe !== inFailsafe) {
+          label = failsafe ? 'Failsafe' : 'Failsafe cleared';
+          inFailsafe = failsafe;
+        }
+        break;
+      }
+      case 'flight_mode':
+        label = 'Mode change';
+        break;
+      case 'inflight_adjustment':
+        label = `Adjustment ${event.adjustmentFunction} = ${event.value}`;
+        break;
+      case 'disarm':
+        label = `Disarm (reason ${event.reason})`;
+        break;
+      case 'sync_beep':
+        label = 'Sync beep';
+        break;
+      case 'logging_resume':
+        label = 'Logging resumed';
+        break;
+      case 'log_end':
+        label = 'Log end';
+        break;
+    }
+    if (label) markers.push({ time: event.time, label, kind: event.type });
+  }
+
+  return markers;
+}
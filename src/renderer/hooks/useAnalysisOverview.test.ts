@@ -19,6 +19,7 @@ const mockSession: BlackboxLogSession = {
     pFieldDefs: [],
     sFieldDefs: [],
     gFieldDefs: [],
+    hFieldDefs: [],
     iInterval: 32,
     pInterval: 1,
     pDenom: 1,
@@ -73,6 +74,7 @@ const mockSession: BlackboxLogSession = {
     durationSeconds: 60,
     frameCount: 480000,
   },
+  events: [],
   corruptedFrameCount: 0,
   warnings: [],
 };
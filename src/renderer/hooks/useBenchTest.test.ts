@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useBenchTest } from './useBenchTest';
+import type { BenchTestConfig, BenchTestUpdate } from '@shared/types/bench.types';
+
+const config: BenchTestConfig = {
+  mode: 'individual',
+  throttlePercent: 15,
+  stepSeconds: 8,
+  propsRemoved: true,
+};
+
+const finalUpdate: BenchTestUpdate = {
+  state: 'complete',
+  step: 3,
+  totalSteps: 4,
+  activeMotors: [],
+  remainingSeconds: 0,
+  results: [],
+  issues: [],
+};
+
+describe('useBenchTest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('runs the bench test and keeps the final update', async () => {
+    vi.mocked(window.betaflight.startBenchTest).mockResolvedValue(finalUpdate);
+    const { result } = renderHook(() => useBenchTest());
+
+    await act(async () => {
+      await result.current.start(config);
+    });
+
+    expect(window.betaflight.startBenchTest).toHaveBeenCalledWith(config);
+    expect(result.current.update).toEqual(finalUpdate);
+    expect(result.current.running).toBe(false);
+  });
+
+  it('shows live updates from the main process', () => {
+    let listener: ((u: BenchTestUpdate) => void) | undefined;
+    vi.mocked(window.betaflight.onBenchUpdate).mockImplementation((cb) => {
+      listener = cb;
+      return () => {};
+    });
+    const { result } = renderHook(() => useBenchTest());
+
+    act(() => listener!({ ...finalUpdate, state: 'spinning', activeMotors: [1] }));
+
+    expect(result.current.update?.activeMotors).toEqual([1]);
+  });
+
+  it('surfaces errors from the main process', async () => {
+    vi.mocked(window.betaflight.startBenchTest).mockRejectedValue(
+      new Error('Flight controller not connected')
+    );
+    const { result } = renderHook(() => useBenchTest());
+
+    await act(async () => {
+      await result.current.start(config);
+    });
+
+    expect(result.current.error).toBe('Flight controller not connected');
+    expect(result.current.running).toBe(false);
+  });
+
+  it('stop asks the main process to stop the motors', async () => {
+    const { result } = renderHook(() => useBenchTest());
+
+    await act(async () => {
+      await result.current.stop();
+    });
+
+    expect(window.betaflight.stopBenchTest).toHaveBeenCalled();
+  });
+});
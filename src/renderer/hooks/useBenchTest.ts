@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BenchTestConfig, BenchTestUpdate } from '@shared/types/bench.types';
+
+export function useBenchTest() {
+  const [update, setUpdate] = useState<BenchTestUpdate | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Live spectra while the motors spin
+  useEffect(() => {
+    return window.betaflight.onBenchUpdate((u) => setUpdate(u));
+  }, []);
+
+  const start = useCallback(async (config: BenchTestConfig) => {
+    setRunning(true);
+    setError(null);
+    setUpdate(null);
+    try {
+      const final = await window.betaflight.startBenchTest(config);
+      setUpdate(final);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bench test failed');
+    } finally {
+      setRunning(false);
+    }
+  }, []);
+
+  const stop = useCallback(async () => {
+    try {
+      await window.betaflight.stopBenchTest();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop bench test');
+    }
+  }, []);
+
+  return { update, running, error, start, stop };
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useCLIConsole } from './useCLIConsole';
+import type { ConfigurationSnapshot, SnapshotMetadata } from '@shared/types/common.types';
+
+const GET_OUTPUT = 'gyro_lpf1_type = PT1\nAllowed values: PT1, BIQUAD, PT2, PT3';
+
+describe('useCLIConsole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('runs read-only commands and learns settings from get output', async () => {
+    vi.mocked(window.betaflight.sendCLICommand).mockResolvedValue(GET_OUTPUT);
+    const { result } = renderHook(() => useCLIConsole());
+
+    await act(async () => {
+      await result.current.submit('get gyro_lpf1_type');
+    });
+
+    expect(window.betaflight.sendCLICommand).toHaveBeenCalledWith('get gyro_lpf1_type');
+    expect(result.current.entries).toEqual([{ command: 'get gyro_lpf1_type', output: GET_OUTPUT }]);
+    expect(result.current.inCLI).toBe(true);
+    expect(result.current.complete('set gyro_lpf1_type = B').line).toBe(
+      'set gyro_lpf1_type = BIQUAD'
+    );
+  });
+
+  it('stages set lines instead of sending them, replacing earlier values', async () => {
+    const { result } = renderHook(() => useCLIConsole());
+
+    await act(async () => {
+      await result.current.submit('set motor_poles = 12');
+      await result.current.submit('set motor_poles = 14');
+    });
+
+    expect(window.betaflight.sendCLICommand).not.toHaveBeenCalled();
+    expect(result.current.batch).toEqual([{ name: 'motor_poles', value: '14' }]);
+  });
+
+  it('refuses to stage values outside what get reported', async () => {
+    vi.mocked(window.betaflight.sendCLICommand).mockResolvedValue(GET_OUTPUT);
+    const { result } = renderHook(() => useCLIConsole());
+
+    await act(async () => {
+      await result.current.submit('get gyro_lpf1_type');
+    });
+    await act(async () => {
+      await result.current.submit('set gyro_lpf1_type = PT9');
+    });
+
+    expect(result.current.batch).toEqual([]);
+    expect(result.current.entries[1].error).toMatch(/must be one of/);
+  });
+
+  it('checks staged values against the cached settings schema', async () => {
+    vi.mocked(window.betaflight.getSettingsSchema).mockResolvedValueOnce({
+      firmware: 'BTFL 4.5.1',
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+      settings: { motor_poles: { name: 'motor_poles', value: '14', min: 4, max: 255 } },
+    });
+    const { result } = renderHook(() => useCLIConsole());
+    await waitFor(() =>
+      expect(result.current.complete('set motor_p').line).toBe('set motor_poles = ')
+    );
+
+    await act(async () => {
+      await result.current.submit('set motor_poles = 2');
+    });
+
+    expect(result.current.batch).toEqual([]);
+    expect(result.current.entries[0].error).toMatch(/from 4 to 255/);
+  });
+
+  it('rejects state-changing commands without calling the FC', async () => {
+    const { result } = renderHook(() => useCLIConsole());
+
+    await act(async () => {
+      await result.current.submit('defaults');
+    });
+
+    expect(window.betaflight.sendCLICommand).not.toHaveBeenCalled();
+    expect(result.current.entries[0].error).toMatch(/Only read-only commands/);
+  });
+
+  it('walks command history with up/down', async () => {
+    vi.mocked(window.betaflight.sendCLICommand).mockResolvedValue('');
+    const { result } = renderHook(() => useCLIConsole());
+
+    await act(async () => {
+      await result.current.submit('status');
+      await result.current.submit('version');
+    });
+
+    expect(result.current.recallHistory(-1)).toBe('version');
+    expect(result.current.recallHistory(-1)).toBe('status');
+    expect(result.current.recallHistory(-1)).toBe('status');
+    expect(result.current.recallHistory(1)).toBe('version');
+    expect(result.current.recallHistory(1)).toBe('');
+  });
+
+  it('diffs the batch against the newest snapshot and applies it', async () => {
+    vi.mocked(window.betaflight.listSnapshots).mockResolvedValue([
+      { id: 'old', timestamp: '2026-01-01T00:00:00Z', label: 'Old' },
+      { id: 'new', timestamp: '2026-02-01T00:00:00Z', label: 'Newest' },
+    ] as SnapshotMetadata[]);
+    vi.mocked(window.betaflight.loadSnapshot).mockResolvedValue({
+      label: 'Newest',
+      configuration: { cliDiff: 'set motor_poles = 14\nset gyro_lpf1_static_hz = 250' },
+    } as ConfigurationSnapshot);
+    vi.mocked(window.betaflight.applyCLIBatch).mockResolvedValue({
+      snapshotId: 'snap-pre',
+      appliedCommands: ['set motor_poles = 12', 'set dshot_idle_value = 550'],
+    });
+    const { result } = renderHook(() => useCLIConsole());
+
+    await act(async () => {
+      await result.current.submit('set motor_poles = 12');
+      await result.current.submit('set dshot_idle_value = 550');
+    });
+    await act(async () => {
+      await result.current.reviewBatch();
+    });
+
+    expect(window.betaflight.loadSnapshot).toHaveBeenCalledWith('new');
+    expect(result.current.review).toEqual({
+      snapshotLabel: 'Newest',
+      entries: [
+        { scope: 'master', key: 'set dshot_idle_value', newValue: '550', status: 'added' },
+        {
+          scope: 'master',
+          key: 'set motor_poles',
+          oldValue: '14',
+          newValue: '12',
+          status: 'changed',
+        },
+      ],
+    });
+
+    await act(async () => {
+      await result.current.applyBatch();
+    });
+
+    expect(window.betaflight.applyCLIBatch).toHaveBeenCalledWith([
+      'set motor_poles = 12',
+      'set dshot_idle_value = 550',
+    ]);
+    expect(result.current.batch).toEqual([]);
+    expect(result.current.review).toBeNull();
+  });
+
+  it('reviews profile settings against the profile selected in the snapshot', async () => {
+    vi.mocked(window.betaflight.getSettingsSchema).mockResolvedValueOnce({
+      firmware: 'BTFL 4.5.1',
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+      settings: { p_roll: { name: 'p_roll', value: '45', scope: 'profile', min: 0, max: 250 } },
+    });
+    vi.mocked(window.betaflight.listSnapshots).mockResolvedValue([
+      { id: 'new', timestamp: '2026-02-01T00:00:00Z', label: 'Newest' },
+    ] as SnapshotMetadata[]);
+    vi.mocked(window.betaflight.loadSnapshot).mockResolvedValue({
+      label: 'Newest',
+      configuration: {
+        cliDiff: 'profile 0\nset p_roll = 45\nprofile 2\nset p_roll = 60\nprofile 2',
+      },
+    } as ConfigurationSnapshot);
+    const { result } = renderHook(() => useCLIConsole());
+    await waitFor(() => expect(result.current.complete('set p_ro').line).toBe('set p_roll = '));
+
+    await act(async () => {
+      await result.current.submit('set p_roll = 52');
+    });
+    await act(async () => {
+      await result.current.reviewBatch();
+    });
+
+    expect(result.current.review?.entries).toEqual([
+      { scope: 'profile 2', key: 'set p_roll', oldValue: '60', newValue: '52', status: 'changed' },
+    ]);
+  });
+});
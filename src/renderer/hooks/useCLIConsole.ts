@@ -0,0 +1,254 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type {
+  CLIBatchResult,
+  CLIDiffScope,
+  CLISetCommand,
+  CLISettingInfo,
+} from '@shared/types/cli.types';
+import type { DiffEntry } from '@shared/types/common.types';
+import {
+  completeCLIInput,
+  isReadOnlyCLICommand,
+  parseGetOutput,
+  parseSetCommand,
+  validateSetValue,
+  type CLICompletion,
+} from '@shared/utils/cliConsole';
+import { parseScopedCLIDiff, type ParsedCLIDiff } from '@shared/utils/cliDiff';
+import {
+  computeDiff,
+  diffEntryId,
+  indexDiffEntries,
+} from '../components/SnapshotManager/snapshotDiffUtils';
+
+export interface CLIConsoleEntry {
+  command: string;
+  output?: string;
+  error?: string;
+}
+
+/** Staged batch compared against the newest snapshot */
+export interface CLIBatchReview {
+  /** Label of the snapshot the diff is against, or null when there is none */
+  snapshotLabel: string | null;
+  entries: DiffEntry[];
+}
+
+/**
+ * Section a staged `set` lands in. Profile settings go to the selected
+ * profile, which the snapshot's closing `profile N` line is the best guess for.
+ */
+function stagedScope(setting: CLISettingInfo | undefined, snapshot: ParsedCLIDiff): CLIDiffScope {
+  if (setting?.scope === 'profile') return `profile ${snapshot.profile ?? 0}`;
+  if (setting?.scope === 'rateprofile') return `rateprofile ${snapshot.rateprofile ?? 0}`;
+  return 'master';
+}
+
+export function useCLIConsole() {
+  const [entries, setEntries] = useState<CLIConsoleEntry[]>([]);
+  const [history, setHistory] = useState<string[]>([]);
+  const [settings, setSettings] = useState<Map<string, CLISettingInfo>>(new Map());
+  const [batch, setBatch] = useState<CLISetCommand[]>([]);
+  const [review, setReview] = useState<CLIBatchReview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [inCLI, setInCLI] = useState(false);
+  /** Position while browsing history with up/down; history.length means "new line" */
+  const historyIndex = useRef(0);
+
+  // Seed completion and validation with every setting from the cached schema;
+  // values learned from `get` in this session take precedence
+  useEffect(() => {
+    let cancelled = false;
+    window.betaflight
+      .getSettingsSchema()
+      .then((schema) => {
+        if (cancelled || !schema) return;
+        setSettings((prev) => new Map([...Object.entries(schema.settings), ...prev]));
+      })
+      .catch(() => {
+        // No schema yet — the console still learns settings from `get`
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const addEntry = useCallback((entry: CLIConsoleEntry) => {
+    setEntries((prev) => [...prev, entry]);
+  }, []);
+
+  const stage = useCallback(
+    (line: string, set: CLISetCommand) => {
+      const error = validateSetValue(set, settings);
+      if (error) {
+        addEntry({ command: line, error });
+        return;
+      }
+      setBatch((prev) => [...prev.filter((s) => s.name !== set.name), set]);
+      setReview(null);
+      addEntry({ command: line, output: `Staged ${set.name} = ${set.value} for the batch` });
+    },
+    [settings, addEntry]
+  );
+
+  const submit = useCallback(
+    async (input: string) => {
+      const line = input.trim();
+      if (!line) return;
+      setHistory((prev) => {
+        const next = prev[prev.length - 1] === line ? prev : [...prev, line];
+        historyIndex.current = next.length;
+        return next;
+      });
+
+      const set = parseSetCommand(line);
+      if (set) {
+        stage(line, set);
+        return;
+      }
+      if (!isReadOnlyCLICommand(line)) {
+        addEntry({
+          command: line,
+          error:
+            'Only read-only commands run directly. Stage set commands and save them as a batch.',
+        });
+        return;
+      }
+
+      setBusy(true);
+      try {
+        const output = await window.betaflight.sendCLICommand(line);
+        setInCLI(true);
+        addEntry({ command: line, output });
+        if (/^get\b/i.test(line)) {
+          const learned = parseGetOutput(output);
+          if (learned.length > 0) {
+            setSettings((prev) => {
+              const next = new Map(prev);
+              for (const info of learned) next.set(info.name, info);
+              return next;
+            });
+          }
+        }
+      } catch (err) {
+        addEntry({ command: line, error: err instanceof Error ? err.message : 'Command failed' });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [stage, addEntry]
+  );
+
+  /** Steps through history: -1 for older, 1 for newer. Returns the line to show. */
+  const recallHistory = useCallback(
+    (direction: -1 | 1): string => {
+      const index = Math.min(Math.max(historyIndex.current + direction, 0), history.length);
+      historyIndex.current = index;
+      return history[index] ?? '';
+    },
+    [history]
+  );
+
+  const complete = useCallback(
+    (input: string): CLICompletion => completeCLIInput(input, settings),
+    [settings]
+  );
+
+  const unstage = useCallback((name: string) => {
+    setBatch((prev) => prev.filter((s) => s.name !== name));
+    setReview(null);
+  }, []);
+
+  const clearBatch = useCallback(() => {
+    setBatch([]);
+    setReview(null);
+  }, []);
+
+  /** Diffs the staged batch against the newest snapshot's CLI diff */
+  const reviewBatch = useCallback(async () => {
+    setBusy(true);
+    try {
+      const snapshots = await window.betaflight.listSnapshots();
+      const latest = [...snapshots].sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+      const snapshot = latest ? await window.betaflight.loadSnapshot(latest.id) : null;
+      const parsed = parseScopedCLIDiff(snapshot?.configuration.cliDiff ?? '');
+      const before = indexDiffEntries(parsed.entries);
+      const after = new Map(before);
+      for (const set of batch) {
+        const scope = stagedScope(settings.get(set.name), parsed);
+        const key = `set ${set.name.toLowerCase()}`;
+        after.set(diffEntryId(scope, key), {
+          scope,
+          key,
+          value: set.value,
+          line: `set ${set.name} = ${set.value}`,
+        });
+      }
+      setReview({ snapshotLabel: snapshot?.label ?? null, entries: computeDiff(before, after) });
+    } catch (err) {
+      addEntry({
+        command: 'review batch',
+        error: err instanceof Error ? err.message : 'Failed to load the latest snapshot',
+      });
+    } finally {
+      setBusy(false);
+    }
+  }, [batch, settings, addEntry]);
+
+  const applyBatch = useCallback(async (): Promise<CLIBatchResult | null> => {
+    setBusy(true);
+    try {
+      const result = await window.betaflight.applyCLIBatch(
+        batch.map((s) => `set ${s.name} = ${s.value}`)
+      );
+      setBatch([]);
+      setReview(null);
+      setInCLI(false);
+      addEntry({
+        command: 'save',
+        output: `Saved ${result.appliedCommands.length} setting(s) — FC is rebooting. A backup snapshot was taken first.`,
+      });
+      return result;
+    } catch (err) {
+      setInCLI(false);
+      addEntry({ command: 'save', error: err instanceof Error ? err.message : 'Batch failed' });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, [batch, addEntry]);
+
+  const exitCLI = useCallback(async () => {
+    setBusy(true);
+    try {
+      await window.betaflight.exitCLI();
+      setInCLI(false);
+      addEntry({ command: 'exit', output: 'Left CLI — FC is rebooting.' });
+    } catch (err) {
+      addEntry({
+        command: 'exit',
+        error: err instanceof Error ? err.message : 'Failed to exit CLI',
+      });
+    } finally {
+      setBusy(false);
+    }
+  }, [addEntry]);
+
+  return {
+    entries,
+    history,
+    settings,
+    batch,
+    review,
+    busy,
+    inCLI,
+    submit,
+    recallHistory,
+    complete,
+    unstage,
+    clearBatch,
+    reviewBatch,
+    applyBatch,
+    exitCLI,
+  };
+}
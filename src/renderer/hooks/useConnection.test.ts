@@ -1,7 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { useConnection, resetConnectionGlobalState } from './useConnection';
-import type { PortInfo, ConnectionStatus } from '@shared/types/common.types';
+import type {
+  PortInfo,
+  ConnectionStatus,
+  ConnectionSummary,
+  PortsChangedEvent
+} from '@shared/types/common.types';
 
 describe('useConnection', () => {
   const mockPorts: PortInfo[] = [
@@ -209,6 +214,41 @@ describe('useConnection', () => {
     });
   });
 
+  it('replaces the port list when the port watcher reports a change', async () => {
+    let portsChangedCallback: (event: PortsChangedEvent) => void = () => {};
+
+    vi.mocked(window.betaflight.onPortsChanged).mockImplementation((callback) => {
+      portsChangedCallback = callback;
+      return () => {};
+    });
+
+    const { result } = renderHook(() => useConnection());
+
+    portsChangedCallback({ ports: [mockPorts[1]], added: [mockPorts[1]], removed: [] });
+
+    await waitFor(() => {
+      expect(result.current.ports).toEqual([mockPorts[1]]);
+    });
+  });
+
+  it('lists open connections and switches the active drone', async () => {
+    const connections: ConnectionSummary[] = [
+      { id: '/dev/ttyUSB0', connected: true, active: true },
+      { id: '/dev/ttyUSB1', connected: true, active: false }
+    ];
+    vi.mocked(window.betaflight.listConnections).mockResolvedValue(connections);
+
+    const { result } = renderHook(() => useConnection());
+
+    await waitFor(() => {
+      expect(result.current.connections).toEqual(connections);
+    });
+
+    await result.current.switchConnection('/dev/ttyUSB1');
+
+    expect(window.betaflight.setActiveConnection).toHaveBeenCalledWith('/dev/ttyUSB1');
+  });
+
   it('shows error from connection status', async () => {
     const errorStatus: ConnectionStatus = {
       connected: false,
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { PortInfo, ConnectionStatus } from '@shared/types/common.types';
+import type { PortInfo, ConnectionStatus, ConnectionSummary } from '@shared/types/common.types';
 import { useToast } from './useToast';
 
 // Global state for intentional disconnect (shared across all hook instances)
@@ -22,6 +22,7 @@ export function markIntentionalDisconnect() {
 export function useConnection() {
   const [ports, setPorts] = useState<PortInfo[]>([]);
   const [status, setStatus] = useState<ConnectionStatus>({ connected: false });
+  const [connections, setConnections] = useState<ConnectionSummary[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const toast = useToast();
@@ -63,13 +64,29 @@ export function useConnection() {
       }
     });
 
+    // Hot-plug: the main process pushes the port list whenever a port appears or disappears
+    const unsubscribePorts = window.betaflight.onPortsChanged((event) => {
+      setPorts(event.ports);
+    });
+
+    // Every open FC when several drones are connected at once
+    const unsubscribeConnections = window.betaflight.onConnectionsChanged(setConnections);
+
     // Get initial status
     window.betaflight.getConnectionStatus().then((initialStatus) => {
       setStatus(initialStatus);
       globalPreviouslyConnected = initialStatus.connected;
     });
+    window.betaflight
+      .listConnections()
+      .then(setConnections)
+      .catch(() => {});
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      unsubscribePorts();
+      unsubscribeConnections();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // toast functions are stable, no need in dependencies
 
@@ -104,28 +121,48 @@ export function useConnection() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // toast is stable
 
-  const disconnect = useCallback(async () => {
+  /** Disconnects the active drone, or a background one by connection ID */
+  const disconnect = useCallback(async (connectionId?: string) => {
     setLoading(true);
     setError(null);
     try {
       // Mark as intentional disconnect so we show info instead of warning
-      globalIntentionalDisconnect = true;
-      await window.betaflight.disconnect();
+      // (background drones never send a status change, so leave the flag alone)
+      if (!connectionId) {
+        globalIntentionalDisconnect = true;
+      }
+      await window.betaflight.disconnect(connectionId);
       // Don't show toast here - event listener will handle it
     } catch (err: any) {
       const message = err.message || 'Failed to disconnect';
       setError(message);
       toast.error(`Failed to disconnect: ${message}`);
-      globalIntentionalDisconnect = false; // Reset on error
+      if (!connectionId) {
+        globalIntentionalDisconnect = false; // Reset on error
+      }
     } finally {
       setLoading(false);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // toast is stable
 
+  const switchConnection = useCallback(async (connectionId: string) => {
+    setError(null);
+    try {
+      await window.betaflight.setActiveConnection(connectionId);
+    } catch (err: any) {
+      const message = err.message || 'Failed to switch drone';
+      setError(message);
+      toast.error(message);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // toast is stable
+
   return {
     ports,
     status,
+    connections,
+    switchConnection,
     loading,
     error,
     scanPorts,
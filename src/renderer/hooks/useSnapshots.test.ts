@@ -168,6 +168,36 @@ describe('useSnapshots', () => {
     });
   });
 
+  it('imports a snapshot and refreshes the list', async () => {
+    const imported = { ...mockFullSnapshot, id: 'snapshot-3', label: 'Imported: old.txt' };
+    vi.mocked(window.betaflight.importSnapshot).mockResolvedValue(imported);
+    const { result } = renderHook(() => useSnapshots());
+
+    await waitFor(() => {
+      expect(window.betaflight.listSnapshots).toHaveBeenCalledTimes(1);
+    });
+
+    vi.mocked(window.betaflight.listSnapshots).mockClear();
+
+    expect(await result.current.importSnapshot()).toEqual(imported);
+    expect(window.betaflight.listSnapshots).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing when import is cancelled', async () => {
+    vi.mocked(window.betaflight.importSnapshot).mockResolvedValue(null);
+    const { result } = renderHook(() => useSnapshots());
+
+    await waitFor(() => {
+      expect(window.betaflight.listSnapshots).toHaveBeenCalledTimes(1);
+    });
+
+    vi.mocked(window.betaflight.listSnapshots).mockClear();
+
+    expect(await result.current.importSnapshot()).toBeNull();
+    expect(window.betaflight.listSnapshots).not.toHaveBeenCalled();
+    expect(result.current.error).toBeNull();
+  });
+
   it('loads snapshot by id', async () => {
     const { result } = renderHook(() => useSnapshots());
 
@@ -359,7 +389,7 @@ describe('useSnapshots', () => {
 
     const restoreResult = await result.current.restoreSnapshot('snapshot-1', true);
 
-    expect(window.betaflight.restoreSnapshot).toHaveBeenCalledWith('snapshot-1', true);
+    expect(window.betaflight.restoreSnapshot).toHaveBeenCalledWith('snapshot-1', true, 'merge');
     expect(restoreResult).toEqual({
       success: true,
       backupSnapshotId: 'backup-1',
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import type { ConfigurationSnapshot, SnapshotMetadata } from '@shared/types/common.types';
-import type { SnapshotRestoreResult } from '@shared/types/ipc.types';
+import type { SnapshotRestoreMode, SnapshotRestoreResult } from '@shared/types/ipc.types';
 import { useToast } from './useToast';
 
 export function useSnapshots() {
@@ -69,15 +69,23 @@ export function useSnapshots() {
   ); // toast is stable
 
   const restoreSnapshot = useCallback(
-    async (id: string, createBackup: boolean): Promise<SnapshotRestoreResult | null> => {
+    async (
+      id: string,
+      createBackup: boolean,
+      mode: SnapshotRestoreMode = 'merge'
+    ): Promise<SnapshotRestoreResult | null> => {
       setLoading(true);
       setError(null);
       try {
-        const result = await window.betaflight.restoreSnapshot(id, createBackup);
+        const result = await window.betaflight.restoreSnapshot(id, createBackup, mode);
         if (result.failedCommands && result.failedCommands.length > 0) {
           toast.warning(
             `Snapshot restored with warnings: ${result.failedCommands.length} settings failed to apply`
           );
+        } else if (result.residualDifferences && result.residualDifferences.length > 0) {
+          toast.warning(
+            `Snapshot restored, but ${result.residualDifferences.length} settings differ from it`
+          );
         } else {
           toast.success(`Snapshot restored (${result.appliedCommands} settings applied)`);
         }
@@ -96,6 +104,29 @@ export function useSnapshots() {
     [loadSnapshots]
   ); // toast is stable
 
+  const importSnapshot = useCallback(
+    async (): Promise<ConfigurationSnapshot | null> => {
+      setLoading(true);
+      setError(null);
+      try {
+        const snapshot = await window.betaflight.importSnapshot();
+        if (!snapshot) return null; // File dialog cancelled
+        await loadSnapshots(); // Refresh list
+        toast.success(`Snapshot '${snapshot.label}' imported`);
+        return snapshot;
+      } catch (err: any) {
+        const message = err.message || 'Failed to import snapshot';
+        setError(message);
+        toast.error(`Failed to import snapshot: ${message}`);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [loadSnapshots]
+  ); // toast is stable
+
   const loadSnapshot = useCallback(async (id: string): Promise<ConfigurationSnapshot | null> => {
     setLoading(true);
     setError(null);
@@ -152,6 +183,7 @@ export function useSnapshots() {
     createSnapshot,
     deleteSnapshot,
     restoreSnapshot,
+    importSnapshot,
     loadSnapshot,
     refreshSnapshots: loadSnapshots,
   };
@@ -20,6 +20,7 @@ const mockSession: BlackboxLogSession = {
     pFieldDefs: [],
     sFieldDefs: [],
     gFieldDefs: [],
+    hFieldDefs: [],
     iInterval: 32,
     pInterval: 1,
     pDenom: 1,
@@ -74,6 +75,7 @@ const mockSession: BlackboxLogSession = {
     durationSeconds: 60,
     frameCount: 480000,
   },
+  events: [],
   corruptedFrameCount: 0,
   warnings: [],
 };
@@ -507,6 +509,33 @@ describe('useTuningWizard', () => {
     });
   });
 
+  it('flags recommendations outside the cached settings schema', async () => {
+    vi.mocked(window.betaflight.getSettingsSchema).mockResolvedValueOnce({
+      firmware: 'BTFL 4.5.1',
+      fetchedAt: '2026-01-01T00:00:00.000Z',
+      settings: {
+        gyro_lpf1_static_hz: { name: 'gyro_lpf1_static_hz', value: '250', min: 0, max: 280 },
+      },
+    });
+    vi.mocked(window.betaflight.analyzeFilters).mockResolvedValue(mockFilterResult);
+
+    const { result } = renderHook(() => useTuningWizard('log-1', TUNING_MODE.FILTER));
+    await waitFor(() => expect(window.betaflight.getSettingsSchema).toHaveBeenCalled());
+    await act(async () => {
+      await result.current.runFilterAnalysis();
+    });
+
+    await waitFor(() =>
+      expect(result.current.settingChecks).toEqual([
+        expect.objectContaining({
+          setting: 'gyro_lpf1_static_hz',
+          status: 'clamped',
+          adjustedValue: 280,
+        }),
+      ])
+    );
+  });
+
   it('mode=pid confirmApply sends empty filterRecommendations', async () => {
     vi.mocked(window.betaflight.analyzeFilters).mockResolvedValue(mockFilterResult);
     vi.mocked(window.betaflight.analyzePID).mockResolvedValue(mockPIDResult);
@@ -577,6 +606,60 @@ describe('useTuningWizard', () => {
     });
   });
 
+  it('mode=pid proposes rates from the rates analysis and sends them on apply', async () => {
+    const axisRates = { rcRate: 7, rate: 67, rcExpo: 0, rateLimit: 1998 };
+    const axis = (maxRate: number, reasons: string[]) => ({
+      usage: {
+        histogram: [],
+        fullStickPercent: 0,
+        centerPercent: 40,
+        p95Deflection: 0.8,
+        peakRateDegS: 600,
+      },
+      current: { centerSensitivity: 70, maxRate: 670, expo: 0 },
+      target: { centerSensitivity: 70, maxRate, expo: 0 },
+      reasons,
+    });
+    const pidWithRates: PIDAnalysisResult = {
+      ...mockPIDResult,
+      ratesAnalysis: {
+        current: { ratesType: 'ACTUAL', roll: axisRates, pitch: axisRates, yaw: axisRates },
+        source: 'rcCommand',
+        roll: axis(770, ['Saturated.']),
+        pitch: axis(670, []),
+        yaw: axis(670, []),
+        recommendations: [],
+        summary: '',
+      },
+    };
+    vi.mocked(window.betaflight.analyzePID).mockResolvedValue(pidWithRates);
+
+    const { result } = renderHook(() => useTuningWizard('log-1', TUNING_MODE.PID));
+
+    await act(async () => {
+      await result.current.runPIDAnalysis();
+    });
+
+    expect(result.current.ratesType).toBe('ACTUAL');
+    expect(result.current.ratesRecommendations).toEqual([
+      expect.objectContaining({ setting: 'roll_srate', recommendedValue: 77 }),
+    ]);
+
+    act(() => {
+      result.current.setRatesType('BETAFLIGHT');
+    });
+    expect(result.current.proposedRates?.ratesType).toBe('BETAFLIGHT');
+    expect(result.current.ratesRecommendations.map((r) => r.setting)).toContain('rates_type');
+
+    await act(async () => {
+      await result.current.confirmApply();
+    });
+
+    expect(window.betaflight.applyRecommendations).toHaveBeenCalledWith(
+      expect.objectContaining({ ratesRecommendations: result.current.ratesRecommendations })
+    );
+  });
+
   it('confirmApply filters out no-change recommendations (currentValue === recommendedValue)', async () => {
     const filterWithNoChange: FilterAnalysisResult = {
       ...mockFilterResult,
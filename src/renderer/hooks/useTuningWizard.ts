@@ -1,16 +1,21 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import type { BlackboxLogSession, BlackboxParseProgress } from '@shared/types/blackbox.types';
 import type {
   FilterAnalysisResult,
   PIDAnalysisResult,
   AnalysisProgress,
+  RatesRecommendation,
 } from '@shared/types/analysis.types';
 import type {
   ApplyRecommendationsProgress,
   ApplyRecommendationsResult,
 } from '@shared/types/ipc.types';
 import type { TuningMode } from '@shared/types/tuning.types';
+import type { RatesConfiguration, RatesType } from '@shared/types/pid.types';
+import type { SettingCheck, SettingsSchema } from '@shared/types/cli.types';
 import { TUNING_MODE } from '@shared/constants';
+import { proposeRates } from '@shared/utils/rateCurves';
+import { applySettingsSchema } from '@shared/utils/settingsSchema';
 import { markIntentionalDisconnect } from './useConnection';
 
 export type ApplyState = 'idle' | 'confirming' | 'applying' | 'done' | 'error';
@@ -47,6 +52,12 @@ export interface UseTuningWizardReturn {
   pidError: string | null;
   runPIDAnalysis: () => Promise<void>;
 
+  // Rates (from PID analysis stick usage)
+  ratesType: RatesType | null;
+  setRatesType: (ratesType: RatesType) => void;
+  proposedRates: RatesConfiguration | null;
+  ratesRecommendations: RatesRecommendation[];
+
   // Transfer function analysis (Quick Tune)
   tfResult: PIDAnalysisResult | null;
   tfAnalyzing: boolean;
@@ -62,6 +73,8 @@ export interface UseTuningWizardReturn {
   applyProgress: ApplyRecommendationsProgress | null;
   applyResult: ApplyRecommendationsResult | null;
   applyError: string | null;
+  /** Recommendations outside the firmware's limits — empty until the schema is known */
+  settingChecks: SettingCheck[];
   startApply: () => void;
   confirmApply: () => Promise<void>;
   cancelApply: () => void;
@@ -91,6 +104,9 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
   const [pidProgress, setPidProgress] = useState<AnalysisProgress | null>(null);
   const [pidError, setPidError] = useState<string | null>(null);
 
+  // Rates — system the proposal is expressed in (null = keep the FC's current system)
+  const [selectedRatesType, setSelectedRatesType] = useState<RatesType | null>(null);
+
   // Transfer function analysis state (Quick Tune)
   const [tfResult, setTfResult] = useState<PIDAnalysisResult | null>(null);
   const [tfAnalyzing, setTfAnalyzing] = useState(false);
@@ -101,6 +117,22 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
   const [applyProgress, setApplyProgress] = useState<ApplyRecommendationsProgress | null>(null);
   const [applyResult, setApplyResult] = useState<ApplyRecommendationsResult | null>(null);
   const [applyError, setApplyError] = useState<string | null>(null);
+  const [settingsSchema, setSettingsSchema] = useState<SettingsSchema | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.betaflight
+      .getSettingsSchema()
+      .then((schema) => {
+        if (!cancelled) setSettingsSchema(schema);
+      })
+      .catch(() => {
+        // No schema — the apply handler still checks before writing
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const selectSession = useCallback((idx: number) => {
     setSessionIndex(idx);
@@ -186,6 +218,7 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
       );
 
       setPidResult(result);
+      setSelectedRatesType(null);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to analyze PIDs';
       setPidError(message);
@@ -216,6 +249,15 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
 
   const quickAnalyzing = filterAnalyzing || tfAnalyzing;
 
+  // Rates ride along with the PID analysis (Flash Tune uses transfer function results instead)
+  const ratesAnalysis = pidResult?.ratesAnalysis ?? null;
+  const ratesType = ratesAnalysis ? (selectedRatesType ?? ratesAnalysis.current.ratesType) : null;
+  const ratesProposal = useMemo(
+    () => (ratesAnalysis && ratesType ? proposeRates(ratesAnalysis, ratesType) : null),
+    [ratesAnalysis, ratesType]
+  );
+  const ratesRecommendations = useMemo(() => ratesProposal?.recommendations ?? [], [ratesProposal]);
+
   // Subscribe to apply progress events
   useEffect(() => {
     const cleanup = window.betaflight.onApplyProgress((progress) => {
@@ -228,6 +270,42 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
     setApplyState('idle');
   }, []);
 
+  // What confirmApply sends — in mode-specific modes, only the relevant recommendations
+  const applyRecs = useMemo(() => {
+    const filterRecs =
+      mode === TUNING_MODE.PID
+        ? []
+        : (filterResult?.recommendations ?? []).filter(
+            (r) => r.currentValue !== r.recommendedValue
+          );
+    // For Flash Tune mode, PID recs come from transfer function analysis
+    const allPidRecs =
+      mode === TUNING_MODE.FILTER
+        ? []
+        : mode === TUNING_MODE.FLASH
+          ? (tfResult?.recommendations ?? [])
+          : (pidResult?.recommendations ?? []);
+    const pidRecs = allPidRecs.filter(
+      (r) => r.setting.startsWith('pid_') && r.currentValue !== r.recommendedValue
+    );
+    // CLI-based settings: feedforward_*, iterm_relax_*, and any other non-MSP settings
+    const ffRecs = allPidRecs.filter(
+      (r) => !r.setting.startsWith('pid_') && r.currentValue !== r.recommendedValue
+    );
+    return { filterRecs, pidRecs, ffRecs };
+  }, [mode, filterResult, pidResult, tfResult]);
+
+  const settingChecks = useMemo(() => {
+    if (!settingsSchema) return [];
+    const { filterRecs, pidRecs, ffRecs } = applyRecs;
+    return applySettingsSchema(settingsSchema, [
+      ...filterRecs.filter((r) => !r.informational),
+      ...pidRecs,
+      ...ffRecs,
+      ...ratesRecommendations,
+    ]).checks;
+  }, [settingsSchema, applyRecs, ratesRecommendations]);
+
   const confirmApply = useCallback(async () => {
     setApplyState('applying');
     setApplyProgress(null);
@@ -235,29 +313,9 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
     setApplyResult(null);
 
     try {
-      // In mode-specific modes, only send relevant recommendations
-      const filterRecs =
-        mode === TUNING_MODE.PID
-          ? []
-          : (filterResult?.recommendations ?? []).filter(
-              (r) => r.currentValue !== r.recommendedValue
-            );
-      // For Flash Tune mode, PID recs come from transfer function analysis
-      const allPidRecs =
-        mode === TUNING_MODE.FILTER
-          ? []
-          : mode === TUNING_MODE.FLASH
-            ? (tfResult?.recommendations ?? [])
-            : (pidResult?.recommendations ?? []);
-      const pidRecs = allPidRecs.filter(
-        (r) => r.setting.startsWith('pid_') && r.currentValue !== r.recommendedValue
-      );
-      // CLI-based settings: feedforward_*, iterm_relax_*, and any other non-MSP settings
-      const ffRecs = allPidRecs.filter(
-        (r) => !r.setting.startsWith('pid_') && r.currentValue !== r.recommendedValue
-      );
-
-      const hasChanges = filterRecs.length + pidRecs.length + ffRecs.length > 0;
+      const { filterRecs, pidRecs, ffRecs } = applyRecs;
+      const hasChanges =
+        filterRecs.length + pidRecs.length + ffRecs.length + ratesRecommendations.length > 0;
 
       // Only mark intentional disconnect when changes will cause a reboot
       if (hasChanges) {
@@ -268,6 +326,7 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
         filterRecommendations: filterRecs,
         pidRecommendations: pidRecs,
         feedforwardRecommendations: ffRecs,
+        ...(ratesRecommendations.length > 0 ? { ratesRecommendations } : {}),
       });
 
       setApplyResult(result);
@@ -277,7 +336,7 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
       setApplyError(message);
       setApplyState('error');
     }
-  }, [filterResult, pidResult, tfResult, mode]);
+  }, [applyRecs, ratesRecommendations]);
 
   const startApply = useCallback(() => {
     // Check if there are any recommendations to apply
@@ -288,7 +347,7 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
         : mode === TUNING_MODE.FLASH
           ? (tfResult?.recommendations ?? [])
           : (pidResult?.recommendations ?? []);
-    const totalRecs = fRecs.length + pRecs.length;
+    const totalRecs = fRecs.length + pRecs.length + ratesRecommendations.length;
 
     if (totalRecs === 0) {
       // No changes — skip confirmation modal, apply directly (returns immediately)
@@ -296,7 +355,7 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
     } else {
       setApplyState('confirming');
     }
-  }, [mode, filterResult, pidResult, tfResult, confirmApply]);
+  }, [mode, filterResult, pidResult, tfResult, ratesRecommendations, confirmApply]);
 
   return {
     mode,
@@ -321,6 +380,10 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
     pidProgress,
     pidError,
     runPIDAnalysis,
+    ratesType,
+    setRatesType: setSelectedRatesType,
+    proposedRates: ratesProposal?.config ?? null,
+    ratesRecommendations,
     tfResult,
     tfAnalyzing,
     tfError,
@@ -331,6 +394,7 @@ export function useTuningWizard(logId: string, mode: TuningMode = 'full'): UseTu
     applyProgress,
     applyResult,
     applyError,
+    settingChecks,
     startApply,
     confirmApply,
     cancelApply,
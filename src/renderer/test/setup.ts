@@ -29,6 +29,12 @@ global.window.betaflight = {
   disconnect: vi.fn(),
   getConnectionStatus: vi.fn().mockResolvedValue({ connected: false }),
   onConnectionChanged: vi.fn(() => () => {}),
+  onPortsChanged: vi.fn(() => () => {}),
+  listConnections: vi.fn().mockResolvedValue([]),
+  setActiveConnection: vi.fn().mockResolvedValue(undefined),
+  onConnectionsChanged: vi.fn(() => () => {}),
+  getAutoConnect: vi.fn().mockResolvedValue(false),
+  setAutoConnect: vi.fn().mockResolvedValue(undefined),
 
   // FC Info
   getFCInfo: vi.fn(),
@@ -36,6 +42,7 @@ global.window.betaflight = {
   getBlackboxSettings: vi.fn(),
   getFeedforwardConfig: vi.fn().mockRejectedValue(new Error('Not connected')),
   getRatesConfig: vi.fn().mockRejectedValue(new Error('Not connected')),
+  getSettingsSchema: vi.fn().mockResolvedValue(null),
   fixBlackboxSettings: vi.fn(),
   selectPidProfile: vi.fn().mockResolvedValue(undefined),
 
@@ -45,6 +52,7 @@ global.window.betaflight = {
   deleteSnapshot: vi.fn(),
   loadSnapshot: vi.fn(),
   exportSnapshot: vi.fn(),
+  importSnapshot: vi.fn().mockResolvedValue(null),
 
   // Profiles
   createProfile: vi.fn(),
@@ -70,6 +78,8 @@ global.window.betaflight = {
   testBlackboxRead: vi.fn(),
   parseBlackboxLog: vi.fn(),
   importBlackboxLog: vi.fn().mockResolvedValue(null),
+  exportBlackboxTrack: vi.fn().mockResolvedValue(null),
+  exportBlackboxData: vi.fn().mockResolvedValue(null),
   onBlackboxParseProgress: vi.fn(() => () => {}),
 
   // PID
@@ -87,6 +97,16 @@ global.window.betaflight = {
   restoreSnapshot: vi.fn(),
   onRestoreProgress: vi.fn(() => () => {}),
 
+  // Bench vibration check
+  startBenchTest: vi.fn(),
+  stopBenchTest: vi.fn(),
+  onBenchUpdate: vi.fn(() => () => {}),
+
+  // CLI console
+  sendCLICommand: vi.fn(),
+  applyCLIBatch: vi.fn(),
+  exitCLI: vi.fn(),
+
   // Tuning
   applyRecommendations: vi.fn(),
   onApplyProgress: vi.fn(() => () => {}),
@@ -121,6 +141,10 @@ global.window.betaflight = {
   getAppLogs: vi.fn().mockResolvedValue([]),
   exportAppLogs: vi.fn().mockResolvedValue(''),
 
+  // App backup
+  exportAppBackup: vi.fn().mockResolvedValue(null),
+  importAppBackup: vi.fn().mockResolvedValue(null),
+
   // Auto-update
   checkForUpdate: vi.fn().mockResolvedValue(undefined),
   installUpdate: vi.fn().mockResolvedValue(undefined),
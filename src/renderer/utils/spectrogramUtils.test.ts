@@ -4,8 +4,13 @@ import {
   dbToColor,
   prepareHeatmapData,
   prepareHeatmapDataFromCompact,
+  prepareRpmHeatmapData,
 } from './spectrogramUtils';
-import type { ThrottleSpectrogramResult, PowerSpectrum } from '@shared/types/analysis.types';
+import type {
+  ThrottleSpectrogramResult,
+  RpmSpectrogramResult,
+  PowerSpectrum,
+} from '@shared/types/analysis.types';
 import type { CompactThrottleSpectrogram } from '@shared/types/tuning-history.types';
 
 function makeSpectrum(length: number, fillDb: number): PowerSpectrum {
@@ -184,3 +189,68 @@ describe('prepareHeatmapDataFromCompact', () => {
     expect(data.bands[2].max).toBeCloseTo(0.3);
   });
 });
+
+describe('prepareRpmHeatmapData', () => {
+  function makeRpmResult(): RpmSpectrogramResult {
+    return {
+      bands: [
+        { motorHzMin: 100, motorHzMax: 120, sampleCount: 10 },
+        {
+          motorHzMin: 120,
+          motorHzMax: 140,
+          sampleCount: 1000,
+          spectra: [makeSpectrum(50, -30), makeSpectrum(50, -35), makeSpectrum(50, -40)],
+          noiseFloorDb: [-30, -35, -40],
+          harmonicHz: [130, 260, 390],
+          harmonicResidualDb: [12, 4, 2],
+        },
+        {
+          motorHzMin: 140,
+          motorHzMax: 160,
+          sampleCount: 1000,
+          spectra: [makeSpectrum(50, -30), makeSpectrum(50, -35), makeSpectrum(50, -40)],
+          noiseFloorDb: [-30, -35, -40],
+          // 3× (450 Hz) falls outside the analyzed range
+          harmonicHz: [150, 300],
+          harmonicResidualDb: [10, 3],
+        },
+      ],
+      numBands: 3,
+      minSamplesPerBand: 512,
+      bandsWithData: 2,
+      source: 'erpm',
+      harmonicResiduals: [],
+    };
+  }
+
+  it('uses motor frequency bounds for bands and cells', () => {
+    const heatmap = prepareRpmHeatmapData(makeRpmResult(), 'roll')!;
+    expect(heatmap.bands).toEqual([
+      { min: 100, max: 120 },
+      { min: 120, max: 140 },
+      { min: 140, max: 160 },
+    ]);
+    expect(heatmap.cells[0]).toMatchObject({ bandIndex: 1, bandMin: 120, bandMax: 140 });
+  });
+
+  it('groups harmonic frequencies into one line per harmonic order', () => {
+    const heatmap = prepareRpmHeatmapData(makeRpmResult(), 'roll')!;
+    expect(heatmap.harmonicLines).toEqual([
+      {
+        harmonic: 1,
+        points: [
+          { bandIndex: 1, frequency: 130 },
+          { bandIndex: 2, frequency: 150 },
+        ],
+      },
+      {
+        harmonic: 2,
+        points: [
+          { bandIndex: 1, frequency: 260 },
+          { bandIndex: 2, frequency: 300 },
+        ],
+      },
+      { harmonic: 3, points: [{ bandIndex: 1, frequency: 390 }] },
+    ]);
+  });
+});
@@ -1,4 +1,8 @@
-import type { ThrottleSpectrogramResult, PowerSpectrum } from '@shared/types/analysis.types';
+import type {
+  ThrottleSpectrogramResult,
+  RpmSpectrogramResult,
+  PowerSpectrum,
+} from '@shared/types/analysis.types';
 import type { CompactThrottleSpectrogram } from '@shared/types/tuning-history.types';
 
 export type Axis = 'roll' | 'pitch' | 'yaw';
@@ -7,17 +11,25 @@ export interface HeatmapCell {
   freqIndex: number;
   bandIndex: number;
   frequency: number;
-  throttleMin: number;
-  throttleMax: number;
+  /** Band bounds — throttle (0-1), or motor frequency in Hz for RPM heatmaps */
+  bandMin: number;
+  bandMax: number;
   db: number;
 }
 
+/** Expected motor harmonic frequency per band (RPM heatmaps only) */
+export interface HarmonicLine {
+  harmonic: number;
+  points: { bandIndex: number; frequency: number }[];
+}
+
 export interface HeatmapData {
   cells: HeatmapCell[];
   frequencies: number[];
   bands: { min: number; max: number }[];
   minDb: number;
   maxDb: number;
+  harmonicLines?: HarmonicLine[];
 }
 
 /**
@@ -132,8 +144,8 @@ export function prepareHeatmapData(
         freqIndex: fi,
         bandIndex: bi,
         frequency: downsampled.frequencies[fi],
-        throttleMin: band.throttleMin,
-        throttleMax: band.throttleMax,
+        bandMin: band.throttleMin,
+        bandMax: band.throttleMax,
         db,
       });
     }
@@ -176,8 +188,8 @@ export function prepareHeatmapDataFromCompact(
         freqIndex: fi,
         bandIndex: bi,
         frequency: frequencies[fi],
-        throttleMin: band.throttleMin,
-        throttleMax: band.throttleMax,
+        bandMin: band.throttleMin,
+        bandMax: band.throttleMax,
         db,
       });
     }
@@ -187,3 +199,62 @@ export function prepareHeatmapDataFromCompact(
 
   return { cells, frequencies, bands, minDb, maxDb };
 }
+
+/**
+ * Transform RpmSpectrogramResult into HeatmapData, with the expected motor
+ * harmonic lines for overlay.
+ */
+export function prepareRpmHeatmapData(
+  result: RpmSpectrogramResult,
+  axis: Axis
+): HeatmapData | null {
+  const axisIndex = axis === 'roll' ? 0 : axis === 'pitch' ? 1 : 2;
+
+  const bandsWithSpectra = result.bands.filter((b) => b.spectra);
+  if (bandsWithSpectra.length === 0) return null;
+
+  const refSpectrum = bandsWithSpectra[0].spectra![axisIndex];
+  const frequencies = downsampleSpectrum(refSpectrum, TARGET_FREQ_BINS).frequencies;
+
+  const cells: HeatmapCell[] = [];
+  let minDb = Infinity;
+  let maxDb = -Infinity;
+  const bands: { min: number; max: number }[] = [];
+  const lines = new Map<number, HarmonicLine>();
+
+  for (let bi = 0; bi < result.bands.length; bi++) {
+    const band = result.bands[bi];
+    bands.push({ min: band.motorHzMin, max: band.motorHzMax });
+
+    if (!band.spectra) continue;
+
+    const downsampled = downsampleSpectrum(band.spectra[axisIndex], TARGET_FREQ_BINS);
+    for (let fi = 0; fi < downsampled.magnitudes.length; fi++) {
+      const db = downsampled.magnitudes[fi];
+      if (db < minDb) minDb = db;
+      if (db > maxDb) maxDb = db;
+
+      cells.push({
+        freqIndex: fi,
+        bandIndex: bi,
+        frequency: downsampled.frequencies[fi],
+        bandMin: band.motorHzMin,
+        bandMax: band.motorHzMax,
+        db,
+      });
+    }
+
+    // harmonicHz is ordered 1×, 2×, 3× … with out-of-range harmonics dropped
+    const center = (band.motorHzMin + band.motorHzMax) / 2;
+    for (const hz of band.harmonicHz ?? []) {
+      const harmonic = Math.round(hz / center);
+      if (!lines.has(harmonic)) lines.set(harmonic, { harmonic, points: [] });
+      lines.get(harmonic)!.points.push({ bandIndex: bi, frequency: hz });
+    }
+  }
+
+  if (cells.length === 0) return null;
+
+  const harmonicLines = Array.from(lines.values()).sort((a, b) => a.harmonic - b.harmonic);
+  return { cells, frequencies, bands, minDb, maxDb, harmonicLines };
+}
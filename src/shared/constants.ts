@@ -8,6 +8,8 @@ export const MSP = {
   RECONNECT_ATTEMPTS: 5,
   RECONNECT_INTERVAL: 2000,
   REBOOT_WAIT_TIME: 3000,
+  /** Betaflight SITL exposes MSP on UART1 at TCP 5761 */
+  SITL_TCP_PORT: 5761,
 } as const;
 
 export const BETAFLIGHT = {
@@ -19,6 +21,29 @@ export const BETAFLIGHT = {
   MIN_API_VERSION: { major: 1, minor: 44 },
 } as const;
 
+export const PORT_WATCHER = {
+  /** How often the serial port list is polled for hot-plug changes */
+  POLL_INTERVAL_MS: 1500,
+  /** Wait after a port appears before auto-connecting — USB-CDC needs a moment after enumeration */
+  SETTLE_MS: 1000,
+  SETTINGS_FILE: 'port-watcher-settings.json',
+} as const;
+
+/** Betaflight mixerMode_e values (MSP_MIXER_CONFIG) for multirotor airframes */
+export const MIXER_MODE = {
+  TRI: 1,
+  QUADP: 2,
+  QUADX: 3,
+  Y6: 6,
+  HEX6: 7,
+  Y4: 9,
+  HEX6X: 10,
+  OCTOX8: 11,
+  OCTOFLATP: 12,
+  OCTOFLATX: 13,
+  HEX6H: 18,
+} as const;
+
 export const SNAPSHOT = {
   BASELINE_LABEL: 'Baseline',
   STORAGE_DIR: 'data/snapshots',
@@ -36,6 +61,16 @@ export const PROFILE = {
   PROFILES_FILE: 'profiles.json',
 } as const;
 
+export const APP_BACKUP = {
+  /** Marker in every archive, so other JSON files are rejected */
+  FORMAT: 'fpvpidlab-backup',
+  /** Archive layout version: a gzipped tar of manifest.json plus logs/ and app/ entries — bump when the layout changes */
+  VERSION: 2,
+  FILE_EXTENSION: 'fpvbackup',
+  /** Files in userData copied as-is by whole-app exports */
+  APP_FILES: ['license.json', 'telemetry-settings.json'],
+} as const;
+
 // Default values based on drone size
 export const SIZE_DEFAULTS = {
   '1"': { weight: 25, motorKV: 19000, battery: '1S' as const, propSize: '31mm' },
@@ -106,6 +141,28 @@ export const TUNING_TYPE_LABELS: Record<string, string> = {
   [TUNING_TYPE.FLASH]: 'Flash Tune',
 };
 
+/**
+ * Display labels for the LEVEL (angle/horizon) and MAG controllers of MSP_PID.
+ * Keyed by the app's pid_<controller>_<term> names and by the BF CLI names
+ * those slots use in snapshot diffs (4.5: angle_p_gain, 4.2-4.4:
+ * angle_level_strength, older: p_level/i_level/d_level).
+ */
+export const PID_CONTROLLER_LABELS: Record<string, string> = {
+  pid_level_p: 'Angle strength',
+  pid_level_i: 'Horizon strength',
+  pid_level_d: 'Horizon transition',
+  pid_mag_p: 'Mag heading P',
+  pid_mag_i: 'Mag heading I',
+  pid_mag_d: 'Mag heading D',
+  angle_p_gain: 'Angle strength',
+  angle_level_strength: 'Angle strength',
+  horizon_level_strength: 'Horizon strength',
+  horizon_transition: 'Horizon transition',
+  p_level: 'Angle strength',
+  i_level: 'Horizon strength',
+  d_level: 'Horizon transition',
+};
+
 export const LICENSE = {
   /** Production license API endpoint */
   API_URL: 'https://license.fpvpidlab.app',
@@ -124,6 +181,20 @@ export const LICENSE = {
   VALIDATION_INTERVAL_MS: 24 * 60 * 60 * 1000,
 } as const;
 
+/** Safety limits for the bench vibration check (props off, motors spun over MSP) */
+export const BENCH_TEST = {
+  /** Highest throttle the bench check will command */
+  MAX_THROTTLE_PERCENT: 40,
+  DEFAULT_THROTTLE_PERCENT: 15,
+  /** Longest a single step may spin before the auto-stop kicks in */
+  MAX_STEP_SECONDS: 30,
+  DEFAULT_STEP_SECONDS: 8,
+  /** Motors spin up for this long before gyro samples are kept */
+  SETTLE_MS: 1000,
+  /** Watchdog stops all motors this long after the planned end of the test */
+  WATCHDOG_GRACE_MS: 3000,
+} as const;
+
 export const DIAGNOSTIC = {
   /** Production diagnostic endpoint */
   UPLOAD_URL: 'https://telemetry.fpvpidlab.app/v1/diagnostic',
@@ -2,8 +2,9 @@
  * Types for FFT-based noise analysis, filter tuning, and PID step-response analysis.
  */
 
-import type { PIDConfiguration } from './pid.types';
+import type { PIDConfiguration, RatesConfiguration } from './pid.types';
 import type { FlightStyle } from './profile.types';
+import type { MotorRpmSource } from './blackbox.types';
 
 /** Power spectrum for one axis */
 export interface PowerSpectrum {
@@ -97,7 +98,8 @@ export interface AnalysisWarning {
     | 'missing_axis_coverage'
     | 'low_step_magnitude'
     | 'tpa_variance'
-    | 'low_coherence';
+    | 'low_coherence'
+    | 'unsupported_firmware';
   message: string;
   severity: 'info' | 'warning' | 'error';
 }
@@ -124,6 +126,8 @@ export interface FilterAnalysisResult {
   dataQuality?: DataQualityScore;
   /** Throttle-indexed spectrogram (noise vs throttle level) */
   throttleSpectrogram?: ThrottleSpectrogramResult;
+  /** Motor-frequency-indexed spectrogram — only when the log carries RPM telemetry */
+  rpmSpectrogram?: RpmSpectrogramResult;
   /** Estimated group delay of the current filter chain */
   groupDelay?: FilterGroupDelay;
   /** Wind/disturbance detection result */
@@ -162,6 +166,52 @@ export interface ThrottleSpectrogramResult {
   bandsWithData: number;
 }
 
+// ---- RPM Spectrogram Types ----
+
+/** A band of motor fundamental frequency with its per-axis noise spectra */
+export interface RpmBand {
+  /** Lower bound of the mean motor fundamental in this band (Hz) */
+  motorHzMin: number;
+  /** Upper bound of the mean motor fundamental in this band (Hz) */
+  motorHzMax: number;
+  /** Number of gyro samples that fell into this band */
+  sampleCount: number;
+  /** Per-axis power spectra [roll, pitch, yaw] (undefined if too few samples) */
+  spectra?: [PowerSpectrum, PowerSpectrum, PowerSpectrum];
+  /** Per-axis noise floor in dB [roll, pitch, yaw] */
+  noiseFloorDb?: [number, number, number];
+  /** Expected harmonic frequencies at the band center (1×, 2×, 3× …), within the analyzed range */
+  harmonicHz?: number[];
+  /** Energy around each harmonic above the band's noise floor (dB, worst of roll/pitch) */
+  harmonicResidualDb?: number[];
+}
+
+/** Residual energy around one motor harmonic, averaged over all bands that cover it */
+export interface RpmHarmonicResidual {
+  /** Harmonic order (1 = fundamental) */
+  harmonic: number;
+  /** Mean energy above the noise floor around the harmonic line (dB) */
+  residualDb: number;
+  /** Number of bands that contributed */
+  bandCount: number;
+}
+
+/** Complete motor-frequency-indexed spectrogram result */
+export interface RpmSpectrogramResult {
+  /** Bands from low to high motor frequency */
+  bands: RpmBand[];
+  /** Number of bands requested */
+  numBands: number;
+  /** Minimum samples required per band for FFT */
+  minSamplesPerBand: number;
+  /** Number of bands with sufficient data for spectra */
+  bandsWithData: number;
+  /** Where the motor RPM data came from */
+  source: MotorRpmSource;
+  /** Per-harmonic residual energy — how much motor noise the RPM filter left behind */
+  harmonicResiduals: RpmHarmonicResidual[];
+}
+
 // ---- Filter Group Delay Types ----
 
 /** Group delay estimate for a single filter */
@@ -204,6 +254,14 @@ export interface FlightSegment {
   maxThrottle: number;
 }
 
+/** Time span (seconds) where flight state makes data unsuitable for tuning analysis */
+export interface ExcludedSpan {
+  start: number;
+  /** Span end; Infinity if the state lasted until the end of the log */
+  end: number;
+  reason: 'failsafe' | 'angle_mode';
+}
+
 /** Progress during analysis pipeline */
 export interface AnalysisProgress {
   /** Current pipeline step */
@@ -241,6 +299,12 @@ export interface CurrentFilterSettings {
   dterm_lpf1_dyn_expo?: number;
   /** D-term LPF1 dynamic minimum Hz (>0 means dynamic D-term LPF is active) */
   dterm_lpf1_dyn_min_hz?: number;
+  /** D-term LPF1 dynamic maximum Hz */
+  dterm_lpf1_dyn_max_hz?: number;
+  /** Gyro LPF1 dynamic minimum Hz (>0 means dynamic gyro LPF is active) */
+  gyro_lpf1_dyn_min_hz?: number;
+  /** Gyro LPF1 dynamic maximum Hz */
+  gyro_lpf1_dyn_max_hz?: number;
 }
 
 /** Default filter settings (Betaflight 4.4+ defaults) */
@@ -446,6 +510,8 @@ export interface PIDAnalysisResult {
   sliderDelta?: { masterMultiplierDelta: number; pdRatioDelta: number; summary: string };
   /** Extended feedforward analysis (leading-edge, jitter, RC rate) */
   feedforwardAnalysis?: FeedforwardAnalysis;
+  /** Stick usage and rate recommendations — only when the rates are known (FC or BBL header) */
+  ratesAnalysis?: RatesAnalysis;
   /** Per-band transfer function analysis across throttle levels (Flash Tune only) */
   throttleTF?: {
     bands: {
@@ -634,7 +700,7 @@ export type HealthSeverity = 'ok' | 'warning' | 'critical';
 /** A detected mechanical health issue */
 export interface MechanicalHealthIssue {
   /** Type of detected issue */
-  type: 'extreme_noise' | 'axis_asymmetry' | 'motor_imbalance';
+  type: 'extreme_noise' | 'axis_asymmetry' | 'motor_imbalance' | 'coaxial_imbalance';
   /** Severity level */
   severity: HealthSeverity;
   /** Human-readable description */
@@ -655,12 +721,26 @@ export interface MechanicalHealthResult {
   issues: MechanicalHealthIssue[];
   /** Per-axis noise floors used for diagnosis */
   noiseFloors: { roll: number; pitch: number; yaw: number };
-  /** Per-motor variance during hover (if motor data available) */
-  motorVariance?: [number, number, number, number];
+  /** Per-motor variance during hover, one entry per logged motor (if motor data available) */
+  motorVariance?: number[];
+  /** Upper vs lower motor comparison (coaxial mixers only) */
+  coaxialPairs?: CoaxialPairComparison[];
   /** Human-readable summary */
   summary: string;
 }
 
+/** Hover output comparison of one coaxial motor pair (0-based motor indices) */
+export interface CoaxialPairComparison {
+  upper: number;
+  lower: number;
+  /** Mean hover output of the upper motor (raw motor units) */
+  upperMean: number;
+  /** Mean hover output of the lower motor (raw motor units) */
+  lowerMean: number;
+  /** lowerMean / upperMean — the lower prop works in downwash, so > 1 is normal */
+  outputRatio: number;
+}
+
 // ---- Wind Disturbance Detection Types ----
 
 /** Disturbance level classification */
@@ -678,6 +758,8 @@ export interface WindDisturbanceResult {
   hoverDurationS: number;
   /** Number of hover samples used */
   hoverSampleCount: number;
+  /** Median GPS ground speed (m/s) while hovering with centered sticks — only with GPS data */
+  groundDriftMps?: number;
   /** Human-readable summary */
   summary: string;
 }
@@ -695,3 +777,76 @@ export interface PropWashAnalysis {
   /** Human-readable recommendation */
   recommendation: string;
 }
+
+// ---- Rates Types ----
+
+/** How much of the stick throw one axis used during the flight */
+export interface StickUsage {
+  /** Percent of flight time per 10% deflection bin (index 0 = 0-10%, 9 = 90-100%) */
+  histogram: number[];
+  /** Percent of flight time at or above 95% deflection */
+  fullStickPercent: number;
+  /** Percent of flight time below 20% deflection */
+  centerPercent: number;
+  /** 95th-percentile deflection (0-1) */
+  p95Deflection: number;
+  /** Highest commanded rate in the flight (deg/s) */
+  peakRateDegS: number;
+}
+
+/**
+ * Rate curve described independently of the rate system: the same three
+ * numbers as Actual rates. Any RatesType can be fitted to it.
+ */
+export interface RateTarget {
+  /** Rate per full stick at center (deg/s) */
+  centerSensitivity: number;
+  /** Rate at full stick (deg/s) */
+  maxRate: number;
+  /** Actual-style expo (0-1) */
+  expo: number;
+}
+
+/** Per-axis rates analysis */
+export interface AxisRatesAnalysis {
+  usage: StickUsage;
+  /** Current curve expressed as a RateTarget */
+  current: RateTarget;
+  /** Proposed curve (equals current when no change is recommended) */
+  target: RateTarget;
+  /** Why the target differs from current — empty when unchanged */
+  reasons: string[];
+}
+
+/** A single rates recommendation */
+export interface RatesRecommendation {
+  /** Betaflight CLI setting name (e.g. "roll_srate", "rates_type") */
+  setting: string;
+  /** Current value on the FC */
+  currentValue: number;
+  /** Recommended new value */
+  recommendedValue: number;
+  /** Beginner-friendly explanation */
+  reason: string;
+  /** What this change affects */
+  impact: 'response' | 'precision' | 'both';
+  /** How confident the recommendation is */
+  confidence: 'high' | 'medium' | 'low';
+  /** Structured rule identifier for telemetry tracking (e.g. "R-SAT-roll") */
+  ruleId?: string;
+}
+
+/** Complete rates analysis result */
+export interface RatesAnalysis {
+  /** Rates the flight was flown with */
+  current: RatesConfiguration;
+  /** Where stick deflection came from: logged rcCommand, or setpoint mapped back through the curve */
+  source: 'rcCommand' | 'setpoint';
+  roll: AxisRatesAnalysis;
+  pitch: AxisRatesAnalysis;
+  yaw: AxisRatesAnalysis;
+  /** Recommendations in the current rate system */
+  recommendations: RatesRecommendation[];
+  /** 1-2 sentence summary for beginners */
+  summary: string;
+}
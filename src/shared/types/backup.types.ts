@@ -0,0 +1,24 @@
+/** What an app backup export covers */
+export interface AppBackupExportOptions {
+  /** Export only this profile with its snapshots, logs, tuning session and history */
+  profileId?: string;
+}
+
+/** Counts and notes from merging an app backup into this install */
+export interface AppBackupImportResult {
+  profilesAdded: number;
+  /** Profiles that matched an existing one by ID or FC serial and were merged into it */
+  profilesMerged: number;
+  snapshotsAdded: number;
+  logsAdded: number;
+  sessionsAdded: number;
+  historyRecordsAdded: number;
+  /** Items already present here (same ID and content) */
+  skipped: number;
+  /** Items that clashed with a different local item of the same ID and were given a new ID */
+  reassignedIds: number;
+  /** license.json / telemetry-settings.json written because this install had none */
+  appFilesRestored: string[];
+  /** Human-readable notes about items that were kept local instead of imported */
+  conflicts: string[];
+}
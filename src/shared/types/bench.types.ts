@@ -0,0 +1,59 @@
+import type { MechanicalHealthIssue, NoiseProfile } from './analysis.types';
+
+/** One MSP_RAW_IMU gyro reading (deg/s) with the host time it arrived */
+export interface RawImuSample {
+  /** Host timestamp in ms */
+  timestamp: number;
+  /** Gyro rate per axis in deg/s [roll, pitch, yaw] */
+  gyro: [number, number, number];
+}
+
+/**
+ * How motors are spun during a bench vibration check.
+ * - individual: each motor alone in turn, so every motor gets its own spectrum
+ * - together: all motors at once, one combined spectrum
+ */
+export type BenchMotorMode = 'individual' | 'together';
+
+export interface BenchTestConfig {
+  mode: BenchMotorMode;
+  /** Throttle as a percentage of the 1000-2000 motor range (capped by BENCH_TEST.MAX_THROTTLE_PERCENT) */
+  throttlePercent: number;
+  /** Spin time per step in seconds — per motor in individual mode (capped by BENCH_TEST.MAX_STEP_SECONDS) */
+  stepSeconds: number;
+  /** User confirmed props are removed — the main process refuses to spin motors without it */
+  propsRemoved: boolean;
+}
+
+/** Live spectrum for one bench step (a single motor, or all motors together) */
+export interface BenchStepResult {
+  /** 0-based indices of the motors spinning in this step */
+  motors: number[];
+  /** Display label, e.g. "Motor 2" or "All motors" */
+  label: string;
+  /** Gyro noise profile from the samples collected so far */
+  noise: NoiseProfile;
+  /** Effective gyro sample rate reached over MSP (Hz) */
+  sampleRateHz: number;
+  sampleCount: number;
+}
+
+export type BenchTestState = 'spinning' | 'complete' | 'stopped' | 'error';
+
+/** Progress event sent to the renderer while the bench test runs */
+export interface BenchTestUpdate {
+  state: BenchTestState;
+  /** 0-based index of the current step */
+  step: number;
+  totalSteps: number;
+  /** Motors currently commanded to spin (empty once stopped) */
+  activeMotors: number[];
+  /** Seconds left in the current step */
+  remainingSeconds: number;
+  /** One entry per step started so far; the last one is live while spinning */
+  results: BenchStepResult[];
+  /** Mechanical issues found so far (noise floor, axis asymmetry, motor-to-motor spread) */
+  issues: MechanicalHealthIssue[];
+  /** Reason the test ended early (error or auto-stop) */
+  message?: string;
+}
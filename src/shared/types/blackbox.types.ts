@@ -151,8 +151,29 @@ export interface BlackboxDownloadProgress {
   percent: number;
   /** Estimated time remaining in seconds */
   estimatedSecondsRemaining?: number;
+  /** Flash offset this download started at (resume point or end of the previous download) */
+  resumedFrom?: number;
 }
 
+/**
+ * Options for a flash download
+ */
+export interface BlackboxDownloadOptions {
+  /** Only read data appended since the last download from this FC (flash not erased since) */
+  newDataOnly?: boolean;
+}
+
+/**
+ * File formats a GPS track can be exported to
+ */
+export type GpsTrackFormat = 'gpx' | 'kml';
+
+/**
+ * File formats flight data can be exported to: blackbox_decode-style CSV,
+ * or an Arrow IPC (Feather V2) file for large logs
+ */
+export type FlightDataExportFormat = 'csv' | 'arrow';
+
 /**
  * Metadata for a saved Blackbox log file
  */
@@ -177,8 +198,20 @@ export interface BlackboxLogMetadata {
     version: string;
     target: string;
   };
-  /** Whether Huffman compression was detected during download (data unusable without decompression) */
+  /** Set by older versions that saved Huffman-compressed flash data undecoded (unusable) */
   compressionDetected?: boolean;
+  /** Whether the FC sent Huffman-compressed reads (decoded before saving) */
+  huffmanDecoded?: boolean;
+  /** Flash address range this log was read from (flash downloads only) */
+  flashRange?: { start: number; end: number };
+  /** Log this one was trimmed or split from */
+  derivedFrom?: {
+    logId: string;
+    sessionIndex: number;
+    /** Time range kept, in seconds from the start of the session (trimmed logs only) */
+    startSeconds?: number;
+    endSeconds?: number;
+  };
 }
 
 // ============================================================
@@ -236,6 +269,8 @@ export enum BBLPredictor {
   SERVO_CENTER = 8,
   /** Predicted value is vbatref * 100 from header */
   VBATREF = 9,
+  /** Predicted value is the time of the last main (I/P) frame (GPS frames) */
+  LAST_MAIN_FRAME_TIME = 10,
 }
 
 /**
@@ -270,6 +305,19 @@ export interface BBLFieldDefinition {
   signed: boolean;
 }
 
+/**
+ * Firmware families whose logs the parser understands. INAV, EmuFlight and
+ * Rotorflight logs are mapped onto Betaflight's field names and header keys;
+ * ArduPilot DataFlash and PX4 ULog files are converted by importers.
+ */
+export type BlackboxFirmware =
+  | 'betaflight'
+  | 'inav'
+  | 'emuflight'
+  | 'rotorflight'
+  | 'ardupilot'
+  | 'px4';
+
 /**
  * Parsed header information from a BBL log session
  */
@@ -280,6 +328,8 @@ export interface BBLLogHeader {
   dataVersion: number;
   /** Firmware type (e.g. "Cleanflight", "Betaflight") */
   firmwareType: string;
+  /** Firmware family the log was written by, detected from the firmware headers */
+  firmware?: BlackboxFirmware;
   /** Firmware revision string */
   firmwareRevision: string;
   /** Firmware date */
@@ -299,6 +349,8 @@ export interface BBLLogHeader {
   sFieldDefs: BBLFieldDefinition[];
   /** G-frame (GPS) field definitions */
   gFieldDefs: BBLFieldDefinition[];
+  /** H-frame (GPS home) field definitions */
+  hFieldDefs: BBLFieldDefinition[];
 
   /** I-frame interval (how many loop iterations between I-frames) */
   iInterval: number;
@@ -346,6 +398,29 @@ export interface TimeSeries {
   values: Float64Array;
 }
 
+/**
+ * GPS track decoded from G-frames.
+ * Parallel arrays, one entry per GPS frame.
+ */
+export interface BlackboxGpsData {
+  /** Timestamps in seconds, on the same time base as the main series */
+  time: Float64Array;
+  /** Latitude in degrees */
+  lat: Float64Array;
+  /** Longitude in degrees */
+  lon: Float64Array;
+  /** Altitude above sea level in meters */
+  altitude: Float64Array;
+  /** Ground speed in m/s */
+  speed: Float64Array;
+  /** Ground course in degrees (0 = north) */
+  course: Float64Array;
+  /** Number of satellites used in the fix */
+  numSat: Float64Array;
+  /** GPS home position (last H-frame before the track ends) */
+  home?: { lat: number; lon: number };
+}
+
 /**
  * Extracted flight data from a parsed BBL log session.
  * Contains the key signals needed for PID/filter analysis.
@@ -355,6 +430,11 @@ export interface BlackboxFlightData {
   gyro: [TimeSeries, TimeSeries, TimeSeries];
   /** RC command setpoints [roll, pitch, yaw, throttle] */
   setpoint: [TimeSeries, TimeSeries, TimeSeries, TimeSeries];
+  /**
+   * Raw stick commands [roll, pitch, yaw] in ±500 units (rcCommand[0..2]).
+   * Only present when the log carries rcCommand fields.
+   */
+  rcCommand?: [TimeSeries, TimeSeries, TimeSeries];
   /** PID P-term [roll, pitch, yaw] */
   pidP: [TimeSeries, TimeSeries, TimeSeries];
   /** PID I-term [roll, pitch, yaw] */
@@ -363,10 +443,28 @@ export interface BlackboxFlightData {
   pidD: [TimeSeries, TimeSeries, TimeSeries];
   /** PID F-term (feedforward) [roll, pitch, yaw] - may be zero-filled if not logged */
   pidF: [TimeSeries, TimeSeries, TimeSeries];
-  /** Motor outputs [0, 1, 2, 3] */
-  motor: [TimeSeries, TimeSeries, TimeSeries, TimeSeries];
+  /**
+   * Motor outputs, one per motor[n] field in the header (4 on a quad, 6 on a
+   * hex, 8 on an octo). Zero-filled quad channels if the log has no motor fields.
+   */
+  motor: TimeSeries[];
+  /**
+   * Mechanical motor speed in RPM, one channel per motor. Only present when
+   * the log carries RPM telemetry: eRPM[n] fields, or the DSHOT_RPM_TELEMETRY /
+   * RPM_FILTER debug modes.
+   */
+  motorRpm?: TimeSeries[];
+  /** Where motorRpm came from */
+  motorRpmSource?: MotorRpmSource;
   /** Debug values (up to 8 channels) */
   debug: TimeSeries[];
+  /** GPS track — only present when the log contains GPS frames */
+  gps?: BlackboxGpsData;
+  /**
+   * Every main-frame field as logged, by header name, one value per frame.
+   * Only present when parsed with the `mainFields` option (exports).
+   */
+  mainFields?: Record<string, Float64Array>;
 
   /** Effective sample rate in Hz */
   sampleRateHz: number;
@@ -376,6 +474,90 @@ export interface BlackboxFlightData {
   frameCount: number;
 }
 
+/** Origin of per-motor RPM data in a log */
+export type MotorRpmSource = 'erpm' | 'debug_dshot_rpm_telemetry' | 'debug_rpm_filter';
+
+/**
+ * Flight state from a slow (S) frame. Only emitted when the state changes.
+ * flightModeFlags bit meanings depend on the firmware (see FirmwareDialect.flightModes).
+ */
+export interface BlackboxStateEvent {
+  type: 'state';
+  /** Time in seconds, on the main series' time base */
+  time: number;
+  /** Active flight modes: Betaflight logs its mode boxes (bit 0 = ARM, 1 = ANGLE, 2 = HORIZON) */
+  flightModeFlags: number;
+  /** FC state flags (GPS fix, calibration, etc.) */
+  stateFlags: number;
+  /** Failsafe phase (0 = idle, i.e. no failsafe) */
+  failsafePhase: number;
+  /** Whether the receiver was delivering frames — absent in older firmware */
+  rxSignalReceived?: boolean;
+  /** Whether the flight channels were valid — absent in older firmware */
+  rxFlightChannelsValid?: boolean;
+}
+
+/** Sync beep (used to align external video with the log) */
+export interface BlackboxSyncBeepEvent {
+  type: 'sync_beep';
+  time: number;
+  /** Beep time in microseconds since boot */
+  beepTime: number;
+}
+
+/** FC disarmed */
+export interface BlackboxDisarmEvent {
+  type: 'disarm';
+  time: number;
+  /** Betaflight disarm reason code */
+  reason: number;
+}
+
+/** Mode switch change (RC mode activation box bitmasks) */
+export interface BlackboxFlightModeEvent {
+  type: 'flight_mode';
+  time: number;
+  flags: number;
+  lastFlags: number;
+}
+
+/** In-flight adjustment (adjrange) applied */
+export interface BlackboxAdjustmentEvent {
+  type: 'inflight_adjustment';
+  time: number;
+  /** Adjustment function index */
+  adjustmentFunction: number;
+  /** New value of the adjusted setting */
+  value: number;
+}
+
+/** Logging resumed after a pause */
+export interface BlackboxLoggingResumeEvent {
+  type: 'logging_resume';
+  time: number;
+  logIteration: number;
+  /** FC time in microseconds when logging resumed */
+  currentTime: number;
+}
+
+/** End of log marker */
+export interface BlackboxLogEndEvent {
+  type: 'log_end';
+  time: number;
+}
+
+/**
+ * Entry in a session's flight event timeline
+ */
+export type BlackboxEvent =
+  | BlackboxStateEvent
+  | BlackboxSyncBeepEvent
+  | BlackboxDisarmEvent
+  | BlackboxFlightModeEvent
+  | BlackboxAdjustmentEvent
+  | BlackboxLoggingResumeEvent
+  | BlackboxLogEndEvent;
+
 /**
  * A single parsed log session within a BBL file.
  * A BBL file may contain multiple sessions (multiple flights).
@@ -387,10 +569,29 @@ export interface BlackboxLogSession {
   header: BBLLogHeader;
   /** Extracted flight data time series */
   flightData: BlackboxFlightData;
+  /** Flight state changes and logged events, in time order */
+  events: BlackboxEvent[];
   /** Number of corrupted frames that were skipped */
   corruptedFrameCount: number;
   /** Non-fatal warnings encountered during parsing */
   warnings: string[];
+  /** Where the session's frames are in the file; only with the `frameIndex` parse option */
+  frameIndex?: BlackboxFrameIndex;
+}
+
+/**
+ * Byte offsets of a session in the parsed buffer (after flash page headers
+ * are stripped), for copying frames out of a log unchanged.
+ */
+export interface BlackboxFrameIndex {
+  /** First byte of the header lines */
+  start: number;
+  /** First byte after the header lines */
+  dataStart: number;
+  /** End of the session's frames: its LOG_END event, else the next session or end of file */
+  end: number;
+  /** Each main frame the parser kept, in file order */
+  frames: { offset: number; timeUs: number; intra: boolean }[];
 }
 
 /**
@@ -409,6 +610,16 @@ export interface BlackboxParseResult {
   error?: string;
 }
 
+/**
+ * Options for BBL parsing
+ */
+export interface BlackboxParseOptions {
+  /** Keep every main-frame field in `flightData.mainFields`, not just the analysed channels */
+  mainFields?: boolean;
+  /** Record where each session's main frames are in `frameIndex` */
+  frameIndex?: boolean;
+}
+
 /**
  * Progress information during BBL parsing
  */
@@ -0,0 +1,86 @@
+/** Which config section a setting lives in — profile settings exist once per PID/rate profile */
+export type CLISettingScope = 'master' | 'profile' | 'rateprofile';
+
+/** How the FC describes a setting's allowed input */
+export type CLISettingType = 'lookup' | 'range' | 'array' | 'string';
+
+/** One setting as reported by the FC's `get <name>` output */
+export interface CLISettingInfo {
+  name: string;
+  value: string;
+  type?: CLISettingType;
+  scope?: CLISettingScope;
+  /** Lookup table values, e.g. ["OFF", "ON"] */
+  allowedValues?: string[];
+  /** Numeric range from "Allowed range: min - max" */
+  min?: number;
+  max?: number;
+  defaultValue?: string;
+}
+
+/**
+ * Config section a `diff`/`dump` line applies to: `master`, or the PID/rate
+ * profile selected by the last `profile N`/`rateprofile N` line before it.
+ */
+export type CLIDiffScope = 'master' | `profile ${number}` | `rateprofile ${number}`;
+
+/** One restorable line of a `diff`/`dump`, keyed so the same setting can be matched across diffs */
+export interface CLIDiffEntry {
+  scope: CLIDiffScope;
+  /** What the line configures, e.g. `set p_roll`, `aux 0`, `feature GPS` */
+  key: string;
+  value: string;
+  /** The line as it appears in the diff */
+  line: string;
+}
+
+/** A setting whose value after a restore doesn't match the snapshot */
+export interface CLIDiffResidual {
+  scope: CLIDiffScope;
+  key: string;
+  /** Value in the snapshot — undefined when the FC has a setting the snapshot doesn't */
+  expected?: string;
+  /** Value read back from the FC — undefined when it is missing */
+  actual?: string;
+}
+
+/** A staged `set` line from the console's batch mode */
+export interface CLISetCommand {
+  name: string;
+  value: string;
+}
+
+export interface CLIBatchResult {
+  /** Auto-snapshot taken before the batch was written */
+  snapshotId: string;
+  /** Commands sent to the FC, in order, before `save` */
+  appliedCommands: string[];
+}
+
+/** Every setting the connected firmware accepts, parsed from a full `get` */
+export interface SettingsSchema {
+  /** Firmware the schema was read from, e.g. "BTFL 4.5.1" — the cache key */
+  firmware: string;
+  /** ISO timestamp of the `get` the schema was parsed from */
+  fetchedAt: string;
+  settings: Record<string, CLISettingInfo>;
+}
+
+/**
+ * - clamped: numeric value outside the firmware range, moved to the nearest bound
+ * - invalid: value the firmware can never accept (unknown lookup value, not a number)
+ * - unknown: setting name not in the schema (e.g. renamed in this firmware)
+ */
+export type SettingCheckStatus = 'clamped' | 'invalid' | 'unknown';
+
+/** A value that doesn't fit the firmware schema as-is */
+export interface SettingCheck {
+  setting: string;
+  value: number | string;
+  status: SettingCheckStatus;
+  /** Value that will be written instead (clamped only) */
+  adjustedValue?: number;
+  /** Readable allowed range or values, e.g. "0 - 1000" */
+  allowed?: string;
+  message: string;
+}
@@ -1,3 +1,5 @@
+import type { CLIDiffScope } from './cli.types';
+
 export interface PortInfo {
   path: string;
   manufacturer?: string;
@@ -8,6 +10,14 @@ export interface PortInfo {
   vendorId?: string;
 }
 
+/** Sent by the main-process port watcher whenever a serial port appears or disappears */
+export interface PortsChangedEvent {
+  /** Current port list (same filtering as listPorts) */
+  ports: PortInfo[];
+  added: PortInfo[];
+  removed: PortInfo[];
+}
+
 export interface ApiVersionInfo {
   protocol: number;
   major: number;
@@ -57,6 +67,7 @@ export interface ConfigurationSnapshot {
     tuningType?: 'filter' | 'pid' | 'flash';
     snapshotRole?: 'pre-tuning' | 'post-tuning';
     bfPidProfileIndex?: number; // active BF PID profile when snapshot was created
+    importedFrom?: string; // file name when imported from a CLI diff/dump or Configurator backup
   };
 }
 
@@ -75,6 +86,7 @@ export interface SnapshotMetadata {
   tuningType?: 'filter' | 'pid' | 'flash';
   snapshotRole?: 'pre-tuning' | 'post-tuning';
   bfPidProfileIndex?: number;
+  importedFrom?: string;
 }
 
 export interface ConnectionStatus {
@@ -84,9 +96,25 @@ export interface ConnectionStatus {
   error?: string;
 }
 
+/** One open FC connection when several drones are connected at once */
+export interface ConnectionSummary {
+  /** Connection ID — the port path (or host:port) it was opened on */
+  id: string;
+  connected: boolean;
+  /** The drone all other IPC calls currently act on */
+  active: boolean;
+  fcInfo?: FCInfo;
+  fcSerial?: string;
+  /** Set once the FC's UID matched a profile */
+  profileId?: string;
+  profileName?: string;
+}
+
 export type DiffEntryStatus = 'added' | 'removed' | 'changed';
 
 export interface DiffEntry {
+  /** Section of the diff — the same key can change differently in each profile */
+  scope: CLIDiffScope;
   key: string;
   oldValue?: string;
   newValue?: string;
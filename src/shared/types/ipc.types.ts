@@ -4,6 +4,8 @@ import type {
   ConfigurationSnapshot,
   SnapshotMetadata,
   ConnectionStatus,
+  ConnectionSummary,
+  PortsChangedEvent,
 } from './common.types';
 import type {
   DroneProfile,
@@ -13,11 +15,15 @@ import type {
 } from './profile.types';
 import type { PIDConfiguration, FeedforwardConfiguration, RatesConfiguration } from './pid.types';
 import type {
+  BlackboxDownloadOptions,
+  BlackboxDownloadProgress,
   BlackboxInfo,
   BlackboxLogMetadata,
   BlackboxParseResult,
   BlackboxParseProgress,
   BlackboxSettings,
+  GpsTrackFormat,
+  FlightDataExportFormat,
 } from './blackbox.types';
 import type {
   FilterAnalysisResult,
@@ -26,6 +32,7 @@ import type {
   CurrentFilterSettings,
   FilterRecommendation,
   PIDRecommendation,
+  RatesRecommendation,
 } from './analysis.types';
 import type { TuningSession, TuningPhase, TuningType } from './tuning.types';
 import type {
@@ -35,7 +42,10 @@ import type {
   TransferFunctionMetricsSummary,
 } from './tuning-history.types';
 import type { TelemetrySettings } from './telemetry.types';
+import type { BenchTestConfig, BenchTestUpdate } from './bench.types';
+import type { CLIBatchResult, CLIDiffResidual, SettingsSchema } from './cli.types';
 import type { LicenseInfo } from './license.types';
+import type { AppBackupExportOptions, AppBackupImportResult } from './backup.types';
 import type {
   DiagnosticReportInput,
   DiagnosticReportResult,
@@ -44,17 +54,27 @@ import type {
 
 /** Progress during snapshot restore */
 export interface SnapshotRestoreProgress {
-  stage: 'backup' | 'cli' | 'save';
+  stage: 'backup' | 'cli' | 'verify' | 'save';
   message: string;
   percent: number;
 }
 
+/**
+ * - merge: replay the snapshot on top of the current config; settings changed
+ *   since the snapshot and absent from its diff are kept
+ * - full: `defaults nosave` first, so the FC ends up with exactly the snapshot
+ */
+export type SnapshotRestoreMode = 'merge' | 'full';
+
 /** Result of restoring a snapshot */
 export interface SnapshotRestoreResult {
   success: boolean;
+  mode: SnapshotRestoreMode;
   backupSnapshotId?: string;
   appliedCommands: number;
   failedCommands?: string[];
+  /** Full restore only: read-back `diff all` vs the snapshot (empty when they match) */
+  residualDifferences?: CLIDiffResidual[];
   rebooted: boolean;
 }
 
@@ -75,11 +95,23 @@ export interface ApplyRecommendationsInput {
   filterRecommendations: FilterRecommendation[];
   pidRecommendations: PIDRecommendation[];
   feedforwardRecommendations: PIDRecommendation[];
+  /** Rate changes, written via MSP_SET_RC_TUNING */
+  ratesRecommendations?: RatesRecommendation[];
 }
 
 /** Progress during recommendation application */
 export interface ApplyRecommendationsProgress {
-  stage: 'pid' | 'filter' | 'feedforward' | 'save' | 'reboot' | 'verify' | 'snapshot' | 'done';
+  stage:
+    | 'validate'
+    | 'pid'
+    | 'filter'
+    | 'rates'
+    | 'feedforward'
+    | 'save'
+    | 'reboot'
+    | 'verify'
+    | 'snapshot'
+    | 'done';
   message: string;
   percent: number;
 }
@@ -90,7 +122,10 @@ export interface ApplyRecommendationsResult {
   appliedPIDs: number;
   appliedFilters: number;
   appliedFeedforward: number;
+  appliedRates?: number;
   rebooted: boolean;
+  /** Value written per setting — recommendations clamped to the firmware's limits, rounded */
+  writtenValues?: Record<string, number>;
 }
 
 export enum IPCChannel {
@@ -103,6 +138,10 @@ export enum IPCChannel {
   CONNECTION_CONNECT = 'connection:connect',
   CONNECTION_DISCONNECT = 'connection:disconnect',
   CONNECTION_GET_STATUS = 'connection:get-status',
+  CONNECTION_LIST = 'connection:list',
+  CONNECTION_SET_ACTIVE = 'connection:set-active',
+  CONNECTION_GET_AUTO_CONNECT = 'connection:get-auto-connect',
+  CONNECTION_SET_AUTO_CONNECT = 'connection:set-auto-connect',
 
   // FC Info
   FC_GET_INFO = 'fc:get-info',
@@ -112,6 +151,7 @@ export enum IPCChannel {
   FC_GET_RATES_CONFIG = 'fc:get-rates-config',
   FC_FIX_BLACKBOX_SETTINGS = 'fc:fix-blackbox-settings',
   FC_SELECT_PID_PROFILE = 'fc:select-pid-profile',
+  FC_GET_SETTINGS_SCHEMA = 'fc:get-settings-schema',
 
   // Snapshots
   SNAPSHOT_CREATE = 'snapshot:create',
@@ -119,6 +159,7 @@ export enum IPCChannel {
   SNAPSHOT_DELETE = 'snapshot:delete',
   SNAPSHOT_EXPORT = 'snapshot:export',
   SNAPSHOT_LOAD = 'snapshot:load',
+  SNAPSHOT_IMPORT = 'snapshot:import',
 
   // Profiles
   PROFILE_CREATE = 'profile:create',
@@ -147,6 +188,8 @@ export enum IPCChannel {
   BLACKBOX_TEST_READ = 'blackbox:test-read',
   BLACKBOX_PARSE_LOG = 'blackbox:parse-log',
   BLACKBOX_IMPORT_LOG = 'blackbox:import-log',
+  BLACKBOX_EXPORT_TRACK = 'blackbox:export-track',
+  BLACKBOX_EXPORT_DATA = 'blackbox:export-data',
 
   // Analysis
   ANALYSIS_RUN_FILTER = 'analysis:run-filter',
@@ -156,6 +199,15 @@ export enum IPCChannel {
   // Snapshot Restore
   SNAPSHOT_RESTORE = 'snapshot:restore',
 
+  // Bench vibration check
+  BENCH_START = 'bench:start',
+  BENCH_STOP = 'bench:stop',
+
+  // CLI console
+  CLI_SEND_COMMAND = 'cli:send-command',
+  CLI_APPLY_BATCH = 'cli:apply-batch',
+  CLI_EXIT = 'cli:exit',
+
   // Tuning
   TUNING_APPLY_RECOMMENDATIONS = 'tuning:apply-recommendations',
   TUNING_GET_SESSION = 'tuning:get-session',
@@ -175,6 +227,10 @@ export enum IPCChannel {
   APP_GET_LOGS = 'app:get-logs',
   APP_EXPORT_LOGS = 'app:export-logs',
 
+  // App backup
+  APP_BACKUP_EXPORT = 'app:backup-export',
+  APP_BACKUP_IMPORT = 'app:backup-import',
+
   // Auto-update
   UPDATE_CHECK = 'update:check',
   UPDATE_INSTALL = 'update:install',
@@ -191,6 +247,8 @@ export enum IPCChannel {
 
   // Events (main -> renderer)
   EVENT_CONNECTION_CHANGED = 'event:connection-changed',
+  EVENT_PORTS_CHANGED = 'event:ports-changed',
+  EVENT_CONNECTIONS_CHANGED = 'event:connections-changed',
   EVENT_PROFILE_CHANGED = 'event:profile-changed',
   EVENT_NEW_FC_DETECTED = 'event:new-fc-detected',
   EVENT_PID_CHANGED = 'event:pid-changed',
@@ -199,6 +257,7 @@ export enum IPCChannel {
   EVENT_ANALYSIS_PROGRESS = 'event:analysis-progress',
   EVENT_TUNING_APPLY_PROGRESS = 'event:tuning-apply-progress',
   EVENT_SNAPSHOT_RESTORE_PROGRESS = 'event:snapshot-restore-progress',
+  EVENT_BENCH_UPDATE = 'event:bench-update',
   EVENT_TUNING_SESSION_CHANGED = 'event:tuning-session-changed',
   EVENT_LICENSE_CHANGED = 'event:license-changed',
   EVENT_UPDATE_AVAILABLE = 'event:update-available',
@@ -221,25 +280,43 @@ export interface BetaflightAPI {
   // Connection
   listPorts(): Promise<PortInfo[]>;
   connect(portPath: string): Promise<void>;
-  disconnect(): Promise<void>;
+  /** Disconnects the given connection, or the active one */
+  disconnect(connectionId?: string): Promise<void>;
+  /** Status of the active connection */
   getConnectionStatus(): Promise<ConnectionStatus>;
   onConnectionChanged(callback: (status: ConnectionStatus) => void): () => void;
+  listConnections(): Promise<ConnectionSummary[]>;
+  /** Switch the drone that calls naming no connection act on */
+  setActiveConnection(connectionId: string): Promise<void>;
+  onConnectionsChanged(callback: (connections: ConnectionSummary[]) => void): () => void;
+  onPortsChanged(callback: (event: PortsChangedEvent) => void): () => void;
+  getAutoConnect(): Promise<boolean>;
+  setAutoConnect(enabled: boolean): Promise<void>;
 
   // FC Info
-  getFCInfo(): Promise<FCInfo>;
-  exportCLI(format: 'diff' | 'dump'): Promise<string>;
+  // FC calls take an optional trailing connectionId (the port) to reach a background drone.
+  // Calls that also use the active profile, snapshots or tuning session reject any other drone.
+  getFCInfo(connectionId?: string): Promise<FCInfo>;
+  exportCLI(format: 'diff' | 'dump', connectionId?: string): Promise<string>;
   getBlackboxSettings(): Promise<BlackboxSettings>;
-  getFeedforwardConfig(): Promise<FeedforwardConfiguration>;
-  getRatesConfig(): Promise<RatesConfiguration>;
-  fixBlackboxSettings(input: FixBlackboxSettingsInput): Promise<FixBlackboxSettingsResult>;
-  selectPidProfile(index: number): Promise<void>;
+  getFeedforwardConfig(connectionId?: string): Promise<FeedforwardConfiguration>;
+  getRatesConfig(connectionId?: string): Promise<RatesConfiguration>;
+  fixBlackboxSettings(
+    input: FixBlackboxSettingsInput,
+    connectionId?: string
+  ): Promise<FixBlackboxSettingsResult>;
+  selectPidProfile(index: number, connectionId?: string): Promise<void>;
+  /** Cached settings schema for the connected firmware; null until first read */
+  getSettingsSchema(connectionId?: string): Promise<SettingsSchema | null>;
 
   // Snapshots
-  createSnapshot(label?: string): Promise<ConfigurationSnapshot>;
+  createSnapshot(label?: string, connectionId?: string): Promise<ConfigurationSnapshot>;
   listSnapshots(): Promise<SnapshotMetadata[]>;
   deleteSnapshot(id: string): Promise<void>;
   exportSnapshot(id: string, filePath: string): Promise<void>;
   loadSnapshot(id: string): Promise<ConfigurationSnapshot>;
+  /** Pick a CLI diff/dump or Configurator backup and add it to the current profile. Null if cancelled. */
+  importSnapshot(): Promise<ConfigurationSnapshot | null>;
 
   // Profiles
   createProfile(input: ProfileCreationInput): Promise<DroneProfile>;
@@ -254,23 +331,31 @@ export interface BetaflightAPI {
   getFCSerialNumber(): Promise<string>;
 
   // PID Configuration
-  getPIDConfig(): Promise<PIDConfiguration>;
-  updatePIDConfig(config: PIDConfiguration): Promise<void>;
-  savePIDConfig(): Promise<void>;
+  getPIDConfig(connectionId?: string): Promise<PIDConfiguration>;
+  updatePIDConfig(config: PIDConfiguration, connectionId?: string): Promise<void>;
+  savePIDConfig(connectionId?: string): Promise<void>;
 
   // Blackbox
-  getBlackboxInfo(): Promise<BlackboxInfo>;
-  downloadBlackboxLog(onProgress?: (progress: number) => void): Promise<BlackboxLogMetadata>;
+  getBlackboxInfo(connectionId?: string): Promise<BlackboxInfo>;
+  downloadBlackboxLog(
+    onProgress?: (progress: number, detail?: BlackboxDownloadProgress) => void,
+    options?: BlackboxDownloadOptions,
+    connectionId?: string
+  ): Promise<BlackboxLogMetadata>;
   listBlackboxLogs(): Promise<BlackboxLogMetadata[]>;
   deleteBlackboxLog(logId: string): Promise<void>;
-  eraseBlackboxFlash(): Promise<void>;
+  eraseBlackboxFlash(connectionId?: string): Promise<void>;
   openBlackboxFolder(filepath: string): Promise<void>;
-  testBlackboxRead(): Promise<{ success: boolean; message: string; data?: string }>;
+  testBlackboxRead(
+    connectionId?: string
+  ): Promise<{ success: boolean; message: string; data?: string }>;
   parseBlackboxLog(
     logId: string,
     onProgress?: (progress: BlackboxParseProgress) => void
   ): Promise<BlackboxParseResult>;
   importBlackboxLog(): Promise<BlackboxLogMetadata | null>;
+  exportBlackboxTrack(logId: string, format: GpsTrackFormat): Promise<string | null>;
+  exportBlackboxData(logId: string, format: FlightDataExportFormat): Promise<string | null>;
   onBlackboxParseProgress(callback: (progress: BlackboxParseProgress) => void): () => void;
 
   // Analysis
@@ -294,11 +379,32 @@ export interface BetaflightAPI {
   ): Promise<PIDAnalysisResult>;
 
   // Snapshot Restore
-  restoreSnapshot(id: string, createBackup: boolean): Promise<SnapshotRestoreResult>;
+  restoreSnapshot(
+    id: string,
+    createBackup: boolean,
+    mode?: SnapshotRestoreMode,
+    connectionId?: string
+  ): Promise<SnapshotRestoreResult>;
   onRestoreProgress(callback: (progress: SnapshotRestoreProgress) => void): () => void;
 
+  // Bench vibration check
+  startBenchTest(config: BenchTestConfig, connectionId?: string): Promise<BenchTestUpdate>;
+  stopBenchTest(): Promise<void>;
+  onBenchUpdate(callback: (update: BenchTestUpdate) => void): () => void;
+
+  // CLI console
+  /** Runs a read-only command (get, diff, status, …); the FC stays in CLI until exit or save */
+  sendCLICommand(command: string, connectionId?: string): Promise<string>;
+  /** Auto-snapshot, then write `set` lines and save (FC reboots) */
+  applyCLIBatch(commands: string[], connectionId?: string): Promise<CLIBatchResult>;
+  /** Leave CLI without saving (FC reboots) */
+  exitCLI(connectionId?: string): Promise<void>;
+
   // Tuning
-  applyRecommendations(input: ApplyRecommendationsInput): Promise<ApplyRecommendationsResult>;
+  applyRecommendations(
+    input: ApplyRecommendationsInput,
+    connectionId?: string
+  ): Promise<ApplyRecommendationsResult>;
   onApplyProgress(callback: (progress: ApplyRecommendationsProgress) => void): () => void;
 
   // Tuning Session
@@ -330,6 +436,12 @@ export interface BetaflightAPI {
   getAppLogs(lines?: number): Promise<string[]>;
   exportAppLogs(): Promise<string>;
 
+  // App backup
+  /** Export all data, or one profile, to a backup archive. Returns the file path, or null if cancelled */
+  exportAppBackup(options?: AppBackupExportOptions): Promise<string | null>;
+  /** Merge a backup archive into this install. Returns null if cancelled */
+  importAppBackup(): Promise<AppBackupImportResult | null>;
+
   // Auto-update
   checkForUpdate(): Promise<void>;
   installUpdate(): Promise<void>;
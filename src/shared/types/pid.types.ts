@@ -10,11 +10,23 @@ export interface PIDFTerm extends PIDTerm {
   F: number;
 }
 
-/** PID configuration for all axes */
+/** Name of a PID controller slot in MSP_PID, in wire order */
+export type PIDController = 'roll' | 'pitch' | 'yaw' | 'level' | 'mag';
+
+/**
+ * PID configuration for every controller MSP_PID returns.
+ *
+ * `level` and `mag` are undefined when the FC response stops after yaw.
+ * When writing, an omitted controller keeps its current FC value.
+ */
 export interface PIDConfiguration {
   roll: PIDTerm;
   pitch: PIDTerm;
   yaw: PIDTerm;
+  /** Self-level controller: P = angle strength, I = horizon strength, D = horizon transition */
+  level?: PIDTerm;
+  /** Magnetometer heading hold */
+  mag?: PIDTerm;
 }
 
 /** Rate type as reported by Betaflight (MSP_RC_TUNING byte 22, BF 4.3+) */
@@ -197,6 +197,8 @@ export interface CompletedTuningRecord {
   appliedFilterChanges: AppliedChange[];
   appliedPIDChanges: AppliedChange[];
   appliedFeedforwardChanges: AppliedChange[];
+  /** Rate changes (absent on records archived before rates tuning existed) */
+  appliedRatesChanges?: AppliedChange[];
 
   /** Analysis metrics (nullable — may not have been computed) */
   filterMetrics: FilterMetricsSummary | null;
@@ -99,6 +99,9 @@ export interface TuningSession {
   /** Summary of applied feedforward changes */
   appliedFeedforwardChanges?: AppliedChange[];
 
+  /** Summary of applied rate changes */
+  appliedRatesChanges?: AppliedChange[];
+
   /** Log ID of the verification flight (after download) */
   verificationLogId?: string;
 
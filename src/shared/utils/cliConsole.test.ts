@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  completeCLIInput,
+  isReadOnlyCLICommand,
+  parseGetOutput,
+  parseSetCommand,
+  validateSetValue,
+} from './cliConsole';
+import type { CLISettingInfo } from '../types/cli.types';
+
+const GET_OUTPUT = [
+  'gyro_lpf1_static_hz = 250',
+  'Allowed range: 0 - 1000',
+  'Default value: 250',
+  '',
+  'gyro_lpf1_type = PT1',
+  'Allowed values: PT1, BIQUAD, PT2, PT3',
+  'Default value: PT1',
+  '',
+  'gyro_lpf2_static_hz = 500',
+  'Allowed range: 0 - 1000',
+].join('\r\n');
+
+const settings = new Map<string, CLISettingInfo>(
+  parseGetOutput(GET_OUTPUT).map((s) => [s.name, s])
+);
+
+describe('isReadOnlyCLICommand', () => {
+  it('accepts queries and rejects state-changing commands', () => {
+    expect(isReadOnlyCLICommand('get gyro')).toBe(true);
+    expect(isReadOnlyCLICommand('  DIFF all')).toBe(true);
+    expect(isReadOnlyCLICommand('set gyro_lpf1_static_hz = 300')).toBe(false);
+    expect(isReadOnlyCLICommand('save')).toBe(false);
+    expect(isReadOnlyCLICommand('defaults')).toBe(false);
+  });
+});
+
+describe('parseSetCommand', () => {
+  it('parses with and without spaces around =', () => {
+    expect(parseSetCommand('set Gyro_LPF1_Type = BIQUAD')).toEqual({
+      name: 'gyro_lpf1_type',
+      value: 'BIQUAD',
+    });
+    expect(parseSetCommand('set dshot_idle_value=550')).toEqual({
+      name: 'dshot_idle_value',
+      value: '550',
+    });
+  });
+
+  it('returns null for other commands', () => {
+    expect(parseSetCommand('get gyro')).toBeNull();
+    expect(parseSetCommand('set gyro_lpf1_type')).toBeNull();
+  });
+});
+
+describe('parseGetOutput', () => {
+  it('reads values, allowed values, ranges and defaults', () => {
+    expect(parseGetOutput(GET_OUTPUT)).toEqual([
+      {
+        name: 'gyro_lpf1_static_hz',
+        value: '250',
+        scope: 'master',
+        type: 'range',
+        min: 0,
+        max: 1000,
+        defaultValue: '250',
+      },
+      {
+        name: 'gyro_lpf1_type',
+        value: 'PT1',
+        scope: 'master',
+        type: 'lookup',
+        allowedValues: ['PT1', 'BIQUAD', 'PT2', 'PT3'],
+        defaultValue: 'PT1',
+      },
+      {
+        name: 'gyro_lpf2_static_hz',
+        value: '500',
+        scope: 'master',
+        type: 'range',
+        min: 0,
+        max: 1000,
+      },
+    ]);
+  });
+
+  it('reads profile scope and array/string settings', () => {
+    const output = [
+      'p_roll = 45',
+      'profile 0',
+      'Allowed range: 0 - 250',
+      '',
+      'roll_srate = 67',
+      'rateprofile 0',
+      'Allowed range: 0 - 255',
+      '',
+      'motor_output_reordering = 0,1,2,3,4,5,6,7',
+      'Array length: 8',
+      '',
+      'name = -',
+      'String length: 1 - 16',
+    ].join('\n');
+
+    expect(parseGetOutput(output).map(({ name, scope, type }) => ({ name, scope, type }))).toEqual([
+      { name: 'p_roll', scope: 'profile', type: 'range' },
+      { name: 'roll_srate', scope: 'rateprofile', type: 'range' },
+      { name: 'motor_output_reordering', scope: 'master', type: 'array' },
+      { name: 'name', scope: 'master', type: 'string' },
+    ]);
+  });
+
+  it('handles negative ranges', () => {
+    expect(parseGetOutput('align_board_roll = 0\nAllowed range: -180 - 360')[0]).toMatchObject({
+      min: -180,
+      max: 360,
+    });
+  });
+});
+
+describe('validateSetValue', () => {
+  it('checks lookup values and numeric ranges', () => {
+    expect(validateSetValue({ name: 'gyro_lpf1_type', value: 'biquad' }, settings)).toBeNull();
+    expect(validateSetValue({ name: 'gyro_lpf1_type', value: 'PT9' }, settings)).toMatch(
+      /must be one of: PT1, BIQUAD/
+    );
+    expect(validateSetValue({ name: 'gyro_lpf1_static_hz', value: '1200' }, settings)).toMatch(
+      /from 0 to 1000/
+    );
+  });
+
+  it('accepts settings it has not seen', () => {
+    expect(
+      validateSetValue({ name: 'motor_pwm_protocol', value: 'DSHOT600' }, settings)
+    ).toBeNull();
+  });
+});
+
+describe('completeCLIInput', () => {
+  it('completes command names', () => {
+    expect(completeCLIInput('ver', settings)).toEqual({
+      line: 'version ',
+      candidates: ['version'],
+    });
+  });
+
+  it('extends an ambiguous setting name to the common prefix', () => {
+    const result = completeCLIInput('set gyro_l', settings);
+
+    expect(result.line).toBe('set gyro_lpf');
+    expect(result.candidates).toHaveLength(3);
+  });
+
+  it('adds " = " after a unique setting name in a set line', () => {
+    expect(completeCLIInput('set gyro_lpf1_t', settings).line).toBe('set gyro_lpf1_type = ');
+    expect(completeCLIInput('get gyro_lpf1_t', settings).line).toBe('get gyro_lpf1_type ');
+  });
+
+  it('completes allowed values', () => {
+    const result = completeCLIInput('set gyro_lpf1_type = P', settings);
+
+    expect(result.candidates).toEqual(['PT1', 'PT2', 'PT3']);
+    expect(result.line).toBe('set gyro_lpf1_type = PT');
+  });
+
+  it('returns no candidates for unknown settings', () => {
+    expect(completeCLIInput('set motor_', settings).candidates).toEqual([]);
+  });
+});
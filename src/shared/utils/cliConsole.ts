@@ -0,0 +1,182 @@
+/**
+ * Parsing and tab completion for the in-app CLI console.
+ *
+ * The console only sends read-only commands straight to the FC; `set` lines
+ * are staged and written as one batch (auto-snapshot → set… → save). Setting
+ * names and allowed values are learned from `get` output, so completion only
+ * knows what the user has already queried.
+ */
+import type { CLISetCommand, CLISettingInfo, CLISettingScope } from '../types/cli.types';
+import { checkSettingValue } from './settingsSchema';
+
+/** Commands that never change FC state — safe to run outside a batch */
+export const READ_ONLY_CLI_COMMANDS = [
+  'get',
+  'diff',
+  'dump',
+  'status',
+  'version',
+  'help',
+  'tasks',
+] as const;
+
+/** Commands offered by completion at the start of a line */
+const COMPLETABLE_COMMANDS = [...READ_ONLY_CLI_COMMANDS, 'set'];
+
+function firstWord(line: string): string {
+  return line.trim().split(/\s+/)[0]?.toLowerCase() ?? '';
+}
+
+export function isReadOnlyCLICommand(line: string): boolean {
+  return (READ_ONLY_CLI_COMMANDS as readonly string[]).includes(firstWord(line));
+}
+
+/** Parses `set name = value` (spaces around `=` optional). Returns null for anything else. */
+export function parseSetCommand(line: string): CLISetCommand | null {
+  const match = line.trim().match(/^set\s+(\w+)\s*=\s*(.+)$/i);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), value: match[2].trim() };
+}
+
+/**
+ * Parses `get` output. Each setting starts with `name = value` and may be
+ * followed by a `profile N` / `rateprofile N` scope line, then
+ * `Allowed values: …`, `Allowed range: min - max`, `Array length: N` or
+ * `String length: min - max`, and `Default value: …`.
+ */
+export function parseGetOutput(output: string): CLISettingInfo[] {
+  const settings: CLISettingInfo[] = [];
+  let current: CLISettingInfo | null = null;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    const valueMatch = line.match(/^(\w+)\s*=\s*(.*)$/);
+    if (valueMatch) {
+      current = { name: valueMatch[1], value: valueMatch[2].trim(), scope: 'master' };
+      settings.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    const scopeMatch = line.match(/^(profile|rateprofile)\s+\d+$/i);
+    if (scopeMatch) {
+      current.scope = scopeMatch[1].toLowerCase() as CLISettingScope;
+      continue;
+    }
+
+    const allowedMatch = line.match(/^Allowed values:\s*(.+)$/i);
+    if (allowedMatch) {
+      current.type = 'lookup';
+      current.allowedValues = allowedMatch[1]
+        .split(',')
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0);
+      continue;
+    }
+
+    const rangeMatch = line.match(/^Allowed range:\s*(-?\d+)\s*-\s*(-?\d+)/i);
+    if (rangeMatch) {
+      current.type = 'range';
+      current.min = Number(rangeMatch[1]);
+      current.max = Number(rangeMatch[2]);
+      continue;
+    }
+
+    if (/^Array length:/i.test(line)) {
+      current.type = 'array';
+      continue;
+    }
+    if (/^String length:/i.test(line)) {
+      current.type = 'string';
+      continue;
+    }
+
+    const defaultMatch = line.match(/^Default value:\s*(.*)$/i);
+    if (defaultMatch) {
+      current.defaultValue = defaultMatch[1].trim();
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Checks a staged value against what `get` reported. Returns an error
+ * message, or null when the value is valid or the setting is unknown.
+ */
+export function validateSetValue(
+  command: CLISetCommand,
+  settings: Map<string, CLISettingInfo>
+): string | null {
+  const info = settings.get(command.name);
+  if (!info) return null;
+
+  // The console never clamps — the user typed the value, so out-of-range is an error too
+  const check = checkSettingValue(info, command.value);
+  if (!check) return null;
+  return info.allowedValues
+    ? `${command.name} must be one of: ${check.allowed}`
+    : `${command.name} must be an integer from ${info.min} to ${info.max}`;
+}
+
+export interface CLICompletion {
+  /** Input after completing the longest unambiguous prefix */
+  line: string;
+  /** All candidates for the word being completed */
+  candidates: string[];
+}
+
+function commonPrefix(words: string[]): string {
+  if (words.length === 0) return '';
+  let prefix = words[0];
+  for (const word of words.slice(1)) {
+    while (!word.toLowerCase().startsWith(prefix.toLowerCase())) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+}
+
+/**
+ * Completes the word under the cursor (end of input): command names, then
+ * setting names after `set`/`get`, then allowed values after `set name =`.
+ */
+export function completeCLIInput(
+  input: string,
+  settings: Map<string, CLISettingInfo>
+): CLICompletion {
+  let head: string;
+  let partial: string;
+  let options: string[];
+  let suffix = ' ';
+
+  const valueMatch = input.match(/^(\s*set\s+(\w+)\s*=\s*)(\S*)$/i);
+  const nameMatch = input.match(/^(\s*(?:set|get)\s+)(\w*)$/i);
+  if (valueMatch) {
+    head = valueMatch[1];
+    partial = valueMatch[3];
+    options = settings.get(valueMatch[2].toLowerCase())?.allowedValues ?? [];
+    suffix = '';
+  } else if (nameMatch) {
+    head = nameMatch[1];
+    partial = nameMatch[2];
+    options = [...settings.keys()];
+    if (firstWord(input) === 'set') suffix = ' = ';
+  } else if (/^\s*\S*$/.test(input)) {
+    head = input.match(/^\s*/)![0];
+    partial = input.trim();
+    options = COMPLETABLE_COMMANDS;
+  } else {
+    return { line: input, candidates: [] };
+  }
+
+  const candidates = options
+    .filter((o) => o.toLowerCase().startsWith(partial.toLowerCase()))
+    .sort();
+  if (candidates.length === 0) return { line: input, candidates };
+  if (candidates.length === 1) return { line: head + candidates[0] + suffix, candidates };
+
+  const prefix = commonPrefix(candidates);
+  return { line: head + (prefix.length > partial.length ? prefix : partial), candidates };
+}
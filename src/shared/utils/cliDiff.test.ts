@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { buildReplayCommands, compareCLIDiffs, parseScopedCLIDiff } from './cliDiff';
+
+const DIFF_ALL = `# diff all
+
+# version
+# Betaflight / STM32F405 (S405) 4.5.1 Jan 1 2025 / 00:00:00 (abc) MSP API: 1.46
+
+batch start
+board_name MATEKF405
+
+# feature
+feature -AIRMODE
+feature GPS
+
+# aux
+aux 0 0 0 1700 2100 0 0
+
+# resource
+resource MOTOR 1 B06
+
+# master
+set motor_poles = 12
+map TAER1234
+
+profile 0
+
+# profile 0
+set p_roll = 45
+
+profile 2
+
+# profile 2
+set p_roll = 60
+
+rateprofile 1
+
+# rateprofile 1
+set roll_srate = 70
+
+# restore original profile selection
+profile 2
+rateprofile 1
+
+batch end
+`;
+
+describe('parseScopedCLIDiff', () => {
+  it('tags each line with its profile scope and keys it for matching', () => {
+    const parsed = parseScopedCLIDiff(DIFF_ALL);
+
+    expect(parsed.entries.map((e) => [e.scope, e.key, e.value])).toEqual([
+      ['master', 'feature AIRMODE', 'OFF'],
+      ['master', 'feature GPS', 'ON'],
+      ['master', 'aux 0', '0 0 1700 2100 0 0'],
+      ['master', 'resource MOTOR 1', 'B06'],
+      ['master', 'set motor_poles', '12'],
+      ['master', 'map', 'TAER1234'],
+      ['profile 0', 'set p_roll', '45'],
+      ['profile 2', 'set p_roll', '60'],
+      ['rateprofile 1', 'set roll_srate', '70'],
+    ]);
+    expect(parsed.profile).toBe(2);
+    expect(parsed.rateprofile).toBe(1);
+  });
+
+  it('takes the scope from section comments in a plain diff', () => {
+    const parsed = parseScopedCLIDiff(
+      '# profile 1\r\nset d_roll = 40\r\n# rateprofile 3\r\nset rc_expo = 5'
+    );
+
+    expect(parsed.entries.map((e) => e.scope)).toEqual(['profile 1', 'rateprofile 3']);
+  });
+
+  it('keys single-value commands by name so a change matches the old line', () => {
+    const parsed = parseScopedCLIDiff('mixer QUADX\nname My Quad\nbeeper -GYRO_CALIBRATED');
+
+    expect(parsed.entries.map((e) => [e.key, e.value])).toEqual([
+      ['mixer', 'QUADX'],
+      ['name', 'My Quad'],
+      ['beeper GYRO_CALIBRATED', 'OFF'],
+    ]);
+  });
+});
+
+describe('buildReplayCommands', () => {
+  it('switches profile before each scoped line and restores the selection', () => {
+    const commands = buildReplayCommands(parseScopedCLIDiff(DIFF_ALL));
+
+    expect(commands.slice(4)).toEqual([
+      'set motor_poles = 12',
+      'map TAER1234',
+      'profile 0',
+      'set p_roll = 45',
+      'profile 2',
+      'set p_roll = 60',
+      'rateprofile 1',
+      'set roll_srate = 70',
+    ]);
+  });
+
+  it('re-selects the final profile when the last section was another one', () => {
+    const commands = buildReplayCommands(
+      parseScopedCLIDiff('profile 1\nset p_roll = 50\nprofile 0')
+    );
+
+    expect(commands).toEqual(['profile 1', 'set p_roll = 50', 'profile 0']);
+  });
+});
+
+describe('compareCLIDiffs', () => {
+  it('reports changed, missing and unexpected settings per scope', () => {
+    const expected = parseScopedCLIDiff(DIFF_ALL);
+    const actual = parseScopedCLIDiff(
+      DIFF_ALL.replace('set p_roll = 60', 'set p_roll = 45')
+        .replace('feature GPS\n', '')
+        .replace('set motor_poles = 12', 'set motor_poles = 12\nset gyro_lpf1_static_hz = 0')
+    );
+
+    expect(compareCLIDiffs(expected, actual)).toEqual([
+      { scope: 'master', key: 'feature GPS', expected: 'ON', actual: undefined },
+      { scope: 'profile 2', key: 'set p_roll', expected: '60', actual: '45' },
+      { scope: 'master', key: 'set gyro_lpf1_static_hz', actual: '0' },
+    ]);
+  });
+
+  it('finds nothing when the read-back matches', () => {
+    const parsed = parseScopedCLIDiff(DIFF_ALL);
+    expect(compareCLIDiffs(parsed, parseScopedCLIDiff(DIFF_ALL))).toEqual([]);
+  });
+});
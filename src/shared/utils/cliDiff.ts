@@ -0,0 +1,154 @@
+/**
+ * Scope-aware parsing of Betaflight `diff`/`dump` output.
+ *
+ * `set p_roll = 45` means different things under `profile 0` and
+ * `profile 2`, so every line is tagged with the profile or rate profile that
+ * was selected when it appeared. Used to replay a snapshot in the right
+ * profile context and to compare a restore's read-back against the snapshot.
+ */
+import type { CLIDiffEntry, CLIDiffResidual, CLIDiffScope } from '../types/cli.types';
+
+/**
+ * Lines that are not configuration: the diff command echo, batch wrappers,
+ * defaults/save, and board identity the FC won't take back.
+ */
+const NON_CONFIG_COMMANDS = new Set([
+  'diff',
+  'dump',
+  'batch',
+  'defaults',
+  'save',
+  'board_name',
+  'manufacturer_id',
+  'mcu_id',
+  'signature',
+]);
+
+/** On/off lists where `-NAME` turns an item off */
+const TOGGLE_COMMANDS = new Set(['feature', 'beeper', 'beacon']);
+
+/** Commands that occur once, with the rest of the line as value: `mixer QUADX`, `name My Quad` */
+const SINGLE_VALUE_COMMANDS = new Set(['mixer', 'name']);
+
+export interface ParsedCLIDiff {
+  entries: CLIDiffEntry[];
+  /** PID profile selected at the end of the diff (`# restore original profile selection`) */
+  profile?: number;
+  rateprofile?: number;
+}
+
+export function parseScopedCLIDiff(text: string): ParsedCLIDiff {
+  const result: ParsedCLIDiff = { entries: [] };
+  let scope: CLIDiffScope = 'master';
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      // Plain `diff` may mark the section with only a comment
+      const section = line.match(/^#\s*(profile|rateprofile)\s+(\d+)\s*$/);
+      if (section) scope = `${section[1] as 'profile' | 'rateprofile'} ${Number(section[2])}`;
+      continue;
+    }
+
+    const tokens = line.split(/\s+/);
+    const command = tokens[0].toLowerCase();
+    if (NON_CONFIG_COMMANDS.has(command)) continue;
+
+    if ((command === 'profile' || command === 'rateprofile') && /^\d+$/.test(tokens[1] ?? '')) {
+      const index = Number(tokens[1]);
+      result[command] = index;
+      scope = `${command} ${index}`;
+      continue;
+    }
+
+    result.entries.push({ scope, ...entryKey(line, command, tokens), line });
+  }
+
+  return result;
+}
+
+function entryKey(line: string, command: string, tokens: string[]): { key: string; value: string } {
+  const set = line.match(/^set\s+(\S+)\s*=\s*(.*)$/i);
+  if (set) return { key: `set ${set[1].toLowerCase()}`, value: set[2].trim() };
+
+  if (TOGGLE_COMMANDS.has(command) && tokens[1]) {
+    const off = tokens[1].startsWith('-');
+    return { key: `${command} ${tokens[1].replace(/^-/, '')}`, value: off ? 'OFF' : 'ON' };
+  }
+
+  // Indexed lists: aux 0 …, serial 1 …, adjrange 2 …, led 3 …
+  if (/^\d+$/.test(tokens[1] ?? '')) {
+    return { key: `${command} ${tokens[1]}`, value: tokens.slice(2).join(' ') };
+  }
+
+  // resource MOTOR 1 B06, dma ADC 1 0
+  if ((command === 'resource' || command === 'dma') && tokens.length >= 4) {
+    return { key: tokens.slice(0, 3).join(' '), value: tokens.slice(3).join(' ') };
+  }
+
+  if (command === 'map' && tokens[1]) return { key: 'map', value: tokens[1] };
+
+  if (SINGLE_VALUE_COMMANDS.has(command) && tokens[1]) {
+    return { key: command, value: tokens.slice(1).join(' ') };
+  }
+
+  return { key: line, value: '' };
+}
+
+/**
+ * CLI lines that replay a diff: each entry preceded by `profile N` /
+ * `rateprofile N` whenever its scope isn't the selected one, ending with the
+ * diff's own profile selection.
+ */
+export function buildReplayCommands(parsed: ParsedCLIDiff): string[] {
+  const commands: string[] = [];
+  const selected: { profile?: number; rateprofile?: number } = {};
+
+  const select = (kind: 'profile' | 'rateprofile', index: number) => {
+    if (selected[kind] === index) return;
+    commands.push(`${kind} ${index}`);
+    selected[kind] = index;
+  };
+
+  for (const entry of parsed.entries) {
+    const [kind, index] = entry.scope.split(' ');
+    if (kind === 'profile' || kind === 'rateprofile') select(kind, Number(index));
+    commands.push(entry.line);
+  }
+
+  if (parsed.profile !== undefined) select('profile', parsed.profile);
+  if (parsed.rateprofile !== undefined) select('rateprofile', parsed.rateprofile);
+  return commands;
+}
+
+/**
+ * Settings where `actual` differs from `expected`: changed or missing ones in
+ * `expected` order, then those only `actual` has.
+ */
+export function compareCLIDiffs(expected: ParsedCLIDiff, actual: ParsedCLIDiff): CLIDiffResidual[] {
+  const byKey = (entries: CLIDiffEntry[]) =>
+    new Map(entries.map((e) => [`${e.scope}|${e.key}`, e] as const));
+  const expectedMap = byKey(expected.entries);
+  const actualMap = byKey(actual.entries);
+  const residuals: CLIDiffResidual[] = [];
+
+  for (const [id, entry] of expectedMap) {
+    const found = actualMap.get(id);
+    if (!found || found.value !== entry.value) {
+      residuals.push({
+        scope: entry.scope,
+        key: entry.key,
+        expected: entry.value,
+        actual: found?.value,
+      });
+    }
+  }
+  for (const [id, entry] of actualMap) {
+    if (!expectedMap.has(id)) {
+      residuals.push({ scope: entry.scope, key: entry.key, actual: entry.value });
+    }
+  }
+  return residuals;
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { rateAt, rateTargetOf, fitRates, proposeRates, targetRateAt } from './rateCurves';
+import type { AxisRates, RatesConfiguration, RatesType } from '../types/pid.types';
+import type { AxisRatesAnalysis, RatesAnalysis } from '../types/analysis.types';
+
+const axisRates = (rcRate: number, rate: number, rcExpo: number): AxisRates => ({
+  rcRate,
+  rate,
+  rcExpo,
+  rateLimit: 1998,
+});
+
+/** Stock-ish ~670 deg/s curves in every rate system */
+const DEFAULTS: Record<RatesType, AxisRates> = {
+  BETAFLIGHT: axisRates(100, 70, 0),
+  RACEFLIGHT: axisRates(37, 80, 50),
+  KISS: axisRates(100, 70, 0),
+  ACTUAL: axisRates(7, 67, 54),
+  QUICK: axisRates(100, 67, 0),
+};
+
+describe('rateAt', () => {
+  it.each(Object.entries(DEFAULTS))('%s defaults reach ~670 deg/s at full stick', (type, r) => {
+    expect(rateAt(type as RatesType, r, 1)).toBeGreaterThan(650);
+    expect(rateAt(type as RatesType, r, 1)).toBeLessThan(690);
+  });
+
+  it('is odd-symmetric and zero at center', () => {
+    const r = DEFAULTS.BETAFLIGHT;
+    expect(rateAt('BETAFLIGHT', r, 0)).toBe(0);
+    expect(rateAt('BETAFLIGHT', r, -0.6)).toBeCloseTo(-rateAt('BETAFLIGHT', r, 0.6), 6);
+  });
+
+  it('clamps to the axis rate limit', () => {
+    expect(rateAt('ACTUAL', { ...DEFAULTS.ACTUAL, rateLimit: 500 }, 1)).toBe(500);
+  });
+
+  it('matches Actual rates at center and full stick', () => {
+    const r = DEFAULTS.ACTUAL;
+    expect(rateAt('ACTUAL', r, 0.001) / 0.001).toBeCloseTo(70, 0);
+    expect(rateAt('ACTUAL', r, 1)).toBeCloseTo(670, 6);
+  });
+});
+
+describe('rateTargetOf', () => {
+  it('reads Actual parameters directly', () => {
+    expect(rateTargetOf('ACTUAL', DEFAULTS.ACTUAL)).toEqual({
+      centerSensitivity: 70,
+      maxRate: 670,
+      expo: 0.54,
+    });
+  });
+
+  it('describes a Betaflight curve by its center and max rate', () => {
+    const target = rateTargetOf('BETAFLIGHT', DEFAULTS.BETAFLIGHT);
+    expect(target.maxRate).toBe(667);
+    expect(target.centerSensitivity).toBeGreaterThan(195);
+    expect(target.centerSensitivity).toBeLessThan(210);
+  });
+});
+
+describe('fitRates', () => {
+  it.each(['BETAFLIGHT', 'RACEFLIGHT', 'KISS', 'QUICK'] as RatesType[])(
+    'reproduces an Actual curve in %s rates',
+    (type) => {
+      const target = { centerSensitivity: 200, maxRate: 800, expo: 0.3 };
+      const fitted = fitRates(type, target, 1998);
+      const fittedMax = rateAt(type, fitted, 1);
+      expect(Math.abs(fittedMax - 800) / 800).toBeLessThan(0.05);
+      // Within 10% of max rate through the midrange — systems differ in curve shape
+      for (const s of [0.25, 0.5, 0.75]) {
+        expect(Math.abs(rateAt(type, fitted, s) - targetRateAt(target, s))).toBeLessThan(80);
+      }
+    }
+  );
+
+  it('maps Actual targets straight to CLI units', () => {
+    expect(fitRates('ACTUAL', { centerSensitivity: 200, maxRate: 800, expo: 0.3 }, 1998)).toEqual({
+      rcRate: 20,
+      rate: 80,
+      rcExpo: 30,
+      rateLimit: 1998,
+    });
+  });
+});
+
+describe('proposeRates', () => {
+  const current: RatesConfiguration = {
+    ratesType: 'ACTUAL',
+    roll: DEFAULTS.ACTUAL,
+    pitch: DEFAULTS.ACTUAL,
+    yaw: DEFAULTS.ACTUAL,
+  };
+  const unchanged = (): AxisRatesAnalysis => {
+    const t = rateTargetOf('ACTUAL', DEFAULTS.ACTUAL);
+    return {
+      usage: {
+        histogram: [],
+        fullStickPercent: 0,
+        centerPercent: 50,
+        p95Deflection: 0.8,
+        peakRateDegS: 600,
+      },
+      current: t,
+      target: t,
+      reasons: [],
+    };
+  };
+  const analysis = (): RatesAnalysis => ({
+    current,
+    source: 'rcCommand',
+    roll: unchanged(),
+    pitch: unchanged(),
+    yaw: unchanged(),
+    recommendations: [],
+    summary: '',
+  });
+
+  it('recommends nothing when no axis changes and the system stays the same', () => {
+    expect(proposeRates(analysis(), 'ACTUAL').recommendations).toEqual([]);
+  });
+
+  it('only touches axes with a recommended change', () => {
+    const a = analysis();
+    a.roll = { ...a.roll, target: { ...a.roll.target, maxRate: 770 }, reasons: ['Saturated.'] };
+
+    const { config, recommendations } = proposeRates(a, 'ACTUAL');
+
+    expect(recommendations).toEqual([
+      expect.objectContaining({
+        setting: 'roll_srate',
+        currentValue: 67,
+        recommendedValue: 77,
+        reason: 'Saturated.',
+        ruleId: 'R-USAGE-roll',
+      }),
+    ]);
+    expect(config.pitch).toEqual(current.pitch);
+  });
+
+  it('converts every axis and records rates_type when switching systems', () => {
+    const { config, recommendations } = proposeRates(analysis(), 'BETAFLIGHT');
+
+    expect(config.ratesType).toBe('BETAFLIGHT');
+    expect(Math.abs(rateAt('BETAFLIGHT', config.yaw, 1) - 670)).toBeLessThan(30);
+    expect(recommendations.find((r) => r.setting === 'rates_type')).toMatchObject({
+      currentValue: 3,
+      recommendedValue: 0,
+    });
+    expect(recommendations.filter((r) => r.setting.startsWith('yaw_')).length).toBeGreaterThan(0);
+  });
+});
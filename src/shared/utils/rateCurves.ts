@@ -0,0 +1,299 @@
+/**
+ * Betaflight rate curves for all five RatesType systems (ported from rc.c).
+ *
+ * Used by the rates analyzer to map setpoint back to stick deflection and by
+ * the renderer to draw curves and convert them between systems. Stick input
+ * is -1..1, rates are deg/s.
+ */
+import type { AxisRates, RatesConfiguration, RatesType } from '../types/pid.types';
+import type { RateTarget, RatesAnalysis, RatesRecommendation } from '../types/analysis.types';
+
+/** Rate systems in MSP_RC_TUNING order — the index is the `rates_type` value */
+export const RATES_TYPES: RatesType[] = ['BETAFLIGHT', 'RACEFLIGHT', 'KISS', 'ACTUAL', 'QUICK'];
+
+export const RATES_TYPE_LABELS: Record<RatesType, string> = {
+  BETAFLIGHT: 'Betaflight',
+  RACEFLIGHT: 'RaceFlight',
+  KISS: 'KISS',
+  ACTUAL: 'Actual',
+  QUICK: 'Quick',
+};
+
+/** BF clamps every curve to this setpoint regardless of rate_limit */
+export const SETPOINT_RATE_LIMIT = 1998;
+
+/** Parameter ranges the fitter searches, per rate system (CLI units) */
+const PARAM_LIMITS: Record<RatesType, { rcRate: number; rate: number }> = {
+  BETAFLIGHT: { rcRate: 255, rate: 100 },
+  RACEFLIGHT: { rcRate: 255, rate: 255 },
+  KISS: { rcRate: 255, rate: 99 },
+  ACTUAL: { rcRate: 255, rate: 255 },
+  QUICK: { rcRate: 255, rate: 255 },
+};
+
+/** Stick positions the fitter compares curves at — denser near center */
+const FIT_POINTS = [
+  0.02, 0.05, 0.1, 0.15, 0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8,
+  0.85, 0.9, 0.95, 1,
+];
+
+/** Full stick is weighted higher so max rate lands close to the target */
+const MAX_RATE_WEIGHT = 4;
+
+const CENTER_PROBE = 0.001;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+/**
+ * Commanded rate (deg/s) for a stick position on one axis.
+ *
+ * @param stick - Deflection, -1 (full left/down) to 1 (full right/up)
+ */
+export function rateAt(ratesType: RatesType, rates: AxisRates, stick: number): number {
+  const x = clamp(stick, -1, 1);
+  const abs = Math.abs(x);
+  const expo = rates.rcExpo / 100;
+  let angleRate: number;
+
+  switch (ratesType) {
+    case 'RACEFLIGHT': {
+      const curved = (1 + expo * (x * x - 1)) * x;
+      angleRate = 10 * rates.rcRate * curved * (1 + (abs * rates.rate) / 100);
+      break;
+    }
+    case 'KISS': {
+      const useRates = 1 / clamp(1 - (abs * rates.rate) / 100, 0.01, 1);
+      const command = (x * x * x * expo + x * (1 - expo)) * (rates.rcRate / 1000);
+      angleRate = 2000 * useRates * command;
+      break;
+    }
+    case 'ACTUAL': {
+      const curved = abs * (Math.pow(x, 5) * expo + x * (1 - expo));
+      const center = rates.rcRate * 10;
+      const stickMovement = Math.max(0, rates.rate * 10 - center);
+      angleRate = x * center + stickMovement * curved;
+      break;
+    }
+    case 'QUICK': {
+      const rcRate = rates.rcRate * 2;
+      if (rcRate === 0) return 0;
+      const maxDPS = Math.max(rates.rate * 10, rcRate);
+      const superFactorConfig = (maxDPS / rcRate - 1) / (maxDPS / rcRate);
+      const curve = abs * abs * abs * expo + abs * (1 - expo);
+      const superFactor = 1 / clamp(1 - curve * superFactorConfig, 0.01, 1);
+      angleRate = x * rcRate * superFactor;
+      break;
+    }
+    case 'BETAFLIGHT':
+    default: {
+      let rcRate = rates.rcRate / 100;
+      if (rcRate > 2) rcRate += 14.54 * (rcRate - 2);
+      const curved = expo ? x * abs * abs * abs * expo + x * (1 - expo) : x;
+      angleRate = 200 * rcRate * curved;
+      if (rates.rate) {
+        angleRate *= 1 / clamp(1 - (abs * rates.rate) / 100, 0.01, 1);
+      }
+      break;
+    }
+  }
+
+  const limit = Math.min(rates.rateLimit || SETPOINT_RATE_LIMIT, SETPOINT_RATE_LIMIT);
+  return clamp(angleRate, -limit, limit);
+}
+
+/** Rate at a stick position for a RateTarget (Actual rates math, continuous) */
+export function targetRateAt(target: RateTarget, stick: number): number {
+  const x = clamp(stick, -1, 1);
+  const abs = Math.abs(x);
+  const curved = abs * (Math.pow(x, 5) * target.expo + x * (1 - target.expo));
+  const stickMovement = Math.max(0, target.maxRate - target.centerSensitivity);
+  return x * target.centerSensitivity + stickMovement * curved;
+}
+
+function curveError(curve: (stick: number) => number, target: (stick: number) => number): number {
+  let err = 0;
+  for (const s of FIT_POINTS) {
+    const d = curve(s) - target(s);
+    err += s === 1 ? MAX_RATE_WEIGHT * d * d : d * d;
+  }
+  return err;
+}
+
+/**
+ * Describe a curve in any rate system as center sensitivity, max rate and
+ * the Actual-style expo that reproduces its shape most closely.
+ */
+export function rateTargetOf(ratesType: RatesType, rates: AxisRates): RateTarget {
+  const centerSensitivity = Math.round(rateAt(ratesType, rates, CENTER_PROBE) / CENTER_PROBE);
+  const maxRate = Math.round(rateAt(ratesType, rates, 1));
+  if (ratesType === 'ACTUAL') {
+    return { centerSensitivity, maxRate, expo: rates.rcExpo / 100 };
+  }
+
+  const curve = (s: number) => rateAt(ratesType, rates, s);
+  let bestExpo = 0;
+  let bestErr = Infinity;
+  for (let e = 0; e <= 100; e++) {
+    const err = curveError(curve, (s) =>
+      targetRateAt({ centerSensitivity, maxRate, expo: e / 100 }, s)
+    );
+    if (err < bestErr) {
+      bestErr = err;
+      bestExpo = e / 100;
+    }
+  }
+  return { centerSensitivity, maxRate, expo: bestExpo };
+}
+
+/**
+ * Find the `ratesType` parameters (CLI units) whose curve best matches `target`.
+ * Actual and Quick map directly; the other systems are fitted by a
+ * coarse-then-fine grid search over rc_rate, srate and expo.
+ */
+export function fitRates(ratesType: RatesType, target: RateTarget, rateLimit: number): AxisRates {
+  const limits = PARAM_LIMITS[ratesType];
+  const expo = clamp(Math.round(target.expo * 100), 0, 100);
+  const goal = (s: number) => targetRateAt(target, s);
+
+  if (ratesType === 'ACTUAL') {
+    return {
+      rcRate: clamp(Math.round(target.centerSensitivity / 10), 1, limits.rcRate),
+      rate: clamp(Math.round(target.maxRate / 10), 0, limits.rate),
+      rcExpo: expo,
+      rateLimit,
+    };
+  }
+
+  const errorOf = (candidate: AxisRates) =>
+    curveError((s) => rateAt(ratesType, candidate, s), goal);
+
+  if (ratesType === 'QUICK') {
+    const base = {
+      rcRate: clamp(Math.round(target.centerSensitivity / 2), 1, limits.rcRate),
+      rate: clamp(Math.round(target.maxRate / 10), 0, limits.rate),
+      rateLimit,
+    };
+    let best: AxisRates = { ...base, rcExpo: 0 };
+    let bestErr = errorOf(best);
+    for (let e = 1; e <= 100; e++) {
+      const err = errorOf({ ...base, rcExpo: e });
+      if (err < bestErr) {
+        bestErr = err;
+        best = { ...base, rcExpo: e };
+      }
+    }
+    return best;
+  }
+
+  const search = (
+    rcRange: [number, number],
+    rateRange: [number, number],
+    expoRange: [number, number],
+    step: number,
+    start: AxisRates
+  ): AxisRates => {
+    let best = start;
+    let bestErr = errorOf(start);
+    for (let rc = rcRange[0]; rc <= rcRange[1]; rc += step) {
+      for (let r = rateRange[0]; r <= rateRange[1]; r += step) {
+        for (let e = expoRange[0]; e <= expoRange[1]; e += step) {
+          const candidate = { rcRate: rc, rate: r, rcExpo: e, rateLimit };
+          const err = errorOf(candidate);
+          if (err < bestErr) {
+            bestErr = err;
+            best = candidate;
+          }
+        }
+      }
+    }
+    return best;
+  };
+
+  const COARSE = 5;
+  const coarse = search([1, limits.rcRate], [0, limits.rate], [0, 100], COARSE, {
+    rcRate: 100,
+    rate: 0,
+    rcExpo: 0,
+    rateLimit,
+  });
+  const around = (v: number, max: number, min = 0): [number, number] => [
+    Math.max(min, v - COARSE),
+    Math.min(max, v + COARSE),
+  ];
+  return search(
+    around(coarse.rcRate, limits.rcRate, 1),
+    around(coarse.rate, limits.rate),
+    around(coarse.rcExpo, 100),
+    1,
+    coarse
+  );
+}
+
+const AXES = ['roll', 'pitch', 'yaw'] as const;
+
+/**
+ * Turn a rates analysis into concrete settings for `ratesType`.
+ *
+ * Axes with no recommended change keep their values when the rate system
+ * stays the same; switching systems converts every axis so the feel is kept
+ * and adds a `rates_type` change.
+ */
+export function proposeRates(
+  analysis: RatesAnalysis,
+  ratesType: RatesType
+): { config: RatesConfiguration; recommendations: RatesRecommendation[] } {
+  const current = analysis.current;
+  const switching = ratesType !== current.ratesType;
+  const config: RatesConfiguration = { ...current, ratesType };
+  const recommendations: RatesRecommendation[] = [];
+
+  for (const axis of AXES) {
+    const axisAnalysis = analysis[axis];
+    const changed = axisAnalysis.reasons.length > 0;
+    if (!changed && !switching) continue;
+
+    const proposed = fitRates(ratesType, axisAnalysis.target, current[axis].rateLimit);
+    config[axis] = proposed;
+
+    const reason = changed
+      ? axisAnalysis.reasons.join(' ')
+      : `Keeps your current ${axis} feel in ${RATES_TYPE_LABELS[ratesType]} rates.`;
+    const fields: {
+      key: keyof AxisRates;
+      setting: string;
+      impact: RatesRecommendation['impact'];
+    }[] = [
+      { key: 'rcRate', setting: `${axis}_rc_rate`, impact: 'precision' },
+      { key: 'rate', setting: `${axis}_srate`, impact: 'response' },
+      { key: 'rcExpo', setting: `${axis}_expo`, impact: 'precision' },
+    ];
+    for (const { key, setting, impact } of fields) {
+      if (proposed[key] === current[axis][key]) continue;
+      recommendations.push({
+        setting,
+        currentValue: current[axis][key],
+        recommendedValue: proposed[key],
+        reason,
+        impact,
+        confidence: changed ? 'medium' : 'high',
+        ruleId: changed ? `R-USAGE-${axis}` : `R-CONVERT-${axis}`,
+      });
+    }
+  }
+
+  if (switching) {
+    recommendations.push({
+      setting: 'rates_type',
+      currentValue: RATES_TYPES.indexOf(current.ratesType),
+      recommendedValue: RATES_TYPES.indexOf(ratesType),
+      reason:
+        `Switches from ${RATES_TYPE_LABELS[current.ratesType]} to ` +
+        `${RATES_TYPE_LABELS[ratesType]} rates. The values above reproduce the proposed curves.`,
+      impact: 'both',
+      confidence: 'high',
+      ruleId: 'R-TYPE',
+    });
+  }
+
+  return { config, recommendations };
+}
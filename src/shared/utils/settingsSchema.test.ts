@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySettingsSchema,
+  checkSetting,
+  checkSettingValue,
+  schemaSettingName,
+} from './settingsSchema';
+import type { SettingsSchema } from '../types/cli.types';
+
+const schema: SettingsSchema = {
+  firmware: 'BTFL 4.5.1',
+  fetchedAt: '2026-10-01T00:00:00.000Z',
+  settings: {
+    gyro_lpf1_static_hz: {
+      name: 'gyro_lpf1_static_hz',
+      value: '250',
+      type: 'range',
+      min: 0,
+      max: 1000,
+    },
+    p_roll: { name: 'p_roll', value: '45', type: 'range', scope: 'profile', min: 0, max: 250 },
+    angle_p_gain: { name: 'angle_p_gain', value: '50', type: 'range', min: 0, max: 200 },
+    rates_type: {
+      name: 'rates_type',
+      value: 'ACTUAL',
+      type: 'lookup',
+      allowedValues: ['BETAFLIGHT', 'RACEFLIGHT', 'KISS', 'ACTUAL', 'QUICK'],
+    },
+  },
+};
+
+describe('schemaSettingName', () => {
+  it('maps PID recommendation names to CLI names', () => {
+    expect(schemaSettingName('pid_roll_p', schema)).toBe('p_roll');
+    expect(schemaSettingName('pid_level_p', schema)).toBe('angle_p_gain');
+    expect(schemaSettingName('gyro_lpf1_static_hz', schema)).toBe('gyro_lpf1_static_hz');
+  });
+
+  it('falls back to older level names when the firmware uses them', () => {
+    const old = { ...schema, settings: { p_level: { name: 'p_level', value: '50' } } };
+    expect(schemaSettingName('pid_level_p', old)).toBe('p_level');
+  });
+});
+
+describe('checkSettingValue', () => {
+  it('clamps numbers outside the range', () => {
+    expect(checkSettingValue(schema.settings.gyro_lpf1_static_hz, 1200)).toMatchObject({
+      status: 'clamped',
+      adjustedValue: 1000,
+      allowed: '0 - 1000',
+    });
+    expect(checkSettingValue(schema.settings.gyro_lpf1_static_hz, '300')).toBeNull();
+  });
+
+  it('rejects non-integers for range settings', () => {
+    expect(checkSettingValue(schema.settings.gyro_lpf1_static_hz, 'abc')?.status).toBe('invalid');
+    expect(checkSettingValue(schema.settings.gyro_lpf1_static_hz, '')?.status).toBe('invalid');
+  });
+
+  it('accepts lookup names and MSP indexes, rejects anything else', () => {
+    const info = schema.settings.rates_type;
+    expect(checkSettingValue(info, 'actual')).toBeNull();
+    expect(checkSettingValue(info, 3)).toBeNull();
+    expect(checkSettingValue(info, 7)?.status).toBe('invalid');
+    expect(checkSettingValue(info, '3')?.status).toBe('invalid');
+  });
+});
+
+describe('checkSetting', () => {
+  it('reports settings the firmware does not have', () => {
+    expect(checkSetting(schema, 'dyn_idle_min_rpm', 30)).toMatchObject({
+      status: 'unknown',
+      message: 'dyn_idle_min_rpm is not a setting on BTFL 4.5.1',
+    });
+  });
+
+  it('keeps the recommendation name on the check', () => {
+    expect(checkSetting(schema, 'pid_roll_p', 300)).toMatchObject({
+      setting: 'pid_roll_p',
+      adjustedValue: 250,
+    });
+  });
+});
+
+describe('applySettingsSchema', () => {
+  it('returns clamped copies and reports every problem', () => {
+    const recs = [
+      { setting: 'gyro_lpf1_static_hz', currentValue: 250, recommendedValue: 1500 },
+      { setting: 'pid_roll_p', currentValue: 45, recommendedValue: 50 },
+      { setting: 'rates_type', currentValue: 3, recommendedValue: 9 },
+    ];
+
+    const { recommendations, checks } = applySettingsSchema(schema, recs);
+
+    expect(recommendations.map((r) => r.recommendedValue)).toEqual([1000, 50, 9]);
+    expect(recs[0].recommendedValue).toBe(1500);
+    expect(checks.map((c) => [c.setting, c.status])).toEqual([
+      ['gyro_lpf1_static_hz', 'clamped'],
+      ['rates_type', 'invalid'],
+    ]);
+  });
+});
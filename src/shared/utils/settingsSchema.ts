@@ -0,0 +1,131 @@
+/**
+ * Validation against the connected firmware's settings schema (full `get`).
+ *
+ * The analyzers' own bounds are tuning policy; these are the hard limits the
+ * firmware enforces. Checking first means nothing is sent that the FC would
+ * reject with "Allowed range" halfway through an apply.
+ */
+import type { CLISettingInfo, SettingCheck, SettingsSchema } from '../types/cli.types';
+
+/**
+ * CLI names for the LEVEL controller slots of the app's pid_level_<term>
+ * names, newest firmware first (4.5, 4.2-4.4, older).
+ */
+const LEVEL_CLI_NAMES: Record<string, string[]> = {
+  pid_level_p: ['angle_p_gain', 'angle_level_strength', 'p_level'],
+  pid_level_i: ['horizon_level_strength', 'i_level'],
+  pid_level_d: ['horizon_transition', 'd_level'],
+};
+
+/** Maps a recommendation setting to its CLI name — they differ only for PIDs */
+export function schemaSettingName(setting: string, schema: SettingsSchema): string {
+  const pid = setting.match(/^pid_(roll|pitch|yaw|mag)_(p|i|d)$/i);
+  if (pid) return `${pid[2].toLowerCase()}_${pid[1].toLowerCase()}`;
+  const candidates = LEVEL_CLI_NAMES[setting];
+  if (candidates) return candidates.find((name) => name in schema.settings) ?? candidates[0];
+  return setting;
+}
+
+export function describeAllowed(info: CLISettingInfo): string | undefined {
+  if (info.allowedValues) return info.allowedValues.join(', ');
+  if (info.min !== undefined && info.max !== undefined) return `${info.min} - ${info.max}`;
+  return undefined;
+}
+
+/**
+ * Checks one value against a setting's allowed values or range. Returns null
+ * when it fits. Numbers are also accepted as lookup indexes, since MSP writes
+ * lookups that way (e.g. rates_type = 3).
+ */
+export function checkSettingValue(
+  info: CLISettingInfo,
+  value: number | string
+): SettingCheck | null {
+  const allowed = describeAllowed(info);
+
+  if (info.allowedValues) {
+    const text = String(value).trim().toUpperCase();
+    if (info.allowedValues.some((v) => v.toUpperCase() === text)) return null;
+    if (
+      typeof value === 'number' &&
+      Number.isInteger(value) &&
+      value >= 0 &&
+      value < info.allowedValues.length
+    ) {
+      return null;
+    }
+    return {
+      setting: info.name,
+      value,
+      status: 'invalid',
+      allowed,
+      message: `${info.name} = ${value} is not one of: ${allowed}`,
+    };
+  }
+
+  if (info.min !== undefined && info.max !== undefined) {
+    const n = typeof value === 'number' ? value : Number(String(value).trim() || NaN);
+    if (!Number.isInteger(n)) {
+      return {
+        setting: info.name,
+        value,
+        status: 'invalid',
+        allowed,
+        message: `${info.name} = ${value} is not an integer`,
+      };
+    }
+    if (n < info.min || n > info.max) {
+      const adjustedValue = Math.min(Math.max(n, info.min), info.max);
+      return {
+        setting: info.name,
+        value,
+        status: 'clamped',
+        adjustedValue,
+        allowed,
+        message: `${info.name} = ${value} is outside ${allowed}, clamped to ${adjustedValue}`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/** Checks a value by recommendation or CLI name. Returns null when it fits. */
+export function checkSetting(
+  schema: SettingsSchema,
+  setting: string,
+  value: number | string
+): SettingCheck | null {
+  const info = schema.settings[schemaSettingName(setting, schema)];
+  if (!info) {
+    return {
+      setting,
+      value,
+      status: 'unknown',
+      message: `${setting} is not a setting on ${schema.firmware}`,
+    };
+  }
+  const check = checkSettingValue(info, value);
+  return check ? { ...check, setting } : null;
+}
+
+/**
+ * Checks recommendations against the schema, rounded as they are written.
+ * Out-of-range values come back clamped; invalid and unknown ones are
+ * returned unchanged and only reported.
+ */
+export function applySettingsSchema<T extends { setting: string; recommendedValue: number }>(
+  schema: SettingsSchema,
+  recommendations: T[]
+): { recommendations: T[]; checks: SettingCheck[] } {
+  const checks: SettingCheck[] = [];
+  const adjusted = recommendations.map((rec) => {
+    const check = checkSetting(schema, rec.setting, Math.round(rec.recommendedValue));
+    if (!check) return rec;
+    checks.push(check);
+    return check.adjustedValue !== undefined
+      ? { ...rec, recommendedValue: check.adjustedValue }
+      : rec;
+  });
+  return { recommendations: adjusted, checks };
+}
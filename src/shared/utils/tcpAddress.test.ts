@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseTcpAddress, isTcpAddress, formatTcpAddress } from './tcpAddress';
+
+describe('parseTcpAddress', () => {
+  it('parses host:port', () => {
+    expect(parseTcpAddress('127.0.0.1:5761')).toEqual({ host: '127.0.0.1', port: 5761 });
+    expect(parseTcpAddress('esp-bridge.local:23')).toEqual({ host: 'esp-bridge.local', port: 23 });
+  });
+
+  it('accepts tcp:// prefix and surrounding whitespace', () => {
+    expect(parseTcpAddress('  tcp://192.168.4.1:5761 ')).toEqual({
+      host: '192.168.4.1',
+      port: 5761,
+    });
+  });
+
+  it('parses bracketed IPv6 hosts', () => {
+    expect(parseTcpAddress('[::1]:5761')).toEqual({ host: '::1', port: 5761 });
+  });
+
+  it('rejects serial port paths', () => {
+    expect(parseTcpAddress('/dev/ttyACM0')).toBeNull();
+    expect(parseTcpAddress('/dev/tty.usbmodem0x80000001')).toBeNull();
+    expect(parseTcpAddress('COM3')).toBeNull();
+  });
+
+  it('rejects missing or out-of-range ports', () => {
+    expect(parseTcpAddress('localhost')).toBeNull();
+    expect(parseTcpAddress('localhost:')).toBeNull();
+    expect(parseTcpAddress('localhost:0')).toBeNull();
+    expect(parseTcpAddress('localhost:70000')).toBeNull();
+  });
+});
+
+describe('isTcpAddress / formatTcpAddress', () => {
+  it('detects network addresses', () => {
+    expect(isTcpAddress('localhost:5761')).toBe(true);
+    expect(isTcpAddress('/dev/ttyUSB0')).toBe(false);
+  });
+
+  it('formats canonical tcp:// form', () => {
+    expect(formatTcpAddress({ host: 'localhost', port: 5761 })).toBe('tcp://localhost:5761');
+    expect(formatTcpAddress({ host: '::1', port: 5761 })).toBe('tcp://[::1]:5761');
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Parse network MSP endpoints entered in place of a serial port path.
+ * Accepts `host:port` or `tcp://host:port` (IPv6 hosts in brackets).
+ * Used by the renderer for input validation and by MSPConnection to pick a transport.
+ */
+import { MSP } from '../constants';
+
+export interface TcpAddress {
+  host: string;
+  port: number;
+}
+
+const TCP_ADDRESS_RE = /^(?:tcp:\/\/)?(\[[0-9a-fA-F:]+\]|[A-Za-z0-9.-]+):(\d{1,5})$/;
+
+export function parseTcpAddress(input: string): TcpAddress | null {
+  const match = input.trim().match(TCP_ADDRESS_RE);
+  if (!match) return null;
+
+  const port = parseInt(match[2], 10);
+  if (port < 1 || port > 65535) return null;
+
+  const host = match[1].startsWith('[') ? match[1].slice(1, -1) : match[1];
+  return { host, port };
+}
+
+export function isTcpAddress(input: string): boolean {
+  return parseTcpAddress(input) !== null;
+}
+
+/** Canonical `tcp://host:port` form, used as the connection's port path */
+export function formatTcpAddress({ host, port }: TcpAddress): string {
+  return `tcp://${host.includes(':') ? `[${host}]` : host}:${port}`;
+}
+
+/** Default address for a local Betaflight SITL instance */
+export const DEFAULT_SITL_ADDRESS = `127.0.0.1:${MSP.SITL_TCP_PORT}`;